@@ -1,17 +1,8 @@
 import type { LoaderFunctionArgs } from 'react-router';
-import { Outlet, useLoaderData, useNavigate } from 'react-router';
+import { Outlet, useLoaderData, useParams } from 'react-router';
 import { Suspense, useState, useEffect } from 'react';
-import {
-  Box,
-  CircularProgress,
-  AppBar,
-  Toolbar,
-  ToggleButton,
-  ToggleButtonGroup,
-  Typography,
-  Stack,
-} from '@mui/material';
-import { AccountTree as TreeIcon, Folder as FolderIcon, Map as MapIcon } from '@mui/icons-material';
+import { Box, CircularProgress, AppBar, Toolbar, Typography, Stack } from '@mui/material';
+import { ResourceProjectToggle } from '@hierarchidb/ui-core';
 import { loadTree, LoadTreeArgs } from '~/loader';
 import { TreeConsoleIntegration } from '~/components/TreeConsoleIntegration';
 import { UserLoginButton } from '@hierarchidb/ui-usermenu';
@@ -34,16 +25,16 @@ export async function clientLoader(args: LoaderFunctionArgs) {
 
 export default function TLayout() {
   const data = useLoaderData() as any; // Type workaround for rootNode property
-  const navigate = useNavigate();
+  const { pageNodeId } = useParams();
   const [trees, setTrees] = useState<Tree[]>([]);
-  const [selectedTreeId, setSelectedTreeId] = useState<string | null>(data.tree?.id || null);
+  const selectedTreeId: string | undefined = data.tree?.id;
   // Load available trees
   useEffect(() => {
     const loadTrees = async () => {
       try {
         const client = await WorkerAPIClient.getSingleton();
-        const api = client.getAPI();
-        const availableTrees = await api.getTrees();
+        const queryAPI = await client.getAPI().getQueryAPI();
+        const availableTrees = await queryAPI.listTrees();
         setTrees(availableTrees);
       } catch (error) {
         console.error('Failed to load trees:', error);
@@ -52,19 +43,19 @@ export default function TLayout() {
     loadTrees();
   }, []);
 
-  // Update selected tree when route changes
-  useEffect(() => {
-    if (data.tree?.id) {
-      setSelectedTreeId(data.tree.id);
+  // Last visited page per tree, shared with the home page toggle
+  const getSavedPageNodeId = (type: 'resources' | 'projects'): string | null => {
+    try {
+      return sessionStorage.getItem(`lastPageNodeId_${type === 'resources' ? 'r' : 'p'}`);
+    } catch {
+      return null;
     }
-  }, [data.tree?.id]);
-
-  // Handle tree switch
-  const handleTreeChange = (_event: React.MouseEvent<HTMLElement>, newTreeId: string | null) => {
-    if (newTreeId && newTreeId !== selectedTreeId) {
-      setSelectedTreeId(newTreeId);
-      // Navigate to the new tree's root
-      navigate(`/t/${newTreeId}`);
+  };
+  const savePageNodeId = (type: 'resources' | 'projects', pageNodeId: string) => {
+    try {
+      sessionStorage.setItem(`lastPageNodeId_${type === 'resources' ? 'r' : 'p'}`, pageNodeId);
+    } catch {
+      // Ignore storage errors
     }
   };
 
@@ -80,26 +71,17 @@ export default function TLayout() {
 
           {/* Tree Switcher Button Group */}
           <Stack direction="row" spacing={2} sx={{ flexGrow: 1 }}>
-            <ToggleButtonGroup
-              value={selectedTreeId || undefined}
-              exclusive
-              onChange={handleTreeChange}
-              aria-label="tree selection"
+            <ResourceProjectToggle
+              selected={
+                selectedTreeId === 'r' ? 'resources' : selectedTreeId === 'p' ? 'projects' : 'none'
+              }
+              currentPageNodeId={pageNodeId}
+              getSavedPageNodeId={getSavedPageNodeId}
+              savePageNodeId={savePageNodeId}
+              trees={trees}
+              selectedTreeId={selectedTreeId}
               size="small"
-            >
-              {trees.map((tree) => (
-                <ToggleButton key={tree.id} value={tree.id} aria-label={tree.name}>
-                  {tree.name.toLowerCase().includes('project') ? (
-                    <FolderIcon sx={{ mr: 1, fontSize: 20 }} />
-                  ) : tree.name.toLowerCase().includes('resource') ? (
-                    <MapIcon sx={{ mr: 1, fontSize: 20 }} />
-                  ) : (
-                    <TreeIcon sx={{ mr: 1, fontSize: 20 }} />
-                  )}
-                  {tree.name}
-                </ToggleButton>
-              ))}
-            </ToggleButtonGroup>
+            />
           </Stack>
 
           {/* User Login Button - Right Aligned */}
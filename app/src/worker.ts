@@ -3,6 +3,8 @@
  * This file serves as the worker entry that will be built by Vite
  */
 
+// Register the plugins' worker modules before the worker initializes
+import './workerPlugins';
 // Import the actual worker implementation
 // Import the worker module from the runtime-worker package
 // Import the worker module from the runtime-worker package
@@ -0,0 +1,9 @@
+/**
+ * Worker-side plugin modules
+ * Imported by the worker entry before the runtime worker, which starts them during initialization
+ */
+
+import { createImportExportWorkerModule } from '@hierarchidb/feature-import-export-plugin';
+import { registerWorkerPluginModule } from '@hierarchidb/runtime-worker';
+
+registerWorkerPluginModule(createImportExportWorkerModule());
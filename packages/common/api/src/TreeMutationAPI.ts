@@ -1,8 +1,11 @@
-import type { TreeId, NodeId, NodeType } from '@hierarchidb/common-core';
+import type { CommandScope, TreeId, NodeId, NodeType, RevisionId } from '@hierarchidb/common-core';
 
 /**
  * データ変更API
  * ノードの作成、更新、削除、移動機能を提供
+ *
+ * 各メソッドの `scope` を指定すると、同じ groupId の操作は Undo/Redo で1単位として扱われ、
+ * 履歴は sourceViewId ごとに分離される。
  */
 export interface TreeMutationAPI {
   /**
@@ -13,15 +16,19 @@ export interface TreeMutationAPI {
    * @param params.parentId - 親ノードのID
    * @param params.name - ノード名
    * @param params.description - ノードの説明（オプション）
+   * @param scope - Undo/Redoのグループ・ビュー指定（オプション）
    * @returns 成功時は作成されたノードID、失敗時はエラー情報
    */
-  createNode(params: {
-    nodeType: NodeType;
-    treeId: TreeId;
-    parentId: NodeId;
-    name: string;
-    description?: string;
-  }): Promise<{ success: true; nodeId: NodeId } | { success: false; error: string }>;
+  createNode(
+    params: {
+      nodeType: NodeType;
+      treeId: TreeId;
+      parentId: NodeId;
+      name: string;
+      description?: string;
+    },
+    scope?: CommandScope
+  ): Promise<{ success: true; nodeId: NodeId } | { success: false; error: string }>;
 
   /**
    * 既存ノードの情報を更新
@@ -29,13 +36,17 @@ export interface TreeMutationAPI {
    * @param params.nodeId - 更新対象ノードのID
    * @param params.name - 新しいノード名（オプション）
    * @param params.description - 新しい説明（オプション）
+   * @param scope - Undo/Redoのグループ・ビュー指定（オプション）
    * @returns 成功・失敗の結果
    */
-  updateNode(params: {
-    nodeId: NodeId;
-    name?: string;
-    description?: string;
-  }): Promise<{ success: boolean; error?: string }>;
+  updateNode(
+    params: {
+      nodeId: NodeId;
+      name?: string;
+      description?: string;
+    },
+    scope?: CommandScope
+  ): Promise<{ success: boolean; error?: string }>;
 
   /**
    * ノードを別の親に移動
@@ -43,49 +54,132 @@ export interface TreeMutationAPI {
    * @param params.nodeIds - 移動対象ノードIDの配列
    * @param params.toParentId - 移動先親ノードのID
    * @param params.onNameConflict - 名前衝突時の対処法（デフォルト: 'error'）
+   * @param scope - Undo/Redoのグループ・ビュー指定（オプション）
    * @returns 成功・失敗の結果
    */
-  moveNodes(params: {
-    nodeIds: NodeId[];
-    toParentId: NodeId;
-    onNameConflict?: 'error' | 'auto-rename';
-  }): Promise<{ success: boolean; error?: string }>;
+  moveNodes(
+    params: {
+      nodeIds: NodeId[];
+      toParentId: NodeId;
+      onNameConflict?: 'error' | 'auto-rename';
+    },
+    scope?: CommandScope
+  ): Promise<{ success: boolean; error?: string }>;
 
   /**
    * ノードを複製
    * @param params - 複製パラメータ
    * @param params.nodeIds - 複製対象ノードIDの配列
    * @param params.toParentId - 複製先親ノードのID（省略時は元の親）
+   * @param scope - Undo/Redoのグループ・ビュー指定（オプション）
    * @returns 成功時は複製されたノードIDの配列、失敗時はエラー情報
    */
-  duplicateNodes(params: {
-    nodeIds: NodeId[];
-    toParentId?: NodeId;
-  }): Promise<{ success: true; nodeIds: NodeId[] } | { success: false; error: string }>;
+  duplicateNodes(
+    params: {
+      nodeIds: NodeId[];
+      toParentId?: NodeId;
+    },
+    scope?: CommandScope
+  ): Promise<{ success: true; nodeIds: NodeId[] } | { success: false; error: string }>;
 
   /**
    * ノードを完全削除
    * @param nodeIds - 削除対象ノードIDの配列
+   * @param scope - Undo/Redoのグループ・ビュー指定（オプション）
    * @returns 成功・失敗の結果
    */
-  removeNodes(nodeIds: NodeId[]): Promise<{ success: boolean; error?: string }>;
+  removeNodes(
+    nodeIds: NodeId[],
+    scope?: CommandScope
+  ): Promise<{ success: boolean; error?: string }>;
 
   /**
    * ノードをゴミ箱に移動
    * @param nodeIds - ゴミ箱移動対象ノードIDの配列
+   * @param scope - Undo/Redoのグループ・ビュー指定（オプション）
    * @returns 成功・失敗の結果
    */
-  moveNodesToTrash(nodeIds: NodeId[]): Promise<{ success: boolean; error?: string }>;
+  moveNodesToTrash(
+    nodeIds: NodeId[],
+    scope?: CommandScope
+  ): Promise<{ success: boolean; error?: string }>;
 
   /**
    * ノードをゴミ箱から復元
    * @param params - 復元パラメータ
    * @param params.nodeIds - 復元対象ノードIDの配列
    * @param params.toParentId - 復元先親ノードのID（省略時は元の親）
+   * @param scope - Undo/Redoのグループ・ビュー指定（オプション）
+   * @returns 成功・失敗の結果
+   */
+  recoverNodesFromTrash(
+    params: {
+      nodeIds: NodeId[];
+      toParentId?: NodeId;
+    },
+    scope?: CommandScope
+  ): Promise<{ success: boolean; error?: string }>;
+
+  /**
+   * ノードを保存済みリビジョンの状態に戻す（Undo可能）
+   * @param params - 復元パラメータ
+   * @param params.nodeId - 復元対象ノードのID
+   * @param params.revisionId - 復元するリビジョンのID
+   * @param params.includeDescendants - 子孫もリビジョン作成時点の状態に戻すか（デフォルト: false）
+   * @param scope - Undo/Redoのグループ・ビュー指定（オプション）
+   * @returns 成功・失敗の結果
+   */
+  restoreNodeRevision(
+    params: {
+      nodeId: NodeId;
+      revisionId: RevisionId;
+      includeDescendants?: boolean;
+    },
+    scope?: CommandScope
+  ): Promise<{ success: boolean; error?: string }>;
+
+  /**
+   * ツリーを作成（ルート・ゴミ箱・スーパールートノードも作成される）
+   * ツリー操作はUndo/Redoの対象外
+   * @param params - 作成パラメータ
+   * @param params.name - ツリー名
+   * @param params.treeId - ツリーID（オプション、省略時は自動生成。英数字・-・_のみ）
+   * @returns 成功時は作成されたツリーID、失敗時はエラー情報
+   */
+  createTree(params: {
+    name: string;
+    treeId?: TreeId;
+  }): Promise<{ success: true; treeId: TreeId } | { success: false; error: string }>;
+
+  /**
+   * ツリー名を変更（ルートノード名も合わせて変更）
+   * @param params - 変更パラメータ
+   * @param params.treeId - 対象ツリーのID
+   * @param params.name - 新しいツリー名
    * @returns 成功・失敗の結果
    */
-  recoverNodesFromTrash(params: {
-    nodeIds: NodeId[];
-    toParentId?: NodeId;
+  renameTree(params: {
+    treeId: TreeId;
+    name: string;
   }): Promise<{ success: boolean; error?: string }>;
+
+  /**
+   * ツリーをアーカイブ、またはアーカイブを解除（組み込みツリーは不可）
+   * @param params - アーカイブパラメータ
+   * @param params.treeId - 対象ツリーのID
+   * @param params.archived - アーカイブするか（デフォルト: true）
+   * @returns 成功・失敗の結果
+   */
+  archiveTree(params: {
+    treeId: TreeId;
+    archived?: boolean;
+  }): Promise<{ success: boolean; error?: string }>;
+
+  /**
+   * ツリーと配下の全ノードを完全に削除（組み込みツリーは不可、Undo不可）
+   * @param params - 削除パラメータ
+   * @param params.treeId - 対象ツリーのID
+   * @returns 成功・失敗の結果
+   */
+  deleteTree(params: { treeId: TreeId }): Promise<{ success: boolean; error?: string }>;
 }
@@ -1,4 +1,17 @@
-import type { TreeId, NodeId, Tree, TreeNode } from '@hierarchidb/common-core';
+import type {
+  FullTextSearchOptions,
+  NodeQueryOptions,
+  NodeQueryResult,
+  SearchHit,
+  TreeId,
+  NodeId,
+  NodeRevision,
+  NodeRevisionDiff,
+  OperationRecord,
+  RevisionId,
+  Tree,
+  TreeNode,
+} from '@hierarchidb/common-core';
 
 /**
  * 読み取り専用データアクセスAPI
@@ -13,10 +26,11 @@ export interface TreeQueryAPI {
   getTree(treeId: TreeId): Promise<Tree | undefined>;
 
   /**
-   * すべてのツリー一覧を取得
-   * @returns 全ツリーの配列
+   * ツリー一覧を取得
+   * @param options.includeArchived - アーカイブ済みツリーも含めるか（デフォルト: false）
+   * @returns ツリーの配列
    */
-  listTrees(): Promise<Tree[]>;
+  listTrees(options?: { includeArchived?: boolean }): Promise<Tree[]>;
 
   /**
    * 指定されたノードIDのノード情報を取得
@@ -68,4 +82,69 @@ export interface TreeQueryAPI {
     caseSensitive?: boolean;
     searchInDescription?: boolean;
   }): Promise<TreeNode[]>;
-}
\ No newline at end of file
+
+  /**
+   * 索引を使った全文検索（ノード名・説明・プラグインが宣言したエンティティフィールド）
+   * @param options.query - 検索クエリ（空白区切りの語はすべて一致が必要）
+   * @param options.rootNodeId - 指定時はこのノードの子孫に限定
+   * @param options.treeId - 指定時はこのツリーに限定
+   * @param options.maxResults - 最大結果数（デフォルト: 50）
+   * @param options.includeRemoved - ゴミ箱内のノードも含めるか（デフォルト: false）
+   * @returns スコア順のヒット（一致フィールドのスニペットとハイライト位置付き）
+   */
+  searchFullText(options: FullTextSearchOptions): Promise<SearchHit[]>;
+
+  /**
+   * 構造化クエリによるノード絞り込み（スマートフォルダ表示用）
+   * 例: `type:basemap updated>2026-01-01 parent:/Projects/Tokyo has:references`
+   *
+   * フィールド: type, name, description, parent（直下）, ancestor（配下）, created, updated,
+   * has:references|description|children, is:removed|draft。語を並べるとAND、OR・NOT（-）・括弧も使用可
+   * @param options.query - クエリ文字列（`sort:updated-desc` で並び順も指定可）
+   * @param options.rootNodeId - 指定時はこのノードの子孫に限定
+   * @param options.treeId - 指定時はこのツリーに限定（省略時はアーカイブ以外の全ツリー）
+   * @param options.sortBy - 並び順の対象（クエリ内のsort指定より優先）
+   * @param options.offset - ページの開始位置
+   * @param options.limit - ページサイズ（デフォルト: 100）
+   * @returns 該当ノードの1ページ分と総件数。構文エラー時はエラー位置付きで失敗
+   */
+  queryNodes(options: NodeQueryOptions): Promise<NodeQueryResult>;
+
+  /**
+   * スマートフォルダの子（保存されたクエリの結果）を取得
+   * 結果は実ノードへの読み取り専用の参照で、他のスマートフォルダは含まない
+   * @param nodeId - スマートフォルダのノードID
+   * @param page - ページの開始位置とサイズ（デフォルト: 100件）
+   * @returns 該当ノードの1ページ分と総件数。スマートフォルダでない場合は失敗
+   */
+  listSmartFolderChildren(
+    nodeId: NodeId,
+    page?: { offset?: number; limit?: number }
+  ): Promise<NodeQueryResult>;
+
+  /**
+   * 指定ツリーの最近の操作履歴を取得（アクティビティ表示用）
+   * @param treeId - 対象ツリーのID
+   * @param limit - 最大件数（デフォルト: 50）
+   * @returns 操作記録の配列（新しい順）
+   */
+  listRecentOperations(treeId: TreeId, limit?: number): Promise<OperationRecord[]>;
+
+  /**
+   * 指定ノードのリビジョン一覧を取得
+   * @param nodeId - 対象ノードのID
+   * @returns リビジョンの配列（新しい順）
+   */
+  listNodeRevisions(nodeId: NodeId): Promise<NodeRevision[]>;
+
+  /**
+   * 同一ノードの2つのリビジョンの差分を取得
+   * @param fromRevisionId - 比較元リビジョンのID
+   * @param toRevisionId - 比較先リビジョンのID
+   * @returns 差分、リビジョンが存在しないか別ノードの場合はundefined
+   */
+  diffNodeRevisions(
+    fromRevisionId: RevisionId,
+    toRevisionId: RevisionId
+  ): Promise<NodeRevisionDiff | undefined>;
+}
@@ -8,6 +8,7 @@
 
 import type { 
   NodeId, 
+  NodeQueryResult,
   TreeId, 
   TreeNodeEvent, 
   SubscriptionId,
@@ -90,6 +91,23 @@ export interface TreeSubscriptionAPI {
     options?: SubscriptionOptions
   ): Promise<SubscriptionId>;
 
+  /**
+   * Subscribe to the live children of a smart folder
+   *
+   * The saved query is re-run whenever nodes change, and the callback receives
+   * the current result page (read-only references to the matched nodes).
+   *
+   * @param nodeId - Smart folder node identifier
+   * @param callback - Function to call with the initial and every updated result
+   * @param page - Optional page of the result (default: first 100 nodes)
+   * @returns Subscription identifier for cleanup
+   */
+  subscribeSmartFolder(
+    nodeId: NodeId,
+    callback: (result: NodeQueryResult) => void,
+    page?: { offset?: number; limit?: number }
+  ): Promise<SubscriptionId>;
+
   // ==================
   // Subscription Management
   // ==================
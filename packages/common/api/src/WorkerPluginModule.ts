@@ -0,0 +1,54 @@
+/**
+ * @file WorkerPluginModule.ts
+ * @description Plugin services that run inside the worker
+ *
+ * Plugins with background work in the worker (schedulers, watchers) export a module.
+ * The application registers it with the runtime, which starts it once the databases are open
+ * and stops it on shutdown, so the runtime never imports plugin packages itself.
+ */
+
+import type { NodeType } from '@hierarchidb/common-core';
+import type { TreeMutationAPI } from './TreeMutationAPI';
+import type { TreeQueryAPI } from './TreeQueryAPI';
+
+/**
+ * Worker services handed to a plugin module when it starts
+ */
+export interface WorkerPluginHost {
+  readonly queryAPI: TreeQueryAPI;
+  readonly mutationAPI: TreeMutationAPI;
+
+  /**
+   * Whether nodes of a type keep plugin data (a PeerEntity) beside the tree node
+   */
+  hasEntity(nodeType: NodeType): boolean;
+
+  /**
+   * Expose the module's methods through PluginRegistryAPI.getExtension
+   */
+  registerExtension(nodeType: NodeType, api: object): Promise<void>;
+}
+
+/**
+ * A plugin's worker-side services
+ *
+ * @example
+ * ```typescript
+ * registerWorkerPluginModule({
+ *   name: 'my-plugin',
+ *   async start(host) {
+ *     const timer = setInterval(() => void host.queryAPI.listTrees(), 60_000);
+ *     return () => clearInterval(timer);
+ *   },
+ * });
+ * ```
+ */
+export interface WorkerPluginModule {
+  readonly name: string;
+
+  /**
+   * Start the module's services for a worker
+   * @returns Function that stops them again
+   */
+  start(host: WorkerPluginHost): Promise<(() => void | Promise<void>) | void>;
+}
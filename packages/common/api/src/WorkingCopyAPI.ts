@@ -7,7 +7,9 @@
  */
 
 import type {
+  CommandScope,
   NodeId,
+  Timestamp,
   TreeNode,
   WorkingCopy,
   CommitResult,
@@ -115,7 +117,13 @@ export interface WorkingCopyAPI {
   /**
    * Commit a working copy to the main database
    *
+   * Edits of existing nodes are checked optimistically: if the stored node changed since the
+   * working copy was created (or its updatedAt differs from `expectedUpdatedAt`), the commit fails
+   * with code 'COMMIT_CONFLICT' / 'STALE_VERSION' and a `conflict` holding both sides.
+   *
    * @param nodeId - Node ID of the working copy to commit
+   * @param expectedUpdatedAt - updatedAt of the node as last seen by the editor
+   * @param scope - Undo group and source view the commit is recorded under
    * @returns Commit result with success status and committed node
    *
    * @example
@@ -128,7 +136,11 @@ export interface WorkingCopyAPI {
    * }
    * ```
    */
-  commitWorkingCopy(nodeId: NodeId): Promise<CommitResult>;
+  commitWorkingCopy(
+    nodeId: NodeId,
+    expectedUpdatedAt?: Timestamp,
+    scope?: CommandScope
+  ): Promise<CommitResult>;
 
   /**
    * Discard a working copy without saving changes
@@ -5,3 +5,4 @@ export * from './PluginRegistryAPI';
 export * from './PluginAPI';
 export * from './WorkingCopyAPI';
 export * from './WorkerAPI';
+export * from './WorkerPluginModule';
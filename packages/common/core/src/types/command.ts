@@ -1,6 +1,7 @@
 import type { NodeId, TreeId } from './ids';
 import type { TreeNode } from './tree';
 import type { Timestamp } from './base';
+import type { RevisionId } from './revision';
 
 export type CommandGroupId = string;
 export type CommandId = string;
@@ -8,6 +9,15 @@ export type Seq = number;
 
 export type OnNameConflict = 'error' | 'auto-rename';
 
+/**
+ * Undo/redo scope of a command issued through the mutation API.
+ * Commands sharing a groupId undo and redo as one unit; history is kept per sourceViewId.
+ */
+export interface CommandScope {
+  groupId?: CommandGroupId;
+  sourceViewId?: string;
+}
+
 export interface CommandEnvelope<K extends string, P> {
   commandId: CommandId;
   groupId: CommandGroupId;
@@ -18,6 +28,47 @@ export interface CommandEnvelope<K extends string, P> {
   onNameConflict?: OnNameConflict;
 }
 
+/**
+ * Undo state of a journaled command.
+ * 'discarded' commands were undone and then dropped from redo history by a newer command.
+ */
+export type OperationState = 'done' | 'undone' | 'discarded';
+
+/**
+ * Summary of a journaled command, for activity history views.
+ */
+export interface OperationRecord {
+  seq: Seq;
+  commandId: CommandId;
+  groupId: CommandGroupId;
+  kind: string;
+  issuedAt: Timestamp;
+  sourceViewId?: string;
+  treeIds: TreeId[];
+  nodeIds: NodeId[];
+  state: OperationState;
+}
+
+/**
+ * Optimistic concurrency conflict returned when a working copy is committed
+ * after the stored node changed (e.g. from another tab).
+ */
+export interface CommitConflict {
+  nodeId: NodeId;
+  /**
+   * The working copy being committed
+   */
+  mine: TreeNode;
+  /**
+   * The node as currently stored
+   */
+  theirs: TreeNode;
+  /**
+   * Editable fields whose values differ between mine and theirs
+   */
+  fields: string[];
+}
+
 export type ErrorCode =
   | 'NAME_NOT_UNIQUE'
   | 'STALE_VERSION'
@@ -49,6 +100,7 @@ export type CommandResult =
       success: false;
       error: string;
       code: ErrorCode;
+      conflict?: CommitConflict;
       seq?: Seq; // 失敗時もseqは採番される場合がある
     };
 
@@ -112,6 +164,15 @@ export interface RecoverFromTrashPayload {
   onNameConflict?: OnNameConflict;
 }
 
+export interface RestoreRevisionPayload {
+  nodeId: NodeId;
+  revisionId: RevisionId;
+  /**
+   * Also restore descendants to their latest revision at or before the target revision
+   */
+  includeDescendants?: boolean;
+}
+
 export interface ImportNodesPayload {
   nodes: Record<NodeId, TreeNode>;
   nodeIds: NodeId[];
@@ -198,6 +259,12 @@ export interface ObserveWorkingCopiesPayload {
   includeAllDrafts?: boolean;
 }
 
+export interface ObserveSmartFolderPayload {
+  nodeId: NodeId;
+  offset?: number;
+  limit?: number;
+}
+
 // Supporting types for TreeObservableService
 export interface SubscriptionFilter {
   nodeTypes?: string[];
@@ -223,4 +290,7 @@ export interface TreeChangeEvent {
   affectedChildren?: NodeId[];
   timestamp: Timestamp;
   commandId?: CommandId;
+  // 発行元CoreDBインスタンス（タブ）ごとの連番。タブ間同期の重複排除に使う
+  seq?: Seq;
+  originId?: string;
 }
@@ -3,7 +3,10 @@
  * @module core/types/import-export
  */
 
+import type { NodeType } from './base';
 import type { NodeId } from './ids';
+import type { VectorTileBackup } from './nodeDefinition';
+import type { TreeViewState } from './state';
 import type { TreeNode } from './tree';
 
 /**
@@ -35,6 +38,113 @@ export interface ExportManifest extends ImportManifest {
   exportDate: string;
   exportedBy: string;
   appVersion: string;
+  format?: 'json' | 'zip';
+  contents?: {
+    resources: boolean;
+    vectorTiles: boolean;
+    uiStates: boolean;
+  };
+  // ノード型ごとのストアの種別（インポート時のID振り直しに使う）
+  entityStores?: Record<NodeType, EntityStoreLayout>;
+  // エクスポート時のプラグインのスキーマバージョン（database.version）
+  // 未記載のノード型はバージョン1として扱う
+  schemaVersions?: Record<NodeType, number>;
+}
+
+/**
+ * エクスポート形式のバージョン
+ * メジャーバージョンが異なるバンドルはインポートできない
+ */
+export const EXPORT_FORMAT_VERSION = '1.1';
+
+/**
+ * ノード型ごとのエンティティストアの構成
+ */
+export interface EntityStoreLayout {
+  // PeerEntityのストア
+  peer: string;
+  // GroupEntityの種別
+  group: string[];
+  // RelationalEntityとそのデータ行のストア
+  relational: string[];
+}
+
+/**
+ * ZIPエクスポートのエントリ名
+ * エンティティは `entities/<nodeType>/<store>.json`、
+ * ベクタータイルは `vector-tiles/<nodeId>/<z>/<x>/<y>.pbf` に格納
+ */
+export const EXPORT_ARCHIVE_PATHS = {
+  manifest: 'manifest.json',
+  treeNodes: 'tree-nodes.json',
+  entitiesDir: 'entities/',
+  vectorTilesDir: 'vector-tiles/',
+  vectorTileIndex: 'vector-tiles/index.json',
+  uiStates: 'ui-states.json',
+} as const;
+
+/**
+ * プラグインエンティティのエクスポートデータ（ノード型 → ストア名 → 行）
+ */
+export type EntityExportData = Record<NodeType, EntityStoreRows>;
+
+/**
+ * 1つのノード型のエンティティ（ストア名 → 行）
+ */
+export type EntityStoreRows = Record<string, unknown[]>;
+
+/**
+ * プラグインが提供するエンティティのマイグレーション
+ * 古いスキーマでエクスポートされた行をfromVersionからtoVersionへ変換する
+ */
+export interface EntityMigration {
+  fromVersion: number;
+  toVersion: number;
+  description: string;
+  migrate: (stores: EntityStoreRows) => EntityStoreRows | Promise<EntityStoreRows>;
+}
+
+/**
+ * マイグレーションの1ステップでのストアごとの変化
+ */
+export interface MigrationStoreChange {
+  store: string;
+  before: number;
+  after: number;
+  // 位置が同じで内容が変わった行の数
+  modified: number;
+}
+
+/**
+ * ノード型ごとのマイグレーション結果（dryRunでは適用予定の内容）
+ */
+export interface MigrationReport {
+  nodeType: NodeType;
+  fromVersion: number;
+  toVersion: number;
+  steps: Array<{
+    fromVersion: number;
+    toVersion: number;
+    description: string;
+    changes: MigrationStoreChange[];
+  }>;
+}
+
+/**
+ * ベクタータイルのエクスポートデータ
+ */
+export interface VectorTileExportData extends VectorTileBackup {
+  nodeId: NodeId;
+}
+
+/**
+ * エクスポートパッケージ（JSON形式の全体、ZIP形式では各エントリに分割）
+ */
+export interface ExportPackage extends TreeNodeExportData {
+  manifest: ExportManifest;
+  entities?: EntityExportData;
+  vectorTiles?: VectorTileExportData[];
+  uiStates?: TreeViewState[];
 }
 
 /**
@@ -44,6 +154,7 @@ export interface ImportProgress {
   phase: 
     | 'reading'
     | 'validating'
+    | 'migrating'
     | 'importing-nodes'
     | 'importing-resources'
     | 'finalizing';
@@ -75,6 +186,7 @@ export interface ImportResult {
   skippedNodes: number;
   errors: string[];
   warnings?: string[];
+  migrations?: MigrationReport[];
 }
 
 /**
@@ -93,6 +205,8 @@ export interface ExportResult {
 export interface ImportOptions {
   targetParentId: NodeId;
   mergeStrategy?: 'skip' | 'replace' | 'rename';
+  // trueの場合はマイグレーション結果だけを返し、何も書き込まない
+  dryRun?: boolean;
   progressCallback?: (progress: ImportProgress) => void;
 }
 
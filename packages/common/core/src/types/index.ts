@@ -4,8 +4,10 @@ export * from './command';
 export * from './tree';
 export * from './state';
 export * from './workingCopy';
+export * from './revision';
 export * from './vite-env';
 export * from './nodeDefinition';
 export * from './import-export';
 export * from './entityMetadata';
 export * from './plugin';
+export * from './search';
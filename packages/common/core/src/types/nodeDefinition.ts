@@ -2,6 +2,7 @@ import type { NodeType, Timestamp } from './base';
 import type { TreeNode } from './tree';
 import type { WorkingCopyProperties } from './workingCopy';
 import type { NodeId, EntityId } from './ids';
+import type { CommitConflict, ErrorCode } from './command';
 import type {
   IconDefinition,
   CategoryDefinition,
@@ -144,6 +145,8 @@ export interface CommitResult {
   success: boolean;
   node?: TreeNode;
   error?: string;
+  code?: ErrorCode;
+  conflict?: CommitConflict;
 }
 
 // バリデーションルール
@@ -264,15 +267,30 @@ export interface EntityHandler<
 
   // 特殊操作
   duplicate?(nodeId: NodeId, newNodeId: NodeId): Promise<void>;
-  backup?(nodeId: NodeId): Promise<EntityBackup<TEntity>>;
+  backup?(nodeId: NodeId, options?: EntityBackupOptions): Promise<EntityBackup<TEntity>>;
   restore?(nodeId: NodeId, backup: EntityBackup<TEntity>): Promise<void>;
   cleanup?(nodeId: NodeId): Promise<void>;
+
+  // インポート時の重複排除: 同一内容（contentHash）または同一IDの共有行を探す
+  findRelationalEntity?(
+    storeName: string,
+    match: RelationalEntityMatch
+  ): Promise<Record<string, unknown> | undefined>;
+}
+
+// 共有行（RelationalEntity）の検索条件
+export interface RelationalEntityMatch {
+  id?: string;
+  contentHash?: string;
 }
 
 // エンティティバックアップの型定義
 export interface EntityBackup<TEntity extends PeerEntity = PeerEntity> {
   entity: TEntity;
   subEntities?: Record<string, GroupEntity[]>;
+  // 複数ノードで共有される行（RelationalEntityとそのデータ行）。ストア名ごと
+  relationalEntities?: Record<string, unknown[]>;
+  vectorTiles?: VectorTileBackup[];
   metadata: {
     backupDate: Timestamp;
     version: string;
@@ -280,6 +298,21 @@ export interface EntityBackup<TEntity extends PeerEntity = PeerEntity> {
   };
 }
 
+// バックアップ（エクスポート）時のオプション
+export interface EntityBackupOptions {
+  // 生成済みベクタータイルも含めるか
+  includeVectorTiles?: boolean;
+}
+
+// ベクタータイルのバックアップ
+export interface VectorTileBackup {
+  z: number;
+  x: number;
+  y: number;
+  data: Uint8Array;
+  contentEncoding?: 'gzip' | 'br';
+}
+
 // ライフサイクルフック
 export interface NodeLifecycleHooks<
   TEntity extends PeerEntity = PeerEntity,
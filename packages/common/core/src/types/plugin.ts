@@ -156,6 +156,18 @@ export interface PluginDefinition {
 
   // Validation (optional)
   readonly validation?: PluginValidationConfig;
+
+  // Full-text search (optional)
+  readonly search?: PluginSearchConfig;
+}
+
+/**
+ * PeerEntity fields indexed for full-text search alongside the node name and description.
+ * Paths are dot-separated and arrays along the path are flattened,
+ * e.g. `features.properties.name` indexes the name of every feature.
+ */
+export interface PluginSearchConfig {
+  readonly fields: string[];
 }
 
 /**
@@ -0,0 +1,39 @@
+import type { Timestamp } from './base';
+import type { NodeId } from './ids';
+
+export type RevisionId = string;
+
+/**
+ * A saved revision of a node, taken when a working copy is committed.
+ */
+export interface NodeRevision {
+  revisionId: RevisionId;
+  nodeId: NodeId;
+  /**
+   * TreeNode version at the time of the revision
+   */
+  version: number;
+  name: string;
+  createdAt: Timestamp;
+  /**
+   * Whether the node's PeerEntity was captured with the revision
+   */
+  hasEntity: boolean;
+}
+
+/**
+ * A single differing field between two revisions.
+ * Paths are prefixed with `node.` for TreeNode fields and `entity.` for PeerEntity fields.
+ */
+export interface RevisionFieldChange {
+  path: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface NodeRevisionDiff {
+  nodeId: NodeId;
+  fromRevisionId: RevisionId;
+  toRevisionId: RevisionId;
+  changes: RevisionFieldChange[];
+}
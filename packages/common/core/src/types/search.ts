@@ -0,0 +1,95 @@
+import type { NodeType } from './base';
+import type { NodeId, TreeId } from './ids';
+import type { TreeNode } from './tree';
+
+/**
+ * Options for an indexed full-text search.
+ * Every query term must match; terms also match as word prefixes (search-as-you-type).
+ */
+export interface FullTextSearchOptions {
+  query: string;
+  /**
+   * Restrict results to descendants of this node
+   */
+  rootNodeId?: NodeId;
+  /**
+   * Restrict results to nodes of this tree
+   */
+  treeId?: TreeId;
+  maxResults?: number;
+  /**
+   * Include nodes in the trash (default: false)
+   */
+  includeRemoved?: boolean;
+}
+
+/**
+ * A highlighted range within a snippet, as [start, end) character offsets
+ */
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
+/**
+ * Where a hit matched: `name`, `description`, or `entity.<field path>` for plugin fields
+ */
+export interface SearchMatch {
+  field: string;
+  snippet: string;
+  highlights: SearchHighlight[];
+}
+
+export interface SearchHit {
+  node: TreeNode;
+  score: number;
+  matches: SearchMatch[];
+}
+
+export type NodeQuerySortField = 'name' | 'nodeType' | 'createdAt' | 'updatedAt';
+
+/**
+ * Options for a structured node query such as
+ * `type:basemap updated>2026-01-01 parent:/Projects/Tokyo has:references`.
+ * Filters are combined with AND by default; `OR`, `NOT`/`-` and parentheses are supported.
+ */
+export interface NodeQueryOptions {
+  query: string;
+  /**
+   * Restrict results to descendants of this node
+   */
+  rootNodeId?: NodeId;
+  /**
+   * Restrict results to nodes of this tree (all trees when omitted)
+   */
+  treeId?: TreeId;
+  /**
+   * Overrides a `sort:` directive in the query (default: name)
+   */
+  sortBy?: NodeQuerySortField;
+  sortOrder?: 'asc' | 'desc';
+  offset?: number;
+  /**
+   * Page size (default: 100)
+   */
+  limit?: number;
+  /**
+   * Include nodes in the trash (default: false)
+   */
+  includeRemoved?: boolean;
+}
+
+export type NodeQueryResult =
+  | { success: true; nodes: TreeNode[]; total: number; offset: number; limit: number }
+  | { success: false; error: string; position?: number };
+
+export const SMART_FOLDER_NODE_TYPE: NodeType = 'smartfolder';
+
+/**
+ * Saved query of a smart folder node.
+ * Its children are not stored; they are the live results of this query (references to the real nodes).
+ */
+export type SmartFolderQuery = Pick<
+  NodeQueryOptions,
+  'query' | 'rootNodeId' | 'treeId' | 'sortBy' | 'sortOrder' | 'includeRemoved'
+>;
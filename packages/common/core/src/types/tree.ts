@@ -8,6 +8,7 @@ export interface Tree {
   rootId: NodeId;
   trashRootId: NodeId;
   superRootId: NodeId;
+  archivedAt?: Timestamp; // アーカイブ済みツリーは通常の一覧に表示しない
 }
 
 export interface NodeBase {
@@ -0,0 +1,116 @@
+/**
+ * @file choropleth.test.ts
+ * @description Tests for joining StyleMap rows to Shape features and compiling paint expressions
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { NodeId } from '@hierarchidb/common-core';
+import {
+  createChoroplethLayer,
+  evaluateColorRule,
+  joinRowsToFeatures,
+  type ChoroplethStyleMap,
+} from '../choropleth';
+
+const styleMap: ChoroplethStyleMap = {
+  nodeId: 'stylemap-1' as NodeId,
+  keyColumn: 'iso',
+  colorRules: [
+    {
+      column: 'population',
+      operator: 'greaterThan',
+      value: 100,
+      style: { backgroundColor: '#b30000' },
+    },
+    {
+      column: 'population',
+      operator: 'range',
+      value: 10,
+      maxValue: 100,
+      style: { backgroundColor: '#fc8d59', borderColor: '#7f2704' },
+      label: 'Medium',
+    },
+  ],
+  defaultStyle: { backgroundColor: '#eeeeee' },
+  featureLayer: { shapeNodeId: 'shape-1' as NodeId, featureKeyProperty: 'ISO_A3' },
+};
+
+const rows = [
+  { iso: 'JPN', population: '125' },
+  { iso: 'PRT', population: '10' },
+  { iso: 'ISL', population: '0.4' },
+  { iso: 'JPN', population: '1' },
+  { iso: '', population: '50' },
+  { iso: 'ATA', population: '' },
+];
+
+describe('choropleth', () => {
+  it('joins rows by key, keeping the first row for duplicate keys', () => {
+    const join = joinRowsToFeatures(styleMap, rows);
+
+    expect([...join.keys]).toEqual([
+      ['JPN', 0],
+      ['PRT', 1],
+    ]);
+    expect(join).toMatchObject({
+      matchedRows: 2,
+      unmatchedRows: 2,
+      missingKeyRows: 1,
+      duplicateKeys: ['JPN'],
+    });
+  });
+
+  it('compiles rules into match expressions on the feature key', () => {
+    const layer = createChoroplethLayer(styleMap, rows);
+    const key = ['to-string', ['get', 'ISO_A3']];
+
+    expect(layer).toMatchObject({
+      shapeNodeId: 'shape-1',
+      sourceLayer: 'boundaries',
+      layerType: 'fill',
+    });
+    expect(layer.paint).toEqual({
+      'fill-color': ['match', key, ['JPN'], '#b30000', ['PRT'], '#fc8d59', '#eeeeee'],
+      'fill-outline-color': ['match', key, ['PRT'], '#7f2704', '#eeeeee'],
+    });
+  });
+
+  it('generates a legend entry per rule followed by the default style', () => {
+    const { legend } = createChoroplethLayer(styleMap, rows);
+
+    expect(legend).toEqual([
+      {
+        label: 'population > 100',
+        color: '#b30000',
+        borderColor: undefined,
+        opacity: undefined,
+        count: 1,
+      },
+      { label: 'Medium', color: '#fc8d59', borderColor: '#7f2704', opacity: undefined, count: 1 },
+      { label: 'Other', color: '#eeeeee', borderColor: undefined, opacity: undefined, count: 2 },
+    ]);
+  });
+
+  it('falls back to the default style when no row matches a rule', () => {
+    const layer = createChoroplethLayer(
+      { ...styleMap, featureLayer: { ...styleMap.featureLayer!, layerType: 'line' } },
+      [{ iso: 'ISL', population: '0.4' }]
+    );
+
+    expect(layer.paint).toEqual({ 'line-color': '#eeeeee' });
+  });
+
+  it('does not treat empty cells as zero in numeric rules', () => {
+    const rule = { column: 'population', operator: 'lessThan' as const, value: 5, style: {} };
+
+    expect(evaluateColorRule('', rule)).toBe(false);
+    expect(evaluateColorRule('4', rule)).toBe(true);
+    expect(evaluateColorRule(4, { ...rule, operator: 'equals', value: '4.0' })).toBe(true);
+  });
+
+  it('requires a Shape feature layer binding', () => {
+    expect(() => createChoroplethLayer({ ...styleMap, featureLayer: undefined }, rows)).toThrow(
+      'not bound to a Shape feature layer'
+    );
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsvRows } from '../csv';
+
+describe('parseCsvRows', () => {
+  it('guesses the delimiter and keeps quoted separators', () => {
+    expect(parseCsvRows('name\tarea\n"Osaka\tKobe"\t5\n\n')).toEqual({
+      rows: [
+        ['name', 'area'],
+        ['Osaka\tKobe', '5'],
+      ],
+      delimiter: '\t',
+    });
+  });
+
+  it('returns no rows for blank text', () => {
+    expect(parseCsvRows('').rows).toEqual([]);
+  });
+});
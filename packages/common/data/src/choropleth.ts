@@ -0,0 +1,374 @@
+/**
+ * @file choropleth.ts
+ * @description Joins StyleMap rows to Shape features by key and compiles color rules into MapLibre paint expressions
+ */
+
+import type { NodeId } from '@hierarchidb/common-core';
+
+export interface StyleMapStyle {
+  backgroundColor?: string;
+  textColor?: string;
+  borderColor?: string;
+  borderWidth?: number;
+  opacity?: number;
+}
+
+export interface StyleMapColorRule {
+  column: string;
+  operator: 'equals' | 'contains' | 'greaterThan' | 'lessThan' | 'range';
+  value: unknown;
+  maxValue?: unknown; // For range operator
+  style: StyleMapStyle;
+  label?: string;
+}
+
+/**
+ * Joins spreadsheet rows to the features of a Shape node's vector tiles.
+ * A row styles the feature whose `featureKeyProperty` equals the row's `keyColumn` value
+ * (e.g. ISO code / admin code), so the property must be kept in the generated tiles.
+ */
+export interface StyleMapFeatureLayer {
+  shapeNodeId: NodeId;
+  featureKeyProperty: string;
+  sourceLayer?: string; // Defaults to the Shape tile layer 'boundaries'
+  layerType?: 'fill' | 'line' | 'circle'; // Defaults to 'fill'
+}
+
+/**
+ * The parts of a StyleMap entity a choropleth is built from
+ */
+export interface ChoroplethStyleMap {
+  nodeId: NodeId;
+  keyColumn: string;
+  colorRules: StyleMapColorRule[];
+  defaultStyle?: StyleMapStyle;
+  featureLayer?: StyleMapFeatureLayer;
+}
+
+export const DEFAULT_SOURCE_LAYER = 'boundaries';
+const FALLBACK_COLOR = '#e0e0e0';
+
+export type ChoroplethLayerType = NonNullable<StyleMapFeatureLayer['layerType']>;
+
+export interface ChoroplethJoin {
+  /** Feature key -> index of the first matching rule; keys matching no rule are left out */
+  keys: Map<string, number>;
+  matchedRows: number;
+  unmatchedRows: number; // Rows that matched no rule
+  missingKeyRows: number; // Rows with an empty key
+  duplicateKeys: string[]; // Keys seen more than once; the first row wins
+}
+
+export interface ChoroplethLegendItem {
+  label: string;
+  color: string;
+  borderColor?: string;
+  opacity?: number;
+  count: number; // Number of joined keys drawn with this entry
+}
+
+/**
+ * Layer options for MapWithVectorTiles plus the legend describing them
+ */
+export interface ChoroplethLayer {
+  shapeNodeId: NodeId;
+  sourceLayer: string;
+  layerType: ChoroplethLayerType;
+  paint: Record<string, unknown>;
+  legend: ChoroplethLegendItem[];
+  join: Omit<ChoroplethJoin, 'keys'>;
+}
+
+/**
+ * Evaluate a color rule against a cell value
+ * Numeric operators only match cells that read as numbers, so empty cells never count as 0.
+ */
+export function evaluateColorRule(value: unknown, rule: StyleMapColorRule): boolean {
+  switch (rule.operator) {
+    case 'equals': {
+      const number = toNumber(value);
+      const expected = toNumber(rule.value);
+      return number !== undefined && expected !== undefined
+        ? number === expected
+        : String(value ?? '') === String(rule.value ?? '');
+    }
+    case 'contains':
+      return String(value ?? '').includes(String(rule.value ?? ''));
+    case 'greaterThan':
+      return compare(value, rule.value, (a, b) => a > b);
+    case 'lessThan':
+      return compare(value, rule.value, (a, b) => a < b);
+    case 'range':
+      return (
+        compare(value, rule.value, (a, b) => a >= b) &&
+        compare(value, rule.maxValue, (a, b) => a <= b)
+      );
+    default:
+      return false;
+  }
+}
+
+/**
+ * Match each row's key column to the first rule its values satisfy
+ */
+export function joinRowsToFeatures(
+  styleMap: Pick<ChoroplethStyleMap, 'keyColumn' | 'colorRules'>,
+  rows: Record<string, unknown>[]
+): ChoroplethJoin {
+  const keys = new Map<string, number>();
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  let matchedRows = 0;
+  let unmatchedRows = 0;
+  let missingKeyRows = 0;
+
+  for (const row of rows) {
+    const key = featureKey(row[styleMap.keyColumn]);
+    if (key === undefined) {
+      missingKeyRows++;
+      continue;
+    }
+    if (seen.has(key)) {
+      duplicates.add(key);
+      continue;
+    }
+    seen.add(key);
+
+    const ruleIndex = styleMap.colorRules.findIndex((rule) =>
+      evaluateColorRule(row[rule.column], rule)
+    );
+    if (ruleIndex === -1) {
+      unmatchedRows++;
+    } else {
+      keys.set(key, ruleIndex);
+      matchedRows++;
+    }
+  }
+
+  return { keys, matchedRows, unmatchedRows, missingKeyRows, duplicateKeys: [...duplicates] };
+}
+
+/**
+ * Compile the rules into data-driven paint properties for the feature layer
+ * Every property is a `match` on the feature key, falling back to the default style.
+ * Fill layers cannot draw wide outlines, so `borderWidth` only applies to line and circle layers.
+ */
+export function compileChoroplethPaint(
+  styleMap: Pick<ChoroplethStyleMap, 'colorRules' | 'defaultStyle'>,
+  join: ChoroplethJoin,
+  featureKeyProperty: string,
+  layerType: ChoroplethLayerType = 'fill'
+): Record<string, unknown> {
+  const property = (
+    pick: (style: StyleMapStyle) => string | number | undefined,
+    fallback: string | number
+  ) => matchExpression(styleMap.colorRules, join, featureKeyProperty, pick, fallback);
+  const fillColor = (style: StyleMapStyle) => style.backgroundColor;
+  const strokeColor = (style: StyleMapStyle) => style.borderColor;
+  const opacity = (style: StyleMapStyle) => style.opacity;
+  const width = (style: StyleMapStyle) => style.borderWidth;
+  const defaults = styleMap.defaultStyle ?? {};
+  const defaultColor = defaults.backgroundColor ?? FALLBACK_COLOR;
+
+  const paint: Record<string, unknown> = {};
+  const set = (name: string, value: unknown) => {
+    if (value !== undefined) {
+      paint[name] = value;
+    }
+  };
+
+  switch (layerType) {
+    case 'fill':
+      set('fill-color', property(fillColor, defaultColor));
+      set(
+        'fill-opacity',
+        uses(styleMap, opacity) ? property(opacity, defaults.opacity ?? 1) : undefined
+      );
+      set(
+        'fill-outline-color',
+        uses(styleMap, strokeColor)
+          ? property(strokeColor, defaults.borderColor ?? defaultColor)
+          : undefined
+      );
+      break;
+    case 'line':
+      set(
+        'line-color',
+        property(
+          (style) => style.borderColor ?? style.backgroundColor,
+          defaults.borderColor ?? defaultColor
+        )
+      );
+      set(
+        'line-width',
+        uses(styleMap, width) ? property(width, defaults.borderWidth ?? 1) : undefined
+      );
+      set(
+        'line-opacity',
+        uses(styleMap, opacity) ? property(opacity, defaults.opacity ?? 1) : undefined
+      );
+      break;
+    case 'circle':
+      set('circle-color', property(fillColor, defaultColor));
+      set(
+        'circle-opacity',
+        uses(styleMap, opacity) ? property(opacity, defaults.opacity ?? 1) : undefined
+      );
+      set(
+        'circle-stroke-color',
+        uses(styleMap, strokeColor)
+          ? property(strokeColor, defaults.borderColor ?? defaultColor)
+          : undefined
+      );
+      set(
+        'circle-stroke-width',
+        uses(styleMap, width) ? property(width, defaults.borderWidth ?? 0) : undefined
+      );
+      break;
+  }
+  return paint;
+}
+
+/**
+ * One legend entry per rule, in rule order, followed by the default style
+ */
+export function buildChoroplethLegend(
+  styleMap: Pick<ChoroplethStyleMap, 'colorRules' | 'defaultStyle'>,
+  join: ChoroplethJoin,
+  layerType: ChoroplethLayerType = 'fill',
+  defaultLabel = 'Other'
+): ChoroplethLegendItem[] {
+  const counts = styleMap.colorRules.map(() => 0);
+  for (const ruleIndex of join.keys.values()) {
+    counts[ruleIndex]!++;
+  }
+
+  const defaults = styleMap.defaultStyle ?? {};
+  // Line layers are drawn with the border color, like their paint
+  const color = (style: StyleMapStyle) =>
+    (layerType === 'line' ? (style.borderColor ?? style.backgroundColor) : style.backgroundColor) ??
+    (layerType === 'line' ? defaults.borderColor : undefined) ??
+    defaults.backgroundColor ??
+    FALLBACK_COLOR;
+  const item = (label: string, style: StyleMapStyle, count: number): ChoroplethLegendItem => ({
+    label,
+    color: color(style),
+    borderColor: style.borderColor ?? defaults.borderColor,
+    opacity: style.opacity ?? defaults.opacity,
+    count,
+  });
+
+  return [
+    ...styleMap.colorRules.map((rule, index) =>
+      item(rule.label ?? describeRule(rule), rule.style, counts[index]!)
+    ),
+    item(defaultLabel, defaults, join.unmatchedRows),
+  ];
+}
+
+/**
+ * Everything MapWithVectorTiles needs to draw a bound StyleMap over its Shape layer
+ */
+export function createChoroplethLayer(
+  styleMap: ChoroplethStyleMap,
+  rows: Record<string, unknown>[]
+): ChoroplethLayer {
+  const binding = styleMap.featureLayer;
+  if (!binding) {
+    throw new Error(`StyleMap ${styleMap.nodeId} is not bound to a Shape feature layer`);
+  }
+
+  const layerType = binding.layerType ?? 'fill';
+  const join = joinRowsToFeatures(styleMap, rows);
+  return {
+    shapeNodeId: binding.shapeNodeId,
+    sourceLayer: binding.sourceLayer ?? DEFAULT_SOURCE_LAYER,
+    layerType,
+    paint: compileChoroplethPaint(styleMap, join, binding.featureKeyProperty, layerType),
+    legend: buildChoroplethLegend(styleMap, join, layerType),
+    join: {
+      matchedRows: join.matchedRows,
+      unmatchedRows: join.unmatchedRows,
+      missingKeyRows: join.missingKeyRows,
+      duplicateKeys: join.duplicateKeys,
+    },
+  };
+}
+
+function matchExpression(
+  rules: StyleMapColorRule[],
+  join: ChoroplethJoin,
+  featureKeyProperty: string,
+  pick: (style: StyleMapStyle) => string | number | undefined,
+  fallback: string | number
+): unknown {
+  const labels = rules.map((): string[] => []);
+  for (const [key, ruleIndex] of join.keys) {
+    labels[ruleIndex]!.push(key);
+  }
+
+  const branches: unknown[] = [];
+  rules.forEach((rule, index) => {
+    const value = pick(rule.style) ?? fallback;
+    if (labels[index]!.length > 0 && value !== fallback) {
+      branches.push(labels[index], value);
+    }
+  });
+  if (branches.length === 0) {
+    return fallback;
+  }
+  // Keys are compared as strings so numeric admin codes match either encoding
+  return ['match', ['to-string', ['get', featureKeyProperty]], ...branches, fallback];
+}
+
+function uses(
+  styleMap: Pick<ChoroplethStyleMap, 'colorRules' | 'defaultStyle'>,
+  pick: (style: StyleMapStyle) => string | number | undefined
+): boolean {
+  return (
+    pick(styleMap.defaultStyle ?? {}) !== undefined ||
+    styleMap.colorRules.some((rule) => pick(rule.style) !== undefined)
+  );
+}
+
+function describeRule(rule: StyleMapColorRule): string {
+  switch (rule.operator) {
+    case 'equals':
+      return `${rule.column} = ${String(rule.value)}`;
+    case 'contains':
+      return `${rule.column} contains "${String(rule.value)}"`;
+    case 'greaterThan':
+      return `${rule.column} > ${String(rule.value)}`;
+    case 'lessThan':
+      return `${rule.column} < ${String(rule.value)}`;
+    case 'range':
+      return `${rule.column} ${String(rule.value)} – ${String(rule.maxValue)}`;
+    default:
+      return rule.column;
+  }
+}
+
+function featureKey(value: unknown): string | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  const key = String(value).trim();
+  return key === '' ? undefined : key;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string' && value.trim() !== '') {
+    const number = Number(value);
+    return Number.isFinite(number) ? number : undefined;
+  }
+  return undefined;
+}
+
+function compare(value: unknown, bound: unknown, test: (a: number, b: number) => boolean): boolean {
+  const number = toNumber(value);
+  const limit = toNumber(bound);
+  return number !== undefined && limit !== undefined && test(number, limit);
+}
@@ -0,0 +1,23 @@
+/**
+ * @file csv.ts
+ * @description Delimited text (CSV/TSV) reader
+ */
+
+import Papa from 'papaparse';
+
+/**
+ * Cells of delimited text, row by row; blank lines are dropped
+ * An empty delimiter is guessed from the text, and the one used is returned
+ */
+export function parseCsvRows(
+  text: string,
+  delimiter = ''
+): { rows: string[][]; delimiter: string } {
+  const result = Papa.parse<string[]>(text, { delimiter, skipEmptyLines: 'greedy' });
+  // Blank text has no delimiter to guess, which is not an error
+  const error = result.errors.find((candidate) => candidate.code !== 'UndetectableDelimiter');
+  if (result.data.length === 0 && error) {
+    throw new Error(`Invalid CSV: ${error.message}`);
+  }
+  return { rows: result.data, delimiter: result.meta.delimiter };
+}
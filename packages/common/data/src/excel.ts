@@ -0,0 +1,119 @@
+/**
+ * @file excel.ts
+ * @description Excel (.xlsx) sheet reader; dates stay Excel serial numbers
+ */
+
+import JSZip from 'jszip';
+import {
+  childElement,
+  childElements,
+  descendants,
+  localName,
+  parseXml,
+  textContent,
+  type XmlElement,
+} from './xml';
+
+/**
+ * Cell values of a sheet, row by row; missing cells are empty strings
+ */
+export async function readSheetRows(data: Uint8Array, sheetName?: string): Promise<unknown[][]> {
+  const zip = await JSZip.loadAsync(data);
+  const readXml = async (path: string): Promise<XmlElement | undefined> => {
+    const file = zip.file(path);
+    return file ? parseXml(await file.async('string')) : undefined;
+  };
+
+  const workbook = await readXml('xl/workbook.xml');
+  if (!workbook) {
+    throw new Error('Invalid Excel file: xl/workbook.xml not found');
+  }
+  const sheets = descendants(workbook, 'sheet');
+  const sheet = sheetName
+    ? sheets.find((candidate) => candidate.attributes.name === sheetName)
+    : sheets[0];
+  if (!sheet) {
+    throw new Error(sheetName ? `Sheet not found: ${sheetName}` : 'The workbook has no sheets');
+  }
+
+  const relationshipId = Object.entries(sheet.attributes).find(([name]) =>
+    name.endsWith(':id')
+  )?.[1];
+  const relationships = await readXml('xl/_rels/workbook.xml.rels');
+  const target = relationships
+    ? childElements(relationships, 'Relationship').find(
+        (relationship) => relationship.attributes.Id === relationshipId
+      )?.attributes.Target
+    : undefined;
+  const sheetPath = target
+    ? target.startsWith('/')
+      ? target.slice(1)
+      : `xl/${target}`
+    : `xl/worksheets/sheet${sheets.indexOf(sheet) + 1}.xml`;
+
+  const sharedStringsXml = await readXml('xl/sharedStrings.xml');
+  // Rich text keeps its runs in separate <t> elements; phonetic runs (<rPh>) are not text
+  const sharedStrings = sharedStringsXml
+    ? childElements(sharedStringsXml, 'si').map((item) =>
+        childElements(item)
+          .filter((child) => localName(child) !== 'rPh')
+          .flatMap((child) => (localName(child) === 't' ? [child] : descendants(child, 't')))
+          .map((text) => textContent(text))
+          .join('')
+      )
+    : [];
+
+  const worksheet = await readXml(sheetPath);
+  if (!worksheet) {
+    throw new Error(`Invalid Excel file: ${sheetPath} not found`);
+  }
+
+  const rows: unknown[][] = [];
+  const sheetData = childElement(worksheet, 'sheetData');
+  for (const [rowIndex, row] of (sheetData ? childElements(sheetData, 'row') : []).entries()) {
+    const cells: unknown[] = [];
+    for (const cell of childElements(row, 'c')) {
+      const column = cell.attributes.r ? columnIndex(cell.attributes.r) : cells.length;
+      while (cells.length < column) {
+        cells.push('');
+      }
+      cells[column] = cellValue(cell, sharedStrings);
+    }
+    const index = row.attributes.r ? Number(row.attributes.r) - 1 : rowIndex;
+    while (rows.length < index) {
+      rows.push([]);
+    }
+    rows[index] = cells;
+  }
+  return rows;
+}
+
+function cellValue(cell: XmlElement, sharedStrings: string[]): unknown {
+  const value = textContent(childElement(cell, 'v'));
+  switch (cell.attributes.t) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'inlineStr':
+      return descendants(cell, 't')
+        .map((text) => textContent(text))
+        .join('');
+    case 'b':
+      return value === '1';
+    case 'str':
+    case 'e':
+      return value;
+    default:
+      return value === '' ? '' : Number(value);
+  }
+}
+
+/**
+ * Zero-based column of a cell reference such as "AB12"
+ */
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + char.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
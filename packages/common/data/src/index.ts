@@ -0,0 +1,38 @@
+// CSV
+export { parseCsvRows } from './csv';
+
+// Excel
+export { readSheetRows } from './excel';
+
+// XML
+export {
+  XML_DECLARATION,
+  parseXml,
+  localName,
+  childElements,
+  childElement,
+  descendants,
+  textContent,
+  escapeXml,
+} from './xml';
+export type { XmlElement, XmlNode } from './xml';
+
+// Choropleth
+export {
+  DEFAULT_SOURCE_LAYER,
+  createChoroplethLayer,
+  joinRowsToFeatures,
+  compileChoroplethPaint,
+  buildChoroplethLegend,
+  evaluateColorRule,
+} from './choropleth';
+export type {
+  StyleMapStyle,
+  StyleMapColorRule,
+  StyleMapFeatureLayer,
+  ChoroplethStyleMap,
+  ChoroplethLayerType,
+  ChoroplethJoin,
+  ChoroplethLegendItem,
+  ChoroplethLayer,
+} from './choropleth';
@@ -0,0 +1,184 @@
+/**
+ * @file xml.ts
+ * @description Small XML reader/writer helpers the Excel and KML codecs build on
+ */
+
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlNode[];
+}
+
+export type XmlNode = XmlElement | string;
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8"?>';
+
+/**
+ * Parse a document into its root element
+ * Comments, processing instructions and DOCTYPEs are skipped; whitespace-only text is dropped
+ */
+export function parseXml(text: string): XmlElement {
+  const document: XmlElement = { name: '#document', attributes: {}, children: [] };
+  const stack = [document];
+  const current = (): XmlElement => stack[stack.length - 1]!;
+  const addText = (raw: string, decode = true): void => {
+    if (raw.trim()) {
+      current().children.push(decode ? decodeEntities(raw) : raw);
+    }
+  };
+  const skipTo = (terminator: string, from: number): number => {
+    const end = text.indexOf(terminator, from);
+    if (end === -1) {
+      throw new Error(`Invalid XML: missing "${terminator}"`);
+    }
+    return end + terminator.length;
+  };
+
+  let position = 0;
+  while (position < text.length) {
+    const open = text.indexOf('<', position);
+    if (open === -1) {
+      addText(text.slice(position));
+      break;
+    }
+    addText(text.slice(position, open));
+
+    if (text.startsWith('<!--', open)) {
+      position = skipTo('-->', open);
+    } else if (text.startsWith('<![CDATA[', open)) {
+      position = skipTo(']]>', open);
+      addText(text.slice(open + 9, position - 3), false);
+    } else if (text.startsWith('<?', open)) {
+      position = skipTo('?>', open);
+    } else if (text.startsWith('<!', open)) {
+      // DOCTYPE, possibly with an internal subset
+      let depth = 0;
+      position = open + 2;
+      while (position < text.length && (text[position] !== '>' || depth > 0)) {
+        depth += text[position] === '[' ? 1 : text[position] === ']' ? -1 : 0;
+        position++;
+      }
+      position++;
+    } else if (text.startsWith('</', open)) {
+      position = skipTo('>', open);
+      const name = text.slice(open + 2, position - 1).trim();
+      const element = stack.pop();
+      if (!element || element === document || element.name !== name) {
+        throw new Error(`Invalid XML: unexpected </${name}>`);
+      }
+    } else {
+      position = tagEnd(text, open);
+      const body = text.slice(open + 1, position - 1);
+      const selfClosing = body.endsWith('/');
+      const [name = ''] = body.match(/^[^\s/>]+/) ?? [];
+      if (!name) {
+        throw new Error(`Invalid XML: malformed tag at ${open}`);
+      }
+      const element: XmlElement = {
+        name,
+        attributes: parseAttributes(body.slice(name.length)),
+        children: [],
+      };
+      current().children.push(element);
+      if (!selfClosing) {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Invalid XML: <${current().name}> is not closed`);
+  }
+  const root = childElements(document)[0];
+  if (!root) {
+    throw new Error('Invalid XML: no root element');
+  }
+  return root;
+}
+
+/**
+ * Element name without its namespace prefix
+ */
+export function localName(element: XmlElement): string {
+  const colon = element.name.indexOf(':');
+  return colon === -1 ? element.name : element.name.slice(colon + 1);
+}
+
+/**
+ * Child elements, optionally only those with the given local name
+ */
+export function childElements(element: XmlElement, name?: string): XmlElement[] {
+  return element.children.filter(
+    (child): child is XmlElement =>
+      typeof child !== 'string' && (name === undefined || localName(child) === name)
+  );
+}
+
+export function childElement(element: XmlElement, name: string): XmlElement | undefined {
+  return childElements(element, name)[0];
+}
+
+/**
+ * All descendants with the given local name, in document order
+ */
+export function descendants(element: XmlElement, name: string): XmlElement[] {
+  return childElements(element).flatMap((child) => [
+    ...(localName(child) === name ? [child] : []),
+    ...descendants(child, name),
+  ]);
+}
+
+export function textContent(element: XmlElement | undefined): string {
+  if (!element) {
+    return '';
+  }
+  return element.children
+    .map((child) => (typeof child === 'string' ? child : textContent(child)))
+    .join('')
+    .trim();
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function tagEnd(text: string, open: number): number {
+  let quote: string | undefined;
+  for (let index = open + 1; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      quote = char === quote ? undefined : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '>') {
+      return index + 1;
+    }
+  }
+  throw new Error(`Invalid XML: unterminated tag at ${open}`);
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([^\s=/>]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]!] = decodeEntities(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+const ENTITIES: Record<string, string> = { lt: '<', gt: '>', amp: '&', quot: '"', apos: "'" };
+
+function decodeEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith('#')) {
+      const code =
+        name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1));
+      return String.fromCodePoint(code);
+    }
+    return ENTITIES[name] ?? entity;
+  });
+}
@@ -0,0 +1,18 @@
+import { defineConfig } from 'tsup';
+
+export default defineConfig({
+  target: 'es2022',
+  entry: ['src/index.ts'],
+  format: ['esm'],
+  dts: {
+    compilerOptions: {
+      composite: false,
+      incremental: false,
+      tsBuildInfoFile: undefined,
+    },
+  },
+  splitting: false,
+  sourcemap: true,
+  clean: true,
+  external: ['jszip', 'papaparse'],
+});
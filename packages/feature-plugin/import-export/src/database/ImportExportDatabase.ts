@@ -0,0 +1,46 @@
+/**
+ * @file ImportExportDatabase.ts
+ * @description Dexie database for import/export operations
+ */
+
+import Dexie, { type Table } from 'dexie';
+import type { EntityId } from '@hierarchidb/common-core';
+import type { ImportExportEntity } from '../types/ImportExportEntity';
+import { ImportExportDefinition } from '../definitions/ImportExportDefinition';
+
+/**
+ * Import/Export database schema, as declared in ImportExportDefinition
+ */
+export class ImportExportDatabase extends Dexie {
+  entities!: Table<ImportExportEntity, EntityId>;
+
+  constructor(name = ImportExportDefinition.database.dbName) {
+    super(name);
+
+    this.version(ImportExportDefinition.database.version).stores({
+      entities: ImportExportDefinition.database.schema,
+    });
+  }
+
+  /**
+   * Get or create database instance
+   */
+  private static instance: ImportExportDatabase | null = null;
+
+  static getInstance(): ImportExportDatabase {
+    if (!ImportExportDatabase.instance) {
+      ImportExportDatabase.instance = new ImportExportDatabase();
+    }
+    return ImportExportDatabase.instance;
+  }
+
+  /**
+   * Close database connection
+   */
+  static async close(): Promise<void> {
+    if (ImportExportDatabase.instance) {
+      await ImportExportDatabase.instance.close();
+      ImportExportDatabase.instance = null;
+    }
+  }
+}
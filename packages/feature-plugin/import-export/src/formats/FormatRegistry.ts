@@ -0,0 +1,100 @@
+/**
+ * Import/Export Plugin - Format registry
+ * Codecs between file contents and flat records, shared with other plugins
+ */
+
+import type { DataFormat, SourceOptions, TargetOptions } from '../types/ImportExportEntity';
+
+/**
+ * A single row flowing through the pipeline
+ */
+export type DataRecord = Record<string, unknown>;
+
+/**
+ * Reads and writes one file format
+ * Text formats decode the input with sourceOptions.encoding themselves (see decodeText)
+ */
+export interface FormatAdapter {
+  readonly format: DataFormat;
+  readonly name: string;
+  readonly extensions: readonly string[];
+  readonly mimeType: string;
+  parse?(data: Uint8Array, options: SourceOptions): Promise<DataRecord[]>;
+  serialize?(records: DataRecord[], options: TargetOptions): Promise<Uint8Array | string>;
+}
+
+export class FormatRegistry {
+  private adapters = new Map<DataFormat, FormatAdapter>();
+
+  /**
+   * Register an adapter, replacing any previous one for the format
+   */
+  register(adapter: FormatAdapter): void {
+    this.adapters.set(adapter.format, adapter);
+  }
+
+  unregister(format: DataFormat): void {
+    this.adapters.delete(format);
+  }
+
+  get(format: DataFormat): FormatAdapter | undefined {
+    return this.adapters.get(format);
+  }
+
+  getAll(): FormatAdapter[] {
+    return [...this.adapters.values()];
+  }
+
+  /**
+   * Find the adapter for a file name by its extension
+   */
+  getByFilename(filename: string): FormatAdapter | undefined {
+    const name = filename.toLowerCase();
+    return this.getAll().find((adapter) =>
+      adapter.extensions.some((extension) => name.endsWith(extension))
+    );
+  }
+
+  canRead(format: DataFormat): boolean {
+    return Boolean(this.adapters.get(format)?.parse);
+  }
+
+  canWrite(format: DataFormat): boolean {
+    return Boolean(this.adapters.get(format)?.serialize);
+  }
+
+  async parse(
+    data: Uint8Array,
+    format: DataFormat,
+    options: SourceOptions = {}
+  ): Promise<DataRecord[]> {
+    const adapter = this.adapters.get(format);
+    if (!adapter?.parse) {
+      throw new Error(`Unsupported source format: ${format}`);
+    }
+    return adapter.parse(data, options);
+  }
+
+  async serialize(
+    records: DataRecord[],
+    format: DataFormat,
+    options: TargetOptions = {}
+  ): Promise<Blob> {
+    const adapter = this.adapters.get(format);
+    if (!adapter?.serialize) {
+      throw new Error(`Unsupported target format: ${format}`);
+    }
+    return new Blob([await adapter.serialize(records, options)], { type: adapter.mimeType });
+  }
+}
+
+/**
+ * Decode text input, dropping a byte order mark
+ */
+export function decodeText(data: Uint8Array, options: SourceOptions = {}): string {
+  return new TextDecoder(options.encoding ?? 'utf-8').decode(data);
+}
+
+export function isRecord(value: unknown): value is DataRecord {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,303 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { formatRegistry, FormatRegistry, readShapefileLayers, type DataRecord } from '../index';
+import type { DataFormat } from '../../types/ImportExportEntity';
+import { parseYaml } from '../yaml';
+
+const encode = (text: string): Uint8Array => new TextEncoder().encode(text);
+
+async function roundTrip(records: DataRecord[], format: DataFormat): Promise<DataRecord[]> {
+  const blob = await formatRegistry.serialize(records, format);
+  return formatRegistry.parse(new Uint8Array(await blob.arrayBuffer()), format);
+}
+
+describe('formatRegistry', () => {
+  it('reads and writes every listed format except SQL and native bundles', () => {
+    expect(
+      formatRegistry
+        .getAll()
+        .map((adapter) => adapter.format)
+        .sort()
+    ).toEqual(['csv', 'excel', 'geojson', 'json', 'kml', 'shapefile', 'xml', 'yaml']);
+    expect(formatRegistry.canRead('sql')).toBe(false);
+    expect(formatRegistry.getByFilename('Data.YML')?.format).toBe('yaml');
+  });
+
+  it('lets other plugins register their own codecs', async () => {
+    const registry = new FormatRegistry();
+    registry.register({
+      format: 'sql',
+      name: 'SQL',
+      extensions: ['.sql'],
+      mimeType: 'application/sql',
+      serialize: async (records) => records.map(() => 'INSERT ...;').join('\n'),
+    });
+    expect(registry.canWrite('sql')).toBe(true);
+    expect(registry.canRead('sql')).toBe(false);
+    await expect(registry.parse(encode(''), 'sql')).rejects.toThrow(
+      'Unsupported source format: sql'
+    );
+  });
+});
+
+describe('XML', () => {
+  it('reads the repeated elements inside wrapper elements', async () => {
+    const xml = `<?xml version="1.0"?>
+      <!-- export -->
+      <data><cities>
+        <city id="1"><name>Tokyo &amp; Yokohama</name><tag>a</tag><tag>b</tag></city>
+        <city id="2"><name><![CDATA[<Osaka>]]></name></city>
+      </cities></data>`;
+    expect(await formatRegistry.parse(encode(xml), 'xml')).toEqual([
+      { id: '1', name: 'Tokyo & Yokohama', tag: ['a', 'b'] },
+      { id: '2', name: '<Osaka>' },
+    ]);
+  });
+
+  it('round-trips nested values', async () => {
+    const records = [{ name: 'A & B', 'first name': 'x', location: { lat: '35', lon: '139' } }];
+    expect(await roundTrip(records, 'xml')).toEqual([
+      { name: 'A & B', first_name: 'x', location: { lat: '35', lon: '139' } },
+    ]);
+  });
+});
+
+describe('YAML', () => {
+  it('parses block and flow styles', () => {
+    const yaml = [
+      '# cities',
+      '---',
+      '- name: Tokyo',
+      '  population: 13960000',
+      '  tags: [capital, "big city"]',
+      '  coastal: true',
+      '  note: |',
+      '    line one',
+      '    line two',
+      '- name: "Osaka: Kansai"',
+      '  population: ~',
+      '  wards:',
+      '  - Kita',
+      '  - Chuo # comment',
+      '  location: {lat: 34.7, lon: 135.5}',
+    ].join('\n');
+    expect(parseYaml(yaml)).toEqual([
+      {
+        name: 'Tokyo',
+        population: 13960000,
+        tags: ['capital', 'big city'],
+        coastal: true,
+        note: 'line one\nline two\n',
+      },
+      {
+        name: 'Osaka: Kansai',
+        population: null,
+        wards: ['Kita', 'Chuo'],
+        location: { lat: 34.7, lon: 135.5 },
+      },
+    ]);
+  });
+
+  it('round-trips records, quoting strings that would change type', async () => {
+    const records = [
+      { name: 'true', code: '007', note: 'a: b', nested: { list: [1, 'two'], empty: [] } },
+      { name: 'plain', code: 7, note: null, nested: {} },
+    ];
+    expect(await roundTrip(records, 'yaml')).toEqual(records);
+  });
+});
+
+describe('KML', () => {
+  it('reads placemarks with extended data and geometry', async () => {
+    const kml = `<kml xmlns="http://www.opengis.net/kml/2.2"><Document><Folder>
+      <Placemark id="p1">
+        <name>Park</name>
+        <ExtendedData><Data name="area"><value>12</value></Data></ExtendedData>
+        <Polygon>
+          <outerBoundaryIs><LinearRing><coordinates>0,0 4,0 4,4 0,4 0,0</coordinates></LinearRing></outerBoundaryIs>
+          <innerBoundaryIs><LinearRing><coordinates>1,1 1,2 2,2 1,1</coordinates></LinearRing></innerBoundaryIs>
+        </Polygon>
+      </Placemark>
+      <Placemark><name>Stops</name><MultiGeometry>
+        <Point><coordinates>1,2,10</coordinates></Point><Point><coordinates>3,4</coordinates></Point>
+      </MultiGeometry></Placemark>
+    </Folder></Document></kml>`;
+    expect(await formatRegistry.parse(encode(kml), 'kml')).toEqual([
+      {
+        id: 'p1',
+        name: 'Park',
+        area: '12',
+        geometry: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [0, 0],
+              [4, 0],
+              [4, 4],
+              [0, 4],
+              [0, 0],
+            ],
+            [
+              [1, 1],
+              [1, 2],
+              [2, 2],
+              [1, 1],
+            ],
+          ],
+        },
+      },
+      {
+        name: 'Stops',
+        geometry: {
+          type: 'MultiPoint',
+          coordinates: [
+            [1, 2, 10],
+            [3, 4],
+          ],
+        },
+      },
+    ]);
+  });
+
+  it('round-trips GeoJSON geometries stored as text', async () => {
+    const line = {
+      type: 'LineString',
+      coordinates: [
+        [139.7, 35.6],
+        [139.8, 35.7],
+      ],
+    };
+    const [record] = await roundTrip(
+      [{ name: 'Route', description: 'x < y', geometry: JSON.stringify(line), lanes: 2 }],
+      'kml'
+    );
+    expect(record).toEqual({ name: 'Route', description: 'x < y', lanes: '2', geometry: line });
+  });
+});
+
+describe('Excel', () => {
+  it('round-trips typed cells through a workbook', async () => {
+    const records = [
+      { name: 'Tokyo', population: 13960000, capital: true },
+      { name: 'Osaka & Kobe', population: 2750000, capital: false },
+    ];
+    expect(await roundTrip(records, 'excel')).toEqual(records);
+  });
+
+  it('reads shared strings and the requested sheet', async () => {
+    const zip = new JSZip();
+    zip.file(
+      'xl/workbook.xml',
+      '<workbook xmlns:r="r"><sheets><sheet name="Notes" r:id="rId1"/><sheet name="Data" r:id="rId2"/></sheets></workbook>'
+    );
+    zip.file(
+      'xl/_rels/workbook.xml.rels',
+      '<Relationships><Relationship Id="rId1" Target="worksheets/notes.xml"/><Relationship Id="rId2" Target="/xl/worksheets/data.xml"/></Relationships>'
+    );
+    zip.file(
+      'xl/sharedStrings.xml',
+      '<sst><si><t>city</t></si><si><r><t>Na</t></r><r><t>ra</t></r><rPh sb="0" eb="2"><t>なら</t></rPh></si></sst>'
+    );
+    zip.file(
+      'xl/worksheets/data.xml',
+      '<worksheet><sheetData><row r="1"><c r="A1" t="s"><v>0</v></c></row><row r="3"><c r="A3" t="s"><v>1</v></c><c r="C3"><v>5</v></c></row></sheetData></worksheet>'
+    );
+    const data = await zip.generateAsync({ type: 'uint8array' });
+
+    expect(
+      await formatRegistry.parse(data, 'excel', { layerName: 'Data', hasHeader: false })
+    ).toEqual([
+      { column1: 'city', column2: '', column3: '' },
+      { column1: 'Nara', column2: '', column3: 5 },
+    ]);
+  });
+});
+
+describe('Shapefile', () => {
+  it('round-trips polygons with holes and typed attributes', async () => {
+    const polygon = {
+      type: 'Polygon',
+      coordinates: [
+        [
+          [0, 0],
+          [10, 0],
+          [10, 10],
+          [0, 10],
+          [0, 0],
+        ],
+        [
+          [2, 2],
+          [2, 4],
+          [4, 4],
+          [2, 2],
+        ],
+      ],
+    };
+    const records = [
+      { name: '公園', area: 96.5, open: true, geometry: polygon },
+      { name: 'Empty lot', area: 3, open: false, geometry: null },
+    ];
+
+    const blob = await formatRegistry.serialize(records, 'shapefile', { layerName: 'parks' });
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+    expect(Object.keys(zip.files).sort()).toEqual([
+      'parks.cpg',
+      'parks.dbf',
+      'parks.prj',
+      'parks.shp',
+      'parks.shx',
+    ]);
+
+    const parsed = await formatRegistry.parse(
+      new Uint8Array(await blob.arrayBuffer()),
+      'shapefile'
+    );
+    expect(parsed).toEqual(records);
+  });
+
+  it('reprojects layers to WGS84 with their .prj and reports missing sidecars', async () => {
+    // 141°E 36°N in WGS 84 / UTM zone 54N
+    const blob = await formatRegistry.serialize(
+      [{ name: 'Tsukuba', geometry: { type: 'Point', coordinates: [500000, 3983948.45] } }],
+      'shapefile',
+      { layerName: 'towns' }
+    );
+    const zip = await JSZip.loadAsync(await blob.arrayBuffer());
+    zip.file(
+      'towns.prj',
+      'PROJCS["WGS_1984_UTM_Zone_54N",GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",500000.0],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",141.0],PARAMETER["Scale_Factor",0.9996],PARAMETER["Latitude_Of_Origin",0.0],UNIT["Meter",1.0]]'
+    );
+    zip.remove('towns.dbf');
+
+    const [layer] = await readShapefileLayers(await zip.generateAsync({ type: 'uint8array' }));
+    expect(layer).toMatchObject({
+      name: 'towns',
+      sourceCrs: 'WGS_1984_UTM_Zone_54N',
+      warnings: ['towns.dbf is missing; features have no attributes'],
+    });
+    const [longitude, latitude] = (layer!.records[0]!.geometry as { coordinates: number[] })
+      .coordinates;
+    expect(longitude).toBeCloseTo(141, 6);
+    expect(latitude).toBeCloseTo(36, 3);
+  });
+
+  it('rejects layers that mix geometry types', async () => {
+    await expect(
+      formatRegistry.serialize(
+        [
+          { geometry: { type: 'Point', coordinates: [0, 0] } },
+          {
+            geometry: {
+              type: 'LineString',
+              coordinates: [
+                [0, 0],
+                [1, 1],
+              ],
+            },
+          },
+        ],
+        'shapefile'
+      )
+    ).rejects.toThrow('same geometry type');
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseCoordinateSystem } from '../projection';
+
+/**
+ * Projection inverses against the EPSG Guidance Note 7-2 examples
+ */
+
+describe('projection', () => {
+  const expectPosition = (actual: number[], expected: number[]) => {
+    expect(actual[0]).toBeCloseTo(expected[0]!, 6);
+    expect(actual[1]).toBeCloseTo(expected[1]!, 6);
+  };
+
+  it('inverts Transverse Mercator (OSGB 1936 / British National Grid)', () => {
+    const crs = parseCoordinateSystem(
+      'PROJCS["OSGB 1936 / British National Grid",GEOGCS["OSGB 1936",DATUM["OSGB_1936",SPHEROID["Airy 1830",6377563.396,299.3249646]],PRIMEM["Greenwich",0],UNIT["degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["latitude_of_origin",49],PARAMETER["central_meridian",-2],PARAMETER["scale_factor",0.9996012717],PARAMETER["false_easting",400000],PARAMETER["false_northing",-100000],UNIT["metre",1]]'
+    );
+    expect(crs).toMatchObject({ name: 'OSGB 1936 / British National Grid', geographic: false });
+    expectPosition(crs.unproject([577274.99, 69740.5]), [0.5, 50.5]);
+  });
+
+  it('inverts Lambert Conic Conformal from WKT2 in US survey feet', () => {
+    const crs = parseCoordinateSystem(
+      'PROJCRS["NAD27 / Texas South Central",BASEGEOGCRS["NAD27",DATUM["North American Datum 1927",ELLIPSOID["Clarke 1866",6378206.4,294.978698213898,LENGTHUNIT["metre",1]]],PRIMEM["Greenwich",0,ANGLEUNIT["degree",0.0174532925199433]]],CONVERSION["Texas CS27 South Central zone",METHOD["Lambert Conic Conformal (2SP)",ID["EPSG",9802]],PARAMETER["Latitude of false origin",27.8333333333333,ANGLEUNIT["degree",0.0174532925199433]],PARAMETER["Longitude of false origin",-99,ANGLEUNIT["degree",0.0174532925199433]],PARAMETER["Latitude of 1st standard parallel",28.3833333333333,ANGLEUNIT["degree",0.0174532925199433]],PARAMETER["Latitude of 2nd standard parallel",30.2833333333333,ANGLEUNIT["degree",0.0174532925199433]],PARAMETER["Easting at false origin",2000000,LENGTHUNIT["US survey foot",0.304800609601219]],PARAMETER["Northing at false origin",0,LENGTHUNIT["US survey foot",0.304800609601219]]],CS[Cartesian,2],AXIS["easting (X)",east],AXIS["northing (Y)",north],LENGTHUNIT["US survey foot",0.304800609601219]]'
+    );
+    expectPosition(crs.unproject([2963503.91, 254759.8]), [-96, 28.5]);
+  });
+
+  it('inverts Mercator (variant A) and rejects unsupported projections', () => {
+    const crs = parseCoordinateSystem(
+      'PROJCS["Makassar / NEIEZ",GEOGCS["Makassar",DATUM["Makassar",SPHEROID["Bessel 1841",6377397.155,299.1528128]],PRIMEM["Greenwich",0],UNIT["degree",0.0174532925199433]],PROJECTION["Mercator_1SP"],PARAMETER["central_meridian",110],PARAMETER["scale_factor",0.997],PARAMETER["false_easting",3900000],PARAMETER["false_northing",900000],UNIT["metre",1]]'
+    );
+    expectPosition(crs.unproject([5009726.58, 569150.82]), [120, -3]);
+
+    expect(() =>
+      parseCoordinateSystem(
+        'PROJCS["Albers",GEOGCS["WGS 84",DATUM["WGS_1984",SPHEROID["WGS 84",6378137,298.257223563]]],PROJECTION["Albers_Conic_Equal_Area"],UNIT["metre",1]]'
+      )
+    ).toThrow('not supported');
+  });
+});
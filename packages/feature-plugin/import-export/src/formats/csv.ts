@@ -0,0 +1,60 @@
+/**
+ * Import/Export Plugin - CSV format
+ */
+
+import { parseCsvRows } from '@hierarchidb/common-data';
+import Papa from 'papaparse';
+import type { SourceOptions, TargetOptions } from '../types/ImportExportEntity';
+import { decodeText, type DataRecord, type FormatAdapter } from './FormatRegistry';
+
+export const csvFormat: FormatAdapter = {
+  format: 'csv',
+  name: 'CSV',
+  extensions: ['.csv', '.tsv', '.txt'],
+  mimeType: 'text/csv',
+  parse: async (data, options) => parseCsv(decodeText(data, options), options),
+  serialize: async (records, options) => serializeCsv(records, options),
+};
+
+function parseCsv(text: string, options: SourceOptions): DataRecord[] {
+  const { delimiter = '', skipRows = 0 } = options;
+  // skipRows drops leading lines (titles, notes) before the header
+  const body = skipRows > 0 ? text.split(/\r?\n/).slice(skipRows).join('\n') : text;
+  return rowsToRecords(parseCsvRows(body, delimiter).rows, options);
+}
+
+/**
+ * Turn a grid of cells into records keyed by the header row, or column1.. without one
+ */
+export function rowsToRecords<T>(rows: T[][], options: SourceOptions): DataRecord[] {
+  const { hasHeader = true } = options;
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  const header = hasHeader
+    ? (rows.shift() ?? []).map((name) => String(name ?? '').trim())
+    : Array.from({ length: width }, (_, index) => `column${index + 1}`);
+
+  return rows.map((row) =>
+    Object.fromEntries(header.map((name, index) => [name, row[index] ?? '']))
+  );
+}
+
+function serializeCsv(records: DataRecord[], options: TargetOptions): string {
+  const fields = recordFields(records);
+  const data = records.map((record) =>
+    fields.map((field) => {
+      const value = record[field];
+      return value !== null && typeof value === 'object' ? JSON.stringify(value) : value;
+    })
+  );
+  return Papa.unparse(
+    { fields, data },
+    { delimiter: options.delimiter ?? ',', header: options.includeHeader ?? true }
+  );
+}
+
+/**
+ * Union of the records' keys, in first-seen order
+ */
+export function recordFields(records: DataRecord[]): string[] {
+  return [...new Set(records.flatMap((record) => Object.keys(record)))];
+}
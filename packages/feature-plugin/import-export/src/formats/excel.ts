@@ -0,0 +1,99 @@
+/**
+ * Import/Export Plugin - Excel (.xlsx) format
+ * Reads cell values of one sheet (dates stay Excel serial numbers) and writes a single-sheet workbook
+ */
+
+import { XML_DECLARATION, escapeXml, readSheetRows } from '@hierarchidb/common-data';
+import JSZip from 'jszip';
+import type { SourceOptions, TargetOptions } from '../types/ImportExportEntity';
+import { recordFields, rowsToRecords } from './csv';
+import type { DataRecord, FormatAdapter } from './FormatRegistry';
+
+const SPREADSHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+export const excelFormat: FormatAdapter = {
+  format: 'excel',
+  name: 'Excel',
+  extensions: ['.xlsx'],
+  mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  parse: async (data, options) => parseWorkbook(data, options),
+  serialize: async (records, options) => writeWorkbook(records, options),
+};
+
+async function parseWorkbook(data: Uint8Array, options: SourceOptions): Promise<DataRecord[]> {
+  const rows = (await readSheetRows(data, options.layerName))
+    .slice(options.skipRows ?? 0)
+    // Drop blank rows like the CSV reader does
+    .filter((row) => row.some((cell) => cell !== ''));
+  return rowsToRecords(rows, options);
+}
+
+async function writeWorkbook(records: DataRecord[], options: TargetOptions): Promise<Uint8Array> {
+  const fields = recordFields(records);
+  const rows: unknown[][] = [
+    ...(options.includeHeader === false ? [] : [fields]),
+    ...records.map((record) => fields.map((field) => record[field])),
+  ];
+
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, index) => {
+      const reference = `${columnName(index)}${rowIndex + 1}`;
+      if (value === null || value === undefined || value === '') {
+        return '';
+      }
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        return `<c r="${reference}"><v>${value}</v></c>`;
+      }
+      if (typeof value === 'boolean') {
+        return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+      }
+      const text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+    });
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+  });
+
+  const sheetName = escapeXml(options.layerName ?? 'Sheet1');
+  const zip = new JSZip();
+  zip.file(
+    '[Content_Types].xml',
+    `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+      '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+      '</Types>'
+  );
+  zip.file(
+    '_rels/.rels',
+    `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+      '</Relationships>'
+  );
+  zip.file(
+    'xl/workbook.xml',
+    `${XML_DECLARATION}<workbook xmlns="${SPREADSHEET_NS}" xmlns:r="${RELATIONSHIP_NS}">` +
+      `<sheets><sheet name="${sheetName}" sheetId="1" r:id="rId1"/></sheets></workbook>`
+  );
+  zip.file(
+    'xl/_rels/workbook.xml.rels',
+    `${XML_DECLARATION}<Relationships xmlns="${PACKAGE_RELATIONSHIP_NS}">` +
+      `<Relationship Id="rId1" Type="${RELATIONSHIP_NS}/worksheet" Target="worksheets/sheet1.xml"/>` +
+      '</Relationships>'
+  );
+  zip.file(
+    'xl/worksheets/sheet1.xml',
+    `${XML_DECLARATION}<worksheet xmlns="${SPREADSHEET_NS}"><sheetData>${sheetRows.join('')}</sheetData></worksheet>`
+  );
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    name = String.fromCharCode(65 + ((remaining - 1) % 26)) + name;
+  }
+  return name;
+}
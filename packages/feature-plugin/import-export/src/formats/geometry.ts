@@ -0,0 +1,68 @@
+/**
+ * Import/Export Plugin - GeoJSON geometry helpers shared by the spatial formats
+ */
+
+import { isRecord } from './FormatRegistry';
+
+export type Position = number[];
+
+export type Geometry =
+  | { type: 'Point'; coordinates: Position }
+  | { type: 'MultiPoint'; coordinates: Position[] }
+  | { type: 'LineString'; coordinates: Position[] }
+  | { type: 'MultiLineString'; coordinates: Position[][] }
+  | { type: 'Polygon'; coordinates: Position[][] }
+  | { type: 'MultiPolygon'; coordinates: Position[][][] }
+  | { type: 'GeometryCollection'; geometries: Geometry[] };
+
+const GEOMETRY_TYPES = new Set([
+  'Point',
+  'MultiPoint',
+  'LineString',
+  'MultiLineString',
+  'Polygon',
+  'MultiPolygon',
+  'GeometryCollection',
+]);
+
+/**
+ * Read a record's geometry column, which may hold GeoJSON text (e.g. after a CSV round trip)
+ */
+export function toGeometry(value: unknown): Geometry | null {
+  let geometry = value;
+  if (typeof value === 'string' && value.trimStart().startsWith('{')) {
+    try {
+      geometry = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+  return isRecord(geometry) && GEOMETRY_TYPES.has(String(geometry.type))
+    ? (geometry as Geometry)
+    : null;
+}
+
+/**
+ * Signed ring area; positive for counter-clockwise rings
+ */
+export function ringArea(ring: Position[]): number {
+  let area = 0;
+  for (let index = 0, previous = ring.length - 1; index < ring.length; previous = index++) {
+    const [x1 = 0, y1 = 0] = ring[previous]!;
+    const [x2 = 0, y2 = 0] = ring[index]!;
+    area += x1 * y2 - x2 * y1;
+  }
+  return area / 2;
+}
+
+export function pointInRing([x = 0, y = 0]: Position, ring: Position[]): boolean {
+  let inside = false;
+  for (let index = 0, previous = ring.length - 1; index < ring.length; previous = index++) {
+    const [x1 = 0, y1 = 0] = ring[index]!;
+    const [x2 = 0, y2 = 0] = ring[previous]!;
+    if (y1 > y !== y2 > y && x < ((x2 - x1) * (y - y1)) / (y2 - y1) + x1) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
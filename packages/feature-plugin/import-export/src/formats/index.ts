@@ -0,0 +1,53 @@
+/**
+ * Import/Export Plugin - Built-in formats
+ */
+
+import { csvFormat } from './csv';
+import { excelFormat } from './excel';
+import { FormatRegistry } from './FormatRegistry';
+import { geojsonFormat, jsonFormat } from './json';
+import { kmlFormat } from './kml';
+import { shapefileFormat } from './shapefile';
+import { xmlFormat } from './xml';
+import { yamlFormat } from './yaml';
+
+export * from './FormatRegistry';
+export {
+  csvFormat,
+  excelFormat,
+  geojsonFormat,
+  jsonFormat,
+  kmlFormat,
+  shapefileFormat,
+  xmlFormat,
+  yamlFormat,
+};
+export { readSheetRows } from '@hierarchidb/common-data';
+export { isShp, readShapefileLayers, type ShapefileLayer } from './shapefile';
+export {
+  WGS84,
+  coordinateSystemFromEpsg,
+  epsgCodeOf,
+  parseCoordinateSystem,
+  transformGeometry,
+  type CoordinateSystem,
+  type Unprojector,
+} from './projection';
+export type { Geometry, Position } from './geometry';
+
+/**
+ * Registry with every built-in format; other plugins may register more
+ */
+export const formatRegistry = new FormatRegistry();
+for (const adapter of [
+  csvFormat,
+  jsonFormat,
+  geojsonFormat,
+  xmlFormat,
+  yamlFormat,
+  excelFormat,
+  kmlFormat,
+  shapefileFormat,
+]) {
+  formatRegistry.register(adapter);
+}
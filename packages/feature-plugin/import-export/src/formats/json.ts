@@ -0,0 +1,67 @@
+/**
+ * Import/Export Plugin - JSON and GeoJSON formats
+ */
+
+import type { SourceOptions } from '../types/ImportExportEntity';
+import { decodeText, isRecord, type DataRecord, type FormatAdapter } from './FormatRegistry';
+
+export const jsonFormat: FormatAdapter = {
+  format: 'json',
+  name: 'JSON',
+  extensions: ['.json'],
+  mimeType: 'application/json',
+  parse: async (data, options) => valuesToRecords(JSON.parse(decodeText(data, options)), options),
+  serialize: async (records) => JSON.stringify(records, null, 2),
+};
+
+/**
+ * GeoJSON features become their properties plus a `geometry` column
+ */
+export const geojsonFormat: FormatAdapter = {
+  format: 'geojson',
+  name: 'GeoJSON',
+  extensions: ['.geojson'],
+  mimeType: 'application/geo+json',
+  parse: async (data, options) => parseGeoJson(decodeText(data, options), options),
+  serialize: async (records) =>
+    JSON.stringify({
+      type: 'FeatureCollection',
+      features: records.map(({ geometry, ...properties }) => ({
+        type: 'Feature',
+        geometry: geometry ?? null,
+        properties,
+      })),
+    }),
+};
+
+/**
+ * A document's top-level array (or single value) as records; shared with YAML
+ */
+export function valuesToRecords(data: unknown, options: SourceOptions): DataRecord[] {
+  const items = Array.isArray(data) ? data : [data];
+  return items
+    .slice(options.skipRows ?? 0)
+    .map((item) => (isRecord(item) ? item : { value: item }));
+}
+
+function parseGeoJson(text: string, options: SourceOptions): DataRecord[] {
+  const data: unknown = JSON.parse(text);
+  const features =
+    isRecord(data) && data.type === 'FeatureCollection' && Array.isArray(data.features)
+      ? data.features
+      : isRecord(data) && data.type === 'Feature'
+        ? [data]
+        : undefined;
+  if (!features) {
+    throw new Error('Invalid GeoJSON: expected a Feature or FeatureCollection');
+  }
+
+  return features.slice(options.skipRows ?? 0).map((feature: unknown) => {
+    const { id, properties, geometry } = isRecord(feature) ? feature : ({} as DataRecord);
+    return {
+      ...(id !== undefined && { id }),
+      ...(isRecord(properties) ? properties : {}),
+      geometry: geometry ?? null,
+    };
+  });
+}
@@ -0,0 +1,181 @@
+/**
+ * Import/Export Plugin - KML format
+ * Each Placemark is a record: name, description, ExtendedData fields and a GeoJSON `geometry`
+ */
+
+import {
+  XML_DECLARATION,
+  childElement,
+  childElements,
+  descendants,
+  escapeXml,
+  localName,
+  parseXml,
+  textContent,
+  type XmlElement,
+} from '@hierarchidb/common-data';
+import type { SourceOptions } from '../types/ImportExportEntity';
+import { decodeText, type DataRecord, type FormatAdapter } from './FormatRegistry';
+import { toGeometry, type Geometry, type Position } from './geometry';
+
+export const kmlFormat: FormatAdapter = {
+  format: 'kml',
+  name: 'KML',
+  extensions: ['.kml'],
+  mimeType: 'application/vnd.google-earth.kml+xml',
+  parse: async (data, options) => parseKml(decodeText(data, options), options),
+  serialize: async (records) => serializeKml(records),
+};
+
+function parseKml(text: string, options: SourceOptions): DataRecord[] {
+  const placemarks = descendants(parseXml(text), 'Placemark');
+  return placemarks.slice(options.skipRows ?? 0).map((placemark) => {
+    const record: DataRecord = {};
+    if (placemark.attributes.id) {
+      record.id = placemark.attributes.id;
+    }
+    record.name = textContent(childElement(placemark, 'name'));
+    const description = childElement(placemark, 'description');
+    if (description) {
+      record.description = textContent(description);
+    }
+
+    const extendedData = childElement(placemark, 'ExtendedData');
+    if (extendedData) {
+      for (const data of childElements(extendedData, 'Data')) {
+        record[data.attributes.name ?? ''] = textContent(childElement(data, 'value'));
+      }
+      for (const schemaData of childElements(extendedData, 'SchemaData')) {
+        for (const simpleData of childElements(schemaData, 'SimpleData')) {
+          record[simpleData.attributes.name ?? ''] = textContent(simpleData);
+        }
+      }
+    }
+
+    const geometry = childElements(placemark).map(readGeometry).find(Boolean);
+    record.geometry = geometry ?? null;
+    return record;
+  });
+}
+
+function readGeometry(element: XmlElement): Geometry | undefined {
+  switch (localName(element)) {
+    case 'Point':
+      return { type: 'Point', coordinates: readCoordinates(element)[0] ?? [] };
+    case 'LineString':
+    case 'LinearRing':
+      return { type: 'LineString', coordinates: readCoordinates(element) };
+    case 'Polygon': {
+      const rings = ['outerBoundaryIs', 'innerBoundaryIs'].flatMap((boundary) =>
+        childElements(element, boundary).map((ring) =>
+          readCoordinates(childElement(ring, 'LinearRing') ?? ring)
+        )
+      );
+      return { type: 'Polygon', coordinates: rings };
+    }
+    case 'MultiGeometry': {
+      const geometries = childElements(element)
+        .map(readGeometry)
+        .filter((geometry): geometry is Geometry => Boolean(geometry));
+      const types = new Set(geometries.map((geometry) => geometry.type));
+      const [type] = types;
+      if (types.size === 1 && (type === 'Point' || type === 'LineString' || type === 'Polygon')) {
+        return {
+          type: `Multi${type}`,
+          coordinates: geometries.map(
+            (geometry) => 'coordinates' in geometry && geometry.coordinates
+          ),
+        } as Geometry;
+      }
+      return { type: 'GeometryCollection', geometries };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * `lon,lat[,alt]` tuples separated by whitespace
+ */
+function readCoordinates(element: XmlElement): Position[] {
+  const text = textContent(childElement(element, 'coordinates'));
+  return text
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((tuple) => tuple.split(',').map(Number));
+}
+
+function serializeKml(records: DataRecord[]): string {
+  const lines = [XML_DECLARATION, '<kml xmlns="http://www.opengis.net/kml/2.2">', '  <Document>'];
+  for (const { id, name, description, geometry, ...fields } of records) {
+    lines.push(
+      id === undefined ? '    <Placemark>' : `    <Placemark id="${escapeXml(String(id))}">`
+    );
+    if (name !== undefined && name !== null) {
+      lines.push(`      <name>${escapeXml(String(name))}</name>`);
+    }
+    if (description !== undefined && description !== null) {
+      lines.push(`      <description>${escapeXml(String(description))}</description>`);
+    }
+    const data = Object.entries(fields);
+    if (data.length > 0) {
+      lines.push('      <ExtendedData>');
+      for (const [key, value] of data) {
+        const text =
+          value !== null && typeof value === 'object' ? JSON.stringify(value) : String(value ?? '');
+        lines.push(
+          `        <Data name="${escapeXml(key)}"><value>${escapeXml(text)}</value></Data>`
+        );
+      }
+      lines.push('      </ExtendedData>');
+    }
+    const shape = toGeometry(geometry);
+    if (shape) {
+      lines.push(...writeGeometry(shape, '      '));
+    }
+    lines.push('    </Placemark>');
+  }
+  lines.push('  </Document>', '</kml>');
+  return lines.join('\n');
+}
+
+function writeGeometry(geometry: Geometry, indent: string): string[] {
+  const coordinates = (positions: Position[]): string =>
+    `<coordinates>${positions.map((position) => position.join(',')).join(' ')}</coordinates>`;
+  const polygon = (rings: Position[][], inner: string): string[] => [
+    `${inner}<Polygon>`,
+    ...rings.map((ring, index) => {
+      const boundary = index === 0 ? 'outerBoundaryIs' : 'innerBoundaryIs';
+      return `${inner}  <${boundary}><LinearRing>${coordinates(ring)}</LinearRing></${boundary}>`;
+    }),
+    `${inner}</Polygon>`,
+  ];
+  const multi = (parts: string[]): string[] => [
+    `${indent}<MultiGeometry>`,
+    ...parts,
+    `${indent}</MultiGeometry>`,
+  ];
+
+  switch (geometry.type) {
+    case 'Point':
+      return [`${indent}<Point>${coordinates([geometry.coordinates])}</Point>`];
+    case 'LineString':
+      return [`${indent}<LineString>${coordinates(geometry.coordinates)}</LineString>`];
+    case 'Polygon':
+      return polygon(geometry.coordinates, indent);
+    case 'MultiPoint':
+      return multi(
+        geometry.coordinates.map((point) => `${indent}  <Point>${coordinates([point])}</Point>`)
+      );
+    case 'MultiLineString':
+      return multi(
+        geometry.coordinates.map(
+          (line) => `${indent}  <LineString>${coordinates(line)}</LineString>`
+        )
+      );
+    case 'MultiPolygon':
+      return multi(geometry.coordinates.flatMap((rings) => polygon(rings, `${indent}  `)));
+    case 'GeometryCollection':
+      return multi(geometry.geometries.flatMap((part) => writeGeometry(part, `${indent}  `)));
+  }
+}
@@ -0,0 +1,455 @@
+/**
+ * Import/Export Plugin - Coordinate reference systems, reprojected to WGS84 longitude/latitude
+ *
+ * Reads WKT (ESRI .prj, OGC WKT1 and WKT2 as stored in GeoPackages) and implements the
+ * inverse of the projections boundary data is usually published in: Transverse Mercator
+ * (UTM, national grids), Mercator including Web Mercator, and Lambert Conformal Conic.
+ * Datum shifts are not applied; the sub-10 m offsets between modern datums and WGS84
+ * disappear in simplified boundaries.
+ */
+
+import type { Geometry, Position } from './geometry';
+
+const DEG = Math.PI / 180;
+const WGS84_A = 6378137;
+const WGS84_INV_F = 298.257223563;
+
+/** Converts a projected [x, y] position to [longitude, latitude] in degrees */
+export type Unprojector = (position: Position) => Position;
+
+export interface CoordinateSystem {
+  /** Human readable name, e.g. "WGS 84 / UTM zone 54N" */
+  name: string;
+  geographic: boolean;
+  unproject: Unprojector;
+}
+
+interface WktNode {
+  keyword: string;
+  values: Array<string | number | WktNode>;
+}
+
+interface Ellipsoid {
+  a: number;
+  /** First eccentricity */
+  e: number;
+}
+
+interface ProjectionParameters {
+  ellipsoid: Ellipsoid;
+  /** Metres per projected unit */
+  unit: number;
+  lat0: number;
+  lon0: number;
+  k0: number;
+  falseEasting: number;
+  falseNorthing: number;
+  lat1: number;
+  lat2: number;
+}
+
+export const WGS84: CoordinateSystem = {
+  name: 'WGS 84',
+  geographic: true,
+  unproject: (position) => position,
+};
+
+/**
+ * Coordinate system described by WKT
+ */
+export function parseCoordinateSystem(wkt: string): CoordinateSystem {
+  const root = parseWkt(wkt);
+  const keyword = root.keyword;
+  const name = typeof root.values[0] === 'string' ? root.values[0] : keyword;
+
+  if (['GEOGCS', 'GEOGCRS', 'GEOGRAPHICCRS', 'GEODCRS', 'GEODETICCRS'].includes(keyword)) {
+    const toDegrees = angularUnit(root);
+    const meridian = primeMeridian(root);
+    if (toDegrees === 1 && meridian === 0) {
+      return { ...WGS84, name };
+    }
+    return {
+      name,
+      geographic: true,
+      unproject: ([x, y, ...rest]) => [x! * toDegrees + meridian, y! * toDegrees, ...rest],
+    };
+  }
+
+  if (['PROJCS', 'PROJCRS', 'PROJECTEDCRS'].includes(keyword)) {
+    const method = normalize(
+      String(
+        (child(root, 'PROJECTION') ?? child(child(root, 'CONVERSION'), 'METHOD'))?.values[0] ?? ''
+      )
+    );
+    const params = projectionParameters(root);
+    return { name, geographic: false, unproject: createUnprojector(method, params, name) };
+  }
+
+  throw new Error(`Unsupported coordinate system definition: ${keyword}`);
+}
+
+/**
+ * Coordinate system for an EPSG code, for files that name their CRS instead of defining it
+ * (GeoJSON "crs" members, GeoPackages without a WKT definition)
+ */
+export function coordinateSystemFromEpsg(code: number): CoordinateSystem {
+  if ([4326, 4258, 4269, 4283, 4612, 4617, 6668, 7844].includes(code)) {
+    return { ...WGS84, name: `EPSG:${code}` };
+  }
+  if ([3857, 900913, 102100, 102113, 3785].includes(code)) {
+    return {
+      name: `EPSG:${code}`,
+      geographic: false,
+      unproject: createUnprojector('popularvisualisationpseudomercator', {
+        ...defaultParameters(),
+      }),
+    };
+  }
+  // WGS 84 / UTM zones: 326zz north, 327zz south
+  if ((code > 32600 && code <= 32660) || (code > 32700 && code <= 32760)) {
+    const zone = code % 100;
+    const south = code > 32700;
+    return {
+      name: `WGS 84 / UTM zone ${zone}${south ? 'S' : 'N'}`,
+      geographic: false,
+      unproject: createUnprojector('transversemercator', {
+        ...defaultParameters(),
+        lon0: (zone * 6 - 183) * DEG,
+        k0: 0.9996,
+        falseEasting: 500000,
+        falseNorthing: south ? 10000000 : 0,
+      }),
+    };
+  }
+  throw new Error(`Unsupported coordinate system EPSG:${code}; provide a WKT definition instead`);
+}
+
+/**
+ * EPSG code of a CRS name such as "EPSG:3857", "urn:ogc:def:crs:EPSG::3857" or
+ * "urn:ogc:def:crs:OGC:1.3:CRS84"
+ */
+export function epsgCodeOf(name: string): number | undefined {
+  if (/CRS84$/i.test(name)) {
+    return 4326;
+  }
+  const match = /EPSG:+(?:[\d.]*:)?(\d+)$/i.exec(name.trim());
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Apply a position transform to every coordinate of a geometry
+ */
+export function transformGeometry(
+  geometry: Geometry | null,
+  transform: Unprojector
+): Geometry | null {
+  if (!geometry) {
+    return null;
+  }
+  switch (geometry.type) {
+    case 'Point':
+      return { type: 'Point', coordinates: transform(geometry.coordinates) };
+    case 'MultiPoint':
+    case 'LineString':
+      return { type: geometry.type, coordinates: geometry.coordinates.map(transform) };
+    case 'MultiLineString':
+    case 'Polygon':
+      return {
+        type: geometry.type,
+        coordinates: geometry.coordinates.map((line) => line.map(transform)),
+      };
+    case 'MultiPolygon':
+      return {
+        type: 'MultiPolygon',
+        coordinates: geometry.coordinates.map((polygon) =>
+          polygon.map((ring) => ring.map(transform))
+        ),
+      };
+    case 'GeometryCollection':
+      return {
+        type: 'GeometryCollection',
+        geometries: geometry.geometries.map((member) => transformGeometry(member, transform)!),
+      };
+  }
+}
+
+function createUnprojector(
+  method: string,
+  params: ProjectionParameters,
+  name = method
+): Unprojector {
+  const { unit, falseEasting, falseNorthing } = params;
+  const toMetres = (position: Position): [number, number] => [
+    (position[0]! - falseEasting) * unit,
+    (position[1]! - falseNorthing) * unit,
+  ];
+  const wrap = (inverse: (x: number, y: number) => [number, number]): Unprojector => {
+    return (position) => {
+      const [lon, lat] = inverse(...toMetres(position));
+      return [lon / DEG, lat / DEG, ...position.slice(2)];
+    };
+  };
+
+  if (method.includes('pseudomercator') || method.includes('auxiliarysphere')) {
+    // Web Mercator projects ellipsoidal coordinates as if on a sphere of the semi-major axis
+    return wrap(mercatorInverse({ ...params, ellipsoid: { a: params.ellipsoid.a, e: 0 } }));
+  }
+  if (method.startsWith('mercator')) {
+    return wrap(mercatorInverse(params));
+  }
+  if (method.startsWith('transversemercator') || method === 'gausskruger') {
+    return wrap(transverseMercatorInverse(params));
+  }
+  if (method.startsWith('lambertconformalconic') || method.startsWith('lambertconicconformal')) {
+    return wrap(lambertConformalConicInverse(params, method.endsWith('1sp')));
+  }
+  throw new Error(
+    `Projection "${method}" of ${name} is not supported; reproject the file to WGS84 first`
+  );
+}
+
+function mercatorInverse({ ellipsoid, k0, lon0, lat1 }: ProjectionParameters) {
+  const { a, e } = ellipsoid;
+  // Mercator (2SP) defines scale through a standard parallel instead of k0
+  const scale = lat1 ? Math.cos(lat1) / Math.sqrt(1 - e * e * Math.sin(lat1) ** 2) : k0;
+  return (x: number, y: number): [number, number] => [
+    lon0 + x / (a * scale),
+    latitudeFromIsometric(Math.exp(-y / (a * scale)), e),
+  ];
+}
+
+/** Snyder, Map Projections: A Working Manual, eq. 8-18 ff. */
+function transverseMercatorInverse({ ellipsoid, k0, lon0, lat0 }: ProjectionParameters) {
+  const { a, e } = ellipsoid;
+  const e2 = e * e;
+  const ep2 = e2 / (1 - e2);
+  const e1 = (1 - Math.sqrt(1 - e2)) / (1 + Math.sqrt(1 - e2));
+  const meridianArc = (phi: number) =>
+    a *
+    ((1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256) * phi -
+      ((3 * e2) / 8 + (3 * e2 ** 2) / 32 + (45 * e2 ** 3) / 1024) * Math.sin(2 * phi) +
+      ((15 * e2 ** 2) / 256 + (45 * e2 ** 3) / 1024) * Math.sin(4 * phi) -
+      ((35 * e2 ** 3) / 3072) * Math.sin(6 * phi));
+  const m0 = meridianArc(lat0);
+
+  return (x: number, y: number): [number, number] => {
+    const mu = (m0 + y / k0) / (a * (1 - e2 / 4 - (3 * e2 ** 2) / 64 - (5 * e2 ** 3) / 256));
+    const phi1 =
+      mu +
+      ((3 * e1) / 2 - (27 * e1 ** 3) / 32) * Math.sin(2 * mu) +
+      ((21 * e1 ** 2) / 16 - (55 * e1 ** 4) / 32) * Math.sin(4 * mu) +
+      ((151 * e1 ** 3) / 96) * Math.sin(6 * mu) +
+      ((1097 * e1 ** 4) / 512) * Math.sin(8 * mu);
+    const sin1 = Math.sin(phi1);
+    const cos1 = Math.cos(phi1);
+    const c1 = ep2 * cos1 ** 2;
+    const t1 = Math.tan(phi1) ** 2;
+    const n1 = a / Math.sqrt(1 - e2 * sin1 ** 2);
+    const r1 = (a * (1 - e2)) / (1 - e2 * sin1 ** 2) ** 1.5;
+    const d = x / (n1 * k0);
+
+    const lat =
+      phi1 -
+      ((n1 * Math.tan(phi1)) / r1) *
+        (d ** 2 / 2 -
+          ((5 + 3 * t1 + 10 * c1 - 4 * c1 ** 2 - 9 * ep2) * d ** 4) / 24 +
+          ((61 + 90 * t1 + 298 * c1 + 45 * t1 ** 2 - 252 * ep2 - 3 * c1 ** 2) * d ** 6) / 720);
+    const lon =
+      lon0 +
+      (d -
+        ((1 + 2 * t1 + c1) * d ** 3) / 6 +
+        ((5 - 2 * c1 + 28 * t1 - 3 * c1 ** 2 + 8 * ep2 + 24 * t1 ** 2) * d ** 5) / 120) /
+        cos1;
+    return [lon, lat];
+  };
+}
+
+/** Snyder eq. 15-1 ff.; the 1SP variant takes its single standard parallel from lat0 */
+function lambertConformalConicInverse(
+  { ellipsoid, k0, lon0, lat0, lat1, lat2 }: ProjectionParameters,
+  oneStandardParallel: boolean
+) {
+  const { a, e } = ellipsoid;
+  const m = (phi: number) => Math.cos(phi) / Math.sqrt(1 - e * e * Math.sin(phi) ** 2);
+  const t = (phi: number) =>
+    Math.tan(Math.PI / 4 - phi / 2) /
+    ((1 - e * Math.sin(phi)) / (1 + e * Math.sin(phi))) ** (e / 2);
+
+  const p1 = oneStandardParallel ? lat0 : lat1;
+  const p2 = oneStandardParallel ? lat0 : lat2;
+  const n =
+    Math.abs(p1 - p2) < 1e-10
+      ? Math.sin(p1)
+      : (Math.log(m(p1)) - Math.log(m(p2))) / (Math.log(t(p1)) - Math.log(t(p2)));
+  const f = m(p1) / (n * t(p1) ** n);
+  const scale = oneStandardParallel ? k0 : 1;
+  const rho0 = a * f * scale * t(lat0) ** n;
+
+  return (x: number, y: number): [number, number] => {
+    const dy = rho0 - y;
+    const sign = Math.sign(n);
+    const rho = sign * Math.sqrt(x * x + dy * dy);
+    const theta = Math.atan2(sign * x, sign * dy);
+    const tPrime = (rho / (a * f * scale)) ** (1 / n);
+    return [theta / n + lon0, latitudeFromIsometric(tPrime, e)];
+  };
+}
+
+/** Latitude from Snyder's t, iterating eq. 7-9 */
+function latitudeFromIsometric(t: number, e: number): number {
+  let phi = Math.PI / 2 - 2 * Math.atan(t);
+  for (let i = 0; i < 15; i++) {
+    const sin = e * Math.sin(phi);
+    const next = Math.PI / 2 - 2 * Math.atan(t * ((1 - sin) / (1 + sin)) ** (e / 2));
+    if (Math.abs(next - phi) < 1e-12) {
+      return next;
+    }
+    phi = next;
+  }
+  return phi;
+}
+
+function projectionParameters(root: WktNode): ProjectionParameters {
+  const params = defaultParameters();
+  const spheroid = findDeep(root, ['SPHEROID', 'ELLIPSOID']);
+  if (spheroid) {
+    const a = Number(spheroid.values[1]);
+    const invF = Number(spheroid.values[2]);
+    params.ellipsoid = ellipsoidOf(a, invF);
+  }
+  const linear = root.values.find(
+    (value): value is WktNode =>
+      typeof value === 'object' && ['UNIT', 'LENGTHUNIT'].includes(value.keyword)
+  );
+  if (linear && typeof linear.values[1] === 'number') {
+    params.unit = linear.values[1];
+  }
+
+  const parameterNodes = [
+    ...children(root, 'PARAMETER'),
+    ...children(child(root, 'CONVERSION'), 'PARAMETER'),
+  ];
+  for (const node of parameterNodes) {
+    const key = normalize(String(node.values[0]));
+    const value = Number(node.values[1]);
+    // WKT2 parameters carry their own unit; WKT1 angles are degrees and lengths projected units
+    const unit = child(node, 'ANGLEUNIT') ?? child(node, 'LENGTHUNIT');
+    const factor = unit && typeof unit.values[1] === 'number' ? unit.values[1] : undefined;
+    const angle = value * (factor ?? DEG);
+    const length = factor !== undefined ? (value * factor) / params.unit : value;
+
+    if (/^(latitudeof(natural|false)?origin|latitudeofcenter)$/.test(key)) {
+      params.lat0 = angle;
+    } else if (
+      /^(centralmeridian|longitudeof(natural|false)?origin|longitudeofcenter)$/.test(key)
+    ) {
+      params.lon0 = angle;
+    } else if (/^scalefactor/.test(key)) {
+      params.k0 = value;
+    } else if (/^(falseeasting|eastingatfalseorigin)$/.test(key)) {
+      params.falseEasting = length;
+    } else if (/^(falsenorthing|northingatfalseorigin)$/.test(key)) {
+      params.falseNorthing = length;
+    } else if (/^(standardparallel1|latitudeof1ststandardparallel)$/.test(key)) {
+      params.lat1 = angle;
+    } else if (/^(standardparallel2|latitudeof2ndstandardparallel)$/.test(key)) {
+      params.lat2 = angle;
+    }
+  }
+  return params;
+}
+
+function defaultParameters(): ProjectionParameters {
+  return {
+    ellipsoid: ellipsoidOf(WGS84_A, WGS84_INV_F),
+    unit: 1,
+    lat0: 0,
+    lon0: 0,
+    k0: 1,
+    falseEasting: 0,
+    falseNorthing: 0,
+    lat1: 0,
+    lat2: 0,
+  };
+}
+
+function ellipsoidOf(a: number, inverseFlattening: number): Ellipsoid {
+  const f = inverseFlattening ? 1 / inverseFlattening : 0;
+  return { a, e: Math.sqrt(f * (2 - f)) };
+}
+
+/** Degrees per angular unit of a geographic CRS */
+function angularUnit(root: WktNode): number {
+  const unit = root.values.find(
+    (value): value is WktNode =>
+      typeof value === 'object' && ['UNIT', 'ANGLEUNIT'].includes(value.keyword)
+  );
+  const radians = unit && typeof unit.values[1] === 'number' ? unit.values[1] : DEG;
+  return Math.abs(radians - DEG) < 1e-12 ? 1 : radians / DEG;
+}
+
+function primeMeridian(root: WktNode): number {
+  const node = child(root, 'PRIMEM') ?? child(root, 'PRIMEMERIDIAN');
+  return node && typeof node.values[1] === 'number' ? node.values[1] : 0;
+}
+
+function parseWkt(text: string): WktNode {
+  const tokens = text.match(
+    /"(?:[^"]|"")*"|[A-Za-z_][A-Za-z0-9_]*|[-+]?[\d.]+(?:[eE][-+]?\d+)?|[[\](),]/g
+  );
+  if (!tokens) {
+    throw new Error('Empty coordinate system definition');
+  }
+  let index = 0;
+
+  const parseNode = (): WktNode => {
+    const keyword = tokens[index++]!.toUpperCase();
+    const node: WktNode = { keyword, values: [] };
+    if (tokens[index] !== '[' && tokens[index] !== '(') {
+      return node;
+    }
+    index++;
+    while (index < tokens.length && tokens[index] !== ']' && tokens[index] !== ')') {
+      const token = tokens[index]!;
+      if (token === ',') {
+        index++;
+      } else if (token.startsWith('"')) {
+        node.values.push(token.slice(1, -1).replace(/""/g, '"'));
+        index++;
+      } else if (/^[-+\d.]/.test(token)) {
+        node.values.push(Number(token));
+        index++;
+      } else {
+        node.values.push(parseNode());
+      }
+    }
+    index++;
+    return node;
+  };
+
+  return parseNode();
+}
+
+function child(node: WktNode | undefined, keyword: string): WktNode | undefined {
+  return children(node, keyword)[0];
+}
+
+function children(node: WktNode | undefined, keyword: string): WktNode[] {
+  return (node?.values ?? []).filter(
+    (value): value is WktNode => typeof value === 'object' && value.keyword === keyword
+  );
+}
+
+function findDeep(node: WktNode, keywords: string[]): WktNode | undefined {
+  for (const value of node.values) {
+    if (typeof value !== 'object') continue;
+    if (keywords.includes(value.keyword)) return value;
+    const found = findDeep(value, keywords);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function normalize(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
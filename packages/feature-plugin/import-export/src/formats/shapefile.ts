@@ -0,0 +1,653 @@
+/**
+ * Import/Export Plugin - ESRI Shapefile format
+ * Reads zipped .shp/.dbf/.prj layers (or a bare .shp) into records with a WGS84 GeoJSON
+ * `geometry`, and writes one zipped layer with a WGS84 .prj
+ */
+
+import JSZip from 'jszip';
+import type { SourceOptions, TargetOptions } from '../types/ImportExportEntity';
+import { recordFields } from './csv';
+import type { DataRecord, FormatAdapter } from './FormatRegistry';
+import { pointInRing, ringArea, toGeometry, type Geometry, type Position } from './geometry';
+import { WGS84, parseCoordinateSystem, transformGeometry } from './projection';
+
+const SHP_FILE_CODE = 9994;
+const SHAPE_NULL = 0;
+const SHAPE_POINT = 1;
+const SHAPE_POLYLINE = 3;
+const SHAPE_POLYGON = 5;
+const SHAPE_MULTIPOINT = 8;
+const SHAPE_MULTIPATCH = 31;
+
+const WGS84_PRJ =
+  'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],' +
+  'PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+/** dBASE language driver IDs for the code pages boundary data commonly uses */
+const LANGUAGE_DRIVERS: Record<number, string> = {
+  0x01: 'ibm437',
+  0x03: 'windows-1252',
+  0x13: 'shift_jis',
+  0x4d: 'gb18030',
+  0x4e: 'euc-kr',
+  0x4f: 'big5',
+  0x57: 'windows-1252',
+  0x58: 'windows-1252',
+  0x59: 'windows-1252',
+  0x64: 'ibm852',
+  0x65: 'ibm866',
+  0x7b: 'shift_jis',
+  0xc8: 'windows-1250',
+  0xc9: 'windows-1251',
+  0xca: 'windows-1254',
+  0xcb: 'windows-1253',
+};
+
+const CODE_PAGES: Record<string, string> = {
+  '866': 'ibm866',
+  '932': 'shift_jis',
+  '936': 'gbk',
+  '949': 'euc-kr',
+  '950': 'big5',
+  '65001': 'utf-8',
+};
+
+export interface ShapefileLayer {
+  name: string;
+  /** .dbf attributes plus a `geometry` reprojected from the .prj coordinate system to WGS84 */
+  records: DataRecord[];
+  /** Coordinate system the layer was authored in */
+  sourceCrs: string;
+  warnings: string[];
+}
+
+export const shapefileFormat: FormatAdapter = {
+  format: 'shapefile',
+  name: 'Shapefile',
+  extensions: ['.shp', '.zip'],
+  mimeType: 'application/zip',
+  parse: async (data, options) => {
+    const [layer] = await readShapefileLayers(data, options);
+    return layer!.records.slice(options.skipRows ?? 0);
+  },
+  serialize: async (records, options) => writeShapefile(records, options),
+};
+
+export function isShp(data: Uint8Array): boolean {
+  return (
+    data.byteLength >= 100 &&
+    new DataView(data.buffer, data.byteOffset).getInt32(0) === SHP_FILE_CODE
+  );
+}
+
+/**
+ * Every layer of a zipped Shapefile, or the one named by options.layerName.
+ * Attributes are decoded with the .cpg code page, options.encoding or the .dbf language driver.
+ * A bare .shp has no sidecars, so it yields WGS84 geometries without attributes.
+ */
+export async function readShapefileLayers(
+  data: Uint8Array,
+  options: Pick<SourceOptions, 'encoding' | 'layerName'> = {}
+): Promise<ShapefileLayer[]> {
+  // Zip archives start with "PK"
+  if (data[0] !== 0x50 || data[1] !== 0x4b) {
+    const warnings: string[] = [];
+    const records = readShp(data, warnings).map((geometry) => ({ geometry }));
+    return [{ name: options.layerName ?? 'layer', records, sourceCrs: WGS84.name, warnings }];
+  }
+
+  const zip = await JSZip.loadAsync(data);
+  const layers = zip
+    .file(/\.shp$/i)
+    // macOS archivers add AppleDouble copies of every file
+    .filter((file) => !file.name.startsWith('__MACOSX/'))
+    .filter((file) => !options.layerName || baseName(file.name) === options.layerName);
+  if (layers.length === 0) {
+    throw new Error(
+      options.layerName ? `Layer not found: ${options.layerName}` : 'No .shp file in the archive'
+    );
+  }
+  return Promise.all(layers.map((layer) => readLayer(zip, layer, options.encoding)));
+}
+
+async function readLayer(
+  zip: JSZip,
+  layer: JSZip.JSZipObject,
+  encoding: string | undefined
+): Promise<ShapefileLayer> {
+  const name = baseName(layer.name);
+  const stem = layer.name.slice(0, -4);
+  const sidecar = (extension: string): JSZip.JSZipObject | undefined =>
+    zip.file(new RegExp(`^${escapeRegExp(stem)}\\.${extension}$`, 'i'))[0];
+  const [shp, dbf, prj, cpg] = await Promise.all([
+    layer.async('uint8array'),
+    sidecar('dbf')?.async('uint8array'),
+    sidecar('prj')?.async('string'),
+    sidecar('cpg')?.async('string'),
+  ]);
+
+  const warnings: string[] = [];
+  if (!dbf) {
+    warnings.push(`${name}.dbf is missing; features have no attributes`);
+  }
+  if (!prj) {
+    warnings.push(`${name}.prj is missing; coordinates are read as WGS84`);
+  }
+
+  const issues: string[] = [];
+  const geometries = readShp(shp, issues);
+  const attributes = dbf ? readDbf(dbf, cpg?.trim() || encoding, issues) : [];
+  if (dbf && attributes.length !== geometries.length) {
+    issues.push(
+      `Attribute table has ${attributes.length} rows for ${geometries.length} shapes; unmatched shapes have no attributes`
+    );
+  }
+  warnings.push(...issues.map((issue) => `${name}: ${issue}`));
+
+  const { name: sourceCrs, unproject } = prj ? parseCoordinateSystem(prj) : WGS84;
+  const records = geometries.map((geometry, index) => ({
+    ...attributes[index],
+    geometry: unproject === WGS84.unproject ? geometry : transformGeometry(geometry, unproject),
+  }));
+  return { name, records, sourceCrs, warnings };
+}
+
+function readShp(data: Uint8Array, warnings: string[]): Array<Geometry | null> {
+  if (!isShp(data)) {
+    throw new Error('Invalid Shapefile: bad .shp header');
+  }
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const fileLength = Math.min(view.getInt32(24) * 2, data.byteLength);
+  const geometries: Array<Geometry | null> = [];
+  let skippedPatches = 0;
+
+  let offset = 100;
+  while (offset + 8 <= fileLength) {
+    const contentLength = view.getInt32(offset + 4) * 2;
+    const start = offset + 8;
+    offset = start + contentLength;
+    if (contentLength < 4 || offset > fileLength) {
+      warnings.push('The .shp file ends with a truncated record');
+      break;
+    }
+    if (view.getInt32(start, true) === SHAPE_MULTIPATCH) {
+      skippedPatches++;
+      geometries.push(null);
+    } else {
+      geometries.push(readShape(view, start));
+    }
+  }
+
+  if (skippedPatches > 0) {
+    warnings.push(`${skippedPatches} MultiPatch shapes are not supported and have no geometry`);
+  }
+  return geometries;
+}
+
+function readShape(view: DataView, offset: number): Geometry | null {
+  // Z and M variants keep x/y in the same place; their z and m values are dropped
+  const shapeType = view.getInt32(offset, true) % 10;
+  const point = (at: number): Position => [
+    view.getFloat64(at, true),
+    view.getFloat64(at + 8, true),
+  ];
+
+  switch (shapeType) {
+    case SHAPE_POINT: {
+      const coordinates = point(offset + 4);
+      // Shapefiles mark empty points with NaN or the "no data" value below -1e38
+      return coordinates.every((value) => Number.isFinite(value) && value > -1e38)
+        ? { type: 'Point', coordinates }
+        : null;
+    }
+    case SHAPE_MULTIPOINT: {
+      const count = view.getInt32(offset + 36, true);
+      const coordinates = Array.from({ length: count }, (_, index) =>
+        point(offset + 40 + index * 16)
+      );
+      return count > 0 ? { type: 'MultiPoint', coordinates } : null;
+    }
+    case SHAPE_POLYLINE:
+    case SHAPE_POLYGON: {
+      const partCount = view.getInt32(offset + 36, true);
+      const pointCount = view.getInt32(offset + 40, true);
+      const pointsStart = offset + 44 + partCount * 4;
+      const starts = Array.from({ length: partCount }, (_, index) =>
+        view.getInt32(offset + 44 + index * 4, true)
+      );
+      const parts = starts.map((start, index) =>
+        Array.from({ length: (starts[index + 1] ?? pointCount) - start }, (_, position) =>
+          point(pointsStart + (start + position) * 16)
+        )
+      );
+      if (parts.length === 0) {
+        return null;
+      }
+      if (shapeType === SHAPE_POLYLINE) {
+        return parts.length === 1
+          ? { type: 'LineString', coordinates: parts[0]! }
+          : { type: 'MultiLineString', coordinates: parts };
+      }
+      return ringsToPolygon(parts);
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Shapefile outer rings are clockwise and holes counter-clockwise, each hole belonging to
+ * the smallest outer ring around it; GeoJSON wants the opposite winding
+ */
+function ringsToPolygon(rings: Position[][]): Geometry | null {
+  const outers: Array<{ ring: Position[]; area: number; holes: Position[][] }> = [];
+  const holes: Position[][] = [];
+  for (const ring of rings.filter((candidate) => candidate.length >= 4)) {
+    const area = ringArea(ring);
+    if (area < 0) {
+      outers.push({ ring: [...ring].reverse(), area: -area, holes: [] });
+    } else {
+      holes.push(ring);
+    }
+  }
+
+  for (const hole of holes) {
+    const owner = outers
+      .filter((outer) => pointInRing(hole[0] ?? [], outer.ring))
+      .sort((a, b) => a.area - b.area)[0];
+    if (owner) {
+      owner.holes.push([...hole].reverse());
+    } else {
+      // Writers that ignore the winding rule emit outer rings counter-clockwise
+      outers.push({ ring: hole, area: ringArea(hole), holes: [] });
+    }
+  }
+
+  const polygons = outers.map(({ ring, holes: inner }) => [ring, ...inner]);
+  if (polygons.length === 0) {
+    return null;
+  }
+  return polygons.length === 1
+    ? { type: 'Polygon', coordinates: polygons[0]! }
+    : { type: 'MultiPolygon', coordinates: polygons };
+}
+
+function readDbf(data: Uint8Array, encoding: string | undefined, warnings: string[]): DataRecord[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const recordCount = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+  const decoder = textDecoder(encoding, data[29]!, warnings);
+
+  const fields: Array<{ name: string; type: string; offset: number; length: number }> = [];
+  let fieldOffset = 1;
+  for (let at = 32; at + 32 <= headerLength && data[at] !== 0x0d; at += 32) {
+    const length = data[at + 16]!;
+    const nameBytes = data.subarray(at, at + 11);
+    const end = nameBytes.indexOf(0);
+    fields.push({
+      name: decoder.decode(end >= 0 ? nameBytes.subarray(0, end) : nameBytes).trim(),
+      type: String.fromCharCode(data[at + 11]!),
+      offset: fieldOffset,
+      length,
+    });
+    fieldOffset += length;
+  }
+
+  const records: DataRecord[] = [];
+  for (let index = 0; index < recordCount; index++) {
+    const start = headerLength + index * recordLength;
+    if (start + recordLength > data.byteLength) {
+      break;
+    }
+    // Deleted rows keep their slot so rows stay aligned with .shp records
+    const record: DataRecord = {};
+    for (const field of fields) {
+      const bytes = data.subarray(start + field.offset, start + field.offset + field.length);
+      record[field.name] = dbfValue(field.type, decoder.decode(bytes).replace(/\0+$/, '').trim());
+    }
+    records.push(record);
+  }
+  return records;
+}
+
+function dbfValue(type: string, text: string): unknown {
+  switch (type) {
+    case 'N':
+    case 'F': {
+      // Overflowing numbers are written as asterisks
+      const number = Number(text);
+      return text === '' || /^\*+$/.test(text) || Number.isNaN(number) ? null : number;
+    }
+    case 'L':
+      return /^[YyTt]$/.test(text) ? true : /^[NnFf]$/.test(text) ? false : null;
+    case 'D':
+      return /^\d{8}$/.test(text)
+        ? `${text.slice(0, 4)}-${text.slice(4, 6)}-${text.slice(6)}`
+        : null;
+    default:
+      return text;
+  }
+}
+
+function textDecoder(
+  encoding: string | undefined,
+  languageDriver: number,
+  warnings: string[]
+): { decode(input: Uint8Array): string } {
+  const label = encoding ? encodingLabel(encoding) : (LANGUAGE_DRIVERS[languageDriver] ?? 'utf-8');
+  try {
+    return new TextDecoder(label);
+  } catch {
+    warnings.push(`Unknown attribute encoding "${encoding ?? label}"; reading attributes as UTF-8`);
+    return new TextDecoder('utf-8');
+  }
+}
+
+/** .cpg files hold ESRI code page names such as "UTF-8", "SJIS", "1252" or "ANSI 1252" */
+function encodingLabel(encoding: string): string {
+  const name = encoding.toLowerCase().replace(/^ansi\s*/, '');
+  if (/^\d+$/.test(name)) {
+    return CODE_PAGES[name] ?? `windows-${name}`;
+  }
+  return name === 'sjis' || name === 'cp932' ? 'shift_jis' : name;
+}
+
+async function writeShapefile(records: DataRecord[], options: TargetOptions): Promise<Uint8Array> {
+  const geometries = records.map((record) => toGeometry(record.geometry));
+  const shapeType = layerShapeType(geometries);
+  const shapes = geometries.map((geometry) => encodeShape(geometry, shapeType));
+
+  const bounds = geometries.reduce<number[] | undefined>(
+    (box, geometry) => extend(box, geometry ? positionsOf(geometry) : []),
+    undefined
+  ) ?? [0, 0, 0, 0];
+  const shpLength = 100 + shapes.reduce((sum, shape) => sum + 8 + shape.byteLength, 0);
+  const shp = new Uint8Array(shpLength);
+  const shx = new Uint8Array(100 + shapes.length * 8);
+  writeShpHeader(new DataView(shp.buffer), shpLength, shapeType, bounds);
+  writeShpHeader(new DataView(shx.buffer), shx.byteLength, shapeType, bounds);
+
+  const shpView = new DataView(shp.buffer);
+  const shxView = new DataView(shx.buffer);
+  let offset = 100;
+  for (const [index, shape] of shapes.entries()) {
+    shpView.setInt32(offset, index + 1);
+    shpView.setInt32(offset + 4, shape.byteLength / 2);
+    shp.set(shape, offset + 8);
+    shxView.setInt32(100 + index * 8, offset / 2);
+    shxView.setInt32(104 + index * 8, shape.byteLength / 2);
+    offset += 8 + shape.byteLength;
+  }
+
+  const attributes = records.map(({ geometry: _geometry, ...fields }) => fields);
+  const layer = options.layerName ?? 'layer';
+  const zip = new JSZip();
+  zip.file(`${layer}.shp`, shp);
+  zip.file(`${layer}.shx`, shx);
+  zip.file(`${layer}.dbf`, writeDbf(attributes));
+  zip.file(`${layer}.prj`, WGS84_PRJ);
+  zip.file(`${layer}.cpg`, 'UTF-8');
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
+
+/**
+ * A layer holds a single shape type; features without geometry become null shapes
+ */
+function layerShapeType(geometries: Array<Geometry | null>): number {
+  const types = new Set(
+    geometries.flatMap((geometry) => {
+      switch (geometry?.type) {
+        case undefined:
+          return [];
+        case 'Point':
+          return [SHAPE_POINT];
+        case 'MultiPoint':
+          return [SHAPE_MULTIPOINT];
+        case 'LineString':
+        case 'MultiLineString':
+          return [SHAPE_POLYLINE];
+        case 'Polygon':
+        case 'MultiPolygon':
+          return [SHAPE_POLYGON];
+        default:
+          throw new Error(`Shapefiles cannot hold ${geometry!.type} geometries`);
+      }
+    })
+  );
+  if (types.size > 1) {
+    throw new Error('Shapefile features must all have the same geometry type');
+  }
+  return [...types][0] ?? SHAPE_NULL;
+}
+
+function encodeShape(geometry: Geometry | null, shapeType: number): Uint8Array {
+  if (!geometry) {
+    const shape = new Uint8Array(4);
+    new DataView(shape.buffer).setInt32(0, SHAPE_NULL, true);
+    return shape;
+  }
+
+  if (geometry.type === 'Point') {
+    const shape = new Uint8Array(20);
+    const view = new DataView(shape.buffer);
+    view.setInt32(0, SHAPE_POINT, true);
+    view.setFloat64(4, geometry.coordinates[0] ?? 0, true);
+    view.setFloat64(12, geometry.coordinates[1] ?? 0, true);
+    return shape;
+  }
+
+  let parts: Position[][];
+  switch (geometry.type) {
+    case 'MultiPoint':
+      parts = [geometry.coordinates];
+      break;
+    case 'LineString':
+      parts = [geometry.coordinates];
+      break;
+    case 'MultiLineString':
+      parts = geometry.coordinates;
+      break;
+    case 'Polygon':
+      parts = windRings(geometry.coordinates);
+      break;
+    case 'MultiPolygon':
+      parts = geometry.coordinates.flatMap(windRings);
+      break;
+    default:
+      parts = [];
+  }
+
+  const points = parts.flat();
+  const partTable = shapeType === SHAPE_MULTIPOINT ? 0 : 4 + parts.length * 4;
+  const shape = new Uint8Array(40 + partTable + points.length * 16);
+  const view = new DataView(shape.buffer);
+  const [minX = 0, minY = 0, maxX = 0, maxY = 0] = extend(undefined, points) ?? [];
+  view.setInt32(0, shapeType, true);
+  view.setFloat64(4, minX, true);
+  view.setFloat64(12, minY, true);
+  view.setFloat64(20, maxX, true);
+  view.setFloat64(28, maxY, true);
+
+  let offset = 36;
+  if (shapeType === SHAPE_MULTIPOINT) {
+    view.setInt32(offset, points.length, true);
+    offset += 4;
+  } else {
+    view.setInt32(offset, parts.length, true);
+    view.setInt32(offset + 4, points.length, true);
+    offset += 8;
+    let start = 0;
+    for (const part of parts) {
+      view.setInt32(offset, start, true);
+      offset += 4;
+      start += part.length;
+    }
+  }
+  for (const [x = 0, y = 0] of points) {
+    view.setFloat64(offset, x, true);
+    view.setFloat64(offset + 8, y, true);
+    offset += 16;
+  }
+  return shape;
+}
+
+/**
+ * Outer ring clockwise, holes counter-clockwise
+ */
+function windRings(rings: Position[][]): Position[][] {
+  return rings.map((ring, index) => {
+    const clockwise = ringArea(ring) < 0;
+    return clockwise === (index === 0) ? ring : [...ring].reverse();
+  });
+}
+
+function writeShpHeader(
+  view: DataView,
+  byteLength: number,
+  shapeType: number,
+  bounds: number[]
+): void {
+  view.setInt32(0, 9994);
+  view.setInt32(24, byteLength / 2);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, shapeType, true);
+  bounds.forEach((value, index) => view.setFloat64(36 + index * 8, value, true));
+}
+
+function writeDbf(records: DataRecord[]): Uint8Array {
+  const encoder = new TextEncoder();
+  const usedNames = new Set<string>();
+  const fields = recordFields(records).map((key) => {
+    const values = records
+      .map((record) => record[key])
+      .filter((value) => value !== null && value !== undefined && value !== '');
+    let type = 'C';
+    let decimals = 0;
+    let texts: Array<string | undefined>;
+    if (values.length > 0 && values.every((value) => typeof value === 'boolean')) {
+      type = 'L';
+      texts = records.map((record) =>
+        typeof record[key] === 'boolean' ? (record[key] ? 'T' : 'F') : '?'
+      );
+    } else if (
+      values.length > 0 &&
+      values.every((value) => typeof value === 'number' && Number.isFinite(value))
+    ) {
+      type = 'N';
+      decimals = Math.min(
+        15,
+        Math.max(0, ...values.map((value) => String(value).split('.')[1]?.length ?? 0))
+      );
+      texts = records.map((record) =>
+        typeof record[key] === 'number' ? (record[key] as number).toFixed(decimals) : undefined
+      );
+    } else {
+      texts = records.map((record) => {
+        const value = record[key];
+        return value === null || value === undefined
+          ? undefined
+          : typeof value === 'object'
+            ? JSON.stringify(value)
+            : String(value);
+      });
+    }
+
+    const encoded = texts.map((text) =>
+      text === undefined ? new Uint8Array() : encoder.encode(text)
+    );
+    const length = Math.min(254, Math.max(1, ...encoded.map((bytes) => bytes.byteLength)));
+    return { name: uniqueFieldName(key, usedNames), type, decimals, length, encoded };
+  });
+
+  const headerLength = 32 + fields.length * 32 + 1;
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+  const data = new Uint8Array(headerLength + records.length * recordLength + 1);
+  const view = new DataView(data.buffer);
+  const today = new Date();
+  data[0] = 0x03;
+  data[1] = today.getFullYear() - 1900;
+  data[2] = today.getMonth() + 1;
+  data[3] = today.getDate();
+  view.setUint32(4, records.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  for (const [index, field] of fields.entries()) {
+    const at = 32 + index * 32;
+    data.set(encoder.encode(field.name), at);
+    data[at + 11] = field.type.charCodeAt(0);
+    data[at + 16] = field.length;
+    data[at + 17] = field.decimals;
+  }
+  data[headerLength - 1] = 0x0d;
+
+  data.fill(0x20, headerLength, data.byteLength - 1);
+  for (let index = 0; index < records.length; index++) {
+    let at = headerLength + index * recordLength + 1;
+    for (const field of fields) {
+      const bytes = field.encoded[index]!.subarray(0, field.length);
+      // Numbers are right-aligned, everything else left-aligned
+      data.set(bytes, field.type === 'N' ? at + field.length - bytes.byteLength : at);
+      at += field.length;
+    }
+  }
+  data[data.byteLength - 1] = 0x1a;
+  return data;
+}
+
+/**
+ * dBase field names are at most 10 ASCII characters
+ */
+function uniqueFieldName(key: string, usedNames: Set<string>): string {
+  const base = key.replace(/[^A-Za-z0-9_]/g, '_').slice(0, 10) || 'field';
+  let name = base;
+  for (let suffix = 1; usedNames.has(name.toUpperCase()); suffix++) {
+    name = `${base.slice(0, 10 - String(suffix).length)}${suffix}`;
+  }
+  usedNames.add(name.toUpperCase());
+  return name;
+}
+
+function positionsOf(geometry: Geometry): Position[] {
+  switch (geometry.type) {
+    case 'Point':
+      return [geometry.coordinates];
+    case 'MultiPoint':
+    case 'LineString':
+      return geometry.coordinates;
+    case 'MultiLineString':
+    case 'Polygon':
+      return geometry.coordinates.flat();
+    case 'MultiPolygon':
+      return geometry.coordinates.flat(2);
+    case 'GeometryCollection':
+      return geometry.geometries.flatMap(positionsOf);
+  }
+}
+
+/**
+ * Grow [minX, minY, maxX, maxY] to include the positions
+ */
+function extend(box: number[] | undefined, positions: Position[]): number[] | undefined {
+  let result = box;
+  for (const [x = 0, y = 0] of positions) {
+    result = result
+      ? [
+          Math.min(result[0]!, x),
+          Math.min(result[1]!, y),
+          Math.max(result[2]!, x),
+          Math.max(result[3]!, y),
+        ]
+      : [x, y, x, y];
+  }
+  return result;
+}
+
+function baseName(path: string): string {
+  return path.replace(/^.*\//, '').replace(/\.shp$/i, '');
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,125 @@
+/**
+ * Import/Export Plugin - XML format
+ */
+
+import {
+  XML_DECLARATION,
+  childElements,
+  descendants,
+  escapeXml,
+  localName,
+  parseXml,
+  textContent,
+  type XmlElement,
+} from '@hierarchidb/common-data';
+import type { SourceOptions, TargetOptions } from '../types/ImportExportEntity';
+import { decodeText, isRecord, type DataRecord, type FormatAdapter } from './FormatRegistry';
+
+export const xmlFormat: FormatAdapter = {
+  format: 'xml',
+  name: 'XML',
+  extensions: ['.xml'],
+  mimeType: 'application/xml',
+  parse: async (data, options) => parseXmlRecords(decodeText(data, options), options),
+  serialize: async (records, options) => serializeXmlRecords(records, options),
+};
+
+/**
+ * Turn an arbitrary key into a valid element name
+ */
+export function toXmlName(key: string): string {
+  const name = key.replace(/[^\w.-]/g, '_');
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+}
+
+/**
+ * Records are the repeated children of the outermost element that has them,
+ * or every element named sourceOptions.recordElement
+ */
+function parseXmlRecords(text: string, options: SourceOptions): DataRecord[] {
+  const root = parseXml(text);
+  let elements: XmlElement[];
+  if (options.recordElement) {
+    elements = descendants(root, options.recordElement);
+  } else {
+    let container = root;
+    // Step through single wrappers such as <data><items><item/>...</items></data>
+    for (;;) {
+      const [only, ...rest] = childElements(container);
+      const grandchildren = only ? childElements(only) : [];
+      if (
+        !only ||
+        rest.length > 0 ||
+        grandchildren.length < 2 ||
+        new Set(grandchildren.map(localName)).size !== 1
+      ) {
+        break;
+      }
+      container = only;
+    }
+    elements = childElements(container);
+  }
+
+  return elements.slice(options.skipRows ?? 0).map((element) => {
+    const value = elementToValue(element);
+    return isRecord(value) ? value : { value };
+  });
+}
+
+/**
+ * Leaf elements become their text; others become objects of their attributes and children,
+ * with repeated child names collected into arrays
+ */
+function elementToValue(element: XmlElement): unknown {
+  const children = childElements(element);
+  const attributes = Object.entries(element.attributes).filter(
+    ([name]) => name !== 'xmlns' && !name.startsWith('xmlns:')
+  );
+  if (children.length === 0 && attributes.length === 0) {
+    return textContent(element);
+  }
+
+  const value: DataRecord = Object.fromEntries(attributes);
+  if (children.length === 0) {
+    value.value = textContent(element);
+  }
+  const groups = new Map<string, unknown[]>();
+  for (const child of children) {
+    const name = localName(child);
+    groups.set(name, [...(groups.get(name) ?? []), elementToValue(child)]);
+  }
+  for (const [name, values] of groups) {
+    value[name] = values.length === 1 ? values[0] : values;
+  }
+  return value;
+}
+
+function serializeXmlRecords(records: DataRecord[], options: TargetOptions): string {
+  const root = toXmlName(options.rootElement ?? 'records');
+  const recordElement = toXmlName(options.recordElement ?? 'record');
+  const lines = [XML_DECLARATION, `<${root}>`];
+  for (const record of records) {
+    lines.push(...valueToXml(recordElement, record, '  '));
+  }
+  lines.push(`</${root}>`);
+  return lines.join('\n');
+}
+
+function valueToXml(name: string, value: unknown, indent: string): string[] {
+  if (value === null || value === undefined) {
+    return [`${indent}<${name}/>`];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => valueToXml(name, item, indent));
+  }
+  if (typeof value === 'object') {
+    return [
+      `${indent}<${name}>`,
+      ...Object.entries(value).flatMap(([key, child]) =>
+        valueToXml(toXmlName(key), child, `${indent}  `)
+      ),
+      `${indent}</${name}>`,
+    ];
+  }
+  return [`${indent}<${name}>${escapeXml(String(value))}</${name}>`];
+}
@@ -0,0 +1,405 @@
+/**
+ * Import/Export Plugin - YAML format
+ * Covers the block and flow styles data files use; anchors, aliases, tags and
+ * multi-line flow collections are not supported, and only the first document is read
+ */
+
+import { decodeText, type FormatAdapter } from './FormatRegistry';
+import { valuesToRecords } from './json';
+
+export const yamlFormat: FormatAdapter = {
+  format: 'yaml',
+  name: 'YAML',
+  extensions: ['.yaml', '.yml'],
+  mimeType: 'application/yaml',
+  parse: async (data, options) => valuesToRecords(parseYaml(decodeText(data, options)), options),
+  serialize: async (records) => `${stringifyYaml(records)}\n`,
+};
+
+interface YamlLine {
+  number: number;
+  indent: number; // -1 for blank lines
+  text: string; // Without indentation and comments
+  raw: string;
+}
+
+const BLOCK_SCALAR = /^[|>][+-]?$/;
+const KEY = /^(?:"((?:[^"\\]|\\.)*)"|'((?:[^']|'')*)'|([^\s"'#[\]{},][^#]*?))\s*:(?:\s+(.*))?$/;
+
+export function parseYaml(text: string): unknown {
+  const lines: YamlLine[] = [];
+  for (const [index, raw] of text.split(/\r?\n/).entries()) {
+    if (/^(---|\.\.\.)(\s|$)/.test(raw)) {
+      // A second document ends the first
+      if (lines.some((line) => line.indent >= 0)) {
+        break;
+      }
+      continue;
+    }
+    if (raw.startsWith('%')) {
+      continue;
+    }
+    const indent = raw.search(/\S/);
+    const content = indent === -1 ? '' : stripComment(raw.slice(indent)).trimEnd();
+    lines.push({ number: index + 1, indent: content ? indent : -1, text: content, raw });
+  }
+  return new YamlParser(lines).parseDocument();
+}
+
+class YamlParser {
+  private index = 0;
+
+  constructor(private lines: YamlLine[]) {}
+
+  parseDocument(): unknown {
+    const first = this.peek();
+    if (!first) {
+      return null;
+    }
+    const value = this.parseNode(first.indent);
+    const rest = this.peek();
+    if (rest) {
+      throw new Error(`Invalid YAML at line ${rest.number}: unexpected "${rest.text}"`);
+    }
+    return value;
+  }
+
+  private peek(): YamlLine | undefined {
+    while (this.lines[this.index]?.indent === -1) {
+      this.index++;
+    }
+    return this.lines[this.index];
+  }
+
+  private parseNode(indent: number): unknown {
+    const line = this.peek();
+    if (!line || line.indent < indent) {
+      return null;
+    }
+    if (isSequenceItem(line.text)) {
+      return this.parseSequence(line.indent);
+    }
+    if (KEY.test(line.text)) {
+      return this.parseMapping(line.indent);
+    }
+    this.index++;
+    return parseScalar(line.text, line.number);
+  }
+
+  private parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    for (
+      let line = this.peek();
+      line && line.indent === indent && isSequenceItem(line.text);
+      line = this.peek()
+    ) {
+      const rest = line.text.slice(1).trimStart();
+      if (!rest || BLOCK_SCALAR.test(rest)) {
+        this.index++;
+        items.push(this.parseValue(rest, indent));
+        continue;
+      }
+      // The item's content continues at the column after "- "
+      const column = indent + line.text.length - rest.length;
+      this.lines[this.index] = { ...line, indent: column, text: rest };
+      items.push(this.parseNode(column));
+    }
+    return items;
+  }
+
+  private parseMapping(indent: number): Record<string, unknown> {
+    const mapping: Record<string, unknown> = {};
+    for (let line = this.peek(); line && line.indent === indent; line = this.peek()) {
+      const match = KEY.exec(line.text);
+      if (!match) {
+        throw new Error(`Invalid YAML at line ${line.number}: expected "key: value"`);
+      }
+      this.index++;
+      const key =
+        match[1] !== undefined
+          ? (JSON.parse(`"${match[1]}"`) as string)
+          : match[2] !== undefined
+            ? match[2].replace(/''/g, "'")
+            : match[3]!;
+      mapping[key] = this.parseValue(match[4] ?? '', indent);
+    }
+    return mapping;
+  }
+
+  /**
+   * Value following "key:" or "-" on a line at the given indent
+   */
+  private parseValue(rest: string, indent: number): unknown {
+    if (BLOCK_SCALAR.test(rest)) {
+      return this.parseBlockScalar(rest, indent);
+    }
+    if (rest) {
+      return parseScalar(rest, this.lines[this.index - 1]!.number);
+    }
+    const next = this.peek();
+    if (next && next.indent > indent) {
+      return this.parseNode(next.indent);
+    }
+    // Sequences may sit at the same indent as their key
+    if (next && next.indent === indent && isSequenceItem(next.text)) {
+      return this.parseSequence(indent);
+    }
+    return null;
+  }
+
+  private parseBlockScalar(indicator: string, indent: number): string {
+    const block: YamlLine[] = [];
+    for (
+      let line = this.lines[this.index];
+      line && (line.indent === -1 || line.indent > indent);
+      line = this.lines[++this.index]
+    ) {
+      block.push(line);
+    }
+
+    const blockIndent = Math.min(
+      ...block.filter((line) => line.indent >= 0).map((line) => line.indent)
+    );
+    const contents = block.map((line) => (line.indent === -1 ? '' : line.raw.slice(blockIndent)));
+    let trailing = 0;
+    while (trailing < contents.length && contents[contents.length - 1 - trailing] === '') {
+      trailing++;
+    }
+    const body = contents.slice(0, contents.length - trailing);
+
+    let text = '';
+    if (indicator.startsWith('>')) {
+      for (const line of body) {
+        text += line === '' ? '\n' : text === '' || text.endsWith('\n') ? line : ` ${line}`;
+      }
+    } else {
+      text = body.join('\n');
+    }
+
+    const chomping = indicator[1];
+    if (chomping === '-' || body.length === 0) {
+      return text;
+    }
+    return chomping === '+' ? text + '\n'.repeat(trailing + 1) : `${text}\n`;
+  }
+}
+
+function isSequenceItem(text: string): boolean {
+  return text === '-' || text.startsWith('- ');
+}
+
+/**
+ * Remove a trailing `# comment` outside quotes
+ */
+function stripComment(text: string): string {
+  let quote: string | undefined;
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index]!;
+    const previous = text[index - 1];
+    if (quote) {
+      if (char === '\\' && quote === '"') {
+        index++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (
+      (char === '"' || char === "'") &&
+      (previous === undefined || /[\s:[{,-]/.test(previous))
+    ) {
+      quote = char;
+    } else if (char === '#' && (previous === undefined || /\s/.test(previous))) {
+      return text.slice(0, index);
+    }
+  }
+  return text;
+}
+
+function parseScalar(text: string, lineNumber: number): unknown {
+  try {
+    if (text.startsWith('"')) {
+      return JSON.parse(text);
+    }
+    if (text.startsWith("'")) {
+      if (!text.endsWith("'") || text.length < 2) {
+        throw new Error('unterminated string');
+      }
+      return text.slice(1, -1).replace(/''/g, "'");
+    }
+    if (text.startsWith('[') || text.startsWith('{')) {
+      return parseFlow(text);
+    }
+    return resolvePlain(text);
+  } catch (error) {
+    throw new Error(
+      `Invalid YAML at line ${lineNumber}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+}
+
+function resolvePlain(text: string): unknown {
+  if (/^(~|null|Null|NULL)?$/.test(text)) {
+    return null;
+  }
+  if (/^(true|True|TRUE)$/.test(text)) {
+    return true;
+  }
+  if (/^(false|False|FALSE)$/.test(text)) {
+    return false;
+  }
+  if (/^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text) || /^0x[0-9a-fA-F]+$/.test(text)) {
+    return Number(text);
+  }
+  if (/^0o[0-7]+$/.test(text)) {
+    return parseInt(text.slice(2), 8);
+  }
+  if (/^[-+]?\.(inf|Inf|INF)$/.test(text)) {
+    return text.startsWith('-') ? -Infinity : Infinity;
+  }
+  if (/^\.(nan|NaN|NAN)$/.test(text)) {
+    return NaN;
+  }
+  return text;
+}
+
+/**
+ * Single-line flow collection such as `[a, b]` or `{x: 1, y: [2, 3]}`
+ */
+function parseFlow(text: string): unknown {
+  let position = 0;
+  const skipSpace = (): void => {
+    while (/\s/.test(text[position] ?? '')) {
+      position++;
+    }
+  };
+  const expect = (char: string): void => {
+    skipSpace();
+    if (text[position] !== char) {
+      throw new Error(`expected "${char}" at column ${position + 1}`);
+    }
+    position++;
+  };
+  const readItems = (close: string, readItem: () => void): void => {
+    skipSpace();
+    while (text[position] !== close) {
+      readItem();
+      skipSpace();
+      if (text[position] === ',') {
+        position++;
+        skipSpace();
+      } else if (text[position] !== close) {
+        throw new Error(`expected "," or "${close}" at column ${position + 1}`);
+      }
+    }
+    position++;
+  };
+  const readScalar = (isKey: boolean): unknown => {
+    skipSpace();
+    const quote = text[position];
+    if (quote === '"' || quote === "'") {
+      const start = position++;
+      while (position < text.length && text[position] !== quote) {
+        position += text[position] === '\\' && quote === '"' ? 2 : 1;
+      }
+      position++;
+      const token = text.slice(start, position);
+      return quote === '"' ? JSON.parse(token) : token.slice(1, -1).replace(/''/g, "'");
+    }
+    const start = position;
+    while (
+      position < text.length &&
+      !',]}'.includes(text[position]!) &&
+      !(isKey && text[position] === ':')
+    ) {
+      position++;
+    }
+    return resolvePlain(text.slice(start, position).trim());
+  };
+  const readValue = (): unknown => {
+    skipSpace();
+    if (text[position] === '[') {
+      position++;
+      const items: unknown[] = [];
+      readItems(']', () => items.push(readValue()));
+      return items;
+    }
+    if (text[position] === '{') {
+      position++;
+      const mapping: Record<string, unknown> = {};
+      readItems('}', () => {
+        const key = String(readScalar(true));
+        expect(':');
+        mapping[key] = readValue();
+      });
+      return mapping;
+    }
+    return readScalar(false);
+  };
+
+  const value = readValue();
+  skipSpace();
+  if (position < text.length) {
+    throw new Error(`unexpected "${text.slice(position)}"`);
+  }
+  return value;
+}
+
+/**
+ * Block-style YAML for plain data
+ */
+export function stringifyYaml(value: unknown, indent = ''): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '[]';
+    }
+    return value
+      .map((item) => {
+        const nested = stringifyYaml(item, `${indent}  `);
+        return isBlock(item) ? `${indent}- ${nested.trimStart()}` : `${indent}- ${nested}`;
+      })
+      .join('\n');
+  }
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      return '{}';
+    }
+    return entries
+      .map(([key, item]) =>
+        isBlock(item)
+          ? `${indent}${formatScalar(key)}:\n${stringifyYaml(item, `${indent}  `)}`
+          : `${indent}${formatScalar(key)}: ${stringifyYaml(item, indent)}`
+      )
+      .join('\n');
+  }
+  return formatScalar(value);
+}
+
+function isBlock(value: unknown): boolean {
+  return value !== null && typeof value === 'object' && Object.keys(value as object).length > 0;
+}
+
+function formatScalar(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'number') {
+    return Number.isNaN(value)
+      ? '.nan'
+      : Number.isFinite(value)
+        ? String(value)
+        : value > 0
+          ? '.inf'
+          : '-.inf';
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  const text = String(value);
+  const needsQuotes =
+    text === '' ||
+    text !== text.trim() ||
+    resolvePlain(text) !== text ||
+    /^[-?:,[\]{}#&*!|>'"%@`]/.test(text) ||
+    /: |\s#|[\n\r\t]|:$/.test(text);
+  return needsQuotes ? JSON.stringify(text) : text;
+}
@@ -18,15 +18,31 @@ import {
   DEFAULT_TARGET_CONFIG,
   DEFAULT_TRANSFORM_CONFIG,
   DEFAULT_PROGRESS,
-  OperationStatus
+  OperationStatus,
+  ScheduleConfiguration
 } from '../types/ImportExportEntity';
+import { ImportExportDatabase } from '../database/ImportExportDatabase';
+
+/**
+ * Options for ImportExportEntityHandler
+ */
+export interface ImportExportEntityHandlerOptions {
+  // Shared ImportExportDatabase instance by default
+  db?: ImportExportDatabase;
+  // Called after an operation's schedule was created, changed or removed
+  onScheduleChange?: (nodeId: NodeId) => void | Promise<void>;
+}
 
 /**
  * Entity handler for ImportExportEntity
  * Manages CRUD operations for import/export configurations
  */
 export class ImportExportEntityHandler implements EntityHandler<ImportExportEntity, never, ImportExportEntity & { workingCopyId: string; copiedAt: number }> {
-  // Context injection will be implemented at runtime by worker
+  private db: ImportExportDatabase;
+
+  constructor(private options: ImportExportEntityHandlerOptions = {}) {
+    this.db = options.db ?? ImportExportDatabase.getInstance();
+  }
 
   /**
    * Create a new ImportExportEntity
@@ -75,6 +91,7 @@ export class ImportExportEntityHandler implements EntityHandler<ImportExportEnti
         scheduleType: createData.schedule.scheduleType ?? 'manual',
         ...createData.schedule,
       } : undefined,
+      ...(createData.syncConfig && { syncConfig: createData.syncConfig }),
       
       // Lifecycle
       createdAt: now,
@@ -82,11 +99,10 @@ export class ImportExportEntityHandler implements EntityHandler<ImportExportEnti
       version: 1,
     };
 
-    // Use context if available (injected at runtime)
-    // Runtime implementation will be injected by worker
-    console.log('Creating entity:', entity);
-    
-    // Fallback for testing
+    await this.db.entities.add(entity);
+    if (entity.schedule) {
+      await this.options.onScheduleChange?.(nodeId);
+    }
     return entity;
   }
 
@@ -94,9 +110,7 @@ export class ImportExportEntityHandler implements EntityHandler<ImportExportEnti
    * Get an ImportExportEntity by nodeId
    */
   async getEntity(nodeId: NodeId): Promise<ImportExportEntity | undefined> {
-    // Runtime implementation will be injected by worker
-    console.log('Getting entity for nodeId:', nodeId);
-    return undefined;
+    return this.db.entities.where('nodeId').equals(nodeId).first();
   }
 
   /**
@@ -125,22 +139,31 @@ export class ImportExportEntityHandler implements EntityHandler<ImportExportEnti
         ...existing.transformConfig,
         ...updateData.transformConfig,
       } : existing.transformConfig,
-      schedule: updateData.schedule as any,
+      // An explicit undefined removes the schedule
+      schedule: updateData.schedule ? {
+        ...existing.schedule,
+        ...updateData.schedule,
+      } as ScheduleConfiguration : 'schedule' in updateData ? undefined : existing.schedule,
+      id: existing.id,
       nodeId, // Ensure nodeId is not overwritten
       updatedAt: Date.now(),
       version: existing.version + 1,
     };
 
-    // Runtime implementation will be injected by worker
-    console.log('Updating entity:', nodeId, updated);
+    await this.db.entities.put(updated);
+    if (JSON.stringify(updated.schedule) !== JSON.stringify(existing.schedule)) {
+      await this.options.onScheduleChange?.(nodeId);
+    }
   }
 
   /**
    * Delete an ImportExportEntity
    */
   async deleteEntity(nodeId: NodeId): Promise<void> {
-    // Runtime implementation will be injected by worker
-    console.log('Deleting entity:', nodeId);
+    const deleted = await this.db.entities.where('nodeId').equals(nodeId).delete();
+    if (deleted > 0) {
+      await this.options.onScheduleChange?.(nodeId);
+    }
   }
 
   // Placeholder implementations for base class abstract methods
@@ -217,27 +240,21 @@ export class ImportExportEntityHandler implements EntityHandler<ImportExportEnti
    * Get operations by status
    */
   async getOperationsByStatus(status: OperationStatus): Promise<ImportExportEntity[]> {
-    // Implementation would query database for operations with specific status
-    console.log(`Getting operations with status: ${status}`);
-    return [];
+    return this.db.entities.where('status').equals(status).toArray();
   }
 
   /**
    * Get operations by type
    */
   async getOperationsByType(operationType: string): Promise<ImportExportEntity[]> {
-    // Implementation would query database for operations with specific type
-    console.log(`Getting operations with type: ${operationType}`);
-    return [];
+    return this.db.entities.where('operationType').equals(operationType).toArray();
   }
 
   /**
    * Get scheduled operations
    */
   async getScheduledOperations(): Promise<ImportExportEntity[]> {
-    // Implementation would query database for operations with schedules
-    console.log('Getting scheduled operations');
-    return [];
+    return this.db.entities.filter((operation) => operation.schedule?.enabled === true).toArray();
   }
 
   /**
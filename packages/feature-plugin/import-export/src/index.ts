@@ -5,6 +5,9 @@
  * Provides data import/export capabilities with multiple format support
  */
 
+import { formatRegistry } from './formats';
+import type { DataFormat } from './types/ImportExportEntity';
+
 // Export main plugin definition
 export { ImportExportDefinition } from './definitions/ImportExportDefinition';
 
@@ -22,15 +25,71 @@ export type {
   OperationProgress,
   ExecutionRecord,
   ImportExportStatistics,
+  ScheduleConfiguration,
+  SyncConfiguration,
+  SyncState,
 } from './types/ImportExportEntity';
 
-export type { ImportExportAPI } from './types/ImportExportAPI';
+export type { ImportExportAPI, SyncChange, SyncPlan } from './types/ImportExportAPI';
 
 // Export handlers
 export { ImportExportEntityHandler } from './handlers/ImportExportEntityHandler';
+export type { ImportExportEntityHandlerOptions } from './handlers/ImportExportEntityHandler';
+export { ImportExportDatabase } from './database/ImportExportDatabase';
 
 // Export services
 export { ImportExportService } from './services/ImportExportService';
+export type {
+  ExecuteOperationOptions,
+  ImportExportServiceDeps,
+} from './services/ImportExportService';
+export { ImportExportScheduler } from './services/ImportExportScheduler';
+export { TreeSyncService } from './services/TreeSyncService';
+export type { TreeSyncResult, TreeSyncServiceDeps } from './services/TreeSyncService';
+export type {
+  ImportExportSchedulerDeps,
+  ScheduledRunEvent,
+} from './services/ImportExportScheduler';
+export { nextRunTime, parseCronExpression } from './scheduling/schedule';
+
+// Export worker module
+export { createImportExportWorkerModule } from './worker/ImportExportWorkerModule';
+export type {
+  ImportExportWorkerAPI,
+  ImportExportWorkerModuleOptions,
+} from './worker/ImportExportWorkerModule';
+
+// Export formats
+export {
+  FormatRegistry,
+  formatRegistry,
+  decodeText,
+  readSheetRows,
+  csvFormat,
+  jsonFormat,
+  geojsonFormat,
+  xmlFormat,
+  yamlFormat,
+  excelFormat,
+  kmlFormat,
+  shapefileFormat,
+  isShp,
+  readShapefileLayers,
+  WGS84,
+  coordinateSystemFromEpsg,
+  epsgCodeOf,
+  parseCoordinateSystem,
+  transformGeometry,
+} from './formats';
+export type {
+  CoordinateSystem,
+  DataRecord,
+  FormatAdapter,
+  Geometry,
+  Position,
+  ShapefileLayer,
+  Unprojector,
+} from './formats';
 
 // Export constants
 export {
@@ -58,21 +117,21 @@ export function validateOperationName(name: string): boolean {
  * Get supported data formats
  */
 export function getSupportedFormats(): string[] {
-  return ['json', 'csv', 'xml', 'yaml', 'excel', 'geojson'];
+  return formatRegistry.getAll().map((adapter) => adapter.format);
 }
 
 /**
  * Check if format supports import
  */
 export function formatSupportsImport(format: string): boolean {
-  return ['json', 'csv', 'xml', 'excel', 'geojson'].includes(format);
+  return formatRegistry.canRead(format as DataFormat);
 }
 
 /**
  * Check if format supports export
  */
 export function formatSupportsExport(format: string): boolean {
-  return ['json', 'csv', 'xml', 'excel', 'geojson', 'pdf'].includes(format);
+  return formatRegistry.canWrite(format as DataFormat);
 }
 
 /**
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseExpression } from '../expression';
+
+const run = (source: string, scope: Record<string, unknown>): unknown =>
+  parseExpression(source, Object.keys(scope)).evaluate(scope);
+
+describe('parseExpression', () => {
+  it('evaluates field access, comparisons, arithmetic and logic', () => {
+    const record = { name: 'Tokyo', population: 1400, tags: ['capital'], 'area km2': 2194 };
+
+    expect(run('record.population * 2 + 10', { record })).toBe(2810);
+    expect(run("record.name === 'Tokyo' && record.population >= 1000", { record })).toBe(true);
+    expect(run('!(record.population < 100) || false', { record })).toBe(true);
+    expect(run("record['area km2'] % 1000", { record })).toBe(194);
+    expect(run('record.tags[0] + "!"', { record })).toBe('capital!');
+    expect(run('value.length > 3', { value: 'abcd', record })).toBe(true);
+    expect(run('-value / 4', { value: 10 })).toBe(-2.5);
+    expect(run('record.missing.deeper == null', { record })).toBe(true);
+  });
+
+  it('does not expose inherited properties', () => {
+    const record = { name: 'Tokyo' };
+
+    expect(run('record.constructor', { record })).toBeUndefined();
+    expect(run('record.__proto__', { record })).toBeUndefined();
+    expect(run('value.toUpperCase', { value: 'abc' })).toBeUndefined();
+  });
+
+  it('rejects anything outside the grammar', () => {
+    const variables = ['value', 'record'];
+
+    expect(() => parseExpression("fetch('https://example.com')", variables)).toThrow(
+      'unknown identifier "fetch"'
+    );
+    expect(() => parseExpression('record.name.toString()', variables)).toThrow('unexpected "("');
+    expect(() => parseExpression('value = 1', variables)).toThrow('unexpected "="');
+    expect(() => parseExpression('record.name ===', variables)).toThrow('unexpected end');
+    expect(() => parseExpression('`${value}`', variables)).toThrow('unexpected "`"');
+    expect(() => parseExpression('value > 1', ['record'])).toThrow('unknown identifier "value"');
+  });
+});
@@ -0,0 +1,318 @@
+/**
+ * Import/Export Plugin - Restricted expressions
+ * Parses and evaluates user-configured conditions, custom transforms and custom validators.
+ * Expressions arrive through imported bundles and run unattended, so they are never compiled
+ * as JavaScript: only field access on the given variables (`value`, `record`), literals,
+ * comparisons, arithmetic and logical operators are understood.
+ */
+
+type BinaryOperator =
+  | '||'
+  | '&&'
+  | '==='
+  | '!=='
+  | '=='
+  | '!='
+  | '<'
+  | '<='
+  | '>'
+  | '>='
+  | '+'
+  | '-'
+  | '*'
+  | '/'
+  | '%';
+
+type ExpressionNode =
+  | { type: 'literal'; value: string | number | boolean | null }
+  | { type: 'variable'; name: string }
+  | { type: 'member'; object: ExpressionNode; property: string | number }
+  | { type: 'unary'; operator: '!' | '-'; operand: ExpressionNode }
+  | { type: 'binary'; operator: BinaryOperator; left: ExpressionNode; right: ExpressionNode };
+
+type Token =
+  | { kind: 'number'; value: number; position: number }
+  | { kind: 'string'; value: string; position: number }
+  | { kind: 'identifier'; value: string; position: number }
+  | { kind: 'punctuator'; value: string; position: number };
+
+/**
+ * A parsed expression, evaluated against the variables it was parsed for
+ */
+export interface Expression {
+  evaluate(scope: Record<string, unknown>): unknown;
+}
+
+// Longest operators first so that `===` is not read as `==` followed by `=`
+const PUNCTUATORS = [
+  '===',
+  '!==',
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '<',
+  '>',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '!',
+  '(',
+  ')',
+  '.',
+  '[',
+  ']',
+];
+
+// Binary operators by precedence, loosest first
+const PRECEDENCE: BinaryOperator[][] = [
+  ['||'],
+  ['&&'],
+  ['===', '!==', '==', '!='],
+  ['<', '<=', '>', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+const LITERALS: Record<string, boolean | null> = { true: true, false: false, null: null };
+
+/**
+ * Parse an expression that may only refer to the given variables
+ * Throws on anything outside the grammar, such as function calls or unknown identifiers.
+ */
+export function parseExpression(source: string, variables: readonly string[]): Expression {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const fail = (message: string, token: Token | undefined = tokens[index]): never => {
+    throw new Error(
+      `Invalid expression "${source}": ${message}` +
+        (token ? ` at position ${token.position + 1}` : ' at end of input')
+    );
+  };
+  const peek = (value: string): boolean => {
+    const token = tokens[index];
+    return token?.kind === 'punctuator' && token.value === value;
+  };
+  const expect = (value: string): void => {
+    if (!peek(value)) {
+      fail(`expected "${value}"`);
+    }
+    index++;
+  };
+
+  const parseBinary = (level: number): ExpressionNode => {
+    if (level === PRECEDENCE.length) {
+      return parseUnary();
+    }
+    let left = parseBinary(level + 1);
+    for (;;) {
+      const operator = PRECEDENCE[level]!.find((candidate) => peek(candidate));
+      if (!operator) {
+        return left;
+      }
+      index++;
+      left = { type: 'binary', operator, left, right: parseBinary(level + 1) };
+    }
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (peek('!') || peek('-')) {
+      const operator = tokens[index++]!.value as '!' | '-';
+      return { type: 'unary', operator, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = tokens[index];
+    if (!token) {
+      return fail('unexpected end of input');
+    }
+    if (token.kind === 'number' || token.kind === 'string') {
+      index++;
+      return { type: 'literal', value: token.value };
+    }
+    if (token.kind === 'identifier') {
+      index++;
+      if (token.value in LITERALS) {
+        return { type: 'literal', value: LITERALS[token.value]! };
+      }
+      if (!variables.includes(token.value)) {
+        return fail(`unknown identifier "${token.value}"`, token);
+      }
+      return parseMembers({ type: 'variable', name: token.value });
+    }
+    if (peek('(')) {
+      index++;
+      const inner = parseBinary(0);
+      expect(')');
+      return inner;
+    }
+    return fail(`unexpected "${token.value}"`);
+  };
+
+  const parseMembers = (object: ExpressionNode): ExpressionNode => {
+    for (;;) {
+      if (peek('.')) {
+        index++;
+        const token = tokens[index];
+        if (token?.kind !== 'identifier') {
+          return fail('expected a field name');
+        }
+        index++;
+        object = { type: 'member', object, property: token.value };
+      } else if (peek('[')) {
+        index++;
+        const token = tokens[index];
+        if (token?.kind !== 'string' && token?.kind !== 'number') {
+          return fail('expected a field name or index');
+        }
+        index++;
+        expect(']');
+        object = { type: 'member', object, property: token.value };
+      } else {
+        return object;
+      }
+    }
+  };
+
+  const root = parseBinary(0);
+  if (index < tokens.length) {
+    fail(`unexpected "${tokens[index]!.value}"`);
+  }
+  return { evaluate: (scope) => evaluate(root, scope) };
+}
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const space = /^\s+/.exec(rest);
+    if (space) {
+      position += space[0].length;
+      continue;
+    }
+
+    const number = /^(?:\d+(?:\.\d*)?|\.\d+)(?:[eE][+-]?\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ kind: 'number', value: Number(number[0]), position });
+      position += number[0].length;
+      continue;
+    }
+
+    const identifier = /^[A-Za-z_$][\w$]*/.exec(rest);
+    if (identifier) {
+      tokens.push({ kind: 'identifier', value: identifier[0], position });
+      position += identifier[0].length;
+      continue;
+    }
+
+    const quote = rest[0];
+    if (quote === '"' || quote === "'") {
+      let value = '';
+      let end = 1;
+      while (end < rest.length && rest[end] !== quote) {
+        value += rest[end] === '\\' && end + 1 < rest.length ? rest[++end] : rest[end];
+        end++;
+      }
+      if (end >= rest.length) {
+        throw new Error(`Invalid expression "${source}": unterminated string`);
+      }
+      tokens.push({ kind: 'string', value, position });
+      position += end + 1;
+      continue;
+    }
+
+    const punctuator = PUNCTUATORS.find((candidate) => rest.startsWith(candidate));
+    if (!punctuator) {
+      throw new Error(
+        `Invalid expression "${source}": unexpected "${rest[0]}" at position ${position + 1}`
+      );
+    }
+    tokens.push({ kind: 'punctuator', value: punctuator, position });
+    position += punctuator.length;
+  }
+
+  return tokens;
+}
+
+function evaluate(node: ExpressionNode, scope: Record<string, unknown>): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'variable':
+      return scope[node.name];
+    case 'member':
+      return readField(evaluate(node.object, scope), node.property);
+    case 'unary': {
+      const operand = evaluate(node.operand, scope);
+      return node.operator === '!' ? !operand : -(operand as number);
+    }
+    case 'binary': {
+      // Short-circuit like JavaScript
+      const left = evaluate(node.left, scope);
+      if (node.operator === '||') {
+        return left || evaluate(node.right, scope);
+      }
+      if (node.operator === '&&') {
+        return left && evaluate(node.right, scope);
+      }
+      return applyBinary(node.operator, left, evaluate(node.right, scope));
+    }
+  }
+}
+
+/**
+ * Read a field of a data value; inherited properties (prototype, methods) are not visible
+ */
+function readField(object: unknown, property: string | number): unknown {
+  if (object === null || object === undefined) {
+    return undefined;
+  }
+  const target = Object(object) as Record<string | number, unknown>;
+  return Object.prototype.hasOwnProperty.call(target, property) ? target[property] : undefined;
+}
+
+function applyBinary(operator: BinaryOperator, left: unknown, right: unknown): unknown {
+  // Operands are data values, so the JavaScript operators are applied as-is
+  const a = left as number;
+  const b = right as number;
+  switch (operator) {
+    case '===':
+      return a === b;
+    case '!==':
+      return a !== b;
+    case '==':
+      return a == b;
+    case '!=':
+      return a != b;
+    case '<':
+      return a < b;
+    case '<=':
+      return a <= b;
+    case '>':
+      return a > b;
+    case '>=':
+      return a >= b;
+    case '+':
+      return a + b;
+    case '-':
+      return a - b;
+    case '*':
+      return a * b;
+    case '/':
+      return a / b;
+    case '%':
+      return a % b;
+    case '||':
+    case '&&':
+      throw new Error(`Unexpected logical operator ${operator}`);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Import/Export Plugin - Sources
+ * Loads the raw source data of an operation from an uploaded file or a URL
+ */
+
+import type {
+  AuthenticationConfig,
+  FileLocation,
+  SourceConfiguration,
+} from '../types/ImportExportEntity';
+
+/**
+ * Host-provided access to source data
+ */
+export interface SourceIO {
+  // Returns the uploaded file for a file location
+  resolveFile?: (location: FileLocation) => Promise<Blob | undefined>;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Load the raw source bytes; text formats decode them with sourceOptions.encoding
+ */
+export async function loadSourceData(
+  config: SourceConfiguration,
+  io: SourceIO
+): Promise<Uint8Array> {
+  const blob = await loadSourceBlob(config, io);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+async function loadSourceBlob(config: SourceConfiguration, io: SourceIO): Promise<Blob> {
+  const location = config.sourceLocation;
+
+  switch (config.sourceType) {
+    case 'file': {
+      if (location?.type !== 'file') {
+        throw new Error('File source requires a file location');
+      }
+      if (!io.resolveFile) {
+        throw new Error('File sources are not available in this environment');
+      }
+      const file = await io.resolveFile(location);
+      if (!file) {
+        throw new Error(`Source file not found: ${location.filename}`);
+      }
+      return file;
+    }
+
+    case 'url': {
+      if (location?.type !== 'url') {
+        throw new Error('URL source requires a URL location');
+      }
+      const url = new URL(location.url);
+      const headers = { ...location.headers, ...authHeaders(config.authentication, url) };
+      const response = await (io.fetch ?? fetch)(url.toString(), {
+        method: location.method ?? 'GET',
+        headers,
+      });
+      if (!response.ok) {
+        throw new Error(
+          `Failed to fetch ${location.url}: ${response.status} ${response.statusText}`
+        );
+      }
+      return await response.blob();
+    }
+
+    default:
+      throw new Error(`Unsupported source type: ${config.sourceType}`);
+  }
+}
+
+/**
+ * Request headers for the configured authentication
+ * API keys sent in the query are added to the URL instead
+ */
+function authHeaders(auth: AuthenticationConfig | undefined, url: URL): Record<string, string> {
+  const credentials = auth?.authType === 'none' ? undefined : auth?.credentials;
+
+  switch (credentials?.type) {
+    case 'basic':
+      return {
+        Authorization: `Basic ${btoa(`${credentials.username}:${credentials.password}`)}`,
+      };
+    case 'bearer':
+      return { Authorization: `Bearer ${credentials.token}` };
+    case 'oauth2':
+      return credentials.accessToken ? { Authorization: `Bearer ${credentials.accessToken}` } : {};
+    case 'apikey':
+      if (credentials.location === 'query') {
+        url.searchParams.set(credentials.keyName, credentials.keyValue);
+        return {};
+      }
+      return credentials.location === 'header'
+        ? { [credentials.keyName]: credentials.keyValue }
+        : {};
+    default:
+      return {};
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Import/Export Plugin - Transforms
+ * Column mapping, data type conversion and transform rules applied to each record
+ */
+
+import type {
+  ColumnMapping,
+  DataType,
+  TransformFunction,
+  TransformRule,
+} from '../types/ImportExportEntity';
+import type { DataRecord } from '../formats';
+import { parseExpression, type Expression } from './expression';
+
+/**
+ * A problem with one field of a record
+ */
+export interface FieldError {
+  field: string;
+  code: string;
+  message: string;
+}
+
+const parsedExpressions = new Map<string, Expression>();
+
+/**
+ * Evaluate a user-configured expression with the given variables in scope
+ * (`record` for conditions, plus `value` for custom transforms and validators)
+ */
+export function evaluateExpression(expression: string, scope: Record<string, unknown>): unknown {
+  const names = Object.keys(scope);
+  const key = `${names.join(',')}:${expression}`;
+  let parsed = parsedExpressions.get(key);
+  if (!parsed) {
+    parsed = parseExpression(expression, names);
+    parsedExpressions.set(key, parsed);
+  }
+  return parsed.evaluate(scope);
+}
+
+/**
+ * Whether a value counts as missing
+ */
+export function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === 'string' && value.trim() === '') ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Apply a transform function to a value
+ */
+export function transformValue(
+  value: unknown,
+  transformation: TransformFunction,
+  parameters: Record<string, any> = {},
+  record: DataRecord = {}
+): unknown {
+  switch (transformation) {
+    case 'uppercase':
+      return typeof value === 'string' ? value.toUpperCase() : value;
+    case 'lowercase':
+      return typeof value === 'string' ? value.toLowerCase() : value;
+    case 'trim':
+      return typeof value === 'string' ? value.trim() : value;
+    case 'parseNumber':
+      return toNumber(value);
+    case 'parseDate':
+      return toDate(value).getTime();
+    case 'formatDate': {
+      const iso = toDate(value).toISOString();
+      return parameters.format === 'date' ? iso.slice(0, 10) : iso;
+    }
+    case 'splitString':
+      return typeof value === 'string'
+        ? value.split(parameters.separator ?? ',').map((part) => part.trim())
+        : value;
+    case 'joinString':
+      return Array.isArray(value) ? value.join(parameters.separator ?? ',') : value;
+    case 'custom':
+      if (typeof parameters.expression !== 'string') {
+        throw new Error('Custom transformation requires an expression parameter');
+      }
+      return evaluateExpression(parameters.expression, { value, record });
+  }
+}
+
+/**
+ * Convert a value to a column data type
+ */
+export function convertDataType(value: unknown, dataType: DataType): unknown {
+  switch (dataType) {
+    case 'string':
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
+    case 'number':
+      return toNumber(value);
+    case 'boolean': {
+      if (typeof value === 'boolean') {
+        return value;
+      }
+      const text = String(value).trim().toLowerCase();
+      if (['true', '1', 'yes', 'y'].includes(text)) {
+        return true;
+      }
+      if (['false', '0', 'no', 'n'].includes(text)) {
+        return false;
+      }
+      throw new Error(`Not a boolean: ${String(value)}`);
+    }
+    case 'date':
+      return toDate(value).toISOString().slice(0, 10);
+    case 'datetime':
+      return toDate(value).toISOString();
+    case 'json':
+      return typeof value === 'string' ? JSON.parse(value) : value;
+    case 'array':
+      return Array.isArray(value)
+        ? value
+        : typeof value === 'string'
+          ? value.split(',').map((part) => part.trim())
+          : [value];
+  }
+}
+
+/**
+ * Map source columns to target columns
+ * Only mapped columns are kept; empty values fall back to the default value
+ */
+export function applyColumnMapping(
+  record: DataRecord,
+  mapping: ColumnMapping
+): { record: DataRecord; errors: FieldError[] } {
+  const mapped: DataRecord = {};
+  const errors: FieldError[] = [];
+
+  for (const [sourceColumn, config] of Object.entries(mapping)) {
+    const field = config.targetColumn || sourceColumn;
+    let value = record[sourceColumn];
+    if (isEmptyValue(value)) {
+      value = config.defaultValue;
+    }
+    if (isEmptyValue(value)) {
+      if (config.required) {
+        errors.push({ field, code: 'required', message: `${field} is required` });
+      }
+      mapped[field] = null;
+      continue;
+    }
+
+    try {
+      if (config.transformation) {
+        value = transformValue(value, config.transformation, {}, record);
+      }
+      mapped[field] = convertDataType(value, config.dataType);
+    } catch (error) {
+      errors.push({ field, code: 'conversion', message: `${field}: ${errorMessage(error)}` });
+      mapped[field] = value;
+    }
+  }
+
+  return { record: mapped, errors };
+}
+
+/**
+ * Apply transform rules in order; rules with a condition only apply when it is truthy
+ */
+export function applyTransformRules(
+  record: DataRecord,
+  rules: TransformRule[]
+): { record: DataRecord; errors: FieldError[] } {
+  const transformed: DataRecord = { ...record };
+  const errors: FieldError[] = [];
+
+  for (const rule of rules) {
+    try {
+      if (rule.condition && !evaluateExpression(rule.condition, { record: transformed })) {
+        continue;
+      }
+      transformed[rule.field] = transformValue(
+        transformed[rule.field],
+        rule.transformation,
+        rule.parameters,
+        transformed
+      );
+    } catch (error) {
+      errors.push({
+        field: rule.field,
+        code: 'transform',
+        message: `${rule.name || rule.id}: ${errorMessage(error)}`,
+      });
+    }
+  }
+
+  return { record: transformed, errors };
+}
+
+export function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function toNumber(value: unknown): number {
+  const number = typeof value === 'number' ? value : Number(String(value).trim().replace(/,/g, ''));
+  if (Number.isNaN(number) || String(value).trim() === '') {
+    throw new Error(`Not a number: ${String(value)}`);
+  }
+  return number;
+}
+
+function toDate(value: unknown): Date {
+  const date =
+    value instanceof Date
+      ? value
+      : new Date(typeof value === 'number' ? value : String(value).trim());
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Not a date: ${String(value)}`);
+  }
+  return date;
+}
@@ -0,0 +1,89 @@
+/**
+ * Import/Export Plugin - Record validation
+ */
+
+import type { ValidationRule } from '../types/ImportExportEntity';
+import type { DataRecord } from '../formats';
+import { errorMessage, evaluateExpression, isEmptyValue, type FieldError } from './transforms';
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Check a record against validation rules
+ * Empty values only fail the `required` rule, or any rule marked as required
+ */
+export function validateRecord(record: DataRecord, rules: ValidationRule[]): FieldError[] {
+  const errors: FieldError[] = [];
+
+  for (const rule of rules) {
+    const value = record[rule.field];
+    const fail = (message: string): void => {
+      errors.push({ field: rule.field, code: rule.rule, message: `${rule.field} ${message}` });
+    };
+
+    if (isEmptyValue(value)) {
+      if (rule.rule === 'required' || rule.required) {
+        fail('is required');
+      }
+      continue;
+    }
+
+    const params = rule.parameters ?? {};
+    const text = String(value);
+    switch (rule.rule) {
+      case 'required':
+        break;
+      case 'minLength':
+        if (lengthOf(value) < Number(params.min ?? params.length ?? 0)) {
+          fail(`must be at least ${params.min ?? params.length} characters`);
+        }
+        break;
+      case 'maxLength':
+        if (lengthOf(value) > Number(params.max ?? params.length ?? Infinity)) {
+          fail(`must be at most ${params.max ?? params.length} characters`);
+        }
+        break;
+      case 'pattern':
+        if (!new RegExp(params.pattern ?? '', params.flags).test(text)) {
+          fail(`does not match ${params.pattern}`);
+        }
+        break;
+      case 'email':
+        if (!EMAIL_PATTERN.test(text)) {
+          fail('is not a valid email address');
+        }
+        break;
+      case 'url':
+        if (!URL.canParse(text)) {
+          fail('is not a valid URL');
+        }
+        break;
+      case 'range': {
+        const number = typeof value === 'number' ? value : Number(text);
+        if (
+          Number.isNaN(number) ||
+          (params.min !== undefined && number < Number(params.min)) ||
+          (params.max !== undefined && number > Number(params.max))
+        ) {
+          fail(`must be between ${params.min ?? '-∞'} and ${params.max ?? '∞'}`);
+        }
+        break;
+      }
+      case 'custom':
+        try {
+          if (!evaluateExpression(String(params.expression), { value, record })) {
+            fail(params.message ?? `failed ${rule.name || rule.id}`);
+          }
+        } catch (error) {
+          fail(`failed ${rule.name || rule.id}: ${errorMessage(error)}`);
+        }
+        break;
+    }
+  }
+
+  return errors;
+}
+
+function lengthOf(value: unknown): number {
+  return Array.isArray(value) ? value.length : String(value).length;
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import type { ScheduleConfiguration } from '../../types/ImportExportEntity';
+import { nextCronTime, nextRunTime, parseCronExpression } from '../schedule';
+
+const at = (iso: string): number => Date.parse(iso);
+
+describe('parseCronExpression', () => {
+  it('expands lists, ranges, steps, names and macros', () => {
+    const cron = parseCronExpression('*/15 9-17 1,15 jan-mar mon-fri');
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect(cron.hours.size).toBe(9);
+    expect([...cron.daysOfMonth]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+    expect([...parseCronExpression('@weekly').daysOfWeek]).toEqual([0]);
+    expect([...parseCronExpression('0 0 * * 7').daysOfWeek]).toEqual([0]);
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCronExpression('* * *')).toThrow('expected 5 fields');
+    expect(() => parseCronExpression('60 * * * *')).toThrow('out of range 0-59');
+    expect(() => parseCronExpression('*/0 * * * *')).toThrow('invalid step');
+  });
+});
+
+describe('nextCronTime', () => {
+  it('matches wall-clock fields in the given timezone', () => {
+    const daily = parseCronExpression('30 9 * * *');
+    // 09:30 in Tokyo is 00:30 UTC
+    expect(nextCronTime(daily, at('2026-03-01T01:00:00Z'), 'Asia/Tokyo')).toBe(
+      at('2026-03-02T00:30:00Z')
+    );
+    expect(nextCronTime(daily, at('2026-03-01T01:00:00Z'), 'UTC')).toBe(at('2026-03-01T09:30:00Z'));
+  });
+
+  it('keeps the local time across daylight saving changes', () => {
+    const daily = parseCronExpression('0 8 * * *');
+    // New York moves from UTC-5 to UTC-4 on 2026-03-08
+    expect(nextCronTime(daily, at('2026-03-07T14:00:00Z'), 'America/New_York')).toBe(
+      at('2026-03-08T12:00:00Z')
+    );
+  });
+
+  it('ors day-of-month and day-of-week when both are restricted', () => {
+    // 2026-06-01 is a Monday, 2026-06-05 a Friday
+    const cron = parseCronExpression('0 0 5 * fri');
+    expect(nextCronTime(cron, at('2026-06-01T00:00:00Z'), 'UTC')).toBe(at('2026-06-05T00:00:00Z'));
+    expect(nextCronTime(cron, at('2026-06-05T00:00:00Z'), 'UTC')).toBe(at('2026-06-12T00:00:00Z'));
+  });
+
+  it('gives up on dates that never exist', () => {
+    expect(nextCronTime(parseCronExpression('0 0 30 2 *'), 0, 'UTC')).toBeUndefined();
+  });
+});
+
+describe('nextRunTime', () => {
+  const base: ScheduleConfiguration = { enabled: true, scheduleType: 'interval', interval: 60 };
+
+  it('aligns intervals to the anchor and stops at the end date', () => {
+    const anchor = at('2026-01-01T00:10:00Z');
+    expect(nextRunTime(base, at('2026-01-01T05:00:00Z'), anchor)).toBe(at('2026-01-01T05:10:00Z'));
+    expect(
+      nextRunTime(
+        { ...base, endDate: at('2026-01-01T05:00:00Z') },
+        at('2026-01-01T04:30:00Z'),
+        anchor
+      )
+    ).toBeUndefined();
+  });
+
+  it('fires once schedules only before their start date and never for manual ones', () => {
+    const once: ScheduleConfiguration = {
+      enabled: true,
+      scheduleType: 'once',
+      startDate: at('2026-02-01T00:00:00Z'),
+    };
+    expect(nextRunTime(once, at('2026-01-01T00:00:00Z'))).toBe(at('2026-02-01T00:00:00Z'));
+    expect(nextRunTime(once, at('2026-02-01T00:00:00Z'))).toBeUndefined();
+    expect(nextRunTime({ ...base, scheduleType: 'manual' }, 0)).toBeUndefined();
+    expect(nextRunTime({ ...base, enabled: false }, 0)).toBeUndefined();
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Import/Export Plugin - Schedule timing
+ * Computes when a ScheduleConfiguration next fires; cron fields are matched in the schedule's timezone
+ */
+
+import type { Timestamp } from '@hierarchidb/common-core';
+import type { ScheduleConfiguration } from '../types/ImportExportEntity';
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+// Give up on expressions that never match (e.g. 0 0 30 2 *)
+const MAX_SEARCH_DAYS = 5 * 366;
+
+/**
+ * A parsed five-field cron expression
+ */
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Day-of-month and day-of-week are OR-ed when both are restricted
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = [
+  'jan',
+  'feb',
+  'mar',
+  'apr',
+  'may',
+  'jun',
+  'jul',
+  'aug',
+  'sep',
+  'oct',
+  'nov',
+  'dec',
+];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+/**
+ * Parse `minute hour day-of-month month day-of-week`
+ * Supports `*`, lists, ranges, steps, month/day names and the @daily style macros
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const normalized = MACROS[expression.trim().toLowerCase()] ?? expression;
+  const fields = normalized.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [
+    string,
+    string,
+    string,
+    string,
+    string,
+  ];
+
+  const parse = (field: string, min: number, max: number, names?: string[]): Set<number> => {
+    try {
+      return parseField(field, min, max, names);
+    } catch (error) {
+      throw new Error(
+        `Invalid cron expression "${expression}": ${error instanceof Error ? error.message : error}`
+      );
+    }
+  };
+
+  // 7 is accepted as Sunday
+  const daysOfWeek = new Set([...parse(dayOfWeek, 0, 7, DAY_NAMES)].map((day) => day % 7));
+  return {
+    minutes: parse(minute, 0, 59),
+    hours: parse(hour, 0, 23),
+    daysOfMonth: parse(dayOfMonth, 1, 31),
+    months: parse(month, 1, 12, MONTH_NAMES),
+    daysOfWeek,
+    anyDayOfMonth: dayOfMonth === '*' || dayOfMonth === '?',
+    anyDayOfWeek: dayOfWeek === '*' || dayOfWeek === '?',
+  };
+}
+
+/**
+ * First time after `after` that matches the cron schedule
+ * Without a timezone, the runtime's local timezone is used
+ */
+export function nextCronTime(
+  cron: CronSchedule,
+  after: Timestamp,
+  timezone?: string
+): Timestamp | undefined {
+  // Walk wall-clock time in the target timezone, represented as UTC fields
+  let wall = Math.floor((after + timezoneOffset(after, timezone)) / MINUTE) * MINUTE + MINUTE;
+  const limit = wall + MAX_SEARCH_DAYS * DAY;
+
+  while (wall <= limit) {
+    const date = new Date(wall);
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+      continue;
+    }
+    if (!matchesDay(cron, date)) {
+      wall = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+      continue;
+    }
+    if (!cron.hours.has(date.getUTCHours())) {
+      wall = Date.UTC(
+        date.getUTCFullYear(),
+        date.getUTCMonth(),
+        date.getUTCDate(),
+        date.getUTCHours() + 1
+      );
+      continue;
+    }
+    if (!cron.minutes.has(date.getUTCMinutes())) {
+      wall += MINUTE;
+      continue;
+    }
+
+    const instant = wallTimeToInstant(wall, timezone);
+    if (instant > after) {
+      return instant;
+    }
+    // A repeated wall time at the end of daylight saving time
+    wall += MINUTE;
+  }
+  return undefined;
+}
+
+/**
+ * First run of the schedule after `after`, or undefined when it never fires again
+ * Interval runs are aligned to `anchor` (the start date, or when the operation was created)
+ */
+export function nextRunTime(
+  schedule: ScheduleConfiguration,
+  after: Timestamp,
+  anchor: Timestamp = schedule.startDate ?? after
+): Timestamp | undefined {
+  if (!schedule.enabled) {
+    return undefined;
+  }
+
+  let next: Timestamp | undefined;
+  switch (schedule.scheduleType) {
+    case 'once':
+      next =
+        schedule.startDate !== undefined && schedule.startDate > after
+          ? schedule.startDate
+          : undefined;
+      break;
+    case 'interval': {
+      const interval = (schedule.interval ?? 0) * MINUTE;
+      if (interval <= 0) {
+        return undefined;
+      }
+      const start = Math.max(anchor, schedule.startDate ?? anchor);
+      next =
+        after < start ? start : start + (Math.floor((after - start) / interval) + 1) * interval;
+      break;
+    }
+    case 'cron': {
+      if (!schedule.cronExpression) {
+        return undefined;
+      }
+      const from =
+        schedule.startDate !== undefined ? Math.max(after, schedule.startDate - 1) : after;
+      next = nextCronTime(parseCronExpression(schedule.cronExpression), from, schedule.timezone);
+      break;
+    }
+    case 'manual':
+      return undefined;
+  }
+
+  return next !== undefined && (schedule.endDate === undefined || next <= schedule.endDate)
+    ? next
+    : undefined;
+}
+
+function parseField(field: string, min: number, max: number, names?: string[]): Set<number> {
+  const values = new Set<number>();
+  const toNumber = (token: string): number => {
+    const index = names?.indexOf(token.toLowerCase()) ?? -1;
+    // Month names are 1-based, day names 0-based
+    const value = index >= 0 ? index + min : Number(token);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`"${token}" is out of range ${min}-${max}`);
+    }
+    return value;
+  };
+
+  for (const part of field.split(',')) {
+    const [range = '', stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`invalid step "${stepText}"`);
+    }
+
+    let from = min;
+    let to = max;
+    if (range !== '*' && range !== '?') {
+      const [start = '', end] = range.split('-');
+      from = toNumber(start);
+      // `5/15` means every 15 starting at 5
+      to = end !== undefined ? toNumber(end) : stepText !== undefined ? max : from;
+      if (from > to) {
+        throw new Error(`invalid range "${range}"`);
+      }
+    }
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function matchesDay(cron: CronSchedule, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+  if (cron.anyDayOfMonth || cron.anyDayOfWeek) {
+    return (cron.anyDayOfMonth || dayOfMonth) && (cron.anyDayOfWeek || dayOfWeek);
+  }
+  return dayOfMonth || dayOfWeek;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Milliseconds to add to a UTC instant to get the wall-clock time in the timezone
+ */
+function timezoneOffset(instant: Timestamp, timezone?: string): number {
+  const key = timezone ?? '';
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(key, formatter);
+  }
+
+  const parts: Record<string, number> = {};
+  for (const { type, value } of formatter.formatToParts(instant)) {
+    parts[type] = Number(value);
+  }
+  const wall = Date.UTC(
+    parts.year ?? 1970,
+    (parts.month ?? 1) - 1,
+    parts.day ?? 1,
+    parts.hour ?? 0,
+    parts.minute ?? 0,
+    parts.second ?? 0
+  );
+  return wall - Math.floor(instant / 1000) * 1000;
+}
+
+function wallTimeToInstant(wall: Timestamp, timezone?: string): Timestamp {
+  const guess = wall - timezoneOffset(wall, timezone);
+  return wall - timezoneOffset(guess, timezone);
+}
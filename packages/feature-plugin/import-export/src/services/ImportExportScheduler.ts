@@ -0,0 +1,197 @@
+/**
+ * Import/Export Scheduler
+ * Wakes scheduled operations while the app is open and catches up runs missed while it was closed
+ */
+
+import type { NodeId, Timestamp } from '@hierarchidb/common-core';
+import type {
+  ImportExportEntity,
+  OperationProgress,
+  OperationStatus,
+} from '../types/ImportExportEntity';
+import { errorMessage } from '../pipeline/transforms';
+import { nextRunTime } from '../scheduling/schedule';
+import type { ImportExportService } from './ImportExportService';
+
+// setTimeout overflows beyond this delay
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * Host services the scheduler reads operations from and runs them with
+ */
+export interface ImportExportSchedulerDeps {
+  entityHandler: {
+    getScheduledOperations(): Promise<ImportExportEntity[]>;
+    getEntity(nodeId: NodeId): Promise<ImportExportEntity | undefined>;
+    updateEntity(nodeId: NodeId, data: Partial<ImportExportEntity>): Promise<void>;
+  };
+  service: Pick<ImportExportService, 'executeOperation'>;
+  // Default for schedules that do not set catchUpMissedRuns (true)
+  catchUpMissedRuns?: boolean;
+}
+
+/**
+ * Scheduler activity, delivered to subscribers
+ */
+export type ScheduledRunEvent =
+  | { type: 'scheduled'; nodeId: NodeId; runAt: Timestamp }
+  | { type: 'started'; nodeId: NodeId; scheduledTime: Timestamp; catchUp: boolean }
+  | { type: 'progress'; nodeId: NodeId; progress: OperationProgress }
+  | { type: 'finished'; nodeId: NodeId; executionId: string; status: OperationStatus }
+  | { type: 'error'; nodeId: NodeId; message: string };
+
+export class ImportExportScheduler {
+  private timers = new Map<NodeId, ReturnType<typeof setTimeout>>();
+  private nextRuns = new Map<NodeId, Timestamp>();
+  private running = new Set<NodeId>();
+  private listeners = new Set<(event: ScheduledRunEvent) => void>();
+  private started = false;
+
+  constructor(private deps: ImportExportSchedulerDeps) {}
+
+  /**
+   * Arm every scheduled operation
+   * Operations that missed runs since their last execution run once immediately, unless catch-up is off
+   */
+  async start(): Promise<void> {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    const operations = await this.deps.entityHandler.getScheduledOperations();
+    await Promise.all(operations.map((operation) => this.arm(operation, true)));
+  }
+
+  stop(): void {
+    this.started = false;
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+    this.nextRuns.clear();
+  }
+
+  /**
+   * Re-read an operation after its schedule was created, changed or removed
+   */
+  async refresh(nodeId: NodeId): Promise<void> {
+    if (!this.started) {
+      return;
+    }
+    this.disarm(nodeId);
+    const operation = await this.deps.entityHandler.getEntity(nodeId);
+    if (operation) {
+      await this.arm(operation, false);
+    }
+  }
+
+  getNextRunTime(nodeId: NodeId): Timestamp | undefined {
+    return this.nextRuns.get(nodeId);
+  }
+
+  /**
+   * Listen to scheduled runs, including their live progress
+   * @returns Function that removes the listener
+   */
+  subscribe(listener: (event: ScheduledRunEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private async arm(operation: ImportExportEntity, catchUp: boolean): Promise<void> {
+    const { nodeId, schedule } = operation;
+    try {
+      if (!schedule) {
+        return;
+      }
+      const now = Date.now();
+      const anchor = schedule.startDate ?? operation.createdAt;
+
+      if (catchUp && (schedule.catchUpMissedRuns ?? this.deps.catchUpMissedRuns ?? true)) {
+        // All missed slots collapse into a single run
+        const lastRun = operation.executionHistory.at(-1)?.startTime ?? operation.createdAt;
+        const missed = nextRunTime(schedule, lastRun, anchor);
+        if (missed !== undefined && missed <= now) {
+          void this.run(nodeId, missed, true);
+          return;
+        }
+      }
+
+      const runAt = nextRunTime(schedule, now, anchor);
+      if (runAt === undefined) {
+        if (operation.status === 'scheduled') {
+          await this.deps.entityHandler.updateEntity(nodeId, { status: 'ready', schedule });
+        }
+        return;
+      }
+
+      this.nextRuns.set(nodeId, runAt);
+      this.setTimer(nodeId, runAt);
+      if (operation.status !== 'running' && operation.status !== 'scheduled') {
+        await this.deps.entityHandler.updateEntity(nodeId, { status: 'scheduled', schedule });
+      }
+      this.emit({ type: 'scheduled', nodeId, runAt });
+    } catch (error) {
+      this.emit({ type: 'error', nodeId, message: errorMessage(error) });
+    }
+  }
+
+  private disarm(nodeId: NodeId): void {
+    clearTimeout(this.timers.get(nodeId));
+    this.timers.delete(nodeId);
+    this.nextRuns.delete(nodeId);
+  }
+
+  private setTimer(nodeId: NodeId, runAt: Timestamp): void {
+    const delay = Math.max(0, runAt - Date.now());
+    this.timers.set(
+      nodeId,
+      delay > MAX_TIMEOUT
+        ? setTimeout(() => this.setTimer(nodeId, runAt), MAX_TIMEOUT)
+        : setTimeout(() => void this.fire(nodeId, runAt), delay)
+    );
+  }
+
+  private async fire(nodeId: NodeId, scheduledTime: Timestamp): Promise<void> {
+    this.disarm(nodeId);
+    const operation = await this.deps.entityHandler.getEntity(nodeId);
+    if (!operation) {
+      return;
+    }
+    // Skip the slot while a manual run is still going
+    if (operation.status === 'running') {
+      await this.arm(operation, false);
+      return;
+    }
+    await this.run(nodeId, scheduledTime, false);
+  }
+
+  private async run(nodeId: NodeId, scheduledTime: Timestamp, catchUp: boolean): Promise<void> {
+    if (this.running.has(nodeId)) {
+      return;
+    }
+    this.running.add(nodeId);
+    this.emit({ type: 'started', nodeId, scheduledTime, catchUp });
+
+    try {
+      const executionId = await this.deps.service.executeOperation(nodeId, {
+        scheduledTime,
+        onProgress: (progress) => this.emit({ type: 'progress', nodeId, progress }),
+      });
+      const operation = await this.deps.entityHandler.getEntity(nodeId);
+      const status = operation?.executionHistory.at(-1)?.status ?? 'completed';
+      this.emit({ type: 'finished', nodeId, executionId, status });
+      if (operation && this.started) {
+        await this.arm(operation, false);
+      }
+    } catch (error) {
+      this.emit({ type: 'error', nodeId, message: errorMessage(error) });
+    } finally {
+      this.running.delete(nodeId);
+    }
+  }
+
+  private emit(event: ScheduledRunEvent): void {
+    this.listeners.forEach((listener) => listener(event));
+  }
+}
@@ -1,55 +1,781 @@
 /**
  * Import/Export Service - Core business logic
+ * Runs an operation's pipeline: read source → map columns → transform → validate → write target
+ * Sync operations diff two subtrees instead (see TreeSyncService)
  */
 
-import { NodeId } from '@hierarchidb/common-core';
-import { DataFormat } from '../types';
+import {
+  NodeIdGenerator,
+  type NodeId,
+  type Timestamp,
+  type TreeId,
+} from '@hierarchidb/common-core';
+import type { TreeMutationAPI } from '@hierarchidb/common-api';
+import type {
+  ColumnInfo,
+  DataPreview,
+  SyncPlan,
+  DataQualityIssue,
+  DataTypeInference,
+  ValidationError,
+  ValidationResult,
+  ValidationSuggestion,
+  ValidationWarning,
+} from '../types/ImportExportAPI';
+import type {
+  DataFormat,
+  ExecutionRecord,
+  ImportExportEntity,
+  LogEntry,
+  OperationProgress,
+} from '../types/ImportExportEntity';
+import { formatRegistry, type DataRecord, type FormatRegistry } from '../formats';
+import { parseExpression } from '../pipeline/expression';
+import { loadSourceData, type SourceIO } from '../pipeline/sources';
+import {
+  applyColumnMapping,
+  applyTransformRules,
+  errorMessage,
+  isEmptyValue,
+  type FieldError,
+} from '../pipeline/transforms';
+import { validateRecord } from '../pipeline/validation';
+import type { TreeSyncResult, TreeSyncService } from './TreeSyncService';
+
+// Same limit as ImportExportEntityHandler.addExecutionRecord
+const MAX_EXECUTION_HISTORY = 10;
+const MAX_LOGGED_ERRORS = 100;
+
+/**
+ * Host services the pipeline reads from and writes to
+ */
+export interface ImportExportServiceDeps extends SourceIO {
+  entityHandler: {
+    getEntity(nodeId: NodeId): Promise<ImportExportEntity | undefined>;
+    updateEntity(nodeId: NodeId, data: Partial<ImportExportEntity>): Promise<void>;
+  };
+  // Required for tree targets
+  mutationAPI?: Pick<TreeMutationAPI, 'createNode'>;
+  // Required for file targets; returns where the file was saved
+  writeFile?: (filename: string, blob: Blob) => Promise<string>;
+  // Codecs for source and target files; the built-in formats by default
+  formats?: FormatRegistry;
+  // Required for sync operations
+  treeSync?: TreeSyncService;
+}
+
+/**
+ * Options for a single run
+ */
+export interface ExecuteOperationOptions {
+  // The slot a scheduled run was started for; recorded in the execution history
+  scheduledTime?: Timestamp;
+  // Called with each progress update as it is written to the entity
+  onProgress?: (progress: OperationProgress) => void;
+}
+
+/**
+ * Records that passed the pipeline, with per-row error accounting
+ */
+interface ProcessedRecords {
+  records: DataRecord[];
+  failedRecords: number;
+  skippedRecords: number;
+  errorCount: number;
+  aborted?: string;
+}
 
 export class ImportExportService {
+  private formats: FormatRegistry;
+
+  constructor(private deps: ImportExportServiceDeps) {
+    this.formats = deps.formats ?? formatRegistry;
+  }
+
   /**
    * Execute import/export operation
+   * The run is appended to the operation's execution history; returns its execution ID
    */
-  async executeOperation(nodeId: NodeId): Promise<string> {
-    console.log(`Executing operation: ${nodeId}`);
-    return `execution-${Date.now()}`;
+  async executeOperation(nodeId: NodeId, options: ExecuteOperationOptions = {}): Promise<string> {
+    const operation = await this.getOperation(nodeId);
+    const executionId = `execution-${Date.now()}`;
+    const startTime = Date.now();
+    const logs: LogEntry[] = [];
+    const log = (level: LogEntry['level'], message: string, details?: unknown): void => {
+      logs.push({
+        timestamp: Date.now(),
+        level,
+        message,
+        ...(details !== undefined && { details }),
+      });
+    };
+
+    const reportProgress = (progress: OperationProgress): Promise<void> =>
+      this.reportProgress(nodeId, operation, progress, options.onProgress);
+
+    await reportProgress({
+      status: 'running',
+      percentage: 0,
+      processedRecords: 0,
+      errorCount: 0,
+      startTime,
+      currentStep: 'reading',
+    });
+
+    let totalRecords = 0;
+    let processed: ProcessedRecords | undefined;
+    let writeResult:
+      | { resultLocation?: string; failedRecords: number; skippedRecords?: number }
+      | undefined;
+    try {
+      if (operation.operationType === 'sync') {
+        // Each node change counts as a record
+        const sync = await this.syncTrees(nodeId, operation, executionId, log);
+        totalRecords = sync.plan.changes.length + sync.plan.skipped.length;
+        writeResult = {
+          resultLocation: sync.resultLocation,
+          failedRecords: sync.errors.length,
+          skippedRecords: sync.plan.skipped.length,
+        };
+      } else {
+        const records = await this.readSource(operation);
+        totalRecords = records.length;
+        log('info', `Read ${totalRecords} records`);
+
+        processed = this.processRecords(records, operation, log);
+        if (processed.aborted) {
+          throw new Error(processed.aborted);
+        }
+
+        await reportProgress({
+          status: 'running',
+          percentage: 50,
+          processedRecords: totalRecords,
+          totalRecords,
+          errorCount: processed.errorCount,
+          startTime,
+          currentStep: 'writing',
+        });
+        writeResult = await this.writeTarget(processed.records, operation, log);
+      }
+    } catch (error) {
+      log('error', errorMessage(error));
+    }
+
+    const endTime = Date.now();
+    const failed = !writeResult;
+    const failedRecords = (processed?.failedRecords ?? 0) + (writeResult?.failedRecords ?? 0);
+    const skippedRecords = (processed?.skippedRecords ?? 0) + (writeResult?.skippedRecords ?? 0);
+    const successfulRecords = failed ? 0 : totalRecords - failedRecords - skippedRecords;
+    const processingTime = endTime - startTime;
+
+    const record: ExecutionRecord = {
+      id: executionId,
+      startTime,
+      endTime,
+      status: failed ? 'failed' : 'completed',
+      processedRecords: totalRecords,
+      errorCount: (processed?.errorCount ?? 0) + (writeResult?.failedRecords ?? 0),
+      resultSummary: {
+        totalRecords,
+        successfulRecords,
+        failedRecords,
+        skippedRecords,
+        processingTime,
+        throughputPerSecond:
+          processingTime > 0 ? (totalRecords / processingTime) * 1000 : totalRecords,
+        ...(writeResult?.resultLocation && { resultLocation: writeResult.resultLocation }),
+      },
+      logs,
+      ...(options.scheduledTime !== undefined && { scheduledTime: options.scheduledTime }),
+    };
+
+    const progress: OperationProgress = {
+      status: record.status,
+      percentage: failed ? 0 : 100,
+      processedRecords: totalRecords,
+      totalRecords,
+      errorCount: record.errorCount,
+      startTime,
+      endTime,
+      message: failed ? logs[logs.length - 1]?.message : `Processed ${totalRecords} records`,
+    };
+    await this.deps.entityHandler.updateEntity(nodeId, {
+      status: record.status,
+      progress,
+      executionHistory: [...operation.executionHistory, record].slice(-MAX_EXECUTION_HISTORY),
+      // updateEntity replaces the schedule unless it is passed along
+      schedule: operation.schedule,
+    });
+    options.onProgress?.(progress);
+
+    return executionId;
   }
 
   /**
    * Get supported formats
    */
   getAvailableFormats(): Array<{ format: DataFormat; name: string }> {
-    return [
-      { format: 'json', name: 'JSON' },
-      { format: 'csv', name: 'CSV' },
-      { format: 'xml', name: 'XML' },
-      { format: 'excel', name: 'Excel' },
-      { format: 'geojson', name: 'GeoJSON' },
-    ];
+    return this.formats.getAll().map(({ format, name }) => ({ format, name }));
   }
 
   /**
    * Preview data from source
+   * The first sampleSize records are mapped and transformed as they would be on execution
    */
-  async previewData(nodeId: NodeId, sampleSize = 100): Promise<any> {
-    console.log(`Previewing data for operation: ${nodeId}, sample size: ${sampleSize}`);
+  async previewData(nodeId: NodeId, sampleSize = 100): Promise<DataPreview> {
+    const operation = await this.getOperation(nodeId);
+    const records = await this.readSource(operation);
+
+    const rowErrors: FieldError[][] = [];
+    const sampleData = records.slice(0, sampleSize).map((record) => {
+      const { record: transformed, errors } = this.transformRecord(record, operation);
+      rowErrors.push(errors);
+      return transformed;
+    });
+
+    const columnNames = [...new Set(sampleData.flatMap((record) => Object.keys(record)))];
+    const columns: ColumnInfo[] = [];
+    const dataTypes: DataTypeInference[] = [];
+    const issues: DataQualityIssue[] = [];
+
+    for (const [index, name] of columnNames.entries()) {
+      const values = sampleData.map((record) => record[name]);
+      const present = values.filter((value) => !isEmptyValue(value));
+      const inference = inferDataType(name, present);
+      columns.push({
+        name,
+        index,
+        dataType: inference.inferredType,
+        nullable: present.length < values.length,
+        uniqueValues: new Set(present.map((value) => JSON.stringify(value))).size,
+        sampleValues: present.slice(0, 5),
+      });
+      dataTypes.push(inference);
+
+      const missing = values.length - present.length;
+      if (missing > 0) {
+        issues.push({
+          type: 'missing_data',
+          column: name,
+          description: `${missing} of ${values.length} values are empty`,
+          severity: missing / values.length > 0.5 ? 'high' : 'medium',
+        });
+      }
+    }
+
+    const seen = new Set<string>();
+    let duplicateRows = 0;
+    let emptyRows = 0;
+    let completeRows = 0;
+    let invalidRows = 0;
+    let goodRows = 0;
+    for (const [row, record] of sampleData.entries()) {
+      const values = columnNames.map((name) => record[name]);
+      const key = JSON.stringify(values);
+      const duplicate = seen.has(key);
+      const empty = values.every(isEmptyValue);
+      const invalid = rowErrors[row]!.length > 0;
+      seen.add(key);
+      duplicateRows += duplicate ? 1 : 0;
+      emptyRows += empty ? 1 : 0;
+      completeRows += values.some(isEmptyValue) ? 0 : 1;
+      invalidRows += invalid ? 1 : 0;
+      goodRows += duplicate || empty || invalid ? 0 : 1;
+
+      for (const error of rowErrors[row]!) {
+        issues.push({
+          type: error.code === 'conversion' ? 'invalid_format' : 'inconsistent',
+          column: error.field,
+          row: row + 1,
+          description: error.message,
+          severity: 'high',
+        });
+      }
+    }
+    if (duplicateRows > 0) {
+      issues.push({
+        type: 'duplicate',
+        description: `${duplicateRows} duplicate rows`,
+        severity: 'low',
+        suggestion: 'Remove duplicate rows from the source',
+      });
+    }
+
     return {
-      sampleSize,
-      columns: ['id', 'name', 'value'],
-      sampleData: [
-        { id: 1, name: 'Sample 1', value: 100 },
-        { id: 2, name: 'Sample 2', value: 200 },
-      ],
+      operationId: nodeId,
+      sampleSize: sampleData.length,
+      totalRecords: records.length,
+      columns,
+      sampleData,
+      dataTypes,
+      quality: {
+        totalRows: sampleData.length,
+        completeRows,
+        emptyRows,
+        duplicateRows,
+        invalidRows,
+        qualityScore:
+          sampleData.length > 0 ? Math.round((goodRows / sampleData.length) * 100) : 100,
+        issues,
+      },
     };
   }
 
+  /**
+   * Preview the node changes a sync operation would apply
+   */
+  async previewSync(nodeId: NodeId): Promise<SyncPlan> {
+    const operation = await this.getOperation(nodeId);
+    return this.requireTreeSync().preview(operation);
+  }
+
   /**
    * Validate operation configuration
    */
-  async validateConfiguration(nodeId: NodeId): Promise<{ isValid: boolean; errors: string[] }> {
-    console.log(`Validating configuration for operation: ${nodeId}`);
-    return {
-      isValid: true,
-      errors: [],
+  async validateConfiguration(nodeId: NodeId): Promise<ValidationResult> {
+    const operation = await this.getOperation(nodeId);
+    const { sourceConfig, targetConfig, transformConfig } = operation;
+    const errors: ValidationError[] = [];
+    const warnings: ValidationWarning[] = [];
+    const suggestions: ValidationSuggestion[] = [];
+    const error = (field: string, code: string, message: string): void => {
+      errors.push({ field, code, message, severity: 'error' });
     };
+
+    if (operation.operationType === 'sync') {
+      if (sourceConfig.sourceLocation?.type !== 'tree' || !sourceConfig.sourceLocation.treeId) {
+        error('sourceConfig.sourceLocation', 'required', 'Source tree is required');
+      }
+      if (targetConfig.targetLocation?.type !== 'tree' || !targetConfig.targetLocation.treeId) {
+        error('targetConfig.targetLocation', 'required', 'Target tree is required');
+      }
+      if (!this.deps.treeSync) {
+        error('operationType', 'unsupported', 'Sync is not available in this environment');
+      }
+      return { isValid: errors.length === 0, errors, warnings, suggestions };
+    }
+
+    if (!['file', 'url'].includes(sourceConfig.sourceType)) {
+      error(
+        'sourceConfig.sourceType',
+        'unsupported',
+        `Unsupported source type: ${sourceConfig.sourceType}`
+      );
+    } else if (sourceConfig.sourceLocation?.type !== sourceConfig.sourceType) {
+      error(
+        'sourceConfig.sourceLocation',
+        'mismatch',
+        `Source location must be a ${sourceConfig.sourceType} location`
+      );
+    } else if (
+      sourceConfig.sourceLocation.type === 'url' &&
+      !URL.canParse(sourceConfig.sourceLocation.url)
+    ) {
+      error('sourceConfig.sourceLocation.url', 'invalid', 'Source URL is not valid');
+    } else if (
+      sourceConfig.sourceLocation.type === 'file' &&
+      !sourceConfig.sourceLocation.filename
+    ) {
+      error('sourceConfig.sourceLocation.filename', 'required', 'Source file is required');
+    }
+    if (!this.formats.canRead(sourceConfig.sourceFormat)) {
+      error(
+        'sourceConfig.sourceFormat',
+        'unsupported',
+        `Unsupported source format: ${sourceConfig.sourceFormat}`
+      );
+    }
+
+    if (targetConfig.targetType === 'file') {
+      if (targetConfig.targetLocation?.type !== 'file' || !targetConfig.targetLocation.filename) {
+        error('targetConfig.targetLocation', 'required', 'Target file name is required');
+      }
+      if (!this.formats.canWrite(targetConfig.targetFormat)) {
+        error(
+          'targetConfig.targetFormat',
+          'unsupported',
+          `Unsupported target format: ${targetConfig.targetFormat}`
+        );
+      }
+      if (targetConfig.targetOptions?.compression === 'zip') {
+        warnings.push({
+          field: 'targetConfig.targetOptions.compression',
+          message: 'ZIP compression is not supported',
+          impact: 'The file is written uncompressed',
+        });
+      }
+    } else if (targetConfig.targetType === 'tree') {
+      if (targetConfig.targetLocation?.type !== 'tree' || !targetConfig.targetLocation.treeId) {
+        error('targetConfig.targetLocation', 'required', 'Target tree is required');
+      }
+    } else {
+      error(
+        'targetConfig.targetType',
+        'unsupported',
+        `Unsupported target type: ${targetConfig.targetType}`
+      );
+    }
+
+    for (const [sourceColumn, config] of Object.entries(
+      sourceConfig.sourceOptions?.columnMapping ?? {}
+    )) {
+      if (!config.targetColumn) {
+        warnings.push({
+          field: `sourceConfig.sourceOptions.columnMapping.${sourceColumn}`,
+          message: 'No target column',
+          impact: `Values are written to ${sourceColumn}`,
+        });
+      }
+    }
+
+    // User-configured expressions must stay within the restricted expression grammar
+    const expressions: Array<[string, unknown, string[]]> = [];
+    for (const [index, rule] of transformConfig.rules.entries()) {
+      if (rule.condition !== undefined) {
+        expressions.push([`transformConfig.rules.${index}.condition`, rule.condition, ['record']]);
+      }
+      if (rule.transformation === 'custom') {
+        expressions.push([
+          `transformConfig.rules.${index}.parameters.expression`,
+          rule.parameters?.expression,
+          ['value', 'record'],
+        ]);
+      }
+    }
+    for (const [index, rule] of transformConfig.validation.entries()) {
+      const field = `transformConfig.validation.${index}.parameters`;
+      if (rule.rule === 'custom') {
+        expressions.push([`${field}.expression`, rule.parameters?.expression, ['value', 'record']]);
+      }
+      if (rule.rule === 'pattern') {
+        try {
+          new RegExp(rule.parameters?.pattern ?? '', rule.parameters?.flags);
+        } catch (cause) {
+          error(`${field}.pattern`, 'invalid-pattern', errorMessage(cause));
+        }
+      }
+    }
+    for (const [field, expression, variables] of expressions) {
+      if (typeof expression !== 'string' || !expression.trim()) {
+        error(field, 'required', 'Expression is required');
+        continue;
+      }
+      try {
+        parseExpression(expression, variables);
+      } catch (cause) {
+        error(field, 'invalid-expression', errorMessage(cause));
+      }
+    }
+
+    if (
+      transformConfig.errorHandling.maxErrors !== undefined &&
+      transformConfig.errorHandling.maxErrors < 0
+    ) {
+      error('transformConfig.errorHandling.maxErrors', 'invalid', 'maxErrors must not be negative');
+    }
+    if (!transformConfig.enabled && transformConfig.rules.length > 0) {
+      suggestions.push({
+        field: 'transformConfig.enabled',
+        suggestion: 'Enable transforms to apply the configured rules',
+        benefit: `${transformConfig.rules.length} transform rules are currently ignored`,
+      });
+    }
+
+    return { isValid: errors.length === 0, errors, warnings, suggestions };
+  }
+
+  private async getOperation(nodeId: NodeId): Promise<ImportExportEntity> {
+    const operation = await this.deps.entityHandler.getEntity(nodeId);
+    if (!operation) {
+      throw new Error(`Import/Export operation not found: ${nodeId}`);
+    }
+    return operation;
+  }
+
+  private requireTreeSync(): TreeSyncService {
+    if (!this.deps.treeSync) {
+      throw new Error('Sync is not available in this environment');
+    }
+    return this.deps.treeSync;
+  }
+
+  /**
+   * Apply a sync as one undo group and store the resulting pairs for the next run
+   */
+  private async syncTrees(
+    nodeId: NodeId,
+    operation: ImportExportEntity,
+    executionId: string,
+    log: (level: LogEntry['level'], message: string, details?: unknown) => void
+  ): Promise<TreeSyncResult> {
+    const sync = await this.requireTreeSync().apply(operation, { groupId: executionId });
+    for (const { change, message } of sync.errors.slice(0, MAX_LOGGED_ERRORS)) {
+      log(
+        'error',
+        `Failed to ${change.action} ${change.path} in the ${change.tree} tree: ${message}`
+      );
+    }
+    const { changes, skipped, unchanged, conflicts } = sync.plan;
+    for (const change of skipped.slice(0, MAX_LOGGED_ERRORS)) {
+      log(
+        'warn',
+        `Skipped creating ${change.path} in the ${change.tree} tree: plugin data is not synced`
+      );
+    }
+    log(
+      'info',
+      `Applied ${sync.applied} of ${changes.length} changes (${skipped.length} skipped, ${unchanged} unchanged, ${conflicts} conflicts)`
+    );
+    await this.deps.entityHandler.updateEntity(nodeId, {
+      syncState: sync.state,
+      schedule: operation.schedule,
+    });
+    return sync;
+  }
+
+  private async reportProgress(
+    nodeId: NodeId,
+    operation: ImportExportEntity,
+    progress: OperationProgress,
+    onProgress?: (progress: OperationProgress) => void
+  ): Promise<void> {
+    await this.deps.entityHandler.updateEntity(nodeId, {
+      status: progress.status,
+      progress,
+      schedule: operation.schedule,
+    });
+    onProgress?.(progress);
+  }
+
+  private async readSource(operation: ImportExportEntity): Promise<DataRecord[]> {
+    const { sourceConfig } = operation;
+    const data = await loadSourceData(sourceConfig, this.deps);
+    return this.formats.parse(data, sourceConfig.sourceFormat, sourceConfig.sourceOptions);
+  }
+
+  /**
+   * Column mapping, then transform rules when transforms are enabled, then validation
+   */
+  private transformRecord(
+    record: DataRecord,
+    operation: ImportExportEntity
+  ): { record: DataRecord; errors: FieldError[] } {
+    const { transformConfig } = operation;
+    const mapping = operation.sourceConfig.sourceOptions?.columnMapping;
+    const errors: FieldError[] = [];
+
+    let current = record;
+    if (mapping && Object.keys(mapping).length > 0) {
+      const mapped = applyColumnMapping(current, mapping);
+      current = mapped.record;
+      errors.push(...mapped.errors);
+    }
+    if (transformConfig.enabled) {
+      const transformed = applyTransformRules(current, transformConfig.rules);
+      current = transformed.record;
+      errors.push(...transformed.errors);
+    }
+    errors.push(...validateRecord(current, transformConfig.validation));
+
+    return { record: current, errors };
+  }
+
+  /**
+   * Transform and validate every record, handling invalid rows per errorHandling
+   * (abort: stop, skip: drop, fix: fall back to column defaults, ignore: keep as is)
+   */
+  private processRecords(
+    records: DataRecord[],
+    operation: ImportExportEntity,
+    log: (level: LogEntry['level'], message: string, details?: unknown) => void
+  ): ProcessedRecords {
+    const { errorHandling, validation } = operation.transformConfig;
+    const mapping = operation.sourceConfig.sourceOptions?.columnMapping ?? {};
+    const result: ProcessedRecords = {
+      records: [],
+      failedRecords: 0,
+      skippedRecords: 0,
+      errorCount: 0,
+    };
+
+    for (const [index, source] of records.entries()) {
+      let { record, errors } = this.transformRecord(source, operation);
+      if (errors.length === 0) {
+        result.records.push(record);
+        continue;
+      }
+
+      result.errorCount++;
+      if (errorHandling.logErrors !== false && result.errorCount <= MAX_LOGGED_ERRORS) {
+        log('warn', `Row ${index + 1}: ${errors.map((error) => error.message).join('; ')}`, errors);
+      }
+      if (errorHandling.maxErrors !== undefined && result.errorCount > errorHandling.maxErrors) {
+        result.failedRecords++;
+        result.aborted = `Aborted after ${result.errorCount} invalid rows (maxErrors: ${errorHandling.maxErrors})`;
+        return result;
+      }
+
+      switch (errorHandling.strategy) {
+        case 'abort':
+          result.failedRecords++;
+          result.aborted = `Aborted at row ${index + 1}: ${errors[0]!.message}`;
+          return result;
+
+        case 'fix': {
+          const fixed = { ...record };
+          for (const { field } of errors) {
+            const column = Object.values(mapping).find((config) => config.targetColumn === field);
+            if (column?.defaultValue !== undefined) {
+              fixed[field] = column.defaultValue;
+            } else {
+              delete fixed[field];
+            }
+          }
+          record = fixed;
+          errors = validateRecord(record, validation);
+          if (errors.length > 0 && errorHandling.skipInvalidRows !== false) {
+            result.skippedRecords++;
+          } else {
+            result.records.push(record);
+          }
+          break;
+        }
+
+        case 'ignore':
+          result.records.push(record);
+          break;
+
+        case 'skip':
+        default:
+          result.skippedRecords++;
+          break;
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Write records to a file or as child nodes of a tree node
+   */
+  private async writeTarget(
+    records: DataRecord[],
+    operation: ImportExportEntity,
+    log: (level: LogEntry['level'], message: string, details?: unknown) => void
+  ): Promise<{ resultLocation?: string; failedRecords: number }> {
+    const { targetConfig } = operation;
+    const location = targetConfig.targetLocation;
+
+    switch (targetConfig.targetType) {
+      case 'file': {
+        if (location?.type !== 'file') {
+          throw new Error('File target requires a file location');
+        }
+        if (!this.deps.writeFile) {
+          throw new Error('File targets are not available in this environment');
+        }
+        let blob = await this.formats.serialize(
+          records,
+          targetConfig.targetFormat,
+          targetConfig.targetOptions
+        );
+        let filename = location.filename;
+        if (targetConfig.targetOptions?.compression === 'gzip') {
+          blob = await new Response(
+            blob.stream().pipeThrough(new CompressionStream('gzip'))
+          ).blob();
+          filename = filename.endsWith('.gz') ? filename : `${filename}.gz`;
+        } else if (targetConfig.targetOptions?.compression === 'zip') {
+          log('warn', 'ZIP compression is not supported; wrote the file uncompressed');
+        }
+        const resultLocation = await this.deps.writeFile(filename, blob);
+        log('info', `Wrote ${records.length} records to ${resultLocation}`);
+        return { resultLocation, failedRecords: 0 };
+      }
+
+      case 'tree': {
+        if (location?.type !== 'tree') {
+          throw new Error('Tree target requires a tree location');
+        }
+        if (!this.deps.mutationAPI) {
+          throw new Error('Tree targets are not available in this environment');
+        }
+        // Each record becomes a child node; name/description columns become the node's
+        const parentId = location.nodeFilter?.parentId ?? NodeIdGenerator.rootNode(location.treeId);
+        const nodeType = location.nodeFilter?.nodeTypes?.[0] ?? 'folder';
+        let failedRecords = 0;
+        for (const [index, record] of records.entries()) {
+          const result = await this.deps.mutationAPI.createNode({
+            nodeType,
+            treeId: location.treeId as TreeId,
+            parentId,
+            name: isEmptyValue(record.name) ? `Record ${index + 1}` : String(record.name),
+            ...(typeof record.description === 'string' && { description: record.description }),
+          });
+          if (!result.success) {
+            failedRecords++;
+            if (failedRecords <= MAX_LOGGED_ERRORS) {
+              log('error', `Row ${index + 1}: ${result.error}`);
+            }
+          }
+        }
+        log('info', `Created ${records.length - failedRecords} nodes under ${parentId}`);
+        return { resultLocation: `tree:${location.treeId}/${parentId}`, failedRecords };
+      }
+
+      default:
+        throw new Error(`Unsupported target type: ${targetConfig.targetType}`);
+    }
+  }
+}
+
+/**
+ * Infer a column type from its non-empty values
+ */
+function inferDataType(column: string, values: unknown[]): DataTypeInference {
+  const counts = new Map<string, number>();
+  let numericText = false;
+  for (const value of values) {
+    const type = classify(value);
+    counts.set(type, (counts.get(type) ?? 0) + 1);
+    numericText ||= type === 'number' && typeof value === 'string';
+  }
+
+  const [inferredType, count] = [...counts].sort((a, b) => b[1] - a[1])[0] ?? ['string', 0];
+  const suggestedTransformation =
+    inferredType === 'number' && numericText
+      ? 'parseNumber'
+      : inferredType === 'date'
+        ? 'parseDate'
+        : undefined;
+  return {
+    column,
+    inferredType,
+    confidence: values.length > 0 ? count / values.length : 0,
+    ...(suggestedTransformation && { suggestedTransformation }),
+  };
+}
+
+function classify(value: unknown): string {
+  if (typeof value === 'number') {
+    return 'number';
+  }
+  if (typeof value === 'boolean') {
+    return 'boolean';
+  }
+  if (typeof value === 'object') {
+    return 'json';
+  }
+  const text = String(value).trim();
+  if (/^-?[\d,]*\.?\d+(e[-+]?\d+)?$/i.test(text)) {
+    return 'number';
+  }
+  if (/^(true|false)$/i.test(text)) {
+    return 'boolean';
+  }
+  if (/^\d{4}-\d{2}-\d{2}/.test(text) && !Number.isNaN(Date.parse(text))) {
+    return 'date';
   }
-}
\ No newline at end of file
+  return 'string';
+}
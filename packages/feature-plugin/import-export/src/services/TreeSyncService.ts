@@ -0,0 +1,212 @@
+/**
+ * Tree Sync Service
+ * Syncs the subtree under an operation's source tree location with the one under its target location
+ */
+
+import {
+  NodeIdGenerator,
+  type CommandScope,
+  type NodeId,
+  type TreeId,
+} from '@hierarchidb/common-core';
+import type { TreeMutationAPI, TreeQueryAPI } from '@hierarchidb/common-api';
+import type { SyncChange, SyncPlan } from '../types/ImportExportAPI';
+import type { ImportExportEntity, SyncState, TreeLocation } from '../types/ImportExportEntity';
+import { errorMessage } from '../pipeline/transforms';
+import { planSync, type SyncSide } from '../sync/plan';
+
+/**
+ * Host services the subtrees are read from and changed through
+ */
+export interface TreeSyncServiceDeps {
+  queryAPI: Pick<TreeQueryAPI, 'listDescendants'>;
+  mutationAPI: Pick<
+    TreeMutationAPI,
+    'createNode' | 'updateNode' | 'moveNodes' | 'moveNodesToTrash'
+  >;
+  // Whether a node type keeps plugin data (a PeerEntity) that a bare createNode would not copy
+  hasEntity: (nodeType: string) => boolean;
+}
+
+/**
+ * Outcome of applying a sync plan
+ * state holds the pairs to store on the operation for the next run
+ */
+export interface TreeSyncResult {
+  plan: SyncPlan;
+  applied: number;
+  errors: Array<{ change: SyncChange; message: string }>;
+  state: SyncState;
+  resultLocation: string;
+}
+
+interface SyncLocations {
+  source: TreeLocation;
+  target: TreeLocation;
+}
+
+export class TreeSyncService {
+  constructor(private deps: TreeSyncServiceDeps) {}
+
+  /**
+   * The changes a run would apply, without applying them
+   */
+  async preview(operation: ImportExportEntity): Promise<SyncPlan> {
+    const locations = syncLocations(operation);
+    const [source, target] = await Promise.all([
+      this.loadSide(locations.source),
+      this.loadSide(locations.target),
+    ]);
+    return this.plan(operation, source, target);
+  }
+
+  /**
+   * Apply the current plan: creates, then updates, moves and trashes
+   * A change that fails is reported and skipped; the rest are still applied
+   * Pass a scope with a groupId to undo the whole run as one unit
+   */
+  async apply(operation: ImportExportEntity, scope?: CommandScope): Promise<TreeSyncResult> {
+    const locations = syncLocations(operation);
+    const plan = await this.preview(operation);
+    const counterpart = {
+      source: new Map(plan.pairs.map(([sourceId, targetId]) => [sourceId, targetId])),
+      target: new Map(plan.pairs.map(([sourceId, targetId]) => [targetId, sourceId])),
+    };
+    // Counterpart of a node on the other side, for the side being changed
+    const resolve = (tree: SyncChange['tree'], otherId: NodeId): NodeId => {
+      const id = (tree === 'target' ? counterpart.source : counterpart.target).get(otherId);
+      if (!id) {
+        throw new Error(`Parent ${otherId} has no counterpart in the ${tree} tree`);
+      }
+      return id;
+    };
+
+    let applied = 0;
+    const errors: TreeSyncResult['errors'] = [];
+    for (const change of plan.changes) {
+      try {
+        const createdId = await this.applyChange(change, locations, resolve, scope);
+        if (createdId) {
+          // Children created later resolve their parent through this pair
+          const [sourceId, targetId] =
+            change.tree === 'target'
+              ? [change.counterpartId!, createdId]
+              : [createdId, change.counterpartId!];
+          counterpart.source.set(sourceId, targetId);
+          counterpart.target.set(targetId, sourceId);
+        }
+        applied++;
+      } catch (error) {
+        errors.push({ change, message: errorMessage(error) });
+      }
+    }
+
+    // Record the pairs with the versions and parents they have now
+    const [source, target] = await Promise.all([
+      this.loadSide(locations.source),
+      this.loadSide(locations.target),
+    ]);
+    const targetNodes = new Map(target.nodes.map((node) => [node.id, node]));
+    const state: SyncState = { lastSyncedAt: Date.now(), pairs: [] };
+    for (const sourceNode of source.nodes) {
+      const targetId = counterpart.source.get(sourceNode.id);
+      const targetNode = targetId && targetNodes.get(targetId);
+      if (targetNode) {
+        state.pairs.push({
+          sourceId: sourceNode.id,
+          targetId: targetNode.id,
+          sourceVersion: sourceNode.version,
+          targetVersion: targetNode.version,
+          sourceParentId: sourceNode.parentId,
+          targetParentId: targetNode.parentId,
+        });
+      }
+    }
+
+    return {
+      plan,
+      applied,
+      errors,
+      state,
+      resultLocation: `tree:${locations.target.treeId}/${target.rootId}`,
+    };
+  }
+
+  private plan(operation: ImportExportEntity, source: SyncSide, target: SyncSide): SyncPlan {
+    return {
+      operationId: operation.nodeId,
+      ...planSync(
+        source,
+        target,
+        operation.syncConfig ?? { direction: 'one-way' },
+        this.deps.hasEntity,
+        operation.syncState
+      ),
+    };
+  }
+
+  /**
+   * The whole subtree below the location's parent node (the tree root by default)
+   * maxDepth is not applied: a node moved out of range would look removed and be trashed
+   */
+  private async loadSide(location: TreeLocation): Promise<SyncSide> {
+    const rootId = location.nodeFilter?.parentId ?? NodeIdGenerator.rootNode(location.treeId);
+    return { rootId, nodes: await this.deps.queryAPI.listDescendants(rootId) };
+  }
+
+  private async applyChange(
+    change: SyncChange,
+    locations: SyncLocations,
+    resolve: (tree: SyncChange['tree'], otherId: NodeId) => NodeId,
+    scope?: CommandScope
+  ): Promise<NodeId | undefined> {
+    const { mutationAPI } = this.deps;
+    let result: { success: boolean; error?: string };
+    switch (change.action) {
+      case 'create': {
+        const created = await mutationAPI.createNode(
+          {
+            nodeType: change.nodeType!,
+            treeId: locations[change.tree].treeId as TreeId,
+            parentId: resolve(change.tree, change.parentId!),
+            name: change.name,
+            ...(change.description !== undefined && { description: change.description }),
+          },
+          scope
+        );
+        if (!created.success) {
+          throw new Error(created.error);
+        }
+        return created.nodeId;
+      }
+      case 'update':
+        result = await mutationAPI.updateNode(
+          { nodeId: change.nodeId!, name: change.name, description: change.description ?? '' },
+          scope
+        );
+        break;
+      case 'move':
+        result = await mutationAPI.moveNodes(
+          { nodeIds: [change.nodeId!], toParentId: resolve(change.tree, change.parentId!) },
+          scope
+        );
+        break;
+      case 'trash':
+        result = await mutationAPI.moveNodesToTrash([change.nodeId!], scope);
+        break;
+    }
+    if (!result.success) {
+      throw new Error(result.error ?? `Failed to ${change.action} ${change.path}`);
+    }
+    return undefined;
+  }
+}
+
+function syncLocations(operation: ImportExportEntity): SyncLocations {
+  const source = operation.sourceConfig.sourceLocation;
+  const target = operation.targetConfig.targetLocation;
+  if (source?.type !== 'tree' || target?.type !== 'tree') {
+    throw new Error('Sync requires tree source and target locations');
+  }
+  return { source, target };
+}
@@ -0,0 +1,178 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { EntityId, NodeId } from '@hierarchidb/common-core';
+import {
+  DEFAULT_PROGRESS,
+  DEFAULT_SOURCE_CONFIG,
+  DEFAULT_TARGET_CONFIG,
+  DEFAULT_TRANSFORM_CONFIG,
+  type ImportExportEntity,
+  type ScheduleConfiguration,
+} from '../../types/ImportExportEntity';
+import type { ExecuteOperationOptions } from '../ImportExportService';
+import { ImportExportScheduler, type ScheduledRunEvent } from '../ImportExportScheduler';
+
+const nodeId = 'operation-1' as NodeId;
+const HOUR = 60 * 60 * 1000;
+const START = Date.parse('2026-05-01T12:00:00Z');
+
+const hourly: ScheduleConfiguration = {
+  enabled: true,
+  scheduleType: 'cron',
+  cronExpression: '0 * * * *',
+  timezone: 'UTC',
+};
+
+function createOperation(overrides: Partial<ImportExportEntity> = {}): ImportExportEntity {
+  return {
+    id: 'entity-1' as EntityId,
+    nodeId,
+    name: 'Nightly',
+    description: '',
+    operationType: 'import',
+    sourceConfig: { ...DEFAULT_SOURCE_CONFIG },
+    targetConfig: { ...DEFAULT_TARGET_CONFIG },
+    transformConfig: { ...DEFAULT_TRANSFORM_CONFIG },
+    status: 'ready',
+    progress: { ...DEFAULT_PROGRESS },
+    executionHistory: [],
+    schedule: hourly,
+    createdAt: START,
+    updatedAt: START,
+    version: 1,
+    ...overrides,
+  };
+}
+
+describe('ImportExportScheduler', () => {
+  let operations: Map<NodeId, ImportExportEntity>;
+  let executeOperation: ReturnType<typeof vi.fn>;
+  let events: ScheduledRunEvent[];
+  let scheduler: ImportExportScheduler;
+
+  const createScheduler = (catchUpMissedRuns?: boolean): ImportExportScheduler => {
+    const instance = new ImportExportScheduler({
+      entityHandler: {
+        getScheduledOperations: async () => [...operations.values()],
+        getEntity: async (id) => operations.get(id),
+        updateEntity: async (id, data) => {
+          operations.set(id, { ...operations.get(id)!, ...data });
+        },
+      },
+      service: { executeOperation },
+      catchUpMissedRuns,
+    });
+    instance.subscribe((event) => events.push(event));
+    return instance;
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: START });
+    events = [];
+    operations = new Map([[nodeId, createOperation()]]);
+    // Stands in for ImportExportService: reports progress and records the run
+    executeOperation = vi.fn(async (id: NodeId, options: ExecuteOperationOptions = {}) => {
+      options.onProgress?.({ ...DEFAULT_PROGRESS, status: 'running', percentage: 50 });
+      const operation = operations.get(id)!;
+      const record = {
+        id: `execution-${Date.now()}`,
+        startTime: Date.now(),
+        status: 'completed' as const,
+        processedRecords: 1,
+        errorCount: 0,
+        logs: [],
+        scheduledTime: options.scheduledTime,
+      };
+      operations.set(id, {
+        ...operation,
+        status: 'completed',
+        executionHistory: [...operation.executionHistory, record],
+      });
+      return record.id;
+    });
+    scheduler = createScheduler();
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  it('runs on each cron slot and reports progress to subscribers', async () => {
+    await scheduler.start();
+    expect(operations.get(nodeId)!.status).toBe('scheduled');
+    expect(scheduler.getNextRunTime(nodeId)).toBe(START + HOUR);
+
+    await vi.advanceTimersByTimeAsync(2 * HOUR);
+
+    expect(executeOperation.mock.calls.map(([, options]) => options.scheduledTime)).toEqual([
+      START + HOUR,
+      START + 2 * HOUR,
+    ]);
+    expect(operations.get(nodeId)!.executionHistory.map((record) => record.scheduledTime)).toEqual([
+      START + HOUR,
+      START + 2 * HOUR,
+    ]);
+    expect(events.filter((event) => event.type !== 'scheduled').map((event) => event.type)).toEqual(
+      ['started', 'progress', 'finished', 'started', 'progress', 'finished']
+    );
+    expect(operations.get(nodeId)!.status).toBe('scheduled');
+  });
+
+  it('catches up missed runs once on start unless the schedule opts out', async () => {
+    // The app was closed for five hours since the last run
+    operations.set(
+      nodeId,
+      createOperation({
+        createdAt: START - 10 * HOUR,
+        executionHistory: [
+          {
+            id: 'old',
+            startTime: START - 5 * HOUR,
+            status: 'completed',
+            processedRecords: 0,
+            errorCount: 0,
+            logs: [],
+          },
+        ],
+      })
+    );
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(executeOperation).toHaveBeenCalledTimes(1);
+    expect(executeOperation.mock.calls[0]![1].scheduledTime).toBe(START - 4 * HOUR);
+    expect(events).toContainEqual({
+      type: 'started',
+      nodeId,
+      scheduledTime: START - 4 * HOUR,
+      catchUp: true,
+    });
+    expect(scheduler.getNextRunTime(nodeId)).toBe(START + HOUR);
+
+    scheduler.stop();
+    executeOperation.mockClear();
+    operations.set(
+      nodeId,
+      createOperation({
+        createdAt: START - 10 * HOUR,
+        schedule: { ...hourly, catchUpMissedRuns: false },
+      })
+    );
+    scheduler = createScheduler(true);
+    await scheduler.start();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(executeOperation).not.toHaveBeenCalled();
+  });
+
+  it('disarms operations whose schedule was turned off', async () => {
+    await scheduler.start();
+    operations.set(nodeId, { ...operations.get(nodeId)!, schedule: { ...hourly, enabled: false } });
+
+    await scheduler.refresh(nodeId);
+    await vi.advanceTimersByTimeAsync(2 * HOUR);
+
+    expect(executeOperation).not.toHaveBeenCalled();
+    expect(scheduler.getNextRunTime(nodeId)).toBeUndefined();
+    expect(operations.get(nodeId)!.status).toBe('ready');
+  });
+});
@@ -0,0 +1,239 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { EntityId, NodeId } from '@hierarchidb/common-core';
+import {
+  DEFAULT_PROGRESS,
+  DEFAULT_TRANSFORM_CONFIG,
+  type ImportExportEntity,
+} from '../../types/ImportExportEntity';
+import { ImportExportService, type ImportExportServiceDeps } from '../ImportExportService';
+
+const nodeId = 'operation-1' as NodeId;
+
+const CSV = [
+  'Population by city',
+  'city,population,email',
+  'tokyo,"13,960,000",info@tokyo.jp',
+  'osaka,abc,info@osaka.jp',
+  ',2750000,nobody',
+].join('\n');
+
+function createOperation(overrides: Partial<ImportExportEntity> = {}): ImportExportEntity {
+  return {
+    id: 'entity-1' as EntityId,
+    nodeId,
+    name: 'Cities',
+    description: '',
+    operationType: 'import',
+    sourceConfig: {
+      sourceType: 'file',
+      sourceFormat: 'csv',
+      sourceLocation: { type: 'file', filename: 'cities.csv' },
+      sourceOptions: {
+        skipRows: 1,
+        columnMapping: {
+          city: { targetColumn: 'name', dataType: 'string', required: true },
+          population: { targetColumn: 'population', dataType: 'number' },
+          email: { targetColumn: 'email', dataType: 'string' },
+        },
+      },
+    },
+    targetConfig: {
+      targetType: 'file',
+      targetFormat: 'json',
+      targetLocation: { type: 'file', filename: 'cities.json' },
+      targetOptions: {},
+    },
+    transformConfig: {
+      ...DEFAULT_TRANSFORM_CONFIG,
+      enabled: true,
+      rules: [{ id: 'upper', name: 'Uppercase names', field: 'name', transformation: 'uppercase' }],
+      validation: [{ id: 'email', name: 'Email', field: 'email', rule: 'email' }],
+    },
+    status: 'ready',
+    progress: { ...DEFAULT_PROGRESS },
+    executionHistory: [],
+    createdAt: 1,
+    updatedAt: 1,
+    version: 1,
+    ...overrides,
+  };
+}
+
+describe('ImportExportService', () => {
+  let operations: Map<NodeId, ImportExportEntity>;
+  let written: Map<string, Blob>;
+  let deps: ImportExportServiceDeps;
+  let service: ImportExportService;
+
+  beforeEach(() => {
+    operations = new Map([[nodeId, createOperation()]]);
+    written = new Map();
+    deps = {
+      entityHandler: {
+        getEntity: async (id) => operations.get(id),
+        updateEntity: async (id, data) => {
+          operations.set(id, { ...operations.get(id)!, ...data });
+        },
+      },
+      resolveFile: async (location) =>
+        location.filename === 'cities.csv' ? new Blob([CSV]) : undefined,
+      writeFile: async (filename, blob) => {
+        written.set(filename, blob);
+        return `downloads/${filename}`;
+      },
+    };
+    service = new ImportExportService(deps);
+  });
+
+  it('maps, transforms and validates rows, skips invalid ones and records the run', async () => {
+    const executionId = await service.executeOperation(nodeId);
+
+    expect(JSON.parse(await written.get('cities.json')!.text())).toEqual([
+      { name: 'TOKYO', population: 13960000, email: 'info@tokyo.jp' },
+    ]);
+
+    const operation = operations.get(nodeId)!;
+    expect(operation.status).toBe('completed');
+    expect(operation.progress).toMatchObject({ status: 'completed', percentage: 100 });
+    expect(operation.executionHistory).toHaveLength(1);
+    const [record] = operation.executionHistory;
+    expect(record).toMatchObject({
+      id: executionId,
+      status: 'completed',
+      processedRecords: 3,
+      errorCount: 2,
+      resultSummary: {
+        totalRecords: 3,
+        successfulRecords: 1,
+        failedRecords: 0,
+        skippedRecords: 2,
+        resultLocation: 'downloads/cities.json',
+      },
+    });
+    expect(record!.logs.filter((log) => log.level === 'warn').map((log) => log.message)).toEqual([
+      'Row 2: population: Not a number: abc',
+      'Row 3: name is required; email is not a valid email address',
+    ]);
+  });
+
+  it('stops without writing when the abort strategy meets an invalid row', async () => {
+    const operation = createOperation();
+    operation.transformConfig.errorHandling = { strategy: 'abort' };
+    operations.set(nodeId, operation);
+
+    await service.executeOperation(nodeId);
+
+    expect(written.size).toBe(0);
+    const [record] = operations.get(nodeId)!.executionHistory;
+    expect(record).toMatchObject({ status: 'failed', resultSummary: { failedRecords: 1 } });
+    expect(record!.logs.at(-1)).toMatchObject({
+      level: 'error',
+      message: 'Aborted at row 2: population: Not a number: abc',
+    });
+  });
+
+  it('reads GeoJSON from a URL and creates a node per feature in the target tree', async () => {
+    const fetchMock = vi.fn(
+      async () =>
+        new Response(
+          JSON.stringify({
+            type: 'FeatureCollection',
+            features: [
+              { type: 'Feature', properties: { name: 'Kyoto' }, geometry: null },
+              { type: 'Feature', properties: { name: 'Nara' }, geometry: null },
+            ],
+          })
+        )
+    );
+    const createNode = vi.fn(async () => ({ success: true as const, nodeId: 'n' as NodeId }));
+    service = new ImportExportService({ ...deps, fetch: fetchMock, mutationAPI: { createNode } });
+    operations.set(
+      nodeId,
+      createOperation({
+        sourceConfig: {
+          sourceType: 'url',
+          sourceFormat: 'geojson',
+          sourceLocation: { type: 'url', url: 'https://example.com/cities.geojson' },
+          sourceOptions: {},
+          authentication: { authType: 'bearer', credentials: { type: 'bearer', token: 'secret' } },
+        },
+        targetConfig: {
+          targetType: 'tree',
+          targetFormat: 'hierarchidb',
+          targetLocation: {
+            type: 'tree',
+            treeId: 'r',
+            nodeFilter: { parentId: 'places' as NodeId },
+          },
+          targetOptions: {},
+        },
+        transformConfig: { ...DEFAULT_TRANSFORM_CONFIG },
+      })
+    );
+
+    await service.executeOperation(nodeId);
+
+    expect(fetchMock).toHaveBeenCalledWith('https://example.com/cities.geojson', {
+      method: 'GET',
+      headers: { Authorization: 'Bearer secret' },
+    });
+    expect(createNode.mock.calls.map(([params]) => params)).toEqual([
+      { nodeType: 'folder', treeId: 'r', parentId: 'places', name: 'Kyoto' },
+      { nodeType: 'folder', treeId: 'r', parentId: 'places', name: 'Nara' },
+    ]);
+    expect(operations.get(nodeId)!.executionHistory[0]).toMatchObject({
+      status: 'completed',
+      resultSummary: { successfulRecords: 2, resultLocation: 'tree:r/places' },
+    });
+  });
+
+  it('previews the transformed sample with inferred types and quality issues', async () => {
+    const preview = await service.previewData(nodeId, 10);
+
+    expect(preview).toMatchObject({ sampleSize: 3, totalRecords: 3 });
+    expect(preview.sampleData[0]).toEqual({
+      name: 'TOKYO',
+      population: 13960000,
+      email: 'info@tokyo.jp',
+    });
+    expect(
+      preview.columns.map(({ name, dataType, nullable }) => ({ name, dataType, nullable }))
+    ).toEqual([
+      { name: 'name', dataType: 'string', nullable: true },
+      { name: 'population', dataType: 'number', nullable: false },
+      { name: 'email', dataType: 'string', nullable: false },
+    ]);
+    expect(preview.quality).toMatchObject({ totalRows: 3, invalidRows: 2, qualityScore: 33 });
+  });
+
+  it('reports configuration problems', async () => {
+    const operation = createOperation();
+    operation.sourceConfig.sourceFormat = 'sql';
+    operation.targetConfig.targetLocation = { type: 'file', filename: '' };
+    operation.transformConfig.rules.push({
+      id: 'broken',
+      name: 'Broken',
+      field: 'name',
+      transformation: 'trim',
+      condition: 'record.name ===',
+    });
+    operation.transformConfig.validation.push({
+      id: 'script',
+      name: 'Script',
+      field: 'name',
+      rule: 'custom',
+      parameters: { expression: "fetch('https://example.com/' + value)" },
+    });
+    operations.set(nodeId, operation);
+
+    const result = await service.validateConfiguration(nodeId);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors.map((error) => error.field)).toEqual([
+      'sourceConfig.sourceFormat',
+      'targetConfig.targetLocation',
+      'transformConfig.rules.1.condition',
+      'transformConfig.validation.1.parameters.expression',
+    ]);
+  });
+});
@@ -0,0 +1,281 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { EntityId, NodeId, TreeNode } from '@hierarchidb/common-core';
+import {
+  DEFAULT_PROGRESS,
+  DEFAULT_TRANSFORM_CONFIG,
+  type ImportExportEntity,
+  type SyncConfiguration,
+} from '../../types/ImportExportEntity';
+import { ImportExportService } from '../ImportExportService';
+import { TreeSyncService, type TreeSyncServiceDeps } from '../TreeSyncService';
+
+const nodeId = 'operation-1' as NodeId;
+const sourceRoot = 'source-root' as NodeId;
+const targetRoot = 'target-root' as NodeId;
+
+/**
+ * In-memory nodes of both trees; trashed nodes are dropped
+ */
+function createForest(): { nodes: Map<NodeId, TreeNode>; deps: TreeSyncServiceDeps } {
+  const nodes = new Map<NodeId, TreeNode>();
+  let nextId = 0;
+  let now = 100;
+  const touch = (id: NodeId, changes: Partial<TreeNode>): void => {
+    const node = nodes.get(id)!;
+    nodes.set(id, { ...node, ...changes, version: node.version + 1, updatedAt: ++now });
+  };
+  const descendants = (id: NodeId): TreeNode[] =>
+    [...nodes.values()]
+      .filter((node) => node.parentId === id)
+      .flatMap((node) => [node, ...descendants(node.id)]);
+
+  return {
+    nodes,
+    deps: {
+      queryAPI: { listDescendants: async (id) => descendants(id) },
+      mutationAPI: {
+        createNode: async ({ nodeType, parentId, name, description }) => {
+          if (!nodes.has(parentId) && parentId !== sourceRoot && parentId !== targetRoot) {
+            return { success: false, error: `Parent not found: ${parentId}` };
+          }
+          const id = `created-${++nextId}` as NodeId;
+          nodes.set(id, {
+            id,
+            parentId,
+            nodeType,
+            name,
+            ...(description !== undefined && { description }),
+            createdAt: ++now,
+            updatedAt: now,
+            version: 1,
+          });
+          return { success: true, nodeId: id };
+        },
+        updateNode: async ({ nodeId: id, ...changes }) => {
+          touch(id, changes);
+          return { success: true };
+        },
+        moveNodes: async ({ nodeIds, toParentId }) => {
+          nodeIds.forEach((id) => touch(id, { parentId: toParentId }));
+          return { success: true };
+        },
+        moveNodesToTrash: async (nodeIds) => {
+          for (const id of nodeIds) {
+            descendants(id).forEach((node) => nodes.delete(node.id));
+            nodes.delete(id);
+          }
+          return { success: true };
+        },
+      },
+      // No node type in the forest keeps plugin data
+      hasEntity: () => false,
+    },
+  };
+}
+
+function addNode(
+  nodes: Map<NodeId, TreeNode>,
+  id: string,
+  parentId: NodeId,
+  name: string,
+  nodeType = 'folder'
+): void {
+  nodes.set(id as NodeId, {
+    id: id as NodeId,
+    parentId,
+    nodeType,
+    name,
+    createdAt: 1,
+    updatedAt: 1,
+    version: 1,
+  });
+}
+
+function createOperation(syncConfig: SyncConfiguration): ImportExportEntity {
+  return {
+    id: 'entity-1' as EntityId,
+    nodeId,
+    name: 'Mirror',
+    description: '',
+    operationType: 'sync',
+    sourceConfig: {
+      sourceType: 'tree',
+      sourceFormat: 'hierarchidb',
+      sourceLocation: { type: 'tree', treeId: 'tree-a', nodeFilter: { parentId: sourceRoot } },
+      sourceOptions: {},
+    },
+    targetConfig: {
+      targetType: 'tree',
+      targetFormat: 'hierarchidb',
+      targetLocation: { type: 'tree', treeId: 'tree-b', nodeFilter: { parentId: targetRoot } },
+      targetOptions: {},
+    },
+    transformConfig: { ...DEFAULT_TRANSFORM_CONFIG },
+    syncConfig,
+    status: 'ready',
+    progress: { ...DEFAULT_PROGRESS },
+    executionHistory: [],
+    createdAt: 1,
+    updatedAt: 1,
+    version: 1,
+  };
+}
+
+function namesUnder(nodes: Map<NodeId, TreeNode>, parentId: NodeId): string[] {
+  return [...nodes.values()]
+    .filter((node) => node.parentId === parentId)
+    .map((node) => node.name)
+    .sort();
+}
+
+function childNamed(nodes: Map<NodeId, TreeNode>, parentId: NodeId, name: string): TreeNode {
+  return [...nodes.values()].find((node) => node.parentId === parentId && node.name === name)!;
+}
+
+describe('TreeSyncService', () => {
+  let nodes: Map<NodeId, TreeNode>;
+  let sync: TreeSyncService;
+  let operation: ImportExportEntity;
+
+  // Apply and keep the pairs for the next run, as ImportExportService does
+  const run = async (): Promise<void> => {
+    const result = await sync.apply(operation);
+    expect(result.errors).toEqual([]);
+    operation = { ...operation, syncState: result.state };
+  };
+
+  beforeEach(() => {
+    const forest = createForest();
+    nodes = forest.nodes;
+    sync = new TreeSyncService(forest.deps);
+    operation = createOperation({ direction: 'one-way' });
+    addNode(nodes, 'docs', sourceRoot, 'Docs');
+    addNode(nodes, 'guide', 'docs' as NodeId, 'Guide', 'page');
+    addNode(nodes, 'notes', sourceRoot, 'Notes', 'page');
+  });
+
+  it('previews creates for a new target without changing it', async () => {
+    const plan = await sync.preview(operation);
+
+    expect(plan.changes.map(({ action, tree, path }) => [action, tree, path])).toEqual([
+      ['create', 'target', 'Docs'],
+      ['create', 'target', 'Docs/Guide'],
+      ['create', 'target', 'Notes'],
+    ]);
+    expect(namesUnder(nodes, targetRoot)).toEqual([]);
+  });
+
+  it('copies the subtree and finds nothing to do on a rerun', async () => {
+    await run();
+
+    expect(namesUnder(nodes, targetRoot)).toEqual(['Docs', 'Notes']);
+    const docs = childNamed(nodes, targetRoot, 'Docs');
+    expect(namesUnder(nodes, docs.id)).toEqual(['Guide']);
+    expect(childNamed(nodes, docs.id, 'Guide').nodeType).toBe('page');
+
+    const plan = await sync.preview(operation);
+    expect(plan.changes).toEqual([]);
+    expect(plan.unchanged).toBe(3);
+  });
+
+  it('matches existing target nodes by name and type on the first run', async () => {
+    addNode(nodes, 'existing-docs', targetRoot, 'Docs');
+
+    const plan = await sync.preview(operation);
+
+    expect(plan.pairs).toContainEqual(['docs', 'existing-docs']);
+    expect(plan.changes.map(({ action, path }) => `${action} ${path}`)).toEqual([
+      'create Docs/Guide',
+      'create Notes',
+    ]);
+  });
+
+  it('propagates renames, moves and removals from the source', async () => {
+    await run();
+    const targetDocs = childNamed(nodes, targetRoot, 'Docs');
+    const targetGuide = childNamed(nodes, targetDocs.id, 'Guide');
+
+    const guide = nodes.get('guide' as NodeId)!;
+    nodes.set(guide.id, { ...guide, name: 'Handbook', parentId: sourceRoot, version: 2 });
+    nodes.delete('notes' as NodeId);
+
+    const plan = await sync.preview(operation);
+    expect(plan.changes.map(({ action, path }) => `${action} ${path}`)).toEqual([
+      'update Handbook',
+      'move Handbook',
+      'trash Notes',
+    ]);
+
+    await run();
+    expect(namesUnder(nodes, targetRoot)).toEqual(['Docs', 'Handbook']);
+    expect(nodes.get(targetGuide.id)?.parentId).toBe(targetRoot);
+    expect((await sync.preview(operation)).changes).toEqual([]);
+  });
+
+  it('syncs both ways and resolves concurrent edits by the configured side', async () => {
+    operation = createOperation({ direction: 'bidirectional', conflictResolution: 'target-wins' });
+    await run();
+    const targetNotes = childNamed(nodes, targetRoot, 'Notes');
+    const targetDocs = childNamed(nodes, targetRoot, 'Docs');
+
+    addNode(nodes, 'todo', targetDocs.id, 'Todo', 'page');
+    const notes = nodes.get('notes' as NodeId)!;
+    nodes.set(notes.id, { ...notes, name: 'Source notes', version: 2 });
+    nodes.set(targetNotes.id, { ...targetNotes, name: 'Target notes', version: 2 });
+
+    const plan = await sync.preview(operation);
+    expect(plan.conflicts).toBe(1);
+    expect(plan.changes).toContainEqual(
+      expect.objectContaining({ action: 'create', tree: 'source', path: 'Docs/Todo' })
+    );
+    expect(plan.changes).toContainEqual(
+      expect.objectContaining({ action: 'update', tree: 'source', name: 'Target notes' })
+    );
+
+    await run();
+    expect(namesUnder(nodes, 'docs' as NodeId)).toEqual(['Guide', 'Todo']);
+    expect(nodes.get('notes' as NodeId)?.name).toBe('Target notes');
+    expect((await sync.preview(operation)).changes).toEqual([]);
+  });
+
+  it('skips creating nodes with plugin data and their descendants', async () => {
+    const forest = createForest();
+    sync = new TreeSyncService({ ...forest.deps, hasEntity: (nodeType) => nodeType === 'page' });
+    nodes = forest.nodes;
+    addNode(nodes, 'docs', sourceRoot, 'Docs');
+    addNode(nodes, 'guide', 'docs' as NodeId, 'Guide', 'page');
+    addNode(nodes, 'chapter', 'guide' as NodeId, 'Chapter');
+
+    const plan = await sync.preview(operation);
+    expect(plan.changes.map(({ action, path }) => `${action} ${path}`)).toEqual(['create Docs']);
+    expect(plan.skipped.map(({ path }) => path)).toEqual(['Docs/Guide', 'Docs/Guide/Chapter']);
+
+    const result = await sync.apply(operation);
+    expect(result.errors).toEqual([]);
+    expect(namesUnder(nodes, childNamed(nodes, targetRoot, 'Docs').id)).toEqual([]);
+  });
+
+  it('runs through ImportExportService and stores the pairs on the operation', async () => {
+    const forest = createForest();
+    addNode(forest.nodes, 'docs', sourceRoot, 'Docs');
+    let stored = createOperation({ direction: 'one-way' });
+    const service = new ImportExportService({
+      entityHandler: {
+        getEntity: async () => stored,
+        updateEntity: async (_id, data) => {
+          stored = { ...stored, ...data };
+        },
+      },
+      treeSync: new TreeSyncService(forest.deps),
+    });
+
+    expect((await service.validateConfiguration(nodeId)).isValid).toBe(true);
+    await service.executeOperation(nodeId);
+
+    const [record] = stored.executionHistory;
+    expect(record?.status).toBe('completed');
+    expect(record?.resultSummary).toMatchObject({ totalRecords: 1, successfulRecords: 1 });
+    expect(stored.syncState?.pairs).toHaveLength(1);
+    expect((await service.previewSync(nodeId)).changes).toEqual([]);
+  });
+});
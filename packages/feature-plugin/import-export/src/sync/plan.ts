@@ -0,0 +1,248 @@
+/**
+ * Import/Export Plugin - Sync planning
+ * Diffs two subtrees into the node changes that bring them in line
+ *
+ * Nodes are matched by the pairs recorded on the last sync, then by name and node type
+ * under already matched parents. Only node names, descriptions and placement are synced,
+ * so nodes whose type keeps plugin data (a PeerEntity) are not created; they are reported
+ * as skipped together with their descendants.
+ */
+
+import type { NodeId, TreeNode } from '@hierarchidb/common-core';
+import type { SyncChange, SyncPlan } from '../types/ImportExportAPI';
+import type { SyncConfiguration, SyncPair, SyncState } from '../types/ImportExportEntity';
+
+type Side = SyncChange['tree'];
+
+/**
+ * One side of a sync: the subtree root and its descendants, parents before children
+ */
+export interface SyncSide {
+  rootId: NodeId;
+  nodes: TreeNode[];
+}
+
+export function planSync(
+  source: SyncSide,
+  target: SyncSide,
+  config: SyncConfiguration,
+  hasEntity: (nodeType: string) => boolean,
+  state?: SyncState
+): Omit<SyncPlan, 'operationId'> {
+  const bidirectional = config.direction === 'bidirectional';
+  const sides: Record<Side, SyncSide> = { source, target };
+  const nodes: Record<Side, Map<NodeId, TreeNode>> = {
+    source: new Map(source.nodes.map((node) => [node.id, node])),
+    target: new Map(target.nodes.map((node) => [node.id, node])),
+  };
+  // counterpart.source maps source IDs to target IDs and counterpart.target the reverse
+  const counterpart: Record<Side, Map<NodeId, NodeId>> = {
+    source: new Map([[source.rootId, target.rootId]]),
+    target: new Map([[target.rootId, source.rootId]]),
+  };
+  const pair = (side: Side, id: NodeId, otherId: NodeId): void => {
+    counterpart[side].set(id, otherId);
+    counterpart[other(side)].set(otherId, id);
+  };
+  const ledger = new Map<NodeId, SyncPair>();
+  const trashed: Record<Side, Set<NodeId>> = { source: new Set(), target: new Set() };
+
+  // Whether a node was edited or moved since the last sync
+  const changedSince = (side: Side, node: TreeNode, entry: SyncPair | undefined): boolean =>
+    !entry ||
+    node.version !== (side === 'source' ? entry.sourceVersion : entry.targetVersion) ||
+    node.parentId !== (side === 'source' ? entry.sourceParentId : entry.targetParentId);
+
+  const ancestors = function* (side: Side, node: TreeNode): Generator<TreeNode> {
+    for (let parent = nodes[side].get(node.parentId); parent; ) {
+      yield parent;
+      parent = nodes[side].get(parent.parentId);
+    }
+  };
+  const isTrashed = (side: Side, node: TreeNode): boolean =>
+    trashed[side].has(node.id) ||
+    [...ancestors(side, node)].some((parent) => trashed[side].has(parent.id));
+  const pathOf = (side: Side, node: TreeNode): string =>
+    [...ancestors(side, node)]
+      .reverse()
+      .map((parent) => parent.name)
+      .concat(node.name)
+      .join('/');
+
+  for (const entry of state?.pairs ?? []) {
+    const sourceNode = nodes.source.get(entry.sourceId);
+    const targetNode = nodes.target.get(entry.targetId);
+    if (sourceNode && targetNode) {
+      pair('source', sourceNode.id, targetNode.id);
+      ledger.set(sourceNode.id, entry);
+      continue;
+    }
+    // One side was removed since the last sync: remove the other too, unless it was edited
+    // meanwhile (bidirectional) or is the source (one-way); such nodes are re-created instead
+    const side: Side | undefined = sourceNode ? 'source' : targetNode ? 'target' : undefined;
+    const survivor = sourceNode ?? targetNode;
+    if (!side || !survivor || config.trashMissing === false) {
+      continue;
+    }
+    if (bidirectional ? !changedSince(side, survivor, entry) : side === 'target') {
+      trashed[side].add(survivor.id);
+    }
+  }
+
+  // Match the remaining nodes by name and type under matched parents, or create them
+  const creates: SyncChange[] = [];
+  const skipped: SyncChange[] = [];
+  const skippedIds = new Set<NodeId>();
+  for (const side of bidirectional ? (['source', 'target'] as const) : (['source'] as const)) {
+    const otherSide = other(side);
+    const unmatched = new Map<string, TreeNode[]>();
+    for (const node of sides[otherSide].nodes) {
+      if (!counterpart[otherSide].has(node.id) && !isTrashed(otherSide, node)) {
+        const key = matchKey(node.parentId, node);
+        unmatched.set(key, [...(unmatched.get(key) ?? []), node]);
+      }
+    }
+
+    for (const node of sides[side].nodes) {
+      if (counterpart[side].has(node.id) || isTrashed(side, node)) {
+        continue;
+      }
+      const parentCounterpart = counterpart[side].get(node.parentId);
+      const candidates = parentCounterpart
+        ? unmatched.get(matchKey(parentCounterpart, node))
+        : undefined;
+      const match = candidates?.shift();
+      if (match) {
+        pair(side, node.id, match.id);
+        continue;
+      }
+      const create: SyncChange = {
+        action: 'create',
+        tree: otherSide,
+        counterpartId: node.id,
+        parentId: node.parentId,
+        nodeType: node.nodeType,
+        name: node.name,
+        ...(node.description !== undefined && { description: node.description }),
+        path: pathOf(side, node),
+      };
+      // A created copy would lack the plugin data, and children need their parent created
+      if (skippedIds.has(node.parentId) || hasEntity(node.nodeType)) {
+        skippedIds.add(node.id);
+        skipped.push(create);
+        continue;
+      }
+      creates.push(create);
+    }
+  }
+
+  const updates: SyncChange[] = [];
+  const moves: SyncChange[] = [];
+  let unchanged = 0;
+  let conflicts = 0;
+  for (const [sourceId, targetId] of counterpart.source) {
+    const sourceNode = nodes.source.get(sourceId);
+    const targetNode = nodes.target.get(targetId);
+    // The roots are paired but not synced themselves
+    if (!sourceNode || !targetNode) {
+      continue;
+    }
+    if (isTrashed('source', sourceNode) || isTrashed('target', targetNode)) {
+      continue;
+    }
+    const sameContent =
+      sourceNode.name === targetNode.name &&
+      (sourceNode.description ?? '') === (targetNode.description ?? '');
+    const samePlace = counterpart.source.get(sourceNode.parentId) === targetNode.parentId;
+    if (sameContent && samePlace) {
+      unchanged++;
+      continue;
+    }
+
+    let winner: Side = 'source';
+    let conflict = false;
+    if (bidirectional) {
+      const entry = ledger.get(sourceId);
+      const sourceChanged = changedSince('source', sourceNode, entry);
+      const targetChanged = changedSince('target', targetNode, entry);
+      if (sourceChanged !== targetChanged) {
+        winner = sourceChanged ? 'source' : 'target';
+      } else {
+        conflict = true;
+        conflicts++;
+        winner = resolveConflict(config, sourceNode, targetNode);
+      }
+    }
+
+    const [from, to] = winner === 'source' ? [sourceNode, targetNode] : [targetNode, sourceNode];
+    const change = {
+      tree: other(winner),
+      nodeId: to.id,
+      counterpartId: from.id,
+      name: from.name,
+      path: pathOf(winner, from),
+      ...(conflict && { conflict }),
+    };
+    if (!sameContent) {
+      updates.push({
+        ...change,
+        action: 'update',
+        ...(from.description !== undefined && { description: from.description }),
+        previous: { name: to.name, description: to.description },
+      });
+    }
+    if (!samePlace) {
+      moves.push({
+        ...change,
+        action: 'move',
+        parentId: from.parentId,
+        previous: { parentId: to.parentId },
+      });
+    }
+  }
+
+  // Trashing a node takes its descendants with it
+  const trashes: SyncChange[] = [];
+  for (const side of ['source', 'target'] as const) {
+    for (const id of trashed[side]) {
+      const node = nodes[side].get(id)!;
+      if (![...ancestors(side, node)].some((parent) => trashed[side].has(parent.id))) {
+        trashes.push({
+          action: 'trash',
+          tree: side,
+          nodeId: node.id,
+          name: node.name,
+          path: pathOf(side, node),
+        });
+      }
+    }
+  }
+
+  return {
+    changes: [...creates, ...updates, ...moves, ...trashes],
+    skipped,
+    pairs: [...counterpart.source],
+    unchanged,
+    conflicts,
+  };
+}
+
+function other(side: Side): Side {
+  return side === 'source' ? 'target' : 'source';
+}
+
+function matchKey(parentId: NodeId, node: TreeNode): string {
+  return JSON.stringify([parentId, node.nodeType, node.name]);
+}
+
+function resolveConflict(config: SyncConfiguration, source: TreeNode, target: TreeNode): Side {
+  switch (config.conflictResolution) {
+    case 'target-wins':
+      return 'target';
+    case 'newest-wins':
+      return target.updatedAt > source.updatedAt ? 'target' : 'source';
+    case 'source-wins':
+    default:
+      return 'source';
+  }
+}
@@ -42,6 +42,7 @@ export interface ImportExportAPI {
 
   // Data preview and validation
   previewData(nodeId: NodeId, sampleSize?: number): Promise<DataPreview>;
+  previewSync(nodeId: NodeId): Promise<SyncPlan>;
   validateConfiguration(nodeId: NodeId): Promise<ValidationResult>;
   testConnection(nodeId: NodeId): Promise<ConnectionTestResult>;
 
@@ -76,6 +77,36 @@ export interface DataPreview {
   quality: DataQualityReport;
 }
 
+/**
+ * Changes a sync run would apply, in the order they are applied
+ */
+export interface SyncPlan {
+  operationId: NodeId;
+  changes: SyncChange[];
+  skipped: SyncChange[]; // Creates left out: the node type keeps plugin data, or an ancestor was skipped
+  pairs: Array<[sourceId: NodeId, targetId: NodeId]>; // Matched nodes, including the two roots
+  unchanged: number;
+  conflicts: number;
+}
+
+/**
+ * A single node change on one side of a sync
+ * counterpartId and parentId refer to nodes on the other side
+ */
+export interface SyncChange {
+  action: 'create' | 'update' | 'move' | 'trash';
+  tree: 'source' | 'target';
+  nodeId?: NodeId; // Node to change; absent for creates
+  counterpartId?: NodeId;
+  parentId?: NodeId; // Parent of the counterpart, for creates and moves
+  nodeType?: string;
+  name: string;
+  description?: string;
+  path: string; // Slash-separated names below the subtree root
+  previous?: { name?: string; description?: string; parentId?: NodeId };
+  conflict?: boolean; // Both sides changed; resolved by conflictResolution
+}
+
 /**
  * Column information
  */
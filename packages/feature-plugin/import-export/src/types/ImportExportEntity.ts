@@ -31,6 +31,10 @@ export interface ImportExportEntity extends PeerEntity {
   // Scheduling
   schedule?: ScheduleConfiguration;
 
+  // Tree sync ('sync' operations)
+  syncConfig?: SyncConfiguration;
+  syncState?: SyncState;
+
   // Lifecycle
   createdAt: Timestamp;
   updatedAt: Timestamp;
@@ -43,7 +47,7 @@ export interface ImportExportEntity extends PeerEntity {
 export type OperationType =
   | 'import' // Import data from external source
   | 'export' // Export data to external destination
-  | 'sync' // Bidirectional synchronization
+  | 'sync' // Subtree synchronization between tree locations
   | 'transform'; // Data transformation only
 
 /**
@@ -200,6 +204,8 @@ export interface SourceOptions {
   columnMapping?: ColumnMapping;
   dateFormat?: string;
   timeZone?: string;
+  layerName?: string; // Sheet (Excel) or layer (zipped Shapefile) to read; the first by default
+  recordElement?: string; // XML element holding one record; repeated children of the root by default
 }
 
 /**
@@ -212,6 +218,9 @@ export interface TargetOptions {
   compression?: 'none' | 'gzip' | 'zip';
   overwrite?: boolean;
   batchSize?: number;
+  layerName?: string; // Sheet (Excel) or layer (Shapefile) name
+  rootElement?: string; // XML document element
+  recordElement?: string; // XML element per record
 }
 
 /**
@@ -327,7 +336,7 @@ export interface TransformRule {
   field: string;
   transformation: TransformFunction;
   parameters?: Record<string, any>;
-  condition?: string; // JavaScript expression
+  condition?: string; // Restricted expression over `record` (see pipeline/expression)
 }
 
 /**
@@ -415,6 +424,7 @@ export interface ExecutionRecord {
   errorCount: number;
   resultSummary?: ExecutionSummary;
   logs: LogEntry[];
+  scheduledTime?: Timestamp; // Set when the run was started by the scheduler
 }
 
 /**
@@ -456,6 +466,7 @@ export interface ScheduleConfiguration {
   startDate?: Timestamp;
   endDate?: Timestamp;
   timezone?: string;
+  catchUpMissedRuns?: boolean; // Run once on startup if runs were missed while the app was closed
 }
 
 /**
@@ -467,6 +478,39 @@ export type ScheduleType =
   | 'cron' // Run based on cron expression
   | 'manual'; // Manual execution only
 
+/**
+ * Sync configuration
+ * Syncs the subtree under sourceLocation with the one under targetLocation (both tree locations)
+ */
+export interface SyncConfiguration {
+  direction: SyncDirection;
+  conflictResolution?: SyncConflictResolution; // When both sides changed a node (default: 'source-wins')
+  trashMissing?: boolean; // Trash nodes whose counterpart was removed (default: true)
+}
+
+export type SyncDirection =
+  | 'one-way' // Source to target
+  | 'bidirectional'; // Changes on either side
+
+export type SyncConflictResolution = 'source-wins' | 'target-wins' | 'newest-wins';
+
+/**
+ * Node pairs as of the last sync; the stable key that matches nodes on reruns
+ */
+export interface SyncState {
+  lastSyncedAt: Timestamp;
+  pairs: SyncPair[];
+}
+
+export interface SyncPair {
+  sourceId: NodeId;
+  targetId: NodeId;
+  sourceVersion: number;
+  targetVersion: number;
+  sourceParentId: NodeId;
+  targetParentId: NodeId;
+}
+
 /**
  * Data for creating a new ImportExportEntity
  */
@@ -478,6 +522,7 @@ export interface CreateImportExportData {
   targetConfig?: Partial<TargetConfiguration>;
   transformConfig?: Partial<TransformConfiguration>;
   schedule?: Partial<ScheduleConfiguration>;
+  syncConfig?: SyncConfiguration;
 }
 
 /**
@@ -490,6 +535,7 @@ export interface UpdateImportExportData {
   targetConfig?: Partial<TargetConfiguration>;
   transformConfig?: Partial<TransformConfiguration>;
   schedule?: Partial<ScheduleConfiguration>;
+  syncConfig?: SyncConfiguration;
 }
 
 /**
@@ -0,0 +1,97 @@
+/**
+ * Import/Export Plugin - Worker module
+ * Builds the operation services inside the worker and starts the scheduler, so scheduled
+ * operations run while the app is open and missed runs are caught up on startup
+ */
+
+import type { WorkerPluginModule } from '@hierarchidb/common-api';
+import type { NodeId, Timestamp } from '@hierarchidb/common-core';
+import type { ImportExportDatabase } from '../database/ImportExportDatabase';
+import { ImportExportEntityHandler } from '../handlers/ImportExportEntityHandler';
+import type { SourceIO } from '../pipeline/sources';
+import { ImportExportScheduler } from '../services/ImportExportScheduler';
+import { ImportExportService } from '../services/ImportExportService';
+import { TreeSyncService } from '../services/TreeSyncService';
+import type { ImportExportAPI } from '../types/ImportExportAPI';
+import type { ExecutionRecord, ImportExportEntity } from '../types/ImportExportEntity';
+
+/**
+ * Worker-side services the module cannot build from the host alone
+ */
+export interface ImportExportWorkerModuleOptions extends SourceIO {
+  // Shared ImportExportDatabase instance by default
+  db?: ImportExportDatabase;
+  // Required for file targets; returns where the file was saved
+  writeFile?: (filename: string, blob: Blob) => Promise<string>;
+}
+
+/**
+ * Methods registered as the 'import-export' plugin extension
+ */
+export type ImportExportWorkerAPI = Pick<
+  ImportExportAPI,
+  | 'createOperation'
+  | 'getOperation'
+  | 'updateOperation'
+  | 'deleteOperation'
+  | 'executeOperation'
+  | 'getExecutionHistory'
+  | 'previewData'
+  | 'previewSync'
+  | 'validateConfiguration'
+> & {
+  getNextRunTime(nodeId: NodeId): Promise<Timestamp | undefined>;
+};
+
+/**
+ * Worker module to register with the runtime from the application's worker entry
+ */
+export function createImportExportWorkerModule(
+  options: ImportExportWorkerModuleOptions = {}
+): WorkerPluginModule {
+  return {
+    name: 'import-export',
+
+    async start(host) {
+      // The handler reports schedule changes to the scheduler built on top of it
+      const entityHandler: ImportExportEntityHandler = new ImportExportEntityHandler({
+        ...(options.db && { db: options.db }),
+        onScheduleChange: (nodeId) => scheduler.refresh(nodeId),
+      });
+      const treeSync = new TreeSyncService({
+        queryAPI: host.queryAPI,
+        mutationAPI: host.mutationAPI,
+        hasEntity: (nodeType) => host.hasEntity(nodeType),
+      });
+      const service = new ImportExportService({
+        entityHandler,
+        mutationAPI: host.mutationAPI,
+        treeSync,
+        ...(options.resolveFile && { resolveFile: options.resolveFile }),
+        ...(options.fetch && { fetch: options.fetch }),
+        ...(options.writeFile && { writeFile: options.writeFile }),
+      });
+      const scheduler = new ImportExportScheduler({ entityHandler, service });
+
+      const api: ImportExportWorkerAPI = {
+        createOperation: (nodeId, data) =>
+          entityHandler.createEntity(nodeId, data as unknown as Partial<ImportExportEntity>),
+        getOperation: (nodeId) => entityHandler.getEntity(nodeId),
+        updateOperation: (nodeId, data) =>
+          entityHandler.updateEntity(nodeId, data as unknown as Partial<ImportExportEntity>),
+        deleteOperation: (nodeId) => entityHandler.deleteEntity(nodeId),
+        executeOperation: (nodeId) => service.executeOperation(nodeId),
+        getExecutionHistory: async (nodeId): Promise<ExecutionRecord[]> =>
+          (await entityHandler.getEntity(nodeId))?.executionHistory ?? [],
+        previewData: (nodeId, sampleSize) => service.previewData(nodeId, sampleSize),
+        previewSync: (nodeId) => service.previewSync(nodeId),
+        validateConfiguration: (nodeId) => service.validateConfiguration(nodeId),
+        getNextRunTime: async (nodeId) => scheduler.getNextRunTime(nodeId),
+      };
+      await host.registerExtension('import-export', api);
+
+      await scheduler.start();
+      return () => scheduler.stop();
+    },
+  };
+}
@@ -17,9 +17,9 @@ import {
   Box,
 } from '@mui/material';
 import { Map as MapIcon } from '@mui/icons-material';
-import { CommonPluginDialog } from '@hierarchidb/ui-dialog';
+import { CommonPluginDialog } from '@hierarchidb/runtime-plugin-dialog';
 import type { BaseMapEntity } from '../types';
-import type { NodeId } from '@hierarchidb/common-core';
+import type { CommitConflict, NodeId, TreeNode } from '@hierarchidb/common-core';
 
 export interface BaseMapEditDialogProps {
   /**
@@ -37,6 +37,11 @@ export interface BaseMapEditDialogProps {
    */
   onSubmit: (changes: Partial<BaseMapEntity>) => Promise<void>;
 
+  /**
+   * Called with the merged values when onSubmit rejected with a concurrent edit conflict
+   */
+  onResolveConflict?: (merged: Partial<TreeNode>, conflict: CommitConflict) => Promise<void>;
+
   /**
    * Called when user cancels the dialog
    */
@@ -55,6 +60,7 @@ export const BaseMapEditDialog: React.FC<BaseMapEditDialogProps> = ({
   nodeId,
   currentData,
   onSubmit,
+  onResolveConflict,
   onCancel,
   open = true,
 }) => {
@@ -133,6 +139,7 @@ export const BaseMapEditDialog: React.FC<BaseMapEditDialogProps> = ({
       icon={<MapIcon />}
       onSubmit={handleSubmit}
       onCancel={onCancel}
+      onResolveConflict={onResolveConflict}
       hasUnsavedChanges={isDirty}
       maxWidth="md"
     >
@@ -3,9 +3,15 @@
  * @description BaseMap view component with actual MapLibre GL integration
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import { Box, Typography, CircularProgress, Alert } from '@mui/material';
-import { MapLibreMap, type MapViewState, type MapLibreMapInstance } from '@hierarchidb/ui-map';
+import {
+  MapLibreMap,
+  registerDexieTileProtocol,
+  type MapViewState,
+  type MapLibreMapInstance,
+  type StyleSpecification,
+} from '@hierarchidb/ui-map';
 import type { BaseMapEntity } from '../types';
 import type { NodeId } from '@hierarchidb/common-core';
 
@@ -15,6 +21,8 @@ export interface BaseMapViewProps {
   width?: string | number;
   height?: string | number;
   interactive?: boolean;
+  /** Tiles of an archive imported into the Shape tile store, read by dexie:// style sources */
+  getTile?: (nodeId: NodeId, z: number, x: number, y: number) => Promise<Uint8Array | null>;
 }
 
 export const BaseMapView: React.FC<BaseMapViewProps> = ({
@@ -22,10 +30,21 @@ export const BaseMapView: React.FC<BaseMapViewProps> = ({
   width = '100%',
   height = '400px',
   interactive = true,
+  getTile,
 }) => {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Custom styles of imported archives point at dexie://ShapeDB/<nodeId>/{z}/{x}/{y}
+  useEffect(() => {
+    if (!getTile) return;
+    registerDexieTileProtocol(async (z, x, y, nodeId) => {
+      const tile = await getTile(nodeId as NodeId, z, x, y);
+      // MapLibre wants an ArrayBuffer of exactly the tile's bytes
+      return tile ? tile.slice().buffer : null;
+    });
+  }, [getTile]);
+
 
   // Extract initial view state from entity
   const initialViewState: MapViewState = entity ? {
@@ -41,12 +60,16 @@ export const BaseMapView: React.FC<BaseMapViewProps> = ({
   };
 
   // Determine map style
-  const getMapStyle = (): string => {
+  const getMapStyle = (): string | StyleSpecification => {
     if (!entity) return 'https://demotiles.maplibre.org/style.json';
     
     if (entity.mapStyle === 'custom' && entity.styleUrl) {
       return entity.styleUrl;
     }
+
+    if (entity.mapStyle === 'custom' && entity.styleConfig) {
+      return entity.styleConfig as unknown as StyleSpecification;
+    }
     
     // Use predefined style presets
     const styleUrls = {
@@ -34,6 +34,11 @@ export const BaseMapWorkerPlugin = {
     ]
   },
   
+  // Entity fields indexed for full-text search (style names and tags)
+  search: {
+    fields: ['mapStyle', 'styleConfig.name', 'tags'],
+  },
+
   // Worker-side validation
   validation: {
     async validateEntity(entity: BaseMapEntity): Promise<ValidationResult> {
@@ -19,7 +19,14 @@ import type {
   BboxQueryOptions,
   CacheStatistics,
   CacheType,
-  OptimizationResult
+  OptimizationResult,
+  TileArchiveExportOptions,
+  TileJSON,
+  TileSourceInfo,
+  TileStyle,
+  LocalFileUpload,
+  LocalFileStagingOptions,
+  LocalFileStagingResult
 } from '~/services/types';
 
 import { ShapeService } from '~/services/ShapeService';
@@ -174,6 +181,15 @@ export class ShapePluginAPI implements ShapesAPIMethods {
     return this.shapeService.validateDataSource(dataSource, config);
   }
 
+  async stageLocalFiles(
+    nodeId: NodeId,
+    files: LocalFileUpload[],
+    options?: LocalFileStagingOptions
+  ): Promise<LocalFileStagingResult> {
+    this.ensureInitialized();
+    return this.shapeService.stageLocalFiles(nodeId, files, options);
+  }
+
   // === Vector Tile API ===
 
   async getTile(nodeId: NodeId, z: number, x: number, y: number): Promise<Uint8Array> {
@@ -207,6 +223,26 @@ export class ShapePluginAPI implements ShapesAPIMethods {
     return this.shapeService.clearTileCache(nodeId);
   }
 
+  async exportTileArchive(nodeId: NodeId, options?: TileArchiveExportOptions): Promise<Uint8Array> {
+    this.ensureInitialized();
+    return this.shapeService.exportTileArchive(nodeId, options);
+  }
+
+  async importTileArchive(nodeId: NodeId, archive: Uint8Array | ArrayBuffer): Promise<TileSourceInfo> {
+    this.ensureInitialized();
+    return this.shapeService.importTileArchive(nodeId, archive);
+  }
+
+  async getTileJSON(nodeId: NodeId): Promise<TileJSON | null> {
+    this.ensureInitialized();
+    return this.shapeService.getTileJSON(nodeId);
+  }
+
+  async getTileStyle(nodeId: NodeId): Promise<TileStyle | null> {
+    this.ensureInitialized();
+    return this.shapeService.getTileStyle(nodeId);
+  }
+
   // === Feature Query API ===
 
   async searchFeatures(nodeId: NodeId, query: string, options?: SearchOptions): Promise<Feature[]> {
@@ -224,6 +260,11 @@ export class ShapePluginAPI implements ShapesAPIMethods {
     return this.shapeService.getFeaturesByBbox(nodeId, bbox, options);
   }
 
+  async getFeaturesAtPoint(nodeId: NodeId, lng: number, lat: number): Promise<Feature[]> {
+    this.ensureInitialized();
+    return this.shapeService.getFeaturesAtPoint(nodeId, lng, lat);
+  }
+
   // === Cache Management API ===
 
   async getCacheStatistics(nodeId?: NodeId): Promise<CacheStatistics> {
@@ -5,6 +5,7 @@
 
 import * as Comlink from 'comlink';
 import { NodeId } from '@hierarchidb/common-core';
+import type { TileStyle } from '~/services/types';
 import { ShapePluginAPI, shapePluginAPI } from './ShapePluginAPI';
 
 /**
@@ -99,6 +100,11 @@ export class ShapeWorkerAPI {
     return this.pluginAPI.validateDataSource(dataSource, config);
   }
 
+  async stageLocalFiles(nodeId: NodeId, files: any[], options?: any): Promise<any> {
+    this.ensureInitialized();
+    return this.pluginAPI.stageLocalFiles(nodeId, files, options);
+  }
+
   // === Vector Tile API ===
 
   async getTile(nodeId: NodeId, z: number, x: number, y: number): Promise<Uint8Array> {
@@ -116,6 +122,26 @@ export class ShapeWorkerAPI {
     return this.pluginAPI.clearTileCache(nodeId);
   }
 
+  async exportTileArchive(nodeId: NodeId, options?: any): Promise<Uint8Array> {
+    this.ensureInitialized();
+    return this.pluginAPI.exportTileArchive(nodeId, options);
+  }
+
+  async importTileArchive(nodeId: NodeId, archive: Uint8Array | ArrayBuffer): Promise<any> {
+    this.ensureInitialized();
+    return this.pluginAPI.importTileArchive(nodeId, archive);
+  }
+
+  async getTileJSON(nodeId: NodeId): Promise<any | null> {
+    this.ensureInitialized();
+    return this.pluginAPI.getTileJSON(nodeId);
+  }
+
+  async getTileStyle(nodeId: NodeId): Promise<TileStyle | null> {
+    this.ensureInitialized();
+    return this.pluginAPI.getTileStyle(nodeId);
+  }
+
   // === Feature Query API ===
 
   async searchFeatures(nodeId: NodeId, query: string, options?: any): Promise<any[]> {
@@ -133,6 +159,11 @@ export class ShapeWorkerAPI {
     return this.pluginAPI.getFeaturesByBbox(nodeId, bbox, options);
   }
 
+  async getFeaturesAtPoint(nodeId: NodeId, lng: number, lat: number): Promise<any[]> {
+    this.ensureInitialized();
+    return this.pluginAPI.getFeaturesAtPoint(nodeId, lng, lat);
+  }
+
   // === Cache Management API ===
 
   async getCacheStatistics(nodeId?: NodeId): Promise<any> {
@@ -69,7 +69,13 @@ export const ShapeStepperDialog: React.FC<ShapeDialogProps> = ({
     return result.isValid;
   };
 
+  const isLocalSource = workingCopy.dataSourceName === 'local';
+
   const hasSelectedCountries = (wc: ShapeWorkingCopy): boolean => {
+    // Uploaded files replace the country/admin level selection
+    if (wc.dataSourceName === 'local') {
+      return (wc.localFiles?.length ?? 0) > 0;
+    }
     if (Array.isArray(wc.checkboxState)) {
       return wc.checkboxState.some((row) => row.some((cell) => cell === true));
     }
@@ -90,19 +96,21 @@ export const ShapeStepperDialog: React.FC<ShapeDialogProps> = ({
 
   // Start batch processing
   const handleStartBatch = useCallback(() => {
-    // Generate URL metadata based on selections
-    const urlMetadata = generateUrlMetadata(
-      workingCopy.selectedCountries || [],
-      workingCopy.adminLevels || [],
-      workingCopy.dataSourceName
-    );
+    // Generate URL metadata based on selections; local files were staged in Step 2
+    const urlMetadata = isLocalSource
+      ? workingCopy.urlMetadata || []
+      : generateUrlMetadata(
+          workingCopy.selectedCountries || [],
+          workingCopy.adminLevels || [],
+          workingCopy.dataSourceName
+        );
 
     // Update working copy with URL metadata
     updateWorkingCopy({ urlMetadata });
 
     // Open batch dialog
     setBatchDialogOpen(true);
-  }, [workingCopy, updateWorkingCopy]);
+  }, [workingCopy, isLocalSource, updateWorkingCopy]);
 
   // Handle batch dialog close
   const handleBatchDialogClose = useCallback(() => {
@@ -129,7 +137,8 @@ export const ShapeStepperDialog: React.FC<ShapeDialogProps> = ({
     {
       label: 'Data Source',
       content: <Step2DataSource workingCopy={workingCopy} onUpdate={updateWorkingCopy} />,
-      validate: () => !!workingCopy.dataSourceName,
+      validate: () =>
+        !!workingCopy.dataSourceName && (!isLocalSource || hasSelectedCountries(workingCopy)),
     },
     {
       label: 'License Agreement',
@@ -141,11 +150,18 @@ export const ShapeStepperDialog: React.FC<ShapeDialogProps> = ({
       content: <Step4Processing workingCopy={workingCopy} onUpdate={updateWorkingCopy} />,
       validate: () => validateProcessingConfig(workingCopy.processingConfig),
     },
-    {
-      label: 'Country Selection',
-      content: <Step5CountrySelection workingCopy={workingCopy} onUpdate={updateWorkingCopy} />,
-      validate: () => hasSelectedCountries(workingCopy),
-    },
+    // Uploaded files carry their own boundaries, so there are no countries to pick
+    ...(isLocalSource
+      ? []
+      : [
+          {
+            label: 'Country Selection',
+            content: (
+              <Step5CountrySelection workingCopy={workingCopy} onUpdate={updateWorkingCopy} />
+            ),
+            validate: () => hasSelectedCountries(workingCopy),
+          },
+        ]),
   ];
 
   return (
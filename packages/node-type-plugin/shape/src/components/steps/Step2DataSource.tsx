@@ -1,23 +1,64 @@
-import React from 'react';
-import { Box, Typography } from '@mui/material';
+import React, { useState } from 'react';
+import { Alert, Box, Button, CircularProgress, Stack, Typography } from '@mui/material';
+import { UploadFile as UploadFileIcon } from '@mui/icons-material';
 // @hierarchidb/_app-datasource パッケージのコンポーネントを活用（想定）
 // 実際のimportは、_app-datasourceパッケージの実装に依存
 import type { StepProps } from '~/types';
 import { DATA_SOURCE_CONFIGS } from '~/mock/data';
+import { mockShapeService } from '~/services/MockShapeService';
+import { LOCAL_FILE_EXTENSIONS } from '~/services/datasource/localFile';
+
+const FORMAT_LABELS = {
+  geojson: 'GeoJSON',
+  topojson: 'TopoJSON',
+  shapefile: 'Shapefile',
+  geopackage: 'GeoPackage',
+} as const;
 
 /**
  * Step 2: Data Source Selection
  * Uses @hierarchidb/_app-datasource components for data source selection
  */
 export const Step2DataSource: React.FC<StepProps> = ({ workingCopy, onUpdate, disabled }) => {
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string>();
+
   const handleDataSourceSelect = (dataSourceName: string) => {
+    const leavingLocal = workingCopy.dataSourceName === 'local' && dataSourceName !== 'local';
     onUpdate({
       dataSourceName: dataSourceName as any,
       licenseAgreement: false, // Reset license agreement when changing source
       licenseAgreedAt: undefined,
+      // Staged uploads only apply to the local source
+      ...(leavingLocal && { localFiles: [], urlMetadata: [] }),
     });
   };
 
+  const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    setUploadError(undefined);
+    try {
+      const uploads = await Promise.all(
+        files.map(async (file) => ({ name: file.name, data: await file.arrayBuffer() }))
+      );
+      const { sources, urlMetadata } = await mockShapeService.stageLocalFiles(
+        workingCopy.nodeId,
+        uploads
+      );
+      onUpdate({ localFiles: sources, urlMetadata });
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const localFiles = workingCopy.localFiles ?? [];
+
   return (
     <Box sx={{ p: 3 }}>
       <Typography variant="h6" gutterBottom>
@@ -58,6 +99,56 @@ export const Step2DataSource: React.FC<StepProps> = ({ workingCopy, onUpdate, di
           </Box>
         ))}
       </Box>
+
+      {workingCopy.dataSourceName === 'local' && (
+        <Box sx={{ mt: 1 }}>
+          <Stack direction="row" spacing={2} alignItems="center">
+            <Button
+              component="label"
+              variant="contained"
+              startIcon={uploading ? <CircularProgress size={16} /> : <UploadFileIcon />}
+              disabled={disabled || uploading}
+            >
+              {localFiles.length > 0 ? 'Replace Files' : 'Choose Files'}
+              <input
+                hidden
+                multiple
+                type="file"
+                accept={LOCAL_FILE_EXTENSIONS.join(',')}
+                onChange={handleFilesSelected}
+              />
+            </Button>
+            <Typography variant="caption" color="text.secondary">
+              Shapefiles must be zipped with their .dbf and .prj; projected data is converted to
+              WGS84
+            </Typography>
+          </Stack>
+
+          {uploadError && (
+            <Alert severity="error" sx={{ mt: 2 }}>
+              {uploadError}
+            </Alert>
+          )}
+
+          {localFiles.map((file) => (
+            <Alert
+              key={file.url}
+              severity={file.warnings.length > 0 ? 'warning' : 'success'}
+              sx={{ mt: 2 }}
+            >
+              <Typography variant="body2">
+                <strong>{file.layerName}</strong> ({file.fileName}, {FORMAT_LABELS[file.format]}):{' '}
+                {file.featureCount.toLocaleString()} features from {file.sourceCrs}
+              </Typography>
+              {file.warnings.map((warning) => (
+                <Typography key={warning} variant="caption" display="block">
+                  {warning}
+                </Typography>
+              ))}
+            </Alert>
+          ))}
+        </Box>
+      )}
     </Box>
   );
 };
@@ -23,7 +23,7 @@ import {
   FilterAlt as FilterAltIcon,
   Layers as LayersIcon,
 } from '@mui/icons-material';
-import type { StepProps, FeatureFilterMethod } from '~/types';
+import type { StepProps, FeatureFilterMethod, SimplificationAlgorithm } from '~/types';
 
 /**
  * Step 4: Processing Configuration
@@ -236,6 +236,35 @@ export const Step4Processing: React.FC<StepProps> = ({ workingCopy, onUpdate, di
                 helperText="Maximum zoom level for vector tiles (8-18)"
               />
             </Grid>
+
+            <Grid item xs={12}>
+              <FormControl component="fieldset">
+                <FormLabel component="legend">Simplification Algorithm</FormLabel>
+                <RadioGroup
+                  row
+                  value={config?.simplificationAlgorithm || 'douglas-peucker'}
+                  onChange={(e) => onUpdate({
+                    processingConfig: {
+                      ...config,
+                      simplificationAlgorithm: e.target.value as SimplificationAlgorithm
+                    }
+                  })}
+                >
+                  <FormControlLabel
+                    value="douglas-peucker"
+                    control={<Radio />}
+                    label="Douglas-Peucker (Sharper Corners)"
+                    disabled={disabled}
+                  />
+                  <FormControlLabel
+                    value="visvalingam"
+                    control={<Radio />}
+                    label="Visvalingam-Whyatt (Smoother Outlines)"
+                    disabled={disabled}
+                  />
+                </RadioGroup>
+              </FormControl>
+            </Grid>
           </Grid>
         </AccordionDetails>
       </Accordion>
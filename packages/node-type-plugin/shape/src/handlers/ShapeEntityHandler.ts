@@ -5,10 +5,17 @@
 
 // Shape plugin uses its own entity management approach via Comlink API
 // No direct dependency on worker's BaseEntityHandler
-import type { NodeId, EntityId } from '@hierarchidb/common-core';
+import type {
+  NodeId,
+  EntityId,
+  EntityBackup,
+  EntityBackupOptions,
+  GroupEntity,
+} from '@hierarchidb/common-core';
 import { generateEntityId } from '@hierarchidb/common-core';
 import type { ShapeEntity, ShapeWorkingCopy } from '~/types';
 import { shapePluginAPI } from '~/api/ShapePluginAPI';
+import { shapeDB } from '~/services/database/ShapeDB';
 
 /**
  * Entity handler for Shape plugin
@@ -191,6 +198,38 @@ export class ShapeEntityHandler {
     }
   }
 
+  /**
+   * Back up a Shape entity with its features and, optionally, its generated vector tiles
+   */
+  async backup(nodeId: NodeId, options: EntityBackupOptions = {}): Promise<EntityBackup> {
+    const entity = await this.getEntityByNodeId(nodeId);
+    if (!entity) {
+      throw new Error(`Shape entity not found for backup: ${nodeId}`);
+    }
+
+    const features = await shapeDB.getFeaturesByNode(nodeId);
+    const tiles = options.includeVectorTiles ? await shapeDB.getTilesByNode(nodeId) : [];
+
+    return {
+      entity: entity as unknown as EntityBackup['entity'],
+      subEntities: {
+        features: features as unknown as GroupEntity[],
+      },
+      vectorTiles: tiles.map(({ z, x, y, data, contentEncoding }) => ({
+        z,
+        x,
+        y,
+        data,
+        contentEncoding,
+      })),
+      metadata: {
+        backupDate: Date.now(),
+        version: '1.0.0',
+        nodeType: 'shape',
+      },
+    };
+  }
+
   /**
    * List all Shape entities
    */
@@ -57,6 +57,17 @@ export const DATA_SOURCE_CONFIGS: Record<string, DataSourceConfig> = {
     icon: '🚗',
     maxAdminLevel: 4,
   },
+  local: {
+    name: 'local',
+    displayName: 'Local Files',
+    description: 'Upload your own GeoJSON, TopoJSON, zipped Shapefile or GeoPackage boundaries',
+    license: 'As provided by the uploader',
+    licenseUrl: '',
+    attribution: 'User-provided data',
+    color: '#607D8B',
+    icon: '📁',
+    maxAdminLevel: 5,
+  },
 };
 
 // ================================
@@ -7,8 +7,16 @@ import type {
   BatchTaskStage,
   SimplifyTask,
   ValidationResult,
-  SelectionStats
+  SelectionStats,
+  LocalFileSource,
+  UrlMetadata
 } from '~/types';
+import type {
+  LocalFileUpload,
+  LocalFileStagingOptions,
+  LocalFileStagingResult
+} from '~/services/types';
+import { parseLocalFile } from '~/services/datasource/localFile';
 import { DEFAULT_PROCESSING_CONFIG } from '~/types';
 import { 
   generateMockDownloadTasks,
@@ -146,6 +154,40 @@ export class MockShapeService {
     this.workingCopies.delete(nodeId);
   }
 
+  // ================================
+  // Local File Operations
+  // ================================
+
+  async stageLocalFiles(
+    nodeId: NodeId,
+    files: LocalFileUpload[],
+    options: LocalFileStagingOptions = {}
+  ): Promise<LocalFileStagingResult> {
+    // Parsing is real so the dialog reports actual layers, feature counts and errors
+    const parsedFiles = await Promise.all(
+      files.map(file => parseLocalFile(file.name, file.data))
+    );
+    const sources: LocalFileSource[] = parsedFiles.flatMap(parsed =>
+      parsed.layers.map((layer, index) => ({
+        fileName: parsed.fileName,
+        format: parsed.format,
+        layerName: layer.name,
+        featureCount: layer.collection.features.length,
+        sourceCrs: layer.sourceCrs,
+        url: `local://mock-${nodeId}-${parsed.fileName}-${index}`,
+        warnings: index === 0 ? parsed.warnings : [],
+      }))
+    );
+
+    const urlMetadata: UrlMetadata[] = sources.map(source => ({
+      url: source.url,
+      countryCode: '',
+      adminLevel: options.adminLevel ?? 0,
+      continent: '',
+    }));
+    return { sources, urlMetadata };
+  }
+
   // ================================
   // Batch Processing Operations
   // ================================
@@ -9,7 +9,9 @@ import type { NodeId } from '@hierarchidb/common-core';
 import { shapeDB } from './database/ShapeDB';
 import { BatchSessionManager } from './batch/BatchSessionManager';
 import { DataSourceManager } from './datasource/DataSourceManager';
+import { LocalFileImporter } from './datasource/LocalFileImporter';
 import { VectorTileService } from './tiles/VectorTileService';
+import { TileArchiveService } from './tiles/TileArchiveService';
 import type {
   BatchProcessConfig,
   BatchStatus,
@@ -22,7 +24,14 @@ import type {
   CacheStatistics,
   CacheType,
   OptimizationResult,
-  TileMetadata
+  TileMetadata,
+  TileArchiveExportOptions,
+  TileJSON,
+  TileSourceInfo,
+  TileStyle,
+  LocalFileUpload,
+  LocalFileStagingOptions,
+  LocalFileStagingResult
 } from './types';
 import type {
   UrlMetadata,
@@ -33,12 +42,16 @@ export class ShapeService {
   private batchManager: BatchSessionManager;
   private dataSourceManager: DataSourceManager;
   private vectorTileService: VectorTileService;
+  private tileArchiveService: TileArchiveService;
+  private localFileImporter: LocalFileImporter;
   private initialized = false;
 
   constructor() {
     this.batchManager = new BatchSessionManager();
     this.dataSourceManager = new DataSourceManager();
     this.vectorTileService = new VectorTileService();
+    this.tileArchiveService = new TileArchiveService(this.dataSourceManager);
+    this.localFileImporter = new LocalFileImporter();
   }
 
   // Service Lifecycle
@@ -179,6 +192,15 @@ export class ShapeService {
     };
   }
 
+  async stageLocalFiles(
+    nodeId: NodeId,
+    files: LocalFileUpload[],
+    options?: LocalFileStagingOptions
+  ): Promise<LocalFileStagingResult> {
+    this.ensureInitialized();
+    return await this.localFileImporter.stageFiles(nodeId, files, options);
+  }
+
   // Processing Configuration Validation
   validateProcessingConfig(config: ProcessingConfig): { isValid: boolean; errors: string[] } {
     const errors: string[] = [];
@@ -292,6 +314,11 @@ export class ShapeService {
     return result;
   }
 
+  async getFeaturesAtPoint(nodeId: NodeId, lng: number, lat: number): Promise<Feature[]> {
+    this.ensureInitialized();
+    return await shapeDB.getFeaturesAtPoint(nodeId, lng, lat);
+  }
+
   // Vector Tile Management
   async getVectorTile(nodeId: NodeId, z: number, x: number, y: number): Promise<Uint8Array | null> {
     this.ensureInitialized();
@@ -368,23 +395,27 @@ export class ShapeService {
       // Remove duplicate features (if any)
       const features = await shapeDB.features.where('nodeId').equals(nodeId).toArray();
       const uniqueFeatures = new Map();
+      const duplicateIds: number[] = [];
       
       for (const feature of features) {
         const key = `${feature.geometry.type}-${JSON.stringify(feature.properties)}`;
         if (!uniqueFeatures.has(key)) {
           uniqueFeatures.set(key, feature);
         } else {
-          await shapeDB.features.delete(feature.id);
+          duplicateIds.push(feature.id);
           removedItems++;
           freedSpace += JSON.stringify(feature).length;
         }
       }
+      await shapeDB.deleteFeatures(duplicateIds);
 
       // Compact tile cache - remove old unused tiles
+      // Imported archive tiles are source data, not cache, and cannot be regenerated
       const tileStats = await this.vectorTileService.getTileCacheStatistics(nodeId);
       const thirtyDaysAgo = Date.now() - (30 * 24 * 60 * 60 * 1000);
+      const tileSource = await shapeDB.tileSources.get(nodeId);
       
-      const oldTiles = await shapeDB.vectorTiles
+      const oldTiles = tileSource ? [] : await shapeDB.vectorTiles
         .where('nodeId')
         .equals(nodeId)
         .filter((tile: any) => (tile.lastAccessed || tile.generatedAt) < thirtyDaysAgo)
@@ -421,6 +452,27 @@ export class ShapeService {
     };
   }
 
+  // Tile Archives
+  async exportTileArchive(nodeId: NodeId, options?: TileArchiveExportOptions): Promise<Uint8Array> {
+    this.ensureInitialized();
+    return await this.tileArchiveService.exportPMTiles(nodeId, options);
+  }
+
+  async importTileArchive(nodeId: NodeId, archive: Uint8Array | ArrayBuffer): Promise<TileSourceInfo> {
+    this.ensureInitialized();
+    return await this.tileArchiveService.importArchive(nodeId, archive);
+  }
+
+  async getTileJSON(nodeId: NodeId): Promise<TileJSON | null> {
+    this.ensureInitialized();
+    return await this.tileArchiveService.getTileJSON(nodeId);
+  }
+
+  async getTileStyle(nodeId: NodeId): Promise<TileStyle | null> {
+    this.ensureInitialized();
+    return await this.tileArchiveService.getTileStyle(nodeId);
+  }
+
   // Data Export
   async exportData(nodeId: NodeId, format: 'geojson' | 'mvt' | 'pmtiles'): Promise<Blob> {
     this.ensureInitialized();
@@ -543,11 +595,10 @@ export class ShapeService {
     });
   }
 
-  private async exportAsPMTiles(_nodeId: NodeId): Promise<Blob> {
-    // This would generate PMTiles format
-    // For now, return a placeholder
-    return new Blob(['PMTiles export not yet implemented'], {
-      type: 'application/octet-stream'
+  private async exportAsPMTiles(nodeId: NodeId): Promise<Blob> {
+    const archive = await this.tileArchiveService.exportPMTiles(nodeId);
+    return new Blob([archive as BlobPart], {
+      type: 'application/vnd.pmtiles'
     });
   }
 }
\ No newline at end of file
@@ -23,11 +23,21 @@ import type {
   OptimizationResult,
   BoundingBox,
   DataSourceName,
+  TileArchiveExportOptions,
+  TileJSON,
+  TileSourceInfo,
+  TileStyle,
+  LocalFileUpload,
+  LocalFileStagingOptions,
+  LocalFileStagingResult,
 } from './types';
 import { WorkerPoolManager } from './workers/WorkerPoolManager';
 import { BatchSessionManager } from './batch/BatchSessionManager';
 import { DataSourceManager } from './datasource/DataSourceManager';
+import { LocalFileImporter } from './datasource/LocalFileImporter';
 import { VectorTileService } from './tiles/VectorTileService';
+import { TileArchiveService } from './tiles/TileArchiveService';
+import { shapeDB } from './database/ShapeDB';
 import { UrlMetadata } from '~/types/index';
 
 /**
@@ -42,6 +52,8 @@ export class ShapesPluginAPI implements PluginAPI<ShapesAPIMethods> {
   private batchSessionManager: BatchSessionManager;
   private dataSourceManager: DataSourceManager;
   private vectorTileService: VectorTileService;
+  private tileArchiveService: TileArchiveService;
+  private localFileImporter: LocalFileImporter;
 
   constructor() {
     this.workerPoolManager = new WorkerPoolManager({
@@ -59,6 +71,8 @@ export class ShapesPluginAPI implements PluginAPI<ShapesAPIMethods> {
     this.batchSessionManager = new BatchSessionManager();
     this.dataSourceManager = new DataSourceManager();
     this.vectorTileService = new VectorTileService();
+    this.tileArchiveService = new TileArchiveService(this.dataSourceManager);
+    this.localFileImporter = new LocalFileImporter();
 
     // Define API methods
     this.methods = {
@@ -73,16 +87,22 @@ export class ShapesPluginAPI implements PluginAPI<ShapesAPIMethods> {
       getAvailableDataSources: this.getAvailableDataSources.bind(this),
       getCountryMetadata: this.getCountryMetadata.bind(this),
       validateDataSource: this.validateDataSource.bind(this),
+      stageLocalFiles: this.stageLocalFiles.bind(this),
 
       // Vector tile methods
       getTile: this.getTile.bind(this),
       getTileMetadata: this.getTileMetadata.bind(this),
       clearTileCache: this.clearTileCache.bind(this),
+      exportTileArchive: this.exportTileArchive.bind(this),
+      importTileArchive: this.importTileArchive.bind(this),
+      getTileJSON: this.getTileJSON.bind(this),
+      getTileStyle: this.getTileStyle.bind(this),
 
       // Feature query methods
       searchFeatures: this.searchFeatures.bind(this),
       getFeatureById: this.getFeatureById.bind(this),
       getFeaturesByBbox: this.getFeaturesByBbox.bind(this),
+      getFeaturesAtPoint: this.getFeaturesAtPoint.bind(this),
 
       // Cache management
       getCacheStatistics: this.getCacheStatistics.bind(this),
@@ -161,6 +181,14 @@ export class ShapesPluginAPI implements PluginAPI<ShapesAPIMethods> {
     );
   }
 
+  async stageLocalFiles(
+    nodeId: NodeId,
+    files: LocalFileUpload[],
+    options?: LocalFileStagingOptions
+  ): Promise<LocalFileStagingResult> {
+    return this.localFileImporter.stageFiles(nodeId, files, options);
+  }
+
   // === Vector Tile Methods ===
 
   async getTile(nodeId: NodeId, z: number, x: number, y: number): Promise<Uint8Array> {
@@ -175,6 +203,22 @@ export class ShapesPluginAPI implements PluginAPI<ShapesAPIMethods> {
     return this.vectorTileService.clearTileCache(nodeId);
   }
 
+  async exportTileArchive(nodeId: NodeId, options?: TileArchiveExportOptions): Promise<Uint8Array> {
+    return this.tileArchiveService.exportPMTiles(nodeId, options);
+  }
+
+  async importTileArchive(nodeId: NodeId, archive: Uint8Array | ArrayBuffer): Promise<TileSourceInfo> {
+    return this.tileArchiveService.importArchive(nodeId, archive);
+  }
+
+  async getTileJSON(nodeId: NodeId): Promise<TileJSON | null> {
+    return this.tileArchiveService.getTileJSON(nodeId);
+  }
+
+  async getTileStyle(nodeId: NodeId): Promise<TileStyle | null> {
+    return this.tileArchiveService.getTileStyle(nodeId);
+  }
+
   // === Feature Query Methods ===
 
   async searchFeatures(
@@ -192,12 +236,17 @@ export class ShapesPluginAPI implements PluginAPI<ShapesAPIMethods> {
   }
 
   async getFeaturesByBbox(
-    _nodeId: NodeId,
-    _bbox: BoundingBox,
-    _options?: BboxQueryOptions
+    nodeId: NodeId,
+    bbox: BoundingBox,
+    options: BboxQueryOptions = {}
   ): Promise<Feature[]> {
-    // Implementation will use Morton code spatial index
-    throw new Error('Not implemented');
+    const features = await shapeDB.getFeaturesInBbox(nodeId, bbox, options.adminLevel);
+    const offset = options.offset ?? 0;
+    return features.slice(offset, options.limit !== undefined ? offset + options.limit : undefined);
+  }
+
+  async getFeaturesAtPoint(nodeId: NodeId, lng: number, lat: number): Promise<Feature[]> {
+    return await shapeDB.getFeaturesAtPoint(nodeId, lng, lat);
   }
 
   // === Cache Management Methods ===
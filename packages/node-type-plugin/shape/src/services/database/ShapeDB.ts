@@ -31,6 +31,17 @@ import type {
   // Cache types
   CacheStatistics,
 } from '../../types';
+import type { TileSourceInfo } from '../types';
+import {
+  ancestorKeys,
+  bboxIntersects,
+  cellInRanges,
+  coverBbox,
+  geometryBbox,
+  geometryContainsPoint,
+  queryRanges,
+  type Bbox,
+} from './spatialIndex';
 
 // Database schema interfaces
 export interface ShapeEntityRecord extends ShapeEntity {
@@ -96,7 +107,9 @@ export interface FeatureRecord extends Feature {
 export interface FeatureIndexRecord extends FeatureIndex {
   indexId: string;
   featureId: string;
+  nodeId: NodeId;
   mortonCode: number;
+  level: number; // quadtree level of the mortonCode cell
   bbox: [number, number, number, number];
   centroid: [number, number];
   area: number;
@@ -160,6 +173,11 @@ export interface CacheEntryRecord {
   expiresAt?: number;
 }
 
+export interface TileSourceRecord extends TileSourceInfo {
+  nodeId: NodeId;
+  importedAt: number;
+}
+
 export class ShapeDB extends Dexie {
   // Core entity tables
   shapeEntities!: Table<ShapeEntityRecord, EntityId>;
@@ -179,6 +197,9 @@ export class ShapeDB extends Dexie {
   
   // Cache tables
   cache!: Table<CacheEntryRecord, string>;
+  
+  // Tiles imported from archives rather than generated from features
+  tileSources!: Table<TileSourceRecord, NodeId>;
 
   constructor() {
     super('ShapeDB');
@@ -203,6 +224,20 @@ export class ShapeDB extends Dexie {
       // Cache - LRU and size-based management
       cache: '&cacheKey, nodeId, cacheType, [cacheType+lastHit], lastHit, createdAt, size, hits'
     });
+
+    // Z-order spatial index over feature bboxes, scoped per node
+    this.version(2).stores({
+      featureIndices: '&indexId, featureId, [nodeId+mortonCode], mortonCode, [mortonCode+adminLevel], adminLevel, countryCode, area, complexity'
+    }).upgrade(async tx => {
+      const indices = tx.table('featureIndices');
+      await indices.clear();
+      const features: FeatureRecord[] = await tx.table('features').toArray();
+      await indices.bulkPut(features.flatMap(feature => this.buildFeatureIndices(feature)));
+    });
+
+    this.version(3).stores({
+      tileSources: '&nodeId, format, importedAt'
+    });
   }
 
   // Batch Session Management
@@ -270,11 +305,8 @@ export class ShapeDB extends Dexie {
 
   // Feature Management
   async storeFeature(feature: Omit<FeatureRecord, 'id'>): Promise<number> {
-    return await this.features.add({
-      ...feature,
-      createdAt: Date.now(),
-      updatedAt: Date.now()
-    } as FeatureRecord);
+    const [id] = await this.storeFeatures([feature]);
+    return id!;
   }
 
   async storeFeatures(features: Omit<FeatureRecord, 'id'>[]): Promise<number[]> {
@@ -285,7 +317,25 @@ export class ShapeDB extends Dexie {
       updatedAt: now
     } as FeatureRecord));
     
-    return await this.features.bulkAdd(featuresWithTimestamps, { allKeys: true });
+    return await this.transaction('rw', this.features, this.featureIndices, async () => {
+      const ids = await this.features.bulkAdd(featuresWithTimestamps, { allKeys: true });
+      const indices = featuresWithTimestamps.flatMap((feature, i) =>
+        this.buildFeatureIndices({ ...feature, id: ids[i]! })
+      );
+      await this.featureIndices.bulkAdd(indices);
+      return ids;
+    });
+  }
+
+  async deleteFeatures(ids: number[]): Promise<void> {
+    await this.transaction('rw', this.features, this.featureIndices, async () => {
+      await this.featureIndices.where('featureId').anyOf(ids.map(String)).delete();
+      await this.features.bulkDelete(ids);
+    });
+  }
+
+  async getFeaturesByNode(nodeId: NodeId): Promise<FeatureRecord[]> {
+    return await this.features.where('nodeId').equals(nodeId).toArray();
   }
 
   async getFeaturesInBbox(
@@ -293,21 +343,63 @@ export class ShapeDB extends Dexie {
     bbox: [number, number, number, number],
     adminLevel?: number
   ): Promise<FeatureRecord[]> {
-    let query = this.features.where('nodeId').equals(nodeId);
+    const ranges = queryRanges(bbox);
+    const byKey = this.featureIndices.where('[nodeId+mortonCode]');
+    
+    // Cells starting inside a range, plus larger cells starting before it
+    const [inRange, ancestors] = await Promise.all([
+      Promise.all(ranges.map(([start, end]) =>
+        byKey.between([nodeId, start], [nodeId, end], true, false).toArray()
+      )),
+      byKey.anyOf(ancestorKeys(ranges).map(key => [nodeId, key])).toArray()
+    ]);
     
-    if (adminLevel !== undefined) {
-      query = this.features.where('[nodeId+adminLevel]').equals([nodeId, adminLevel]);
+    const featureIds = new Set<number>();
+    for (const entry of [...inRange.flat(), ...ancestors]) {
+      if (
+        cellInRanges({ level: entry.level, key: entry.mortonCode }, ranges) &&
+        bboxIntersects(entry.bbox, bbox) &&
+        (adminLevel === undefined || entry.adminLevel === adminLevel)
+      ) {
+        featureIds.add(Number(entry.featureId));
+      }
     }
     
-    return await query
-      .filter(feature => {
-        if (!feature.bbox) return false;
-        const [minX, minY, maxX, maxY] = feature.bbox;
-        const [bMinX, bMinY, bMaxX, bMaxY] = bbox;
-        
-        return !(maxX < bMinX || minX > bMaxX || maxY < bMinY || minY > bMaxY);
-      })
-      .toArray();
+    const features = await this.features.bulkGet([...featureIds].sort((a, b) => a - b));
+    return features.filter((feature): feature is FeatureRecord => feature !== undefined);
+  }
+
+  /**
+   * Features under a point, smallest first, for click-to-identify
+   */
+  async getFeaturesAtPoint(nodeId: NodeId, lng: number, lat: number): Promise<FeatureRecord[]> {
+    const candidates = await this.getFeaturesInBbox(nodeId, [lng, lat, lng, lat]);
+    
+    return candidates
+      .filter(feature => feature.geometry && geometryContainsPoint(feature.geometry, lng, lat))
+      .map(feature => ({ feature, area: bboxArea(feature.bbox ?? geometryBbox(feature.geometry)!) }))
+      .sort((a, b) => a.area - b.area)
+      .map(({ feature }) => feature);
+  }
+
+  private buildFeatureIndices(feature: FeatureRecord): FeatureIndexRecord[] {
+    const bbox = feature.bbox ?? (feature.geometry ? geometryBbox(feature.geometry) : undefined);
+    if (!bbox) return [];
+    
+    const featureId = String(feature.id);
+    return coverBbox(bbox).map(cell => ({
+      indexId: `${featureId}:${cell.key}`,
+      featureId,
+      nodeId: feature.nodeId,
+      mortonCode: cell.key,
+      level: cell.level,
+      bbox,
+      centroid: [(bbox[0] + bbox[2]) / 2, (bbox[1] + bbox[3]) / 2],
+      area: bboxArea(bbox),
+      complexity: feature.geometry ? countPositions(feature.geometry) : 0,
+      adminLevel: feature.adminLevel,
+      countryCode: feature.countryCode
+    }));
   }
 
   async searchFeatures(
@@ -376,6 +468,10 @@ export class ShapeDB extends Dexie {
       .toArray();
   }
 
+  async getTilesByNode(nodeId: NodeId): Promise<VectorTileRecord[]> {
+    return await this.vectorTiles.where('nodeId').equals(nodeId).toArray();
+  }
+
   // Cache Management
   async setCacheEntry(entry: CacheEntryRecord): Promise<void> {
     await this.cache.put(entry);
@@ -494,5 +590,24 @@ export class ShapeDB extends Dexie {
   }
 }
 
+function bboxArea(bbox: Bbox): number {
+  return (bbox[2] - bbox[0]) * (bbox[3] - bbox[1]);
+}
+
+type Coordinates = GeoJSON.Position | Coordinates[];
+
+function isPosition(coordinates: Coordinates): coordinates is GeoJSON.Position {
+  return typeof coordinates[0] === 'number';
+}
+
+function countPositions(geometry: GeoJSON.Geometry): number {
+  if (geometry.type === 'GeometryCollection') {
+    return geometry.geometries.reduce((sum, child) => sum + countPositions(child), 0);
+  }
+  const count = (coordinates: Coordinates): number =>
+    isPosition(coordinates) ? 1 : coordinates.reduce((sum, child) => sum + count(child), 0);
+  return count(geometry.coordinates);
+}
+
 // Singleton instance
 export const shapeDB = new ShapeDB();
\ No newline at end of file
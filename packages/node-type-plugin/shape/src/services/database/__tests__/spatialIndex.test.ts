@@ -0,0 +1,155 @@
+/**
+ * Spatial index tests
+ *
+ * Z-order cell coverage and range decomposition, and ShapeDB bbox/point queries through the index.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { NodeId } from '@hierarchidb/common-core';
+import { ancestorKeys, cellInRanges, coverBbox, queryRanges, type Bbox } from '../spatialIndex';
+import { shapeDB, type FeatureRecord } from '../ShapeDB';
+
+const nodeId = 'node-spatial' as NodeId;
+
+const square = (
+  minX: number,
+  minY: number,
+  maxX: number,
+  maxY: number,
+  hole?: Bbox
+): GeoJSON.Polygon => {
+  const ring = ([x0, y0, x1, y1]: Bbox) => [
+    [x0, y0],
+    [x1, y0],
+    [x1, y1],
+    [x0, y1],
+    [x0, y0],
+  ];
+  return {
+    type: 'Polygon',
+    coordinates: hole
+      ? [ring([minX, minY, maxX, maxY]), ring(hole)]
+      : [ring([minX, minY, maxX, maxY])],
+  };
+};
+
+const feature = (name: string, geometry: GeoJSON.Geometry, extra: Partial<FeatureRecord> = {}) =>
+  ({ type: 'Feature', nodeId, properties: { name }, geometry, ...extra }) as Omit<
+    FeatureRecord,
+    'id'
+  >;
+
+/** Whether the index finds a feature with this bbox for this query, as the DB does */
+const found = (featureBbox: Bbox, query: Bbox) => {
+  const ranges = queryRanges(query);
+  const ancestors = new Set(ancestorKeys(ranges));
+  return coverBbox(featureBbox).some(
+    (cell) =>
+      cellInRanges(cell, ranges) &&
+      (ranges.some(([start, end]) => cell.key >= start && cell.key < end) ||
+        ancestors.has(cell.key))
+  );
+};
+
+describe('spatialIndex', () => {
+  it('indexes a feature under at most four cells at the deepest fitting level', () => {
+    expect(coverBbox([139.7, 35.6, 139.7001, 35.6001])).toHaveLength(1);
+    expect(coverBbox([139.7, 35.6, 139.7001, 35.6001])[0]!.level).toBe(16);
+    // A bbox straddling the origin falls into 2x2 cells at a coarse level
+    const cells = coverBbox([-1, -1, 1, 1]);
+    expect(cells).toHaveLength(4);
+    expect(cells[0]!.level).toBeLessThan(8);
+    expect(coverBbox([-180, -90, 180, 90]).map((cell) => cell.level)).toEqual([1, 1, 1, 1]);
+  });
+
+  it('decomposes queries into bounded, sorted, disjoint ranges', () => {
+    const ranges = queryRanges([-10.5, 20.25, 33.3, 61.7]);
+    expect(ranges.length).toBeGreaterThan(1);
+    expect(ranges.length).toBeLessThanOrEqual(64);
+    ranges.forEach(([start, end], i) => {
+      expect(start).toBeLessThan(end);
+      if (i > 0) expect(start).toBeGreaterThan(ranges[i - 1]![1]);
+    });
+  });
+
+  it('never misses a feature whose bbox intersects the query', () => {
+    let seed = 7;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const box = (maxSize: number): Bbox => {
+      const w = random() * maxSize;
+      const h = random() * maxSize;
+      const x = -180 + random() * (360 - w);
+      const y = -90 + random() * (180 - h);
+      return [x, y, x + w, y + h];
+    };
+
+    for (let i = 0; i < 300; i++) {
+      const query = box(i % 3 === 0 ? 120 : 5);
+      const target = box(i % 2 === 0 ? 0.01 : 40);
+      const intersects = !(
+        target[2] < query[0] ||
+        target[0] > query[2] ||
+        target[3] < query[1] ||
+        target[1] > query[3]
+      );
+      if (intersects) {
+        expect(found(target, query)).toBe(true);
+      }
+    }
+  });
+
+  it('answers bbox queries through the index and keeps it in sync on delete', async () => {
+    const [tokyo, osaka, world] = await shapeDB.storeFeatures([
+      feature('Tokyo', square(139, 35, 140, 36), { adminLevel: 1 }),
+      feature('Osaka', square(135, 34, 136, 35), { adminLevel: 1 }),
+      feature('World', square(-170, -80, 170, 80), { adminLevel: 0 }),
+      { ...feature('Other node', square(139, 35, 140, 36)), nodeId: 'node-other' as NodeId },
+    ]);
+
+    const names = (features: FeatureRecord[]) => features.map((f) => f.properties.name);
+    const tokyoCells = await shapeDB.featureIndices
+      .where('featureId')
+      .equals(String(tokyo))
+      .count();
+    expect(tokyoCells).toBeGreaterThan(0);
+    expect(tokyoCells).toBeLessThanOrEqual(4);
+    expect(names(await shapeDB.getFeaturesInBbox(nodeId, [139.5, 35.5, 139.6, 35.6]))).toEqual([
+      'Tokyo',
+      'World',
+    ]);
+    expect(names(await shapeDB.getFeaturesInBbox(nodeId, [130, 30, 150, 40], 1))).toEqual([
+      'Tokyo',
+      'Osaka',
+    ]);
+    expect(names(await shapeDB.getFeaturesInBbox(nodeId, [175, 85, 179, 89]))).toEqual([]);
+
+    await shapeDB.deleteFeatures([osaka!, world!]);
+    expect(names(await shapeDB.getFeaturesInBbox(nodeId, [130, 30, 150, 40]))).toEqual(['Tokyo']);
+    expect(
+      await shapeDB.featureIndices.where('featureId').anyOf(String(osaka), String(world)).count()
+    ).toBe(0);
+  });
+
+  it('identifies the features under a point, smallest first, honouring holes', async () => {
+    await shapeDB.storeFeatures([
+      feature('Country', square(0, 0, 10, 10, [4, 4, 6, 6])),
+      feature('Region', square(1, 1, 3, 3)),
+      feature('Capital', { type: 'Point', coordinates: [2, 2] }),
+      feature('Road', {
+        type: 'LineString',
+        coordinates: [
+          [0, 2],
+          [5, 2],
+        ],
+      }),
+    ]);
+
+    const identify = async (lng: number, lat: number) =>
+      (await shapeDB.getFeaturesAtPoint(nodeId, lng, lat)).map((f) => f.properties.name);
+
+    expect(await identify(2, 2)).toEqual(['Capital', 'Region', 'Country']);
+    expect(await identify(2.5, 1.5)).toEqual(['Region', 'Country']);
+    expect(await identify(5, 5)).toEqual([]);
+    expect(await identify(20, 20)).toEqual([]);
+  });
+});
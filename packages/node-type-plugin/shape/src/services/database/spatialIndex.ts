@@ -0,0 +1,255 @@
+/**
+ * Z-order (Morton) spatial index helpers for ShapeDB
+ *
+ * The world (lng -180..180, lat -90..90) is split into a quadtree of up to MAX_LEVEL levels.
+ * A feature is stored under the 1-4 cells of the deepest level where its bbox spans at most
+ * 2x2 cells. Every cell key is expressed on the MAX_LEVEL Z-curve, so a cell at level l
+ * covers the contiguous key interval [key, key + 4^(MAX_LEVEL - l)).
+ *
+ * A bbox query is decomposed into a bounded number of key ranges. Cells starting inside a
+ * range are found by range scans; larger cells that start before a range contain its first
+ * key, so they are found by looking up the ancestors of each range start.
+ */
+
+export const MAX_LEVEL = 16;
+export const MAX_QUERY_RANGES = 64;
+
+export type Bbox = [number, number, number, number]; // [minLng, minLat, maxLng, maxLat]
+
+/** [start, end) on the MAX_LEVEL Z-curve */
+export type KeyRange = [number, number];
+
+export interface SpatialCell {
+  level: number;
+  key: number;
+}
+
+interface Cell {
+  level: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * Cells a feature with this bbox is indexed under
+ */
+export function coverBbox(bbox: Bbox): SpatialCell[] {
+  for (let level = MAX_LEVEL; level >= 0; level--) {
+    const [x0, y0, x1, y1] = cellSpan(bbox, level);
+    if (x1 - x0 <= 1 && y1 - y0 <= 1) {
+      const cells: SpatialCell[] = [];
+      for (let x = x0; x <= x1; x++) {
+        for (let y = y0; y <= y1; y++) {
+          cells.push({ level, key: cellKey({ level, x, y }) });
+        }
+      }
+      return cells;
+    }
+  }
+  return [{ level: 0, key: 0 }];
+}
+
+/**
+ * Key ranges covering a query bbox, merged and sorted
+ * Cells only partly inside the bbox are refined until `maxRanges` would be exceeded,
+ * so the ranges may cover slightly more than the bbox but never less.
+ */
+export function queryRanges(bbox: Bbox, maxRanges: number = MAX_QUERY_RANGES): KeyRange[] {
+  const ranges: KeyRange[] = [];
+  let frontier: Cell[] = [{ level: 0, x: 0, y: 0 }];
+
+  while (frontier.length > 0) {
+    const partial: Cell[] = [];
+    for (const cell of frontier) {
+      const bounds = cellBbox(cell);
+      if (!bboxIntersects(bounds, bbox)) {
+        continue;
+      }
+      if (cell.level === MAX_LEVEL || bboxContains(bbox, bounds)) {
+        ranges.push(cellRange(cell));
+      } else {
+        partial.push(cell);
+      }
+    }
+    if (ranges.length + partial.length * 4 > maxRanges) {
+      ranges.push(...partial.map(cellRange));
+      break;
+    }
+    frontier = partial.flatMap(children);
+  }
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: KeyRange[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && last[1] >= range[0]) {
+      last[1] = Math.max(last[1], range[1]);
+    } else {
+      merged.push([range[0], range[1]]);
+    }
+  }
+  return merged;
+}
+
+/**
+ * Keys of the coarser cells containing each range start
+ */
+export function ancestorKeys(ranges: KeyRange[]): number[] {
+  const keys = new Set<number>();
+  for (const [start] of ranges) {
+    for (let level = 0; level < MAX_LEVEL; level++) {
+      const size = cellSize(level);
+      const key = Math.floor(start / size) * size;
+      if (key < start) {
+        keys.add(key);
+      }
+    }
+  }
+  return [...keys];
+}
+
+/**
+ * Whether an indexed cell overlaps any of the (sorted) query ranges
+ */
+export function cellInRanges(cell: SpatialCell, ranges: KeyRange[]): boolean {
+  const end = cell.key + cellSize(cell.level);
+  return ranges.some(([start, stop]) => cell.key < stop && end > start);
+}
+
+export function bboxIntersects(a: Bbox, b: Bbox): boolean {
+  return !(a[2] < b[0] || a[0] > b[2] || a[3] < b[1] || a[1] > b[3]);
+}
+
+/**
+ * Bounding box of a GeoJSON geometry
+ */
+export function geometryBbox(geometry: GeoJSON.Geometry): Bbox | undefined {
+  const bbox: Bbox = [Infinity, Infinity, -Infinity, -Infinity];
+  const visit = (coordinates: unknown): void => {
+    if (!Array.isArray(coordinates)) {
+      return;
+    }
+    if (typeof coordinates[0] === 'number') {
+      const [lng, lat] = coordinates as number[];
+      bbox[0] = Math.min(bbox[0], lng!);
+      bbox[1] = Math.min(bbox[1], lat!);
+      bbox[2] = Math.max(bbox[2], lng!);
+      bbox[3] = Math.max(bbox[3], lat!);
+      return;
+    }
+    coordinates.forEach(visit);
+  };
+
+  if (geometry.type === 'GeometryCollection') {
+    geometry.geometries.forEach((child) => {
+      const childBbox = geometryBbox(child);
+      if (childBbox) visit([childBbox.slice(0, 2), childBbox.slice(2)]);
+    });
+  } else {
+    visit(geometry.coordinates);
+  }
+  return bbox[0] <= bbox[2] ? bbox : undefined;
+}
+
+/**
+ * Whether a point lies on a Point/MultiPoint or inside a Polygon/MultiPolygon (holes excluded)
+ * Lines have no area to click inside, so they never contain a point.
+ */
+export function geometryContainsPoint(
+  geometry: GeoJSON.Geometry,
+  lng: number,
+  lat: number
+): boolean {
+  switch (geometry.type) {
+    case 'Point':
+      return geometry.coordinates[0] === lng && geometry.coordinates[1] === lat;
+    case 'MultiPoint':
+      return geometry.coordinates.some(([x, y]) => x === lng && y === lat);
+    case 'Polygon':
+      return polygonContainsPoint(geometry.coordinates, lng, lat);
+    case 'MultiPolygon':
+      return geometry.coordinates.some((polygon) => polygonContainsPoint(polygon, lng, lat));
+    case 'GeometryCollection':
+      return geometry.geometries.some((child) => geometryContainsPoint(child, lng, lat));
+    default:
+      return false;
+  }
+}
+
+function polygonContainsPoint(rings: GeoJSON.Position[][], lng: number, lat: number): boolean {
+  const [outer, ...holes] = rings;
+  return (
+    !!outer &&
+    ringContainsPoint(outer, lng, lat) &&
+    !holes.some((hole) => ringContainsPoint(hole, lng, lat))
+  );
+}
+
+/** Even-odd ray casting */
+function ringContainsPoint(ring: GeoJSON.Position[], lng: number, lat: number): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i]!;
+    const [xj, yj] = ring[j]!;
+    if (yi! > lat !== yj! > lat && lng < ((xj! - xi!) * (lat - yi!)) / (yj! - yi!) + xi!) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function bboxContains(outer: Bbox, inner: Bbox): boolean {
+  return (
+    outer[0] <= inner[0] && outer[1] <= inner[1] && outer[2] >= inner[2] && outer[3] >= inner[3]
+  );
+}
+
+function cellSpan(bbox: Bbox, level: number): Bbox {
+  const n = 2 ** level;
+  const x = (lng: number) => Math.min(n - 1, Math.max(0, Math.floor(((lng + 180) / 360) * n)));
+  const y = (lat: number) => Math.min(n - 1, Math.max(0, Math.floor(((lat + 90) / 180) * n)));
+  return [x(bbox[0]), y(bbox[1]), x(bbox[2]), y(bbox[3])];
+}
+
+function cellBbox({ level, x, y }: Cell): Bbox {
+  const n = 2 ** level;
+  return [
+    (x / n) * 360 - 180,
+    (y / n) * 180 - 90,
+    ((x + 1) / n) * 360 - 180,
+    ((y + 1) / n) * 180 - 90,
+  ];
+}
+
+function children({ level, x, y }: Cell): Cell[] {
+  return [
+    { level: level + 1, x: x * 2, y: y * 2 },
+    { level: level + 1, x: x * 2 + 1, y: y * 2 },
+    { level: level + 1, x: x * 2, y: y * 2 + 1 },
+    { level: level + 1, x: x * 2 + 1, y: y * 2 + 1 },
+  ];
+}
+
+function cellSize(level: number): number {
+  return 4 ** (MAX_LEVEL - level);
+}
+
+function cellKey(cell: Cell): number {
+  // Arithmetic rather than bitwise OR: 32-bit codes overflow JS signed bit operations
+  return (spreadBits(cell.x) + spreadBits(cell.y) * 2) * cellSize(cell.level);
+}
+
+function cellRange(cell: Cell): KeyRange {
+  const key = cellKey(cell);
+  return [key, key + cellSize(cell.level)];
+}
+
+/** Interleave a 16-bit value with zero bits: abcd -> 0a0b0c0d */
+function spreadBits(value: number): number {
+  let v = value & 0xffff;
+  v = (v | (v << 8)) & 0x00ff00ff;
+  v = (v | (v << 4)) & 0x0f0f0f0f;
+  v = (v | (v << 2)) & 0x33333333;
+  v = (v | (v << 1)) & 0x55555555;
+  return v;
+}
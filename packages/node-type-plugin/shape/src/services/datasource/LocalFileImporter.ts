@@ -0,0 +1,112 @@
+/**
+ * LocalFileImporter - Stages uploaded boundary files for batch processing
+ *
+ * Handles:
+ * - Parsing GeoJSON, TopoJSON, zipped Shapefiles and GeoPackages
+ * - Reprojection to WGS84
+ * - Storing each layer as a download-stage feature buffer
+ * - local:// URL metadata so the batch pipeline reads buffers instead of fetching
+ */
+
+import type { NodeId } from '@hierarchidb/common-core';
+import { shapeDB, type FeatureBufferRecord } from '../database/ShapeDB';
+import { parseLocalFile } from './localFile';
+import type { LocalFileSource, UrlMetadata } from '../../types';
+import type { LocalFileStagingOptions, LocalFileStagingResult, LocalFileUpload } from '../types';
+
+export const LOCAL_FILE_URL_PREFIX = 'local://';
+
+export function isLocalFileUrl(url: string): boolean {
+  return url.startsWith(LOCAL_FILE_URL_PREFIX);
+}
+
+export function localFileBufferId(url: string): string {
+  return url.slice(LOCAL_FILE_URL_PREFIX.length);
+}
+
+export class LocalFileImporter {
+  /**
+   * Parse files and replace the node's staged local layers with their contents
+   */
+  async stageFiles(
+    nodeId: NodeId,
+    files: LocalFileUpload[],
+    options: LocalFileStagingOptions = {}
+  ): Promise<LocalFileStagingResult> {
+    const { adminLevel = 0 } = options;
+    const encoder = new TextEncoder();
+    const now = Date.now();
+    const buffers: FeatureBufferRecord[] = [];
+    const sources: LocalFileSource[] = [];
+
+    // Parse everything first so a bad file leaves the previous upload in place
+    for (const file of files) {
+      const parsed = await parseLocalFile(file.name, file.data);
+      parsed.layers.forEach((layer, index) => {
+        const bufferId = `local-${nodeId}-${now}-${buffers.length}`;
+        const data = encoder.encode(JSON.stringify(layer.collection));
+        buffers.push({
+          bufferId,
+          nodeId,
+          stage: 'download',
+          data,
+          format: 'geojson',
+          featureCount: layer.collection.features.length,
+          byteSize: data.byteLength,
+          createdAt: now,
+          metadata: {
+            source: 'local',
+            fileName: file.name,
+            fileFormat: parsed.format,
+            layerName: layer.name,
+            sourceCrs: layer.sourceCrs,
+          },
+        });
+        sources.push({
+          fileName: file.name,
+          format: parsed.format,
+          layerName: layer.name,
+          featureCount: layer.collection.features.length,
+          sourceCrs: layer.sourceCrs,
+          url: `${LOCAL_FILE_URL_PREFIX}${bufferId}`,
+          // File-level warnings are reported once, on the file's first layer
+          warnings: index === 0 ? parsed.warnings : [],
+        });
+      });
+    }
+
+    await shapeDB.transaction('rw', shapeDB.featureBuffers, async () => {
+      await this.clearStagedFiles(nodeId);
+      await shapeDB.featureBuffers.bulkPut(buffers);
+    });
+
+    const urlMetadata: UrlMetadata[] = sources.map((source, i) => ({
+      url: source.url,
+      countryCode: '',
+      adminLevel,
+      continent: '',
+      estimatedSize: buffers[i]!.byteSize,
+      lastUpdated: new Date(now).toISOString(),
+    }));
+    return { sources, urlMetadata };
+  }
+
+  async clearStagedFiles(nodeId: NodeId): Promise<void> {
+    await shapeDB.featureBuffers
+      .where('[nodeId+stage]')
+      .equals([nodeId, 'download'])
+      .filter((buffer) => buffer.metadata?.source === 'local')
+      .delete();
+  }
+
+  /**
+   * Staged GeoJSON behind a local:// URL
+   */
+  async readStagedFile(url: string): Promise<Uint8Array> {
+    const buffer = await shapeDB.getFeatureBuffer(localFileBufferId(url));
+    if (!buffer) {
+      throw new Error(`Local file ${url} is no longer staged; upload it again`);
+    }
+    return buffer.data;
+  }
+}
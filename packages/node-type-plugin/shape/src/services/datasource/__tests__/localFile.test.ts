@@ -0,0 +1,316 @@
+/**
+ * Local file data source tests
+ *
+ * Format parsing of hand-built files and staging into download-stage feature buffers.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import pako from 'pako';
+import type { NodeId } from '@hierarchidb/common-core';
+import { parseLocalFile } from '../localFile';
+import { LocalFileImporter, isLocalFileUrl } from '../LocalFileImporter';
+import { shapeDB } from '../../database/ShapeDB';
+
+// vitest.setup stubs topojson-client for the workers; TopoJSON parsing needs the real one
+vi.unmock('topojson-client');
+
+const UTM_54N =
+  'PROJCS["WGS_1984_UTM_Zone_54N",GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",500000.0],PARAMETER["False_Northing",0.0],PARAMETER["Central_Meridian",141.0],PARAMETER["Scale_Factor",0.9996],PARAMETER["Latitude_Of_Origin",0.0],UNIT["Meter",1.0]]';
+
+const text = (value: string) => new TextEncoder().encode(value);
+
+/** Polygon .shp with one record per polygon; rings as given */
+function shp(polygons: number[][][][]): Uint8Array {
+  const records = polygons.map((rings) => {
+    const points = rings.flat();
+    const content = new DataView(new ArrayBuffer(44 + rings.length * 4 + points.length * 16));
+    content.setInt32(0, 5, true);
+    content.setInt32(36, rings.length, true);
+    content.setInt32(40, points.length, true);
+    let start = 0;
+    rings.forEach((ring, i) => {
+      content.setInt32(44 + i * 4, start, true);
+      start += ring.length;
+    });
+    points.forEach(([x, y], i) => {
+      content.setFloat64(44 + rings.length * 4 + i * 16, x!, true);
+      content.setFloat64(52 + rings.length * 4 + i * 16, y!, true);
+    });
+    return new Uint8Array(content.buffer);
+  });
+
+  const length = 100 + records.reduce((sum, record) => sum + 8 + record.length, 0);
+  const file = new Uint8Array(length);
+  const view = new DataView(file.buffer);
+  view.setInt32(0, 9994);
+  view.setInt32(24, length / 2);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, 5, true);
+  let offset = 100;
+  records.forEach((record, i) => {
+    view.setInt32(offset, i + 1);
+    view.setInt32(offset + 4, record.length / 2);
+    file.set(record, offset + 8);
+    offset += 8 + record.length;
+  });
+  return file;
+}
+
+/** dBASE III table; values are written as UTF-8 */
+function dbf(fields: Array<[name: string, type: string, length: number]>, rows: string[][]) {
+  const headerLength = 32 + fields.length * 32 + 1;
+  const recordLength = 1 + fields.reduce((sum, [, , length]) => sum + length, 0);
+  const file = new Uint8Array(headerLength + rows.length * recordLength + 1).fill(
+    0x20,
+    headerLength
+  );
+  const view = new DataView(file.buffer);
+  file[0] = 0x03;
+  view.setUint32(4, rows.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+  fields.forEach(([name, type, length], i) => {
+    file.set(text(name), 32 + i * 32);
+    file[32 + i * 32 + 11] = type.charCodeAt(0);
+    file[32 + i * 32 + 16] = length;
+  });
+  file[headerLength - 1] = 0x0d;
+  rows.forEach((row, r) => {
+    let offset = headerLength + r * recordLength + 1;
+    row.forEach((value, i) => {
+      file.set(text(value).subarray(0, fields[i]![2]), offset);
+      offset += fields[i]![2];
+    });
+  });
+  file[file.length - 1] = 0x1a;
+  return file;
+}
+
+/** ZIP archive; entries ending in .shp are deflated, the rest stored */
+function zip(entries: Record<string, Uint8Array>): Uint8Array {
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+  for (const [path, data] of Object.entries(entries)) {
+    const deflate = path.endsWith('.shp');
+    const body = deflate ? pako.deflateRaw(data) : data;
+    const name = text(path);
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(6, 0x800, true);
+    local.setUint16(8, deflate ? 8 : 0, true);
+    local.setUint32(18, body.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    locals.push(new Uint8Array(local.buffer), name, body);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(8, 0x800, true);
+    central.setUint16(10, deflate ? 8 : 0, true);
+    central.setUint32(20, body.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centrals.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + body.length;
+  }
+
+  const directorySize = centrals.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, centrals.length / 2, true);
+  end.setUint16(10, centrals.length / 2, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, new Uint8Array(end.buffer)];
+  const file = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    file.set(part, position);
+    position += part.length;
+  }
+  return file;
+}
+
+const square = (cx: number, cy: number, half: number, clockwise: boolean) => {
+  const ring = [
+    [cx - half, cy - half],
+    [cx - half, cy + half],
+    [cx + half, cy + half],
+    [cx + half, cy - half],
+    [cx - half, cy - half],
+  ];
+  return clockwise ? ring : ring.reverse();
+};
+
+describe('parseLocalFile', () => {
+  it('reads a zipped Shapefile, reprojecting UTM to WGS84 and nesting holes', async () => {
+    // 2 km square centred on 141°E 36°N in UTM 54N, with a 1 km hole
+    const archive = zip({
+      'wards/wards.shp': shp([
+        [square(500000, 3983948.45, 1000, true), square(500000, 3983948.45, 500, false)],
+      ]),
+      'wards/wards.dbf': dbf(
+        [
+          ['NAME', 'C', 20],
+          ['POP', 'N', 10],
+          ['ACTIVE', 'L', 1],
+        ],
+        [['東京', '13960000', 'T']]
+      ),
+      'wards/wards.prj': text(UTM_54N),
+      'wards/wards.cpg': text('UTF-8'),
+    });
+
+    const result = await parseLocalFile('wards.zip', archive);
+    expect(result).toMatchObject({ format: 'shapefile', featureCount: 1, warnings: [] });
+    const [layer] = result.layers;
+    expect(layer).toMatchObject({ name: 'wards', sourceCrs: 'WGS_1984_UTM_Zone_54N' });
+
+    const [feature] = layer!.collection.features;
+    expect(feature!.properties).toEqual({ NAME: '東京', POP: 13960000, ACTIVE: true });
+    const [outer, hole] = (feature!.geometry as GeoJSON.Polygon).coordinates;
+    expect(hole).toBeDefined();
+    const lngs = outer!.map(([lng]) => lng!);
+    const lats = outer!.map(([, lat]) => lat!);
+    expect((Math.min(...lngs) + Math.max(...lngs)) / 2).toBeCloseTo(141, 6);
+    expect((Math.min(...lats) + Math.max(...lats)) / 2).toBeCloseTo(36, 3);
+    expect(Math.max(...lngs) - Math.min(...lngs)).toBeCloseTo(2000 / 90180, 3);
+    // RFC 7946: outer ring counter-clockwise (second vertex east of the first)
+    expect(outer![1]![0]).toBeGreaterThan(outer![0]![0]!);
+  });
+
+  it('reads every TopoJSON object as a layer', async () => {
+    const topology = {
+      type: 'Topology',
+      transform: { scale: [0.01, 0.01], translate: [135, 34] },
+      objects: {
+        prefectures: {
+          type: 'GeometryCollection',
+          geometries: [{ type: 'Polygon', arcs: [[0]], properties: { name: 'Osaka' } }],
+        },
+        capital: { type: 'Point', coordinates: [50, 70], properties: { name: 'Osaka City' } },
+      },
+      arcs: [
+        [
+          [0, 0],
+          [100, 0],
+          [0, 100],
+          [-100, 0],
+          [0, -100],
+        ],
+      ],
+    };
+
+    const result = await parseLocalFile('kansai.topojson', text(JSON.stringify(topology)));
+    expect(result.format).toBe('topojson');
+    expect(result.layers.map((layer) => layer.name)).toEqual(['prefectures', 'capital']);
+    expect(result.layers[0]!.collection.features[0]).toMatchObject({
+      properties: { name: 'Osaka' },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [135, 34],
+            [136, 34],
+            [136, 35],
+            [135, 35],
+            [135, 34],
+          ],
+        ],
+      },
+    });
+    expect(result.layers[1]!.collection.features[0]!.geometry).toEqual({
+      type: 'Point',
+      coordinates: [135.5, 34.7],
+    });
+  });
+
+  it('honours a legacy GeoJSON crs and refuses projected coordinates it cannot place', async () => {
+    const webMercator = {
+      type: 'FeatureCollection',
+      crs: { type: 'name', properties: { name: 'urn:ogc:def:crs:EPSG::3857' } },
+      features: [
+        {
+          type: 'Feature',
+          properties: null,
+          geometry: { type: 'Point', coordinates: [-11169055.58, 2800000] },
+        },
+        { type: 'Feature', properties: {}, geometry: null },
+      ],
+    };
+    const result = await parseLocalFile('point.geojson', text(JSON.stringify(webMercator)));
+    const point = result.layers[0]!.collection.features[0]!;
+    expect(point.properties).toEqual({});
+    expect((point.geometry as GeoJSON.Point).coordinates[0]).toBeCloseTo(-100.333333, 6);
+    expect((point.geometry as GeoJSON.Point).coordinates[1]).toBeCloseTo(24.381787, 6);
+    expect(result.warnings).toEqual(['point: skipped 1 features without geometry']);
+
+    const { crs: _crs, ...unlabelled } = webMercator;
+    await expect(parseLocalFile('point.geojson', text(JSON.stringify(unlabelled)))).rejects.toThrow(
+      'looks projected'
+    );
+    await expect(parseLocalFile('notes.txt', text('not json'))).rejects.toThrow(
+      'not a supported file'
+    );
+  });
+});
+
+describe('LocalFileImporter', () => {
+  const nodeId = 'node-local-files' as NodeId;
+  const collection = (name: string) =>
+    text(
+      JSON.stringify({
+        type: 'FeatureCollection',
+        features: [
+          {
+            type: 'Feature',
+            properties: { name },
+            geometry: { type: 'Point', coordinates: [1, 2] },
+          },
+        ],
+      })
+    );
+
+  it('stages layers as download buffers behind local:// URLs, replacing earlier uploads', async () => {
+    const importer = new LocalFileImporter();
+    await importer.stageFiles(nodeId, [{ name: 'old.geojson', data: collection('Old') }]);
+
+    const { sources, urlMetadata } = await importer.stageFiles(
+      nodeId,
+      [{ name: 'towns.geojson', data: collection('Town') }],
+      { adminLevel: 2 }
+    );
+    expect(sources).toMatchObject([
+      {
+        fileName: 'towns.geojson',
+        format: 'geojson',
+        layerName: 'towns',
+        featureCount: 1,
+        sourceCrs: 'WGS 84',
+      },
+    ]);
+    expect(urlMetadata).toMatchObject([{ url: sources[0]!.url, adminLevel: 2 }]);
+    expect(isLocalFileUrl(sources[0]!.url)).toBe(true);
+
+    const buffers = await shapeDB.getBuffersByStage(nodeId, 'download');
+    expect(buffers).toHaveLength(1);
+    expect(buffers[0]).toMatchObject({
+      format: 'geojson',
+      featureCount: 1,
+      metadata: { source: 'local' },
+    });
+
+    const staged = JSON.parse(
+      new TextDecoder().decode(await importer.readStagedFile(sources[0]!.url))
+    );
+    expect(staged.features[0].properties).toEqual({ name: 'Town' });
+
+    await expect(
+      importer.stageFiles(nodeId, [{ name: 'broken.geojson', data: text('{') }])
+    ).rejects.toThrow('not a supported file');
+    expect(await shapeDB.getBuffersByStage(nodeId, 'download')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * GeoPackage reader
+ *
+ * Reads every feature table listed in gpkg_contents, decoding GeoPackage geometry
+ * blobs (GP header + WKB) and reprojecting them with the table's spatial reference.
+ * See https://www.geopackage.org/spec/
+ */
+
+import {
+  WGS84,
+  coordinateSystemFromEpsg,
+  parseCoordinateSystem,
+  type CoordinateSystem,
+} from '@hierarchidb/feature-import-export-plugin';
+import { SQLiteReader, type SqlRow } from './sqlite';
+
+export interface GeoPackageLayer {
+  name: string;
+  features: GeoJSON.Feature[];
+  coordinateSystem: CoordinateSystem;
+}
+
+export function readGeoPackage(data: Uint8Array, warnings: string[]): GeoPackageLayer[] {
+  const db = new SQLiteReader(data);
+  if (!db.hasTable('gpkg_contents') || !db.hasTable('gpkg_geometry_columns')) {
+    throw new Error('Not a GeoPackage: gpkg_contents table missing (is this an MBTiles file?)');
+  }
+
+  const geometryColumns = new Map<string, SqlRow>();
+  for (const row of db.rows('gpkg_geometry_columns')) {
+    geometryColumns.set(String(row.table_name).toLowerCase(), row);
+  }
+  const spatialRefs = new Map<number, SqlRow>();
+  if (db.hasTable('gpkg_spatial_ref_sys')) {
+    for (const row of db.rows('gpkg_spatial_ref_sys')) {
+      spatialRefs.set(Number(row.srs_id), row);
+    }
+  }
+
+  const layers: GeoPackageLayer[] = [];
+  for (const contents of db.rows('gpkg_contents')) {
+    if (contents.data_type !== 'features') continue;
+    const table = String(contents.table_name);
+    const geometry = geometryColumns.get(table.toLowerCase());
+    if (!geometry || !db.hasTable(table)) {
+      warnings.push(`GeoPackage layer ${table} has no geometry column and was skipped`);
+      continue;
+    }
+
+    const geometryColumn = String(geometry.column_name);
+    const coordinateSystem = spatialReference(spatialRefs.get(Number(geometry.srs_id)));
+    const features: GeoJSON.Feature[] = [];
+    for (const row of db.rows(table)) {
+      const properties: Record<string, unknown> = {};
+      for (const [column, value] of Object.entries(row)) {
+        // Blobs other than the geometry have no GeoJSON representation
+        if (column !== geometryColumn && !(value instanceof Uint8Array)) {
+          properties[column] = value;
+        }
+      }
+      const blob = row[geometryColumn];
+      features.push({
+        type: 'Feature',
+        ...(typeof row.fid === 'number' && { id: row.fid }),
+        properties,
+        geometry: (blob instanceof Uint8Array ? readGeometryBlob(blob) : null) as GeoJSON.Geometry,
+      });
+    }
+    layers.push({ name: String(contents.identifier ?? table), features, coordinateSystem });
+  }
+
+  if (layers.length === 0) {
+    throw new Error('GeoPackage contains no feature layers');
+  }
+  return layers;
+}
+
+function spatialReference(row: SqlRow | undefined): CoordinateSystem {
+  if (!row) {
+    return WGS84;
+  }
+  const srsId = Number(row.srs_id);
+  // -1 and 0 are the spec's undefined cartesian and geographic systems
+  if (srsId === 0 || srsId === -1) {
+    return WGS84;
+  }
+  const definition = typeof row.definition === 'string' ? row.definition.trim() : '';
+  if (definition && definition.toLowerCase() !== 'undefined') {
+    return parseCoordinateSystem(definition);
+  }
+  return coordinateSystemFromEpsg(Number(row.organization_coordsys_id));
+}
+
+/** GeoPackage binary: "GP", version, flags, srs_id, optional envelope, then WKB */
+export function readGeometryBlob(blob: Uint8Array): GeoJSON.Geometry | null {
+  if (blob[0] !== 0x47 || blob[1] !== 0x50) {
+    throw new Error('Invalid GeoPackage geometry blob');
+  }
+  const flags = blob[3]!;
+  if (flags & 0x10) {
+    return null;
+  }
+  const envelopeSize = [0, 32, 48, 48, 64][(flags >> 1) & 0x07] ?? 0;
+  return readWkb(blob.subarray(8 + envelopeSize));
+}
+
+/**
+ * Well-known binary to GeoJSON, accepting ISO (1000/2000/3000) and EWKB (high bit)
+ * dimension flags; Z and M values are dropped
+ */
+export function readWkb(data: Uint8Array): GeoJSON.Geometry | null {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  let offset = 0;
+
+  const read = (): GeoJSON.Geometry | null => {
+    const littleEndian = view.getUint8(offset) === 1;
+    const rawType = view.getUint32(offset + 1, littleEndian);
+    offset += 5;
+    if (rawType & 0x20000000) {
+      offset += 4; // EWKB SRID
+    }
+    const isoDimensions = Math.floor((rawType & 0xffff) / 1000);
+    const type = (rawType & 0xffff) % 1000;
+    const hasZ = (rawType & 0x80000000) !== 0 || isoDimensions === 1 || isoDimensions === 3;
+    const hasM = (rawType & 0x40000000) !== 0 || isoDimensions === 2 || isoDimensions === 3;
+    const stride = 16 + (hasZ ? 8 : 0) + (hasM ? 8 : 0);
+
+    const uint32 = () => {
+      const value = view.getUint32(offset, littleEndian);
+      offset += 4;
+      return value;
+    };
+    const position = () => {
+      const x = view.getFloat64(offset, littleEndian);
+      const y = view.getFloat64(offset + 8, littleEndian);
+      offset += stride;
+      return [x, y];
+    };
+    const positions = () => Array.from({ length: uint32() }, position);
+    const rings = () => Array.from({ length: uint32() }, positions);
+    const members = <T extends GeoJSON.Geometry>() =>
+      Array.from({ length: uint32() }, read).filter((member): member is T => member !== null);
+
+    switch (type) {
+      case 1: {
+        const coordinates = position();
+        return coordinates.some(Number.isNaN) ? null : { type: 'Point', coordinates };
+      }
+      case 2:
+        return { type: 'LineString', coordinates: positions() };
+      case 3:
+        return { type: 'Polygon', coordinates: rings() };
+      case 4:
+        return {
+          type: 'MultiPoint',
+          coordinates: members<GeoJSON.Point>().map((point) => point.coordinates),
+        };
+      case 5:
+        return {
+          type: 'MultiLineString',
+          coordinates: members<GeoJSON.LineString>().map((line) => line.coordinates),
+        };
+      case 6:
+        return {
+          type: 'MultiPolygon',
+          coordinates: members<GeoJSON.Polygon>().map((polygon) => polygon.coordinates),
+        };
+      case 7:
+        return { type: 'GeometryCollection', geometries: members() };
+      default:
+        throw new Error(`Unsupported WKB geometry type ${rawType}`);
+    }
+  };
+
+  return read();
+}
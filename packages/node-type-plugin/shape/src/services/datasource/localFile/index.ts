@@ -0,0 +1,222 @@
+/**
+ * Local boundary file parsing
+ *
+ * Detects GeoJSON, TopoJSON, zipped Shapefiles and GeoPackages from their content,
+ * and returns their layers as WGS84 GeoJSON ready for the batch pipeline.
+ * Shapefiles are read with the import-export plugin's Shapefile codec.
+ */
+
+import JSZip from 'jszip';
+import * as topojsonClient from 'topojson-client';
+import {
+  WGS84,
+  coordinateSystemFromEpsg,
+  epsgCodeOf,
+  isShp,
+  readShapefileLayers,
+  transformGeometry,
+  type CoordinateSystem,
+  type ShapefileLayer,
+} from '@hierarchidb/feature-import-export-plugin';
+import { geometryBbox } from '../../database/spatialIndex';
+import { readGeoPackage } from './geopackage';
+import { isSQLite } from './sqlite';
+
+export type LocalFileFormat = 'geojson' | 'topojson' | 'shapefile' | 'geopackage';
+
+export const LOCAL_FILE_EXTENSIONS = ['.geojson', '.json', '.topojson', '.zip', '.shp', '.gpkg'];
+
+export interface LocalFileLayer {
+  name: string;
+  /** Features reprojected to WGS84 longitude/latitude */
+  collection: GeoJSON.FeatureCollection;
+  /** Coordinate system the file was authored in */
+  sourceCrs: string;
+}
+
+export interface LocalFileParseResult {
+  fileName: string;
+  format: LocalFileFormat;
+  layers: LocalFileLayer[];
+  featureCount: number;
+  warnings: string[];
+}
+
+type Topology = Parameters<typeof topojsonClient.feature>[0];
+
+interface RawLayer {
+  name: string;
+  features: GeoJSON.Feature[];
+  coordinateSystem: CoordinateSystem;
+}
+
+/**
+ * Parse an uploaded boundary file into WGS84 layers
+ */
+export async function parseLocalFile(
+  fileName: string,
+  content: ArrayBuffer | Uint8Array
+): Promise<LocalFileParseResult> {
+  const data = content instanceof Uint8Array ? content : new Uint8Array(content);
+  const warnings: string[] = [];
+  const { format, layers } = await readLayers(fileName, data, warnings);
+
+  const parsed = layers.map((layer) => toWgs84(layer, warnings));
+  return {
+    fileName,
+    format,
+    layers: parsed,
+    featureCount: parsed.reduce((sum, layer) => sum + layer.collection.features.length, 0),
+    warnings,
+  };
+}
+
+async function readLayers(
+  fileName: string,
+  data: Uint8Array,
+  warnings: string[]
+): Promise<{ format: LocalFileFormat; layers: RawLayer[] }> {
+  const extension = extensionOf(fileName);
+  const baseName = fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]*$/, '');
+
+  // Zip archives start with a local file header, "PK\x03\x04"
+  if (data.length >= 4 && data[0] === 0x50 && data[1] === 0x4b && data[2] === 3 && data[3] === 4) {
+    return readZipLayers(data, warnings);
+  }
+  if (isSQLite(data)) {
+    return { format: 'geopackage', layers: readGeoPackage(data, warnings) };
+  }
+  if (isShp(data)) {
+    warnings.push(
+      `${fileName} was uploaded without its .dbf and .prj; features have no attributes and coordinates are read as WGS84`
+    );
+    const layers = await readShapefileLayers(data, { layerName: baseName });
+    return { format: 'shapefile', layers: layers.map((layer) => shapefileLayer(layer, warnings)) };
+  }
+  if (['.dbf', '.shx', '.prj', '.cpg'].includes(extension)) {
+    throw new Error(`Upload Shapefiles as a .zip containing the .shp, .dbf and .prj files`);
+  }
+
+  let json: any;
+  try {
+    json = JSON.parse(new TextDecoder().decode(data));
+  } catch {
+    throw new Error(
+      `${fileName} is not a supported file; expected GeoJSON, TopoJSON, a zipped Shapefile or a GeoPackage`
+    );
+  }
+  if (json?.type === 'Topology') {
+    return { format: 'topojson', layers: readTopology(json as Topology) };
+  }
+  return { format: 'geojson', layers: [readGeoJSON(baseName, json)] };
+}
+
+async function readZipLayers(
+  data: Uint8Array,
+  warnings: string[]
+): Promise<{ format: LocalFileFormat; layers: RawLayer[] }> {
+  const zip = await JSZip.loadAsync(data);
+  const entries = zip.file(/.*/).filter((entry) => !entry.name.startsWith('__MACOSX/'));
+
+  if (!entries.some((entry) => extensionOf(entry.name) === '.shp')) {
+    // Archives may also wrap a single GeoJSON, TopoJSON or GeoPackage file
+    const inner = entries.find((entry) =>
+      ['.geojson', '.json', '.topojson', '.gpkg'].includes(extensionOf(entry.name))
+    );
+    if (!inner) {
+      throw new Error('The archive contains no .shp, GeoJSON, TopoJSON or GeoPackage file');
+    }
+    return readLayers(inner.name, await inner.async('uint8array'), warnings);
+  }
+
+  const layers = await readShapefileLayers(data);
+  return { format: 'shapefile', layers: layers.map((layer) => shapefileLayer(layer, warnings)) };
+}
+
+/** The codec has already reprojected the layer; its CRS name is kept for the source info */
+function shapefileLayer(
+  { name, records, sourceCrs, warnings: layerWarnings }: ShapefileLayer,
+  warnings: string[]
+): RawLayer {
+  warnings.push(...layerWarnings);
+  return {
+    name,
+    features: records.map(({ geometry, ...properties }) => ({
+      type: 'Feature',
+      properties,
+      geometry: geometry as GeoJSON.Geometry,
+    })),
+    coordinateSystem: { ...WGS84, name: sourceCrs },
+  };
+}
+
+function readTopology(topology: Topology): RawLayer[] {
+  return Object.entries(topology.objects ?? {}).map(([name, object]) => {
+    const result = topojsonClient.feature(topology, object) as
+      | GeoJSON.Feature
+      | GeoJSON.FeatureCollection;
+    return {
+      name,
+      features: result.type === 'FeatureCollection' ? result.features : [result],
+      coordinateSystem: WGS84,
+    };
+  });
+}
+
+function readGeoJSON(name: string, json: any): RawLayer {
+  let features: GeoJSON.Feature[];
+  if (json?.type === 'FeatureCollection' && Array.isArray(json.features)) {
+    features = json.features;
+  } else if (json?.type === 'Feature') {
+    features = [json];
+  } else if (typeof json?.type === 'string' && ('coordinates' in json || 'geometries' in json)) {
+    features = [{ type: 'Feature', properties: {}, geometry: json }];
+  } else {
+    throw new Error(`${name} is JSON but not GeoJSON or TopoJSON`);
+  }
+
+  // RFC 7946 dropped "crs", but older exports still name a projected CRS with it
+  const crsName = json.crs?.properties?.name;
+  const code = typeof crsName === 'string' ? epsgCodeOf(crsName) : undefined;
+  return { name, features, coordinateSystem: code ? coordinateSystemFromEpsg(code) : WGS84 };
+}
+
+function toWgs84(
+  { name, features, coordinateSystem }: RawLayer,
+  warnings: string[]
+): LocalFileLayer {
+  const reproject = coordinateSystem.unproject !== WGS84.unproject;
+  const wgs84: GeoJSON.Feature[] = [];
+  let missingGeometry = 0;
+
+  for (const feature of features) {
+    if (!feature?.geometry) {
+      missingGeometry++;
+      continue;
+    }
+    const geometry = reproject
+      ? (transformGeometry(feature.geometry, coordinateSystem.unproject) as GeoJSON.Geometry)
+      : feature.geometry;
+    const bbox = geometryBbox(geometry);
+    if (bbox && (bbox[0] < -180.5 || bbox[2] > 180.5 || bbox[1] < -90.5 || bbox[3] > 90.5)) {
+      throw new Error(
+        `${name}: coordinates lie outside longitude/latitude range; the file looks projected but its coordinate system is unknown`
+      );
+    }
+    wgs84.push({ ...feature, properties: feature.properties ?? {}, geometry });
+  }
+
+  if (missingGeometry > 0) {
+    warnings.push(`${name}: skipped ${missingGeometry} features without geometry`);
+  }
+  return {
+    name,
+    collection: { type: 'FeatureCollection', features: wgs84 },
+    sourceCrs: coordinateSystem.name,
+  };
+}
+
+function extensionOf(path: string): string {
+  const match = /\.[^./\\]+$/.exec(path);
+  return match ? match[0].toLowerCase() : '';
+}
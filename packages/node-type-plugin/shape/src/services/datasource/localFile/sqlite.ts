@@ -0,0 +1,252 @@
+/**
+ * Read-only SQLite database reader
+ *
+ * Walks table b-trees of a database file held in memory, enough to read GeoPackages
+ * without a WASM SQLite build. Rowid tables only; indices, WITHOUT ROWID tables and
+ * pending WAL content are ignored.
+ * See https://www.sqlite.org/fileformat2.html
+ */
+
+const SQLITE_MAGIC = 'SQLite format 3\0';
+
+const enum PageType {
+  InteriorTable = 0x05,
+  LeafTable = 0x0d,
+}
+
+export type SqlValue = null | number | string | Uint8Array;
+export type SqlRow = Record<string, SqlValue>;
+
+interface TableSchema {
+  name: string;
+  rootPage: number;
+  columns: string[];
+  /** Column declared INTEGER PRIMARY KEY, stored as the rowid */
+  rowidColumn?: number;
+}
+
+export function isSQLite(data: Uint8Array): boolean {
+  return new TextDecoder().decode(data.subarray(0, SQLITE_MAGIC.length)) === SQLITE_MAGIC;
+}
+
+export class SQLiteReader {
+  private readonly view: DataView;
+  private readonly pageSize: number;
+  private readonly usableSize: number;
+  private readonly text = new TextDecoder();
+  private readonly tables = new Map<string, TableSchema>();
+
+  constructor(private readonly data: Uint8Array) {
+    if (data.length < 100 || !isSQLite(data)) {
+      throw new Error('Not an SQLite database');
+    }
+    this.view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+    const pageSize = this.view.getUint16(16);
+    this.pageSize = pageSize === 1 ? 65536 : pageSize;
+    this.usableSize = this.pageSize - data[20]!;
+    if (this.view.getUint32(56) > 1) {
+      throw new Error('Only UTF-8 SQLite databases are supported');
+    }
+
+    for (const { values } of this.scan(1)) {
+      const [type, name, , rootPage, sql] = values;
+      if (type === 'table' && typeof name === 'string' && typeof sql === 'string') {
+        this.tables.set(name.toLowerCase(), {
+          name,
+          rootPage: Number(rootPage),
+          ...parseColumns(sql),
+        });
+      }
+    }
+  }
+
+  hasTable(name: string): boolean {
+    return this.tables.has(name.toLowerCase());
+  }
+
+  columns(table: string): string[] {
+    return this.schema(table).columns;
+  }
+
+  /**
+   * Every row of a table, in rowid order
+   */
+  *rows(table: string): Generator<SqlRow> {
+    const { columns, rootPage, rowidColumn } = this.schema(table);
+    for (const { rowid, values } of this.scan(rootPage)) {
+      const row: SqlRow = {};
+      columns.forEach((column, i) => {
+        // Columns added by ALTER TABLE are absent from older records
+        row[column] = i === rowidColumn ? rowid : (values[i] ?? null);
+      });
+      yield row;
+    }
+  }
+
+  private schema(table: string): TableSchema {
+    const schema = this.tables.get(table.toLowerCase());
+    if (!schema) {
+      throw new Error(`Table ${table} not found`);
+    }
+    return schema;
+  }
+
+  private *scan(page: number): Generator<{ rowid: number; values: SqlValue[] }> {
+    const start = (page - 1) * this.pageSize;
+    // Page 1 starts with the 100-byte database header
+    const header = page === 1 ? 100 : start;
+    const type = this.data[header]!;
+    const cellCount = this.view.getUint16(header + 3);
+
+    if (type === PageType.InteriorTable) {
+      for (let i = 0; i < cellCount; i++) {
+        const cell = start + this.view.getUint16(header + 12 + i * 2);
+        yield* this.scan(this.view.getUint32(cell));
+      }
+      yield* this.scan(this.view.getUint32(header + 8));
+      return;
+    }
+    if (type !== PageType.LeafTable) {
+      throw new Error(`Unexpected b-tree page type ${type} on page ${page}`);
+    }
+
+    for (let i = 0; i < cellCount; i++) {
+      let offset = start + this.view.getUint16(header + 8 + i * 2);
+      const [payloadSize, sizeLength] = this.varint(offset);
+      offset += sizeLength;
+      const [rowid, rowidLength] = this.varint(offset);
+      offset += rowidLength;
+      yield { rowid, values: this.record(this.payload(offset, payloadSize)) };
+    }
+  }
+
+  /** Cell payload, following the overflow page chain when it does not fit the page */
+  private payload(offset: number, size: number): Uint8Array {
+    const maxLocal = this.usableSize - 35;
+    if (size <= maxLocal) {
+      return this.data.subarray(offset, offset + size);
+    }
+    const minLocal = Math.floor(((this.usableSize - 12) * 32) / 255) - 23;
+    const candidate = minLocal + ((size - minLocal) % (this.usableSize - 4));
+    const local = candidate <= maxLocal ? candidate : minLocal;
+
+    const payload = new Uint8Array(size);
+    payload.set(this.data.subarray(offset, offset + local));
+    let written = local;
+    let next = this.view.getUint32(offset + local);
+    while (next !== 0 && written < size) {
+      const pageStart = (next - 1) * this.pageSize;
+      const chunk = Math.min(size - written, this.usableSize - 4);
+      payload.set(this.data.subarray(pageStart + 4, pageStart + 4 + chunk), written);
+      written += chunk;
+      next = this.view.getUint32(pageStart);
+    }
+    return payload;
+  }
+
+  private record(payload: Uint8Array): SqlValue[] {
+    const view = new DataView(payload.buffer, payload.byteOffset, payload.byteLength);
+    const [headerSize, headerSizeLength] = readVarint(payload, 0);
+    const types: number[] = [];
+    for (let offset = headerSizeLength; offset < headerSize; ) {
+      const [type, length] = readVarint(payload, offset);
+      types.push(type);
+      offset += length;
+    }
+
+    const values: SqlValue[] = [];
+    let offset = headerSize;
+    for (const type of types) {
+      if (type === 0) {
+        values.push(null);
+      } else if (type >= 1 && type <= 6) {
+        const size = [1, 2, 3, 4, 6, 8][type - 1]!;
+        values.push(readInteger(view, offset, size));
+        offset += size;
+      } else if (type === 7) {
+        values.push(view.getFloat64(offset));
+        offset += 8;
+      } else if (type === 8 || type === 9) {
+        values.push(type - 8);
+      } else if (type >= 12) {
+        const size = Math.floor((type - 12) / 2);
+        const bytes = payload.subarray(offset, offset + size);
+        values.push(type % 2 === 0 ? bytes : this.text.decode(bytes));
+        offset += size;
+      }
+    }
+    return values;
+  }
+
+  private varint(offset: number): [number, number] {
+    return readVarint(this.data, offset);
+  }
+}
+
+/** SQLite varint: big-endian 7-bit groups, the ninth byte contributing all 8 bits */
+function readVarint(data: Uint8Array, offset: number): [number, number] {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = data[offset + i]!;
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) {
+      return [value, i + 1];
+    }
+  }
+  return [value * 256 + data[offset + 8]!, 9];
+}
+
+function readInteger(view: DataView, offset: number, size: number): number {
+  let value = view.getInt8(offset);
+  for (let i = 1; i < size; i++) {
+    value = value * 256 + view.getUint8(offset + i);
+  }
+  return value;
+}
+
+/** Column names of a CREATE TABLE statement */
+function parseColumns(sql: string): Pick<TableSchema, 'columns' | 'rowidColumn'> {
+  const body = sql.slice(sql.indexOf('(') + 1, sql.lastIndexOf(')'));
+  const definitions: string[] = [];
+  let depth = 0;
+  let quote: string | undefined;
+  let current = '';
+  for (const char of body) {
+    if (quote) {
+      if (char === quote) quote = undefined;
+    } else if (char === '"' || char === "'" || char === '`') {
+      quote = char;
+    } else if (char === '[') {
+      quote = ']';
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      definitions.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  definitions.push(current);
+
+  const columns: string[] = [];
+  let rowidColumn: number | undefined;
+  for (const definition of definitions.map((value) => value.trim())) {
+    if (/^(constraint|primary|unique|check|foreign)\b/i.test(definition)) {
+      continue;
+    }
+    const match = /^("(?:[^"]|"")*"|`[^`]*`|\[[^\]]*\]|'[^']*'|\S+)\s*(.*)$/s.exec(definition);
+    if (!match) continue;
+    const name = /^["`['].*["`\]']$/.test(match[1]!)
+      ? match[1]!.slice(1, -1).replace(/""/g, '"')
+      : match[1]!;
+    // Constraints may precede PRIMARY KEY, as in "INTEGER NOT NULL PRIMARY KEY"
+    if (/^integer\b.*\bprimary\s+key\b(?!\s+desc)/is.test(match[2]!)) {
+      rowidColumn = columns.length;
+    }
+    columns.push(name);
+  }
+  return { columns, rowidColumn };
+}
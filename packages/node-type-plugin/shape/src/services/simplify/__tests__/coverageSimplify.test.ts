@@ -0,0 +1,199 @@
+/**
+ * Topology-preserving simplification tests
+ *
+ * Shared-edge arcs, Douglas-Peucker / Visvalingam-Whyatt ranks, and sliver/gap counting
+ * on two neighbouring polygons with a wiggly common border.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { Position } from 'geojson';
+import { arcIndex, buildArcTopology } from '../arcs';
+import { countSliversAndGaps, findBoundaryMismatches } from '../coverageQuality';
+import { filterByRank, rankVertices, toleranceForZoom } from '../lineSimplify';
+import { CoverageSimplifier } from '..';
+
+// Runs north from (0,0) to (0,10), wandering up to 0.4 degrees either side
+const border: Position[] = [
+  [0, 0],
+  [0.3, 1],
+  [-0.2, 2],
+  [0.4, 3],
+  [-0.1, 4],
+  [0.2, 5],
+  [-0.3, 6],
+  [0.1, 7],
+  [-0.4, 8],
+  [0.2, 9],
+  [0, 10],
+];
+
+const west = (line: Position[]): GeoJSON.Polygon => ({
+  type: 'Polygon',
+  coordinates: [[[-10, 0], ...line, [-10, 10], [-10, 0]]],
+});
+
+const east = (line: Position[]): GeoJSON.Polygon => ({
+  type: 'Polygon',
+  coordinates: [[[10, 0], [10, 10], ...[...line].reverse(), [10, 0]]],
+});
+
+const island: GeoJSON.Polygon = {
+  type: 'Polygon',
+  coordinates: [
+    [
+      [20, 0],
+      [21, 0],
+      [21, 1],
+      [20, 1],
+      [20, 0],
+    ],
+  ],
+};
+
+// Border vertices a polygon kept, south to north
+const borderOf = (geometry: GeoJSON.Geometry | null) =>
+  (geometry as GeoJSON.Polygon).coordinates[0]!.slice(1)
+    .filter(([x]) => x !== -10 && x !== 10)
+    .sort((a, b) => a[1]! - b[1]!);
+
+const douglasPeucker = (points: Position[], tolerance: number): Position[] => {
+  const [x0, y0] = points[0]!;
+  const [x1, y1] = points[points.length - 1]!;
+  let maxDistance = 0;
+  let maxIndex = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const [x, y] = points[i]!;
+    const distance =
+      Math.abs((y1! - y0!) * x! - (x1! - x0!) * y! + x1! * y0! - y1! * x0!) /
+      Math.hypot(x1! - x0!, y1! - y0!);
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      maxIndex = i;
+    }
+  }
+  if (maxDistance <= tolerance) return [points[0]!, points[points.length - 1]!];
+  return [
+    ...douglasPeucker(points.slice(0, maxIndex + 1), tolerance).slice(0, -1),
+    ...douglasPeucker(points.slice(maxIndex), tolerance),
+  ];
+};
+
+describe('buildArcTopology', () => {
+  it('stores a common border once and references it from both sides', () => {
+    const topology = buildArcTopology([west(border), east(border), island]);
+
+    expect(topology.arcs).toHaveLength(4);
+    const [westRefs, eastRefs] = topology.polygons.map((polygons) => polygons![0]![0]!);
+    const shared = westRefs!.filter((ref) =>
+      eastRefs!.some((other) => arcIndex(other) === arcIndex(ref))
+    );
+    expect(shared).toHaveLength(1);
+    expect(eastRefs).toContain(~arcIndex(shared[0]!));
+    expect(topology.arcs[arcIndex(shared[0]!)]).toEqual(border);
+
+    // The island has no junctions and becomes one closed arc
+    expect(topology.polygons[2]).toEqual([[[3]]]);
+  });
+});
+
+describe('vertex ranks', () => {
+  it('filters Douglas-Peucker ranks to the same result as recursive simplification', () => {
+    const ranks = rankVertices(border, 'douglas-peucker');
+    expect(ranks[0]).toBe(Infinity);
+    expect(ranks[border.length - 1]).toBe(Infinity);
+    for (const tolerance of [0, 0.05, 0.2, 0.3, 0.35, 0.5]) {
+      expect(filterByRank(border, ranks, tolerance)).toEqual(douglasPeucker(border, tolerance));
+    }
+  });
+
+  it('eliminates the smallest Visvalingam-Whyatt triangles first with monotonic ranks', () => {
+    const line: Position[] = [
+      [0, 0],
+      [1, 0.1],
+      [2, 0],
+      [3, 2],
+      [5, 0],
+    ];
+    const ranks = rankVertices(line, 'visvalingam');
+    // The 0.1 triangle goes first, after which (2,0) spans an area of 2 and the peak 5
+    expect([...ranks.slice(1, -1)].map((rank) => +rank.toFixed(6))).toEqual([0.1, 2, 5]);
+    expect(filterByRank(line, ranks, 0.5)).toEqual([
+      [0, 0],
+      [2, 0],
+      [3, 2],
+      [5, 0],
+    ]);
+    expect(filterByRank(line, ranks, 2.5)).toEqual([
+      [0, 0],
+      [3, 2],
+      [5, 0],
+    ]);
+  });
+
+  it('scales tolerances from zoom 8 by distance or area', () => {
+    expect(toleranceForZoom('douglas-peucker', 0.01, 10)).toBeCloseTo(0.0025);
+    expect(toleranceForZoom('visvalingam', 0.01, 10)).toBeCloseTo(0.000625);
+    expect(toleranceForZoom('douglas-peucker', 0.01, 7)).toBeCloseTo(0.02);
+  });
+});
+
+describe('CoverageSimplifier', () => {
+  it.each(['douglas-peucker', 'visvalingam'] as const)(
+    'keeps neighbours on one simplified border at every zoom level (%s)',
+    (algorithm) => {
+      const simplifier = new CoverageSimplifier([west(border), east(border), island], algorithm);
+      const levels = simplifier.simplifyLevels(1, [6, 8, 10, 12]);
+
+      for (const level of levels) {
+        const [westGeometry, eastGeometry] = level.geometries;
+        expect(borderOf(westGeometry!)).toEqual(borderOf(eastGeometry!));
+        expect(level.quality.sliverCount).toBe(0);
+        expect(level.quality.gapCount).toBe(0);
+      }
+
+      // Coarser levels keep fewer vertices, and the 1x1 island collapses at low zoom
+      const vertexCounts = levels.map((level) => level.quality.vertexCount);
+      expect(vertexCounts).toEqual([...vertexCounts].sort((a, b) => a - b));
+      expect(levels[0]!.quality.collapsedFeatures).toBe(1);
+      expect(levels[0]!.geometries[2]).toBeNull();
+      expect(levels[3]!.geometries[2]).toEqual(island);
+    }
+  );
+
+  it('passes non-polygonal geometries through as null', () => {
+    const simplifier = new CoverageSimplifier(
+      [west(border), { type: 'Point', coordinates: [0, 0] }],
+      'douglas-peucker'
+    );
+    expect(simplifier.simplify(0.1)[1]).toBeNull();
+    expect(simplifier.topology.polygons[1]).toBeNull();
+  });
+});
+
+describe('sliver and gap detection', () => {
+  it('counts overlaps and gaps where neighbours simplify their border differently', () => {
+    const topology = buildArcTopology([west(border), east(border)]);
+    // West keeps the (0.4,3) bulge east and the (-0.4,8) bulge west; east straightens the border
+    const westBorder: Position[] = [
+      [0, 0],
+      [0.4, 3],
+      [-0.4, 8],
+      [0, 10],
+    ];
+    const straight: Position[] = [
+      [0, 0],
+      [0, 10],
+    ];
+
+    expect(countSliversAndGaps(topology, [west(westBorder), east(straight)])).toEqual({
+      sliverCount: 1,
+      gapCount: 1,
+    });
+    expect(countSliversAndGaps(topology, [west(straight), east(straight)])).toEqual({
+      sliverCount: 0,
+      gapCount: 0,
+    });
+    expect(findBoundaryMismatches([west(westBorder), east(straight)])).toEqual([[0, 1]]);
+    expect(findBoundaryMismatches([west(westBorder), east(westBorder)])).toEqual([]);
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Shared-edge arc topology for polygon coverages
+ *
+ * Polygon rings are cut at junctions (vertices where the neighbouring boundary changes)
+ * into arcs, TopoJSON style. A border between two polygons becomes one arc referenced by
+ * both rings, so simplifying each arc once keeps neighbours gap- and sliver-free.
+ * Vertices are matched by exact coordinates, as in boundaries cut from a single dataset.
+ */
+
+import type { Geometry, MultiPolygon, Polygon, Position } from 'geojson';
+
+/** Arc reference; ~index (negative) when the ring traverses the arc backwards */
+export type ArcRef = number;
+
+/** Polygons -> rings -> arc references */
+export type PolygonArcs = ArcRef[][][];
+
+export interface ArcTopology {
+  arcs: Position[][];
+  /** Per input geometry; null for non-polygonal or empty geometries */
+  polygons: (PolygonArcs | null)[];
+  types: (Polygon['type'] | MultiPolygon['type'] | null)[];
+}
+
+export function pointKey(point: Position): string {
+  return `${point[0]},${point[1]}`;
+}
+
+export function arcIndex(ref: ArcRef): number {
+  return ref < 0 ? ~ref : ref;
+}
+
+export function buildArcTopology(geometries: (Geometry | null | undefined)[]): ArcTopology {
+  const rings: Position[][] = [];
+  const polygonRings = geometries.map((geometry) =>
+    polygonsOf(geometry)?.map((polygon) =>
+      polygon.map((ring) => {
+        const open = openRing(ring);
+        rings.push(open);
+        return open;
+      })
+    )
+  );
+
+  const junctions = findJunctions(rings);
+  const arcs: Position[][] = [];
+  const arcsByKey = new Map<string, number>();
+
+  const addArc = (arc: Position[], closed: boolean): ArcRef => {
+    const forward = arc.map(pointKey).join(';');
+    const existing = arcsByKey.get(forward);
+    if (existing !== undefined) return existing;
+
+    const reversed = closed
+      ? [arc[0]!, ...arc.slice(1, -1).reverse(), arc[0]!]
+      : [...arc].reverse();
+    const backward = arcsByKey.get(reversed.map(pointKey).join(';'));
+    if (backward !== undefined) return ~backward;
+
+    arcs.push(arc);
+    arcsByKey.set(forward, arcs.length - 1);
+    return arcs.length - 1;
+  };
+
+  const ringArcs = (ring: Position[]): ArcRef[] => {
+    const cuts = ring.flatMap((point, i) => (junctions.has(pointKey(point)) ? [i] : []));
+    if (cuts.length === 0) {
+      // A ring without junctions is one closed arc, started at a canonical vertex
+      const start = ring.reduce(
+        (best, point, i) => (pointKey(point) < pointKey(ring[best]!) ? i : best),
+        0
+      );
+      const rotated = [...ring.slice(start), ...ring.slice(0, start)];
+      return [addArc([...rotated, rotated[0]!], true)];
+    }
+
+    const rotated = [...ring.slice(cuts[0]), ...ring.slice(0, cuts[0]), ring[cuts[0]!]!];
+    const offsets = [
+      ...cuts.map((cut) => (cut - cuts[0]! + ring.length) % ring.length),
+      ring.length,
+    ];
+    return offsets
+      .slice(0, -1)
+      .map((offset, i) => addArc(rotated.slice(offset, offsets[i + 1]! + 1), false));
+  };
+
+  return {
+    arcs,
+    polygons: polygonRings.map(
+      (polygons) =>
+        polygons
+          ?.filter((polygon) => polygon[0]!.length >= 3)
+          .map((polygon) => polygon.filter((ring) => ring.length >= 3).map(ringArcs)) ?? null
+    ),
+    types: geometries.map((geometry) =>
+      geometry?.type === 'Polygon' || geometry?.type === 'MultiPolygon' ? geometry.type : null
+    ),
+  };
+}
+
+/**
+ * Reassemble geometries from (possibly simplified) arcs. Rings left with fewer than three
+ * distinct vertices or no area are dropped, as are polygons that lose their outer ring.
+ */
+export function rebuildGeometries(topology: ArcTopology, arcs: Position[][]): (Geometry | null)[] {
+  return topology.polygons.map((polygons, g) => {
+    if (!polygons) return null;
+    const coordinates = polygons
+      .map((polygon) => {
+        const rings = polygon.map((refs) => ringCoordinates(refs, arcs));
+        if (!isValidRing(rings[0]!)) return null;
+        return [rings[0]!, ...rings.slice(1).filter(isValidRing)];
+      })
+      .filter((polygon): polygon is Position[][] => polygon !== null);
+
+    if (coordinates.length === 0) return null;
+    return topology.types[g] === 'Polygon' && coordinates.length === 1
+      ? { type: 'Polygon', coordinates: coordinates[0]! }
+      : { type: 'MultiPolygon', coordinates };
+  });
+}
+
+export function ringCoordinates(refs: ArcRef[], arcs: Position[][]): Position[] {
+  const ring: Position[] = [];
+  for (const ref of refs) {
+    const arc = arcs[arcIndex(ref)]!;
+    const points = ref < 0 ? [...arc].reverse() : arc;
+    ring.push(...(ring.length > 0 ? points.slice(1) : points));
+  }
+  return ring;
+}
+
+/** Shoelace area; positive for counter-clockwise rings */
+export function signedArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += (ring[j]![0]! - ring[i]![0]!) * (ring[j]![1]! + ring[i]![1]!);
+  }
+  return area / 2;
+}
+
+function isValidRing(ring: Position[]): boolean {
+  return ring.length >= 4 && signedArea(ring) !== 0;
+}
+
+function polygonsOf(geometry: Geometry | null | undefined): Position[][][] | null {
+  if (geometry?.type === 'Polygon') return [geometry.coordinates];
+  if (geometry?.type === 'MultiPolygon') return geometry.coordinates;
+  return null;
+}
+
+/** Drop the closing vertex and consecutive duplicates */
+function openRing(ring: Position[]): Position[] {
+  const open: Position[] = [];
+  for (const point of ring) {
+    const last = open[open.length - 1];
+    if (!last || last[0] !== point[0] || last[1] !== point[1]) {
+      open.push(point);
+    }
+  }
+  const first = open[0];
+  const last = open[open.length - 1];
+  if (open.length > 1 && first![0] === last![0] && first![1] === last![1]) {
+    open.pop();
+  }
+  return open;
+}
+
+/**
+ * A vertex is a junction when rings pass through it with different neighbours
+ */
+function findJunctions(rings: Position[][]): Set<string> {
+  const neighbours = new Map<string, string>();
+  const junctions = new Set<string>();
+
+  for (const ring of rings) {
+    if (ring.length < 3) continue;
+    const keys = ring.map(pointKey);
+    keys.forEach((key, i) => {
+      const before = keys[(i + keys.length - 1) % keys.length]!;
+      const after = keys[(i + 1) % keys.length]!;
+      const pair = before < after ? `${before}|${after}` : `${after}|${before}`;
+      const seen = neighbours.get(key);
+      if (seen === undefined) {
+        neighbours.set(key, pair);
+      } else if (seen !== pair) {
+        junctions.add(key);
+      }
+    });
+  }
+  return junctions;
+}
@@ -0,0 +1,247 @@
+/**
+ * Coverage quality checks for simplified polygons
+ *
+ * Slivers (overlaps) and gaps appear where two neighbours simplify their common border
+ * differently. Because simplification only removes vertices, each neighbour's version of
+ * the border is a subset of the original arc's vertices, so the two versions can be
+ * compared stretch by stretch between the vertices both of them kept.
+ */
+
+import type { Geometry, Position } from 'geojson';
+import { arcIndex, pointKey, ringCoordinates, signedArea, type ArcTopology } from './arcs';
+
+export interface CoverageDiscrepancies {
+  sliverCount: number;
+  gapCount: number;
+}
+
+interface ArcSide {
+  geometry: number;
+  /** Whether the polygon's interior lies left of the arc in its stored direction */
+  interiorLeft: boolean;
+}
+
+// Divergences smaller than this (in square degrees) are rounding noise
+const AREA_EPSILON = 1e-12;
+
+/**
+ * Count slivers and gaps between neighbours of the original topology in a simplified
+ * version of the same geometries (matched by index)
+ */
+export function countSliversAndGaps(
+  original: ArcTopology,
+  simplified: (Geometry | null)[]
+): CoverageDiscrepancies {
+  const result: CoverageDiscrepancies = { sliverCount: 0, gapCount: 0 };
+  const vertexSets = new Map<number, Set<string>>();
+  const verticesOf = (g: number) => {
+    let keys = vertexSets.get(g);
+    if (!keys) {
+      keys = new Set();
+      collectVertexKeys(simplified[g], keys);
+      vertexSets.set(g, keys);
+    }
+    return keys;
+  };
+
+  arcSides(original).forEach((sides, i) => {
+    if (sides.length !== 2 || sides[0]!.geometry === sides[1]!.geometry) return;
+    const [a, b] = sides as [ArcSide, ArcSide];
+    if (!simplified[a.geometry] || !simplified[b.geometry]) return;
+
+    const arc = original.arcs[i]!;
+    const keysA = verticesOf(a.geometry);
+    const keysB = verticesOf(b.geometry);
+    const keptA = arc.map(
+      (point, j) => j === 0 || j === arc.length - 1 || keysA.has(pointKey(point))
+    );
+    const keptB = arc.map(
+      (point, j) => j === 0 || j === arc.length - 1 || keysB.has(pointKey(point))
+    );
+
+    let anchor = 0;
+    for (let j = 1; j < arc.length; j++) {
+      if (!keptA[j] || !keptB[j]) continue;
+      const pathA: Position[] = [arc[anchor]!];
+      const pathB: Position[] = [arc[anchor]!];
+      for (let k = anchor + 1; k < j; k++) {
+        if (keptA[k]) pathA.push(arc[k]!);
+        if (keptB[k]) pathB.push(arc[k]!);
+      }
+      pathA.push(arc[j]!);
+      pathB.push(arc[j]!);
+      anchor = j;
+      if (pathA.length === 2 && pathB.length === 2) continue;
+
+      for (const area of regionAreas(pathA, pathB)) {
+        if (Math.abs(area) <= AREA_EPSILON) continue;
+        // Counter-clockwise (positive) when A's version of the border runs right of B's
+        if (area > 0 === a.interiorLeft) {
+          result.sliverCount++;
+        } else {
+          result.gapCount++;
+        }
+      }
+    }
+  });
+  return result;
+}
+
+/**
+ * Feature pairs whose common border is traced differently, found without the original
+ * geometries: a segment whose ends both lie on a neighbour that does not share the segment
+ */
+export function findBoundaryMismatches(
+  geometries: (Geometry | null | undefined)[]
+): [number, number][] {
+  const owners = new Map<string, Set<number>>();
+  const segments = geometries.map((geometry, g) => {
+    const keys = new Set<string>();
+    forEachRing(geometry, (ring) => {
+      for (let i = 0; i < ring.length; i++) {
+        const key = pointKey(ring[i]!);
+        if (!owners.has(key)) owners.set(key, new Set());
+        owners.get(key)!.add(g);
+        if (i > 0) keys.add(segmentKey(ring[i - 1]!, ring[i]!));
+      }
+    });
+    return keys;
+  });
+
+  const mismatches = new Map<string, [number, number]>();
+  geometries.forEach((geometry, g) => {
+    forEachRing(geometry, (ring) => {
+      for (let i = 1; i < ring.length; i++) {
+        const start = owners.get(pointKey(ring[i - 1]!))!;
+        const end = owners.get(pointKey(ring[i]!))!;
+        const segment = segmentKey(ring[i - 1]!, ring[i]!);
+        for (const other of start) {
+          if (other !== g && end.has(other) && !segments[other]!.has(segment)) {
+            const pair: [number, number] = g < other ? [g, other] : [other, g];
+            mismatches.set(pair.join(','), pair);
+          }
+        }
+      }
+    });
+  });
+  return [...mismatches.values()];
+}
+
+export function countVertices(geometries: (Geometry | null)[]): number {
+  let count = 0;
+  for (const geometry of geometries) {
+    forEachRing(geometry, (ring) => {
+      count += ring.length;
+    });
+  }
+  return count;
+}
+
+/**
+ * Signed areas of the regions enclosed by two paths sharing their end points, split
+ * where the paths cross
+ */
+function regionAreas(pathA: Position[], pathB: Position[]): number[] {
+  const crossings: { a: number; b: number }[] = [];
+  for (let i = 1; i < pathA.length; i++) {
+    for (let j = 1; j < pathB.length; j++) {
+      const hit = segmentIntersection(pathA[i - 1]!, pathA[i]!, pathB[j - 1]!, pathB[j]!);
+      if (hit) crossings.push({ a: i - 1 + hit[0], b: j - 1 + hit[1] });
+    }
+  }
+  crossings.sort((x, y) => x.a - y.a);
+
+  const breaksA = [0, ...crossings.map((crossing) => crossing.a), pathA.length - 1];
+  const breaksB = [0, ...crossings.map((crossing) => crossing.b), pathB.length - 1];
+  if (breaksB.some((value, i) => i > 0 && value < breaksB[i - 1]!)) {
+    // Crossings in a different order along each path; measure the stretch as a whole
+    return [signedArea([...pathA, ...[...pathB].reverse()])];
+  }
+
+  return breaksA
+    .slice(1)
+    .map((end, i) =>
+      signedArea([
+        ...subPath(pathA, breaksA[i]!, end),
+        ...subPath(pathB, breaksB[i]!, breaksB[i + 1]!).reverse(),
+      ])
+    );
+}
+
+/** Path between two positions given as segment index + fraction */
+function subPath(path: Position[], from: number, to: number): Position[] {
+  const points = [pointAt(path, from)];
+  for (let i = Math.floor(from) + 1; i < to; i++) {
+    points.push(path[i]!);
+  }
+  points.push(pointAt(path, to));
+  return points;
+}
+
+function pointAt(path: Position[], position: number): Position {
+  const i = Math.min(Math.floor(position), path.length - 2);
+  const t = position - i;
+  const start = path[i]!;
+  const end = path[i + 1]!;
+  return [start[0]! + (end[0]! - start[0]!) * t, start[1]! + (end[1]! - start[1]!) * t];
+}
+
+/** Fractions along both segments where they properly cross */
+function segmentIntersection(
+  a0: Position,
+  a1: Position,
+  b0: Position,
+  b1: Position
+): [number, number] | null {
+  const ax = a1[0]! - a0[0]!;
+  const ay = a1[1]! - a0[1]!;
+  const bx = b1[0]! - b0[0]!;
+  const by = b1[1]! - b0[1]!;
+  const denominator = ax * by - ay * bx;
+  if (denominator === 0) return null;
+
+  const dx = b0[0]! - a0[0]!;
+  const dy = b0[1]! - a0[1]!;
+  const t = (dx * by - dy * bx) / denominator;
+  const u = (dx * ay - dy * ax) / denominator;
+  const inside = (value: number) => value > 1e-9 && value < 1 - 1e-9;
+  return inside(t) && inside(u) ? [t, u] : null;
+}
+
+function arcSides(topology: ArcTopology): ArcSide[][] {
+  const sides: ArcSide[][] = topology.arcs.map(() => []);
+  topology.polygons.forEach((polygons, geometry) => {
+    polygons?.forEach((polygon) =>
+      polygon.forEach((refs, ringIndex) => {
+        const ringLeft = signedArea(ringCoordinates(refs, topology.arcs)) > 0 === (ringIndex === 0);
+        for (const ref of refs) {
+          sides[arcIndex(ref)]!.push({ geometry, interiorLeft: ringLeft !== ref < 0 });
+        }
+      })
+    );
+  });
+  return sides;
+}
+
+function collectVertexKeys(geometry: Geometry | null | undefined, keys: Set<string>): void {
+  forEachRing(geometry, (ring) => {
+    for (const point of ring) keys.add(pointKey(point));
+  });
+}
+
+function forEachRing(
+  geometry: Geometry | null | undefined,
+  callback: (ring: Position[]) => void
+): void {
+  if (geometry?.type === 'Polygon') {
+    geometry.coordinates.forEach(callback);
+  } else if (geometry?.type === 'MultiPolygon') {
+    geometry.coordinates.forEach((polygon) => polygon.forEach(callback));
+  }
+}
+
+function segmentKey(a: Position, b: Position): string {
+  const keyA = pointKey(a);
+  const keyB = pointKey(b);
+  return keyA < keyB ? `${keyA}|${keyB}` : `${keyB}|${keyA}`;
+}
@@ -0,0 +1,75 @@
+/**
+ * Topology-preserving polygon simplification
+ *
+ * Shared borders are simplified once, as arcs, and reused by both neighbours. Vertex
+ * ranks are computed once per arc, so each additional zoom level is a single filter pass.
+ */
+
+import type { Geometry } from 'geojson';
+import type { SimplificationAlgorithm } from '../../types';
+import type { ZoomLevelQuality } from '../types';
+import { buildArcTopology, rebuildGeometries, type ArcTopology } from './arcs';
+import { countSliversAndGaps, countVertices } from './coverageQuality';
+import { filterByRank, rankVertices, toleranceForZoom } from './lineSimplify';
+
+export { buildArcTopology, type ArcTopology } from './arcs';
+export { countSliversAndGaps, findBoundaryMismatches } from './coverageQuality';
+export { rankVertices, filterByRank, toleranceForZoom } from './lineSimplify';
+
+export interface CoverageLevel {
+  zoomLevel: number;
+  tolerance: number;
+  /** Per input geometry; null for non-polygonal input and collapsed polygons */
+  geometries: (Geometry | null)[];
+  quality: ZoomLevelQuality;
+}
+
+export class CoverageSimplifier {
+  readonly topology: ArcTopology;
+  private ranks: Float64Array[];
+
+  constructor(
+    geometries: (Geometry | null | undefined)[],
+    readonly algorithm: SimplificationAlgorithm
+  ) {
+    this.topology = buildArcTopology(geometries);
+    this.ranks = this.topology.arcs.map((arc) => rankVertices(arc, algorithm));
+  }
+
+  /**
+   * Polygons simplified at one tolerance; null for non-polygonal input and collapsed polygons
+   */
+  simplify(tolerance: number): (Geometry | null)[] {
+    const arcs = this.topology.arcs.map((arc, i) => filterByRank(arc, this.ranks[i]!, tolerance));
+    return rebuildGeometries(this.topology, arcs);
+  }
+
+  /**
+   * One simplification per zoom level, scaling the zoom 8 tolerance for each
+   */
+  simplifyLevels(baseTolerance: number, zoomLevels: number[]): CoverageLevel[] {
+    return zoomLevels.map((zoomLevel) => {
+      const tolerance = toleranceForZoom(this.algorithm, baseTolerance, zoomLevel);
+      const geometries = this.simplify(tolerance);
+      return {
+        zoomLevel,
+        tolerance,
+        geometries,
+        quality: { zoomLevel, tolerance, ...this.measure(geometries) },
+      };
+    });
+  }
+
+  /**
+   * Vertex, sliver, gap and collapse counts of simplified polygons against the originals
+   */
+  measure(geometries: (Geometry | null)[]): Omit<ZoomLevelQuality, 'zoomLevel' | 'tolerance'> {
+    return {
+      vertexCount: countVertices(geometries),
+      ...countSliversAndGaps(this.topology, geometries),
+      collapsedFeatures: this.topology.polygons.filter(
+        (polygons, g) => polygons !== null && !geometries[g]
+      ).length,
+    };
+  }
+}
@@ -0,0 +1,212 @@
+/**
+ * Line simplification by vertex ranking
+ *
+ * Instead of simplifying a line at a single tolerance, every vertex is ranked with the
+ * tolerance at which it is removed. Any zoom level is then a cheap filter over the same
+ * ranking, and ranks are monotonic so a coarser level is always a subset of a finer one.
+ * End points are ranked Infinity and always kept.
+ */
+
+import type { Position } from 'geojson';
+import type { SimplificationAlgorithm } from '../../types';
+
+/** Zoom level the base tolerance applies to */
+export const BASE_TOLERANCE_ZOOM = 8;
+
+export function rankVertices(points: Position[], algorithm: SimplificationAlgorithm): Float64Array {
+  return algorithm === 'visvalingam' ? rankVisvalingam(points) : rankDouglasPeucker(points);
+}
+
+/**
+ * Keep the vertices ranked above the tolerance
+ */
+export function filterByRank(
+  points: Position[],
+  ranks: Float64Array,
+  tolerance: number
+): Position[] {
+  return points.filter((_, i) => ranks[i]! > tolerance);
+}
+
+/**
+ * Douglas-Peucker ranks: a vertex's perpendicular distance when it splits its segment,
+ * capped by the rank of the split that exposed it
+ */
+export function rankDouglasPeucker(points: Position[]): Float64Array {
+  const ranks = endPointRanks(points.length);
+  const stack: [number, number, number][] = [[0, points.length - 1, Infinity]];
+
+  while (stack.length > 0) {
+    const [start, end, parentRank] = stack.pop()!;
+    let maxDistance = -1;
+    let maxIndex = -1;
+    for (let i = start + 1; i < end; i++) {
+      const distance = segmentDistance(points[i]!, points[start]!, points[end]!);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+    if (maxIndex < 0) continue;
+
+    const rank = Math.min(maxDistance, parentRank);
+    ranks[maxIndex] = rank;
+    stack.push([start, maxIndex, rank], [maxIndex, end, rank]);
+  }
+  return ranks;
+}
+
+/**
+ * Visvalingam-Whyatt ranks: the effective triangle area when a vertex is eliminated,
+ * raised to the largest area eliminated before it
+ */
+export function rankVisvalingam(points: Position[]): Float64Array {
+  const n = points.length;
+  const ranks = endPointRanks(n);
+  if (n < 3) return ranks;
+
+  const previous = Int32Array.from({ length: n }, (_, i) => i - 1);
+  const next = Int32Array.from({ length: n }, (_, i) => i + 1);
+  const areas = new Float64Array(n);
+  const heap = new AreaHeap(n, areas);
+  for (let i = 1; i < n - 1; i++) {
+    areas[i] = triangleArea(points[i - 1]!, points[i]!, points[i + 1]!);
+    heap.push(i);
+  }
+
+  let eliminated = 0;
+  while (heap.size > 0) {
+    const i = heap.pop();
+    eliminated = Math.max(eliminated, areas[i]!);
+    ranks[i] = eliminated;
+
+    const before = previous[i]!;
+    const after = next[i]!;
+    next[before] = after;
+    previous[after] = before;
+    for (const neighbour of [before, after]) {
+      if (neighbour === 0 || neighbour === n - 1) continue;
+      areas[neighbour] = triangleArea(
+        points[previous[neighbour]!]!,
+        points[neighbour]!,
+        points[next[neighbour]!]!
+      );
+      heap.update(neighbour);
+    }
+  }
+  return ranks;
+}
+
+/**
+ * Scale a base (zoom 8) tolerance to another zoom: distances halve per zoom, areas quarter
+ */
+export function toleranceForZoom(
+  algorithm: SimplificationAlgorithm,
+  baseTolerance: number,
+  zoomLevel: number
+): number {
+  const scale = Math.pow(2, zoomLevel - BASE_TOLERANCE_ZOOM);
+  return algorithm === 'visvalingam' ? baseTolerance / (scale * scale) : baseTolerance / scale;
+}
+
+function endPointRanks(length: number): Float64Array {
+  const ranks = new Float64Array(length);
+  if (length > 0) {
+    ranks[0] = Infinity;
+    ranks[length - 1] = Infinity;
+  }
+  return ranks;
+}
+
+function segmentDistance(point: Position, start: Position, end: Position): number {
+  const dx = end[0]! - start[0]!;
+  const dy = end[1]! - start[1]!;
+  const lengthSquared = dx * dx + dy * dy;
+  let t = 0;
+  if (lengthSquared > 0) {
+    t = ((point[0]! - start[0]!) * dx + (point[1]! - start[1]!) * dy) / lengthSquared;
+    t = Math.max(0, Math.min(1, t));
+  }
+  return Math.hypot(point[0]! - (start[0]! + t * dx), point[1]! - (start[1]! + t * dy));
+}
+
+function triangleArea(a: Position, b: Position, c: Position): number {
+  return Math.abs((a[0]! - c[0]!) * (b[1]! - a[1]!) - (a[0]! - b[0]!) * (c[1]! - a[1]!)) / 2;
+}
+
+/** Binary min-heap of vertex indices keyed by area, supporting key updates */
+class AreaHeap {
+  private items: number[] = [];
+  private positions: Int32Array;
+
+  constructor(
+    capacity: number,
+    private areas: Float64Array
+  ) {
+    this.positions = new Int32Array(capacity).fill(-1);
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(index: number): void {
+    this.items.push(index);
+    this.positions[index] = this.items.length - 1;
+    this.up(this.items.length - 1);
+  }
+
+  pop(): number {
+    const top = this.items[0]!;
+    const last = this.items.pop()!;
+    this.positions[top] = -1;
+    if (this.items.length > 0) {
+      this.items[0] = last;
+      this.positions[last] = 0;
+      this.down(0);
+    }
+    return top;
+  }
+
+  update(index: number): void {
+    const position = this.positions[index]!;
+    if (position < 0) return;
+    this.up(position);
+    this.down(this.positions[index]!);
+  }
+
+  private up(position: number): void {
+    while (position > 0) {
+      const parent = (position - 1) >> 1;
+      if (this.less(parent, position)) break;
+      this.swap(parent, position);
+      position = parent;
+    }
+  }
+
+  private down(position: number): void {
+    for (;;) {
+      const left = position * 2 + 1;
+      const right = left + 1;
+      let smallest = position;
+      if (left < this.items.length && this.less(left, smallest)) smallest = left;
+      if (right < this.items.length && this.less(right, smallest)) smallest = right;
+      if (smallest === position) return;
+      this.swap(position, smallest);
+      position = smallest;
+    }
+  }
+
+  private less(a: number, b: number): boolean {
+    return this.areas[this.items[a]!]! < this.areas[this.items[b]!]!;
+  }
+
+  private swap(a: number, b: number): void {
+    const itemA = this.items[a]!;
+    const itemB = this.items[b]!;
+    this.items[a] = itemB;
+    this.items[b] = itemA;
+    this.positions[itemB] = a;
+    this.positions[itemA] = b;
+  }
+}
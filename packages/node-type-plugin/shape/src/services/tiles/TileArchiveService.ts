@@ -0,0 +1,452 @@
+/**
+ * TileArchiveService - Exports and imports tile pyramids as single-file archives
+ *
+ * Handles:
+ * - PMTiles export of a node's generated tiles with TileJSON metadata
+ * - PMTiles and MBTiles import into a node's tile store, served through the regular
+ *   getTile path (MBTiles export is not supported: there is no SQLite writer)
+ * - TileJSON for generated and imported tilesets
+ * - MapLibre styles drawing a tileset, so a BaseMap node can use an imported archive
+ *   as its custom style
+ */
+
+import { VectorTile } from '@mapbox/vector-tile';
+import Protobuf from 'pbf';
+import type { NodeId } from '@hierarchidb/common-core';
+import { shapeDB, type TileSourceRecord, type VectorTileRecord } from '../database/ShapeDB';
+import { DataSourceManager } from '../datasource/DataSourceManager';
+import {
+  Compression,
+  PMTilesReader,
+  TileType,
+  isSQLite,
+  tileBounds,
+  writePMTiles,
+  type ArchiveTile,
+  type PMTilesHeader,
+} from './pmtiles';
+import { MBTilesReader } from './mbtiles';
+import type {
+  BoundingBox,
+  LayerInfo,
+  TileArchiveExportOptions,
+  TileArchiveFormat,
+  TileJSON,
+  TileStyle,
+  TileStyleLayer,
+  TileStyleSource,
+  VectorLayer,
+} from '../types';
+
+export interface TileJSONInfo {
+  tiles?: string[];
+  name?: string;
+  description?: string;
+  attribution?: string;
+}
+
+type TileSummary = Pick<VectorTileRecord, 'z' | 'x' | 'y' | 'layers'>;
+
+interface ArchiveContents {
+  format: TileArchiveFormat;
+  tileType: TileSourceRecord['tileType'];
+  tileJSON: TileJSON;
+  tiles: Iterable<ArchiveTile>;
+}
+
+const TILE_TYPE_NAMES: Record<TileType, TileSourceRecord['tileType']> = {
+  [TileType.Unknown]: 'unknown',
+  [TileType.Mvt]: 'mvt',
+  [TileType.Png]: 'png',
+  [TileType.Jpeg]: 'jpeg',
+  [TileType.Webp]: 'webp',
+  [TileType.Avif]: 'avif',
+};
+
+/** MBTiles `format` metadata values */
+const MBTILES_FORMATS: Record<string, TileSourceRecord['tileType']> = {
+  pbf: 'mvt',
+  png: 'png',
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  webp: 'webp',
+  avif: 'avif',
+};
+
+const STYLE_SOURCE_ID = 'tiles';
+const BACKGROUND_COLOR = '#f8f4f0';
+const FEATURE_COLOR = '#3f6fb5';
+
+export class TileArchiveService {
+  constructor(private dataSourceManager: DataSourceManager = new DataSourceManager()) {}
+
+  /**
+   * Package every stored tile of a node as a PMTiles archive
+   */
+  async exportPMTiles(nodeId: NodeId, options: TileArchiveExportOptions = {}): Promise<Uint8Array> {
+    const tiles = await shapeDB.vectorTiles.where('nodeId').equals(nodeId).toArray();
+    if (tiles.length === 0) {
+      throw new Error(`Node ${nodeId} has no tiles to export; generate tiles first`);
+    }
+
+    const { compressTiles = true, ...info } = options;
+    const tileJSON = (await this.getTileJSON(nodeId, info))!;
+    const source = await shapeDB.tileSources.get(nodeId);
+
+    return writePMTiles(tiles, pmtilesMetadata(tileJSON), {
+      tileType: source ? tileTypeOf(source.tileType) : TileType.Mvt,
+      tileCompression: compressTiles ? Compression.Gzip : Compression.None,
+      bounds: tileJSON.bounds,
+      center: tileJSON.center,
+    });
+  }
+
+  /**
+   * Load a PMTiles or MBTiles archive as the tile source of a Shape or BaseMap node,
+   * replacing its stored tiles. A BaseMap node draws them with the style from getTileStyle.
+   */
+  async importArchive(
+    nodeId: NodeId,
+    archive: Uint8Array | ArrayBuffer
+  ): Promise<TileSourceRecord> {
+    const data = archive instanceof Uint8Array ? archive : new Uint8Array(archive);
+    const contents = isSQLite(data) ? readMBTiles(data) : readPMTiles(data);
+    const { tileType } = contents;
+    const now = Date.now();
+
+    const records: VectorTileRecord[] = [];
+    for (const tile of contents.tiles) {
+      const layers = tileType === 'mvt' ? describeLayers(tile.data, tile.z) : [];
+      records.push({
+        tileId: `${nodeId}-${tile.z}-${tile.x}-${tile.y}`,
+        nodeId,
+        z: tile.z,
+        x: tile.x,
+        y: tile.y,
+        data: tile.data,
+        size: tile.data.length,
+        features: layers.reduce((sum, layer) => sum + layer.featureCount, 0),
+        layers,
+        generatedAt: now,
+        contentHash: await calculateHash(tile.data),
+        version: 1,
+      });
+    }
+
+    const source: TileSourceRecord = {
+      nodeId,
+      format: contents.format,
+      tileType,
+      tileJSON: contents.tileJSON,
+      tileCount: records.length,
+      byteSize: data.length,
+      importedAt: now,
+    };
+
+    await shapeDB.transaction('rw', shapeDB.vectorTiles, shapeDB.tileSources, async () => {
+      await shapeDB.vectorTiles.where('nodeId').equals(nodeId).delete();
+      await shapeDB.vectorTiles.bulkPut(records);
+      await shapeDB.tileSources.put(source);
+    });
+    return source;
+  }
+
+  async getTileSource(nodeId: NodeId): Promise<TileSourceRecord | undefined> {
+    return await shapeDB.tileSources.get(nodeId);
+  }
+
+  /**
+   * TileJSON of a node's tileset: the imported archive's, or built from generated tiles
+   */
+  async getTileJSON(nodeId: NodeId, info: TileJSONInfo = {}): Promise<TileJSON | null> {
+    const source = await shapeDB.tileSources.get(nodeId);
+    if (source) {
+      return { ...source.tileJSON, ...definedValues(info) };
+    }
+
+    const tiles = await shapeDB.vectorTiles.where('nodeId').equals(nodeId).toArray();
+    if (tiles.length === 0) {
+      return null;
+    }
+
+    const entity = await shapeDB.shapeEntities.where('nodeId').equals(nodeId).first();
+    const dataSource = entity
+      ? this.dataSourceManager
+          .getAvailableDataSources()
+          // Entities store lowercase names ('naturalearth'), the manager display-cased ones
+          .find((candidate) => candidate.name.toLowerCase() === entity.dataSourceName.toLowerCase())
+      : undefined;
+
+    return buildTileJSON(tiles, {
+      name: entity?.name,
+      description: entity?.description,
+      attribution: dataSource?.attribution,
+      ...definedValues(info),
+    });
+  }
+
+  /**
+   * MapLibre style drawing a node's tileset, e.g. as a BaseMap node's custom style
+   */
+  async getTileStyle(nodeId: NodeId): Promise<TileStyle | null> {
+    const tileJSON = await this.getTileJSON(nodeId);
+    if (!tileJSON) {
+      return null;
+    }
+    // Generated tiles have no source record and are always vector tiles
+    const source = await shapeDB.tileSources.get(nodeId);
+    return buildTileStyle(nodeId, tileJSON, source?.tileType ?? 'mvt');
+  }
+}
+
+/**
+ * TileJSON for a set of generated tiles, with vector_layers merged from their LayerInfo
+ */
+export function buildTileJSON(tiles: TileSummary[], info: TileJSONInfo = {}): TileJSON {
+  const layers = new Map<string, VectorLayer>();
+  for (const tile of tiles) {
+    for (const layer of (tile.layers ?? []) as LayerInfo[]) {
+      const merged = layers.get(layer.name) ?? {
+        id: layer.name,
+        fields: {},
+        minzoom: tile.z,
+        maxzoom: tile.z,
+      };
+      merged.minzoom = Math.min(merged.minzoom!, tile.z);
+      merged.maxzoom = Math.max(merged.maxzoom!, tile.z);
+      for (const field of layer.fields ?? []) {
+        merged.fields[field] ??= '';
+      }
+      layers.set(layer.name, merged);
+    }
+  }
+
+  const zooms = tiles.map((tile) => tile.z);
+  const minzoom = Math.min(...zooms);
+  const maxzoom = Math.max(...zooms);
+  // The deepest zoom gives the tightest extent
+  const bounds = tileBounds(tiles.filter((tile) => tile.z === maxzoom));
+
+  return {
+    tilejson: '3.0.0',
+    tiles: info.tiles ?? [],
+    ...(info.name !== undefined && { name: info.name }),
+    ...(info.description !== undefined && { description: info.description }),
+    ...(info.attribution !== undefined && { attribution: info.attribution }),
+    scheme: 'xyz',
+    format: 'pbf',
+    minzoom,
+    maxzoom,
+    bounds,
+    center: [(bounds[0] + bounds[2]) / 2, (bounds[1] + bounds[3]) / 2, minzoom],
+    vector_layers: [...layers.values()],
+  };
+}
+
+/**
+ * Style with the node's tiles as its only source, read through getTile via dexie:// URLs
+ * Vector layers get a plain fill, outline and point style; without vector_layers only the
+ * background is drawn, since the layer names are unknown.
+ */
+export function buildTileStyle(
+  nodeId: NodeId,
+  tileJSON: TileJSON,
+  tileType: TileSourceRecord['tileType']
+): TileStyle {
+  if (tileType === 'unknown') {
+    throw new Error(`Node ${nodeId} holds tiles of an unknown type, which cannot be drawn`);
+  }
+
+  const vector = tileType === 'mvt';
+  const source: TileStyleSource = {
+    type: vector ? 'vector' : 'raster',
+    tiles: [`dexie://${shapeDB.name}/${nodeId}/{z}/{x}/{y}`],
+    minzoom: tileJSON.minzoom,
+    maxzoom: tileJSON.maxzoom,
+    bounds: tileJSON.bounds,
+    ...(!vector && { tileSize: 256 }),
+    ...(tileJSON.attribution !== undefined && { attribution: tileJSON.attribution }),
+  };
+
+  const layers: TileStyleLayer[] = [
+    { id: 'background', type: 'background', paint: { 'background-color': BACKGROUND_COLOR } },
+  ];
+  if (vector) {
+    for (const { id } of tileJSON.vector_layers ?? []) {
+      const layer = { source: STYLE_SOURCE_ID, 'source-layer': id };
+      layers.push(
+        {
+          id: `${id}-fill`,
+          type: 'fill',
+          ...layer,
+          paint: { 'fill-color': FEATURE_COLOR, 'fill-opacity': 0.2 },
+        },
+        { id: `${id}-line`, type: 'line', ...layer, paint: { 'line-color': FEATURE_COLOR } },
+        {
+          id: `${id}-point`,
+          type: 'circle',
+          ...layer,
+          // Circle layers would also mark every vertex of lines and polygons
+          filter: ['==', '$type', 'Point'],
+          paint: { 'circle-color': FEATURE_COLOR, 'circle-radius': 3 },
+        }
+      );
+    }
+  } else {
+    layers.push({ id: STYLE_SOURCE_ID, type: 'raster', source: STYLE_SOURCE_ID });
+  }
+
+  return {
+    version: 8,
+    ...(tileJSON.name !== undefined && { name: tileJSON.name }),
+    sources: { [STYLE_SOURCE_ID]: source },
+    layers,
+    center: [tileJSON.center[0], tileJSON.center[1]],
+    zoom: tileJSON.center[2],
+  };
+}
+
+/** PMTiles keeps TileJSON-style keys in its metadata, minus what the header already holds */
+function pmtilesMetadata(tileJSON: TileJSON): Record<string, unknown> {
+  const {
+    tilejson: _version,
+    tiles: _tiles,
+    bounds: _bounds,
+    center: _center,
+    ...metadata
+  } = tileJSON;
+  return metadata;
+}
+
+function readPMTiles(data: Uint8Array): ArchiveContents {
+  const reader = new PMTilesReader(data);
+  return {
+    format: 'pmtiles',
+    tileType: TILE_TYPE_NAMES[reader.header.tileType] ?? 'unknown',
+    tileJSON: tileJSONFromArchive(reader.header, reader.getMetadata()),
+    tiles: reader.tiles(),
+  };
+}
+
+function readMBTiles(data: Uint8Array): ArchiveContents {
+  const reader = new MBTilesReader(data);
+  const metadata = reader.getMetadata();
+  const tiles = [...reader.tiles()];
+  const tileType = MBTILES_FORMATS[metadata.format?.toLowerCase() ?? ''] ?? 'unknown';
+  return {
+    format: 'mbtiles',
+    tileType,
+    tileJSON: tileJSONFromMBTiles(metadata, tiles, tileType),
+    tiles,
+  };
+}
+
+function tileJSONFromArchive(header: PMTilesHeader, metadata: Record<string, unknown>): TileJSON {
+  const bounds: BoundingBox = [header.minLon, header.minLat, header.maxLon, header.maxLat];
+  const text = (key: string) =>
+    typeof metadata[key] === 'string' ? (metadata[key] as string) : undefined;
+  const tileType = TILE_TYPE_NAMES[header.tileType];
+
+  return {
+    tilejson: '3.0.0',
+    tiles: [],
+    ...(text('name') !== undefined && { name: text('name') }),
+    ...(text('description') !== undefined && { description: text('description') }),
+    ...(text('attribution') !== undefined && { attribution: text('attribution') }),
+    scheme: 'xyz',
+    format: tileType === 'mvt' ? 'pbf' : tileType,
+    minzoom: header.minZoom,
+    maxzoom: header.maxZoom,
+    bounds,
+    center: [header.centerLon, header.centerLat, header.centerZoom],
+    ...(Array.isArray(metadata.vector_layers) && {
+      vector_layers: metadata.vector_layers as VectorLayer[],
+    }),
+  };
+}
+
+/**
+ * MBTiles metadata holds TileJSON values as text, vector_layers inside its `json` row.
+ * Missing zooms and extent are taken from the tiles themselves.
+ */
+function tileJSONFromMBTiles(
+  metadata: Record<string, string>,
+  tiles: ArchiveTile[],
+  tileType: TileSourceRecord['tileType']
+): TileJSON {
+  const numbers = (key: string) => metadata[key]?.split(',').map(Number) ?? [];
+  const zoom = (key: string, fallback: number) =>
+    metadata[key] && Number.isInteger(Number(metadata[key])) ? Number(metadata[key]) : fallback;
+  const zooms = tiles.map((tile) => tile.z);
+  const minzoom = zoom('minzoom', zooms.length > 0 ? Math.min(...zooms) : 0);
+  const maxzoom = zoom('maxzoom', zooms.length > 0 ? Math.max(...zooms) : 0);
+
+  const declaredBounds = numbers('bounds');
+  const bounds: BoundingBox =
+    declaredBounds.length === 4 && declaredBounds.every(Number.isFinite)
+      ? (declaredBounds as BoundingBox)
+      : tileBounds(tiles.filter((tile) => tile.z === maxzoom));
+  const declaredCenter = numbers('center');
+  const center: [number, number, number] =
+    declaredCenter.length === 3 && declaredCenter.every(Number.isFinite)
+      ? (declaredCenter as [number, number, number])
+      : [(bounds[0] + bounds[2]) / 2, (bounds[1] + bounds[3]) / 2, minzoom];
+
+  let json: { vector_layers?: unknown } = {};
+  try {
+    json = JSON.parse(metadata.json ?? '{}');
+  } catch {
+    // A malformed json row only loses the layer list
+  }
+
+  return {
+    tilejson: '3.0.0',
+    tiles: [],
+    ...(metadata.name !== undefined && { name: metadata.name }),
+    ...(metadata.description !== undefined && { description: metadata.description }),
+    ...(metadata.attribution !== undefined && { attribution: metadata.attribution }),
+    scheme: 'xyz',
+    format: tileType === 'mvt' ? 'pbf' : tileType,
+    minzoom,
+    maxzoom,
+    bounds,
+    center,
+    ...(Array.isArray(json.vector_layers) && {
+      vector_layers: json.vector_layers as VectorLayer[],
+    }),
+  };
+}
+
+/** LayerInfo of an MVT tile, as the generator records it */
+function describeLayers(data: Uint8Array, z: number): LayerInfo[] {
+  const tile = new VectorTile(new Protobuf(data));
+  return Object.values(tile.layers).map((layer) => {
+    const fields = new Set<string>();
+    for (let i = 0; i < layer.length; i++) {
+      Object.keys(layer.feature(i).properties).forEach((field) => fields.add(field));
+    }
+    return {
+      name: layer.name,
+      featureCount: layer.length,
+      minZoom: z,
+      maxZoom: z,
+      fields: [...fields],
+    };
+  });
+}
+
+function tileTypeOf(name: TileSourceRecord['tileType']): TileType {
+  const entry = Object.entries(TILE_TYPE_NAMES).find(([, value]) => value === name);
+  return entry ? (Number(entry[0]) as TileType) : TileType.Unknown;
+}
+
+function definedValues<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
+
+async function calculateHash(data: Uint8Array): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', data as unknown as ArrayBuffer);
+  return Array.from(new Uint8Array(hashBuffer))
+    .map((b) => b.toString(16).padStart(2, '0'))
+    .join('');
+}
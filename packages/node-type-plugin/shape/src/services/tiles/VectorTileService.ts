@@ -13,6 +13,7 @@ import { VectorTile } from '@mapbox/vector-tile';
 import Protobuf from 'pbf';
 import * as turf from '@turf/turf';
 import { shapeDB, type VectorTileRecord } from '../database/ShapeDB';
+import { encodeVectorTile, projectGeometry, type EncodedVectorTile } from './mvtEncoder';
 import type { NodeId } from '@hierarchidb/common-core';
 import type {
   TileMetadata,
@@ -77,10 +78,10 @@ export class VectorTileService {
     }
 
     // Generate tile if not cached
-    const tile = await this.generateTile(request);
+    const tile = await this.buildTile(request);
     if (tile) {
       await this.cacheTile(nodeId, z, x, y, tile);
-      return tile;
+      return tile.data;
     }
 
     return null;
@@ -112,6 +113,11 @@ export class VectorTileService {
 
   // Tile Generation
   async generateTile(request: TileRequest): Promise<Uint8Array | null> {
+    const tile = await this.buildTile(request);
+    return tile ? tile.data : null;
+  }
+
+  private async buildTile(request: TileRequest): Promise<EncodedVectorTile | null> {
     const { nodeId, z, x, y } = request;
     const bbox = this.tileToBbox(x, y, z);
     
@@ -122,7 +128,7 @@ export class VectorTileService {
     }
 
     // Generate MVT
-    const mvt = await this.generateMVT({
+    const mvt = this.generateMVT({
       features,
       z,
       x,
@@ -132,7 +138,8 @@ export class VectorTileService {
       layers: this.options.layers || this.defaultOptions.layers
     });
 
-    return mvt;
+    // Features near the tile can clip away entirely
+    return mvt.featureCount > 0 ? mvt : null;
   }
 
   async generateTilesForZoomLevel(nodeId: NodeId, zoom: number): Promise<number> {
@@ -152,7 +159,7 @@ export class VectorTileService {
     let generatedCount = 0;
     for (const tile of tiles) {
       try {
-        const tileData = await this.generateTile({
+        const tileData = await this.buildTile({
           nodeId,
           z: zoom,
           x: tile.x,
@@ -250,7 +257,7 @@ export class VectorTileService {
     }));
   }
 
-  private async generateMVT(config: {
+  private generateMVT(config: {
     features: Feature[];
     z: number;
     x: number;
@@ -258,36 +265,31 @@ export class VectorTileService {
     extent: number;
     buffer: number;
     layers: LayerConfig[];
-  }): Promise<Uint8Array> {
+  }): EncodedVectorTile {
     const { features, z, x, y, extent, buffer, layers } = config;
-    
-    // Create tile layers
-    const tileLayers: any = {};
-    
-    for (const layerConfig of layers) {
-      if (z < layerConfig.minZoom || z > layerConfig.maxZoom) {
-        continue;
-      }
-
-      const layerFeatures = features.filter(feature => 
-        this.featureMatchesLayer(feature, layerConfig)
-      );
-
-      if (layerFeatures.length === 0) {
-        continue;
-      }
-
-      tileLayers[layerConfig.name] = {
-        features: layerFeatures.map(feature => ({
-          geometry: this.transformGeometryToTile(feature.geometry, x, y, z, extent, buffer),
-          properties: this.filterProperties(feature.properties, layerConfig.properties)
-        })),
-        extent
-      };
-    }
 
-    // Encode as MVT
-    return this.encodeMVT(tileLayers);
+    const tileLayers = layers
+      .filter(layerConfig => z >= layerConfig.minZoom && z <= layerConfig.maxZoom)
+      .map(layerConfig => ({
+        name: layerConfig.name,
+        extent,
+        minZoom: layerConfig.minZoom,
+        maxZoom: layerConfig.maxZoom,
+        features: features
+          .filter(feature => this.featureMatchesLayer(feature, layerConfig))
+          .flatMap(feature => {
+            const geometry = projectGeometry(feature.geometry, { z, x, y }, extent);
+            return geometry
+              ? [{
+                  id: feature.id,
+                  geometry,
+                  properties: this.filterProperties(feature.properties, layerConfig.properties)
+                }]
+              : [];
+          })
+      }));
+
+    return encodeVectorTile(tileLayers, { buffer });
   }
 
   private tileToBbox(x: number, y: number, z: number): BoundingBox {
@@ -375,19 +377,6 @@ export class VectorTileService {
     return true;
   }
 
-  private transformGeometryToTile(
-    geometry: any,
-    tileX: number,
-    tileY: number,
-    zoom: number,
-    extent: number,
-    buffer: number
-  ): any {
-    // Transform geographic coordinates to tile coordinates
-    // This is a simplified implementation
-    return geometry;
-  }
-
   private filterProperties(properties: Record<string, any>, allowedProperties: string[]): Record<string, any> {
     const filtered: Record<string, any> = {};
     
@@ -400,20 +389,12 @@ export class VectorTileService {
     return filtered;
   }
 
-  private encodeMVT(layers: any): Uint8Array {
-    // This would use a proper MVT encoder like @mapbox/vector-tile
-    // For now, return a placeholder
-    const mockMVT = new Uint8Array(1024);
-    mockMVT.fill(0);
-    return mockMVT;
-  }
-
   private async cacheTile(
     nodeId: NodeId,
     z: number,
     x: number,
     y: number,
-    data: Uint8Array
+    { data, layers, featureCount }: EncodedVectorTile
   ): Promise<void> {
     const tileId = `${nodeId}-${z}-${x}-${y}`;
     const contentHash = await this.calculateHash(data);
@@ -426,8 +407,8 @@ export class VectorTileService {
       y,
       data,
       size: data.length,
-      features: 0, // Would be calculated during generation
-      layers: [],
+      features: featureCount,
+      layers,
       generatedAt: Date.now(),
       contentHash,
       version: 1
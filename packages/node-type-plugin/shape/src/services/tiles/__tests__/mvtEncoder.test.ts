@@ -0,0 +1,243 @@
+/**
+ * MVT encoder tests
+ *
+ * Encoded tiles are decoded back with @mapbox/vector-tile, the reader MapLibre is built on.
+ */
+
+import { describe, it, expect } from 'vitest';
+import Pbf from 'pbf';
+import { VectorTile, VectorTileFeature, classifyRings } from '@mapbox/vector-tile';
+import type { NodeId } from '@hierarchidb/common-core';
+import { encodeVectorTile, projectGeometry, type TileGeometry } from '../mvtEncoder';
+import { VectorTileService } from '../VectorTileService';
+import { shapeDB } from '../../database/ShapeDB';
+
+const decode = (data: Uint8Array) => new VectorTile(new Pbf(data));
+
+/** Raw layer fields, for what the decoder hides (value table, packed geometry) */
+function readLayers(data: Uint8Array) {
+  const layers: Array<{ values: number; geometries: number[][] }> = [];
+  new Pbf(data).readFields((tag, _, pbf) => {
+    if (tag !== 3) return;
+    const layer = { values: 0, geometries: [] as number[][] };
+    pbf.readMessage((layerTag, __, layerPbf) => {
+      if (layerTag === 4) {
+        layer.values++;
+      } else if (layerTag === 2) {
+        layerPbf.readMessage((featureTag, ___, featurePbf) => {
+          if (featureTag === 4) layer.geometries.push(featurePbf.readPackedVarint());
+        }, null);
+      }
+    }, null);
+    layers.push(layer);
+  }, null);
+  return layers;
+}
+
+/** The spec's surveyor's formula: exterior rings are positive, holes negative */
+const area = (ring: Array<{ x: number; y: number }>) =>
+  ring.reduce((sum, p, i) => {
+    const next = ring[(i + 1) % ring.length]!;
+    return sum + p.x * next.y - next.x * p.y;
+  }, 0) / 2;
+
+describe('mvtEncoder', () => {
+  it('encodes geometry as zig-zag commands as in the spec examples', () => {
+    const tile = encodeVectorTile([
+      {
+        name: 'examples',
+        features: [
+          { geometry: { type: 'Point', points: [[25, 17]] }, properties: {} },
+          {
+            geometry: {
+              type: 'Polygon',
+              polygons: [
+                [
+                  [
+                    [3, 6],
+                    [8, 12],
+                    [20, 34],
+                    [3, 6],
+                  ],
+                ],
+              ],
+            },
+            properties: {},
+          },
+        ],
+      },
+    ]);
+
+    expect(readLayers(tile.data)[0]!.geometries).toEqual([
+      [9, 50, 34],
+      [9, 6, 12, 18, 10, 12, 24, 44, 15],
+    ]);
+  });
+
+  it('round-trips polygons with holes, fixing the ring winding order', () => {
+    // Outer ring counter-clockwise on screen, hole clockwise: both must be reversed
+    const geometry: TileGeometry = {
+      type: 'Polygon',
+      polygons: [
+        [
+          [
+            [0, 0],
+            [0, 100],
+            [100, 100],
+            [100, 0],
+            [0, 0],
+          ],
+          [
+            [20, 20],
+            [80, 20],
+            [80, 80],
+            [20, 80],
+            [20, 20],
+          ],
+        ],
+      ],
+    };
+    const tile = decode(
+      encodeVectorTile([{ name: 'areas', features: [{ id: 7, geometry, properties: {} }] }]).data
+    );
+
+    const feature = tile.layers.areas!.feature(0);
+    expect(feature.id).toBe(7);
+    expect(VectorTileFeature.types[feature.type]).toBe('Polygon');
+    const rings = feature.loadGeometry();
+    expect(rings.map(area)).toEqual([10000, -3600]);
+    expect(classifyRings(rings)).toHaveLength(1);
+    expect(rings[0]!.map(({ x, y }) => [x, y])).toEqual([
+      [100, 0],
+      [100, 100],
+      [0, 100],
+      [0, 0],
+      [100, 0],
+    ]);
+  });
+
+  it('deduplicates keys and values and keeps value types', () => {
+    const point: TileGeometry = { type: 'Point', points: [[1, 1]] };
+    const encoded = encodeVectorTile([
+      {
+        name: 'places',
+        minZoom: 2,
+        maxZoom: 10,
+        features: [
+          { geometry: point, properties: { name: 'Tokyo', code: 1, capital: true, area: 2194.07 } },
+          { geometry: point, properties: { name: 'Tokyo', code: '1', level: -3, missing: null } },
+        ],
+      },
+    ]);
+
+    expect(encoded.layers).toEqual([
+      {
+        name: 'places',
+        featureCount: 2,
+        minZoom: 2,
+        maxZoom: 10,
+        fields: ['name', 'code', 'capital', 'area', 'level'],
+      },
+    ]);
+    expect(readLayers(encoded.data)[0]!.values).toBe(6);
+    const layer = decode(encoded.data).layers.places!;
+    expect(layer.feature(0).properties).toEqual({
+      name: 'Tokyo',
+      code: 1,
+      capital: true,
+      area: 2194.07,
+    });
+    expect(layer.feature(1).properties).toEqual({ name: 'Tokyo', code: '1', level: -3 });
+  });
+
+  it('clips to the extent plus buffer and drops features and layers left empty', () => {
+    const encoded = encodeVectorTile(
+      [
+        {
+          name: 'roads',
+          extent: 4096,
+          features: [
+            {
+              geometry: {
+                type: 'LineString',
+                lines: [
+                  [
+                    [-1000, 2048],
+                    [5000, 2048],
+                  ],
+                ],
+              },
+              properties: {},
+            },
+            { geometry: { type: 'Point', points: [[5000, 5000]] }, properties: {} },
+          ],
+        },
+        {
+          name: 'empty',
+          features: [{ geometry: { type: 'Point', points: [[-500, 0]] }, properties: {} }],
+        },
+      ],
+      { buffer: 64 }
+    );
+
+    const tile = decode(encoded.data);
+    expect(Object.keys(tile.layers)).toEqual(['roads']);
+    expect(tile.layers.roads!.length).toBe(1);
+    expect(tile.layers.roads!.feature(0).loadGeometry()).toEqual([
+      [
+        { x: -64, y: 2048 },
+        { x: 4160, y: 2048 },
+      ],
+    ]);
+    expect(encoded.featureCount).toBe(1);
+  });
+
+  it('projects WGS84 coordinates so the decoder returns them', () => {
+    const tile = { z: 5, x: 28, y: 12 };
+    const geometry = projectGeometry({ type: 'Point', coordinates: [139.69, 35.68] }, tile);
+    const encoded = encodeVectorTile([
+      { name: 'cities', features: [{ geometry: geometry!, properties: { name: 'Tokyo' } }] },
+    ]);
+
+    const feature = decode(encoded.data)
+      .layers.cities!.feature(0)
+      .toGeoJSON(tile.x, tile.y, tile.z);
+    const [lon, lat] = (feature.geometry as GeoJSON.Point).coordinates;
+    expect(lon).toBeCloseTo(139.69, 2);
+    expect(lat).toBeCloseTo(35.68, 2);
+  });
+
+  it('serves decodable tiles from VectorTileService', async () => {
+    const nodeId = 'node-mvt' as NodeId;
+    await shapeDB.storeFeatures([
+      {
+        type: 'Feature',
+        nodeId,
+        properties: { name: 'Square', population: 10 },
+        geometry: {
+          type: 'Polygon',
+          coordinates: [
+            [
+              [1, 1],
+              [2, 1],
+              [2, 2],
+              [1, 2],
+              [1, 1],
+            ],
+          ],
+        },
+        bbox: [1, 1, 2, 2],
+      },
+    ]);
+
+    const service = new VectorTileService();
+    const data = await service.getTile({ nodeId, z: 6, x: 32, y: 31 });
+
+    const layer = decode(data!).layers.boundaries!;
+    expect(layer.length).toBe(1);
+    expect(layer.feature(0).properties).toEqual({ name: 'Square', population: 10 });
+    const metadata = await service.getTileMetadata(nodeId, 6, 32, 31);
+    expect(metadata?.features).toBe(1);
+    expect(metadata?.layers[0]).toMatchObject({ name: 'boundaries', featureCount: 1 });
+  });
+});
@@ -0,0 +1,381 @@
+/**
+ * PMTiles archive tests
+ *
+ * Codec round trips against the v3 spec, and export/import of a node's tiles through ShapeDB.
+ */
+
+import { describe, it, expect } from 'vitest';
+import pako from 'pako';
+import type { NodeId } from '@hierarchidb/common-core';
+import {
+  Compression,
+  PMTilesReader,
+  TileType,
+  tileIdToZxy,
+  writePMTiles,
+  zxyToTileId,
+  type ArchiveTile,
+} from '../pmtiles';
+import { TileArchiveService } from '../TileArchiveService';
+import { VectorTileService } from '../VectorTileService';
+import { shapeDB, type ShapeEntityRecord } from '../../database/ShapeDB';
+import type { SqlValue } from '../../datasource/localFile/sqlite';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+/** SQLite varint, for the small values these fixtures use */
+const varint = (value: number): number[] => {
+  const groups = [value & 0x7f];
+  for (let rest = value >>> 7; rest > 0; rest >>>= 7) {
+    groups.unshift((rest & 0x7f) | 0x80);
+  }
+  return groups;
+};
+
+/** Record of NULL, 8-bit INTEGER, TEXT and BLOB values */
+const sqliteRecord = (values: SqlValue[]): number[] => {
+  const types: number[] = [];
+  const body: number[] = [];
+  for (const value of values) {
+    const blob = typeof value === 'string' ? new TextEncoder().encode(value) : value;
+    if (typeof value === 'number') {
+      types.push(1);
+      body.push(value);
+    } else if (blob instanceof Uint8Array) {
+      types.push(blob.length * 2 + (typeof value === 'string' ? 13 : 12));
+      body.push(...blob);
+    } else {
+      types.push(0);
+    }
+  }
+  const header = types.flatMap(varint);
+  return [...varint(header.length + 1), ...header, ...body];
+};
+
+/** SQLite database with every table on a single leaf page */
+const sqliteDatabase = (tables: { name: string; columns: string[]; rows: SqlValue[][] }[]) => {
+  const pageSize = 4096;
+  const data = new Uint8Array(pageSize * (tables.length + 1));
+  const view = new DataView(data.buffer);
+  data.set(new TextEncoder().encode('SQLite format 3\0'));
+  view.setUint16(16, pageSize);
+  view.setUint32(56, 1);
+
+  const writeLeaf = (page: number, records: number[][]) => {
+    const start = (page - 1) * pageSize;
+    const header = page === 1 ? 100 : start;
+    data[header] = 0x0d;
+    view.setUint16(header + 3, records.length);
+    let end = start + pageSize;
+    records.forEach((record, i) => {
+      const cell = [...varint(record.length), ...varint(i + 1), ...record];
+      end -= cell.length;
+      data.set(cell, end);
+      view.setUint16(header + 8 + i * 2, end - start);
+    });
+    view.setUint16(header + 5, end - start);
+  };
+
+  writeLeaf(
+    1,
+    tables.map(({ name, columns }, i) =>
+      sqliteRecord(['table', name, name, i + 2, `CREATE TABLE ${name} (${columns.join(', ')})`])
+    )
+  );
+  tables.forEach(({ rows }, i) => writeLeaf(i + 2, rows.map(sqliteRecord)));
+  return data;
+};
+
+const storeSquare = (nodeId: NodeId) =>
+  shapeDB.storeFeatures([
+    {
+      type: 'Feature',
+      nodeId,
+      properties: { name: 'Square', population: 10 },
+      geometry: {
+        type: 'Polygon',
+        coordinates: [
+          [
+            [1, 1],
+            [2, 1],
+            [2, 2],
+            [1, 2],
+            [1, 1],
+          ],
+        ],
+      },
+      bbox: [1, 1, 2, 2],
+    },
+  ]);
+
+describe('pmtiles', () => {
+  it('numbers tiles along the Hilbert curve as in the spec', () => {
+    expect(zxyToTileId(0, 0, 0)).toBe(0);
+    expect([
+      zxyToTileId(1, 0, 0),
+      zxyToTileId(1, 0, 1),
+      zxyToTileId(1, 1, 1),
+      zxyToTileId(1, 1, 0),
+    ]).toEqual([1, 2, 3, 4]);
+    expect(zxyToTileId(2, 0, 0)).toBe(5);
+    expect(zxyToTileId(20, 0, 0)).toBe(366503875925);
+
+    for (let z = 0; z <= 4; z++) {
+      for (let x = 0; x < 2 ** z; x++) {
+        for (let y = 0; y < 2 ** z; y++) {
+          expect(tileIdToZxy(zxyToTileId(z, x, y))).toEqual([z, x, y]);
+        }
+      }
+    }
+    expect(tileIdToZxy(zxyToTileId(20, 524287, 524287))).toEqual([20, 524287, 524287]);
+  });
+
+  it('round-trips tiles and metadata, storing identical tiles once', () => {
+    const ocean = bytes(1, 2, 3);
+    const tiles: ArchiveTile[] = [
+      { z: 1, x: 1, y: 0, data: ocean },
+      { z: 0, x: 0, y: 0, data: bytes(9, 9) },
+      { z: 1, x: 0, y: 0, data: ocean },
+      { z: 1, x: 0, y: 1, data: ocean },
+      { z: 1, x: 1, y: 1, data: bytes(4) },
+    ];
+
+    const archive = writePMTiles(tiles, { name: 'World', vector_layers: [] });
+    const reader = new PMTilesReader(archive);
+
+    expect(reader.header).toMatchObject({
+      specVersion: 3,
+      numAddressedTiles: 5,
+      numTileEntries: 4,
+      numTileContents: 3,
+      clustered: true,
+      internalCompression: Compression.Gzip,
+      tileCompression: Compression.Gzip,
+      tileType: TileType.Mvt,
+      minZoom: 0,
+      maxZoom: 1,
+      minLon: -180,
+      maxLon: 180,
+    });
+    expect(reader.getMetadata()).toEqual({ name: 'World', vector_layers: [] });
+    tiles.forEach(({ z, x, y, data }) => expect(reader.getTile(z, x, y)).toEqual(data));
+    expect(reader.getTile(2, 0, 0)).toBeUndefined();
+    expect([...reader.tiles()].map(({ z, x, y }) => `${z}/${x}/${y}`)).toEqual([
+      '0/0/0',
+      '1/0/0',
+      '1/0/1',
+      '1/1/1',
+      '1/1/0',
+    ]);
+  });
+
+  it('moves entries into leaf directories when the root would exceed 16 KiB', () => {
+    let seed = 11;
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const tiles: ArchiveTile[] = [];
+    for (let i = 0; i < 2 ** 18 && tiles.length < 20000; i += 1 + Math.floor(random() * 20)) {
+      const [z, x, y] = tileIdToZxy(zxyToTileId(9, 0, 0) + i);
+      tiles.push({ z, x, y, data: new Uint8Array(1 + Math.floor(random() * 40)).fill(i % 251) });
+    }
+
+    const archive = writePMTiles(tiles, {}, { tileCompression: Compression.None });
+    const reader = new PMTilesReader(archive);
+
+    expect(reader.header.rootDirectoryLength).toBeLessThanOrEqual(16384 - 127);
+    expect(reader.header.leafDirectoryLength).toBeGreaterThan(0);
+    expect([...reader.tiles()]).toHaveLength(tiles.length);
+    for (const tile of [tiles[0]!, tiles[9999]!, tiles[tiles.length - 1]!]) {
+      expect(reader.getTile(tile.z, tile.x, tile.y)).toEqual(tile.data);
+    }
+  });
+
+  it('rejects other archives', () => {
+    expect(() => new PMTilesReader(new TextEncoder().encode('not an archive'))).toThrow(
+      'Not a PMTiles archive'
+    );
+  });
+});
+
+describe('TileArchiveService', () => {
+  const shapeNodeId = 'node-archive-shape' as NodeId;
+  const importedNodeId = 'node-archive-imported' as NodeId;
+
+  it('exports generated tiles with TileJSON metadata and imports them into another node', async () => {
+    await shapeDB.shapeEntities.add({
+      id: 'entity-archive',
+      nodeId: shapeNodeId,
+      name: 'Squares',
+      dataSourceName: 'naturalearth',
+    } as unknown as ShapeEntityRecord);
+    await storeSquare(shapeNodeId);
+    const tiles = new VectorTileService();
+    const tile = await tiles.getTile({ nodeId: shapeNodeId, z: 6, x: 32, y: 31 });
+
+    const service = new TileArchiveService();
+    const archive = await service.exportPMTiles(shapeNodeId);
+    const reader = new PMTilesReader(archive);
+    expect(reader.getMetadata()).toMatchObject({
+      name: 'Squares',
+      attribution: 'Made with Natural Earth',
+      format: 'pbf',
+      vector_layers: [
+        { id: 'boundaries', fields: { name: '', population: '' }, minzoom: 6, maxzoom: 6 },
+      ],
+    });
+    expect(reader.header).toMatchObject({ minZoom: 6, maxZoom: 6, minLon: 0, maxLon: 5.625 });
+
+    const source = await service.importArchive(importedNodeId, archive.slice().buffer);
+    expect(source).toMatchObject({ format: 'pmtiles', tileType: 'mvt', tileCount: 1 });
+    expect(await tiles.getTile({ nodeId: importedNodeId, z: 6, x: 32, y: 31 })).toEqual(tile);
+    expect((await tiles.getTileMetadata(importedNodeId, 6, 32, 31))?.layers).toEqual([
+      {
+        name: 'boundaries',
+        featureCount: 1,
+        minZoom: 6,
+        maxZoom: 6,
+        fields: ['name', 'population'],
+      },
+    ]);
+    expect(await service.getTileJSON(importedNodeId)).toMatchObject({
+      tilejson: '3.0.0',
+      name: 'Squares',
+      attribution: 'Made with Natural Earth',
+      minzoom: 6,
+      maxzoom: 6,
+      center: [2.8125, expect.any(Number), 6],
+    });
+  });
+
+  it('imports MBTiles, flipping TMS rows and inflating gzipped tiles', async () => {
+    const sourceNodeId = 'node-mbtiles-source' as NodeId;
+    const mbtilesNodeId = 'node-mbtiles-imported' as NodeId;
+    await storeSquare(sourceNodeId);
+    const tiles = new VectorTileService();
+    const tile = (await tiles.getTile({ nodeId: sourceNodeId, z: 6, x: 32, y: 31 }))!;
+    const vectorLayers = [{ id: 'boundaries', fields: { name: 'String' } }];
+
+    const mbtiles = sqliteDatabase([
+      {
+        name: 'metadata',
+        columns: ['name text', 'value text'],
+        rows: [
+          ['name', 'Squares'],
+          ['format', 'pbf'],
+          ['bounds', '0,0,5.625,5.6'],
+          ['minzoom', '6'],
+          ['maxzoom', '6'],
+          ['json', JSON.stringify({ vector_layers: vectorLayers })],
+        ],
+      },
+      {
+        name: 'tiles',
+        columns: [
+          'zoom_level integer',
+          'tile_column integer',
+          'tile_row integer',
+          'tile_data blob',
+        ],
+        rows: [[6, 32, 32, pako.gzip(tile)]],
+      },
+    ]);
+
+    const service = new TileArchiveService();
+    const source = await service.importArchive(mbtilesNodeId, mbtiles);
+    expect(source).toMatchObject({ format: 'mbtiles', tileType: 'mvt', tileCount: 1 });
+    expect(await tiles.getTile({ nodeId: mbtilesNodeId, z: 6, x: 32, y: 31 })).toEqual(tile);
+    expect((await tiles.getTileMetadata(mbtilesNodeId, 6, 32, 31))?.layers).toMatchObject([
+      { name: 'boundaries', featureCount: 1 },
+    ]);
+    expect(await service.getTileJSON(mbtilesNodeId)).toMatchObject({
+      name: 'Squares',
+      format: 'pbf',
+      minzoom: 6,
+      maxzoom: 6,
+      bounds: [0, 0, 5.625, 5.6],
+      center: [2.8125, 2.8, 6],
+      vector_layers: vectorLayers,
+    });
+  });
+
+  it('imports deduplicated MBTiles stored as map and images tables', async () => {
+    const png = bytes(0x89, 0x50, 0x4e, 0x47);
+    const mbtiles = sqliteDatabase([
+      { name: 'metadata', columns: ['name text', 'value text'], rows: [['format', 'png']] },
+      {
+        name: 'map',
+        columns: ['zoom_level integer', 'tile_column integer', 'tile_row integer', 'tile_id text'],
+        rows: [
+          [1, 0, 0, 'water'],
+          [1, 1, 0, 'water'],
+        ],
+      },
+      { name: 'images', columns: ['tile_data blob', 'tile_id text'], rows: [[png, 'water']] },
+    ]);
+
+    const nodeId = 'node-mbtiles-raster' as NodeId;
+    const source = await new TileArchiveService().importArchive(nodeId, mbtiles);
+    expect(source).toMatchObject({ format: 'mbtiles', tileType: 'png', tileCount: 2 });
+    expect(source.tileJSON).toMatchObject({ format: 'png', minzoom: 1, maxzoom: 1 });
+    expect(await new VectorTileService().getTile({ nodeId, z: 1, x: 1, y: 1 })).toEqual(png);
+  });
+
+  it('styles imported archives so a BaseMap node can draw them', async () => {
+    const sourceNodeId = 'node-style-source' as NodeId;
+    const baseMapNodeId = 'node-style-basemap' as NodeId;
+    await storeSquare(sourceNodeId);
+    await new VectorTileService().getTile({ nodeId: sourceNodeId, z: 6, x: 32, y: 31 });
+    const service = new TileArchiveService();
+    await service.importArchive(baseMapNodeId, await service.exportPMTiles(sourceNodeId));
+
+    const style = await service.getTileStyle(baseMapNodeId);
+    expect(style).toMatchObject({
+      version: 8,
+      sources: {
+        tiles: {
+          type: 'vector',
+          tiles: [`dexie://ShapeDB/${baseMapNodeId}/{z}/{x}/{y}`],
+          minzoom: 6,
+          maxzoom: 6,
+        },
+      },
+      center: [2.8125, expect.any(Number)],
+      zoom: 6,
+    });
+    expect(style?.layers.map((layer) => [layer.id, layer.type, layer['source-layer']])).toEqual([
+      ['background', 'background', undefined],
+      ['boundaries-fill', 'fill', 'boundaries'],
+      ['boundaries-line', 'line', 'boundaries'],
+      ['boundaries-point', 'circle', 'boundaries'],
+    ]);
+    expect(await service.getTileStyle('node-style-missing' as NodeId)).toBeNull();
+  });
+
+  it('styles raster archives with a single raster layer', async () => {
+    const png = bytes(0x89, 0x50, 0x4e, 0x47);
+    const mbtiles = sqliteDatabase([
+      { name: 'metadata', columns: ['name text', 'value text'], rows: [['format', 'png']] },
+      {
+        name: 'tiles',
+        columns: [
+          'zoom_level integer',
+          'tile_column integer',
+          'tile_row integer',
+          'tile_data blob',
+        ],
+        rows: [[0, 0, 0, png]],
+      },
+    ]);
+
+    const nodeId = 'node-style-raster' as NodeId;
+    const service = new TileArchiveService();
+    await service.importArchive(nodeId, mbtiles);
+    const style = await service.getTileStyle(nodeId);
+    expect(style?.sources.tiles).toMatchObject({ type: 'raster', tileSize: 256 });
+    expect(style?.layers.map((layer) => layer.type)).toEqual(['background', 'raster']);
+  });
+
+  it('refuses nodes without tiles', async () => {
+    const service = new TileArchiveService();
+    await expect(service.exportPMTiles('node-empty' as NodeId)).rejects.toThrow('no tiles');
+  });
+});
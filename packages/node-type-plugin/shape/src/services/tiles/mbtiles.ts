@@ -0,0 +1,73 @@
+/**
+ * MBTiles archive reader
+ *
+ * An SQLite database with a name/value `metadata` table and a `tiles` table keyed by
+ * zoom_level, tile_column and tile_row in the TMS scheme (rows counted from the south).
+ * Deduplicating writers store `tiles` as a view over `map` and `images` instead.
+ * Read-only: writing needs an SQLite writer, so archives are exported as PMTiles.
+ * See https://github.com/mapbox/mbtiles-spec/blob/master/1.3/spec.md
+ */
+
+import pako from 'pako';
+import { SQLiteReader, type SqlRow, type SqlValue } from '../datasource/localFile/sqlite';
+import type { ArchiveTile } from './pmtiles';
+
+export class MBTilesReader {
+  private readonly db: SQLiteReader;
+
+  constructor(data: Uint8Array) {
+    this.db = new SQLiteReader(data);
+    const hasTiles =
+      this.db.hasTable('tiles') || (this.db.hasTable('map') && this.db.hasTable('images'));
+    if (!this.db.hasTable('metadata') || !hasTiles) {
+      throw new Error('Not an MBTiles archive: metadata or tiles table missing');
+    }
+  }
+
+  getMetadata(): Record<string, string> {
+    const metadata: Record<string, string> = {};
+    for (const { name, value } of this.db.rows('metadata')) {
+      if (typeof name === 'string' && value !== null && value !== undefined) {
+        metadata[name] = String(value);
+      }
+    }
+    return metadata;
+  }
+
+  /**
+   * Every tile in XYZ numbering, with gzip-compressed tiles decompressed
+   */
+  *tiles(): Generator<ArchiveTile> {
+    // SQLiteReader only lists tables, so a `tiles` view falls through to map/images
+    if (this.db.hasTable('tiles')) {
+      for (const row of this.db.rows('tiles')) {
+        const tile = toArchiveTile(row, row.tile_data);
+        if (tile) yield tile;
+      }
+      return;
+    }
+
+    const images = new Map<string, SqlValue>();
+    for (const { tile_id, tile_data } of this.db.rows('images')) {
+      images.set(String(tile_id), tile_data ?? null);
+    }
+    for (const row of this.db.rows('map')) {
+      const tile = toArchiveTile(row, images.get(String(row.tile_id)) ?? null);
+      if (tile) yield tile;
+    }
+  }
+}
+
+function toArchiveTile(row: SqlRow, data: SqlValue | undefined): ArchiveTile | null {
+  if (!(data instanceof Uint8Array)) {
+    return null;
+  }
+  const z = Number(row.zoom_level);
+  return {
+    z,
+    x: Number(row.tile_column),
+    y: 2 ** z - 1 - Number(row.tile_row),
+    // Vector tiles are usually stored gzipped
+    data: data[0] === 0x1f && data[1] === 0x8b ? pako.ungzip(data) : data,
+  };
+}
@@ -0,0 +1,494 @@
+/**
+ * Mapbox Vector Tile 2.1 encoding
+ *
+ * Projects GeoJSON geometries into tile space, clips them to the tile extent plus buffer
+ * and writes the protobuf layers MapLibre reads: command-encoded geometry with zig-zag
+ * deltas, deduplicated keys/values and spec winding order for polygon rings.
+ * https://github.com/mapbox/vector-tile-spec/tree/master/2.1
+ */
+
+import Pbf from 'pbf';
+import type { LayerInfo } from '../types';
+
+export type TilePoint = [number, number];
+
+/** Geometry in tile coordinates: x to the right, y down, 0..extent inside the tile */
+export type TileGeometry =
+  | { type: 'Point'; points: TilePoint[] }
+  | { type: 'LineString'; lines: TilePoint[][] }
+  | { type: 'Polygon'; polygons: TilePoint[][][] }; // [outer, ...holes] per polygon
+
+export interface TileFeatureInput {
+  id?: number | string;
+  geometry: TileGeometry;
+  properties: Record<string, unknown>;
+}
+
+export interface TileLayerInput {
+  name: string;
+  features: TileFeatureInput[];
+  extent?: number;
+  minZoom?: number;
+  maxZoom?: number;
+}
+
+export interface EncodedVectorTile {
+  data: Uint8Array;
+  layers: LayerInfo[];
+  featureCount: number;
+}
+
+export const DEFAULT_EXTENT = 4096;
+
+const GEOMETRY_TYPE = { Point: 1, LineString: 2, Polygon: 3 } as const;
+const COMMAND = { MoveTo: 1, LineTo: 2, ClosePath: 7 } as const;
+
+/**
+ * Project a WGS84 GeoJSON geometry into the Web Mercator space of tile z/x/y
+ * Returns null for geometry types MVT cannot carry (e.g. GeometryCollection).
+ */
+export function projectGeometry(
+  geometry: GeoJSON.Geometry,
+  tile: { z: number; x: number; y: number },
+  extent: number = DEFAULT_EXTENT
+): TileGeometry | null {
+  const scale = 2 ** tile.z;
+  const project = ([lon, lat]: GeoJSON.Position): TilePoint => {
+    const sin = Math.sin((Math.max(-85.0511, Math.min(85.0511, lat!)) * Math.PI) / 180);
+    const worldX = (lon! + 180) / 360;
+    const worldY = 0.5 - (0.25 * Math.log((1 + sin) / (1 - sin))) / Math.PI;
+    return [(worldX * scale - tile.x) * extent, (worldY * scale - tile.y) * extent];
+  };
+  const line = (positions: GeoJSON.Position[]) => positions.map(project);
+
+  switch (geometry.type) {
+    case 'Point':
+      return { type: 'Point', points: [project(geometry.coordinates)] };
+    case 'MultiPoint':
+      return { type: 'Point', points: line(geometry.coordinates) };
+    case 'LineString':
+      return { type: 'LineString', lines: [line(geometry.coordinates)] };
+    case 'MultiLineString':
+      return { type: 'LineString', lines: geometry.coordinates.map(line) };
+    case 'Polygon':
+      return { type: 'Polygon', polygons: [geometry.coordinates.map(line)] };
+    case 'MultiPolygon':
+      return {
+        type: 'Polygon',
+        polygons: geometry.coordinates.map((polygon) => polygon.map(line)),
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Clip a geometry to the square [min, max]; returns null when nothing is left
+ */
+export function clipGeometry(
+  geometry: TileGeometry,
+  min: number,
+  max: number
+): TileGeometry | null {
+  const inside = ([x, y]: TilePoint) => x >= min && x <= max && y >= min && y <= max;
+
+  switch (geometry.type) {
+    case 'Point': {
+      const points = geometry.points.filter(inside);
+      return points.length > 0 ? { type: 'Point', points } : null;
+    }
+    case 'LineString': {
+      const lines = geometry.lines.flatMap((line) => clipLine(line, min, max));
+      return lines.length > 0 ? { type: 'LineString', lines } : null;
+    }
+    case 'Polygon': {
+      const polygons: TilePoint[][][] = [];
+      for (const [outer, ...holes] of geometry.polygons) {
+        const clippedOuter = outer && clipRing(outer, min, max);
+        if (!clippedOuter || clippedOuter.length < 3) {
+          continue;
+        }
+        const clippedHoles = holes
+          .map((hole) => clipRing(hole, min, max))
+          .filter((hole) => hole.length >= 3);
+        polygons.push([clippedOuter, ...clippedHoles]);
+      }
+      return polygons.length > 0 ? { type: 'Polygon', polygons } : null;
+    }
+  }
+}
+
+/**
+ * Encode layers as an MVT protobuf
+ * Features are clipped to the extent plus `buffer` pixels; features that end up empty
+ * (outside the tile or degenerate after rounding) are dropped, as are empty layers.
+ */
+export function encodeVectorTile(
+  layers: TileLayerInput[],
+  options: { buffer?: number } = {}
+): EncodedVectorTile {
+  const buffer = options.buffer ?? 0;
+  const pbf = new Pbf();
+  const infos: LayerInfo[] = [];
+  let featureCount = 0;
+
+  for (const layer of layers) {
+    const extent = layer.extent ?? DEFAULT_EXTENT;
+    const encoded = encodeLayer(layer, extent, buffer);
+    if (encoded.features.length === 0) {
+      continue;
+    }
+    pbf.writeMessage(3, writeLayer, encoded);
+    featureCount += encoded.features.length;
+    infos.push({
+      name: layer.name,
+      featureCount: encoded.features.length,
+      minZoom: layer.minZoom ?? 0,
+      maxZoom: layer.maxZoom ?? 0,
+      fields: encoded.keys,
+    });
+  }
+
+  return { data: pbf.finish(), layers: infos, featureCount };
+}
+
+// ============================================================================
+// Layer encoding
+// ============================================================================
+
+interface EncodedFeature {
+  id?: number;
+  tags: number[];
+  type: number;
+  geometry: number[];
+}
+
+interface EncodedLayer {
+  name: string;
+  extent: number;
+  keys: string[];
+  values: Array<string | number | boolean>;
+  features: EncodedFeature[];
+}
+
+function encodeLayer(layer: TileLayerInput, extent: number, buffer: number): EncodedLayer {
+  const keys: string[] = [];
+  const values: Array<string | number | boolean> = [];
+  const keyIndex = new Map<string, number>();
+  const valueIndex = new Map<string, number>();
+  const features: EncodedFeature[] = [];
+
+  for (const feature of layer.features) {
+    const clipped = clipGeometry(feature.geometry, -buffer, extent + buffer);
+    const geometry = clipped && encodeGeometry(clipped);
+    if (!clipped || !geometry || geometry.length === 0) {
+      continue;
+    }
+
+    const tags: number[] = [];
+    for (const [key, raw] of Object.entries(feature.properties)) {
+      const value = propertyValue(raw);
+      if (value === undefined) {
+        continue;
+      }
+      let k = keyIndex.get(key);
+      if (k === undefined) {
+        k = keys.push(key) - 1;
+        keyIndex.set(key, k);
+      }
+      // Typed lookup so 1 and '1' stay distinct values
+      const valueKey = `${typeof value}:${value}`;
+      let v = valueIndex.get(valueKey);
+      if (v === undefined) {
+        v = values.push(value) - 1;
+        valueIndex.set(valueKey, v);
+      }
+      tags.push(k, v);
+    }
+
+    features.push({
+      // The spec only allows unsigned integer ids
+      id:
+        Number.isSafeInteger(feature.id) && (feature.id as number) >= 0
+          ? (feature.id as number)
+          : undefined,
+      tags,
+      type: GEOMETRY_TYPE[clipped.type],
+      geometry,
+    });
+  }
+
+  return { name: layer.name, extent, keys, values, features };
+}
+
+function propertyValue(value: unknown): string | number | boolean | undefined {
+  if (value === null || value === undefined) {
+    return undefined;
+  }
+  if (typeof value === 'string' || typeof value === 'boolean') {
+    return value;
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  return JSON.stringify(value);
+}
+
+function writeLayer(layer: EncodedLayer, pbf: Pbf): void {
+  pbf.writeVarintField(15, 2);
+  pbf.writeStringField(1, layer.name);
+  for (const feature of layer.features) {
+    pbf.writeMessage(2, writeFeature, feature);
+  }
+  for (const key of layer.keys) {
+    pbf.writeStringField(3, key);
+  }
+  for (const value of layer.values) {
+    pbf.writeMessage(4, writeValue, value);
+  }
+  pbf.writeVarintField(5, layer.extent);
+}
+
+function writeFeature(feature: EncodedFeature, pbf: Pbf): void {
+  if (feature.id !== undefined) {
+    pbf.writeVarintField(1, feature.id);
+  }
+  pbf.writePackedVarint(2, feature.tags);
+  pbf.writeVarintField(3, feature.type);
+  pbf.writePackedVarint(4, feature.geometry);
+}
+
+function writeValue(value: string | number | boolean, pbf: Pbf): void {
+  if (typeof value === 'string') {
+    pbf.writeStringField(1, value);
+  } else if (typeof value === 'boolean') {
+    pbf.writeBooleanField(7, value);
+  } else if (!Number.isSafeInteger(value)) {
+    pbf.writeDoubleField(3, value);
+  } else if (value < 0) {
+    pbf.writeSVarintField(6, value);
+  } else {
+    pbf.writeVarintField(5, value);
+  }
+}
+
+// ============================================================================
+// Geometry encoding
+// ============================================================================
+
+function encodeGeometry(geometry: TileGeometry): number[] | null {
+  const commands: number[] = [];
+  let cursorX = 0;
+  let cursorY = 0;
+  const moveTo = (points: TilePoint[]) => {
+    commands.push(command(COMMAND.MoveTo, points.length));
+    points.forEach(delta);
+  };
+  const lineTo = (points: TilePoint[]) => {
+    commands.push(command(COMMAND.LineTo, points.length));
+    points.forEach(delta);
+  };
+  const delta = ([x, y]: TilePoint) => {
+    commands.push(zigZag(x - cursorX), zigZag(y - cursorY));
+    cursorX = x;
+    cursorY = y;
+  };
+
+  switch (geometry.type) {
+    case 'Point': {
+      const points = geometry.points.map(round);
+      if (points.length > 0) {
+        moveTo(points);
+      }
+      break;
+    }
+    case 'LineString':
+      for (const line of geometry.lines) {
+        const points = dedupe(line.map(round));
+        if (points.length >= 2) {
+          moveTo([points[0]!]);
+          lineTo(points.slice(1));
+        }
+      }
+      break;
+    case 'Polygon':
+      for (const polygon of geometry.polygons) {
+        const rings = polygon.map((ring) => openRing(dedupe(ring.map(round))));
+        const [outer, ...holes] = rings;
+        const outerArea = outer ? signedArea(outer) : 0;
+        if (!outer || outer.length < 3 || outerArea === 0) {
+          continue;
+        }
+        // Exterior rings have positive area in tile space (clockwise on screen), holes negative
+        writeRing(outerArea > 0 ? outer : outer.reverse());
+        for (const hole of holes) {
+          const area = hole.length >= 3 ? signedArea(hole) : 0;
+          if (area !== 0) {
+            writeRing(area < 0 ? hole : hole.reverse());
+          }
+        }
+      }
+      break;
+  }
+
+  function writeRing(ring: TilePoint[]) {
+    moveTo([ring[0]!]);
+    lineTo(ring.slice(1));
+    commands.push(command(COMMAND.ClosePath, 1));
+  }
+
+  return commands.length > 0 ? commands : null;
+}
+
+function command(id: number, count: number): number {
+  return (id & 0x7) | (count << 3);
+}
+
+function zigZag(n: number): number {
+  return (n << 1) ^ (n >> 31);
+}
+
+function round([x, y]: TilePoint): TilePoint {
+  return [Math.round(x), Math.round(y)];
+}
+
+function dedupe(points: TilePoint[]): TilePoint[] {
+  return points.filter(
+    (point, index) =>
+      index === 0 || point[0] !== points[index - 1]![0] || point[1] !== points[index - 1]![1]
+  );
+}
+
+/** Rings are written without the closing point; ClosePath draws that segment */
+function openRing(ring: TilePoint[]): TilePoint[] {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first![0] === last![0] && first![1] === last![1]
+    ? ring.slice(0, -1)
+    : ring;
+}
+
+function signedArea(ring: TilePoint[]): number {
+  let sum = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    sum += ring[j]![0] * ring[i]![1] - ring[i]![0] * ring[j]![1];
+  }
+  return sum / 2;
+}
+
+// ============================================================================
+// Clipping
+// ============================================================================
+
+/**
+ * Liang–Barsky clipping per segment; a line leaving and re-entering the box becomes several parts
+ */
+function clipLine(line: TilePoint[], min: number, max: number): TilePoint[][] {
+  const parts: TilePoint[][] = [];
+  let current: TilePoint[] = [];
+
+  for (let i = 0; i < line.length - 1; i++) {
+    const segment = clipSegment(line[i]!, line[i + 1]!, min, max);
+    if (!segment) {
+      if (current.length > 0) {
+        parts.push(current);
+        current = [];
+      }
+      continue;
+    }
+    const [start, end] = segment;
+    const last = current[current.length - 1];
+    if (!last || last[0] !== start[0] || last[1] !== start[1]) {
+      if (current.length > 0) {
+        parts.push(current);
+      }
+      current = [start];
+    }
+    current.push(end);
+    // The segment was cut short, so the line leaves the box here
+    if (end !== line[i + 1]) {
+      parts.push(current);
+      current = [];
+    }
+  }
+  if (current.length > 0) {
+    parts.push(current);
+  }
+  return parts.filter((part) => part.length >= 2);
+}
+
+function clipSegment(
+  a: TilePoint,
+  b: TilePoint,
+  min: number,
+  max: number
+): [TilePoint, TilePoint] | null {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  let t0 = 0;
+  let t1 = 1;
+  const edges: Array<[number, number]> = [
+    [-dx, a[0] - min],
+    [dx, max - a[0]],
+    [-dy, a[1] - min],
+    [dy, max - a[1]],
+  ];
+  for (const [p, q] of edges) {
+    if (p === 0) {
+      if (q < 0) {
+        return null;
+      }
+      continue;
+    }
+    const t = q / p;
+    if (p < 0) {
+      if (t > t1) return null;
+      if (t > t0) t0 = t;
+    } else {
+      if (t < t0) return null;
+      if (t < t1) t1 = t;
+    }
+  }
+  const start: TilePoint = t0 === 0 ? a : [a[0] + t0 * dx, a[1] + t0 * dy];
+  const end: TilePoint = t1 === 1 ? b : [a[0] + t1 * dx, a[1] + t1 * dy];
+  return [start, end];
+}
+
+/**
+ * Sutherland–Hodgman clipping of a ring against each edge of the box
+ */
+function clipRing(ring: TilePoint[], min: number, max: number): TilePoint[] {
+  const edges: Array<{ inside: (p: TilePoint) => boolean; axis: 0 | 1; bound: number }> = [
+    { inside: (p) => p[0] >= min, axis: 0, bound: min },
+    { inside: (p) => p[0] <= max, axis: 0, bound: max },
+    { inside: (p) => p[1] >= min, axis: 1, bound: min },
+    { inside: (p) => p[1] <= max, axis: 1, bound: max },
+  ];
+
+  let output = openRing(ring);
+  for (const { inside, axis, bound } of edges) {
+    const input = output;
+    output = [];
+    for (let i = 0; i < input.length; i++) {
+      const current = input[i]!;
+      const previous = input[(i + input.length - 1) % input.length]!;
+      if (inside(current)) {
+        if (!inside(previous)) {
+          output.push(intersect(previous, current, axis, bound));
+        }
+        output.push(current);
+      } else if (inside(previous)) {
+        output.push(intersect(previous, current, axis, bound));
+      }
+    }
+    if (output.length === 0) {
+      break;
+    }
+  }
+  return output;
+}
+
+function intersect(a: TilePoint, b: TilePoint, axis: 0 | 1, bound: number): TilePoint {
+  const t = (bound - a[axis]) / (b[axis] - a[axis]);
+  return axis === 0 ? [bound, a[1] + t * (b[1] - a[1])] : [a[0] + t * (b[0] - a[0]), bound];
+}
@@ -0,0 +1,581 @@
+/**
+ * PMTiles v3 archive reader/writer
+ *
+ * Single-file tile pyramid: a 127-byte header, a root directory, JSON metadata,
+ * optional leaf directories and the tile data, all addressed by byte offsets.
+ * Tiles are keyed by Hilbert tile IDs so neighbouring tiles sit close in the file.
+ * See https://github.com/protomaps/PMTiles/blob/main/spec/v3/spec.md
+ */
+
+import pako from 'pako';
+
+export { isSQLite } from '../datasource/localFile/sqlite';
+
+export const PMTILES_HEADER_SIZE = 127;
+/** The header and root directory must fit in the first 16 KiB so readers can fetch them at once */
+const ROOT_DIRECTORY_BUDGET = 16384 - PMTILES_HEADER_SIZE;
+const MAGIC = 'PMTiles';
+
+export enum Compression {
+  Unknown = 0,
+  None = 1,
+  Gzip = 2,
+  Brotli = 3,
+  Zstd = 4,
+}
+
+export enum TileType {
+  Unknown = 0,
+  Mvt = 1,
+  Png = 2,
+  Jpeg = 3,
+  Webp = 4,
+  Avif = 5,
+}
+
+export interface PMTilesHeader {
+  specVersion: number;
+  rootDirectoryOffset: number;
+  rootDirectoryLength: number;
+  metadataOffset: number;
+  metadataLength: number;
+  leafDirectoryOffset: number;
+  leafDirectoryLength: number;
+  tileDataOffset: number;
+  tileDataLength: number;
+  numAddressedTiles: number;
+  numTileEntries: number;
+  numTileContents: number;
+  clustered: boolean;
+  internalCompression: Compression;
+  tileCompression: Compression;
+  tileType: TileType;
+  minZoom: number;
+  maxZoom: number;
+  minLon: number;
+  minLat: number;
+  maxLon: number;
+  maxLat: number;
+  centerZoom: number;
+  centerLon: number;
+  centerLat: number;
+}
+
+export interface ArchiveTile {
+  z: number;
+  x: number;
+  y: number;
+  data: Uint8Array;
+}
+
+export interface PMTilesWriteOptions {
+  tileType?: TileType;
+  /** Compression applied to tile data; tiles are passed in uncompressed */
+  tileCompression?: Compression.None | Compression.Gzip;
+  /** [minLon, minLat, maxLon, maxLat]; defaults to the extent of the tiles */
+  bounds?: [number, number, number, number];
+  /** [lon, lat, zoom]; defaults to the middle of the bounds at the minimum zoom */
+  center?: [number, number, number];
+}
+
+interface Entry {
+  tileId: number;
+  offset: number;
+  length: number;
+  runLength: number;
+}
+
+// === Tile IDs ===
+
+/**
+ * Hilbert tile ID: tiles of lower zooms first, then position along the Hilbert curve
+ */
+export function zxyToTileId(z: number, x: number, y: number): number {
+  if (z > 26) {
+    throw new Error(`Zoom ${z} exceeds the PMTiles maximum of 26`);
+  }
+  const n = 2 ** z;
+  if (x < 0 || y < 0 || x >= n || y >= n) {
+    throw new Error(`Tile ${z}/${x}/${y} is outside the zoom level`);
+  }
+
+  const xy: [number, number] = [x, y];
+  let d = 0;
+  for (let s = n / 2; s >= 1; s /= 2) {
+    const rx = (xy[0] & s) > 0 ? 1 : 0;
+    const ry = (xy[1] & s) > 0 ? 1 : 0;
+    d += s * s * ((3 * rx) ^ ry);
+    rotate(s, xy, rx, ry);
+  }
+  return tilesBeforeZoom(z) + d;
+}
+
+export function tileIdToZxy(tileId: number): [number, number, number] {
+  let z = 0;
+  while (tilesBeforeZoom(z + 1) <= tileId) {
+    z++;
+  }
+
+  const n = 2 ** z;
+  const xy: [number, number] = [0, 0];
+  let t = tileId - tilesBeforeZoom(z);
+  for (let s = 1; s < n; s *= 2) {
+    // Arithmetic rather than bitwise: IDs above zoom 15 exceed 32 bits
+    const rx = Math.floor(t / 2) % 2;
+    const ry = t % 2 ^ rx;
+    rotate(s, xy, rx, ry);
+    xy[0] += s * rx;
+    xy[1] += s * ry;
+    t = Math.floor(t / 4);
+  }
+  return [z, xy[0], xy[1]];
+}
+
+function tilesBeforeZoom(z: number): number {
+  return (4 ** z - 1) / 3;
+}
+
+function rotate(n: number, xy: [number, number], rx: number, ry: number): void {
+  if (ry === 0) {
+    if (rx === 1) {
+      xy[0] = n - 1 - xy[0];
+      xy[1] = n - 1 - xy[1];
+    }
+    [xy[0], xy[1]] = [xy[1], xy[0]];
+  }
+}
+
+// === Writing ===
+
+/**
+ * Build a PMTiles archive
+ * Identical tiles are stored once, and runs of consecutive identical tiles share one entry.
+ */
+export function writePMTiles(
+  tiles: ArchiveTile[],
+  metadata: Record<string, unknown>,
+  options: PMTilesWriteOptions = {}
+): Uint8Array {
+  const tileCompression = options.tileCompression ?? Compression.Gzip;
+  const sorted = tiles
+    .map((tile) => ({ tileId: zxyToTileId(tile.z, tile.x, tile.y), tile }))
+    .sort((a, b) => a.tileId - b.tileId);
+
+  const entries: Entry[] = [];
+  const chunks: Uint8Array[] = [];
+  const contents = new Map<string, Array<{ data: Uint8Array; entry: Entry }>>();
+  let tileDataLength = 0;
+
+  for (const { tileId, tile } of sorted) {
+    const last = entries[entries.length - 1];
+    if (last?.tileId === tileId) {
+      throw new Error(`Duplicate tile ${tile.z}/${tile.x}/${tile.y}`);
+    }
+
+    const contentKey = hashContent(tile.data);
+    const existing = contents
+      .get(contentKey)
+      ?.find((content) => bytesEqual(content.data, tile.data))?.entry;
+
+    if (existing) {
+      if (last && last.offset === existing.offset && last.tileId + last.runLength === tileId) {
+        last.runLength++;
+      } else {
+        entries.push({ tileId, offset: existing.offset, length: existing.length, runLength: 1 });
+      }
+      continue;
+    }
+
+    const data = tileCompression === Compression.Gzip ? pako.gzip(tile.data) : tile.data;
+    const entry = { tileId, offset: tileDataLength, length: data.length, runLength: 1 };
+    contents.set(contentKey, [...(contents.get(contentKey) ?? []), { data: tile.data, entry }]);
+    entries.push(entry);
+    chunks.push(data);
+    tileDataLength += data.length;
+  }
+
+  const { root, leaves } = buildDirectories(entries);
+  const metadataBytes = pako.gzip(new TextEncoder().encode(JSON.stringify(metadata)));
+  const bounds = options.bounds ?? tileBounds(sorted.map(({ tile }) => tile));
+  const minZoom = sorted.length > 0 ? sorted[0]!.tile.z : 0;
+  const maxZoom = sorted.length > 0 ? sorted[sorted.length - 1]!.tile.z : 0;
+  const center = options.center ?? [
+    (bounds[0] + bounds[2]) / 2,
+    (bounds[1] + bounds[3]) / 2,
+    minZoom,
+  ];
+
+  const header: PMTilesHeader = {
+    specVersion: 3,
+    rootDirectoryOffset: PMTILES_HEADER_SIZE,
+    rootDirectoryLength: root.length,
+    metadataOffset: PMTILES_HEADER_SIZE + root.length,
+    metadataLength: metadataBytes.length,
+    leafDirectoryOffset: PMTILES_HEADER_SIZE + root.length + metadataBytes.length,
+    leafDirectoryLength: leaves.length,
+    tileDataOffset: PMTILES_HEADER_SIZE + root.length + metadataBytes.length + leaves.length,
+    tileDataLength,
+    numAddressedTiles: sorted.length,
+    numTileEntries: entries.length,
+    numTileContents: chunks.length,
+    clustered: true,
+    internalCompression: Compression.Gzip,
+    tileCompression,
+    tileType: options.tileType ?? TileType.Mvt,
+    minZoom,
+    maxZoom,
+    minLon: bounds[0],
+    minLat: bounds[1],
+    maxLon: bounds[2],
+    maxLat: bounds[3],
+    centerZoom: Math.round(center[2]),
+    centerLon: center[0],
+    centerLat: center[1],
+  };
+
+  return concat([serializeHeader(header), root, metadataBytes, leaves, ...chunks]);
+}
+
+/**
+ * Split entries into leaf directories until the root fits its budget
+ */
+function buildDirectories(entries: Entry[]): { root: Uint8Array; leaves: Uint8Array } {
+  const root = compressDirectory(entries);
+  if (root.length <= ROOT_DIRECTORY_BUDGET) {
+    return { root, leaves: new Uint8Array(0) };
+  }
+
+  for (let leafSize = 4096; ; leafSize *= 2) {
+    const rootEntries: Entry[] = [];
+    const leafChunks: Uint8Array[] = [];
+    let offset = 0;
+    for (let i = 0; i < entries.length; i += leafSize) {
+      const leaf = compressDirectory(entries.slice(i, i + leafSize));
+      rootEntries.push({ tileId: entries[i]!.tileId, offset, length: leaf.length, runLength: 0 });
+      leafChunks.push(leaf);
+      offset += leaf.length;
+    }
+    const leafRoot = compressDirectory(rootEntries);
+    if (leafRoot.length <= ROOT_DIRECTORY_BUDGET) {
+      return { root: leafRoot, leaves: concat(leafChunks) };
+    }
+  }
+}
+
+/** Column-oriented varints: ID deltas, run lengths, lengths, then offsets (0 = contiguous) */
+function compressDirectory(entries: Entry[]): Uint8Array {
+  const bytes: number[] = [];
+  writeVarint(bytes, entries.length);
+
+  let lastId = 0;
+  for (const entry of entries) {
+    writeVarint(bytes, entry.tileId - lastId);
+    lastId = entry.tileId;
+  }
+  entries.forEach((entry) => writeVarint(bytes, entry.runLength));
+  entries.forEach((entry) => writeVarint(bytes, entry.length));
+  entries.forEach((entry, i) => {
+    const previous = entries[i - 1];
+    const contiguous = previous && entry.offset === previous.offset + previous.length;
+    writeVarint(bytes, contiguous ? 0 : entry.offset + 1);
+  });
+
+  return pako.gzip(new Uint8Array(bytes));
+}
+
+function serializeHeader(header: PMTilesHeader): Uint8Array {
+  const buffer = new Uint8Array(PMTILES_HEADER_SIZE);
+  const view = new DataView(buffer.buffer);
+  buffer.set(new TextEncoder().encode(MAGIC), 0);
+  view.setUint8(7, header.specVersion);
+
+  const uint64 = [
+    header.rootDirectoryOffset,
+    header.rootDirectoryLength,
+    header.metadataOffset,
+    header.metadataLength,
+    header.leafDirectoryOffset,
+    header.leafDirectoryLength,
+    header.tileDataOffset,
+    header.tileDataLength,
+    header.numAddressedTiles,
+    header.numTileEntries,
+    header.numTileContents,
+  ];
+  uint64.forEach((value, i) => setUint64(view, 8 + i * 8, value));
+
+  view.setUint8(96, header.clustered ? 1 : 0);
+  view.setUint8(97, header.internalCompression);
+  view.setUint8(98, header.tileCompression);
+  view.setUint8(99, header.tileType);
+  view.setUint8(100, header.minZoom);
+  view.setUint8(101, header.maxZoom);
+  view.setInt32(102, Math.round(header.minLon * 1e7), true);
+  view.setInt32(106, Math.round(header.minLat * 1e7), true);
+  view.setInt32(110, Math.round(header.maxLon * 1e7), true);
+  view.setInt32(114, Math.round(header.maxLat * 1e7), true);
+  view.setUint8(118, header.centerZoom);
+  view.setInt32(119, Math.round(header.centerLon * 1e7), true);
+  view.setInt32(123, Math.round(header.centerLat * 1e7), true);
+  return buffer;
+}
+
+// === Reading ===
+
+export class PMTilesReader {
+  readonly header: PMTilesHeader;
+  private readonly data: Uint8Array;
+  private readonly rootDirectory: Entry[];
+
+  constructor(data: Uint8Array | ArrayBuffer) {
+    this.data = data instanceof Uint8Array ? data : new Uint8Array(data);
+    this.header = parseHeader(this.data);
+    this.rootDirectory = this.readDirectory(
+      this.header.rootDirectoryOffset,
+      this.header.rootDirectoryLength
+    );
+  }
+
+  getMetadata(): Record<string, unknown> {
+    const { metadataOffset, metadataLength } = this.header;
+    if (metadataLength === 0) {
+      return {};
+    }
+    const bytes = this.decompress(
+      this.data.subarray(metadataOffset, metadataOffset + metadataLength),
+      this.header.internalCompression
+    );
+    return JSON.parse(new TextDecoder().decode(bytes));
+  }
+
+  /** Uncompressed tile data, or undefined when the archive has no such tile */
+  getTile(z: number, x: number, y: number): Uint8Array | undefined {
+    const tileId = zxyToTileId(z, x, y);
+    let directory = this.rootDirectory;
+
+    // The spec allows at most three levels of directories
+    for (let depth = 0; depth < 4; depth++) {
+      const entry = findEntry(directory, tileId);
+      if (!entry) {
+        return undefined;
+      }
+      if (entry.runLength > 0) {
+        return this.readTile(entry);
+      }
+      directory = this.readDirectory(this.header.leafDirectoryOffset + entry.offset, entry.length);
+    }
+    throw new Error('PMTiles directory nesting is too deep');
+  }
+
+  /** Every addressed tile in tile ID order, with run-length entries expanded */
+  *tiles(): Generator<ArchiveTile> {
+    yield* this.walk(this.rootDirectory);
+  }
+
+  private *walk(directory: Entry[]): Generator<ArchiveTile> {
+    for (const entry of directory) {
+      if (entry.runLength === 0) {
+        yield* this.walk(
+          this.readDirectory(this.header.leafDirectoryOffset + entry.offset, entry.length)
+        );
+        continue;
+      }
+      const data = this.readTile(entry);
+      for (let i = 0; i < entry.runLength; i++) {
+        const [z, x, y] = tileIdToZxy(entry.tileId + i);
+        yield { z, x, y, data };
+      }
+    }
+  }
+
+  private readTile(entry: Entry): Uint8Array {
+    const start = this.header.tileDataOffset + entry.offset;
+    return this.decompress(
+      this.data.subarray(start, start + entry.length),
+      this.header.tileCompression
+    );
+  }
+
+  private readDirectory(offset: number, length: number): Entry[] {
+    const bytes = this.decompress(
+      this.data.subarray(offset, offset + length),
+      this.header.internalCompression
+    );
+    const cursor = { bytes, position: 0 };
+    const count = readVarint(cursor);
+    const entries: Entry[] = [];
+
+    let lastId = 0;
+    for (let i = 0; i < count; i++) {
+      lastId += readVarint(cursor);
+      entries.push({ tileId: lastId, offset: 0, length: 0, runLength: 0 });
+    }
+    entries.forEach((entry) => (entry.runLength = readVarint(cursor)));
+    entries.forEach((entry) => (entry.length = readVarint(cursor)));
+    entries.forEach((entry, i) => {
+      const value = readVarint(cursor);
+      const previous = entries[i - 1];
+      entry.offset = value === 0 && previous ? previous.offset + previous.length : value - 1;
+    });
+    return entries;
+  }
+
+  private decompress(bytes: Uint8Array, compression: Compression): Uint8Array {
+    switch (compression) {
+      case Compression.None:
+      case Compression.Unknown:
+        return bytes;
+      case Compression.Gzip:
+        return pako.ungzip(bytes);
+      default:
+        throw new Error(
+          `Unsupported PMTiles compression: ${Compression[compression] ?? compression}`
+        );
+    }
+  }
+}
+
+export function isPMTiles(data: Uint8Array): boolean {
+  return new TextDecoder().decode(data.subarray(0, MAGIC.length)) === MAGIC;
+}
+
+function parseHeader(data: Uint8Array): PMTilesHeader {
+  if (data.length < PMTILES_HEADER_SIZE || !isPMTiles(data)) {
+    throw new Error('Not a PMTiles archive');
+  }
+  const view = new DataView(data.buffer, data.byteOffset, PMTILES_HEADER_SIZE);
+  const specVersion = view.getUint8(7);
+  if (specVersion !== 3) {
+    throw new Error(`Unsupported PMTiles version ${specVersion}; only v3 is supported`);
+  }
+
+  const uint64 = (i: number) => getUint64(view, 8 + i * 8);
+  return {
+    specVersion,
+    rootDirectoryOffset: uint64(0),
+    rootDirectoryLength: uint64(1),
+    metadataOffset: uint64(2),
+    metadataLength: uint64(3),
+    leafDirectoryOffset: uint64(4),
+    leafDirectoryLength: uint64(5),
+    tileDataOffset: uint64(6),
+    tileDataLength: uint64(7),
+    numAddressedTiles: uint64(8),
+    numTileEntries: uint64(9),
+    numTileContents: uint64(10),
+    clustered: view.getUint8(96) === 1,
+    internalCompression: view.getUint8(97),
+    tileCompression: view.getUint8(98),
+    tileType: view.getUint8(99),
+    minZoom: view.getUint8(100),
+    maxZoom: view.getUint8(101),
+    minLon: view.getInt32(102, true) / 1e7,
+    minLat: view.getInt32(106, true) / 1e7,
+    maxLon: view.getInt32(110, true) / 1e7,
+    maxLat: view.getInt32(114, true) / 1e7,
+    centerZoom: view.getUint8(118),
+    centerLon: view.getInt32(119, true) / 1e7,
+    centerLat: view.getInt32(123, true) / 1e7,
+  };
+}
+
+/** Last entry at or before the tile ID, if it covers it (leaf pointers cover everything after) */
+function findEntry(entries: Entry[], tileId: number): Entry | undefined {
+  let low = 0;
+  let high = entries.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (entries[mid]!.tileId <= tileId) {
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  const entry = entries[high];
+  if (!entry) {
+    return undefined;
+  }
+  if (entry.runLength === 0 || tileId < entry.tileId + entry.runLength) {
+    return entry;
+  }
+  return undefined;
+}
+
+// === Helpers ===
+
+/** Lon/lat extent of a set of tiles */
+export function tileBounds(
+  tiles: Array<{ z: number; x: number; y: number }>
+): [number, number, number, number] {
+  if (tiles.length === 0) {
+    return [-180, -85.0511287, 180, 85.0511287];
+  }
+  const bounds: [number, number, number, number] = [180, 90, -180, -90];
+  for (const { z, x, y } of tiles) {
+    const n = 2 ** z;
+    const lat = (row: number) =>
+      (Math.atan(Math.sinh(Math.PI * (1 - (2 * row) / n))) * 180) / Math.PI;
+    bounds[0] = Math.min(bounds[0], (x / n) * 360 - 180);
+    bounds[1] = Math.min(bounds[1], lat(y + 1));
+    bounds[2] = Math.max(bounds[2], ((x + 1) / n) * 360 - 180);
+    bounds[3] = Math.max(bounds[3], lat(y));
+  }
+  return bounds;
+}
+
+/** FNV-1a, to bucket tiles before comparing bytes */
+function hashContent(data: Uint8Array): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < data.length; i++) {
+    hash = Math.imul(hash ^ data[i]!, 0x01000193);
+  }
+  return `${data.length}:${hash >>> 0}`;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
+function writeVarint(bytes: number[], value: number): void {
+  while (value >= 0x80) {
+    bytes.push(value % 0x80 | 0x80);
+    value = Math.floor(value / 0x80);
+  }
+  bytes.push(value);
+}
+
+function readVarint(cursor: { bytes: Uint8Array; position: number }): number {
+  let value = 0;
+  let factor = 1;
+  for (;;) {
+    const byte = cursor.bytes[cursor.position++];
+    if (byte === undefined) {
+      throw new Error('Truncated PMTiles directory');
+    }
+    value += (byte & 0x7f) * factor;
+    if (byte < 0x80) {
+      return value;
+    }
+    factor *= 0x80;
+  }
+}
+
+function setUint64(view: DataView, offset: number, value: number): void {
+  view.setUint32(offset, value % 2 ** 32, true);
+  view.setUint32(offset + 4, Math.floor(value / 2 ** 32), true);
+}
+
+function getUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset, true) + view.getUint32(offset + 4, true) * 2 ** 32;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
@@ -3,7 +3,7 @@
  */
 
 import { NodeId } from '@hierarchidb/common-core';
-import type { Feature } from '../types';
+import type { Feature, LocalFileSource, SimplificationAlgorithm, UrlMetadata } from '../types';
 
 
 // === API Method Signatures ===
@@ -20,16 +20,22 @@ export interface ShapesAPIMethods extends Record<string, any> {
   getAvailableDataSources(): Promise<DataSourceInfo[]>;
   getCountryMetadata(dataSource: string, countryCode?: string): Promise<CountryMetadata[]>;
   validateDataSource(dataSource: string, config: DataSourceConfig): Promise<ValidationResult>;
+  stageLocalFiles(nodeId: NodeId, files: LocalFileUpload[], options?: LocalFileStagingOptions): Promise<LocalFileStagingResult>;
   
   // Vector tiles
   getTile(nodeId: NodeId, z: number, x: number, y: number): Promise<Uint8Array>;
   getTileMetadata(nodeId: NodeId, z: number, x: number, y: number): Promise<TileMetadata>;
   clearTileCache(nodeId: NodeId): Promise<void>;
+  exportTileArchive(nodeId: NodeId, options?: TileArchiveExportOptions): Promise<Uint8Array>;
+  importTileArchive(nodeId: NodeId, archive: Uint8Array | ArrayBuffer): Promise<TileSourceInfo>;
+  getTileJSON(nodeId: NodeId): Promise<TileJSON | null>;
+  getTileStyle(nodeId: NodeId): Promise<TileStyle | null>;
   
   // Feature queries
   searchFeatures(nodeId: NodeId, query: string, options?: SearchOptions): Promise<Feature[]>;
   getFeatureById(nodeId: NodeId, featureId: number): Promise<Feature | null>;
   getFeaturesByBbox(nodeId: NodeId, bbox: BoundingBox, options?: BboxQueryOptions): Promise<Feature[]>;
+  getFeaturesAtPoint(nodeId: NodeId, lng: number, lat: number): Promise<Feature[]>;
   
   // Cache management
   getCacheStatistics(nodeId?: NodeId): Promise<CacheStatistics>;
@@ -45,7 +51,8 @@ export type DataSourceName =
   | 'NaturalEarth'
   | 'GeoBoundaries' 
   | 'GADM'
-  | 'OpenStreetMap';
+  | 'OpenStreetMap'
+  | 'LocalFile';
 
 export type ProcessingStage = 
   | 'download'
@@ -272,6 +279,106 @@ export interface LayerInfo {
   fields: string[];
 }
 
+/**
+ * TileJSON 3.0 description of a tileset
+ * See https://github.com/mapbox/tilejson-spec/tree/master/3.0.0
+ */
+export interface TileJSON {
+  tilejson: '3.0.0';
+  tiles: string[];
+  name?: string;
+  description?: string;
+  attribution?: string;
+  scheme?: 'xyz' | 'tms';
+  format?: string;
+  minzoom: number;
+  maxzoom: number;
+  bounds: BoundingBox;
+  center: [number, number, number];
+  vector_layers?: VectorLayer[];
+}
+
+export interface VectorLayer {
+  id: string;
+  /** Field name to description */
+  fields: Record<string, string>;
+  minzoom?: number;
+  maxzoom?: number;
+  description?: string;
+}
+
+export type TileArchiveFormat = 'pmtiles' | 'mbtiles';
+
+export interface TileArchiveExportOptions {
+  /** Tile URL templates written into the TileJSON, e.g. where the archive will be hosted */
+  tiles?: string[];
+  name?: string;
+  description?: string;
+  /** Gzip tiles inside the archive (default true) */
+  compressTiles?: boolean;
+}
+
+export interface TileSourceInfo {
+  nodeId: NodeId;
+  format: TileArchiveFormat;
+  tileType: 'mvt' | 'png' | 'jpeg' | 'webp' | 'avif' | 'unknown';
+  tileJSON: TileJSON;
+  tileCount: number;
+  byteSize: number;
+  importedAt: number;
+}
+
+/**
+ * MapLibre style drawing a node's tiles as a base layer, e.g. the custom style of a BaseMap node
+ * whose archive was imported with importTileArchive
+ */
+export interface TileStyle {
+  version: 8;
+  name?: string;
+  sources: Record<string, TileStyleSource>;
+  layers: TileStyleLayer[];
+  center: [number, number];
+  zoom: number;
+}
+
+export interface TileStyleSource {
+  type: 'vector' | 'raster';
+  /** dexie://ShapeDB/<nodeId>/{z}/{x}/{y}, served by getTile */
+  tiles: string[];
+  minzoom: number;
+  maxzoom: number;
+  bounds: BoundingBox;
+  tileSize?: number;
+  attribution?: string;
+}
+
+export interface TileStyleLayer {
+  id: string;
+  type: 'background' | 'fill' | 'line' | 'circle' | 'raster';
+  source?: string;
+  'source-layer'?: string;
+  filter?: ['==', '$type', 'Point' | 'LineString' | 'Polygon'];
+  paint?: Record<string, string | number>;
+}
+
+// === Local File Types ===
+
+export interface LocalFileUpload {
+  name: string;
+  data: ArrayBuffer | Uint8Array;
+}
+
+export interface LocalFileStagingOptions {
+  /** Admin level recorded for the uploaded boundaries (default 0) */
+  adminLevel?: number;
+}
+
+export interface LocalFileStagingResult {
+  sources: LocalFileSource[];
+  /** local:// entries to start a batch session with */
+  urlMetadata: UrlMetadata[];
+}
+
 // === Feature Types ===
 
 // Feature type is imported from '../types'
@@ -383,11 +490,15 @@ export interface Simplify1Task extends TaskInfo {
 }
 
 export interface SimplifyTaskConfig {
-  algorithm: 'douglas-peucker' | 'visvalingam';
+  algorithm: SimplificationAlgorithm;
+  /** Douglas-Peucker: max deviation in degrees; Visvalingam-Whyatt: min effective area in square degrees */
   tolerance: number;
+  /** Simplify polygon borders as shared arcs so neighbours stay gap- and sliver-free */
   preserveTopology: boolean;
   minimumArea?: number;
   maxVertices?: number;
+  /** Simplify once per zoom level, treating tolerance as the zoom 8 value */
+  zoomLevels?: number[];
 }
 
 export interface Simplify1Result {
@@ -398,6 +509,8 @@ export interface Simplify1Result {
   simplifiedFeatureCount: number;
   reductionRatio: number;
   qualityMetrics: QualityMetrics;
+  /** Output buffer per zoom level when zoomLevels was set */
+  levelBufferIds?: Record<number, string>;
   errorMessage?: string;
 }
 
@@ -446,6 +559,7 @@ export interface VectorTileResult {
   tileId: string;
   mvtSize: number;
   featureCount: number;
+  layers?: LayerInfo[];
   compressionRatio?: number;
   qualityScore: number;
   errorMessage?: string;
@@ -497,6 +611,21 @@ export interface QualityMetrics {
   topologicalIntegrity: number;
   visualQuality: number;
   compressionEfficiency: number;
+  /** Overlaps between neighbouring polygons introduced by simplification */
+  sliverCount?: number;
+  /** Uncovered areas between neighbouring polygons introduced by simplification */
+  gapCount?: number;
+  zoomLevels?: ZoomLevelQuality[];
+}
+
+export interface ZoomLevelQuality {
+  zoomLevel: number;
+  tolerance: number;
+  vertexCount: number;
+  sliverCount: number;
+  gapCount: number;
+  /** Features whose polygons all fell below the tolerance */
+  collapsedFeatures: number;
 }
 
 export interface LayerConfig {
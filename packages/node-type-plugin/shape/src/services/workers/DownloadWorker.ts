@@ -3,6 +3,7 @@
  * 
  * Responsibilities:
  * - Download from multiple data sources (GADM, Natural Earth, OSM, GeoBoundaries)
+ * - Read uploaded files staged as local:// feature buffers
  * - Data validation and format conversion
  * - Compression and caching
  * - Initial spatial indexing
@@ -21,6 +22,7 @@ import type {
   FeatureIndex,
   DataSourceName
 } from '../types';
+import { LocalFileImporter, isLocalFileUrl } from '../datasource/LocalFileImporter';
 
 /**
  * DownloadWorker implementation
@@ -28,6 +30,7 @@ import type {
 export class DownloadWorker implements DownloadWorkerAPI {
   private cache = new Map<string, ArrayBuffer>();
   private readonly maxCacheSize = 100 * 1024 * 1024; // 100MB cache limit
+  private readonly localFileImporter = new LocalFileImporter();
   
   constructor() {
     // Set up global error handling (only in Worker environment)
@@ -116,6 +119,12 @@ export class DownloadWorker implements DownloadWorkerAPI {
    * Download data from source with retry logic
    */
   private async downloadFromSource(config: DownloadTaskConfig): Promise<ArrayBuffer> {
+    // Uploaded files are staged in ShapeDB as WGS84 GeoJSON
+    if (isLocalFileUrl(config.url)) {
+      const data = await this.localFileImporter.readStagedFile(config.url);
+      return data.slice().buffer;
+    }
+
     let lastError: Error | undefined;
     
     for (let attempt = 0; attempt < 3; attempt++) {
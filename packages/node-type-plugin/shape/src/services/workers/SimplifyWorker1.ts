@@ -3,7 +3,8 @@
  *
  * Responsibilities:
  * - Individual feature simplification using Douglas-Peucker algorithm
- * - Topology preservation options (prevent self-intersection)
+ * - Topology preservation: polygon borders simplified once as shared arcs
+ * - Multi-level output, one buffer per zoom level
  * - Morton code recalculation for simplified geometries
  * - Area and complexity-based filtering
  * - Quality metrics calculation
@@ -25,8 +26,16 @@ import type {
   FeatureData,
   ValidationResult,
   FeatureIndex,
+  ZoomLevelQuality,
 } from "../types";
 import type { Feature } from "../../types";
+import {
+  CoverageSimplifier,
+  buildArcTopology,
+  countSliversAndGaps,
+  filterByRank,
+  rankVertices,
+} from "../simplify";
 
 /**
  * SimplifyWorker1 - Feature-level geometry simplification
@@ -81,23 +90,78 @@ export class SimplifyWorker1 implements SimplifyWorker1API {
         `SimplifyWorker1: Processing ${originalFeatureCount} features`,
       );
 
-      // 3. Simplify features
-      const simplifiedFeatures = await this.simplifyFeatures(
-        geoJson.features,
-        task.config,
-      );
+      // 3. Simplify features; polygon coverages share their borders as arcs
+      let simplifiedFeatures: (Feature | null)[];
+      let simplifier: CoverageSimplifier | undefined;
+      let zoomLevels: ZoomLevelQuality[] | undefined;
+      let levelBufferIds: Record<number, string> | undefined;
+
+      if (task.config.preserveTopology) {
+        simplifier = new CoverageSimplifier(
+          geoJson.features.map((feature: Feature) => feature.geometry),
+          task.config.algorithm,
+        );
+      }
+
+      if (simplifier && task.config.zoomLevels?.length) {
+        const levels = simplifier.simplifyLevels(
+          task.config.tolerance,
+          task.config.zoomLevels,
+        );
+        zoomLevels = levels.map((level) => level.quality);
+        levelBufferIds = {};
+        simplifiedFeatures = [];
+        const finestZoom = Math.max(...task.config.zoomLevels);
+
+        for (const level of levels) {
+          const levelFeatures = await this.applyCoverage(
+            geoJson.features,
+            level.geometries,
+            { ...task.config, tolerance: level.tolerance },
+          );
+          const levelBufferId = `simplified1-${task.taskId}-z${level.zoomLevel}-${Date.now()}`;
+          await this.saveOutputBuffer(
+            levelBufferId,
+            JSON.stringify({
+              type: "FeatureCollection",
+              features: levelFeatures.filter(Boolean),
+            }),
+          );
+          levelBufferIds[level.zoomLevel] = levelBufferId;
+
+          // The most detailed level is the task's main output
+          if (level.zoomLevel === finestZoom) {
+            simplifiedFeatures = levelFeatures;
+          }
+        }
+      } else if (simplifier) {
+        simplifiedFeatures = await this.applyCoverage(
+          geoJson.features,
+          simplifier.simplify(task.config.tolerance),
+          task.config,
+        );
+      } else {
+        simplifiedFeatures = await this.simplifyFeatures(
+          geoJson.features,
+          task.config,
+        );
+      }
 
       // 4. Calculate quality metrics
       const qualityMetrics = await this.calculateQualityMetrics(
         geoJson.features,
         simplifiedFeatures,
         task.config,
+        simplifier,
       );
+      if (zoomLevels) {
+        qualityMetrics.zoomLevels = zoomLevels;
+      }
 
       // 5. Generate output buffer
       const outputGeoJson = {
         type: "FeatureCollection",
-        features: simplifiedFeatures,
+        features: simplifiedFeatures.filter(Boolean),
       };
 
       const outputBufferId = `simplified1-${task.taskId}-${Date.now()}`;
@@ -116,9 +180,10 @@ export class SimplifyWorker1 implements SimplifyWorker1API {
         status: "completed",
         outputBufferId,
         originalFeatureCount,
-        simplifiedFeatureCount: simplifiedFeatures.length,
+        simplifiedFeatureCount: outputGeoJson.features.length,
         reductionRatio,
         qualityMetrics,
+        ...(levelBufferIds && { levelBufferIds }),
       };
 
       const processingTime = Date.now() - startTime;
@@ -189,6 +254,34 @@ export class SimplifyWorker1 implements SimplifyWorker1API {
     return simplifiedFeatures;
   }
 
+  /**
+   * Attach coverage-simplified polygons to their features. Polygons that collapsed
+   * below the tolerance become null; other geometries are simplified per feature.
+   */
+  private async applyCoverage(
+    features: Feature[],
+    geometries: (Geometry | null)[],
+    config: SimplifyTaskConfig,
+  ): Promise<(Feature | null)[]> {
+    const result: (Feature | null)[] = [];
+
+    for (const [i, feature] of features.entries()) {
+      const geometry = geometries[i];
+      if (geometry) {
+        result.push({ ...feature, geometry });
+      } else if (
+        feature.geometry?.type === "Polygon" ||
+        feature.geometry?.type === "MultiPolygon"
+      ) {
+        result.push(null);
+      } else {
+        result.push(await this.simplifyFeature(feature, config));
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Simplify individual feature
    */
@@ -341,7 +434,6 @@ export class SimplifyWorker1 implements SimplifyWorker1API {
    * Visvalingam-Whyatt simplification implementation
    */
   private visvalingamSimplify(geometry: any, config: SimplifyTaskConfig): any {
-    // Simplified implementation - would use proper Visvalingam algorithm
     switch (geometry.type) {
       case "LineString":
         return {
@@ -360,6 +452,16 @@ export class SimplifyWorker1 implements SimplifyWorker1API {
           ),
         };
 
+      case "MultiPolygon":
+        return {
+          ...geometry,
+          coordinates: geometry.coordinates.map((polygon: number[][][]) =>
+            polygon.map((ring: number[][]) =>
+              this.visvalingamLine(ring, config.tolerance),
+            ),
+          ),
+        };
+
       default:
         return geometry;
     }
@@ -371,24 +473,12 @@ export class SimplifyWorker1 implements SimplifyWorker1API {
   private visvalingamLine(points: number[][], tolerance: number): number[][] {
     if (points.length <= 3) return points;
 
-    // Calculate effective areas for all points
-    const areas = new Array(points.length).fill(Infinity);
-
-    for (let i = 1; i < points.length - 1; i++) {
-      areas[i] = this.triangleArea(points[i - 1], points[i], points[i + 1]);
-    }
-
-    // Remove points with area below tolerance
-    const result = [points[0]]; // Always keep first point
-
-    for (let i = 1; i < points.length - 1; i++) {
-      if (areas[i] >= tolerance) {
-        result.push(points[i]);
-      }
-    }
-
-    result.push(points[points.length - 1]); // Always keep last point
-    return result;
+    // Eliminate the smallest effective areas first, recomputing neighbours
+    return filterByRank(
+      points,
+      rankVertices(points, "visvalingam"),
+      tolerance,
+    );
   }
 
   /**
@@ -396,8 +486,9 @@ export class SimplifyWorker1 implements SimplifyWorker1API {
    */
   private async calculateQualityMetrics(
     originalFeatures: Feature[],
-    simplifiedFeatures: Feature[],
+    simplifiedFeatures: (Feature | null)[],
     config: SimplifyTaskConfig,
+    simplifier?: CoverageSimplifier,
   ): Promise<QualityMetrics> {
     let totalGeometricAccuracy = 0;
     let totalTopologicalIntegrity = 0;
@@ -412,6 +503,7 @@ export class SimplifyWorker1 implements SimplifyWorker1API {
       try {
         const original = originalFeatures[i];
         const simplified = simplifiedFeatures[i];
+        if (!simplified) continue; // Collapsed below the tolerance
 
         // Geometric accuracy (using area difference)
         const originalArea = await this.calculateComplexity(original.geometry);
@@ -455,15 +547,26 @@ export class SimplifyWorker1 implements SimplifyWorker1API {
 
     // Compression efficiency based on size reduction
     const originalSize = JSON.stringify(originalFeatures).length;
-    const simplifiedSize = JSON.stringify(simplifiedFeatures).length;
+    const simplifiedSize = JSON.stringify(
+      simplifiedFeatures.filter(Boolean),
+    ).length;
     const compressionEfficiency =
       originalSize > 0 ? (originalSize - simplifiedSize) / originalSize : 0;
 
+    // Slivers and gaps between neighbours whose shared border was simplified differently
+    const { sliverCount, gapCount } = countSliversAndGaps(
+      simplifier?.topology ??
+        buildArcTopology(originalFeatures.map((feature) => feature.geometry)),
+      simplifiedFeatures.map((feature) => feature?.geometry ?? null),
+    );
+
     return {
       geometricAccuracy: Math.max(0, Math.min(1, avgGeometricAccuracy)),
       topologicalIntegrity: Math.max(0, Math.min(1, avgTopologicalIntegrity)),
       visualQuality: Math.max(0, Math.min(1, avgVisualQuality)),
       compressionEfficiency: Math.max(0, Math.min(1, compressionEfficiency)),
+      sliverCount,
+      gapCount,
     };
   }
 
@@ -602,15 +705,6 @@ export class SimplifyWorker1 implements SimplifyWorker1API {
     return Math.sqrt(dx * dx + dy * dy);
   }
 
-  private triangleArea(p1: number[], p2: number[], p3: number[]): number {
-    return Math.abs(
-      (p1[0] * (p2[1] - p3[1]) +
-        p2[0] * (p3[1] - p1[1]) +
-        p3[0] * (p1[1] - p2[1])) /
-        2,
-    );
-  }
-
   private countVertices(geometry: any): number {
     let count = 0;
 
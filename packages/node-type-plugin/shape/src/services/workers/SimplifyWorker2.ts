@@ -26,6 +26,13 @@ import type {
   QualityMetrics
 } from '../types';
 import type { Feature } from '../../types';
+import {
+  CoverageSimplifier,
+  filterByRank,
+  findBoundaryMismatches,
+  rankVertices,
+  toleranceForZoom
+} from '../simplify';
 
 /**
  * SimplifyWorker2 - Tile-level geometry simplification
@@ -80,11 +87,16 @@ export class SimplifyWorker2 implements SimplifyWorker2API {
 
       console.log(`SimplifyWorker2: Processing ${geoJson.features.length} features for tiling`);
 
-      // 3. Generate tile grid
-      const tiles = await this.generateTileGrid(geoJson.features, task.config);
+      // 3. Simplify shared borders once, before tiling, so neighbours stay aligned
+      const features: Feature[] = task.config.preserveSharedBoundaries
+        ? await this.simplifyCoverage(geoJson.features, task.config)
+        : geoJson.features;
+
+      // 4. Generate tile grid
+      const tiles = await this.generateTileGrid(features, task.config);
       console.log(`SimplifyWorker2: Generated ${tiles.length} tiles`);
 
-      // 4. Process each tile
+      // 5. Process each tile
       const tileBufferIds: string[] = [];
       let totalTilesGenerated = 0;
       let topologyPreserved = true;
@@ -278,24 +290,21 @@ export class SimplifyWorker2 implements SimplifyWorker2API {
       // 1. Clip features to tile bounds
       const clippedFeatures = await this.clipFeaturesToTile(tile.features, tile.bbox);
 
-      // 2. Simplify geometries for zoom level
-      const simplifiedFeatures = await this.simplifyForZoomLevel(clippedFeatures, config);
+      // 2. Simplify geometries for zoom level (shared borders were simplified before tiling)
+      const simplifiedFeatures = config.preserveSharedBoundaries
+        ? clippedFeatures
+        : await this.simplifyForZoomLevel(clippedFeatures, config);
 
       // 3. Quantize coordinates
       const quantizedFeatures = this.quantizeCoordinates(simplifiedFeatures, config);
 
-      // 4. Preserve shared boundaries
-      const boundaryPreservedFeatures = config.preserveSharedBoundaries
-        ? await this.preserveSharedBoundaries(quantizedFeatures)
-        : quantizedFeatures;
-
-      // 5. Validate topology
-      const topologyValid = await this.validateTileTopology(boundaryPreservedFeatures);
+      // 4. Validate topology
+      const topologyValid = await this.validateTileTopology(quantizedFeatures);
 
-      // 6. Save tile buffer
+      // 5. Save tile buffer
       const tileGeoJson = {
         type: 'FeatureCollection',
-        features: boundaryPreservedFeatures,
+        features: quantizedFeatures,
         metadata: {
           tile: { z: tile.z, x: tile.x, y: tile.y },
           bbox: tile.bbox,
@@ -369,19 +378,45 @@ export class SimplifyWorker2 implements SimplifyWorker2API {
     return clippedFeatures;
   }
 
+  /**
+   * Simplify polygon borders as shared arcs for the zoom level; polygons that collapse
+   * below the tolerance are dropped, other geometries are simplified per feature
+   */
+  private async simplifyCoverage(features: Feature[], config: TileSimplifyConfig): Promise<Feature[]> {
+    const simplifier = new CoverageSimplifier(
+      features.map(feature => feature.geometry),
+      config.algorithm
+    );
+    const geometries = simplifier.simplify(this.calculateToleranceForZoom(config));
+    const others = await this.simplifyForZoomLevel(
+      features.filter((_, i) => simplifier.topology.polygons[i] === null),
+      config
+    );
+
+    return features.flatMap((feature, i) => {
+      if (simplifier.topology.polygons[i] === null) {
+        return [others.shift()!];
+      }
+      const geometry = geometries[i];
+      return geometry ? [{ ...feature, geometry }] : [];
+    });
+  }
+
   /**
    * Simplify geometries based on zoom level
    */
   private async simplifyForZoomLevel(features: Feature[], config: TileSimplifyConfig): Promise<Feature[]> {
-    const tolerance = this.calculateToleranceForZoom(config.zoomLevel, config.tolerance);
+    const tolerance = this.calculateToleranceForZoom(config);
     const simplified: Feature[] = [];
 
     for (const feature of features) {
       try {
-        const simplifiedFeature = turf.simplify(feature, {
-          tolerance,
-          highQuality: config.preserveTopology
-        });
+        const simplifiedFeature = config.algorithm === 'visvalingam'
+          ? { ...feature, geometry: this.visvalingamGeometry(feature.geometry, tolerance) }
+          : turf.simplify(feature, {
+            tolerance,
+            highQuality: config.preserveTopology
+          });
 
         simplified.push(simplifiedFeature);
 
@@ -394,6 +429,32 @@ export class SimplifyWorker2 implements SimplifyWorker2API {
     return simplified;
   }
 
+  /**
+   * Visvalingam-Whyatt per line or ring, keeping rings closed
+   */
+  private visvalingamGeometry(geometry: any, tolerance: number): any {
+    const simplifyLine = (points: number[][]) => {
+      const simplified = filterByRank(points, rankVertices(points, 'visvalingam'), tolerance);
+      // Collapsed rings are left as they were
+      return points.length > 3 && simplified.length < 4 && this.isClosed(points) ? points : simplified;
+    };
+
+    switch (geometry?.type) {
+      case 'LineString':
+        return { ...geometry, coordinates: simplifyLine(geometry.coordinates) };
+      case 'MultiLineString':
+      case 'Polygon':
+        return { ...geometry, coordinates: geometry.coordinates.map(simplifyLine) };
+      case 'MultiPolygon':
+        return {
+          ...geometry,
+          coordinates: geometry.coordinates.map((polygon: number[][][]) => polygon.map(simplifyLine))
+        };
+      default:
+        return geometry;
+    }
+  }
+
   /**
    * Quantize coordinates to reduce precision
    */
@@ -427,29 +488,6 @@ export class SimplifyWorker2 implements SimplifyWorker2API {
     };
   }
 
-  /**
-   * Preserve shared boundaries between adjacent features
-   */
-  private async preserveSharedBoundaries(features: Feature[]): Promise<Feature[]> {
-    // Simplified implementation - would use proper topology preservation
-    const boundaryMap = new Map<string, number[][]>();
-    
-    // Extract all boundaries
-    for (const feature of features) {
-      if (feature.geometry.type === 'Polygon') {
-        const boundaries = this.extractPolygonBoundaries(feature.geometry);
-        for (const boundary of boundaries) {
-          const key = this.createBoundaryKey(boundary);
-          boundaryMap.set(key, boundary);
-        }
-      }
-    }
-
-    // For now, return features as-is
-    // Real implementation would snap shared boundaries
-    return features;
-  }
-
   /**
    * Build topology from features
    */
@@ -580,9 +618,15 @@ export class SimplifyWorker2 implements SimplifyWorker2API {
     }
   }
 
-  private calculateToleranceForZoom(zoomLevel: number, baseTolerance: number): number {
+  private calculateToleranceForZoom(config: TileSimplifyConfig): number {
     // Higher zoom = more detail = lower tolerance
-    return baseTolerance / Math.pow(2, zoomLevel - 8);
+    return toleranceForZoom(config.algorithm, config.tolerance, config.zoomLevel);
+  }
+
+  private isClosed(points: number[][]): boolean {
+    const first = points[0];
+    const last = points[points.length - 1];
+    return !!first && !!last && first[0] === last[0] && first[1] === last[1];
   }
 
   private isValidGeometry(geometry: any): boolean {
@@ -616,12 +660,12 @@ export class SimplifyWorker2 implements SimplifyWorker2API {
   }
 
   private async checkSharedBoundaries(features: Feature[]): Promise<{ preserved: boolean; errors: string[] }> {
-    // Simplified boundary checking
-    const errors: string[] = [];
-    
-    // This would implement proper shared boundary validation
-    // For now, assume boundaries are preserved
-    return { preserved: true, errors };
+    // Neighbours must trace their common border through the same vertices
+    const errors = findBoundaryMismatches(features.map(feature => feature.geometry)).map(
+      ([a, b]) =>
+        `Shared boundary between features ${features[a]!.id ?? a} and ${features[b]!.id ?? b} has gaps or slivers`
+    );
+    return { preserved: errors.length === 0, errors };
   }
 
   private async validateTileTopology(features: Feature[]): Promise<boolean> {
@@ -637,16 +681,6 @@ export class SimplifyWorker2 implements SimplifyWorker2API {
     }
   }
 
-  private extractPolygonBoundaries(geometry: any): number[][][] {
-    // Extract all rings from polygon
-    return geometry.coordinates;
-  }
-
-  private createBoundaryKey(boundary: number[][]): string {
-    // Create a consistent key for boundary segments
-    return boundary.map(coord => `${coord[0]},${coord[1]}`).join('|');
-  }
-
   private extractLineSegments(ring: number[][]): number[][][] {
     const segments: number[][][] = [];
     for (let i = 0; i < ring.length - 1; i++) {
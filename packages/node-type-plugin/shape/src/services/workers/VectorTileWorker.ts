@@ -23,6 +23,12 @@
 import * as turf from "@turf/turf";
 import { VectorTile } from "@mapbox/vector-tile";
 import { toGeoJSONFeature } from "../../utils/featureConverter";
+import {
+  encodeVectorTile,
+  projectGeometry,
+  type EncodedVectorTile,
+  type TileGeometry,
+} from "../tiles/mvtEncoder";
 import * as Comlink from "comlink";
 import Protobuf from "pbf";
 import type {
@@ -42,13 +48,13 @@ interface TileLayer {
   name: string;
   features: TileFeature[];
   extent: number;
-  version: number;
+  minZoom: number;
+  maxZoom: number;
 }
 
 interface TileFeature {
   id?: number | string;
-  type: "Point" | "LineString" | "Polygon";
-  geometry: number[][];
+  geometry: TileGeometry;
   properties: Record<string, any>;
 }
 
@@ -95,13 +101,11 @@ export class VectorTileWorker implements VectorTileWorkerAPI {
       );
 
       // 4. Group features by layers
-      const layers = this.groupFeaturesByLayers(
-        tileFeatures,
-        task.config.layers,
-      );
+      const layers = this.groupFeaturesByLayers(tileFeatures, task.config);
 
       // 5. Generate MVT
-      const mvtBuffer = await this.encodeMVT(layers, task.config);
+      const mvt = this.encodeMVT(layers, task.config);
+      const mvtBuffer = toArrayBuffer(mvt.data);
 
       // 6. Optimize and compress
       const optimizedBuffer = await this.optimizeTile(mvtBuffer);
@@ -125,7 +129,8 @@ export class VectorTileWorker implements VectorTileWorkerAPI {
         status: "completed",
         tileId,
         mvtSize: finalBuffer.byteLength,
-        featureCount: geoJson.features.length,
+        featureCount: mvt.featureCount,
+        layers: mvt.layers,
         compressionRatio: task.config.compression
           ? finalBuffer.byteLength / mvtBuffer.byteLength
           : 1,
@@ -343,17 +348,16 @@ export class VectorTileWorker implements VectorTileWorkerAPI {
           continue;
         }
 
-        // Transform geometry coordinates
-        const tileGeometry = this.transformGeometry(
+        // Project into tile coordinates; clipping happens during encoding
+        const tileGeometry = projectGeometry(
           feature.geometry,
-          tileBounds,
+          { z: zoomLevel, x: tileX, y: tileY },
           extent,
         );
 
-        if (tileGeometry.length > 0) {
+        if (tileGeometry) {
           tileFeatures.push({
             id: feature.id,
-            type: this.getGeometryType(feature.geometry),
             geometry: tileGeometry,
             properties: this.filterProperties(
               feature.properties,
@@ -374,11 +378,18 @@ export class VectorTileWorker implements VectorTileWorkerAPI {
    */
   private groupFeaturesByLayers(
     features: TileFeature[],
-    layerConfigs: LayerConfig[],
+    config: VectorTileTaskConfig,
   ): TileLayer[] {
     const layers: TileLayer[] = [];
 
-    for (const layerConfig of layerConfigs) {
+    for (const layerConfig of config.layers) {
+      if (
+        config.zoomLevel < layerConfig.minZoom ||
+        config.zoomLevel > layerConfig.maxZoom
+      ) {
+        continue;
+      }
+
       const layerFeatures = features.filter((feature) =>
         this.featureMatchesLayer(feature, layerConfig),
       );
@@ -387,8 +398,9 @@ export class VectorTileWorker implements VectorTileWorkerAPI {
         layers.push({
           name: layerConfig.name,
           features: layerFeatures,
-          extent: 4096, // Standard MVT extent
-          version: 2,
+          extent: config.extent,
+          minZoom: layerConfig.minZoom,
+          maxZoom: layerConfig.maxZoom,
         });
       }
     }
@@ -397,33 +409,13 @@ export class VectorTileWorker implements VectorTileWorkerAPI {
   }
 
   /**
-   * Encode layers as MVT format
+   * Encode layers as MVT format, clipped to the extent plus the configured buffer
    */
-  private async encodeMVT(
+  private encodeMVT(
     layers: TileLayer[],
     config: VectorTileTaskConfig,
-  ): Promise<ArrayBuffer> {
-    // This is a simplified MVT encoding
-    // Real implementation would use proper MVT encoder like @mapbox/vector-tile
-
-    const tile = {
-      layers: layers.map((layer) => ({
-        version: layer.version,
-        name: layer.name,
-        extent: layer.extent,
-        features: layer.features.map((feature) => ({
-          id: feature.id,
-          type: this.getGeometryTypeCode(feature.type),
-          geometry: this.encodeGeometry(feature.geometry, feature.type),
-          properties: feature.properties,
-        })),
-      })),
-    };
-
-    // Mock MVT encoding - would use proper protobuf encoding
-    const jsonString = JSON.stringify(tile);
-    const encoder = new TextEncoder();
-    return encoder.encode(jsonString).buffer;
+  ): EncodedVectorTile {
+    return encodeVectorTile(layers, { buffer: config.buffer });
   }
 
   /**
@@ -469,37 +461,6 @@ export class VectorTileWorker implements VectorTileWorkerAPI {
     }
   }
 
-  /**
-   * Transform individual geometry to tile coordinates
-   */
-  private transformGeometry(
-    geometry: any,
-    tileBounds: { minX: number; minY: number; maxX: number; maxY: number },
-    extent: number,
-  ): number[][] {
-    const scaleX = extent / (tileBounds.maxX - tileBounds.minX);
-    const scaleY = extent / (tileBounds.maxY - tileBounds.minY);
-
-    const transformPoint = (coord: [number, number]): [number, number] => [
-      Math.round((coord[0] - tileBounds.minX) * scaleX),
-      Math.round((tileBounds.maxY - coord[1]) * scaleY), // Y is flipped in tile space
-    ];
-
-    const transformCoords = (coords: any): any => {
-      if (typeof coords[0] === "number") {
-        return transformPoint(coords as [number, number]);
-      }
-      return coords.map(transformCoords);
-    };
-
-    try {
-      return transformCoords(geometry.coordinates);
-    } catch (error) {
-      console.warn("Geometry transformation failed:", error);
-      return [];
-    }
-  }
-
   /**
    * Get tile bounds in geographic coordinates
    */
@@ -537,61 +498,6 @@ export class VectorTileWorker implements VectorTileWorkerAPI {
     }
   }
 
-  /**
-   * Get geometry type from GeoJSON geometry
-   */
-  private getGeometryType(geometry: any): "Point" | "LineString" | "Polygon" {
-    switch (geometry.type) {
-      case "Point":
-      case "MultiPoint":
-        return "Point";
-      case "LineString":
-      case "MultiLineString":
-        return "LineString";
-      case "Polygon":
-      case "MultiPolygon":
-        return "Polygon";
-      default:
-        return "Point";
-    }
-  }
-
-  /**
-   * Get MVT geometry type code
-   */
-  private getGeometryTypeCode(type: string): number {
-    switch (type) {
-      case "Point":
-        return 1;
-      case "LineString":
-        return 2;
-      case "Polygon":
-        return 3;
-      default:
-        return 1;
-    }
-  }
-
-  /**
-   * Encode geometry for MVT
-   */
-  private encodeGeometry(geometry: number[][], type: string): number[] {
-    // Simplified geometry encoding for MVT
-    // Real implementation would use proper MVT geometry encoding
-    const encoded: number[] = [];
-
-    const encodeCoords = (coords: any) => {
-      if (typeof coords[0] === "number") {
-        encoded.push(coords[0], coords[1]);
-      } else {
-        coords.forEach(encodeCoords);
-      }
-    };
-
-    encodeCoords(geometry);
-    return encoded;
-  }
-
   /**
    * Filter properties based on layer configuration
    */
@@ -701,6 +607,13 @@ interface ParsedMVT {
   layers: MVTLayer[];
 }
 
+function toArrayBuffer(data: Uint8Array): ArrayBuffer {
+  return data.buffer.slice(
+    data.byteOffset,
+    data.byteOffset + data.byteLength,
+  ) as ArrayBuffer;
+}
+
 // Export for Comlink
 Comlink.expose(VectorTileWorker);
 
@@ -14,6 +14,7 @@ export const DEFAULT_PROCESSING_CONFIG: ProcessingConfig = {
   maxZoomLevel: 12,
   tileBufferSize: 256,
   simplificationTolerance: 0.01,
+  simplificationAlgorithm: 'douglas-peucker',
 } as const;
 
 export const SHAPE_LEVELS = [
@@ -69,6 +70,17 @@ export const DEFAULT_DATA_SOURCES = [
     color: '#7EDD00',
     icon: '🛣️',
     maxAdminLevel: 3
+  },
+  {
+    name: 'local',
+    displayName: 'Local Files',
+    description: 'Upload your own GeoJSON, TopoJSON, zipped Shapefile or GeoPackage boundaries',
+    license: 'As provided by the uploader',
+    licenseUrl: '',
+    attribution: 'User-provided data',
+    color: '#607D8B',
+    icon: '📁',
+    maxAdminLevel: 5
   }
 ] as DataSourceConfig[];
 
@@ -16,6 +16,7 @@ export interface ShapeEntity extends PeerEntity {
   
   // Data Source (Step 2)
   dataSourceName: DataSourceName;
+  localFiles?: LocalFileSource[]; // Uploaded files when dataSourceName is 'local'
   
   // License Agreement (Step 3)
   licenseAgreement: boolean;
@@ -51,7 +52,12 @@ export interface ShapeWorkingCopy extends ShapeEntity {
 // Data Source Types
 // ================================
 
-export type DataSourceName = 'naturalearth' | 'geoboundaries' | 'gadm' | 'openstreetmap';
+export type DataSourceName =
+  | 'naturalearth'
+  | 'geoboundaries'
+  | 'gadm'
+  | 'openstreetmap'
+  | 'local';
 
 export interface DataSourceConfig {
   name: DataSourceName;
@@ -85,6 +91,7 @@ export interface ProcessingConfig {
   maxZoomLevel: number;
   tileBufferSize?: number;
   simplificationTolerance?: number;
+  simplificationAlgorithm?: SimplificationAlgorithm;
   
   // Additional settings
   workerPoolSize?: number;
@@ -94,6 +101,8 @@ export interface ProcessingConfig {
 
 export type FeatureFilterMethod = 'bbox_only' | 'polygon_only' | 'hybrid';
 
+export type SimplificationAlgorithm = 'douglas-peucker' | 'visvalingam';
+
 // ================================
 // Country & Admin Level Types
 // ================================
@@ -117,6 +126,19 @@ export interface UrlMetadata {
   lastUpdated?: string;
 }
 
+/**
+ * A layer of an uploaded boundary file, staged in WGS84 for the download stage
+ */
+export interface LocalFileSource {
+  fileName: string;
+  format: 'geojson' | 'topojson' | 'shapefile' | 'geopackage';
+  layerName: string;
+  featureCount: number;
+  sourceCrs: string; // Coordinate system the file was authored in
+  url: string; // local://<bufferId>
+  warnings: string[];
+}
+
 // ================================
 // Batch Processing Types
 // ================================
@@ -290,4 +312,5 @@ export interface UpdateShapeData {
   selectedCountries?: string[];
   adminLevels?: number[];
   urlMetadata?: UrlMetadata[];
+  localFiles?: LocalFileSource[];
 }
\ No newline at end of file
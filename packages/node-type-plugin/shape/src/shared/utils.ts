@@ -171,7 +171,8 @@ function buildDataSourceUrl(
   countryCode: string,
   adminLevel: number
 ): string | null {
-  const baseUrls = {
+  // Local files are staged in ShapeDB rather than downloaded
+  const baseUrls: Partial<Record<DataSourceName, string>> = {
     naturalearth: 'https://www.naturalearthdata.com/http//www.naturalearthdata.com/download',
     geoboundaries: 'https://www.geoboundaries.org/api/gbOpen',
     gadm: 'https://biogeo.ucdavis.edu/data/gadm3.6',
@@ -205,7 +206,7 @@ function estimateDataSize(
   country: CountryMetadata
 ): number {
   // Base size factors per data source (in KB)
-  const baseSizeFactors = {
+  const baseSizeFactors: Partial<Record<DataSourceName, number>> = {
     naturalearth: 100,
     geoboundaries: 50,
     gadm: 200,
@@ -14,6 +14,7 @@ export interface ShapeEntity extends PeerEntity {
 
   // Data Source (Step 2)
   dataSourceName: DataSourceName;
+  localFiles?: LocalFileSource[]; // Uploaded files when dataSourceName is 'local'
 
   // License Agreement (Step 3)
   licenseAgreement: boolean;
@@ -49,7 +50,12 @@ export interface ShapeWorkingCopy extends ShapeEntity {
 // Data Source Types
 // ================================
 
-export type DataSourceName = 'naturalearth' | 'geoboundaries' | 'gadm' | 'openstreetmap';
+export type DataSourceName =
+  | 'naturalearth'
+  | 'geoboundaries'
+  | 'gadm'
+  | 'openstreetmap'
+  | 'local';
 
 export interface DataSourceConfig {
   name: DataSourceName;
@@ -83,6 +89,7 @@ export interface ProcessingConfig {
   maxZoomLevel: number;
   tileBufferSize?: number;
   simplificationTolerance?: number;
+  simplificationAlgorithm?: SimplificationAlgorithm;
 
   // Additional settings
   workerPoolSize?: number;
@@ -92,6 +99,8 @@ export interface ProcessingConfig {
 
 export type FeatureFilterMethod = 'bbox_only' | 'polygon_only' | 'hybrid';
 
+export type SimplificationAlgorithm = 'douglas-peucker' | 'visvalingam';
+
 // ================================
 // Country & Admin Level Types
 // ================================
@@ -115,6 +124,19 @@ export interface UrlMetadata {
   lastUpdated?: string;
 }
 
+/**
+ * A layer of an uploaded boundary file, staged in WGS84 for the download stage
+ */
+export interface LocalFileSource {
+  fileName: string;
+  format: 'geojson' | 'topojson' | 'shapefile' | 'geopackage';
+  layerName: string;
+  featureCount: number;
+  sourceCrs: string; // Coordinate system the file was authored in
+  url: string; // local://<bufferId>
+  warnings: string[];
+}
+
 // ================================
 // Batch Processing Types
 // ================================
@@ -424,6 +446,7 @@ export const DEFAULT_PROCESSING_CONFIG: ProcessingConfig = {
   maxZoomLevel: 12,
   tileBufferSize: 256,
   simplificationTolerance: 0.01,
+  simplificationAlgorithm: 'douglas-peucker',
 };
 
 export const SHAPE_LEVELS = [
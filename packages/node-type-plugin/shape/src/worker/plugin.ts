@@ -3,10 +3,13 @@
  * Worker environment plugin registration
  */
 
+import type { NodeId } from '@hierarchidb/common-core';
 import { ShapeMetadata } from '../shared';
 import { shapePluginAPI } from './api';
 import { ShapeEntityHandler } from './handlers';
 
+const shapeEntityHandler = new ShapeEntityHandler();
+
 /**
  * Worker Plugin definition for Shape plugin
  * Exports API implementation and entity handler for Worker environment
@@ -18,7 +21,7 @@ export const ShapeWorkerPlugin = {
   api: shapePluginAPI,
   
   // Entity handler for database operations
-  entityHandler: new ShapeEntityHandler(),
+  entityHandler: shapeEntityHandler,
   
   // Database schema definition
   database: {
@@ -36,6 +39,13 @@ export const ShapeWorkerPlugin = {
     }
   },
   
+  // Entity fields indexed for full-text search
+  // (the handler keys entities by entity ID, so load them by node ID here)
+  search: {
+    fields: ['name', 'description', 'dataSourceName', 'selectedCountries'],
+    getSearchDocument: (nodeId: NodeId) => shapeEntityHandler.getEntityByNodeId(nodeId),
+  },
+
   // Worker-specific validation
   validation: {
     validateEntity: async (entity: any) => {
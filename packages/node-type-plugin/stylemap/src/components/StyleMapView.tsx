@@ -1,21 +1,88 @@
 /**
  * @file StyleMapView.tsx
- * @description StyleMap view component
+ * @description StyleMap view component: draws the choropleth over its Shape node's vector tiles
  */
 
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, Box, CircularProgress } from '@mui/material';
+import { MapWithVectorTiles, type MapViewState } from '@hierarchidb/ui-map';
+import type { NodeId } from '@hierarchidb/common-core';
+import type { ChoroplethLayer } from '@hierarchidb/common-data';
 
 export interface StyleMapViewProps {
-  nodeId: string;
+  nodeId: NodeId;
+  /** The worker's 'get-choropleth' StyleMap action */
+  loadChoropleth: (nodeId: NodeId) => Promise<ChoroplethLayer>;
+  /** Vector tiles of the bound Shape node */
+  getTile: (shapeNodeId: NodeId, z: number, x: number, y: number) => Promise<Uint8Array | null>;
+  initialViewState?: MapViewState;
+  width?: string | number;
+  height?: string | number;
 }
 
-export const StyleMapView: React.FC<StyleMapViewProps> = ({ nodeId }) => {
+export const StyleMapView: React.FC<StyleMapViewProps> = ({
+  nodeId,
+  loadChoropleth,
+  getTile,
+  initialViewState,
+  width = '100%',
+  height = '400px',
+}) => {
+  const [layer, setLayer] = useState<ChoroplethLayer | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLayer(null);
+    setError(null);
+    loadChoropleth(nodeId).then(
+      (loaded) => !cancelled && setLayer(loaded),
+      (reason: unknown) => !cancelled && setError(String(reason))
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [nodeId, loadChoropleth]);
+
+  // The tile URLs carry the Shape node ID (dexie://ShapeDB/<shapeNodeId>/{z}/{x}/{y})
+  const tileDataProvider = useCallback(
+    async (z: number, x: number, y: number, shapeNodeId?: string) => {
+      const tile = await getTile(shapeNodeId as NodeId, z, x, y);
+      // MapLibre wants an ArrayBuffer of exactly the tile's bytes
+      return tile ? tile.slice().buffer : null;
+    },
+    [getTile]
+  );
+
+  if (error) {
+    return <Alert severity="error">{error}</Alert>;
+  }
+
+  if (!layer) {
+    return (
+      <Box sx={{ width, height, display: 'flex', alignItems: 'center', justifyContent: 'center' }}>
+        <CircularProgress size={40} />
+      </Box>
+    );
+  }
+
   return (
-    <div>
-      <h3>StyleMap View</h3>
-      <p>Node ID: {nodeId}</p>
-      {/* TODO: Implement StyleMap visualization */}
-    </div>
+    <MapWithVectorTiles
+      dbName="ShapeDB"
+      nodeId={layer.shapeNodeId}
+      initialViewState={initialViewState}
+      width={width}
+      height={height}
+      tileDataProvider={tileDataProvider}
+      layerOptions={{
+        layerId: `stylemap-${nodeId}`,
+        sourceId: `shape-${layer.shapeNodeId}`,
+        layerType: layer.layerType,
+        sourceLayer: layer.sourceLayer,
+        paint: layer.paint,
+      }}
+      legend={{ items: layer.legend, showCounts: true }}
+    />
   );
 };
 
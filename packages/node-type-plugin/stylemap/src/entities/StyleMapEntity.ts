@@ -1,4 +1,11 @@
 import type { NodeId } from '@hierarchidb/common-core';
+import type {
+  StyleMapColorRule,
+  StyleMapFeatureLayer,
+  StyleMapStyle,
+} from '@hierarchidb/common-data';
+
+export type { StyleMapColorRule, StyleMapFeatureLayer, StyleMapStyle };
 
 // Define SpreadsheetMetadataId locally since plugin-spreadsheet may not be available
 export type SpreadsheetMetadataId = string & { readonly __brand: 'SpreadsheetMetadataId' };
@@ -23,6 +30,9 @@ export interface StyleMapEntity extends PersistentPeerEntity {
   keyColumn: string;
   colorRules: StyleMapColorRule[];
   defaultStyle: StyleMapStyle;
+
+  // Map binding: styles the features of a Shape node instead of table cells
+  featureLayer?: StyleMapFeatureLayer;
   
   // Optional metadata
   description?: string;
@@ -31,21 +41,4 @@ export interface StyleMapEntity extends PersistentPeerEntity {
   createdAt: number;
   updatedAt: number;
   version: number;
-}
-
-export interface StyleMapColorRule {
-  column: string;
-  operator: 'equals' | 'contains' | 'greaterThan' | 'lessThan' | 'range';
-  value: unknown;
-  maxValue?: unknown; // For range operator
-  style: StyleMapStyle;
-  label?: string;
-}
-
-export interface StyleMapStyle {
-  backgroundColor?: string;
-  textColor?: string;
-  borderColor?: string;
-  borderWidth?: number;
-  opacity?: number;
 }
\ No newline at end of file
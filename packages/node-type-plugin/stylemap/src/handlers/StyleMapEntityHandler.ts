@@ -1,5 +1,12 @@
 import type { NodeId } from '@hierarchidb/common-core';
-import type { StyleMapEntity, StyleMapColorRule, StyleMapStyle, SpreadsheetMetadataId } from '~/entities/StyleMapEntity';
+import { evaluateColorRule } from '@hierarchidb/common-data';
+import type {
+  StyleMapEntity,
+  StyleMapColorRule,
+  StyleMapStyle,
+  StyleMapFeatureLayer,
+  SpreadsheetMetadataId,
+} from '~/entities/StyleMapEntity';
 
 // Note: BaseReferenceCountingHandler is now available in @hierarchidb/worker/src/handlers/BaseReferenceCountingHandler
 // This local implementation should be migrated when plugin architecture allows direct worker dependencies
@@ -104,6 +111,7 @@ export class StyleMapEntityHandler extends BaseReferenceCountingHandler {
       keyColumn: string;
       colorRules: StyleMapColorRule[];
       defaultStyle: StyleMapStyle;
+      featureLayer?: StyleMapFeatureLayer;
       description?: string;
     }
   ): Promise<StyleMapEntity> {
@@ -113,6 +121,7 @@ export class StyleMapEntityHandler extends BaseReferenceCountingHandler {
       keyColumn: config.keyColumn,
       colorRules: config.colorRules,
       defaultStyle: config.defaultStyle,
+      featureLayer: config.featureLayer,
       description: config.description,
       createdAt: Date.now(),
       updatedAt: Date.now(),
@@ -135,6 +144,7 @@ export class StyleMapEntityHandler extends BaseReferenceCountingHandler {
       keyColumn: string;
       colorRules: StyleMapColorRule[];
       defaultStyle: StyleMapStyle;
+      featureLayer?: StyleMapFeatureLayer;
       description?: string;
     }
   ): Promise<{ styleMap: StyleMapEntity; spreadsheetMetadata: any }> {
@@ -183,7 +193,7 @@ export class StyleMapEntityHandler extends BaseReferenceCountingHandler {
     return rows.map(row => {
       // Find matching color rule
       const matchingRule = styleMap.colorRules.find(rule => 
-        this.evaluateRule(row[rule.column], rule)
+        evaluateColorRule(row[rule.column], rule)
       );
 
       const style = matchingRule ? matchingRule.style : styleMap.defaultStyle;
@@ -201,6 +211,7 @@ export class StyleMapEntityHandler extends BaseReferenceCountingHandler {
       keyColumn: string;
       colorRules: StyleMapColorRule[];
       defaultStyle: StyleMapStyle;
+      featureLayer: StyleMapFeatureLayer;
       description: string;
     }>
   ): Promise<StyleMapEntity> {
@@ -230,29 +241,6 @@ export class StyleMapEntityHandler extends BaseReferenceCountingHandler {
     await this.deleteStyleMapEntity(nodeId);
   }
 
-  /**
-   * Evaluate a style rule against a value
-   */
-  private evaluateRule(value: unknown, rule: StyleMapColorRule): boolean {
-    switch (rule.operator) {
-      case 'equals':
-        return value === rule.value;
-      case 'contains':
-        return String(value).includes(String(rule.value));
-      case 'greaterThan':
-        return Number(value) > Number(rule.value);
-      case 'lessThan':
-        return Number(value) < Number(rule.value);
-      case 'range':
-        const numValue = Number(value);
-        const minValue = Number(rule.value);
-        const maxValue = Number(rule.maxValue);
-        return numValue >= minValue && numValue <= maxValue;
-      default:
-        return false;
-    }
-  }
-
   // These methods would be implemented by the Worker layer
   private async storeStyleMapEntity(_entity: StyleMapEntity): Promise<void> {
     throw new Error('Not implemented - should be handled by Worker');
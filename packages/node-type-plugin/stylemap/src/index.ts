@@ -3,11 +3,24 @@ export type {
   StyleMapEntity,
   StyleMapColorRule,
   StyleMapStyle,
+  StyleMapFeatureLayer,
 } from './entities/StyleMapEntity';
 
 // Components
 export { StyleMapSimpleDialog } from './components/StyleMapSimpleDialog';
 export type { StyleMapSimpleDialogProps, StyleMapCreateConfig } from './components/StyleMapSimpleDialog';
+export { StyleMapView } from './components/StyleMapView';
+export type { StyleMapViewProps } from './components/StyleMapView';
+
+// Choropleth
+export {
+  createChoroplethLayer,
+  joinRowsToFeatures,
+  compileChoroplethPaint,
+  buildChoroplethLegend,
+  evaluateColorRule,
+} from '@hierarchidb/common-data';
+export type { ChoroplethLayer, ChoroplethLegendItem, ChoroplethJoin } from '@hierarchidb/common-data';
 
 // Handlers
 export { StyleMapEntityHandler } from './handlers/StyleMapEntityHandler';
@@ -18,8 +18,10 @@ import {
   Fullscreen as FullscreenIcon,
   FullscreenExit as FullscreenExitIcon,
 } from '@mui/icons-material';
+import type { CommitConflict, TreeNode } from '@hierarchidb/common-core';
 import { UnsavedChangesDialog } from '@hierarchidb/ui-dialog';
 import { CommonDialogActions } from './CommonDialogActions';
+import { MergeConflictDialog } from './MergeConflictDialog';
 
 export interface CommonPluginDialogProps {
   mode: 'create' | 'edit';
@@ -47,8 +49,25 @@ export interface CommonPluginDialogProps {
   // Additional actions
   additionalActions?: React.ReactNode;
   headerActions?: React.ReactNode;
+
+  // Concurrent edit merge: when onSubmit rejects with a commit conflict, the merge dialog
+  // opens and the chosen values are passed to onResolveConflict (e.g. resolveCommitConflict)
+  conflictFieldLabels?: Record<string, string>;
+  onResolveConflict?: (merged: Partial<TreeNode>, conflict: CommitConflict) => Promise<void> | void;
+  onCancelConflict?: () => void;
 }
 
+// Error code the tree console adapter uses for a stale working copy commit
+const COMMIT_CONFLICT_ERROR_CODE = 'COMMIT_NODE_EDIT_CONFLICT';
+
+/**
+ * The CommitConflict carried by a rejected save, if the save failed because of one
+ */
+export const getCommitConflict = (error: unknown): CommitConflict | undefined => {
+  const { code, context } = (error ?? {}) as { code?: unknown; context?: unknown };
+  return code === COMMIT_CONFLICT_ERROR_CODE ? (context as CommitConflict) : undefined;
+};
+
 export const CommonPluginDialog: React.FC<CommonPluginDialogProps> = ({
   mode,
   open,
@@ -67,10 +86,14 @@ export const CommonPluginDialog: React.FC<CommonPluginDialogProps> = ({
   onCancel,
   additionalActions,
   headerActions,
+  conflictFieldLabels,
+  onResolveConflict,
+  onCancelConflict,
 }) => {
   const [isFullscreen, setIsFullscreen] = useState(initialFullScreen);
   const [showUnsavedChangesDialog, setShowUnsavedChangesDialog] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [conflict, setConflict] = useState<CommitConflict | undefined>();
 
   // Handle dialog close
   const handleClose = useCallback(() => {
@@ -89,12 +112,39 @@ export const CommonPluginDialog: React.FC<CommonPluginDialogProps> = ({
       setIsSubmitting(true);
       await onSubmit();
     } catch (error) {
+      const commitConflict = getCommitConflict(error);
+      if (commitConflict && onResolveConflict) {
+        setConflict(commitConflict);
+        return;
+      }
       console.error('Dialog submission failed:', error);
       // Error handling should be done by parent component
     } finally {
       setIsSubmitting(false);
     }
-  }, [isValid, isSubmitting, onSubmit]);
+  }, [isValid, isSubmitting, onSubmit, onResolveConflict]);
+
+  // Save the merged values; a newer concurrent change shows the merge again
+  const handleResolveConflict = useCallback(
+    async (merged: Partial<TreeNode>) => {
+      if (!conflict || !onResolveConflict) return;
+
+      try {
+        await onResolveConflict(merged, conflict);
+        setConflict(undefined);
+      } catch (error) {
+        const nextConflict = getCommitConflict(error);
+        if (!nextConflict) throw error;
+        setConflict(nextConflict);
+      }
+    },
+    [conflict, onResolveConflict]
+  );
+
+  const handleCancelConflict = useCallback(() => {
+    setConflict(undefined);
+    onCancelConflict?.();
+  }, [onCancelConflict]);
 
   // Handle save draft
   const handleSaveDraft = useCallback(async () => {
@@ -185,6 +235,17 @@ export const CommonPluginDialog: React.FC<CommonPluginDialogProps> = ({
         onSaveDraft={handleSaveDraft}
         onCancel={() => setShowUnsavedChangesDialog(false)}
       />
+
+      {/* Merge Conflict Dialog */}
+      {conflict && (
+        <MergeConflictDialog
+          open
+          conflict={conflict}
+          fieldLabels={conflictFieldLabels}
+          onResolve={handleResolveConflict}
+          onCancel={handleCancelConflict}
+        />
+      )}
     </>
   );
 };
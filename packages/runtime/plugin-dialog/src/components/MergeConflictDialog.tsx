@@ -0,0 +1,122 @@
+/**
+ * @fileoverview MergeConflictDialog - Field-by-field merge of a stale edit
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Dialog,
+  DialogTitle,
+  DialogContent,
+  DialogActions,
+  Button,
+  Typography,
+  Table,
+  TableHead,
+  TableBody,
+  TableRow,
+  TableCell,
+  Radio,
+} from '@mui/material';
+import type { CommitConflict, TreeNode } from '@hierarchidb/common-core';
+
+export interface MergeConflictDialogProps {
+  open: boolean;
+  conflict: CommitConflict;
+  fieldLabels?: Record<string, string>;
+  onResolve: (merged: Partial<TreeNode>) => Promise<void> | void;
+  onCancel: () => void;
+}
+
+type Side = 'mine' | 'theirs';
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export const MergeConflictDialog: React.FC<MergeConflictDialogProps> = ({
+  open,
+  conflict,
+  fieldLabels = {},
+  onResolve,
+  onCancel,
+}) => {
+  const [choices, setChoices] = useState<Record<string, Side>>({});
+  const [isResolving, setIsResolving] = useState(false);
+
+  // Keep my edits by default whenever a new conflict is shown
+  useEffect(() => {
+    setChoices(Object.fromEntries(conflict.fields.map((field) => [field, 'mine' as Side])));
+  }, [conflict]);
+
+  const mine = conflict.mine as unknown as Record<string, unknown>;
+  const theirs = conflict.theirs as unknown as Record<string, unknown>;
+
+  const handleResolve = useCallback(async () => {
+    const merged = Object.fromEntries(
+      conflict.fields.map((field) => [
+        field,
+        choices[field] === 'theirs' ? theirs[field] : mine[field],
+      ])
+    ) as Partial<TreeNode>;
+
+    try {
+      setIsResolving(true);
+      await onResolve(merged);
+    } catch (error) {
+      console.error('Conflict resolution failed:', error);
+    } finally {
+      setIsResolving(false);
+    }
+  }, [conflict.fields, mine, theirs, choices, onResolve]);
+
+  return (
+    <Dialog open={open} onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>Resolve conflicting changes</DialogTitle>
+
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          This item was changed by someone else while you were editing it. Choose which value to
+          keep for each field.
+        </Typography>
+
+        <Table size="small">
+          <TableHead>
+            <TableRow>
+              <TableCell>Field</TableCell>
+              <TableCell>Your change</TableCell>
+              <TableCell>Saved version</TableCell>
+            </TableRow>
+          </TableHead>
+          <TableBody>
+            {conflict.fields.map((field) => (
+              <TableRow key={field}>
+                <TableCell>{fieldLabels[field] ?? field}</TableCell>
+                {(['mine', 'theirs'] as const).map((side) => (
+                  <TableCell key={side}>
+                    <Radio
+                      size="small"
+                      checked={choices[field] === side}
+                      onChange={() => setChoices((prev) => ({ ...prev, [field]: side }))}
+                      inputProps={{ 'aria-label': `${field} ${side}` }}
+                    />
+                    {formatValue(side === 'mine' ? mine[field] : theirs[field])}
+                  </TableCell>
+                ))}
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onCancel} variant="outlined" disabled={isResolving}>
+          Cancel
+        </Button>
+        <Button onClick={handleResolve} variant="contained" disabled={isResolving}>
+          {isResolving ? 'Saving...' : 'Save merged'}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -3,9 +3,12 @@
  * @description Export all dialog components
  */
 
-export { CommonPluginDialog } from './CommonPluginDialog';
+export { CommonPluginDialog, getCommitConflict } from './CommonPluginDialog';
 export type { CommonPluginDialogProps } from './CommonPluginDialog';
 
+export { MergeConflictDialog } from './MergeConflictDialog';
+export type { MergeConflictDialogProps } from './MergeConflictDialog';
+
 export { UnsavedChangesDialog } from './UnsavedChangesDialog';
 
 export { CommonDialogTitle } from './CommonDialogTitle';
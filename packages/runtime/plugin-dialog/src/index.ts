@@ -8,11 +8,15 @@
  */
 
 // Main plugin dialog component
-export { CommonPluginDialog } from './components/CommonPluginDialog';
+export { CommonPluginDialog, getCommitConflict } from './components/CommonPluginDialog';
 export type { CommonPluginDialogProps } from './components/CommonPluginDialog';
 
 // Plugin-specific supporting components
 export { CommonDialogActions } from './components/CommonDialogActions';
 export type { CommonDialogActionsProps } from './components/CommonDialogActions';
 
+// Concurrent edit merge
+export { MergeConflictDialog } from './components/MergeConflictDialog';
+export type { MergeConflictDialogProps } from './components/MergeConflictDialog';
+
 export { CommonDialogTitle } from './components/CommonDialogTitle';
\ No newline at end of file
@@ -5,22 +5,35 @@ import type {
   TreeSubscriptionAPI,
   PluginRegistryAPI,
   WorkingCopyAPI,
+  WorkerPluginHost,
 } from '@hierarchidb/common-api';
 import type { Remote } from 'comlink';
 import * as Comlink from 'comlink';
 import type {
   CommandEnvelope,
+  CommandGroupId,
+  CommandScope,
+  EntityBackup,
   Tree,
   TreeId,
   TreeNode,
   NodeId,
   NodeType,
+  OperationState,
+  Seq,
+  CommitResult,
+  Timestamp,
   WorkingCopy,
   NodeTypeDefinition,
   ObserveSubtreePayload,
   RecoverFromTrashPayload,
 } from '@hierarchidb/common-core';
-import { CommandProcessor } from './command/CommandProcessor';
+import {
+  CommandProcessor,
+  type CommandJournal,
+  type DatabaseOperations,
+} from './command/CommandProcessor';
+import { deleteEntity, restoreEntity } from './command/NodeSnapshots';
 
 /**
  * 【アーキテクチャ改善】: CoreDBアダプターによる依存性注入の最適化
@@ -28,7 +41,7 @@ import { CommandProcessor } from './command/CommandProcessor';
  * 【改善内容】: 型安全性とテスタビリティの向上
  * 🟢 信頼性レベル: GOFデザインパターンに準拠した実装
  */
-class CoreDBAdapter {
+class CoreDBAdapter implements DatabaseOperations {
   constructor(private coreDB: CoreDB) {}
 
   /**
@@ -44,17 +57,103 @@ class CoreDBAdapter {
   async createNode(node: TreeNode): Promise<void> {
     await this.coreDB.createNode(node);
   }
+
+  /**
+   * 【ノード取得アダプテーション】: CoreDBの取得メソッドへの委譲
+   */
+  async getNode(nodeId: NodeId): Promise<TreeNode | undefined> {
+    return this.coreDB.getNode(nodeId);
+  }
+
+  /**
+   * 【ノード上書きアダプテーション】: 既存なら更新、なければ作成（変更イベントを発行するため）
+   */
+  async putNode(node: TreeNode): Promise<void> {
+    const existing = await this.coreDB.getNode(node.id);
+    if (existing) {
+      await this.coreDB.updateNode(node);
+    } else {
+      await this.coreDB.createNode(node);
+    }
+  }
+
+  /**
+   * 【エンティティ復元アダプテーション】: プラグインのEntityHandlerへの委譲
+   */
+  async restoreEntity(node: TreeNode, backup: EntityBackup): Promise<void> {
+    await restoreEntity(node, backup);
+  }
+
+  /**
+   * 【エンティティ削除アダプテーション】: プラグインのEntityHandlerへの委譲
+   */
+  async deleteEntity(node: TreeNode): Promise<void> {
+    await deleteEntity(node);
+  }
+}
+
+/**
+ * 【ジャーナルアダプター】: CommandJournalをJournalDBへ委譲
+ * 【設計方針】: 記録時にCoreDBから対象ツリーを特定し、ツリー別のアクティビティ照会に備える
+ * 🟢 信頼性レベル: GOFデザインパターンに準拠した実装
+ */
+class JournalDBAdapter implements CommandJournal {
+  constructor(
+    private journalDB: JournalDB,
+    private coreDB: CoreDB
+  ) {}
+
+  async append(seq: Seq, command: UndoableCommand): Promise<void> {
+    await this.journalDB.appendEntry({
+      ...command,
+      seq,
+      treeIds: await this.findTreeIds(command),
+      state: 'done',
+    });
+  }
+
+  async updateState(groupIds: CommandGroupId[], state: OperationState): Promise<void> {
+    await this.journalDB.updateGroupState(groupIds, state);
+  }
+
+  async load(): Promise<JournalEntry[]> {
+    return this.journalDB.listEntries();
+  }
+
+  /**
+   * 【ツリー特定】: 変更後（削除時は変更前）のノード位置から所属ツリーを求める
+   */
+  private async findTreeIds(command: UndoableCommand): Promise<TreeId[]> {
+    const treeIds = new Set<TreeId>();
+    for (const change of command.changes ?? []) {
+      for (const snapshot of [change.before, change.after]) {
+        const treeId = snapshot && (await this.coreDB.findTreeId(snapshot.node));
+        if (treeId) {
+          treeIds.add(treeId);
+        }
+      }
+    }
+    return [...treeIds];
+  }
 }
-import type { CommandResult } from './command/types';
+import type { CommandResult, JournalEntry, UndoableCommand } from './command/types';
 import { CoreDB } from './db/CoreDB';
 import { EphemeralDB } from './db/EphemeralDB';
+import { JournalDB } from './db/JournalDB';
+import { RevisionDB } from './db/RevisionDB';
+import { ChangeEventChannel } from './db/ChangeEventChannel';
+import { SearchIndexDB } from './db/SearchIndexDB';
 import { NodeLifecycleManager } from './lifecycle/NodeLifecycleManager';
 import { SimpleNodeTypeRegistry } from './registry/SimpleNodeTypeRegistry';
+import { NodeRegistry } from './registry/NodeRegistry';
+import { startWorkerPluginModules, stopWorkerPluginModules } from './plugins/WorkerPluginModules';
 import { TreeMutationService } from './services/TreeMutationService';
 import { TreeSubscribeService } from './services/TreeSubscribeService';
 import { TreeQueryService } from './services/TreeQueryService';
+import { SearchIndexService } from './services/SearchIndexService';
 import { ImportService } from './services/ImportService';
 import { ExportService } from './services/ExportService';
+import { detectCommitConflict, toTreeNode } from './operations/WorkingCopyOperations';
 import {
   getRegisteredPlugins,
   getPluginDefinition,
@@ -67,6 +166,11 @@ import {
 export class WorkerAPIImpl implements WorkerAPI {
   private coreDB: CoreDB;
   private ephemeralDB: EphemeralDB;
+  private journalDB: JournalDB;
+  private revisionDB: RevisionDB;
+  private changeEventChannel: ChangeEventChannel;
+  private searchIndexDB: SearchIndexDB;
+  private searchIndexService: SearchIndexService;
   private queryService: TreeQueryService;
   private mutationService: TreeMutationService;
   private subscriptionService: TreeSubscribeService;
@@ -74,6 +178,8 @@ export class WorkerAPIImpl implements WorkerAPI {
 
   // Plugin API registry for 3-layer architecture
   private pluginAPIs = new Map<NodeType, any>();
+  // Services handed to the worker plugin modules registered by the application
+  private pluginHost: WorkerPluginHost;
 
   /**
    * Async initialization of plugin APIs
@@ -99,6 +205,11 @@ export class WorkerAPIImpl implements WorkerAPI {
   constructor(dbName: string = 'default-worker-db') {
     this.coreDB = new CoreDB(dbName);
     this.ephemeralDB = new EphemeralDB(dbName);
+    this.journalDB = new JournalDB(dbName);
+    this.revisionDB = new RevisionDB(dbName);
+    this.changeEventChannel = new ChangeEventChannel(this.coreDB);
+    this.searchIndexDB = new SearchIndexDB(dbName);
+    this.searchIndexService = new SearchIndexService(this.coreDB, this.searchIndexDB);
 
     this.nodeTypeRegistry = new SimpleNodeTypeRegistry();
     this.nodeLifecycleManager = new NodeLifecycleManager(
@@ -108,22 +219,40 @@ export class WorkerAPIImpl implements WorkerAPI {
     );
 
     // Initialize services in dependency order
-    this.queryService = new TreeQueryService(this.coreDB);
+    this.queryService = new TreeQueryService(
+      this.coreDB,
+      this.journalDB,
+      this.revisionDB,
+      this.searchIndexService
+    );
 
     this.subscriptionService = new TreeSubscribeService(this.coreDB);
 
-    this.commandProcessor = new CommandProcessor();
+    this.commandProcessor = new CommandProcessor(
+      new CoreDBAdapter(this.coreDB),
+      new JournalDBAdapter(this.journalDB, this.coreDB)
+    );
 
     this.mutationService = new TreeMutationService(
       this.coreDB,
       this.ephemeralDB,
       this.commandProcessor,
-      this.nodeLifecycleManager
+      this.nodeLifecycleManager,
+      this.revisionDB
     );
 
     this.importService = new ImportService(this.coreDB, this.mutationService);
 
-    this.exportService = new ExportService(this.coreDB, this.queryService);
+    this.exportService = new ExportService(this.coreDB, this.queryService, this.ephemeralDB);
+
+    this.pluginHost = {
+      queryAPI: this.queryService,
+      mutationAPI: this.mutationService,
+      hasEntity: (nodeType) => NodeRegistry.getInstance().getEntityHandler(nodeType) !== undefined,
+      registerExtension: async (nodeType, api) => {
+        this.pluginAPIs.set(nodeType, api);
+      },
+    };
 
     this.initializationTime = Date.now();
 
@@ -324,7 +453,11 @@ export class WorkerAPIImpl implements WorkerAPI {
           copiedAt: now,
           originalNodeId: undefined, // 新規作成なのでundefined
         };
-        await this.ephemeralDB.createWorkingCopy(workingCopy);
+        // EphemeralDBの主キー（新規作成用Working Copyも予約したノードIDで引く）
+        await this.ephemeralDB.createWorkingCopy({
+          ...workingCopy,
+          workingCopyId: nodeId,
+        } as WorkingCopy);
         return workingCopy;
       },
       createWorkingCopyFromNode: async (nodeId: NodeId): Promise<WorkingCopy> => {
@@ -339,7 +472,11 @@ export class WorkerAPIImpl implements WorkerAPI {
           originalNodeId: nodeId,
           originalVersion: node.version,
         };
-        await this.ephemeralDB.createWorkingCopy(workingCopy);
+        // EphemeralDBの主キー（編集用Working CopyはノードIDで引く）
+        await this.ephemeralDB.createWorkingCopy({
+          ...workingCopy,
+          workingCopyId: nodeId,
+        } as WorkingCopy);
         return workingCopy;
       },
       getWorkingCopy: async (nodeId: NodeId): Promise<WorkingCopy | undefined> => {
@@ -368,33 +505,23 @@ export class WorkerAPIImpl implements WorkerAPI {
         const workingCopy = await this.ephemeralDB.getWorkingCopy(nodeId);
         return !!workingCopy;
       },
-      commitWorkingCopy: async (nodeId: NodeId) => {
+      commitWorkingCopy: async (
+        nodeId: NodeId,
+        expectedUpdatedAt?: Timestamp,
+        scope?: CommandScope
+      ): Promise<CommitResult> => {
         const workingCopy = await this.ephemeralDB.getWorkingCopy(nodeId);
         if (!workingCopy) {
           return { success: false, error: `Working copy ${nodeId} not found` };
         }
 
         try {
-          // TreeNodeとして保存（WorkingCopyPropertiesを除く）
-          const {
-            copiedAt,
-            originalNodeId,
-            hasEntityCopy,
-            entityWorkingCopyId,
-            originalVersion,
-            hasGroupEntityCopy,
-            ...treeNode
-          } = workingCopy;
-
-          if (!workingCopy.originalNodeId) {
-            // 新規作成
-            await this.coreDB.createNode(treeNode as TreeNode);
-          } else {
-            // 既存ノードの更新
-            await this.coreDB.updateNode(treeNode as TreeNode);
-          }
-          await this.ephemeralDB.deleteWorkingCopy(nodeId);
-          return { success: true, node: treeNode as TreeNode };
+          // Undo履歴に積むため、コミット前後のスナップショットをTreeMutationServiceで記録する
+          return await this.mutationService.recordCommit(
+            workingCopy.originalNodeId ?? workingCopy.id,
+            () => this.applyWorkingCopy(nodeId, workingCopy, expectedUpdatedAt),
+            scope
+          );
         } catch (error) {
           return {
             success: false,
@@ -480,6 +607,63 @@ export class WorkerAPIImpl implements WorkerAPI {
     return Comlink.proxy(workingCopyAPI) as unknown as Remote<WorkingCopyAPI>;
   }
 
+  /**
+   * 【Working Copy反映】: Working CopyをCoreDBへ書き込む（既存ノードは楽観的ロック付き）
+   */
+  private async applyWorkingCopy(
+    nodeId: NodeId,
+    workingCopy: WorkingCopy,
+    expectedUpdatedAt?: Timestamp
+  ): Promise<CommitResult> {
+    // TreeNodeとして保存（WorkingCopyPropertiesを除く）
+    const treeNode = toTreeNode(workingCopy);
+
+    if (!workingCopy.originalNodeId) {
+      // 新規作成
+      await this.coreDB.createNode(treeNode);
+      await this.ephemeralDB.deleteWorkingCopy(nodeId);
+      return { success: true, node: treeNode };
+    }
+
+    // 既存ノードの更新（楽観的ロック: 他タブでの変更と競合する場合は両方の状態を返す）
+    const result = await this.coreDB.transaction(
+      'rw',
+      this.coreDB.nodes,
+      async (): Promise<CommitResult> => {
+        const current = await this.coreDB.getNode(workingCopy.originalNodeId);
+        if (!current) {
+          return {
+            success: false,
+            error: `Node ${workingCopy.originalNodeId} not found`,
+            code: 'NODE_NOT_FOUND',
+          };
+        }
+
+        const stale = detectCommitConflict(workingCopy, current, expectedUpdatedAt);
+        if (stale) {
+          return {
+            success: false,
+            error: `Node ${current.id} was modified since the working copy was created`,
+            code: stale.code,
+            conflict: stale.conflict,
+          };
+        }
+
+        const node = {
+          ...treeNode,
+          updatedAt: Date.now() as Timestamp,
+          version: current.version + 1,
+        };
+        await this.coreDB.updateNode(node);
+        return { success: true, node };
+      }
+    );
+    if (result.success) {
+      await this.ephemeralDB.deleteWorkingCopy(nodeId);
+    }
+    return result;
+  }
+
   // ==================
   // System Management
   // ==================
@@ -487,15 +671,37 @@ export class WorkerAPIImpl implements WorkerAPI {
   async initialize(): Promise<void> {
     await this.coreDB.initialize();
     await this.ephemeralDB.initialize();
+
+    // Restore undo/redo history persisted before the last reload
+    await this.commandProcessor.rehydrate();
+
+    // Relay change events to and from other tabs sharing this database
+    this.changeEventChannel.start();
+
+    // Keep the full-text index in sync; searches wait for the initial build
+    this.searchIndexService.start();
+    void this.searchIndexService.rebuildIfEmpty();
+
+    // アプリケーションが登録したプラグインモジュール（スケジューラーなど）を開始する
+    await startWorkerPluginModules(this.pluginHost);
   }
 
   async shutdown(): Promise<void> {
+    await stopWorkerPluginModules(this.pluginHost);
+
     // Cleanup all subscriptions
     await this.subscriptionService.unsubscribeAll();
 
+    this.changeEventChannel.close();
+    this.searchIndexService.close();
+    await this.searchIndexService.whenIdle();
+
     // Close databases
     await this.coreDB.close();
     await this.ephemeralDB.close();
+    await this.journalDB.close();
+    await this.revisionDB.close();
+    await this.searchIndexDB.close();
   }
 
   async getSystemHealth(): Promise<{
@@ -721,13 +927,19 @@ export class WorkerAPIImpl implements WorkerAPI {
     }
   }
 
-  async undo(): Promise<{ success: boolean; error?: string }> {
-    // Simplified undo - would need to integrate with command processor
+  async undo(scope?: CommandScope): Promise<{ success: boolean; error?: string }> {
+    const result = await this.commandProcessor.undo(scope?.groupId, scope?.sourceViewId);
+    if (!result.success) {
+      return { success: false, error: 'error' in result ? result.error : 'Undo failed' };
+    }
     return { success: true };
   }
 
-  async redo(): Promise<{ success: boolean; error?: string }> {
-    // Simplified redo - would need to integrate with command processor
+  async redo(scope?: CommandScope): Promise<{ success: boolean; error?: string }> {
+    const result = await this.commandProcessor.redo(scope?.groupId, scope?.sourceViewId);
+    if (!result.success) {
+      return { success: false, error: 'error' in result ? result.error : 'Redo failed' };
+    }
     return { success: true };
   }
 
@@ -745,8 +957,8 @@ export class WorkerAPIImpl implements WorkerAPI {
     deleteNodes: async (params: any) => this.getMutationAPI().removeNodes(params),
     removeNodes: async (params: any) => this.getMutationAPI().removeNodes(params),
     exportTreeNodes: async (params: any) => this.exportTreeNodes(params),
-    undo: async () => this.undo(),
-    redo: async () => this.redo(),
+    undo: async (scope?: CommandScope) => this.undo(scope),
+    redo: async (scope?: CommandScope) => this.redo(scope),
   };
 
   unsubscribe(): Promise<void> {
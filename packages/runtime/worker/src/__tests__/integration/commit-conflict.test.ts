@@ -0,0 +1,88 @@
+/**
+ * 楽観的ロックの統合テスト
+ *
+ * Working Copyの編集中に別の操作でノードが更新された場合、
+ * コミットが構造化された競合情報とともに拒否されることを確認します。
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { WorkerAPIImpl } from '../../WorkerAPIImpl';
+import {
+  NodeIdGenerator,
+  type NodeId,
+  type Timestamp,
+  type TreeId,
+} from '@hierarchidb/common-core';
+
+describe('楽観的ロックの統合テスト', () => {
+  const rootId = NodeIdGenerator.rootNode('r');
+  let api: WorkerAPIImpl;
+  let nodeId: NodeId;
+
+  beforeEach(async () => {
+    api = new WorkerAPIImpl(`conflict-test-${crypto.randomUUID()}`);
+    await api.initialize();
+    const created = await api.getMutationAPI().createNode({
+      nodeType: 'folder',
+      treeId: 'r' as TreeId,
+      parentId: rootId,
+      name: 'Shared',
+    });
+    if (!created.success) throw new Error(created.error);
+    nodeId = created.nodeId;
+  });
+
+  afterEach(async () => {
+    await api.shutdown();
+  });
+
+  it('編集中に他の操作で更新されたノードへのコミットはCOMMIT_CONFLICTになる', async () => {
+    const workingCopyAPI = api.getWorkingCopyAPI();
+    await workingCopyAPI.createWorkingCopyFromNode(nodeId);
+    await workingCopyAPI.updateWorkingCopy(nodeId, { name: 'Bob', description: 'from Bob' });
+    await api.getMutationAPI().updateNode({ nodeId, name: 'Alice' });
+
+    const result = await workingCopyAPI.commitWorkingCopy(nodeId);
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('COMMIT_CONFLICT');
+    expect(result.conflict?.mine.name).toBe('Bob');
+    expect(result.conflict?.theirs.name).toBe('Alice');
+    expect(result.conflict?.fields).toEqual(expect.arrayContaining(['name', 'description']));
+    // 競合したWorking Copyはマージのために残される
+    expect(await workingCopyAPI.getWorkingCopy(nodeId)).toBeDefined();
+  });
+
+  it('マージ結果を相手側の版に載せ替えると再コミットでき、版が進む', async () => {
+    const workingCopyAPI = api.getWorkingCopyAPI();
+    await workingCopyAPI.createWorkingCopyFromNode(nodeId);
+    await workingCopyAPI.updateWorkingCopy(nodeId, { name: 'Bob' });
+    await api.getMutationAPI().updateNode({ nodeId, name: 'Alice' });
+    const rejected = await workingCopyAPI.commitWorkingCopy(nodeId);
+    const theirs = rejected.conflict!.theirs;
+
+    await workingCopyAPI.updateWorkingCopy(nodeId, {
+      name: 'Alice & Bob',
+      originalVersion: theirs.version,
+    } as Partial<typeof theirs>);
+    const result = await workingCopyAPI.commitWorkingCopy(nodeId, theirs.updatedAt);
+
+    expect(result.success).toBe(true);
+    const committed = await api.getQueryAPI().getNode(nodeId);
+    expect(committed?.name).toBe('Alice & Bob');
+    expect(committed?.version).toBe(theirs.version + 1);
+  });
+
+  it('期待したupdatedAtと異なる場合はSTALE_VERSIONになる', async () => {
+    const workingCopyAPI = api.getWorkingCopyAPI();
+    await workingCopyAPI.createWorkingCopyFromNode(nodeId);
+    await workingCopyAPI.updateWorkingCopy(nodeId, { name: 'Stale' });
+
+    const result = await workingCopyAPI.commitWorkingCopy(nodeId, 1 as Timestamp);
+
+    expect(result.success).toBe(false);
+    expect(result.code).toBe('STALE_VERSION');
+    expect(result.conflict?.fields).toEqual(['name']);
+    expect((await api.getQueryAPI().getNode(nodeId))?.name).toBe('Shared');
+  });
+});
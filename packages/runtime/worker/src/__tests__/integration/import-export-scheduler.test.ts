@@ -0,0 +1,126 @@
+/**
+ * インポート／エクスポートのスケジューラー統合テスト
+ *
+ * アプリケーションが登録したプラグインモジュールがワーカーの初期化で開始され、
+ * スケジュールの変更で次回実行が組み直されること、閉じている間に逃した実行が
+ * 起動時に追いつき実行されることを、WorkerAPIImpl経由で確認します。
+ */
+
+import { describe, expect, it, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { NodeIdGenerator, type NodeId, type TreeId } from '@hierarchidb/common-core';
+import {
+  createImportExportWorkerModule,
+  ImportExportDatabase,
+  type CreateImportExportData,
+  type ImportExportWorkerAPI,
+} from '@hierarchidb/feature-import-export-plugin';
+import { WorkerAPIImpl } from '../../WorkerAPIImpl';
+import { registerWorkerPluginModule } from '../../plugins/WorkerPluginModules';
+
+const HOUR = 60 * 60 * 1000;
+
+describe('インポート／エクスポートのスケジューラー統合テスト', () => {
+  const rootId = NodeIdGenerator.rootNode('r');
+  const operationId = 'import-export-operation' as NodeId;
+  const db = new ImportExportDatabase(`import-export-scheduler-test-${crypto.randomUUID()}`);
+  let dbName: string;
+  let api: WorkerAPIImpl;
+
+  const createFolder = async (parentId: NodeId, name: string): Promise<NodeId> => {
+    const created = await api.getMutationAPI().createNode({
+      nodeType: 'folder',
+      treeId: 'r' as TreeId,
+      parentId,
+      name,
+    });
+    if (!created.success) throw new Error(created.error);
+    return created.nodeId;
+  };
+
+  const startWorker = async (): Promise<ImportExportWorkerAPI> => {
+    api = new WorkerAPIImpl(dbName);
+    await api.initialize();
+    return api.getPluginRegistryAPI().getExtension<ImportExportWorkerAPI>('import-export');
+  };
+
+  // Source配下をTarget配下へ1時間ごとに同期する操作
+  const hourlySync = (sourceId: NodeId, targetId: NodeId): CreateImportExportData => ({
+    name: 'Hourly mirror',
+    operationType: 'sync',
+    sourceConfig: {
+      sourceType: 'tree',
+      sourceFormat: 'hierarchidb',
+      sourceLocation: { type: 'tree', treeId: 'r', nodeFilter: { parentId: sourceId } },
+    },
+    targetConfig: {
+      targetType: 'tree',
+      targetFormat: 'hierarchidb',
+      targetLocation: { type: 'tree', treeId: 'r', nodeFilter: { parentId: targetId } },
+    },
+    syncConfig: { direction: 'one-way' },
+    schedule: { enabled: true, scheduleType: 'interval', interval: 60 },
+  });
+
+  beforeAll(() => {
+    registerWorkerPluginModule(createImportExportWorkerModule({ db }));
+  });
+
+  beforeEach(async () => {
+    dbName = `import-export-scheduler-test-${crypto.randomUUID()}`;
+    await db.entities.clear();
+  });
+
+  afterEach(async () => {
+    await api.shutdown();
+  });
+
+  it('スケジュールの作成・変更・無効化で次回実行時刻が組み直される', async () => {
+    const importExport = await startWorker();
+    const sourceId = await createFolder(rootId, 'Source');
+    const targetId = await createFolder(rootId, 'Target');
+
+    const created = await importExport.createOperation(operationId, hourlySync(sourceId, targetId));
+    expect(await importExport.getNextRunTime(operationId)).toBe(created.createdAt + HOUR);
+    expect((await importExport.getOperation(operationId))?.status).toBe('scheduled');
+
+    await importExport.updateOperation(operationId, {
+      schedule: { enabled: true, scheduleType: 'interval', interval: 30 },
+    });
+    expect(await importExport.getNextRunTime(operationId)).toBe(created.createdAt + HOUR / 2);
+
+    await importExport.updateOperation(operationId, { schedule: { enabled: false } });
+    expect(await importExport.getNextRunTime(operationId)).toBeUndefined();
+    expect((await importExport.getOperation(operationId))?.status).toBe('ready');
+  });
+
+  it('閉じている間に逃した実行は、次の起動時に1回だけ追いつき実行される', async () => {
+    let importExport = await startWorker();
+    const sourceId = await createFolder(rootId, 'Source');
+    const targetId = await createFolder(rootId, 'Target');
+    await createFolder(sourceId, 'Child');
+    await importExport.createOperation(operationId, hourlySync(sourceId, targetId));
+    await api.shutdown();
+
+    // 作成から2時間、アプリを閉じていたことにする
+    await db.entities
+      .where('nodeId')
+      .equals(operationId)
+      .modify({ createdAt: Date.now() - 2 * HOUR });
+
+    importExport = await startWorker();
+    await vi.waitFor(async () => {
+      expect(await importExport.getExecutionHistory(operationId)).toHaveLength(1);
+    });
+
+    const [execution] = await importExport.getExecutionHistory(operationId);
+    expect(execution?.status).toBe('completed');
+    expect(execution?.scheduledTime).toBeLessThan(Date.now());
+    const mirrored = await api.getQueryAPI().listChildren(targetId);
+    expect(mirrored.map((node) => node.name)).toEqual(['Child']);
+
+    // 追いつき実行の後は、次の定時実行が予約される
+    await vi.waitFor(async () => {
+      expect(await importExport.getNextRunTime(operationId)).toBeGreaterThan(Date.now());
+    });
+  });
+});
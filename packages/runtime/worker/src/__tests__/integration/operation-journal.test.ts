@@ -0,0 +1,148 @@
+/**
+ * 操作ジャーナルの統合テスト
+ *
+ * 同じDB名でWorkerAPIImplを作り直すことでページ再読込を再現し、
+ * Undo/Redo履歴とアクティビティ履歴が永続化されていることを確認します。
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { WorkerAPIImpl } from '../../WorkerAPIImpl';
+import { NodeIdGenerator, type NodeId, type TreeId } from '@hierarchidb/common-core';
+
+describe('操作ジャーナルの統合テスト', () => {
+  const rootId = NodeIdGenerator.rootNode('r');
+  let dbName: string;
+  let api: WorkerAPIImpl;
+
+  const reload = async (): Promise<void> => {
+    await api.shutdown();
+    api = new WorkerAPIImpl(dbName);
+    await api.initialize();
+  };
+
+  beforeEach(async () => {
+    dbName = `journal-test-${crypto.randomUUID()}`;
+    api = new WorkerAPIImpl(dbName);
+    await api.initialize();
+  });
+
+  afterEach(async () => {
+    await api.shutdown();
+  });
+
+  it('再読込後もUndo/Redo履歴が復元される', async () => {
+    const created = await api.getMutationAPI().createNode({
+      nodeType: 'folder',
+      treeId: 'r' as TreeId,
+      parentId: rootId,
+      name: 'Journaled',
+    });
+    if (!created.success) throw new Error(created.error);
+    await api.getMutationAPI().updateNode({ nodeId: created.nodeId, name: 'Renamed' });
+    await api.undo();
+
+    await reload();
+
+    const processor = api.getCommandProcessor();
+    expect(processor.getUndoStackSize()).toBe(1);
+    expect(processor.getRedoStackSize()).toBe(1);
+
+    await api.redo();
+    expect((await api.getQueryAPI().getNode(created.nodeId))?.name).toBe('Renamed');
+
+    await api.undo();
+    await api.undo();
+    expect(await api.getQueryAPI().getNode(created.nodeId)).toBeUndefined();
+  });
+
+  it('新しいコマンドで破棄されたRedo履歴は復元されない', async () => {
+    await api.getMutationAPI().createNode({
+      nodeType: 'folder',
+      treeId: 'r' as TreeId,
+      parentId: rootId,
+      name: 'First',
+    });
+    await api.undo();
+    await api.getMutationAPI().createNode({
+      nodeType: 'folder',
+      treeId: 'r' as TreeId,
+      parentId: rootId,
+      name: 'Second',
+    });
+
+    await reload();
+
+    expect(api.getCommandProcessor().getUndoStackSize()).toBe(1);
+    expect(api.getCommandProcessor().canRedo()).toBe(false);
+  });
+
+  it('ツリーごとの最近の操作を新しい順に取得できる', async () => {
+    const created = await api.getMutationAPI().createNode({
+      nodeType: 'folder',
+      treeId: 'r' as TreeId,
+      parentId: rootId,
+      name: 'Activity',
+    });
+    if (!created.success) throw new Error(created.error);
+    await api.getMutationAPI().moveNodesToTrash([created.nodeId]);
+    await api.undo();
+
+    await reload();
+
+    const operations = await api.getQueryAPI().listRecentOperations('r' as TreeId);
+
+    expect(operations.map((operation) => operation.kind)).toEqual(['moveToTrash', 'createNode']);
+    expect(operations[0]?.state).toBe('undone');
+    expect(operations[1]?.nodeIds).toEqual([created.nodeId as NodeId]);
+    expect(await api.getQueryAPI().listRecentOperations('p' as TreeId)).toEqual([]);
+  });
+
+  it('再読込後もシーケンス番号が単調増加する', async () => {
+    await api.getMutationAPI().createNode({
+      nodeType: 'folder',
+      treeId: 'r' as TreeId,
+      parentId: rootId,
+      name: 'Before reload',
+    });
+    const [before] = await api.getQueryAPI().listRecentOperations('r' as TreeId);
+
+    await reload();
+    await api.getMutationAPI().createNode({
+      nodeType: 'folder',
+      treeId: 'r' as TreeId,
+      parentId: rootId,
+      name: 'After reload',
+    });
+    const [after] = await api.getQueryAPI().listRecentOperations('r' as TreeId);
+
+    expect(after!.seq).toBeGreaterThan(before!.seq);
+  });
+
+  it('別タブで同じシーケンス番号が発行されても互いの記録を上書きしない', async () => {
+    const otherTab = new WorkerAPIImpl(dbName);
+    await otherTab.initialize();
+    try {
+      await api.getMutationAPI().createNode({
+        nodeType: 'folder',
+        treeId: 'r' as TreeId,
+        parentId: rootId,
+        name: 'From tab A',
+      });
+      await otherTab.getMutationAPI().createNode({
+        nodeType: 'folder',
+        treeId: 'r' as TreeId,
+        parentId: rootId,
+        name: 'From tab B',
+      });
+
+      const operations = await api.getQueryAPI().listRecentOperations('r' as TreeId);
+      expect(operations).toHaveLength(2);
+      expect(operations[0]!.seq).toBe(operations[1]!.seq);
+    } finally {
+      await otherTab.shutdown();
+    }
+
+    await reload();
+    expect(api.getCommandProcessor().getUndoStackSize()).toBe(2);
+  });
+});
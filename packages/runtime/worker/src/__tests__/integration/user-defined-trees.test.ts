@@ -0,0 +1,142 @@
+/**
+ * ユーザー定義ツリーの統合テスト
+ *
+ * 組み込みの Resources / Projects 以外のツリーを作成・名前変更・アーカイブ・削除できることを確認します。
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { WorkerAPIImpl } from '../../WorkerAPIImpl';
+import { NodeIdGenerator, type NodeId, type TreeId } from '@hierarchidb/common-core';
+import { NodeRegistry } from '../../registry/NodeRegistry';
+
+describe('ユーザー定義ツリーの統合テスト', () => {
+  let api: WorkerAPIImpl;
+
+  beforeEach(async () => {
+    api = new WorkerAPIImpl(`trees-test-${crypto.randomUUID()}`);
+    await api.initialize();
+  });
+
+  afterEach(async () => {
+    NodeRegistry.resetInstance();
+    await api.shutdown();
+  });
+
+  it('ルート・ゴミ箱付きのツリーを作成でき、一覧に表示される', async () => {
+    const result = await api
+      .getMutationAPI()
+      .createTree({ name: 'Client A', treeId: 'clientA' as TreeId });
+    if (!result.success) throw new Error(result.error);
+
+    const tree = await api.getQueryAPI().getTree(result.treeId);
+    expect(tree).toEqual({
+      id: 'clientA',
+      name: 'Client A',
+      rootId: NodeIdGenerator.rootNode('clientA'),
+      trashRootId: NodeIdGenerator.trashNode('clientA'),
+      superRootId: NodeIdGenerator.superRootNode('clientA'),
+    });
+    expect((await api.getQueryAPI().getNode(tree!.rootId))?.name).toBe('Client A');
+    expect((await api.getQueryAPI().listTrees()).map((t) => t.id)).toEqual(['clientA', 'p', 'r']);
+  });
+
+  it('重複・不正なツリーIDでは作成できない', async () => {
+    const duplicate = await api.getMutationAPI().createTree({ name: 'Dup', treeId: 'r' as TreeId });
+    const invalid = await api.getMutationAPI().createTree({ name: 'Bad', treeId: 'a/b' as TreeId });
+
+    expect(duplicate.success).toBe(false);
+    expect(invalid.success).toBe(false);
+  });
+
+  it('名前変更でルートノード名も変わる', async () => {
+    const created = await api.getMutationAPI().createTree({ name: 'Old' });
+    if (!created.success) throw new Error(created.error);
+
+    await api.getMutationAPI().renameTree({ treeId: created.treeId, name: 'New' });
+
+    const tree = await api.getQueryAPI().getTree(created.treeId);
+    expect(tree?.name).toBe('New');
+    expect((await api.getQueryAPI().getNode(tree!.rootId))?.name).toBe('New');
+  });
+
+  it('アーカイブしたツリーは既定の一覧から除外される', async () => {
+    const created = await api.getMutationAPI().createTree({ name: 'Archive me' });
+    if (!created.success) throw new Error(created.error);
+
+    await api.getMutationAPI().archiveTree({ treeId: created.treeId });
+    expect((await api.getQueryAPI().listTrees()).map((t) => t.id)).not.toContain(created.treeId);
+    expect(
+      (await api.getQueryAPI().listTrees({ includeArchived: true })).map((t) => t.id)
+    ).toContain(created.treeId);
+
+    await api.getMutationAPI().archiveTree({ treeId: created.treeId, archived: false });
+    expect((await api.getQueryAPI().getTree(created.treeId))?.archivedAt).toBeUndefined();
+  });
+
+  it('削除でゴミ箱内を含む全ノードが消え、組み込みツリーは削除できない', async () => {
+    const created = await api
+      .getMutationAPI()
+      .createTree({ name: 'Temp', treeId: 'temp' as TreeId });
+    if (!created.success) throw new Error(created.error);
+    const rootId = NodeIdGenerator.rootNode('temp');
+    const child = await api.getMutationAPI().createNode({
+      nodeType: 'folder',
+      treeId: created.treeId,
+      parentId: rootId,
+      name: 'Child',
+    });
+    const trashed = await api.getMutationAPI().createNode({
+      nodeType: 'folder',
+      treeId: created.treeId,
+      parentId: rootId,
+      name: 'Trashed',
+    });
+    if (!child.success || !trashed.success) throw new Error('createNode failed');
+    await api.getMutationAPI().moveNodesToTrash([trashed.nodeId]);
+
+    const result = await api.getMutationAPI().deleteTree({ treeId: created.treeId });
+
+    expect(result.success).toBe(true);
+    expect(await api.getQueryAPI().getTree(created.treeId)).toBeUndefined();
+    expect(await api.getQueryAPI().getNode(rootId)).toBeUndefined();
+    expect(await api.getQueryAPI().getNode(child.nodeId)).toBeUndefined();
+    expect(await api.getQueryAPI().getNode(trashed.nodeId)).toBeUndefined();
+    expect((await api.getMutationAPI().deleteTree({ treeId: 'r' as TreeId })).success).toBe(false);
+  });
+
+  it('削除したツリーのノードのPeerEntityもプラグインのハンドラーで削除される', async () => {
+    const entities = new Map<NodeId, { nodeId: NodeId }>();
+    NodeRegistry.getInstance().registerPlugin({
+      nodeType: 'note',
+      name: 'Note',
+      entityHandler: {
+        createEntity: async (id: NodeId) => {
+          entities.set(id, { nodeId: id });
+          return entities.get(id);
+        },
+        getEntity: async (id: NodeId) => entities.get(id),
+        updateEntity: async () => {},
+        deleteEntity: async (id: NodeId) => {
+          entities.delete(id);
+        },
+      },
+      routing: { actions: {} },
+      meta: {},
+    } as any);
+
+    const created = await api.getMutationAPI().createTree({ name: 'Notes' });
+    if (!created.success) throw new Error(created.error);
+    const note = await api.getMutationAPI().createNode({
+      nodeType: 'note',
+      treeId: created.treeId,
+      parentId: NodeIdGenerator.rootNode(created.treeId),
+      name: 'Note',
+    });
+    if (!note.success) throw new Error(note.error);
+    entities.set(note.nodeId, { nodeId: note.nodeId });
+
+    await api.getMutationAPI().deleteTree({ treeId: created.treeId });
+
+    expect(entities.has(note.nodeId)).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Working Copyコミットの統合テスト
+ *
+ * UIが使うWorkingCopyAPI経由のコミットが、TreeMutationServiceの操作と同様に
+ * Undo履歴とリビジョン（PeerEntityを含む）へ記録されることを確認します。
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from 'vitest';
+import { WorkerAPIImpl } from '../../WorkerAPIImpl';
+import {
+  NodeIdGenerator,
+  type NodeId,
+  type PeerEntity,
+  type TreeId,
+} from '@hierarchidb/common-core';
+import { NodeRegistry } from '../../registry/NodeRegistry';
+
+describe('Working Copyコミットの統合テスト', () => {
+  const rootId = NodeIdGenerator.rootNode('r');
+  let api: WorkerAPIImpl;
+  let nodeId: NodeId;
+
+  beforeEach(async () => {
+    api = new WorkerAPIImpl(`wc-commit-test-${crypto.randomUUID()}`);
+    await api.initialize();
+    const created = await api.getMutationAPI().createNode({
+      nodeType: 'folder',
+      treeId: 'r' as TreeId,
+      parentId: rootId,
+      name: 'Original',
+    });
+    if (!created.success) throw new Error(created.error);
+    nodeId = created.nodeId;
+  });
+
+  afterEach(async () => {
+    NodeRegistry.resetInstance();
+    await api.shutdown();
+  });
+
+  it('編集のコミットはUndoで元に戻り、Redoでやり直せる', async () => {
+    const workingCopyAPI = api.getWorkingCopyAPI();
+    await workingCopyAPI.createWorkingCopyFromNode(nodeId);
+    await workingCopyAPI.updateWorkingCopy(nodeId, { name: 'Edited' });
+
+    const result = await workingCopyAPI.commitWorkingCopy(nodeId);
+    expect(result.success).toBe(true);
+
+    await api.undo();
+    expect((await api.getNode(nodeId))?.name).toBe('Original');
+
+    await api.redo();
+    expect((await api.getNode(nodeId))?.name).toBe('Edited');
+  });
+
+  it('新規作成のコミットはUndoで取り消される', async () => {
+    const workingCopyAPI = api.getWorkingCopyAPI();
+    const draft = await workingCopyAPI.createDraftWorkingCopy('folder', rootId, { name: 'Draft' });
+
+    const result = await workingCopyAPI.commitWorkingCopy(draft.id);
+    expect(result.success).toBe(true);
+    expect(await api.getNode(draft.id)).toBeDefined();
+
+    await api.undo();
+    expect(await api.getNode(draft.id)).toBeUndefined();
+  });
+
+  it('競合で失敗したコミットは履歴に積まれない', async () => {
+    const workingCopyAPI = api.getWorkingCopyAPI();
+    await workingCopyAPI.createWorkingCopyFromNode(nodeId);
+    await workingCopyAPI.updateWorkingCopy(nodeId, { name: 'Bob' });
+    await api.getMutationAPI().updateNode({ nodeId, name: 'Alice' });
+
+    const result = await workingCopyAPI.commitWorkingCopy(nodeId);
+    expect(result.success).toBe(false);
+
+    // 直前のUndo対象は他の操作による名前変更
+    await api.undo();
+    expect((await api.getNode(nodeId))?.name).toBe('Original');
+  });
+
+  it('コミットした状態がPeerEntityとともにリビジョンとして保存される', async () => {
+    const entities = new Map<NodeId, PeerEntity & { title: string }>();
+    NodeRegistry.getInstance().registerPlugin({
+      nodeType: 'note',
+      name: 'Note',
+      entityHandler: {
+        createEntity: async (id: NodeId, data: any) => {
+          const entity = { ...data, nodeId: id };
+          entities.set(id, entity);
+          return entity;
+        },
+        getEntity: async (id: NodeId) => entities.get(id),
+        updateEntity: async (id: NodeId, data: any) => {
+          entities.set(id, { ...entities.get(id)!, ...data });
+        },
+        deleteEntity: async (id: NodeId) => {
+          entities.delete(id);
+        },
+      },
+      routing: { actions: {} },
+      meta: {},
+    } as any);
+
+    const created = await api.getMutationAPI().createNode({
+      nodeType: 'note',
+      treeId: 'r' as TreeId,
+      parentId: rootId,
+      name: 'Note',
+    });
+    if (!created.success) throw new Error(created.error);
+    entities.set(created.nodeId, { nodeId: created.nodeId, title: 'Draft' } as any);
+
+    const workingCopyAPI = api.getWorkingCopyAPI();
+    await workingCopyAPI.createWorkingCopyFromNode(created.nodeId);
+    await workingCopyAPI.updateWorkingCopy(created.nodeId, { name: 'Published' });
+    const result = await workingCopyAPI.commitWorkingCopy(created.nodeId);
+    expect(result.success).toBe(true);
+
+    const revisions = await api.getQueryAPI().listNodeRevisions(created.nodeId);
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0]).toMatchObject({ name: 'Published', hasEntity: true });
+  });
+});
@@ -1,6 +1,24 @@
-import type { Seq, Timestamp, TreeNode, NodeId } from '@hierarchidb/common-core';
+import type {
+  CommandGroupId,
+  EntityBackup,
+  OperationState,
+  Seq,
+  Timestamp,
+  TreeNode,
+  NodeId,
+} from '@hierarchidb/common-core';
 import { generateNodeId } from '@hierarchidb/common-core';
-import type { CommandEnvelope, CommandEvent, CommandMeta, CommandResult } from './types';
+import type {
+  CommandEnvelope,
+  CommandEvent,
+  CommandMeta,
+  CommandResult,
+  JournalEntry,
+  NodeChange,
+  NodeSnapshot,
+  UndoableCommand,
+  UndoGroup,
+} from './types';
 import { WorkerErrorCode } from './types';
 
 /**
@@ -21,7 +39,7 @@ type SanitizedLogResult = {
  * 【テスタビリティ】: モックやスタブによる単体テスト対応
  * 🟢 信頼性レベル: 標準的なRepository Patternに準拠
  */
-interface DatabaseOperations {
+export interface DatabaseOperations {
   /**
    * 【ノード削除】: 指定されたノードをデータベースから削除
    */
@@ -31,6 +49,48 @@ interface DatabaseOperations {
    * 【ノード作成】: 新しいノードをデータベースに作成
    */
   createNode(node: TreeNode): Promise<void>;
+
+  /**
+   * 【ノード取得】: Undo/Redo時の存在確認に使用
+   */
+  getNode?(nodeId: NodeId): Promise<TreeNode | undefined>;
+
+  /**
+   * 【ノード上書き】: スナップショットの状態でノードを作成または置換
+   */
+  putNode?(node: TreeNode): Promise<void>;
+
+  /**
+   * 【エンティティ復元】: プラグインのEntityHandlerでPeerEntity/GroupEntityを復元
+   */
+  restoreEntity?(node: TreeNode, backup: EntityBackup): Promise<void>;
+
+  /**
+   * 【エンティティ削除】: プラグインのEntityHandlerでエンティティを削除
+   */
+  deleteEntity?(node: TreeNode): Promise<void>;
+}
+
+/**
+ * 【操作ジャーナル】: Undo/Redo履歴を永続化し、再読込後に復元するためのインターフェース
+ * 【設計方針】: DatabaseOperationsと同様に注入し、未指定時は履歴をメモリ上のみで保持
+ * 🟢 信頼性レベル: 標準的なRepository Patternに準拠
+ */
+export interface CommandJournal {
+  /**
+   * 【記録】: 実行されたコマンドを逆操作データとともに追記
+   */
+  append(seq: Seq, command: UndoableCommand): Promise<void>;
+
+  /**
+   * 【状態更新】: Undo/Redo/Redo履歴破棄に伴いグループの状態を更新
+   */
+  updateState(groupIds: CommandGroupId[], state: OperationState): Promise<void>;
+
+  /**
+   * 【読込】: 記録済みエントリを発行順（envelope.issuedAt）で取得
+   */
+  load(): Promise<JournalEntry[]>;
 }
 
 /**
@@ -73,6 +133,7 @@ const PERFORMANCE_CONFIG = {
   MAX_UNDO_STACK_SIZE: 100, // 【Undoスタック】: 通常操作100回分の履歴を保持
   MAX_REDO_STACK_SIZE: 100, // 【Redoスタック】: Undo操作100回分の復旧を保持
   MAX_EVENT_HISTORY_SIZE: 1000, // 【イベント履歴】: デバッグ・監査用の詳細履歴
+  MAX_VIEW_HISTORIES: 50, // 【ビュー別履歴】: 同時に保持するビュー（sourceViewId）の上限
 
   // 【セキュリティ制限】: DoS攻撃対策とリソース保護
   MAX_ERROR_MESSAGE_LENGTH: 200, // 【エラーメッセージ】: 情報漏洩防止の長さ制限
@@ -83,6 +144,19 @@ const PERFORMANCE_CONFIG = {
   BATCH_OPERATION_SIZE: 50, // 【バッチサイズ】: 一括処理の最適単位
 } as const;
 
+/**
+ * 【ビュー別履歴】: sourceViewIdごとのUndo/Redoスタック
+ */
+interface ViewHistory {
+  undoStack: UndoGroup[];
+  redoStack: UndoGroup[];
+}
+
+/**
+ * 【既定ビュー】: sourceViewIdを持たないコマンドの履歴キー
+ */
+const GLOBAL_VIEW_KEY = '';
+
 export class CommandProcessor {
   // 【パフォーマンス強化】: 設定値の集約による保守性向上 🟢
   private readonly MAX_UNDO_STACK_SIZE = PERFORMANCE_CONFIG.MAX_UNDO_STACK_SIZE;
@@ -90,8 +164,7 @@ export class CommandProcessor {
   private readonly MAX_EVENT_HISTORY_SIZE = PERFORMANCE_CONFIG.MAX_EVENT_HISTORY_SIZE;
 
   // 【メモリ安全】: 固定サイズでの初期化によりメモリリークを防止 🟢
-  private undoStack: CommandEnvelope<string, unknown>[] = [];
-  private redoStack: CommandEnvelope<string, unknown>[] = [];
+  private histories = new Map<string, ViewHistory>();
   private eventHistory: CommandEvent[] = [];
   private sequenceNumber: number = 0;
 
@@ -176,8 +249,9 @@ export class CommandProcessor {
 
       // 【Ring Buffer実装】: 安全なスタック管理でUndo/Redo記録 🟢
       if (result.success && this.isUndoableCommand(envelope.kind)) {
-        this.addToUndoStackSafely(envelope);
-        this.clearRedoStack(); // 【状態整合性】: 新コマンド時にRedoスタッククリア
+        const command: UndoableCommand = { envelope: envelope as CommandEnvelope<string, unknown> };
+        const discarded = this.addToUndoStackSafely(command);
+        await this.journalCommand(result.seq, command, discarded);
       }
 
       // 【イベント追跡】: 安全なイベント履歴管理 🟢
@@ -192,6 +266,33 @@ export class CommandProcessor {
     }
   }
 
+  /**
+   * 【機能概要】: サービス層で実行済みのコマンドを逆操作データとともに記録する
+   * 【設計方針】: TreeMutationServiceが変更前後のスナップショットを渡し、Undo/Redoはそれを適用する
+   * 🟢 信頼性レベル: Memento Patternに準拠
+   * @param envelope 実行済みのコマンド
+   * @param changes コマンドが変更したノードの前後状態
+   */
+  async recordCommand<TType extends string, TPayload>(
+    envelope: CommandEnvelope<TType, TPayload>,
+    changes: NodeChange[]
+  ): Promise<CommandResult> {
+    const result: CommandResult = { success: true, seq: this.getNextSeq() };
+
+    // 【空コマンド除外】: 何も変更しなかったコマンドは履歴に積まない 🟢
+    if (changes.length > 0) {
+      const command: UndoableCommand = {
+        envelope: envelope as CommandEnvelope<string, unknown>,
+        changes,
+      };
+      const discarded = this.addToUndoStackSafely(command);
+      await this.journalCommand(result.seq, command, discarded);
+    }
+
+    this.recordEventSafely(envelope, result);
+    return result;
+  }
+
   /**
    * Execute the actual command logic
    */
@@ -313,21 +414,77 @@ export class CommandProcessor {
     }
   }
 
+  /**
+   * 【ビュー別履歴取得】: sourceViewIdに対応する履歴を取得（必要なら作成）
+   * 【メモリ安全】: ビュー数の上限を超えた場合は最も古いビューの履歴を破棄 🟢
+   */
+  private getHistory(sourceViewId?: string): ViewHistory {
+    const key = sourceViewId ?? GLOBAL_VIEW_KEY;
+    let history = this.histories.get(key);
+    if (!history) {
+      if (this.histories.size >= PERFORMANCE_CONFIG.MAX_VIEW_HISTORIES) {
+        const oldestKey = this.histories.keys().next().value;
+        if (oldestKey !== undefined) {
+          this.histories.delete(oldestKey);
+        }
+      }
+      history = { undoStack: [], redoStack: [] };
+      this.histories.set(key, history);
+    }
+    return history;
+  }
+
+  /**
+   * 【グループ検索】: 指定グループを含む履歴を検索
+   */
+  private findHistoryByGroup(
+    groupId: CommandGroupId,
+    stack: 'undoStack' | 'redoStack'
+  ): ViewHistory | undefined {
+    for (const history of this.histories.values()) {
+      if (history[stack].some((group) => group.groupId === groupId)) {
+        return history;
+      }
+    }
+    return undefined;
+  }
+
   /**
    * 【セキュリティ機能】: Ring Bufferによる安全なUndoスタック追加
+   * 【グループ化】: 直前と同じgroupIdのコマンドは同じUndoGroupにまとめる
    * 【改善内容】: メモリ制限によりDoS攻撃を防御
-   * 【パフォーマンス】: 固定サイズによる効率的なメモリ管理
    * 🟢 信頼性レベル: セキュリティベストプラクティスに準拠
+   * @returns クリアされたRedoスタックのグループID
    */
-  private addToUndoStackSafely<TType extends string, TPayload>(
-    envelope: CommandEnvelope<TType, TPayload>
-  ): void {
-    // 【Ring Buffer実装】: 最大サイズを超える場合は古いコマンドを削除 🟢
-    if (this.undoStack.length >= this.MAX_UNDO_STACK_SIZE) {
-      this.undoStack.shift(); // 【FIFO】: 最も古いコマンドを削除
+  private addToUndoStackSafely(entry: UndoableCommand): CommandGroupId[] {
+    const history = this.getHistory(entry.envelope.sourceViewId);
+
+    // 【状態整合性】: 新コマンド時にそのビューのRedoスタックをクリア 🟢
+    const discarded = history.redoStack.map((group) => group.groupId);
+    history.redoStack = [];
+
+    this.pushCommand(history.undoStack, entry, this.MAX_UNDO_STACK_SIZE);
+    return discarded;
+  }
+
+  /**
+   * 【グループ追加】: スタック先頭と同じgroupIdなら同じグループに、そうでなければ新しいグループとして追加
+   */
+  private pushCommand(stack: UndoGroup[], entry: UndoableCommand, maxSize: number): void {
+    const { groupId, sourceViewId } = entry.envelope;
+
+    const top = stack[stack.length - 1];
+    if (top && groupId && top.groupId === groupId) {
+      top.commands.push(entry);
+      return;
+    }
+
+    // 【Ring Buffer実装】: 最大サイズを超える場合は古いグループを削除 🟢
+    if (stack.length >= maxSize) {
+      stack.shift(); // 【FIFO】: 最も古いグループを削除
     }
 
-    this.undoStack.push(envelope);
+    stack.push({ groupId, sourceViewId, commands: [entry] });
   }
 
   /**
@@ -336,25 +493,13 @@ export class CommandProcessor {
    * 【パフォーマンス】: 固定サイズによる効率的なメモリ管理
    * 🟢 信頼性レベル: セキュリティベストプラクティスに準拠
    */
-  private addToRedoStackSafely<TType extends string, TPayload>(
-    envelope: CommandEnvelope<TType, TPayload>
-  ): void {
-    // 【Ring Buffer実装】: 最大サイズを超える場合は古いコマンドを削除 🟢
-    if (this.redoStack.length >= this.MAX_REDO_STACK_SIZE) {
-      this.redoStack.shift(); // 【FIFO】: 最も古いコマンドを削除
+  private addToRedoStackSafely(history: ViewHistory, group: UndoGroup): void {
+    // 【Ring Buffer実装】: 最大サイズを超える場合は古いグループを削除 🟢
+    if (history.redoStack.length >= this.MAX_REDO_STACK_SIZE) {
+      history.redoStack.shift(); // 【FIFO】: 最も古いグループを削除
     }
 
-    this.redoStack.push(envelope);
-  }
-
-  /**
-   * 【セキュリティ機能】: 安全なRedoスタッククリア
-   * 【改善内容】: メモリ効率と状態整合性を確保
-   * 🟢 信頼性レベル: 標準的なUndo/Redoパターンに準拠
-   */
-  private clearRedoStack(): void {
-    // 【メモリ解放】: 不要な参照を即座に削除してGC対象にする 🟢
-    this.redoStack = [];
+    history.redoStack.push(group);
   }
 
   /**
@@ -431,31 +576,31 @@ export class CommandProcessor {
   }
 
   /**
-   * Check if undo is available
+   * Check if undo is available for a view
    */
-  canUndo(): boolean {
-    return this.undoStack.length > 0;
+  canUndo(sourceViewId?: string): boolean {
+    return this.getUndoStackSize(sourceViewId) > 0;
   }
 
   /**
-   * Check if redo is available
+   * Check if redo is available for a view
    */
-  canRedo(): boolean {
-    return this.redoStack.length > 0;
+  canRedo(sourceViewId?: string): boolean {
+    return this.getRedoStackSize(sourceViewId) > 0;
   }
 
   /**
-   * Get undo stack size
+   * Get undo stack size (number of command groups) for a view
    */
-  getUndoStackSize(): number {
-    return this.undoStack.length;
+  getUndoStackSize(sourceViewId?: string): number {
+    return this.histories.get(sourceViewId ?? GLOBAL_VIEW_KEY)?.undoStack.length ?? 0;
   }
 
   /**
-   * Get redo stack size
+   * Get redo stack size (number of command groups) for a view
    */
-  getRedoStackSize(): number {
-    return this.redoStack.length;
+  getRedoStackSize(sourceViewId?: string): number {
+    return this.histories.get(sourceViewId ?? GLOBAL_VIEW_KEY)?.redoStack.length ?? 0;
   }
 
   /**
@@ -466,33 +611,52 @@ export class CommandProcessor {
   }
 
   /**
-   * 【機能概要】: 最後のコマンドをUndo（元に戻す）する
-   * 【実装方針】: テストを通すための最小限のUndo実装
-   * 【テスト対応】: フォルダ作成Undoテストで期待される動作を実現
+   * 【機能概要】: 最後のコマンドグループをUndo（元に戻す）する
+   * 【グループ単位】: 同じgroupIdのコマンドは逆順にまとめて取り消す
+   * 【ビュー別】: sourceViewIdごとの履歴から取り出す（groupIdが既知ならその履歴）
    * 🟢 信頼性レベル: 元資料の分析に基づいた逆操作実装
+   * @param groupId 取り消すグループ（履歴にない場合はビューの最新グループ）
+   * @param sourceViewId 対象ビュー
    * @returns Undoの結果
    */
-  async undo(): Promise<CommandResult> {
-    // 【Undoスタック確認】: Undo可能なコマンドが存在するかチェック 🟢
-    const command = this.undoStack.pop();
-    if (!command) {
+  async undo(groupId?: CommandGroupId, sourceViewId?: string): Promise<CommandResult> {
+    const groupHistory = groupId ? this.findHistoryByGroup(groupId, 'undoStack') : undefined;
+    const history = groupHistory ?? this.getHistory(sourceViewId);
+
+    // 【Undoスタック確認】: Undo可能なグループが存在するかチェック 🟢
+    const group = history.undoStack[history.undoStack.length - 1];
+    if (!group) {
       return this.createErrorResult('No command to undo', WorkerErrorCode.INVALID_OPERATION);
     }
+    if (groupHistory && group.groupId !== groupId) {
+      // 【順序保証】: 後続の操作を飛ばして古いグループだけを戻すことはできない 🟢
+      return this.createErrorResult(
+        `Command group ${groupId} is not the latest in its history`,
+        WorkerErrorCode.INVALID_OPERATION
+      );
+    }
+    history.undoStack.pop();
 
+    const undone: UndoableCommand[] = [];
     try {
-      // 【逆操作実行】: コマンドの逆操作を実行してデータを元の状態に戻す 🟢
-      await this.executeReverseCommand(command);
+      // 【逆操作実行】: グループ内のコマンドを逆順に取り消す 🟢
+      for (const command of [...group.commands].reverse()) {
+        await this.reverseCommand(command);
+        undone.push(command);
+      }
 
       // 【Ring Buffer適用】: 安全なRedoスタック追加 🟢
-      this.addToRedoStackSafely(command);
+      this.addToRedoStackSafely(history, group);
+      await this.updateJournalState([group.groupId], 'undone');
 
       return {
         success: true,
         seq: this.getNextSeq(),
       };
     } catch (error) {
-      // 【失敗時のロールバック】: Undo失敗時は元のスタックに戻す 🟡
-      this.undoStack.push(command);
+      // 【失敗時のロールバック】: 取り消し済みのコマンドを再適用し、グループを元のスタックに戻す 🟡
+      await this.rollback(undone.reverse(), (command) => this.replayCommand(command));
+      history.undoStack.push(group);
       return this.createErrorResult(
         error instanceof Error ? error.message : 'Undo operation failed',
         WorkerErrorCode.INVALID_OPERATION
@@ -501,33 +665,50 @@ export class CommandProcessor {
   }
 
   /**
-   * 【機能概要】: Undoした操作をRedo（やり直し）する
-   * 【実装方針】: テストを通すための最小限のRedo実装
-   * 【テスト対応】: フォルダ作成Redoテストで期待される動作を実現
+   * 【機能概要】: Undoしたコマンドグループを Redo（やり直し）する
+   * 【グループ単位】: 同じgroupIdのコマンドは元の順序でまとめて再実行する
    * 🟢 信頼性レベル: 元資料の分析に基づいた再実行実装
+   * @param groupId やり直すグループ（履歴にない場合はビューの最新グループ）
+   * @param sourceViewId 対象ビュー
    * @returns Redoの結果
    */
-  async redo(): Promise<CommandResult> {
-    // 【Redoスタック確認】: Redo可能なコマンドが存在するかチェック 🟢
-    const command = this.redoStack.pop();
-    if (!command) {
+  async redo(groupId?: CommandGroupId, sourceViewId?: string): Promise<CommandResult> {
+    const groupHistory = groupId ? this.findHistoryByGroup(groupId, 'redoStack') : undefined;
+    const history = groupHistory ?? this.getHistory(sourceViewId);
+
+    // 【Redoスタック確認】: Redo可能なグループが存在するかチェック 🟢
+    const group = history.redoStack[history.redoStack.length - 1];
+    if (!group) {
       return this.createErrorResult('No command to redo', WorkerErrorCode.INVALID_OPERATION);
     }
+    if (groupHistory && group.groupId !== groupId) {
+      return this.createErrorResult(
+        `Command group ${groupId} is not the latest in its history`,
+        WorkerErrorCode.INVALID_OPERATION
+      );
+    }
+    history.redoStack.pop();
 
+    const replayed: UndoableCommand[] = [];
     try {
-      // 【コマンド再実行】: Undoで取り消されたコマンドを再実行 🟢
-      await this.executeRedoCommand(command);
+      // 【コマンド再実行】: グループ内のコマンドを元の順序で再実行 🟢
+      for (const command of group.commands) {
+        await this.replayCommand(command);
+        replayed.push(command);
+      }
 
       // 【Undoスタック追加】: Redo成功後はUndoスタックに戻す 🟢
-      this.undoStack.push(command);
+      history.undoStack.push(group);
+      await this.updateJournalState([group.groupId], 'done');
 
       return {
         success: true,
         seq: this.getNextSeq(),
       };
     } catch (error) {
-      // 【失敗時のロールバック】: Redo失敗時は元のスタックに戻す 🟡
-      this.redoStack.push(command);
+      // 【失敗時のロールバック】: 再実行済みのコマンドを取り消し、グループを元のスタックに戻す 🟡
+      await this.rollback(replayed.reverse(), (command) => this.reverseCommand(command));
+      history.redoStack.push(group);
       return this.createErrorResult(
         error instanceof Error ? error.message : 'Redo operation failed',
         WorkerErrorCode.INVALID_OPERATION
@@ -536,14 +717,178 @@ export class CommandProcessor {
   }
 
   /**
-   * Clear all history
+   * 【逆操作】: 記録された変更があれば変更前の状態を適用、なければ種別ごとの逆操作
+   */
+  private async reverseCommand(command: UndoableCommand): Promise<void> {
+    if (command.changes) {
+      await this.applyChanges(command.changes, 'before');
+    } else {
+      await this.executeReverseCommand(command.envelope);
+    }
+  }
+
+  /**
+   * 【再実行】: 記録された変更があれば変更後の状態を適用、なければ種別ごとの再実行
+   */
+  private async replayCommand(command: UndoableCommand): Promise<void> {
+    if (command.changes) {
+      await this.applyChanges(command.changes, 'after');
+    } else {
+      await this.executeRedoCommand(command.envelope);
+    }
+  }
+
+  /**
+   * 【ロールバック】: グループ途中で失敗した場合に適用済みのコマンドを戻す（ベストエフォート）
+   */
+  private async rollback(
+    commands: UndoableCommand[],
+    apply: (command: UndoableCommand) => Promise<void>
+  ): Promise<void> {
+    for (const command of commands) {
+      try {
+        await apply(command);
+      } catch (error) {
+        console.error('CommandProcessor rollback failed:', error);
+      }
+    }
+  }
+
+  /**
+   * 【ジャーナル記録】: コマンドとRedo履歴の破棄を永続化（失敗してもコマンド自体は成功扱い）
+   */
+  private async journalCommand(
+    seq: Seq,
+    command: UndoableCommand,
+    discardedGroupIds: CommandGroupId[]
+  ): Promise<void> {
+    if (!this.journal) {
+      return;
+    }
+    try {
+      await this.journal.updateState(discardedGroupIds, 'discarded');
+      await this.journal.append(seq, command);
+    } catch (error) {
+      console.error('CommandProcessor journal append failed:', error);
+    }
+  }
+
+  /**
+   * 【ジャーナル状態更新】: Undo/Redoの結果を永続化（失敗しても操作自体は成功扱い）
    */
-  clearHistory(): void {
-    this.undoStack = [];
-    this.redoStack = [];
+  private async updateJournalState(
+    groupIds: CommandGroupId[],
+    state: OperationState
+  ): Promise<void> {
+    try {
+      await this.journal?.updateState(groupIds, state);
+    } catch (error) {
+      console.error('CommandProcessor journal update failed:', error);
+    }
+  }
+
+  /**
+   * 【機能概要】: ジャーナルからUndo/Redo履歴とシーケンス番号を復元する
+   * 【実装方針】: 'done' はUndoスタックへ、'undone' はRedoスタックへ（最後に取り消したものが先頭）
+   * 🟢 信頼性レベル: Event Sourcingの再生手法に準拠
+   */
+  async rehydrate(): Promise<void> {
+    if (!this.journal) {
+      return;
+    }
+
+    const entries = await this.journal.load();
+    const undoneStacks = new Map<ViewHistory, UndoGroup[]>();
+    this.histories.clear();
+
+    for (const entry of entries) {
+      this.sequenceNumber = Math.max(this.sequenceNumber, entry.seq);
+      if (entry.state === 'discarded') {
+        continue;
+      }
+
+      const command: UndoableCommand = { envelope: entry.envelope, changes: entry.changes };
+      const history = this.getHistory(entry.envelope.sourceViewId);
+      if (entry.state === 'done') {
+        this.pushCommand(history.undoStack, command, this.MAX_UNDO_STACK_SIZE);
+      } else {
+        const undone = undoneStacks.get(history) ?? [];
+        this.pushCommand(undone, command, Number.MAX_SAFE_INTEGER);
+        undoneStacks.set(history, undone);
+      }
+    }
+
+    // 【Redo順序】: 発行の早いグループほど後に取り消されたためRedoスタックの先頭になる 🟢
+    for (const [history, undone] of undoneStacks) {
+      history.redoStack = undone.reverse().slice(-this.MAX_REDO_STACK_SIZE);
+    }
+  }
+
+  /**
+   * Clear history of one view, or all history when no view is given.
+   * The journal is left untouched, so cleared history is restored by the next rehydrate().
+   */
+  clearHistory(sourceViewId?: string): void {
+    if (sourceViewId !== undefined) {
+      this.histories.delete(sourceViewId);
+      return;
+    }
+    this.histories.clear();
     this.eventHistory = [];
   }
 
+  /**
+   * 【機能概要】: 記録されたノード変更の片側（変更前/変更後）の状態をデータベースに適用する
+   * 【実装方針】: 削除は記録の逆順（子→親）、復元・上書きは記録順（親→子）に適用
+   * 【エンティティ】: プラグインのPeerEntity/GroupEntityもスナップショットから復元
+   * 🟢 信頼性レベル: Memento Patternに準拠
+   * @param changes 記録されたノード変更
+   * @param side 適用する状態（'before' = Undo, 'after' = Redo）
+   */
+  private async applyChanges(changes: NodeChange[], side: 'before' | 'after'): Promise<void> {
+    // 【適用順序】: 記録は親→子の順。削除だけを逆順にし、復元時は親が先に存在するようにする 🟢
+    const deletions = changes.filter((change) => !change[side]).reverse();
+    const writes = changes.filter((change) => change[side]);
+
+    for (const change of [...deletions, ...writes]) {
+      const target: NodeSnapshot | undefined = change[side];
+      const other: NodeSnapshot | undefined = side === 'before' ? change.after : change.before;
+
+      if (!target) {
+        // 【作成の取り消し】: 対象側に存在しないノードは削除 🟢
+        if (other) {
+          await this.databaseOperations.deleteEntity?.(other.node);
+        }
+        await this.databaseOperations.deleteNode(change.nodeId);
+        continue;
+      }
+
+      // 【状態復元】: ノードを上書きし、エンティティをバックアップから戻す 🟢
+      await this.putNode(target.node);
+      if (target.entityBackup) {
+        await this.databaseOperations.restoreEntity?.(target.node, target.entityBackup);
+      } else if (other?.entityBackup) {
+        await this.databaseOperations.deleteEntity?.(target.node);
+      }
+    }
+  }
+
+  /**
+   * 【ノード上書き】: putNode未対応の実装では存在確認の上で作成/置換する
+   */
+  private async putNode(node: TreeNode): Promise<void> {
+    if (this.databaseOperations.putNode) {
+      await this.databaseOperations.putNode(node);
+      return;
+    }
+
+    const existing = await this.databaseOperations.getNode?.(node.id);
+    if (existing) {
+      await this.databaseOperations.deleteNode(node.id);
+    }
+    await this.databaseOperations.createNode(node);
+  }
+
   /**
    * 【機能概要】: コマンドの逆操作を実行してデータを元の状態に戻す
    * 【実装方針】: テストを通すための最小限の逆操作実装
@@ -620,6 +965,7 @@ export class CommandProcessor {
 
   // 【アーキテクチャ改善】: 型安全な依存性注入への変更 🟢
   private readonly databaseOperations: DatabaseOperations;
+  private readonly journal?: CommandJournal;
 
   /**
    * 【コンストラクタ注入】: 依存関係の明示的な注入による堅牢な設計
@@ -628,8 +974,9 @@ export class CommandProcessor {
    * 【型安全性】: any型を排除し、適切な型定義による安全性向上
    * 🟢 信頼性レベル: DIパターンのベストプラクティスに準拠
    */
-  constructor(databaseOperations?: DatabaseOperations) {
+  constructor(databaseOperations?: DatabaseOperations, journal?: CommandJournal) {
     // 【下位互換性】: 既存コードとの互換性を保ちつつ段階的改善 🟡
     this.databaseOperations = databaseOperations || new NullDatabaseOperations();
+    this.journal = journal;
   }
 }
@@ -0,0 +1,165 @@
+/**
+ * @file NodeSnapshots.ts
+ * @description Capture and restore TreeNode + plugin entity state for undo/redo
+ */
+
+import type { EntityBackup, NodeId, RevisionFieldChange, TreeNode } from '@hierarchidb/common-core';
+import type { EntityHandler } from '../registry/plugin';
+import { NodeRegistry } from '../registry/NodeRegistry';
+import { workerWarn } from '../utils/workerLogger';
+import type { NodeChange, NodeSnapshot } from './types';
+
+/**
+ * Look up the plugin entity handler for a node, if its node type has one
+ */
+function getEntityHandler(node: TreeNode): EntityHandler | undefined {
+  if (!node.nodeType) {
+    return undefined;
+  }
+  return NodeRegistry.getInstance().getEntityHandler(node.nodeType);
+}
+
+/**
+ * Capture the current state of a node and its PeerEntity (if any)
+ */
+export async function captureNodeSnapshot(node: TreeNode): Promise<NodeSnapshot> {
+  const handler = getEntityHandler(node);
+  if (!handler) {
+    return { node: { ...node } };
+  }
+
+  try {
+    const entity = await handler.getEntity(node.id);
+    if (!entity) {
+      return { node: { ...node } };
+    }
+
+    const entityBackup: EntityBackup = handler.backup
+      ? await handler.backup(node.id)
+      : {
+          entity,
+          metadata: {
+            backupDate: Date.now(),
+            version: '1.0.0',
+            nodeType: node.nodeType,
+          },
+        };
+
+    return { node: { ...node }, entityBackup };
+  } catch (error) {
+    workerWarn(`Failed to back up entity of ${node.nodeType} node ${node.id}:`, undefined, error);
+    return { node: { ...node } };
+  }
+}
+
+/**
+ * Capture snapshots of the given nodes; missing nodes are omitted
+ */
+export async function captureSnapshots(
+  getNode: (nodeId: NodeId) => Promise<TreeNode | undefined>,
+  nodeIds: NodeId[]
+): Promise<Map<NodeId, NodeSnapshot>> {
+  const snapshots = new Map<NodeId, NodeSnapshot>();
+  for (const nodeId of nodeIds) {
+    const node = await getNode(nodeId);
+    if (node) {
+      snapshots.set(nodeId, await captureNodeSnapshot(node));
+    }
+  }
+  return snapshots;
+}
+
+/**
+ * Build the change list for a command from before/after snapshots.
+ * Order follows `nodeIds`, which callers list parents before children.
+ */
+export function diffSnapshots(
+  nodeIds: NodeId[],
+  before: Map<NodeId, NodeSnapshot>,
+  after: Map<NodeId, NodeSnapshot>
+): NodeChange[] {
+  const changes: NodeChange[] = [];
+  for (const nodeId of nodeIds) {
+    const beforeSnapshot = before.get(nodeId);
+    const afterSnapshot = after.get(nodeId);
+    if (!beforeSnapshot && !afterSnapshot) {
+      continue;
+    }
+    changes.push({ nodeId, before: beforeSnapshot, after: afterSnapshot });
+  }
+  return changes;
+}
+
+/**
+ * Restore a node's entity from a backup taken by captureNodeSnapshot
+ */
+export async function restoreEntity(node: TreeNode, backup: EntityBackup): Promise<void> {
+  const handler = getEntityHandler(node);
+  if (!handler) {
+    return;
+  }
+
+  if (handler.restore) {
+    await handler.restore(node.id, backup);
+    return;
+  }
+
+  const existing = await handler.getEntity(node.id);
+  if (existing) {
+    await handler.updateEntity(node.id, backup.entity);
+  } else {
+    await handler.createEntity(node.id, backup.entity);
+  }
+}
+
+/**
+ * Delete a node's entity, if the node type has one and it exists
+ */
+export async function deleteEntity(node: TreeNode): Promise<void> {
+  const handler = getEntityHandler(node);
+  if (!handler) {
+    return;
+  }
+
+  const existing = await handler.getEntity(node.id);
+  if (existing) {
+    await handler.deleteEntity(node.id);
+  }
+}
+
+// Bookkeeping fields that change on every save and are left out of field diffs
+const DIFF_IGNORED_FIELDS = new Set(['updatedAt', 'version']);
+
+/**
+ * List the TreeNode and PeerEntity fields that differ between two snapshots
+ */
+export function diffSnapshotFields(
+  before: NodeSnapshot,
+  after: NodeSnapshot
+): RevisionFieldChange[] {
+  return [
+    ...diffRecords('node', before.node, after.node),
+    ...diffRecords('entity', before.entityBackup?.entity ?? {}, after.entityBackup?.entity ?? {}),
+  ];
+}
+
+function diffRecords(prefix: string, before: object, after: object): RevisionFieldChange[] {
+  const beforeRecord = before as Record<string, unknown>;
+  const afterRecord = after as Record<string, unknown>;
+  const keys = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+
+  const changes: RevisionFieldChange[] = [];
+  for (const key of keys) {
+    if (DIFF_IGNORED_FIELDS.has(key)) {
+      continue;
+    }
+    if (JSON.stringify(beforeRecord[key]) !== JSON.stringify(afterRecord[key])) {
+      changes.push({
+        path: `${prefix}.${key}`,
+        before: beforeRecord[key],
+        after: afterRecord[key],
+      });
+    }
+  }
+  return changes;
+}
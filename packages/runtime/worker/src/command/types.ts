@@ -1,7 +1,12 @@
 import type {
+  CommitConflict,
+  EntityBackup,
   ErrorCode as CoreErrorCode,
+  OperationState,
+  RevisionId,
   Seq,
   Timestamp,
+  TreeId,
   TreeNode,
   NodeId,
 } from '@hierarchidb/common-core';
@@ -73,6 +78,7 @@ export type CommandResult =
       error: string;
       code: CoreErrorCode | WorkerErrorCode; // Allow both for compatibility
       seq?: Seq; // 失敗時もseqは採番される場合がある
+      conflict?: CommitConflict; // 楽観的ロック競合時の双方の状態
     };
 
 /**
@@ -84,3 +90,63 @@ export interface CommandEvent {
   correlationId?: string;
   result: CommandResult;
 }
+
+/**
+ * State of a single node (and its plugin entity) at one point in time.
+ * Used as inverse data for undo/redo.
+ */
+export interface NodeSnapshot {
+  node: TreeNode;
+  entityBackup?: EntityBackup;
+}
+
+/**
+ * Before/after state of a node touched by a command.
+ * `before` is undefined for nodes the command created,
+ * `after` is undefined for nodes the command deleted.
+ */
+export interface NodeChange {
+  nodeId: NodeId;
+  before?: NodeSnapshot;
+  after?: NodeSnapshot;
+}
+
+/**
+ * Undo/redo history entry: the executed command and the node changes it made.
+ * Entries without `changes` fall back to kind-specific reverse operations.
+ */
+export interface UndoableCommand {
+  envelope: CommandEnvelope<string, unknown>;
+  changes?: NodeChange[];
+}
+
+/**
+ * Commands sharing a groupId within one view, undone and redone as a single unit.
+ */
+export interface UndoGroup {
+  groupId: string;
+  sourceViewId?: string;
+  commands: UndoableCommand[];
+}
+
+/**
+ * Persisted operation journal row: an undoable command with its sequence number,
+ * the trees it touched and its current undo state.
+ */
+export interface JournalEntry extends UndoableCommand {
+  /** Auto-incremented key; seq is numbered per tab and may repeat across tabs */
+  id?: number;
+  seq: Seq;
+  treeIds: TreeId[];
+  state: OperationState;
+}
+
+/**
+ * Persisted node revision: the node and its PeerEntity as of a working copy commit.
+ */
+export interface NodeRevisionEntry extends NodeSnapshot {
+  revisionId: RevisionId;
+  nodeId: NodeId;
+  createdAt: Timestamp;
+  commandId: string;
+}
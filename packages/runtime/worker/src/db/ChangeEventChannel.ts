@@ -0,0 +1,59 @@
+import type { Seq, TreeChangeEvent } from '@hierarchidb/common-core';
+import type { Subscription } from 'rxjs';
+import type { CoreDB } from './CoreDB';
+
+/**
+ * タブ間の変更イベント中継
+ * 自タブのCoreDBが発行したイベントをBroadcastChannelで送り、
+ * 他タブからのイベントを自タブのchangeSubjectへ流す（発行元ごとのseqで重複排除）
+ */
+export class ChangeEventChannel {
+  private channel?: BroadcastChannel;
+  private subscription?: Subscription;
+  private lastSeqByOrigin = new Map<string, Seq>();
+
+  constructor(
+    private coreDB: CoreDB,
+    private channelName: string = `${coreDB.name}-changes`
+  ) {}
+
+  start(): void {
+    // BroadcastChannelがない環境では単一タブとして動作
+    if (this.channel || typeof BroadcastChannel === 'undefined') {
+      return;
+    }
+
+    this.channel = new BroadcastChannel(this.channelName);
+    this.channel.onmessage = (message: MessageEvent<TreeChangeEvent>) => {
+      this.receive(message.data);
+    };
+
+    // 他タブから受け取ったイベントは再送しない
+    this.subscription = this.coreDB.changeSubject.subscribe((event) => {
+      if (event.originId === this.coreDB.originId) {
+        this.channel?.postMessage(event);
+      }
+    });
+  }
+
+  close(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = undefined;
+    this.channel?.close();
+    this.channel = undefined;
+  }
+
+  private receive(event: TreeChangeEvent): void {
+    if (!event?.originId || event.seq === undefined || event.originId === this.coreDB.originId) {
+      return;
+    }
+
+    const lastSeq = this.lastSeqByOrigin.get(event.originId) ?? 0;
+    if (event.seq <= lastSeq) {
+      return;
+    }
+    this.lastSeqByOrigin.set(event.originId, event.seq);
+
+    this.coreDB.changeSubject.next(event);
+  }
+}
@@ -11,6 +11,9 @@ import {
 import Dexie, { type Table } from 'dexie';
 import { Subject } from 'rxjs';
 
+// 初期化時に作成される組み込みツリー（削除・アーカイブ不可）
+export const DEFAULT_TREE_IDS: readonly TreeId[] = ['r', 'p'] as TreeId[];
+
 export class CoreDB extends Dexie {
   trees!: Table<Tree, TreeId>;
   nodes!: Table<TreeNode, NodeId>;
@@ -19,6 +22,10 @@ export class CoreDB extends Dexie {
   // イベント通知用のSubject
   public readonly changeSubject = new Subject<TreeChangeEvent>();
 
+  // このインスタンスが発行するイベントの識別子と連番（タブ間同期用）
+  public readonly originId = crypto.randomUUID();
+  private changeSeq = 0;
+
   constructor(name: string = 'hierarchidb') {
     super(`${name}-CoreDB`);
 
@@ -41,58 +48,64 @@ export class CoreDB extends Dexie {
     return treeId === 'r' ? 'Resources' : 'Projects';
   }
 
+  private buildTree(treeId: TreeId, name: string): Tree {
+    return {
+      id: treeId,
+      name,
+      superRootId: NodeIdGenerator.superRootNode(treeId),
+      rootId: NodeIdGenerator.rootNode(treeId),
+      trashRootId: NodeIdGenerator.trashNode(treeId),
+    };
+  }
+
+  private buildTreeRootNodes(treeId: TreeId, name: string, now: number): TreeNode[] {
+    return [
+      {
+        parentId: NodeIdGenerator.superRootNode(treeId),
+        id: NodeIdGenerator.rootNode(treeId),
+        nodeType: TREE_ROOT_NODE_TYPES.ROOT,
+        name,
+        createdAt: now,
+        updatedAt: now,
+        version: 1,
+      },
+      {
+        parentId: NodeIdGenerator.superRootNode(treeId),
+        id: NodeIdGenerator.trashNode(treeId),
+        nodeType: TREE_ROOT_NODE_TYPES.TRASH,
+        name: 'Trash',
+        createdAt: now,
+        updatedAt: now,
+        version: 1,
+      },
+    ];
+  }
+
+  private buildTreeRootStates(treeId: TreeId): TreeRootState[] {
+    return [NodeIdGenerator.rootNode(treeId), NodeIdGenerator.trashNode(treeId)].map(
+      (rootNodeId) => ({ treeId, rootNodeId, expanded: {} })
+    );
+  }
+
   async initialize(): Promise<void> {
     const now = Date.now();
     if ((await this.trees.count()) === 0) {
       await this.trees.bulkPut(
-        ['r', 'p'].map((treeId) => ({
-          treeId,
-          name: this.treeIdToTreeName(treeId),
-          id: treeId as TreeId,
-          superRootId: NodeIdGenerator.superRootNode(treeId),
-          rootId: NodeIdGenerator.rootNode(treeId),
-          trashRootId: NodeIdGenerator.trashNode(treeId),
-        }))
+        DEFAULT_TREE_IDS.map((treeId) => this.buildTree(treeId, this.treeIdToTreeName(treeId)))
       );
     }
     if ((await this.nodes.count()) === 0) {
-      const data = ['r', 'p'].flatMap((treeId) => [
-        {
-          parentId: NodeIdGenerator.superRootNode(treeId),
-          id: NodeIdGenerator.rootNode(treeId),
-          nodeType: TREE_ROOT_NODE_TYPES.ROOT,
-          name: this.treeIdToTreeName(treeId),
-          createdAt: now,
-          updatedAt: now,
-          version: 1,
-        },
-        {
-          parentId: NodeIdGenerator.superRootNode(treeId),
-          id: NodeIdGenerator.trashNode(treeId),
-          nodeType: TREE_ROOT_NODE_TYPES.TRASH,
-          name: 'Trash',
-          createdAt: now,
-          updatedAt: now,
-          version: 1,
-        },
-      ]) satisfies TreeNode[];
+      const data = DEFAULT_TREE_IDS.flatMap((treeId) =>
+        this.buildTreeRootNodes(treeId, this.treeIdToTreeName(treeId), now)
+      );
       console.log('⭐️initialize nodes', data);
       await this.nodes.bulkAdd(data);
     }
     if ((await this.rootStates.count()) === 0) {
-      const rootStateData = ['r', 'p'].flatMap((treeId) =>
-        [TREE_ROOT_NODE_TYPES.ROOT, TREE_ROOT_NODE_TYPES.TRASH].map((treeRootNodeType) => ({
-          treeId: treeId as TreeId,
-          rootNodeId:
-            treeRootNodeType === TREE_ROOT_NODE_TYPES.ROOT
-              ? NodeIdGenerator.rootNode(treeId)
-              : NodeIdGenerator.trashNode(treeId),
-          expanded: {},
-        }))
-      );
-      
+      const rootStateData = DEFAULT_TREE_IDS.flatMap((treeId) => this.buildTreeRootStates(treeId));
+
       console.log('⭐️initialize rootStates', rootStateData);
-      
+
       try {
         await this.rootStates.bulkAdd(rootStateData);
       } catch (error) {
@@ -111,6 +124,82 @@ export class CoreDB extends Dexie {
     return this.trees.toArray();
   }
 
+  /**
+   * ツリーを作成し、スーパールート配下にルート・ゴミ箱ノードとその展開状態を用意する
+   */
+  async createTree(treeId: TreeId, name: string): Promise<Tree> {
+    const tree = this.buildTree(treeId, name);
+    const rootNodes = this.buildTreeRootNodes(treeId, name, Date.now());
+
+    await this.transaction('rw', this.trees, this.nodes, this.rootStates, async () => {
+      await this.trees.add(tree);
+      await this.nodes.bulkAdd(rootNodes);
+      await this.rootStates.bulkAdd(this.buildTreeRootStates(treeId));
+    });
+
+    rootNodes.forEach((node) =>
+      this.emitChange({
+        type: 'node-created' as const,
+        nodeId: node.id,
+        node,
+        timestamp: Date.now(),
+      })
+    );
+    return tree;
+  }
+
+  async updateTree(tree: Tree): Promise<void> {
+    await this.trees.put(tree);
+  }
+
+  /**
+   * ツリーと、ゴミ箱内を含む全ノード・展開状態を削除
+   *
+   * @returns 削除したノード（PeerEntityの後始末は呼び出し側で行う）
+   */
+  async deleteTree(treeId: TreeId): Promise<TreeNode[]> {
+    const tree = await this.trees.get(treeId);
+    if (!tree) {
+      return [];
+    }
+
+    const nodeIds: NodeId[] = [];
+    let deletedNodes: TreeNode[] = [];
+    await this.transaction('rw', this.trees, this.nodes, this.rootStates, async () => {
+      // ゴミ箱へ移動したノードは元の親（originalParentId）からたどる
+      const queue: NodeId[] = [tree.superRootId];
+      while (queue.length > 0) {
+        const parentId = queue.shift()!;
+        const childIds = await this.nodes.where('parentId').equals(parentId).primaryKeys();
+        const trashedIds = await this.nodes
+          .where('originalParentId')
+          .equals(parentId)
+          .filter((node) => !!node.removedAt)
+          .primaryKeys();
+        const newIds = [...childIds, ...trashedIds].filter((id) => !nodeIds.includes(id));
+        nodeIds.push(...newIds);
+        queue.push(...newIds);
+      }
+
+      deletedNodes = (await this.nodes.bulkGet(nodeIds)).filter(
+        (node): node is TreeNode => node !== undefined
+      );
+      await this.nodes.bulkDelete(nodeIds);
+      await this.rootStates.where('treeId').equals(treeId).delete();
+      await this.trees.delete(treeId);
+    });
+
+    deletedNodes.forEach((node) =>
+      this.emitChange({
+        type: 'node-deleted' as const,
+        nodeId: node.id,
+        previousNode: node,
+        timestamp: Date.now(),
+      })
+    );
+    return deletedNodes;
+  }
+
   // CRUD operations for TreeNode
   async getNode(nodeId: NodeId): Promise<TreeNode | undefined> {
     // Validate nodeId to prevent Dexie errors
@@ -126,7 +215,7 @@ export class CoreDB extends Dexie {
     await this.nodes.add(node);
 
     // 作成イベントを通知
-    this.changeSubject.next({
+    this.emitChange({
       type: 'node-created' as const,
       nodeId: node.id,
       node: node,
@@ -166,17 +255,20 @@ export class CoreDB extends Dexie {
         timestamp: Date.now(),
       };
 
-      this.changeSubject.next(changeEvent);
+      this.emitChange(changeEvent);
     }
   }
 
   async deleteNode(nodeId: NodeId): Promise<void> {
+    // 親IDを通知に含めるため、削除前のノードを取得しておく
+    const oldNode = await this.nodes.get(nodeId);
     await this.nodes.delete(nodeId);
 
     // 削除イベントを通知
-    this.changeSubject.next({
+    this.emitChange({
       type: 'node-deleted' as const,
       nodeId: nodeId,
+      previousNode: oldNode,
       timestamp: Date.now(),
     });
   }
@@ -191,6 +283,42 @@ export class CoreDB extends Dexie {
     return children;
   }
 
+  /**
+   * 祖先をたどってノードが属するツリーを特定（ルート・ゴミ箱の親はスーパールート）
+   */
+  async findTreeId(node: TreeNode): Promise<TreeId | undefined> {
+    const trees = await this.trees.toArray();
+    const superRoots = new Map(trees.map((tree) => [tree.superRootId, tree.id]));
+
+    const visited = new Set<NodeId>();
+    let current: TreeNode | undefined = node;
+    while (current && !visited.has(current.id)) {
+      const treeId = superRoots.get(current.parentId);
+      if (treeId) {
+        return treeId;
+      }
+      visited.add(current.id);
+      current = await this.nodes.get(current.parentId);
+    }
+    return undefined;
+  }
+
+  /**
+   * 変更イベントに親ID・発行元・連番を付けて通知
+   */
+  private emitChange(event: TreeChangeEvent): void {
+    const parentId = event.node?.parentId ?? event.previousNode?.parentId;
+    const previousParentId = event.previousNode?.parentId;
+    this.changeSubject.next({
+      ...event,
+      parentId: event.parentId ?? parentId,
+      previousParentId:
+        event.previousParentId ?? (previousParentId !== parentId ? previousParentId : undefined),
+      seq: ++this.changeSeq,
+      originId: this.originId,
+    });
+  }
+
   /**
    * データベース接続を閉じる際にSubjectもクリーンアップ
    */
@@ -207,7 +335,7 @@ export class CoreDB extends Dexie {
 
     // バルク作成イベントを個別に通知
     nodes.forEach((node) => {
-      this.changeSubject.next({
+      this.emitChange({
         type: 'node-created' as const,
         nodeId: node.id,
         node: node,
@@ -240,7 +368,7 @@ export class CoreDB extends Dexie {
           changes.parentId = { old: oldNode.parentId, new: node.parentId };
         }
 
-        this.changeSubject.next({
+        this.emitChange({
           type: 'node-updated' as const,
           nodeId: node.id,
           node: node,
@@ -252,13 +380,15 @@ export class CoreDB extends Dexie {
   }
 
   async bulkDeleteNodes(nodeIds: NodeId[]): Promise<void> {
+    const oldNodes = await this.nodes.bulkGet(nodeIds);
     await this.nodes.bulkDelete(nodeIds);
 
     // バルク削除イベントを個別に通知
-    nodeIds.forEach((nodeId) => {
-      this.changeSubject.next({
+    nodeIds.forEach((nodeId, index) => {
+      this.emitChange({
         type: 'node-deleted' as const,
         nodeId: nodeId,
+        previousNode: oldNodes[index],
         timestamp: Date.now(),
       });
     });
@@ -0,0 +1,88 @@
+import type {
+  CommandGroupId,
+  OperationRecord,
+  OperationState,
+  TreeId,
+} from '@hierarchidb/common-core';
+import Dexie, { type Table } from 'dexie';
+import type { JournalEntry } from '../command/types';
+
+// 保持する最大エントリ数（超過分は古いものから削除）
+const MAX_JOURNAL_ENTRIES = 1000;
+
+/**
+ * 操作ジャーナル
+ * Undo/Redo履歴とアクティビティ表示のため、実行済みコマンドを逆操作データとともに永続化する
+ *
+ * seqはタブ（CommandProcessor）ごとの連番で重複し得るため、主キーには自動採番のidを使い、
+ * 順序はコマンドの発行時刻（envelope.issuedAt）で決める
+ */
+export class JournalDB extends Dexie {
+  journal!: Table<JournalEntry, number>;
+
+  constructor(name: string = 'hierarchidb') {
+    super(`${name}-JournalDB`);
+
+    this.version(1).stores({
+      journal: '++id, envelope.issuedAt, envelope.groupId, *treeIds',
+    });
+  }
+
+  async appendEntry(entry: JournalEntry): Promise<void> {
+    await this.journal.add(entry);
+
+    // 上限を超えた古いエントリを削除
+    const overflow = (await this.journal.count()) - MAX_JOURNAL_ENTRIES;
+    if (overflow > 0) {
+      const oldestKeys = await this.journal
+        .orderBy('envelope.issuedAt')
+        .limit(overflow)
+        .primaryKeys();
+      await this.journal.bulkDelete(oldestKeys);
+    }
+  }
+
+  async updateGroupState(groupIds: CommandGroupId[], state: OperationState): Promise<void> {
+    if (groupIds.length === 0) {
+      return;
+    }
+    await this.journal.where('envelope.groupId').anyOf(groupIds).modify({ state });
+  }
+
+  /**
+   * 全エントリを発行順で取得（Undo/Redo履歴の復元用）
+   */
+  async listEntries(): Promise<JournalEntry[]> {
+    return await this.journal.orderBy('envelope.issuedAt').toArray();
+  }
+
+  /**
+   * 指定ツリーの最近の操作を新しい順で取得
+   */
+  async listRecentOperations(treeId: TreeId, limit: number): Promise<OperationRecord[]> {
+    const entries = await this.journal.where('treeIds').equals(treeId).toArray();
+    return entries.sort(compareNewestFirst).slice(0, limit).map(toOperationRecord);
+  }
+}
+
+/**
+ * 発行時刻の新しい順（同時刻なら後から記録したものが先）
+ */
+function compareNewestFirst(a: JournalEntry, b: JournalEntry): number {
+  return b.envelope.issuedAt - a.envelope.issuedAt || (b.id ?? 0) - (a.id ?? 0);
+}
+
+function toOperationRecord(entry: JournalEntry): OperationRecord {
+  const { envelope } = entry;
+  return {
+    seq: entry.seq,
+    commandId: envelope.commandId,
+    groupId: envelope.groupId,
+    kind: envelope.kind,
+    issuedAt: envelope.issuedAt,
+    sourceViewId: envelope.sourceViewId,
+    treeIds: entry.treeIds,
+    nodeIds: (entry.changes ?? []).map((change) => change.nodeId),
+    state: entry.state,
+  };
+}
@@ -0,0 +1,74 @@
+import type { NodeId, NodeRevision, RevisionId, Timestamp } from '@hierarchidb/common-core';
+import Dexie, { type Table } from 'dexie';
+import type { NodeRevisionEntry } from '../command/types';
+
+// ノードごとに保持する最大リビジョン数（超過分は古いものから削除）
+const MAX_REVISIONS_PER_NODE = 100;
+
+/**
+ * リビジョンストア
+ * Working Copyのコミットごとに、TreeNodeとPeerEntityのスナップショットを保存する
+ */
+export class RevisionDB extends Dexie {
+  revisions!: Table<NodeRevisionEntry, RevisionId>;
+
+  constructor(name: string = 'hierarchidb') {
+    super(`${name}-RevisionDB`);
+
+    this.version(1).stores({
+      revisions: '&revisionId, nodeId, [nodeId+createdAt]',
+    });
+  }
+
+  async addRevision(entry: NodeRevisionEntry): Promise<void> {
+    await this.revisions.put(entry);
+
+    // 上限を超えた古いリビジョンを削除
+    const keys = await this.byNode(entry.nodeId).primaryKeys();
+    if (keys.length > MAX_REVISIONS_PER_NODE) {
+      await this.revisions.bulkDelete(keys.slice(0, keys.length - MAX_REVISIONS_PER_NODE));
+    }
+  }
+
+  async getRevision(revisionId: RevisionId): Promise<NodeRevisionEntry | undefined> {
+    return await this.revisions.get(revisionId);
+  }
+
+  /**
+   * 指定ノードのリビジョン一覧を新しい順で取得
+   */
+  async listRevisions(nodeId: NodeId): Promise<NodeRevision[]> {
+    const entries = await this.byNode(nodeId).reverse().toArray();
+    return entries.map(toNodeRevision);
+  }
+
+  /**
+   * 指定時刻以前で最新のリビジョンを取得（時点復元用）
+   */
+  async findRevisionAt(
+    nodeId: NodeId,
+    timestamp: Timestamp
+  ): Promise<NodeRevisionEntry | undefined> {
+    return await this.revisions
+      .where('[nodeId+createdAt]')
+      .between([nodeId, Dexie.minKey], [nodeId, timestamp], true, true)
+      .last();
+  }
+
+  private byNode(nodeId: NodeId) {
+    return this.revisions
+      .where('[nodeId+createdAt]')
+      .between([nodeId, Dexie.minKey], [nodeId, Dexie.maxKey]);
+  }
+}
+
+function toNodeRevision(entry: NodeRevisionEntry): NodeRevision {
+  return {
+    revisionId: entry.revisionId,
+    nodeId: entry.nodeId,
+    version: entry.node.version,
+    name: entry.node.name,
+    createdAt: entry.createdAt,
+    hasEntity: !!entry.entityBackup,
+  };
+}
@@ -0,0 +1,67 @@
+import type { NodeId } from '@hierarchidb/common-core';
+import Dexie, { type Table } from 'dexie';
+
+/**
+ * トークンとノードの対応（転置インデックスの1エントリ）
+ */
+export interface SearchPosting {
+  token: string;
+  nodeId: NodeId;
+  // フィールド重み付きの出現回数
+  weight: number;
+}
+
+/**
+ * 索引済みノードの本文（スニペット生成用）
+ */
+export interface SearchDocument {
+  nodeId: NodeId;
+  fields: Record<string, string>;
+}
+
+/**
+ * 全文検索インデックス
+ * ノード名・説明・プラグインが宣言したエンティティフィールドを転置インデックスとして保存する
+ */
+export class SearchIndexDB extends Dexie {
+  postings!: Table<SearchPosting, [string, NodeId]>;
+  documents!: Table<SearchDocument, NodeId>;
+
+  constructor(name: string = 'hierarchidb') {
+    super(`${name}-SearchIndexDB`);
+
+    this.version(1).stores({
+      postings: '&[token+nodeId], nodeId',
+      documents: '&nodeId',
+    });
+  }
+
+  async putDocument(document: SearchDocument, postings: SearchPosting[]): Promise<void> {
+    await this.transaction('rw', this.postings, this.documents, async () => {
+      await this.postings.where('nodeId').equals(document.nodeId).delete();
+      await this.postings.bulkPut(postings);
+      await this.documents.put(document);
+    });
+  }
+
+  async deleteDocument(nodeId: NodeId): Promise<void> {
+    await this.transaction('rw', this.postings, this.documents, async () => {
+      await this.postings.where('nodeId').equals(nodeId).delete();
+      await this.documents.delete(nodeId);
+    });
+  }
+
+  /**
+   * 指定文字列で始まるトークンのエントリを取得
+   */
+  async findByTokenPrefix(prefix: string): Promise<SearchPosting[]> {
+    return await this.postings
+      .where('[token+nodeId]')
+      .between([prefix, Dexie.minKey], [`${prefix}\uffff`, Dexie.maxKey])
+      .toArray();
+  }
+
+  async countDocuments(): Promise<number> {
+    return await this.documents.count();
+  }
+}
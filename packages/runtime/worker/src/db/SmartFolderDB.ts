@@ -0,0 +1,50 @@
+import Dexie, { type Table } from 'dexie';
+import type { NodeId, SmartFolderQuery } from '@hierarchidb/common-core';
+
+export interface SmartFolderEntity extends SmartFolderQuery {
+  nodeId: NodeId;
+  createdAt: number;
+  updatedAt: number;
+  version: number;
+}
+
+/**
+ * SmartFolderDB - スマートフォルダ専用データベース
+ * 保存したクエリのみを持ち、子ノード（クエリ結果）は保存しない
+ */
+export class SmartFolderDB extends Dexie {
+  smartFolders!: Table<SmartFolderEntity, NodeId>;
+
+  constructor(name: string = 'hierarchidb-smartfolder') {
+    super(name);
+
+    this.version(1).stores({
+      smartFolders: '&nodeId, updatedAt',
+    });
+  }
+
+  async createEntity(entity: SmartFolderEntity): Promise<void> {
+    await this.smartFolders.add(entity);
+  }
+
+  async getEntity(nodeId: NodeId): Promise<SmartFolderEntity | undefined> {
+    return await this.smartFolders.get(nodeId);
+  }
+
+  async updateEntity(nodeId: NodeId, updates: Partial<SmartFolderQuery>): Promise<void> {
+    const existing = await this.getEntity(nodeId);
+    if (!existing) {
+      throw new Error(`SmartFolderEntity not found: ${nodeId}`);
+    }
+
+    await this.smartFolders.update(nodeId, {
+      ...updates,
+      updatedAt: Date.now(),
+      version: existing.version + 1,
+    });
+  }
+
+  async deleteEntity(nodeId: NodeId): Promise<void> {
+    await this.smartFolders.delete(nodeId);
+  }
+}
@@ -73,12 +73,18 @@ export class SpreadsheetDB extends Dexie {
     this.version(1).stores({
       // RelationalEntity: SpreadsheetMetadata (共有データ)
       spreadsheetMetadata: '&id, contentHash, createdAt, lastAccessedAt, rowCount',
-      
-      // RelationalEntity: SpreadsheetChunk (チャンクデータ)  
+
+      // RelationalEntity: SpreadsheetChunk (チャンクデータ)
       spreadsheetChunks: '&id, metadataId, [metadataId+chunkIndex], rowStart, rowEnd',
-      
+
       // PeerEntity: SpreadsheetRefEntity (ノード紐付け)
-      spreadsheetRefs: '&nodeId, metadataId, createdAt, updatedAt'
+      spreadsheetRefs: '&nodeId, metadataId, createdAt, updatedAt',
+    });
+
+    // 行範囲の読み出し用に [metadataId+rowStart] を追加
+    this.version(2).stores({
+      spreadsheetChunks:
+        '&id, metadataId, [metadataId+chunkIndex], [metadataId+rowStart], rowStart, rowEnd',
     });
   }
 
@@ -96,6 +102,10 @@ export class SpreadsheetDB extends Dexie {
     await this.spreadsheetMetadata.add(metadata);
   }
 
+  async putMetadata(metadata: SpreadsheetMetadata): Promise<void> {
+    await this.spreadsheetMetadata.put(metadata);
+  }
+
   async getMetadata(id: SpreadsheetMetadataId): Promise<SpreadsheetMetadata | undefined> {
     return await this.spreadsheetMetadata.get(id);
   }
@@ -106,7 +116,7 @@ export class SpreadsheetDB extends Dexie {
 
   async updateLastAccessed(id: SpreadsheetMetadataId): Promise<void> {
     await this.spreadsheetMetadata.update(id, {
-      lastAccessedAt: Date.now()
+      lastAccessedAt: Date.now(),
     });
   }
 
@@ -121,10 +131,43 @@ export class SpreadsheetDB extends Dexie {
     await this.spreadsheetChunks.bulkAdd(chunks);
   }
 
+  async putChunks(chunks: SpreadsheetChunk[]): Promise<void> {
+    await this.spreadsheetChunks.bulkPut(chunks);
+  }
+
   async getChunks(metadataId: SpreadsheetMetadataId): Promise<SpreadsheetChunk[]> {
     return await this.spreadsheetChunks.where('metadataId').equals(metadataId).toArray();
   }
 
+  async getChunk(
+    metadataId: SpreadsheetMetadataId,
+    chunkIndex: number
+  ): Promise<SpreadsheetChunk | undefined> {
+    return await this.spreadsheetChunks.get({ metadataId, chunkIndex });
+  }
+
+  /**
+   * 行範囲 [startRow, endRow) を含むチャンクだけを行順に取得
+   */
+  async getChunksForRows(
+    metadataId: SpreadsheetMetadataId,
+    startRow: number,
+    endRow: number
+  ): Promise<SpreadsheetChunk[]> {
+    const byRowStart = () => this.spreadsheetChunks.where('[metadataId+rowStart]');
+    // startRow を含むチャンクは startRow 以前から始まる最後のチャンク
+    const first = await byRowStart()
+      .between([metadataId, Dexie.minKey], [metadataId, startRow], true, true)
+      .last();
+    const rest =
+      endRow > startRow
+        ? await byRowStart()
+            .between([metadataId, startRow], [metadataId, endRow], false, false)
+            .toArray()
+        : [];
+    return first ? [first, ...rest] : rest;
+  }
+
   async deleteChunks(metadataId: SpreadsheetMetadataId): Promise<void> {
     await this.spreadsheetChunks.where('metadataId').equals(metadataId).delete();
   }
@@ -136,6 +179,10 @@ export class SpreadsheetDB extends Dexie {
     await this.spreadsheetRefs.add(ref);
   }
 
+  async putRef(ref: SpreadsheetRefEntity): Promise<void> {
+    await this.spreadsheetRefs.put(ref);
+  }
+
   async getRef(nodeId: NodeId): Promise<SpreadsheetRefEntity | undefined> {
     return await this.spreadsheetRefs.get(nodeId);
   }
@@ -143,7 +190,7 @@ export class SpreadsheetDB extends Dexie {
   async updateRef(nodeId: NodeId, updates: Partial<SpreadsheetRefEntity>): Promise<void> {
     await this.spreadsheetRefs.update(nodeId, {
       ...updates,
-      updatedAt: Date.now()
+      updatedAt: Date.now(),
     });
   }
 
@@ -176,7 +223,10 @@ export class SpreadsheetDB extends Dexie {
         await this.deleteMetadata(metadata.id);
         await this.deleteChunks(metadata.id);
         deletedMetadata++;
-        deletedChunks += await this.spreadsheetChunks.where('metadataId').equals(metadata.id).count();
+        deletedChunks += await this.spreadsheetChunks
+          .where('metadataId')
+          .equals(metadata.id)
+          .count();
       }
     }
 
@@ -210,7 +260,7 @@ export class SpreadsheetDB extends Dexie {
       totalMetadata,
       totalChunks,
       totalRefs,
-      orphanedMetadata
+      orphanedMetadata,
     };
   }
-}
\ No newline at end of file
+}
@@ -1,25 +1,22 @@
 import Dexie, { type Table } from 'dexie';
 import type { NodeId } from '@hierarchidb/common-core';
+import type {
+  StyleMapColorRule,
+  StyleMapFeatureLayer,
+  StyleMapStyle,
+} from '@hierarchidb/common-data';
 
 // Local type definitions for StyleMapDB (plugin types not available in worker)
 export type SpreadsheetMetadataId = string & { readonly __brand: 'SpreadsheetMetadataId' };
 
-export interface ColorRule {
-  id: string;
-  condition: string;
-  operator: 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'regex' | 'range';
-  value: string | number;
-  backgroundColor?: string;
-  textColor?: string;
-  borderColor?: string;
-  enabled: boolean;
-}
-
 export interface StyleMapEntity {
   nodeId: NodeId;
   spreadsheetMetadataId: SpreadsheetMetadataId;
   keyColumn: string;
-  colorRules: ColorRule[];
+  colorRules: StyleMapColorRule[];
+  defaultStyle: StyleMapStyle;
+  featureLayer?: StyleMapFeatureLayer;
+  description?: string;
   createdAt: number;
   updatedAt: number;
   version: number;
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { NodeId, Timestamp, TreeChangeEvent, TreeNode } from '@hierarchidb/common-core';
+import { CoreDB } from '../CoreDB';
+import { ChangeEventChannel } from '../ChangeEventChannel';
+import { TreeSubscribeService } from '../../services/TreeSubscribeService';
+
+/**
+ * 同じDB名のCoreDBを2つ作り、それぞれを別タブとみなして
+ * 変更イベントがタブ間で中継されることを確認します。
+ */
+
+const waitFor = async (condition: () => boolean): Promise<void> => {
+  for (let i = 0; i < 50 && !condition(); i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+const createNode = (id: string, parentId: string): TreeNode => ({
+  id: id as NodeId,
+  parentId: parentId as NodeId,
+  nodeType: 'folder',
+  name: id,
+  createdAt: Date.now() as Timestamp,
+  updatedAt: Date.now() as Timestamp,
+  version: 1,
+});
+
+describe('ChangeEventChannel', () => {
+  let dbName: string;
+  let tabA: CoreDB;
+  let tabB: CoreDB;
+  let channelA: ChangeEventChannel;
+  let channelB: ChangeEventChannel;
+
+  beforeEach(() => {
+    dbName = `channel-test-${crypto.randomUUID()}`;
+    tabA = new CoreDB(dbName);
+    tabB = new CoreDB(dbName);
+    channelA = new ChangeEventChannel(tabA);
+    channelB = new ChangeEventChannel(tabB);
+    channelA.start();
+    channelB.start();
+  });
+
+  afterEach(async () => {
+    channelA.close();
+    channelB.close();
+    tabA.close();
+    tabB.close();
+  });
+
+  it('他タブでの作成・移動がsubscribeChildrenに通知される', async () => {
+    const subscribeService = new TreeSubscribeService(tabB);
+    const received: TreeChangeEvent[] = [];
+    subscribeService
+      .subscribeChildren({
+        kind: 'subscribeChildren',
+        payload: { parentId: 'parent' as NodeId },
+        commandId: 'cmd-1',
+        groupId: 'group-1',
+        issuedAt: Date.now() as Timestamp,
+      })
+      .subscribe((event) => received.push(event));
+
+    const node = createNode('child', 'parent');
+    await tabA.createNode(node);
+    await tabA.updateNode({ ...node, parentId: 'elsewhere' as NodeId });
+    await waitFor(() => received.length >= 2);
+
+    expect(received.map((event) => event.type)).toEqual(['node-created', 'node-updated']);
+    expect(received[1]).toMatchObject({ parentId: 'elsewhere', previousParentId: 'parent' });
+    expect(received[0]?.originId).toBe(tabA.originId);
+    await subscribeService.unsubscribeAll();
+  });
+
+  it('他タブでの削除がsubscribeChildrenに通知される', async () => {
+    const node = createNode('child', 'parent');
+    await tabA.createNode(node);
+
+    const subscribeService = new TreeSubscribeService(tabB);
+    const received: TreeChangeEvent[] = [];
+    subscribeService
+      .subscribeChildren({
+        kind: 'subscribeChildren',
+        payload: { parentId: 'parent' as NodeId },
+        commandId: 'cmd-1',
+        groupId: 'group-1',
+        issuedAt: Date.now() as Timestamp,
+      })
+      .subscribe((event) => received.push(event));
+
+    await tabA.deleteNode(node.id);
+    await waitFor(() => received.some((event) => event.type === 'node-deleted'));
+
+    const deleted = received.find((event) => event.type === 'node-deleted');
+    expect(deleted).toMatchObject({ nodeId: 'child', parentId: 'parent', originId: tabA.originId });
+    await subscribeService.unsubscribeAll();
+  });
+
+  it('同じseqのイベントは一度だけ流れ、受信側から再送されない', async () => {
+    const receivedByB: TreeChangeEvent[] = [];
+    const receivedByA: TreeChangeEvent[] = [];
+    tabB.changeSubject.subscribe((event) => receivedByB.push(event));
+    tabA.changeSubject.subscribe((event) => receivedByA.push(event));
+
+    const sender = new BroadcastChannel(`${tabB.name}-changes`);
+    const event: TreeChangeEvent = {
+      type: 'node-created',
+      nodeId: 'remote' as NodeId,
+      timestamp: Date.now() as Timestamp,
+      seq: 1,
+      originId: 'other-tab',
+    };
+    sender.postMessage(event);
+    sender.postMessage(event);
+    sender.postMessage({ ...event, seq: 2 });
+    await waitFor(() => receivedByB.length >= 2);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    sender.close();
+
+    expect(receivedByB.map((received) => received.seq)).toEqual([1, 2]);
+    // AはBからではなく送信元から直接受け取るのみ
+    expect(receivedByA.map((received) => received.seq)).toEqual([1, 2]);
+  });
+});
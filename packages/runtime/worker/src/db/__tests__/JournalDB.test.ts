@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import type { Seq, Timestamp } from '@hierarchidb/common-core';
+import { JournalDB } from '../JournalDB';
+import type { JournalEntry } from '../../command/types';
+
+/**
+ * タブごとに重複し得るseqを持つエントリが、上書きされずに発行順で保持されることを確認します。
+ */
+
+const createEntry = (seq: number, issuedAt: number): JournalEntry => ({
+  seq: seq as Seq,
+  envelope: {
+    commandId: `command-${seq}`,
+    groupId: `group-${seq}`,
+    kind: 'createNode',
+    payload: {},
+    issuedAt: issuedAt as Timestamp,
+  },
+  changes: [],
+  treeIds: [],
+  state: 'done',
+});
+
+describe('JournalDB', () => {
+  it('seqが重複するエントリも上書きせず発行順で保持する', async () => {
+    const journalDB = new JournalDB(`journal-${crypto.randomUUID()}`);
+    await journalDB.appendEntry(createEntry(2, 200));
+    await journalDB.appendEntry(createEntry(1, 100));
+    await journalDB.appendEntry(createEntry(1, 300));
+
+    const entries = await journalDB.listEntries();
+    expect(entries.map((entry) => entry.envelope.issuedAt)).toEqual([100, 200, 300]);
+    expect(await journalDB.journal.count()).toBe(3);
+    journalDB.close();
+  });
+});
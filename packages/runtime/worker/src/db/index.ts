@@ -1,2 +1,6 @@
 export * from './CoreDB'
-export * from './EphemeralDB'
\ No newline at end of file
+export * from './EphemeralDB'
+export * from './JournalDB'
+export * from './RevisionDB'
+export * from './ChangeEventChannel'
+export * from './SearchIndexDB'
\ No newline at end of file
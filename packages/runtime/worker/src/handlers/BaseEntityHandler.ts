@@ -10,7 +10,9 @@ import type {
   RelationalEntity,
   WorkingCopyProperties,
   EntityBackup,
+  EntityBackupOptions,
   NodeId,
+  RelationalEntityMatch,
 } from '@hierarchidb/common-core';
 import type Dexie from 'dexie';
 import { workerLog } from '../utils/workerLogger';
@@ -231,7 +233,7 @@ export abstract class BaseEntityHandler<
   /**
    * Create a backup of an entity
    */
-  async backup?(nodeId: NodeId): Promise<EntityBackup<PeerEntity>> {
+  async backup?(nodeId: NodeId, _options?: EntityBackupOptions): Promise<EntityBackup<PeerEntity>> {
     const entity = await this.getEntity(nodeId);
     if (!entity) {
       throw new Error(`Entity not found: ${nodeId}`);
@@ -323,6 +325,14 @@ export abstract class BaseEntityHandler<
     }
   }
 
+  /**
+   * Find a stored shared row matching an imported one (handlers with RelationalEntities override)
+   */
+  findRelationalEntity?(
+    storeName: string,
+    match: RelationalEntityMatch
+  ): Promise<Record<string, unknown> | undefined>;
+
   // ==================
   // Helper methods
   // ==================
@@ -0,0 +1,83 @@
+import type { NodeId, SmartFolderQuery } from '@hierarchidb/common-core';
+import type { SmartFolderDB, SmartFolderEntity } from '../db/SmartFolderDB';
+
+/**
+ * Worker-side entity handler for smart folders
+ * Only the saved query is persisted; the children are computed from it on demand
+ */
+export class SmartFolderWorkerHandler {
+  private smartFolderDB: SmartFolderDB;
+
+  constructor(smartFolderDB: SmartFolderDB) {
+    this.smartFolderDB = smartFolderDB;
+  }
+
+  async createEntity(nodeId: NodeId, data?: Partial<SmartFolderQuery>): Promise<SmartFolderEntity> {
+    const now = Date.now();
+    const entity: SmartFolderEntity = {
+      ...data,
+      nodeId,
+      query: data?.query ?? '',
+      createdAt: now,
+      updatedAt: now,
+      version: 1,
+    };
+
+    await this.smartFolderDB.createEntity(entity);
+    return entity;
+  }
+
+  async getEntity(nodeId: NodeId): Promise<SmartFolderEntity | undefined> {
+    return await this.smartFolderDB.getEntity(nodeId);
+  }
+
+  async updateEntity(nodeId: NodeId, data: Partial<SmartFolderQuery>): Promise<void> {
+    await this.smartFolderDB.updateEntity(nodeId, data);
+  }
+
+  async deleteEntity(nodeId: NodeId): Promise<void> {
+    await this.smartFolderDB.deleteEntity(nodeId);
+  }
+
+  // Working copy operations: the saved query is small, so a copy of the entity is enough
+  async createWorkingCopy(nodeId: NodeId): Promise<SmartFolderEntity & { isDraft: true }> {
+    const entity = await this.getEntity(nodeId);
+    if (!entity) {
+      throw new Error(`SmartFolderEntity not found: ${nodeId}`);
+    }
+    return { ...entity, isDraft: true };
+  }
+
+  async commitWorkingCopy(nodeId: NodeId, workingCopy: SmartFolderEntity): Promise<void> {
+    const { query, rootNodeId, treeId, sortBy, sortOrder, includeRemoved } = workingCopy;
+    await this.updateEntity(nodeId, {
+      query,
+      rootNodeId,
+      treeId,
+      sortBy,
+      sortOrder,
+      includeRemoved,
+    });
+  }
+
+  async discardWorkingCopy(_nodeId: NodeId): Promise<void> {
+    // No-op: working copies are not persisted
+  }
+
+  /**
+   * Copy the saved query to a duplicated node
+   */
+  async duplicate(nodeId: NodeId, newNodeId: NodeId): Promise<void> {
+    const entity = await this.getEntity(nodeId);
+    if (entity) {
+      const {
+        nodeId: _nodeId,
+        createdAt: _createdAt,
+        updatedAt: _updatedAt,
+        version: _version,
+        ...query
+      } = entity;
+      await this.createEntity(newNodeId, query);
+    }
+  }
+}
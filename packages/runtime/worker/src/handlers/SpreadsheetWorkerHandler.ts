@@ -1,4 +1,9 @@
-import type { NodeId } from '@hierarchidb/common-core';
+import type {
+  EntityBackup,
+  NodeId,
+  PeerEntity,
+  RelationalEntityMatch,
+} from '@hierarchidb/common-core';
 import { BaseReferenceCountingHandler } from './ReferenceCountingHandler';
 import { SpreadsheetDB, type SpreadsheetMetadata, type SpreadsheetMetadataId, type SpreadsheetRefEntity, type SpreadsheetChunk } from '../db/SpreadsheetDB';
 
@@ -50,6 +55,80 @@ export class SpreadsheetWorkerHandler extends BaseReferenceCountingHandler {
     return await this.getPeerEntity(nodeId);
   }
 
+  /**
+   * Back up the ref together with the shared metadata and chunks it points to
+   */
+  async backup(nodeId: NodeId): Promise<EntityBackup> {
+    const ref = await this.getPeerEntity(nodeId);
+    if (!ref) {
+      throw new Error(`SpreadsheetRefEntity not found for backup: ${nodeId}`);
+    }
+
+    const metadata = await this.spreadsheetDB.getMetadata(ref.metadataId);
+    const chunks = metadata ? await this.spreadsheetDB.getChunks(ref.metadataId) : [];
+
+    return {
+      entity: ref as unknown as PeerEntity,
+      relationalEntities: {
+        spreadsheetMetadata: metadata ? [metadata] : [],
+        spreadsheetChunks: chunks,
+      },
+      metadata: {
+        backupDate: Date.now(),
+        version: '1.0.0',
+        nodeType: 'spreadsheet',
+      },
+    };
+  }
+
+  /**
+   * Restore a ref and any shared metadata/chunks included in the backup.
+   * Chunks replace the stored chunks of their metadata.
+   */
+  async restore(nodeId: NodeId, backup: EntityBackup): Promise<void> {
+    const { spreadsheetMetadata = [], spreadsheetChunks = [] } = (backup.relationalEntities ??
+      {}) as {
+      spreadsheetMetadata?: SpreadsheetMetadata[];
+      spreadsheetChunks?: SpreadsheetChunk[];
+    };
+
+    for (const metadata of spreadsheetMetadata) {
+      await this.spreadsheetDB.putMetadata(metadata);
+    }
+    for (const metadataId of new Set(spreadsheetChunks.map((chunk) => chunk.metadataId))) {
+      await this.spreadsheetDB.deleteChunks(metadataId);
+    }
+    if (spreadsheetChunks.length > 0) {
+      await this.spreadsheetDB.putChunks(spreadsheetChunks);
+    }
+
+    await this.spreadsheetDB.putRef({
+      ...(backup.entity as unknown as SpreadsheetRefEntity),
+      nodeId,
+    });
+  }
+
+  /**
+   * Find stored metadata with the same content, or else the same ID
+   */
+  async findRelationalEntity(
+    storeName: string,
+    match: RelationalEntityMatch
+  ): Promise<Record<string, unknown> | undefined> {
+    if (storeName !== 'spreadsheetMetadata') {
+      return undefined;
+    }
+    const byContent = match.contentHash
+      ? await this.spreadsheetDB.findMetadataByContentHash(match.contentHash)
+      : undefined;
+    const metadata =
+      byContent ??
+      (match.id
+        ? await this.spreadsheetDB.getMetadata(match.id as SpreadsheetMetadataId)
+        : undefined);
+    return metadata as unknown as Record<string, unknown> | undefined;
+  }
+
   // Additional Worker-specific methods
   
   /**
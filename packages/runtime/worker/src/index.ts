@@ -48,3 +48,4 @@ export type {
   LifecycleConfig,
   PluginContext,
 } from '~/plugin/PluginLoader';
+export { registerWorkerPluginModule } from '~/plugins/WorkerPluginModules';
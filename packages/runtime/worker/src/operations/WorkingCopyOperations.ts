@@ -1,4 +1,12 @@
-import type { Timestamp, TreeNode, NodeId, NodeType, WorkingCopy } from '@hierarchidb/common-core';
+import type {
+  CommitConflict,
+  ErrorCode,
+  Timestamp,
+  TreeNode,
+  NodeId,
+  NodeType,
+  WorkingCopy,
+} from '@hierarchidb/common-core';
 import { generateNodeId } from '@hierarchidb/common-core';
 import type { CommandResult } from '../command/types';
 import { WorkerErrorCode } from '../command/types';
@@ -106,7 +114,8 @@ export async function commitWorkingCopy(
   coreDB: CoreDB,
   workingCopyNodeId: NodeId,
   isDraft: boolean,
-  onNameConflict: 'error' | 'auto-rename' = 'error'
+  onNameConflict: 'error' | 'auto-rename' = 'error',
+  expectedUpdatedAt?: Timestamp
 ): Promise<CommandResult> {
   const workingCopy = await getWorkingCopy(ephemeralDB, workingCopyNodeId);
 
@@ -176,12 +185,13 @@ export async function commitWorkingCopy(
       }
 
       // Check for version conflict (optimistic locking)
-      const originalVersion = (workingCopy as any).originalVersion || 1;
-      if (currentNode.version > originalVersion) {
+      const stale = detectCommitConflict(workingCopy, currentNode, expectedUpdatedAt);
+      if (stale) {
         return {
           success: false,
           error: 'Node was modified by another user',
-          code: WorkerErrorCode.COMMIT_CONFLICT,
+          code: stale.code,
+          conflict: stale.conflict,
         };
       }
 
@@ -306,6 +316,63 @@ export async function checkWorkingCopyConflict(
   return currentNode.version > originalVersion;
 }
 
+// WorkingCopyProperties, which are not part of the stored TreeNode
+const WORKING_COPY_FIELDS = new Set([
+  'copiedAt',
+  'originalNodeId',
+  'originalVersion',
+  'hasEntityCopy',
+  'entityWorkingCopyId',
+  'hasGroupEntityCopy',
+  'workingCopyId',
+]);
+
+// Fields owned by the database, never offered for merging
+const BOOKKEEPING_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'version']);
+
+/**
+ * Strip working copy bookkeeping so the result can be stored as a TreeNode
+ */
+export function toTreeNode(workingCopy: WorkingCopy): TreeNode {
+  return Object.fromEntries(
+    Object.entries(workingCopy).filter(([key]) => !WORKING_COPY_FIELDS.has(key))
+  ) as TreeNode;
+}
+
+/**
+ * Detect an optimistic concurrency conflict between a working copy and the stored node.
+ * COMMIT_CONFLICT: the node's version moved past the version the working copy was taken from.
+ * STALE_VERSION: the node's updatedAt no longer matches the one the caller last saw.
+ */
+export function detectCommitConflict(
+  workingCopy: WorkingCopy,
+  currentNode: TreeNode,
+  expectedUpdatedAt?: Timestamp
+):
+  | { code: Extract<ErrorCode, 'COMMIT_CONFLICT' | 'STALE_VERSION'>; conflict: CommitConflict }
+  | undefined {
+  let code: Extract<ErrorCode, 'COMMIT_CONFLICT' | 'STALE_VERSION'>;
+  if (currentNode.version > (workingCopy.originalVersion || 1)) {
+    code = WorkerErrorCode.COMMIT_CONFLICT;
+  } else if (expectedUpdatedAt !== undefined && currentNode.updatedAt !== expectedUpdatedAt) {
+    code = WorkerErrorCode.STALE_VERSION;
+  } else {
+    return undefined;
+  }
+
+  const mine = toTreeNode(workingCopy);
+  const mineRecord: Record<string, unknown> = { ...mine };
+  const theirsRecord: Record<string, unknown> = { ...currentNode };
+  const fields = [...new Set([...Object.keys(mineRecord), ...Object.keys(theirsRecord)])].filter(
+    (key) =>
+      !BOOKKEEPING_FIELDS.has(key) &&
+      !WORKING_COPY_FIELDS.has(key) &&
+      JSON.stringify(mineRecord[key]) !== JSON.stringify(theirsRecord[key])
+  );
+
+  return { code, conflict: { nodeId: currentNode.id, mine, theirs: currentNode, fields } };
+}
+
 /**
  * Get names of all children of a parent node
  * 🟢 Utility function from eria-cartograph
@@ -4,6 +4,8 @@ export {
   createNewDraftWorkingCopy,
   createNewName,
   createWorkingCopyFromNode,
+  detectCommitConflict,
+  toTreeNode,
   discardWorkingCopy,
   getChildNames,
   getWorkingCopy,
@@ -3,6 +3,7 @@ import type { EphemeralDB } from '../db/EphemeralDB';
 import { UnifiedNodeTypeRegistry, IUnifiedNodeTypeRegistry } from '../registry/UnifiedNodeTypeRegistry';
 import { registerSpreadsheetPlugin } from './SpreadsheetPlugin';
 import { registerStyleMapPlugin } from './StyleMapPlugin';
+import { registerSmartFolderPlugin } from './SmartFolderPlugin';
 import { workerLog, workerError } from '../utils/workerLogger';
 
 /**
@@ -60,6 +61,10 @@ export class PluginManager {
       // Register StyleMap plugin (depends on Spreadsheet)
       workerLog('Registering StyleMap plugin...');
       registerStyleMapPlugin(this.registry);
+
+      // Register SmartFolder plugin (queries CoreDB for its children)
+      workerLog('Registering SmartFolder plugin...');
+      registerSmartFolderPlugin(this.registry, this.coreDB);
       
       workerLog('Core plugins registered successfully');
       
@@ -0,0 +1,115 @@
+import {
+  SMART_FOLDER_NODE_TYPE,
+  type NodeId,
+  type SmartFolderQuery,
+  type TreeId,
+} from '@hierarchidb/common-core';
+import type { CoreDB } from '../db/CoreDB';
+import { SmartFolderDB } from '../db/SmartFolderDB';
+import { SmartFolderWorkerHandler } from '../handlers/SmartFolderWorkerHandler';
+import type { PluginDefinition } from '../registry/plugin';
+import { TreeQueryService } from '../services/TreeQueryService';
+import { parseNodeQuery } from '../utils/nodeQuery';
+
+/**
+ * SmartFolder Plugin Definition for Worker
+ * A saved query whose children are the live query results (read-only references to real nodes)
+ */
+export function createSmartFolderPlugin(coreDB: CoreDB): PluginDefinition {
+  const smartFolderDB = new SmartFolderDB();
+  const handler = new SmartFolderWorkerHandler(smartFolderDB);
+  const queryService = new TreeQueryService(coreDB);
+
+  return {
+    nodeType: SMART_FOLDER_NODE_TYPE,
+    name: 'SmartFolder',
+    displayName: 'スマートフォルダ',
+    category: {
+      treeId: '*' as TreeId | '*',
+      menuGroup: 'basic' as const,
+    },
+
+    meta: {
+      id: 'com.hierarchidb.smartfolder',
+      name: 'SmartFolder',
+      nodeType: SMART_FOLDER_NODE_TYPE,
+      version: '1.0.0',
+      author: 'HierarchiDB Team',
+      status: 'active' as const,
+      tags: ['search', 'query', 'folder'],
+      capabilities: {
+        supportsCreate: true,
+        supportsUpdate: true,
+        supportsDelete: true,
+        // 子はクエリ結果から算出され、実ノードとしては持たない
+        supportsChildren: false,
+        supportedOperations: ['create', 'read', 'update', 'delete'],
+      },
+    },
+
+    database: {
+      dbName: 'hierarchidb-smartfolder',
+      tableName: 'smartFolders',
+      schema: '&nodeId, updatedAt',
+      version: 1,
+    },
+
+    entityHandler: handler as any,
+
+    search: {
+      fields: ['query'],
+    },
+
+    // SmartFolder-specific API methods
+    routing: {
+      actions: {
+        // 保存されたクエリを更新
+        'update-query': {
+          action: async (...args: unknown[]) => {
+            const [nodeId, updates] = args as [NodeId, Partial<SmartFolderQuery>];
+            await handler.updateEntity(nodeId, updates);
+            return await handler.getEntity(nodeId);
+          },
+        },
+
+        // 現在のクエリ結果（仮想的な子ノード）を取得
+        'get-children': {
+          action: async (...args: unknown[]) => {
+            const [nodeId, page] = args as [NodeId, { offset?: number; limit?: number }?];
+            return await queryService.listSmartFolderChildren(nodeId, page);
+          },
+        },
+      },
+    },
+
+    ui: {
+      iconComponentPath: 'smartfolder',
+    },
+
+    validation: {
+      allowedChildTypes: [], // 実ノードを子として持たない
+      maxChildren: 0,
+      customValidators: [
+        {
+          name: 'valid-query',
+          validate: async (entity: any) => {
+            const parsed = parseNodeQuery((entity as SmartFolderQuery).query ?? '');
+            if ('error' in parsed) {
+              return { valid: false, message: `クエリが正しくありません: ${parsed.error}` };
+            }
+            return { valid: true };
+          },
+        },
+      ],
+    },
+  };
+}
+
+/**
+ * Register SmartFolder plugin with the registry
+ */
+export function registerSmartFolderPlugin(registry: any, coreDB: CoreDB): void {
+  const plugin = createSmartFolderPlugin(coreDB);
+  registry.registerPlugin(plugin);
+  console.log('SmartFolder plugin registered');
+}
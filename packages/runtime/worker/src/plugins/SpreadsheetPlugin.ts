@@ -8,13 +8,15 @@ import {
 } from '../db/SpreadsheetDB';
 import { SpreadsheetWorkerHandler } from '../handlers/SpreadsheetWorkerHandler';
 import type { PluginDefinition } from '../registry/plugin';
-
-// Local type definitions for plugin-specific types
-type SpreadsheetImportOptions = {
-  hasHeader?: boolean;
-  delimiter?: string;
-  encoding?: string;
-};
+import {
+  SpreadsheetDataService,
+  type SpreadsheetImportOptions,
+  type SpreadsheetRowRange,
+} from '../services/SpreadsheetDataService';
+import {
+  SpreadsheetQueryService,
+  type SpreadsheetQuery,
+} from '../services/SpreadsheetQueryService';
 
 /**
  * Spreadsheet Plugin Definition for Worker
@@ -23,6 +25,8 @@ type SpreadsheetImportOptions = {
 export function createSpreadsheetPlugin(): PluginDefinition {
   const spreadsheetDB = new SpreadsheetDB();
   const handler = new SpreadsheetWorkerHandler(spreadsheetDB);
+  const dataService = new SpreadsheetDataService(spreadsheetDB);
+  const queryService = new SpreadsheetQueryService(spreadsheetDB);
 
   return {
     nodeType: 'spreadsheet' as NodeType,
@@ -125,54 +129,54 @@ export function createSpreadsheetPlugin(): PluginDefinition {
       actions: {
         // ファイルからインポート
         'import-file': {
-          action: async () => {
-            const [nodeId, file, options] = arguments as unknown as [
-              NodeId,
-              File,
-              SpreadsheetImportOptions?,
-            ];
-            // TODO: Implement file import logic
-            // 1. FileLoaderでファイルを解析
-            // 2. SpreadsheetMetadataを作成
-            // 3. チャンク化してSpreadsheetChunksに保存
-            // 4. SpreadsheetRefEntityを作成
-            throw new Error('File import not yet implemented');
+          action: async (...args: unknown[]) => {
+            const [nodeId, file, options] = args as [NodeId, File, SpreadsheetImportOptions?];
+            return await dataService.importTable(nodeId, new Uint8Array(await file.arrayBuffer()), {
+              ...options,
+              sourceName: file.name,
+              mimeType: file.type,
+            });
           },
         },
 
         // URLからインポート
         'import-url': {
-          action: async () => {
-            const [nodeId, url, options] = arguments as unknown as [
-              NodeId,
-              string,
-              SpreadsheetImportOptions?,
-            ];
-            // TODO: Implement URL import logic
-            throw new Error('URL import not yet implemented');
+          action: async (...args: unknown[]) => {
+            const [nodeId, url, options] = args as [NodeId, string, SpreadsheetImportOptions?];
+            const response = await fetch(url);
+            if (!response.ok) {
+              throw new Error(`Failed to fetch ${url}: ${response.status} ${response.statusText}`);
+            }
+            const path = new URL(url).pathname;
+            return await dataService.importTable(
+              nodeId,
+              new Uint8Array(await response.arrayBuffer()),
+              {
+                ...options,
+                sourceName: decodeURIComponent(path.slice(path.lastIndexOf('/') + 1)) || url,
+                mimeType: response.headers.get('content-type') ?? undefined,
+              }
+            );
           },
         },
 
         // クリップボードからインポート
+        // 表計算ソフトからのコピーはTSVになる（形式は内容から判定）
         'import-clipboard': {
-          action: async () => {
-            const [nodeId, text, options] = arguments as unknown as [
-              NodeId,
-              string,
-              SpreadsheetImportOptions?,
-            ];
-            // TODO: Implement clipboard import logic
-            throw new Error('Clipboard import not yet implemented');
+          action: async (...args: unknown[]) => {
+            const [nodeId, text, options] = args as [NodeId, string, SpreadsheetImportOptions?];
+            return await dataService.importTable(nodeId, new TextEncoder().encode(text), {
+              name: 'Clipboard',
+              ...options,
+              encoding: 'utf-8',
+            });
           },
         },
 
         // データ取得
         'get-data': {
-          action: async () => {
-            const [nodeId, options] = arguments as unknown as [
-              NodeId,
-              { startRow?: number; endRow?: number }?,
-            ];
+          action: async (...args: unknown[]) => {
+            const [nodeId] = args as [NodeId];
             const ref = await handler.getSpreadsheetRef(nodeId);
             if (!ref) {
               throw new Error(`Spreadsheet not found for node ${nodeId}`);
@@ -189,25 +193,26 @@ export function createSpreadsheetPlugin(): PluginDefinition {
         },
 
         // 行データ取得
+        // 行データ取得（範囲に重なるチャンクだけを展開）
         'get-rows': {
-          action: async () => {
-            const [nodeId, options] = arguments as unknown as [
-              NodeId,
-              {
-                startRow?: number;
-                endRow?: number;
-                columns?: string[];
-              }?,
-            ];
-            // TODO: Implement row extraction with filtering
-            throw new Error('Row extraction not yet implemented');
+          action: async (...args: unknown[]) => {
+            const [nodeId, range] = args as [NodeId, SpreadsheetRowRange?];
+            return await dataService.getRows(nodeId, range);
+          },
+        },
+
+        // 絞り込み・射影・集計・並べ替え（チャンクを1つずつ展開して評価）
+        query: {
+          action: async (...args: unknown[]) => {
+            const [nodeId, query] = args as [NodeId, SpreadsheetQuery?];
+            return await queryService.query(nodeId, query);
           },
         },
 
         // 統計情報取得
         'get-stats': {
-          action: async () => {
-            const [nodeId] = arguments as unknown as [NodeId];
+          action: async (...args: unknown[]) => {
+            const [nodeId] = args as [NodeId];
             const ref = await handler.getSpreadsheetRef(nodeId);
             if (!ref) {
               throw new Error(`Spreadsheet not found for node ${nodeId}`);
@@ -232,6 +237,15 @@ export function createSpreadsheetPlugin(): PluginDefinition {
       panelComponentPath: 'SpreadsheetPanel',
     },
 
+    // 列見出しを全文検索の対象にする（メタデータは参照エンティティの先にある）
+    search: {
+      fields: ['columns'],
+      getSearchDocument: async (nodeId: NodeId) => {
+        const ref = await handler.getSpreadsheetRef(nodeId);
+        return ref ? await handler.getSpreadsheetMetadata(ref.metadataId) : undefined;
+      },
+    },
+
     validation: {
       allowedChildTypes: [], // スプレッドシートは子ノードを持たない
       maxChildren: 0,
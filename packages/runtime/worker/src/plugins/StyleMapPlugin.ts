@@ -1,25 +1,15 @@
 import type { NodeId, NodeType, TreeId } from '@hierarchidb/common-core';
+import {
+  createChoroplethLayer,
+  type StyleMapColorRule,
+  type StyleMapFeatureLayer,
+  type StyleMapStyle,
+} from '@hierarchidb/common-data';
 import { StyleMapDB, type StyleMapEntity, type SpreadsheetMetadataId } from '../db/StyleMapDB';
+import { SpreadsheetDB } from '../db/SpreadsheetDB';
 import { StyleMapWorkerHandler } from '../handlers/StyleMapWorkerHandler';
 import type { PluginDefinition } from '../registry/plugin';
-
-// Local type definitions for plugin-specific types
-type StyleMapColorRule = {
-  id: string;
-  condition: string;
-  operator: 'equals' | 'contains' | 'startsWith' | 'endsWith' | 'regex' | 'range';
-  value: string | number;
-  backgroundColor?: string;
-  textColor?: string;
-  borderColor?: string;
-  enabled: boolean;
-};
-
-type StyleMapStyle = {
-  backgroundColor?: string;
-  textColor?: string;
-  borderColor?: string;
-};
+import { SpreadsheetDataService } from '../services/SpreadsheetDataService';
 
 /**
  * StyleMap Plugin Definition for Worker
@@ -28,6 +18,7 @@ type StyleMapStyle = {
 export function createStyleMapPlugin(): PluginDefinition {
   const styleMapDB = new StyleMapDB();
   const handler = new StyleMapWorkerHandler(styleMapDB);
+  const spreadsheetData = new SpreadsheetDataService(new SpreadsheetDB());
 
   return {
     nodeType: 'stylemap' as NodeType,
@@ -138,6 +129,7 @@ export function createStyleMapPlugin(): PluginDefinition {
                 keyColumn: string;
                 colorRules: StyleMapColorRule[];
                 defaultStyle: StyleMapStyle;
+                featureLayer?: StyleMapFeatureLayer;
                 description?: string;
               },
             ];
@@ -146,6 +138,8 @@ export function createStyleMapPlugin(): PluginDefinition {
               spreadsheetMetadataId,
               keyColumn: config.keyColumn,
               colorRules: config.colorRules,
+              defaultStyle: config.defaultStyle,
+              featureLayer: config.featureLayer,
               createdAt: Date.now(),
               updatedAt: Date.now(),
               version: 1,
@@ -165,6 +159,7 @@ export function createStyleMapPlugin(): PluginDefinition {
                 keyColumn?: string;
                 colorRules?: StyleMapColorRule[];
                 defaultStyle?: StyleMapStyle;
+                featureLayer?: StyleMapFeatureLayer;
                 description?: string;
               },
             ];
@@ -219,6 +214,25 @@ export function createStyleMapPlugin(): PluginDefinition {
           },
         },
 
+        // 紐付けたShapeノードの地物へ行を結合し、コロプレスの塗り・凡例を生成
+        'get-choropleth': {
+          action: async (...args: unknown[]) => {
+            const [nodeId] = args as [NodeId];
+            const styleMap = await handler.getStyleMapEntity(nodeId);
+            if (!styleMap) {
+              throw new Error(`StyleMap not found for node ${nodeId}`);
+            }
+
+            const { columns, rows } = await spreadsheetData.getMetadataRows(
+              styleMap.spreadsheetMetadataId
+            );
+            const records = rows.map((row) =>
+              Object.fromEntries(columns.map((column, index) => [column, row[index]]))
+            );
+            return createChoroplethLayer(styleMap, records);
+          },
+        },
+
         // 統計情報取得
         'get-style-stats': {
           action: async () => {
@@ -231,7 +245,7 @@ export function createStyleMapPlugin(): PluginDefinition {
             return {
               totalRules: styleMap.colorRules.length,
               keyColumn: styleMap.keyColumn,
-              hasDefaultStyle: false, // defaultStyle not in StyleMapEntity
+              hasDefaultStyle: Boolean(styleMap.defaultStyle),
               lastUpdated: styleMap.updatedAt,
             };
           },
@@ -0,0 +1,70 @@
+import type { WorkerPluginHost, WorkerPluginModule } from '@hierarchidb/common-api';
+import { workerError, workerLog } from '../utils/workerLogger';
+
+type StopFunction = () => void | Promise<void>;
+
+const modules: WorkerPluginModule[] = [];
+// 開始済みのワーカーごとに、各モジュールの停止関数を保持する
+const hosts = new Map<WorkerPluginHost, StopFunction[]>();
+
+/**
+ * ワーカーで動かすプラグインモジュールを登録する
+ * アプリケーションのワーカーエントリから、ランタイムのワーカーを読み込む前に呼び出す。
+ * すでに初期化済みのワーカーがあれば、そのワーカーでも直ちに開始する
+ */
+export function registerWorkerPluginModule(module: WorkerPluginModule): void {
+  if (modules.includes(module)) {
+    return;
+  }
+  modules.push(module);
+  hosts.forEach((stops, host) => void startModule(module, host, stops));
+}
+
+/**
+ * 登録済みのモジュールをすべて開始する
+ * 開始に失敗したモジュールはログに残し、ワーカーの初期化は続行する
+ */
+export async function startWorkerPluginModules(host: WorkerPluginHost): Promise<void> {
+  if (hosts.has(host)) {
+    return;
+  }
+  const stops: StopFunction[] = [];
+  hosts.set(host, stops);
+  await Promise.all(modules.map((module) => startModule(module, host, stops)));
+}
+
+/**
+ * ワーカーで開始したモジュールをすべて停止する
+ */
+export async function stopWorkerPluginModules(host: WorkerPluginHost): Promise<void> {
+  const stops = hosts.get(host);
+  if (!stops) {
+    return;
+  }
+  hosts.delete(host);
+  await Promise.all(
+    stops.map(async (stop) => {
+      try {
+        await stop();
+      } catch (error) {
+        workerError('Failed to stop worker plugin module', {}, error);
+      }
+    })
+  );
+}
+
+async function startModule(
+  module: WorkerPluginModule,
+  host: WorkerPluginHost,
+  stops: StopFunction[]
+): Promise<void> {
+  try {
+    const stop = await module.start(host);
+    if (stop) {
+      stops.push(stop);
+    }
+    workerLog('Worker plugin module started: {{name}}', { name: module.name });
+  } catch (error) {
+    workerError('Failed to start worker plugin module: {{name}}', { name: module.name }, error);
+  }
+}
@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import type { NodeId } from '@hierarchidb/common-core';
+import { SpreadsheetDB } from '../../db/SpreadsheetDB';
+import { StyleMapDB, type SpreadsheetMetadataId } from '../../db/StyleMapDB';
+import { SpreadsheetDataService } from '../../services/SpreadsheetDataService';
+import { createStyleMapPlugin } from '../StyleMapPlugin';
+
+/**
+ * StyleMapプラグインのコロプレス生成アクションのテスト
+ * 参照するスプレッドシートの行をShapeの地物キーへ結合し、塗りと凡例を返すことを確認します。
+ */
+
+const CSV = ['code,population', '13,13960000', '27,8800000', '47,1460000'].join('\n');
+
+describe('StyleMapPlugin', () => {
+  afterEach(async () => {
+    await new StyleMapDB().delete();
+    await new SpreadsheetDB().delete();
+  });
+
+  it('get-choropleth は参照するスプレッドシートの行からレイヤーと凡例を生成する', async () => {
+    const metadata = await new SpreadsheetDataService(new SpreadsheetDB()).importTable(
+      'sheet' as NodeId,
+      new TextEncoder().encode(CSV),
+      { sourceName: 'prefectures.csv' }
+    );
+
+    const plugin = createStyleMapPlugin();
+    await (plugin.entityHandler as any).createStyleMapEntity({
+      nodeId: 'map' as NodeId,
+      spreadsheetMetadataId: metadata.id as unknown as SpreadsheetMetadataId,
+      keyColumn: 'code',
+      colorRules: [
+        {
+          column: 'population',
+          operator: 'greaterThan',
+          value: 5000000,
+          style: { backgroundColor: '#b30000' },
+          label: 'Over 5M',
+        },
+      ],
+      defaultStyle: { backgroundColor: '#fee8c8' },
+      featureLayer: { shapeNodeId: 'shape' as NodeId, featureKeyProperty: 'pref_code' },
+      createdAt: Date.now(),
+      updatedAt: Date.now(),
+      version: 1,
+    });
+
+    const action = plugin.routing.actions!['get-choropleth']!;
+    const layer = await (action as { action: (...args: unknown[]) => Promise<any> }).action(
+      'map' as NodeId
+    );
+
+    expect(layer).toMatchObject({
+      shapeNodeId: 'shape',
+      sourceLayer: 'boundaries',
+      layerType: 'fill',
+      paint: {
+        'fill-color': [
+          'match',
+          ['to-string', ['get', 'pref_code']],
+          ['13', '27'],
+          '#b30000',
+          '#fee8c8',
+        ],
+      },
+      join: { matchedRows: 2, unmatchedRows: 1 },
+    });
+    expect(
+      layer.legend.map((item: { label: string; count: number }) => [item.label, item.count])
+    ).toEqual([
+      ['Over 5M', 2],
+      ['Other', 1],
+    ]);
+  });
+});
@@ -5,7 +5,7 @@
  * References: docs/7-aop-architecture.md, ../eria-cartograph/app0/src/shared/services/ResourceDefinitionRegistry.ts
  */
 
-import type { IPluginRegistry, NodeType } from '@hierarchidb/common-core';
+import type { EntityMigration, IPluginRegistry, NodeType } from '@hierarchidb/common-core';
 import { workerLog, workerWarn } from '../utils/workerLogger';
 import type { NodeTypeConfig } from './types';
 import type {
@@ -43,6 +43,10 @@ export interface INodeRegistry extends IPluginRegistry {
   ): WorkerPluginRouterAction | ((...args: any[]) => Promise<any>) | undefined;
   getAvailableActions(nodeType: NodeType): string[];
 
+  // Export bundle migrations
+  registerMigration(nodeType: NodeType, migration: EntityMigration): void;
+  getMigrationPath(nodeType: NodeType, fromVersion: number, toVersion: number): EntityMigration[];
+
   // Plugin search
   findPluginsByTag(tag: string): PluginDefinition[];
   getPluginDependencies(nodeType: NodeType): string[];
@@ -64,6 +68,7 @@ export class NodeRegistry implements INodeRegistry {
     NodeType,
     Map<string, WorkerPluginRouterAction | ((...args: any[]) => Promise<any>)>
   > = new Map();
+  private migrations: Map<NodeType, EntityMigration[]> = new Map();
   // private nodeTypeConfigs: Map<TreeNodeType, NodeTypeConfig> = new Map();
 
   /**
@@ -136,6 +141,11 @@ export class NodeRegistry implements INodeRegistry {
       this.routingActions.set(nodeType, actions);
     }
 
+    // Register export bundle migrations
+    for (const migration of definition.migrations ?? []) {
+      this.registerMigration(nodeType, migration);
+    }
+
     // Store definition in pluginDefinitions map
     // (No base registry to store in since we don't extend BaseNodeTypeRegistry)
 
@@ -145,6 +155,46 @@ export class NodeRegistry implements INodeRegistry {
     }
   }
 
+  /**
+   * Register a migration that upgrades exported entities of a node type by one schema step
+   */
+  registerMigration(nodeType: NodeType, migration: EntityMigration): void {
+    if (migration.toVersion <= migration.fromVersion) {
+      throw new Error(
+        `Invalid migration for ${nodeType}: ${migration.fromVersion} -> ${migration.toVersion}`
+      );
+    }
+    const migrations = this.migrations.get(nodeType) ?? [];
+    if (migrations.some((existing) => existing.fromVersion === migration.fromVersion)) {
+      throw new Error(
+        `Migration from version ${migration.fromVersion} is already registered for ${nodeType}`
+      );
+    }
+    this.migrations.set(
+      nodeType,
+      [...migrations, migration].sort((a, b) => a.fromVersion - b.fromVersion)
+    );
+  }
+
+  /**
+   * Get the chain of migrations from one schema version to another
+   * Throws when a step is missing
+   */
+  getMigrationPath(nodeType: NodeType, fromVersion: number, toVersion: number): EntityMigration[] {
+    const migrations = this.migrations.get(nodeType) ?? [];
+    const path: EntityMigration[] = [];
+    let version = fromVersion;
+    while (version < toVersion) {
+      const step = migrations.find((migration) => migration.fromVersion === version);
+      if (!step || step.toVersion > toVersion) {
+        throw new Error(`No migration for ${nodeType} from schema version ${version}`);
+      }
+      path.push(step);
+      version = step.toVersion;
+    }
+    return path;
+  }
+
   /**
    * Generic register method
    */
@@ -328,6 +378,7 @@ export class NodeRegistry implements INodeRegistry {
     this.pluginDefinitions.clear();
     this.entityHandlers.clear();
     this.routingActions.clear();
+    this.migrations.clear();
   }
 
   /**
@@ -354,6 +405,7 @@ export class NodeRegistry implements INodeRegistry {
     this.pluginDefinitions.delete(nodeType);
     this.entityHandlers.delete(nodeType);
     this.routingActions.delete(nodeType);
+    this.migrations.delete(nodeType);
   }
 
   /**
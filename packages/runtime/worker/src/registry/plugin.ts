@@ -21,6 +21,9 @@ import type {
   CoreNodeDefinition,
   PluginRoutingConfig,
   PluginMetadata,
+  PluginSearchConfig,
+  NodeId,
+  EntityMigration,
 } from '@hierarchidb/common-core';
 
 // Re-export core types for consistency
@@ -76,6 +79,14 @@ export interface NodeDefinition<
 
   // Validation configuration (use core type)
   readonly validation?: PluginValidationConfig;
+
+  // Full-text search fields; getSearchDocument loads them when they live outside the entity
+  readonly search?: PluginSearchConfig & {
+    getSearchDocument?: (nodeId: NodeId) => Promise<object | null | undefined>;
+  };
+
+  // Upgrades for entities exported with an older database.version
+  readonly migrations?: EntityMigration[];
 }
 
 // Unified plugin definition (extends NodeDefinition with routing and metadata)
@@ -3,18 +3,40 @@
  * @module worker/services/ExportService
  */
 
-import type {
-  ExportManifest,
-  ExportOptions,
-  ExportProgress,
-  ExportResult,
-  TreeNodeExportData,
-  TreeNode,
-  NodeId,
+import {
+  EXPORT_ARCHIVE_PATHS,
+  EXPORT_FORMAT_VERSION,
+  type EntityBackup,
+  type EntityExportData,
+  type EntityStoreLayout,
+  type ExportManifest,
+  type ExportOptions,
+  type ExportPackage,
+  type ExportProgress,
+  type ExportResult,
+  type TreeNodeExportData,
+  type TreeNode,
+  type TreeViewState,
+  type NodeId,
+  type TreeId,
+  type VectorTileExportData,
 } from '@hierarchidb/common-core';
 import { CoreDB } from '../db/CoreDB';
+import type { EphemeralDB } from '../db/EphemeralDB';
+import { NodeRegistry } from '../registry/NodeRegistry';
+import type { EntityHandler } from '../registry/plugin';
+import { stringifyArchiveJson } from '../utils/archiveJson';
+import { createZipArchive, type ZipEntry } from '../utils/zipArchive';
 import { TreeQueryService } from './TreeQueryService';
 
+/**
+ * エクスポートの収集結果（収集中の非致命的なエラーを含む）
+ */
+interface CollectedExport {
+  exportPackage: ExportPackage;
+  errors: string[];
+}
+
 /**
  * エクスポートサービス
  * ツリーノードをJSON/ZIP形式でエクスポート
@@ -22,39 +44,19 @@ import { TreeQueryService } from './TreeQueryService';
 export class ExportService {
   constructor(
     private coreDB: CoreDB,
-    private queryService: TreeQueryService
+    private queryService: TreeQueryService,
+    private ephemeralDB?: EphemeralDB
   ) {}
 
   /**
    * ツリーノードをJSONとしてエクスポート
+   * バイナリ列（タイル・チャンク）はBase64のタグ付きオブジェクトとして埋め込む
    */
   async exportToJSON(options: ExportOptions): Promise<ExportResult> {
-    const { nodeIds, progressCallback } = options;
+    const { progressCallback } = options;
 
     try {
-      // 進捗通知: ノード収集開始
-      progressCallback?.({
-        phase: 'collecting-nodes',
-        current: 0,
-        total: nodeIds.length,
-        message: 'Collecting nodes for export',
-      });
-
-      // エクスポートするノードとその子孫を収集
-      const exportData = await this.collectNodes(nodeIds, progressCallback);
-
-      // マニフェストの作成
-      const manifest: ExportManifest = {
-        version: '1.0',
-        name: 'HierarchiDB Export',
-        description: `Exported ${exportData.nodeIds.length} nodes`,
-        exportDate: new Date().toISOString(),
-        exportedBy: 'HierarchiDB',
-        appVersion: '1.0.0',
-        nodeCount: exportData.nodeIds.length,
-        resourceTypes: this.countResourceTypes(exportData.nodes),
-        rootNodes: nodeIds,
-      };
+      const { exportPackage, errors } = await this.collectExport(options, 'json');
 
       // 進捗通知: アーカイブ作成
       progressCallback?.({
@@ -64,47 +66,334 @@ export class ExportService {
         message: 'Creating export file',
       });
 
-      // JSONデータの作成
-      const exportPackage = {
-        manifest,
-        ...exportData,
-      };
-
       // Blobの作成
-      const jsonString = JSON.stringify(exportPackage, null, 2);
+      const jsonString = stringifyArchiveJson(exportPackage, 2);
       const blob = new Blob([jsonString], { type: 'application/json' });
 
-      // 進捗通知: 完了
-      progressCallback?.({
-        phase: 'finalizing',
-        current: 1,
-        total: 1,
-        message: 'Export completed successfully',
-      });
+      this.notifyCompleted(progressCallback);
 
       return {
         success: true,
         blob,
-        exportedNodeCount: exportData.nodeIds.length,
-        errors: [],
+        exportedNodeCount: exportPackage.nodeIds.length,
+        errors,
       };
     } catch (error) {
-      console.error('Export failed:', error);
+      return this.failed(error);
+    }
+  }
+
+  /**
+   * ツリーノードをZIPとしてエクスポート
+   * manifest.json・tree-nodes.json・プラグインストアごとのエンティティ・
+   * ベクタータイル・UI状態を個別のエントリとして格納する
+   */
+  async exportToZIP(options: ExportOptions): Promise<ExportResult> {
+    const { progressCallback } = options;
+
+    try {
+      const { exportPackage, errors } = await this.collectExport(options, 'zip');
+      const entries = this.createArchiveEntries(exportPackage);
+
+      // 進捗通知: エントリごとにアーカイブへ書き込み
+      const blob = await createZipArchive(entries, {
+        onEntry: (current, total, path) =>
+          progressCallback?.({
+            phase: 'creating-archive',
+            current,
+            total,
+            message: `Writing ${path}`,
+          }),
+      });
+
+      this.notifyCompleted(progressCallback);
+
       return {
-        success: false,
-        exportedNodeCount: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown error occurred'],
+        success: true,
+        blob,
+        exportedNodeCount: exportPackage.nodeIds.length,
+        errors,
       };
+    } catch (error) {
+      return this.failed(error);
     }
   }
 
   /**
-   * ツリーノードをZIPとしてエクスポート（将来実装）
+   * ノード・エンティティ・UI状態を収集してマニフェストを作成
    */
-  async exportToZIP(options: ExportOptions): Promise<ExportResult> {
-    // ZIP形式のエクスポートは後続フェーズで実装
-    // 現時点ではJSONエクスポートにフォールバック
-    return this.exportToJSON(options);
+  private async collectExport(
+    options: ExportOptions,
+    format: 'json' | 'zip'
+  ): Promise<CollectedExport> {
+    const {
+      nodeIds,
+      includeResources = false,
+      includeVectorTiles = false,
+      includeUIStates = false,
+      progressCallback,
+    } = options;
+
+    // 進捗通知: ノード収集開始
+    progressCallback?.({
+      phase: 'collecting-nodes',
+      current: 0,
+      total: nodeIds.length,
+      message: 'Collecting nodes for export',
+    });
+
+    // エクスポートするノードとその子孫を収集
+    const exportData = await this.collectNodes(nodeIds, progressCallback);
+    const errors: string[] = [];
+
+    const exportPackage: ExportPackage = {
+      manifest: {
+        version: EXPORT_FORMAT_VERSION,
+        name: 'HierarchiDB Export',
+        description: `Exported ${exportData.nodeIds.length} nodes`,
+        exportDate: new Date().toISOString(),
+        exportedBy: 'HierarchiDB',
+        appVersion: '1.0.0',
+        nodeCount: exportData.nodeIds.length,
+        resourceTypes: this.countResourceTypes(exportData.nodes),
+        rootNodes: nodeIds,
+        format,
+        contents: {
+          resources: includeResources,
+          vectorTiles: includeVectorTiles,
+          uiStates: includeUIStates,
+        },
+      } satisfies ExportManifest,
+      ...exportData,
+    };
+
+    if (includeResources || includeVectorTiles) {
+      const { entities, entityStores, schemaVersions, vectorTiles } = await this.collectEntities(
+        exportData,
+        { includeResources, includeVectorTiles },
+        errors,
+        progressCallback
+      );
+      if (includeResources) {
+        exportPackage.entities = entities;
+        exportPackage.manifest.entityStores = entityStores;
+        exportPackage.manifest.schemaVersions = schemaVersions;
+      }
+      if (includeVectorTiles) {
+        exportPackage.vectorTiles = vectorTiles;
+      }
+    }
+
+    if (includeUIStates) {
+      exportPackage.uiStates = await this.collectUIStates(exportData);
+    }
+
+    return { exportPackage, errors };
+  }
+
+  /**
+   * プラグインのエンティティとベクタータイルを収集
+   * エンティティハンドラーのbackupを使い、未実装の場合はPeerEntityのみを収集する
+   */
+  private async collectEntities(
+    exportData: TreeNodeExportData,
+    options: { includeResources: boolean; includeVectorTiles: boolean },
+    errors: string[],
+    progressCallback?: (progress: ExportProgress) => void
+  ): Promise<{
+    entities: EntityExportData;
+    entityStores: Record<string, EntityStoreLayout>;
+    schemaVersions: Record<string, number>;
+    vectorTiles: VectorTileExportData[];
+  }> {
+    const registry = NodeRegistry.getInstance();
+    const stores = new Map<string, Map<unknown, unknown>>();
+    const entityStores: Record<string, EntityStoreLayout> = {};
+    const schemaVersions: Record<string, number> = {};
+    const vectorTiles: VectorTileExportData[] = [];
+
+    const addRows = (nodeType: string, storeName: string, rows: unknown[]): void => {
+      const key = `${nodeType}/${storeName}`;
+      let store = stores.get(key);
+      if (!store) {
+        store = new Map();
+        stores.set(key, store);
+      }
+      // 共有される行（RelationalEntity）は一度だけ格納する
+      for (const row of rows) {
+        const id = (row as { id?: unknown } | null)?.id;
+        store.set(id ?? row, row);
+      }
+    };
+
+    for (const [index, nodeId] of exportData.nodeIds.entries()) {
+      progressCallback?.({
+        phase: 'collecting-resources',
+        current: index + 1,
+        total: exportData.nodeIds.length,
+        message: `Collecting resources ${index + 1} of ${exportData.nodeIds.length}`,
+      });
+
+      const node = exportData.nodes[nodeId];
+      const handler = node?.nodeType ? registry.getEntityHandler(node.nodeType) : undefined;
+      if (!node || !handler) {
+        continue;
+      }
+
+      try {
+        const backup = await this.backupEntity(handler, node, options.includeVectorTiles);
+        if (!backup) {
+          continue;
+        }
+
+        if (options.includeResources) {
+          const database = registry.getPluginDefinition(node.nodeType)?.database;
+          const storeName = database?.tableName ?? 'entities';
+          schemaVersions[node.nodeType] = database?.version ?? 1;
+          const layout = (entityStores[node.nodeType] ??= {
+            peer: storeName,
+            group: [],
+            relational: [],
+          });
+          addRows(node.nodeType, storeName, [backup.entity]);
+          for (const [type, groupEntities] of Object.entries(backup.subEntities ?? {})) {
+            addRows(node.nodeType, type, groupEntities);
+            if (!layout.group.includes(type)) {
+              layout.group.push(type);
+            }
+          }
+          for (const [storeName, rows] of Object.entries(backup.relationalEntities ?? {})) {
+            addRows(node.nodeType, storeName, rows);
+            if (!layout.relational.includes(storeName)) {
+              layout.relational.push(storeName);
+            }
+          }
+        }
+
+        if (options.includeVectorTiles) {
+          for (const tile of backup.vectorTiles ?? []) {
+            vectorTiles.push({ ...tile, nodeId });
+          }
+        }
+      } catch (error) {
+        errors.push(
+          `Failed to export ${node.nodeType} entity of ${nodeId}: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+    }
+
+    const entities: EntityExportData = {};
+    for (const [key, rows] of stores) {
+      const separator = key.indexOf('/');
+      const nodeType = key.slice(0, separator);
+      const storeName = key.slice(separator + 1);
+      entities[nodeType] = { ...entities[nodeType], [storeName]: [...rows.values()] };
+    }
+
+    return { entities, entityStores, schemaVersions, vectorTiles };
+  }
+
+  /**
+   * ノードのエンティティをバックアップ（エンティティがなければundefined）
+   * 一部のプラグインハンドラーはgetEntityを持たずbackupのみを実装している
+   */
+  private async backupEntity(
+    handler: EntityHandler,
+    node: TreeNode,
+    includeVectorTiles: boolean
+  ): Promise<EntityBackup | undefined> {
+    if (typeof handler.getEntity === 'function') {
+      const entity = await handler.getEntity(node.id);
+      if (!entity) {
+        return undefined;
+      }
+      if (!handler.backup) {
+        return {
+          entity,
+          metadata: { backupDate: Date.now(), version: '1.0.0', nodeType: node.nodeType },
+        };
+      }
+    }
+    return handler.backup?.(node.id, { includeVectorTiles });
+  }
+
+  /**
+   * エクスポート対象のツリーのビュー状態を収集
+   */
+  private async collectUIStates(exportData: TreeNodeExportData): Promise<TreeViewState[]> {
+    if (!this.ephemeralDB) {
+      return [];
+    }
+
+    const treeIds = new Set<TreeId>();
+    for (const rootId of exportData.rootIds) {
+      const node = exportData.nodes[rootId];
+      const treeId = node && (await this.coreDB.findTreeId(node));
+      if (treeId) {
+        treeIds.add(treeId);
+      }
+    }
+
+    const views = await this.ephemeralDB.views.toArray();
+    return views.filter((view) => treeIds.has(view.treeId));
+  }
+
+  /**
+   * エクスポートパッケージをZIPのエントリに分割
+   */
+  private createArchiveEntries(exportPackage: ExportPackage): ZipEntry[] {
+    const { manifest, entities, vectorTiles, uiStates, ...treeNodes } = exportPackage;
+    const entries: ZipEntry[] = [
+      { path: EXPORT_ARCHIVE_PATHS.manifest, data: JSON.stringify(manifest, null, 2) },
+      { path: EXPORT_ARCHIVE_PATHS.treeNodes, data: stringifyArchiveJson(treeNodes) },
+    ];
+
+    for (const [nodeType, stores] of Object.entries(entities ?? {})) {
+      for (const [storeName, rows] of Object.entries(stores)) {
+        entries.push({
+          path: `${EXPORT_ARCHIVE_PATHS.entitiesDir}${nodeType}/${storeName}.json`,
+          data: stringifyArchiveJson(rows),
+        });
+      }
+    }
+
+    if (vectorTiles) {
+      const index = vectorTiles.map(({ data: _data, ...tile }) => ({
+        ...tile,
+        path: `${EXPORT_ARCHIVE_PATHS.vectorTilesDir}${tile.nodeId}/${tile.z}/${tile.x}/${tile.y}.pbf`,
+      }));
+      entries.push({ path: EXPORT_ARCHIVE_PATHS.vectorTileIndex, data: JSON.stringify(index) });
+      for (const [i, tile] of vectorTiles.entries()) {
+        entries.push({ path: index[i]!.path, data: tile.data });
+      }
+    }
+
+    if (uiStates) {
+      entries.push({ path: EXPORT_ARCHIVE_PATHS.uiStates, data: stringifyArchiveJson(uiStates) });
+    }
+
+    return entries;
+  }
+
+  private notifyCompleted(progressCallback?: (progress: ExportProgress) => void): void {
+    // 進捗通知: 完了
+    progressCallback?.({
+      phase: 'finalizing',
+      current: 1,
+      total: 1,
+      message: 'Export completed successfully',
+    });
+  }
+
+  private failed(error: unknown): ExportResult {
+    console.error('Export failed:', error);
+    return {
+      success: false,
+      exportedNodeCount: 0,
+      errors: [error instanceof Error ? error.message : 'Unknown error occurred'],
+    };
   }
 
   /**
@@ -220,9 +509,9 @@ export class ExportService {
   /**
    * エクスポートファイル名の生成
    */
-  static generateFileName(prefix: string = 'export'): string {
+  static generateFileName(prefix: string = 'export', extension: 'json' | 'zip' = 'json'): string {
     const date = new Date();
     const timestamp = date.toISOString().replace(/[:.]/g, '-').slice(0, -5);
-    return `${prefix}_${timestamp}.json`;
+    return `${prefix}_${timestamp}.${extension}`;
   }
 }
@@ -3,22 +3,58 @@
  * @module worker/services/ImportService
  */
 
-import type {
-  ImportManifest,
-  ImportProgress,
-  ImportResult,
-  TemplateImportOptions,
-  FileImportOptions,
-  TreeNodeExportData,
-  TreeNode,
-  NodeId,
-  IdMapping,
-  CommandEnvelope,
-  ImportNodesPayload,
+import {
+  EXPORT_ARCHIVE_PATHS,
+  EXPORT_FORMAT_VERSION,
+  type EntityBackup,
+  type EntityExportData,
+  type EntityStoreRows,
+  type ExportManifest,
+  type ExportPackage,
+  type ImportManifest,
+  type ImportOptions,
+  type ImportProgress,
+  type ImportResult,
+  type MigrationReport,
+  type MigrationStoreChange,
+  type TemplateImportOptions,
+  type FileImportOptions,
+  type TreeNodeExportData,
+  type TreeNode,
+  type TreeViewState,
+  type NodeId,
+  type IdMapping,
+  type CommandEnvelope,
+  type ImportNodesPayload,
+  type VectorTileExportData,
 } from '@hierarchidb/common-core';
 import type { CoreDB } from '../db/CoreDB';
+import { NodeRegistry } from '../registry/NodeRegistry';
+import type { EntityHandler } from '../registry/plugin';
+import { parseArchiveJson, stringifyArchiveJson } from '../utils/archiveJson';
+import { isZipArchive, readZipArchive } from '../utils/zipArchive';
 import type { TreeMutationService } from './TreeMutationService';
-// Use native crypto.randomUUID() instead of uuid package
+
+type MergeStrategy = NonNullable<ImportOptions['mergeStrategy']>;
+type EntityRow = Record<string, unknown>;
+
+/**
+ * インポート対象のバンドル（tree-nodes.json単体の場合はマニフェストなし）
+ */
+type ImportBundle = Omit<ExportPackage, 'manifest'> & {
+  manifest?: ExportManifest | ImportManifest;
+};
+
+/**
+ * インポート処理中に集める結果
+ */
+interface ImportContext {
+  idMapping: IdMapping;
+  mergeStrategy: MergeStrategy;
+  errors: string[];
+  warnings: string[];
+  progressCallback?: (progress: ImportProgress) => void;
+}
 
 /**
  * インポートサービス
@@ -34,7 +70,7 @@ export class ImportService {
    * テンプレートからインポート
    */
   async importFromTemplate(options: TemplateImportOptions): Promise<ImportResult> {
-    const { templateId, targetParentId, mergeStrategy = 'rename', progressCallback } = options;
+    const { templateId, progressCallback } = options;
 
     try {
       // 進捗通知: 読み込み開始
@@ -67,108 +103,18 @@ export class ImportService {
       }
       const treeData: TreeNodeExportData = await nodesResponse.json();
 
-      // 進捗通知: インポート開始
-      progressCallback?.({
-        phase: 'importing-nodes',
-        current: 0,
-        total: treeData.nodeIds.length,
-        message: `Importing ${treeData.nodeIds.length} nodes`,
-      });
-
-      // IDマッピングの作成（テンプレートID → 新規string）
-      const idMapping: IdMapping = new Map();
-      const newNodes: Record<NodeId, TreeNode> = {};
-      const newNodeIds: NodeId[] = [];
-
-      // 各ノードに新しいIDを割り当て
-      for (const [index, oldId] of treeData.nodeIds.entries()) {
-        const newId = crypto.randomUUID() as NodeId;
-        idMapping.set(oldId, newId);
-        newNodeIds.push(newId);
-
-        const oldNode = treeData.nodes[oldId];
-        if (oldNode) {
-          // 親ノードIDの更新
-          let newParentId: NodeId | null = null;
-          if (oldNode.parentId) {
-            newParentId = idMapping.get(oldNode.parentId) || targetParentId;
-          } else {
-            // ルートノードの場合、targetParentIdを親に設定
-            newParentId = targetParentId;
-          }
-
-          // 新しいノードの作成
-          newNodes[newId] = {
-            ...oldNode,
-            id: newId,
-            parentId: newParentId,
-            createdAt: Date.now(),
-            updatedAt: Date.now(),
-            version: 1,
-          };
-
-          // 進捗更新
-          progressCallback?.({
-            phase: 'importing-nodes',
-            current: index + 1,
-            total: treeData.nodeIds.length,
-            message: `Importing node: ${oldNode.name}`,
-          });
-        }
-      }
-
-      // 名前衝突の処理
-      if (mergeStrategy === 'rename') {
-        await this.handleNameConflicts(newNodes, targetParentId);
-      }
-
-      // importNodesコマンドの実行
-      const command: CommandEnvelope<'importNodes', ImportNodesPayload> = {
-        payload: {
-          nodes: newNodes,
-          nodeIds: newNodeIds,
-          toParentId: targetParentId,
-          onNameConflict: mergeStrategy === 'rename' ? 'auto-rename' : 'error',
-        },
-        commandId: `import-template-${Date.now()}`,
-        groupId: `template-${templateId}`,
-        kind: 'importNodes',
-        issuedAt: Date.now(),
-      };
-
-      const result = await this.mutationService.importNodes(command);
-
-      // 進捗通知: 完了
-      progressCallback?.({
-        phase: 'finalizing',
-        current: 1,
-        total: 1,
-        message: 'Import completed successfully',
-      });
-
-      return {
-        success: result.success,
-        importedNodeIds: newNodeIds,
-        skippedNodes: 0,
-        errors: result.success ? [] : ['error' in result ? result.error : 'Import failed'],
-        warnings: [],
-      };
+      return await this.importBundle({ manifest, ...treeData }, options, `template-${templateId}`);
     } catch (error) {
-      console.error('Import failed:', error);
-      return {
-        success: false,
-        importedNodeIds: [],
-        skippedNodes: 0,
-        errors: [error instanceof Error ? error.message : 'Unknown error occurred'],
-      };
+      return this.failed(error);
     }
   }
 
   /**
-   * ZIPファイルからインポート
+   * エクスポートしたファイル（ZIPまたはJSON）からインポート
+   * プラグインのエンティティ・共有データ・ベクタータイルも新しいノードIDに振り直して復元する
    */
   async importFromFile(options: FileImportOptions): Promise<ImportResult> {
-    const { file, targetParentId, mergeStrategy = 'rename', progressCallback } = options;
+    const { file, progressCallback } = options;
 
     // 進捗通知: 読み込み開始
     progressCallback?.({
@@ -178,99 +124,176 @@ export class ImportService {
       message: `Reading file: ${file.name}`,
     });
 
-    // ZIPファイル処理の実装は後続フェーズで追加
-    // 現時点では基本的なJSONファイル読み込みのみサポート
     try {
-      const text = await file.text();
-      const data = JSON.parse(text);
-
-      // JSONデータをツリーノードとして処理
-      if (data.nodes && data.nodeIds) {
-        // tree-nodes.json形式として処理
-        return this.importTreeNodes(data, targetParentId, mergeStrategy, progressCallback);
-      } else {
-        throw new Error('Invalid file format. Expected tree-nodes.json structure.');
-      }
+      const bundle = await this.readBundle(file);
+
+      // 進捗通知: 検証
+      progressCallback?.({
+        phase: 'validating',
+        current: 1,
+        total: 1,
+        message: 'Validating import data',
+      });
+
+      return await this.importBundle(bundle, options, `import-${Date.now()}`);
     } catch (error) {
-      return {
-        success: false,
-        importedNodeIds: [],
-        skippedNodes: 0,
-        errors: [error instanceof Error ? error.message : 'Failed to parse file'],
-      };
+      return this.failed(error);
     }
   }
 
   /**
-   * ツリーノードデータのインポート（内部処理）
+   * ZIPアーカイブまたはJSONファイルをバンドルとして読み込む
    */
-  private async importTreeNodes(
-    treeData: TreeNodeExportData,
-    targetParentId: NodeId,
-    mergeStrategy: 'skip' | 'replace' | 'rename',
-    progressCallback?: (progress: ImportProgress) => void
-  ): Promise<ImportResult> {
-    // テンプレートインポートと同様の処理
-    const idMapping: IdMapping = new Map();
-    const newNodes: Record<NodeId, TreeNode> = {};
-    const newNodeIds: NodeId[] = [];
+  private async readBundle(file: Blob): Promise<ImportBundle> {
+    const bytes = new Uint8Array(await file.arrayBuffer());
 
-    progressCallback?.({
-      phase: 'importing-nodes',
-      current: 0,
-      total: treeData.nodeIds.length,
-      message: `Importing ${treeData.nodeIds.length} nodes`,
-    });
+    if (!isZipArchive(bytes)) {
+      const data = parseArchiveJson<Partial<ImportBundle>>(new TextDecoder().decode(bytes));
+      if (!data.nodes || !data.nodeIds) {
+        throw new Error('Invalid file format. Expected tree-nodes.json structure.');
+      }
+      return data as ImportBundle;
+    }
 
-    // 各ノードに新しいIDを割り当て
-    for (const [index, oldId] of treeData.nodeIds.entries()) {
-      const newId = crypto.randomUUID() as NodeId;
-      idMapping.set(oldId, newId);
-      newNodeIds.push(newId);
-
-      const oldNode = treeData.nodes[oldId];
-      if (oldNode) {
-        let newParentId: NodeId | null = null;
-        if (oldNode.parentId) {
-          newParentId = idMapping.get(oldNode.parentId) || targetParentId;
-        } else {
-          newParentId = targetParentId;
-        }
+    const entries = await readZipArchive(new Blob([bytes]));
+    const readJson = <T>(path: string): T | undefined => {
+      const data = entries.get(path);
+      return data ? parseArchiveJson<T>(new TextDecoder().decode(data)) : undefined;
+    };
+
+    const treeNodes = readJson<TreeNodeExportData>(EXPORT_ARCHIVE_PATHS.treeNodes);
+    if (!treeNodes) {
+      throw new Error(`Invalid archive: ${EXPORT_ARCHIVE_PATHS.treeNodes} not found`);
+    }
 
-        newNodes[newId] = {
-          ...oldNode,
-          id: newId,
-          parentId: newParentId,
-          createdAt: Date.now(),
-          updatedAt: Date.now(),
-          version: 1,
+    // entities/<nodeType>/<store>.json
+    const entities: EntityExportData = {};
+    for (const path of entries.keys()) {
+      const match = path.match(/^entities\/([^/]+)\/([^/]+)\.json$/);
+      if (match) {
+        const [, nodeType, storeName] = match as unknown as [string, string, string];
+        entities[nodeType] = {
+          ...entities[nodeType],
+          [storeName]: readJson<unknown[]>(path) ?? [],
         };
+      }
+    }
 
-        progressCallback?.({
-          phase: 'importing-nodes',
-          current: index + 1,
-          total: treeData.nodeIds.length,
-          message: `Importing: ${oldNode.name}`,
-        });
+    const tileIndex = readJson<(Omit<VectorTileExportData, 'data'> & { path: string })[]>(
+      EXPORT_ARCHIVE_PATHS.vectorTileIndex
+    );
+    const vectorTiles = tileIndex?.flatMap(({ path, ...tile }) => {
+      const data = entries.get(path);
+      return data ? [{ ...tile, data }] : [];
+    });
+
+    return {
+      ...treeNodes,
+      manifest: readJson<ExportManifest>(EXPORT_ARCHIVE_PATHS.manifest),
+      entities,
+      vectorTiles,
+      uiStates: readJson<TreeViewState[]>(EXPORT_ARCHIVE_PATHS.uiStates),
+    };
+  }
+
+  /**
+   * バンドルのノードとエンティティをインポート
+   * 取り込み先の子と名前が衝突する最上位ノードはmergeStrategyに従って扱う
+   * （skip: 取り込まない、replace: 既存ノードをゴミ箱へ移動、rename: 連番を付ける）
+   * dryRunではエンティティのマイグレーション結果だけを返す
+   */
+  private async importBundle(
+    bundle: ImportBundle,
+    options: ImportOptions,
+    groupId: string
+  ): Promise<ImportResult> {
+    const { targetParentId, mergeStrategy = 'rename', dryRun = false, progressCallback } = options;
+
+    const migrations = await this.migrateBundle(bundle, progressCallback);
+    if (dryRun) {
+      return {
+        success: true,
+        importedNodeIds: [],
+        skippedNodes: 0,
+        errors: [],
+        warnings: [],
+        migrations,
+      };
+    }
+
+    const { nodeIds, skippedNodes, replacedNodeIds } = await this.resolveNameConflicts(
+      bundle,
+      targetParentId,
+      mergeStrategy
+    );
+
+    // 同じ親に同名のノードは置けないため、置き換えるノードは取り込みより先にゴミ箱へ移す
+    // 取り込みと同じグループで記録し、1回のUndoでまとめて戻せるようにする
+    if (replacedNodeIds.length > 0) {
+      const trashed = await this.mutationService.moveNodesToTrash(replacedNodeIds, { groupId });
+      if (!trashed.success) {
+        throw new Error(trashed.error ?? 'Failed to replace existing nodes');
       }
     }
 
-    // importNodesコマンドの実行
+    progressCallback?.({
+      phase: 'importing-nodes',
+      current: 0,
+      total: nodeIds.length,
+      message: `Importing ${nodeIds.length} nodes`,
+    });
+
+    // importNodesコマンドの実行（新しいIDはコマンド側で採番される）
     const command: CommandEnvelope<'importNodes', ImportNodesPayload> = {
       payload: {
-        nodes: newNodes,
-        nodeIds: newNodeIds,
+        nodes: bundle.nodes,
+        nodeIds,
         toParentId: targetParentId,
         onNameConflict: mergeStrategy === 'rename' ? 'auto-rename' : 'error',
       },
-      commandId: `import-file-${Date.now()}`,
-      groupId: `import-${Date.now()}`,
+      commandId: `import-${crypto.randomUUID()}`,
+      groupId,
       kind: 'importNodes',
       issuedAt: Date.now(),
     };
 
-    const result = await this.mutationService.importNodes(command);
+    const result = await this.mutationService
+      .importNodes(command)
+      .catch((error: unknown) => ({ success: false as const, error: String(error) }));
+    if (!result.success) {
+      // 取り込めなかった場合は置き換える予定だったノードを元の場所へ戻す
+      if (replacedNodeIds.length > 0) {
+        await this.mutationService.recoverNodesFromTrash({ nodeIds: replacedNodeIds }, { groupId });
+      }
+      return {
+        success: false,
+        importedNodeIds: [],
+        skippedNodes,
+        errors: ['error' in result ? result.error : 'Import failed'],
+      };
+    }
+
+    const importedNodeIds = result.newNodeIds ?? [];
+    const context: ImportContext = {
+      idMapping: new Map(nodeIds.map((oldId, index) => [oldId, importedNodeIds[index]!])),
+      mergeStrategy,
+      errors: [],
+      warnings: [],
+      progressCallback,
+    };
+
+    progressCallback?.({
+      phase: 'importing-nodes',
+      current: nodeIds.length,
+      total: nodeIds.length,
+      message: `Imported ${nodeIds.length} nodes`,
+    });
+
+    if (bundle.entities) {
+      await this.importEntities(bundle, context);
+    }
 
+    // 進捗通知: 完了
     progressCallback?.({
       phase: 'finalizing',
       current: 1,
@@ -279,37 +302,366 @@ export class ImportService {
     });
 
     return {
-      success: result.success,
-      importedNodeIds: newNodeIds,
-      skippedNodes: 0,
-      errors: result.success ? [] : ['error' in result ? result.error : 'Import failed'],
+      success: context.errors.length === 0,
+      importedNodeIds,
+      skippedNodes,
+      errors: context.errors,
+      warnings: context.warnings,
+      migrations,
     };
   }
 
   /**
-   * 名前衝突の処理
+   * 古いスキーマでエクスポートされたエンティティを、現在のプラグインのスキーマまで
+   * 登録済みのマイグレーションで1段階ずつ変換する
+   * マニフェストにスキーマバージョンがないノード型はバージョン1とみなす
+   */
+  private async migrateBundle(
+    bundle: ImportBundle,
+    progressCallback?: (progress: ImportProgress) => void
+  ): Promise<MigrationReport[]> {
+    const formatVersion = bundle.manifest?.version;
+    if (formatVersion && majorVersion(formatVersion) !== majorVersion(EXPORT_FORMAT_VERSION)) {
+      throw new Error(`Unsupported export format version: ${formatVersion}`);
+    }
+
+    const registry = NodeRegistry.getInstance();
+    const schemaVersions =
+      bundle.manifest && 'schemaVersions' in bundle.manifest
+        ? bundle.manifest.schemaVersions
+        : undefined;
+    const reports: MigrationReport[] = [];
+
+    for (const [nodeType, stores] of Object.entries(bundle.entities ?? {})) {
+      // 未登録のプラグインはimportEntitiesで警告する
+      const toVersion = registry.getPluginDefinition(nodeType)?.database?.version;
+      const fromVersion = schemaVersions?.[nodeType] ?? 1;
+      if (toVersion === undefined || fromVersion === toVersion) {
+        continue;
+      }
+      if (fromVersion > toVersion) {
+        throw new Error(
+          `${nodeType} entities use schema version ${fromVersion}, newer than the installed plugin (${toVersion})`
+        );
+      }
+
+      progressCallback?.({
+        phase: 'migrating',
+        current: reports.length,
+        total: Object.keys(bundle.entities ?? {}).length,
+        message: `Migrating ${nodeType} entities from schema version ${fromVersion} to ${toVersion}`,
+      });
+
+      const report: MigrationReport = { nodeType, fromVersion, toVersion, steps: [] };
+      let current = stores;
+      for (const migration of registry.getMigrationPath(nodeType, fromVersion, toVersion)) {
+        const next = await migration.migrate(structuredClone(current));
+        report.steps.push({
+          fromVersion: migration.fromVersion,
+          toVersion: migration.toVersion,
+          description: migration.description,
+          changes: diffStores(current, next),
+        });
+        current = next;
+      }
+      bundle.entities![nodeType] = current;
+      reports.push(report);
+    }
+
+    return reports;
+  }
+
+  /**
+   * 最上位ノードの名前衝突を解決し、インポートするノードIDと置き換える既存ノードIDを返す
+   * nodeIdsは親が子より先に並んでいる前提
    */
-  private async handleNameConflicts(
-    nodes: Record<NodeId, TreeNode>,
-    parentId: NodeId
-  ): Promise<void> {
-    // 既存の子ノードを取得
-    const existingChildren = await this.coreDB.listChildren(parentId);
-    const existingNames = new Set(existingChildren.map((node: TreeNode) => node.name));
-
-    // 衝突するノードの名前を変更
-    for (const node of Object.values(nodes)) {
-      if (node.parentId === parentId && existingNames.has(node.name)) {
-        // 名前に番号を追加
-        let counter = 1;
-        let newName = `${node.name} (${counter})`;
-        while (existingNames.has(newName)) {
-          counter++;
-          newName = `${node.name} (${counter})`;
+  private async resolveNameConflicts(
+    bundle: ImportBundle,
+    targetParentId: NodeId,
+    mergeStrategy: MergeStrategy
+  ): Promise<{ nodeIds: NodeId[]; skippedNodes: number; replacedNodeIds: NodeId[] }> {
+    const existingChildren = await this.coreDB.listChildren(targetParentId);
+    const existingByName = new Map(existingChildren.map((node) => [node.name, node]));
+
+    const included = new Set<NodeId>();
+    const replacedNodeIds: NodeId[] = [];
+    for (const nodeId of bundle.nodeIds) {
+      const node = bundle.nodes[nodeId];
+      if (!node) {
+        continue;
+      }
+      if (bundle.nodes[node.parentId]) {
+        // 子ノードは親が取り込まれる場合のみ取り込む
+        if (included.has(node.parentId)) {
+          included.add(nodeId);
         }
-        node.name = newName;
-        existingNames.add(newName);
+        continue;
+      }
+
+      const existing = existingByName.get(node.name);
+      if (existing && mergeStrategy === 'skip') {
+        continue;
       }
+      if (existing && mergeStrategy === 'replace') {
+        replacedNodeIds.push(existing.id);
+        existingByName.delete(node.name);
+      }
+      included.add(nodeId);
+    }
+
+    const nodeIds = bundle.nodeIds.filter((nodeId) => included.has(nodeId));
+    return { nodeIds, skippedNodes: bundle.nodeIds.length - nodeIds.length, replacedNodeIds };
+  }
+
+  /**
+   * プラグインのエンティティをノード型ごとにインポート
+   */
+  private async importEntities(bundle: ImportBundle, context: ImportContext): Promise<void> {
+    const registry = NodeRegistry.getInstance();
+    const layouts =
+      bundle.manifest && 'entityStores' in bundle.manifest ? bundle.manifest.entityStores : {};
+
+    for (const [nodeType, stores] of Object.entries(bundle.entities ?? {})) {
+      const layout = layouts?.[nodeType];
+      const handler = registry.getEntityHandler(nodeType);
+      if (!layout || !handler) {
+        context.warnings.push(
+          `Skipped ${nodeType} entities: ${layout ? 'plugin not registered' : 'store layout missing'}`
+        );
+        continue;
+      }
+
+      const hints = registry.getPluginDefinition(nodeType)?.meta?.entityHints;
+      const fields = {
+        nodeRef: hints?.nodeRefField ?? 'nodeId',
+        relRef: hints?.relRefField ?? 'relRef',
+      };
+
+      // 取り込まれたノードのPeerEntityのみが対象
+      const peers = ((stores[layout.peer] ?? []) as EntityRow[]).filter((row) =>
+        context.idMapping.has(row[fields.nodeRef] as NodeId)
+      );
+
+      const relationalWrites = await this.resolveRelationalEntities(
+        handler,
+        layout.relational.map((storeName) => [storeName, (stores[storeName] ?? []) as EntityRow[]]),
+        peers,
+        fields,
+        context
+      );
+
+      for (const [index, peer] of peers.entries()) {
+        context.progressCallback?.({
+          phase: 'importing-resources',
+          current: index + 1,
+          total: peers.length,
+          message: `Importing ${nodeType} entity ${index + 1} of ${peers.length}`,
+        });
+
+        const oldNodeId = peer[fields.nodeRef] as NodeId;
+        const newNodeId = context.idMapping.get(oldNodeId)!;
+        const relId = peer[fields.relRef] as string | undefined;
+        const mappedRelId = relId !== undefined ? relationalWrites.idMapping.get(relId) : undefined;
+
+        const subEntities: Record<string, EntityRow[]> = {};
+        for (const type of layout.group) {
+          subEntities[type] = ((stores[type] ?? []) as EntityRow[])
+            .filter((row) => row[fields.nodeRef] === oldNodeId)
+            .map((row) => withFreshId({ ...row, [fields.nodeRef]: newNodeId }));
+        }
+
+        const backup: EntityBackup = {
+          entity: withFreshId({
+            ...peer,
+            [fields.nodeRef]: newNodeId,
+            ...(mappedRelId !== undefined && { [fields.relRef]: mappedRelId }),
+          }) as unknown as EntityBackup['entity'],
+          subEntities: subEntities as unknown as EntityBackup['subEntities'],
+          // 共有行は最初に参照するノードと一緒に書き込む
+          relationalEntities:
+            mappedRelId !== undefined ? relationalWrites.take(mappedRelId) : undefined,
+          vectorTiles: bundle.vectorTiles
+            ?.filter((tile) => tile.nodeId === oldNodeId)
+            .map(({ nodeId: _nodeId, ...tile }) => tile),
+          metadata: { backupDate: Date.now(), version: '1.0.0', nodeType },
+        };
+
+        try {
+          if (handler.restore) {
+            await handler.restore(newNodeId, backup);
+          } else {
+            await handler.createEntity(newNodeId, backup.entity);
+            if (backup.relationalEntities || layout.group.length > 0) {
+              context.warnings.push(
+                `${nodeType} handler cannot restore related rows; imported ${newNodeId} without them`
+              );
+            }
+          }
+        } catch (error) {
+          context.errors.push(
+            `Failed to import ${nodeType} entity of ${newNodeId}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * 共有行（RelationalEntity）の取り込み方を決める
+   * - 同じcontentHashの行が既にあれば再利用し、参照数だけ増やす
+   * - IDだけが衝突する場合はmergeStrategyに従う（skip: 既存を使う、replace: 上書き、rename: 新しいID）
+   * RelationalEntityを参照するデータ行（チャンク等）は書き込む行に付随して取り込む
+   */
+  private async resolveRelationalEntities(
+    handler: EntityHandler,
+    stores: [string, EntityRow[]][],
+    peers: EntityRow[],
+    fields: { nodeRef: string; relRef: string },
+    context: ImportContext
+  ): Promise<{
+    idMapping: Map<string, string>;
+    take: (relId: string) => Record<string, unknown[]> | undefined;
+  }> {
+    // RelationalEntityのID → 参照する新しいノードID
+    const referrers = new Map<string, NodeId[]>();
+    for (const peer of peers) {
+      const relId = peer[fields.relRef] as string | undefined;
+      if (relId !== undefined) {
+        const newNodeId = context.idMapping.get(peer[fields.nodeRef] as NodeId)!;
+        referrers.set(relId, [...(referrers.get(relId) ?? []), newNodeId]);
+      }
+    }
+
+    const idMapping = new Map<string, string>();
+    // 新しいRelationalEntityのID → ストア名 → 書き込む行
+    const writes = new Map<string, Record<string, unknown[]>>();
+    const addWrite = (relId: string, storeName: string, row: EntityRow): void => {
+      const rows = writes.get(relId) ?? {};
+      rows[storeName] = [...(rows[storeName] ?? []), row];
+      writes.set(relId, rows);
+    };
+    // データ行を取り込むRelationalEntity（旧ID → 新ID、再利用した場合は含まない）
+    const withPayload = new Map<string, { newId: string; renamed: boolean }>();
+
+    for (const [storeName, rows] of stores) {
+      for (const row of rows) {
+        const relId = row.id as string | undefined;
+        const newNodeIds = relId !== undefined ? referrers.get(relId) : undefined;
+        if (fields.relRef in row || relId === undefined || !newNodeIds) {
+          continue;
+        }
+
+        const existing = await handler.findRelationalEntity?.(storeName, {
+          id: relId,
+          contentHash: row.contentHash as string | undefined,
+        });
+        const sameContent =
+          existing !== undefined &&
+          row.contentHash !== undefined &&
+          existing.contentHash === row.contentHash;
+
+        if (existing && (sameContent || context.mergeStrategy === 'skip')) {
+          const existingId = existing.id as string;
+          idMapping.set(relId, existingId);
+          addWrite(existingId, storeName, addReferrers(existing, newNodeIds));
+          continue;
+        }
+
+        const renamed = existing !== undefined && context.mergeStrategy === 'rename';
+        const newId = renamed ? crypto.randomUUID() : relId;
+        idMapping.set(relId, newId);
+        withPayload.set(relId, { newId, renamed });
+        // replaceでは既存の行の参照を引き継ぐ
+        addWrite(
+          newId,
+          storeName,
+          addReferrers({ ...row, id: newId }, newNodeIds, existing && !renamed ? existing : {})
+        );
+      }
+    }
+
+    for (const [storeName, rows] of stores) {
+      for (const row of rows) {
+        const target =
+          fields.relRef in row ? withPayload.get(row[fields.relRef] as string) : undefined;
+        if (target) {
+          const payload = { ...row, [fields.relRef]: target.newId };
+          addWrite(target.newId, storeName, target.renamed ? withFreshId(payload) : payload);
+        }
+      }
+    }
+
+    return {
+      idMapping,
+      take: (relId) => {
+        const rows = writes.get(relId);
+        writes.delete(relId);
+        return rows;
+      },
+    };
+  }
+
+  private failed(error: unknown): ImportResult {
+    console.error('Import failed:', error);
+    return {
+      success: false,
+      importedNodeIds: [],
+      skippedNodes: 0,
+      errors: [error instanceof Error ? error.message : 'Unknown error occurred'],
+    };
+  }
+}
+
+/**
+ * 取り込む行に新しいIDを付ける（数値IDは自動採番に任せる）
+ */
+function withFreshId(row: EntityRow): EntityRow {
+  if (typeof row.id === 'number') {
+    const { id: _id, ...rest } = row;
+    return rest;
+  }
+  return typeof row.id === 'string' ? { ...row, id: crypto.randomUUID() } : row;
+}
+
+/**
+ * RelationalEntityの参照数・参照元ノードに新しいノードを加える（該当フィールドがある場合のみ）
+ */
+function addReferrers(row: EntityRow, newNodeIds: NodeId[], base: EntityRow = row): EntityRow {
+  return {
+    ...row,
+    ...('referenceCount' in row && {
+      referenceCount:
+        (typeof base.referenceCount === 'number' ? base.referenceCount : 0) + newNodeIds.length,
+    }),
+    ...('nodeIds' in row && {
+      nodeIds: [...(Array.isArray(base.nodeIds) ? base.nodeIds : []), ...newNodeIds],
+    }),
+  };
+}
+
+function majorVersion(version: string): number {
+  return Number.parseInt(version.split('.')[0] ?? '', 10);
+}
+
+/**
+ * マイグレーション前後のストアを比べ、行数と内容が変わった行の数を数える
+ */
+function diffStores(before: EntityStoreRows, after: EntityStoreRows): MigrationStoreChange[] {
+  const changes: MigrationStoreChange[] = [];
+  for (const store of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    const beforeRows = before[store] ?? [];
+    const afterRows = after[store] ?? [];
+    let modified = 0;
+    for (let i = 0; i < Math.min(beforeRows.length, afterRows.length); i++) {
+      if (stringifyArchiveJson(beforeRows[i]) !== stringifyArchiveJson(afterRows[i])) {
+        modified++;
+      }
+    }
+    if (modified > 0 || beforeRows.length !== afterRows.length) {
+      changes.push({ store, before: beforeRows.length, after: afterRows.length, modified });
     }
   }
+  return changes;
 }
@@ -0,0 +1,400 @@
+/**
+ * @file SearchIndexService.ts
+ * @description Maintains the full-text search index from CoreDB change events and answers ranked queries
+ */
+
+import type {
+  FullTextSearchOptions,
+  NodeId,
+  SearchHighlight,
+  SearchHit,
+  SearchMatch,
+  TreeChangeEvent,
+  TreeNode,
+} from '@hierarchidb/common-core';
+import type { Subscription } from 'rxjs';
+import type { CoreDB } from '../db/CoreDB';
+import type { SearchIndexDB, SearchPosting } from '../db/SearchIndexDB';
+import { NodeRegistry } from '../registry/NodeRegistry';
+import { splitQueryTerms, tokenize } from '../utils/searchTokenizer';
+import { workerWarn } from '../utils/workerLogger';
+
+// 名前の一致を説明・エンティティフィールドより優先する
+const FIELD_WEIGHTS: Record<string, number> = {
+  name: 3,
+  description: 1,
+};
+const ENTITY_FIELD_WEIGHT = 1;
+// 前方一致はトークン完全一致の半分のスコア
+const PREFIX_MATCH_FACTOR = 0.5;
+const SNIPPET_LENGTH = 80;
+const SNIPPET_ELLIPSIS = '…';
+const DEFAULT_MAX_RESULTS = 50;
+
+/**
+ * Collect the text values found at a dot path, flattening arrays along the way
+ */
+function collectFieldText(value: unknown, path: string[]): string[] {
+  if (Array.isArray(value)) {
+    return value.flatMap((item) => collectFieldText(item, path));
+  }
+  if (path.length === 0) {
+    return typeof value === 'string' || typeof value === 'number' ? [String(value)] : [];
+  }
+  if (value && typeof value === 'object') {
+    return collectFieldText((value as Record<string, unknown>)[path[0]!], path.slice(1));
+  }
+  return [];
+}
+
+/**
+ * Normalize text like the index (NFKC, lowercase) and keep, for every normalized
+ * code unit, the range of the original text it came from
+ */
+function normalizeWithOffsets(text: string): {
+  normalized: string;
+  starts: number[];
+  ends: number[];
+} {
+  let normalized = '';
+  const starts: number[] = [];
+  const ends: number[] = [];
+
+  // 半角濁点などの結合文字は直前の文字とまとめて正規化する（ｶﾞ → ガ）
+  const segments: { start: number; end: number }[] = [];
+  let position = 0;
+  for (const char of text) {
+    const last = segments[segments.length - 1];
+    if (last && /^\p{M}/u.test(char.normalize('NFKC'))) {
+      last.end += char.length;
+    } else {
+      segments.push({ start: position, end: position + char.length });
+    }
+    position += char.length;
+  }
+
+  for (const { start, end } of segments) {
+    const part = text.slice(start, end).normalize('NFKC').toLowerCase();
+    normalized += part;
+    for (let i = 0; i < part.length; i++) {
+      starts.push(start);
+      ends.push(end);
+    }
+  }
+  return { normalized, starts, ends };
+}
+
+/**
+ * Find every occurrence of the query terms in a field value.
+ * Terms are matched against the normalized text; the highlights point into the original text.
+ */
+function findHighlights(text: string, terms: string[]): SearchHighlight[] {
+  const { normalized, starts, ends } = normalizeWithOffsets(text);
+  const highlights: SearchHighlight[] = [];
+
+  for (const term of terms) {
+    let index = normalized.indexOf(term);
+    while (index !== -1) {
+      highlights.push({ start: starts[index]!, end: ends[index + term.length - 1]! });
+      index = normalized.indexOf(term, index + term.length);
+    }
+  }
+
+  // 重なったハイライトを結合
+  highlights.sort((a, b) => a.start - b.start);
+  const merged: SearchHighlight[] = [];
+  for (const highlight of highlights) {
+    const last = merged[merged.length - 1];
+    if (last && highlight.start <= last.end) {
+      last.end = Math.max(last.end, highlight.end);
+    } else {
+      merged.push({ ...highlight });
+    }
+  }
+  return merged;
+}
+
+/**
+ * Cut a window of text around the first highlight and shift the highlights into it
+ */
+function buildMatch(field: string, text: string, highlights: SearchHighlight[]): SearchMatch {
+  if (text.length <= SNIPPET_LENGTH) {
+    return { field, snippet: text, highlights };
+  }
+
+  const first = highlights[0]?.start ?? 0;
+  const start = Math.max(0, Math.min(first - SNIPPET_LENGTH / 4, text.length - SNIPPET_LENGTH));
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const prefix = start > 0 ? SNIPPET_ELLIPSIS : '';
+  const suffix = end < text.length ? SNIPPET_ELLIPSIS : '';
+  const offset = prefix.length - start;
+
+  return {
+    field,
+    snippet: prefix + text.slice(start, end) + suffix,
+    highlights: highlights
+      .filter((highlight) => highlight.start >= start && highlight.end <= end)
+      .map((highlight) => ({ start: highlight.start + offset, end: highlight.end + offset })),
+  };
+}
+
+export class SearchIndexService {
+  private subscription?: Subscription;
+  // 索引更新は直列化し、検索は未処理の更新を待ってから行う
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private coreDB: CoreDB,
+    private searchDB: SearchIndexDB
+  ) {}
+
+  start(): void {
+    if (this.subscription) {
+      return;
+    }
+    this.subscription = this.coreDB.changeSubject.subscribe((event) => {
+      void this.enqueue(() => this.applyChange(event));
+    });
+  }
+
+  close(): void {
+    this.subscription?.unsubscribe();
+    this.subscription = undefined;
+  }
+
+  /**
+   * Wait until every queued index update has been applied
+   */
+  async whenIdle(): Promise<void> {
+    await this.queue;
+  }
+
+  /**
+   * Rebuild the index from every node in CoreDB
+   */
+  async rebuild(): Promise<void> {
+    await this.enqueue(() => this.rebuildIndex());
+  }
+
+  /**
+   * Build the index for databases created before it existed
+   */
+  async rebuildIfEmpty(): Promise<void> {
+    await this.enqueue(async () => {
+      if ((await this.searchDB.countDocuments()) === 0) {
+        await this.rebuildIndex();
+      }
+    });
+  }
+
+  async search(options: FullTextSearchOptions): Promise<SearchHit[]> {
+    const terms = splitQueryTerms(options.query);
+    if (terms.length === 0) {
+      return [];
+    }
+    await this.whenIdle();
+
+    const totalDocuments = Math.max(1, await this.searchDB.countDocuments());
+    let scores: Map<NodeId, number> | undefined;
+
+    // すべての語に一致したノードのみを残す（AND検索）
+    for (const term of terms) {
+      const termScores = await this.scoreTerm(term, totalDocuments);
+      if (scores) {
+        for (const [nodeId, score] of scores) {
+          const termScore = termScores.get(nodeId);
+          if (termScore === undefined) {
+            scores.delete(nodeId);
+          } else {
+            scores.set(nodeId, score + termScore);
+          }
+        }
+      } else {
+        scores = termScores;
+      }
+    }
+
+    const ranked = [...(scores ?? new Map<NodeId, number>())].sort((a, b) => b[1] - a[1]);
+    const maxResults = options.maxResults ?? DEFAULT_MAX_RESULTS;
+    const ancestorCache = new Map<NodeId, boolean>();
+    const hits: SearchHit[] = [];
+
+    for (const [nodeId, score] of ranked) {
+      if (hits.length >= maxResults) {
+        break;
+      }
+      const node = await this.coreDB.getNode(nodeId);
+      if (!node || (node.removedAt && !options.includeRemoved)) {
+        continue;
+      }
+      if (options.rootNodeId && !(await this.isWithin(node, options.rootNodeId, ancestorCache))) {
+        continue;
+      }
+      if (options.treeId && (await this.coreDB.findTreeId(node)) !== options.treeId) {
+        continue;
+      }
+
+      const document = await this.searchDB.documents.get(nodeId);
+      const matches = Object.entries(document?.fields ?? {}).flatMap(([field, text]) => {
+        const highlights = findHighlights(text, terms);
+        return highlights.length > 0 ? [buildMatch(field, text, highlights)] : [];
+      });
+      hits.push({ node, score, matches });
+    }
+
+    return hits;
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(task).catch((error) => {
+      workerWarn('Failed to update search index:', error);
+    });
+    return this.queue;
+  }
+
+  private async rebuildIndex(): Promise<void> {
+    await this.searchDB.transaction('rw', this.searchDB.postings, this.searchDB.documents, () =>
+      Promise.all([this.searchDB.postings.clear(), this.searchDB.documents.clear()])
+    );
+    const nodes = await this.coreDB.nodes.toArray();
+    for (const node of nodes) {
+      await this.indexNode(node);
+    }
+  }
+
+  private async applyChange(event: TreeChangeEvent): Promise<void> {
+    if (event.type === 'node-deleted') {
+      await this.searchDB.deleteDocument(event.nodeId);
+      return;
+    }
+    // 他タブからのイベントはノード本体を含まない場合がある
+    const node = event.node ?? (await this.coreDB.getNode(event.nodeId));
+    if (node) {
+      await this.indexNode(node);
+    } else {
+      await this.searchDB.deleteDocument(event.nodeId);
+    }
+  }
+
+  private async indexNode(node: TreeNode): Promise<void> {
+    const fields: Record<string, string> = {};
+    if (node.name) {
+      fields.name = node.name;
+    }
+    if (node.description) {
+      fields.description = node.description;
+    }
+    Object.assign(fields, await this.loadEntityFields(node));
+
+    const weights = new Map<string, number>();
+    for (const [field, text] of Object.entries(fields)) {
+      const weight = FIELD_WEIGHTS[field] ?? ENTITY_FIELD_WEIGHT;
+      for (const token of tokenize(text)) {
+        weights.set(token, (weights.get(token) ?? 0) + weight);
+      }
+    }
+
+    const postings: SearchPosting[] = [...weights].map(([token, weight]) => ({
+      token,
+      nodeId: node.id,
+      weight,
+    }));
+    await this.searchDB.putDocument({ nodeId: node.id, fields }, postings);
+  }
+
+  /**
+   * Read the plugin-declared searchable fields as `entity.<path>` entries
+   */
+  private async loadEntityFields(node: TreeNode): Promise<Record<string, string>> {
+    if (!node.nodeType) {
+      return {};
+    }
+    const registry = NodeRegistry.getInstance();
+    const search = registry.getPluginDefinition(node.nodeType)?.search;
+    if (!search || search.fields.length === 0) {
+      return {};
+    }
+
+    try {
+      const source = search.getSearchDocument
+        ? await search.getSearchDocument(node.id)
+        : await registry.getEntityHandler(node.nodeType)?.getEntity(node.id);
+      if (!source) {
+        return {};
+      }
+
+      const fields: Record<string, string> = {};
+      for (const path of search.fields) {
+        const values = collectFieldText(source, path.split('.')).filter((value) => value !== '');
+        if (values.length > 0) {
+          fields[`entity.${path}`] = values.join(', ');
+        }
+      }
+      return fields;
+    } catch (error) {
+      workerWarn(`Failed to load searchable fields for node ${node.id}:`, error);
+      return {};
+    }
+  }
+
+  /**
+   * Score the nodes whose tokens match every token of a query term
+   */
+  private async scoreTerm(term: string, totalDocuments: number): Promise<Map<NodeId, number>> {
+    let scores: Map<NodeId, number> | undefined;
+
+    for (const token of tokenize(term)) {
+      const postings = await this.searchDB.findByTokenPrefix(token);
+      const tokenScores = new Map<NodeId, number>();
+      for (const posting of postings) {
+        const factor = posting.token === token ? 1 : PREFIX_MATCH_FACTOR;
+        const score = posting.weight * factor;
+        tokenScores.set(posting.nodeId, Math.max(tokenScores.get(posting.nodeId) ?? 0, score));
+      }
+
+      // 多くのノードに現れるトークンほど低く評価する
+      const idf = Math.log(1 + totalDocuments / Math.max(1, tokenScores.size));
+      const next = new Map<NodeId, number>();
+      for (const [nodeId, score] of tokenScores) {
+        if (!scores || scores.has(nodeId)) {
+          next.set(nodeId, (scores?.get(nodeId) ?? 0) + score * idf);
+        }
+      }
+      scores = next;
+    }
+
+    return scores ?? new Map();
+  }
+
+  private async isWithin(
+    node: TreeNode,
+    rootNodeId: NodeId,
+    cache: Map<NodeId, boolean>
+  ): Promise<boolean> {
+    const visited: NodeId[] = [];
+    let current: TreeNode | undefined = node;
+    let result = false;
+
+    while (current) {
+      if (current.parentId === rootNodeId) {
+        result = true;
+        break;
+      }
+      const cached = cache.get(current.parentId);
+      if (cached !== undefined) {
+        result = cached;
+        break;
+      }
+      if (!current.parentId || visited.includes(current.id)) {
+        break;
+      }
+      visited.push(current.id);
+      current = await this.coreDB.getNode(current.parentId);
+    }
+
+    for (const nodeId of visited) {
+      cache.set(nodeId, result);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * @file SpreadsheetDataService.ts
+ * @description Imports tables into SpreadsheetDB as metadata plus compressed row chunks and reads row ranges back
+ */
+
+import type { NodeId } from '@hierarchidb/common-core';
+import type {
+  SpreadsheetChunk,
+  SpreadsheetDB,
+  SpreadsheetMetadata,
+  SpreadsheetMetadataId,
+} from '../db/SpreadsheetDB';
+import { ColumnTypeTracker, type ColumnStats } from '../utils/cellValues';
+import { detectTableFormat, parseTable, type TableFormat } from '../utils/tableParser';
+
+export const ROWS_PER_CHUNK = 1000;
+
+export interface SpreadsheetImportOptions {
+  name?: string; // Defaults to the file name or URL
+  format?: TableFormat; // Detected from the name, MIME type or content when omitted
+  hasHeader?: boolean;
+  delimiter?: string;
+  encoding?: string;
+  sheetName?: string; // Excel only; the first sheet by default
+}
+
+export interface SpreadsheetRowRange {
+  startRow?: number; // Inclusive, default 0
+  endRow?: number; // Exclusive, default the row count
+  columns?: string[]; // Default every column, in table order
+}
+
+export interface SpreadsheetRows {
+  columns: string[];
+  rows: unknown[][];
+  startRow: number;
+  totalRows: number;
+}
+
+export class SpreadsheetDataService {
+  constructor(private db: SpreadsheetDB) {}
+
+  /**
+   * Store a table for a node
+   * Identical content (same bytes and parse options) reuses the stored metadata and chunks.
+   * Metadata the node referenced before is deleted when no other node references it.
+   */
+  async importTable(
+    nodeId: NodeId,
+    data: Uint8Array,
+    options: SpreadsheetImportOptions & { sourceName?: string; mimeType?: string } = {}
+  ): Promise<SpreadsheetMetadata> {
+    const format = options.format ?? detectTableFormat(data, options.sourceName, options.mimeType);
+    const contentHash = await hashContent(data, [
+      format,
+      options.hasHeader !== false,
+      options.delimiter ?? '',
+      options.encoding ?? 'utf-8',
+      options.sheetName ?? '',
+    ]);
+
+    let metadata = await this.db.findMetadataByContentHash(contentHash);
+    if (metadata) {
+      await this.db.updateLastAccessed(metadata.id);
+    } else {
+      const table = await parseTable(data, {
+        format,
+        hasHeader: options.hasHeader,
+        delimiter: options.delimiter,
+        encoding: options.encoding,
+        sheetName: options.sheetName,
+      });
+      const now = Date.now();
+      const id = crypto.randomUUID() as SpreadsheetMetadataId;
+      const chunks = await encodeChunks(id, table.rows);
+      metadata = {
+        id,
+        name: options.name ?? options.sourceName ?? 'Untitled',
+        contentHash,
+        columns: table.columns,
+        rowCount: table.rows.length,
+        totalRows: table.rows.length,
+        totalChunks: chunks.length,
+        columnCount: table.columns.length,
+        fileSize: data.byteLength,
+        originalFormat: format,
+        delimiter: table.delimiter,
+        hasHeader: options.hasHeader !== false,
+        encoding: options.encoding ?? 'utf-8',
+        stats: columnStats(table.columns, table.rows),
+        createdAt: now,
+        updatedAt: now,
+        lastAccessedAt: now,
+        version: 1,
+      };
+      await this.db.transaction('rw', this.db.spreadsheetMetadata, this.db.spreadsheetChunks, () =>
+        Promise.all([this.db.createMetadata(metadata!), this.db.createChunks(chunks)])
+      );
+    }
+
+    const previous = await this.db.getRef(nodeId);
+    const now = Date.now();
+    await this.db.putRef({
+      nodeId,
+      metadataId: metadata.id,
+      createdAt: previous?.createdAt ?? now,
+      updatedAt: now,
+      version: (previous?.version ?? 0) + 1,
+    });
+    if (previous && previous.metadataId !== metadata.id) {
+      await this.releaseMetadata(previous.metadataId);
+    }
+    const referenceCount = await this.db.countRefsForMetadata(metadata.id);
+    await this.db.spreadsheetMetadata.update(metadata.id, { referenceCount });
+    return { ...metadata, referenceCount };
+  }
+
+  /**
+   * Read a row range, decompressing only the chunks that overlap it
+   */
+  async getRows(nodeId: NodeId, range: SpreadsheetRowRange = {}): Promise<SpreadsheetRows> {
+    const ref = await this.db.getRef(nodeId);
+    if (!ref) {
+      throw new Error(`Spreadsheet not found for node ${nodeId}`);
+    }
+    return await this.getMetadataRows(ref.metadataId, range);
+  }
+
+  /**
+   * Read a row range of stored table data directly, for nodes such as StyleMaps that
+   * reference the metadata rather than a spreadsheet node
+   */
+  async getMetadataRows(
+    metadataId: SpreadsheetMetadataId,
+    range: SpreadsheetRowRange = {}
+  ): Promise<SpreadsheetRows> {
+    const metadata = await this.db.getMetadata(metadataId);
+    if (!metadata) {
+      throw new Error(`Spreadsheet metadata not found: ${metadataId}`);
+    }
+
+    const totalRows = metadata.totalRows;
+    const startRow = Math.max(0, Math.min(range.startRow ?? 0, totalRows));
+    const endRow = Math.max(startRow, Math.min(range.endRow ?? totalRows, totalRows));
+    const columns = range.columns ?? metadata.columns;
+    const indexes = columns.map((column) => {
+      const index = metadata.columns.indexOf(column);
+      if (index === -1) {
+        throw new Error(`Unknown column: ${column}`);
+      }
+      return index;
+    });
+
+    const rows: unknown[][] = [];
+    if (endRow > startRow) {
+      for (const chunk of await this.db.getChunksForRows(metadata.id, startRow, endRow)) {
+        const chunkRows = await decodeChunk(chunk);
+        const from = Math.max(startRow, chunk.rowStart) - chunk.rowStart;
+        const to = Math.min(endRow, chunk.rowEnd + 1) - chunk.rowStart;
+        for (const row of chunkRows.slice(from, to)) {
+          rows.push(range.columns ? indexes.map((index) => row[index]) : row);
+        }
+      }
+      await this.db.updateLastAccessed(metadata.id);
+    }
+    return { columns, rows, startRow, totalRows };
+  }
+
+  private async releaseMetadata(metadataId: SpreadsheetMetadataId): Promise<void> {
+    const referenceCount = await this.db.countRefsForMetadata(metadataId);
+    if (referenceCount === 0) {
+      await this.db.deleteMetadata(metadataId);
+      await this.db.deleteChunks(metadataId);
+    } else {
+      await this.db.spreadsheetMetadata.update(metadataId, { referenceCount });
+    }
+  }
+}
+
+async function hashContent(data: Uint8Array, options: unknown[]): Promise<string> {
+  const optionBytes = new TextEncoder().encode(JSON.stringify(options));
+  const input = new Uint8Array(data.byteLength + optionBytes.byteLength);
+  input.set(data);
+  input.set(optionBytes, data.byteLength);
+  const digest = await crypto.subtle.digest('SHA-256', input);
+  return [...new Uint8Array(digest)].map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Rows are stored as gzipped JSON arrays, or plain JSON where CompressionStream is unavailable
+ */
+async function encodeChunks(
+  metadataId: SpreadsheetMetadataId,
+  rows: unknown[][]
+): Promise<SpreadsheetChunk[]> {
+  const encoder = new TextEncoder();
+  const chunks: SpreadsheetChunk[] = [];
+  for (let rowStart = 0; rowStart < rows.length; rowStart += ROWS_PER_CHUNK) {
+    const chunkRows = rows.slice(rowStart, rowStart + ROWS_PER_CHUNK);
+    const json = encoder.encode(JSON.stringify(chunkRows));
+    const compressedData = await gzip(json);
+    const rowEnd = rowStart + chunkRows.length - 1;
+    const chunkIndex = chunks.length;
+    chunks.push({
+      id: `${metadataId}-${chunkIndex}`,
+      metadataId,
+      chunkIndex,
+      compressedData,
+      rowStart,
+      rowEnd,
+      startRowIndex: rowStart,
+      endRowIndex: rowEnd,
+      sizeBytes: compressedData.byteLength,
+      compressedSize: compressedData.byteLength,
+      uncompressedSize: json.byteLength,
+      firstRowPreview: JSON.stringify(chunkRows[0]).slice(0, 200),
+      contentHash: await hashContent(json, []),
+      lastAccessedAt: Date.now(),
+    });
+  }
+  return chunks;
+}
+
+export async function decodeChunk(chunk: SpreadsheetChunk): Promise<unknown[][]> {
+  const data = chunk.compressedData;
+  const json =
+    data[0] === 0x1f && data[1] === 0x8b
+      ? await new Response(
+          new Blob([data]).stream().pipeThrough(new DecompressionStream('gzip'))
+        ).text()
+      : new TextDecoder().decode(data);
+  return JSON.parse(json) as unknown[][];
+}
+
+async function gzip(data: Uint8Array): Promise<Uint8Array> {
+  if (typeof CompressionStream === 'undefined') {
+    return data;
+  }
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function columnStats(columns: string[], rows: unknown[][]): ColumnStats {
+  const tracker = new ColumnTypeTracker(columns);
+  tracker.add(rows);
+  return tracker.stats();
+}
@@ -0,0 +1,397 @@
+/**
+ * @file SpreadsheetQueryService.ts
+ * @description Filter, project, group, aggregate, sort and limit chunked spreadsheet tables
+ *
+ * Chunks are decoded one at a time and evaluated column by column, so only the columns a query
+ * references are touched and at most one chunk of rows is held besides the result.
+ */
+
+import type { NodeId } from '@hierarchidb/common-core';
+import type { SpreadsheetDB, SpreadsheetMetadata } from '../db/SpreadsheetDB';
+import {
+  ColumnTypeTracker,
+  isEmptyCell,
+  toDate,
+  toNumber,
+  type ColumnStats,
+} from '../utils/cellValues';
+import { decodeChunk } from './SpreadsheetDataService';
+
+/**
+ * Same operators as CSVFilterOperator in @hierarchidb/ui-csv-extract, whose filter rules can be
+ * passed as they are (the worker does not depend on UI packages)
+ */
+export type SpreadsheetFilterOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'not_contains'
+  | 'starts_with'
+  | 'ends_with'
+  | 'greater_than'
+  | 'less_than'
+  | 'greater_equal'
+  | 'less_equal'
+  | 'is_null'
+  | 'is_not_null'
+  | 'regex';
+
+export interface SpreadsheetFilterRule {
+  column: string;
+  operator: SpreadsheetFilterOperator;
+  value?: string | number;
+  enabled?: boolean; // Disabled rules are ignored
+}
+
+export type SpreadsheetAggregateFunction =
+  | 'count'
+  | 'count_distinct'
+  | 'sum'
+  | 'avg'
+  | 'min'
+  | 'max';
+
+export interface SpreadsheetAggregate {
+  fn: SpreadsheetAggregateFunction;
+  column?: string; // Required except for count, which then counts rows
+  as?: string; // Output column name, `fn(column)` by default
+}
+
+export interface SpreadsheetQuery {
+  filters?: SpreadsheetFilterRule[]; // All enabled rules must match
+  select?: string[]; // Output columns without groupBy/aggregates; every column by default
+  groupBy?: string[];
+  aggregates?: SpreadsheetAggregate[];
+  orderBy?: Array<{ column: string; direction?: 'asc' | 'desc' }>; // Output columns
+  offset?: number;
+  limit?: number;
+}
+
+export interface SpreadsheetQueryResult {
+  columns: string[];
+  rows: unknown[][];
+  // Matching rows, or groups when grouping, before offset/limit; a lower bound when a limit
+  // without orderBy or grouping let the scan stop early
+  totalRows: number;
+  scannedRows: number;
+  stats: ColumnStats;
+}
+
+type Vector = unknown[];
+type Accumulator = {
+  count: number;
+  sum: number;
+  min?: unknown;
+  max?: unknown;
+  distinct?: Set<unknown>;
+};
+
+export class SpreadsheetQueryService {
+  constructor(private db: SpreadsheetDB) {}
+
+  async query(nodeId: NodeId, query: SpreadsheetQuery = {}): Promise<SpreadsheetQueryResult> {
+    const ref = await this.db.getRef(nodeId);
+    const metadata = ref && (await this.db.getMetadata(ref.metadataId));
+    if (!metadata) {
+      throw new Error(`Spreadsheet not found for node ${nodeId}`);
+    }
+    const stats = await this.ensureStats(metadata);
+    const columnIndex = (column: string): number => {
+      const index = metadata.columns.indexOf(column);
+      if (index === -1) {
+        throw new Error(`Unknown column: ${column}`);
+      }
+      return index;
+    };
+    const typeOf = (column: string): 'number' | 'date' | 'text' =>
+      stats.numericColumns.includes(column)
+        ? 'number'
+        : stats.dateColumns.includes(column)
+          ? 'date'
+          : 'text';
+
+    const filters = (query.filters ?? [])
+      .filter((rule) => rule.enabled !== false)
+      .map((rule) => ({ rule, test: compileFilter(rule, typeOf(rule.column)) }));
+    const aggregates = query.aggregates ?? [];
+    const groupBy = query.groupBy ?? [];
+    const grouped = groupBy.length > 0 || aggregates.length > 0;
+    for (const aggregate of aggregates) {
+      if (!aggregate.column && aggregate.fn !== 'count') {
+        throw new Error(`${aggregate.fn} requires a column`);
+      }
+    }
+    const outputColumns = grouped
+      ? [...groupBy, ...aggregates.map(aggregateName)]
+      : (query.select ?? metadata.columns);
+
+    const order = (query.orderBy ?? []).map(({ column, direction }) => {
+      const index = outputColumns.indexOf(column);
+      if (index === -1) {
+        throw new Error(`Cannot order by ${column}: not an output column`);
+      }
+      return { index, sign: direction === 'desc' ? -1 : 1 };
+    });
+
+    // Only the referenced columns are read from each chunk
+    const referenced = new Set([
+      ...filters.map(({ rule }) => rule.column),
+      ...(grouped ? groupBy : outputColumns),
+      ...aggregates.flatMap((aggregate) => (aggregate.column ? [aggregate.column] : [])),
+    ]);
+    const indexes = new Map([...referenced].map((column) => [column, columnIndex(column)]));
+
+    const rows: unknown[][] = [];
+    const groups = new Map<string, { keys: unknown[]; accumulators: Accumulator[] }>();
+    let scannedRows = 0;
+    // Without sorting or grouping, scanning can stop once the requested page is filled
+    const stopAfter =
+      !grouped && order.length === 0 && query.limit !== undefined
+        ? (query.offset ?? 0) + query.limit
+        : Infinity;
+
+    for (let chunkIndex = 0; chunkIndex < metadata.totalChunks; chunkIndex++) {
+      if (rows.length >= stopAfter) {
+        break;
+      }
+      const chunk = await this.db.getChunk(metadata.id, chunkIndex);
+      if (!chunk) {
+        throw new Error(`Spreadsheet chunk ${chunkIndex} is missing for ${metadata.id}`);
+      }
+      const chunkRows = await decodeChunk(chunk);
+      scannedRows += chunkRows.length;
+
+      const vectors = new Map<string, Vector>();
+      for (const [column, index] of indexes) {
+        vectors.set(
+          column,
+          chunkRows.map((row) => row[index])
+        );
+      }
+      let selection = chunkRows.map((_, row) => row);
+      for (const { rule, test } of filters) {
+        const vector = vectors.get(rule.column)!;
+        selection = selection.filter((row) => test(vector[row]));
+      }
+
+      if (!grouped) {
+        const projected = outputColumns.map((column) => vectors.get(column)!);
+        for (const row of selection) {
+          if (rows.length >= stopAfter) {
+            break;
+          }
+          rows.push(projected.map((vector) => vector[row]));
+        }
+        continue;
+      }
+
+      const keyVectors = groupBy.map((column) => vectors.get(column)!);
+      const valueVectors = aggregates.map((aggregate) =>
+        aggregate.column ? vectors.get(aggregate.column)! : undefined
+      );
+      for (const row of selection) {
+        const keys = keyVectors.map((vector) => vector[row]);
+        const groupKey = JSON.stringify(keys);
+        let group = groups.get(groupKey);
+        if (!group) {
+          group = { keys, accumulators: aggregates.map(createAccumulator) };
+          groups.set(groupKey, group);
+        }
+        aggregates.forEach((aggregate, index) => {
+          const vector = valueVectors[index];
+          accumulate(
+            group!.accumulators[index]!,
+            aggregate,
+            vector ? vector[row] : true,
+            aggregate.column ? typeOf(aggregate.column) : 'text'
+          );
+        });
+      }
+    }
+    await this.db.updateLastAccessed(metadata.id);
+
+    if (grouped) {
+      // An aggregate without groupBy still yields one row, even when nothing matched
+      if (groupBy.length === 0 && groups.size === 0) {
+        groups.set('[]', { keys: [], accumulators: aggregates.map(createAccumulator) });
+      }
+      for (const { keys, accumulators } of groups.values()) {
+        rows.push([
+          ...keys,
+          ...aggregates.map((aggregate, index) => finish(aggregate, accumulators[index]!)),
+        ]);
+      }
+    }
+
+    if (order.length > 0) {
+      rows.sort((a, b) => {
+        for (const { index, sign } of order) {
+          const result = compareCells(a[index], b[index]);
+          if (result !== 0) {
+            // Empty cells sort last in either direction
+            return isEmptyCell(a[index]) || isEmptyCell(b[index]) ? result : result * sign;
+          }
+        }
+        return 0;
+      });
+    }
+
+    const offset = query.offset ?? 0;
+    return {
+      columns: outputColumns,
+      rows: rows.slice(offset, query.limit === undefined ? undefined : offset + query.limit),
+      totalRows: rows.length,
+      scannedRows,
+      stats,
+    };
+  }
+
+  /**
+   * Column types from a full scan, for tables stored without them (e.g. imported from archives)
+   */
+  private async ensureStats(metadata: SpreadsheetMetadata): Promise<ColumnStats> {
+    if (metadata.stats) {
+      return metadata.stats;
+    }
+    const tracker = new ColumnTypeTracker(metadata.columns);
+    for (let chunkIndex = 0; chunkIndex < metadata.totalChunks; chunkIndex++) {
+      const chunk = await this.db.getChunk(metadata.id, chunkIndex);
+      if (chunk) {
+        tracker.add(await decodeChunk(chunk));
+      }
+    }
+    const stats = tracker.stats();
+    await this.db.spreadsheetMetadata.update(metadata.id, { stats });
+    return stats;
+  }
+}
+
+function aggregateName(aggregate: SpreadsheetAggregate): string {
+  return aggregate.as ?? (aggregate.column ? `${aggregate.fn}(${aggregate.column})` : aggregate.fn);
+}
+
+/**
+ * Comparisons are numeric on numeric columns, chronological on date columns and textual otherwise
+ */
+function compileFilter(
+  rule: SpreadsheetFilterRule,
+  type: 'number' | 'date' | 'text'
+): (value: unknown) => boolean {
+  const text = String(rule.value ?? '');
+  const toComparable = (value: unknown): unknown =>
+    type === 'number' ? toNumber(value) : type === 'date' ? toDate(value) : value;
+  const target = toComparable(rule.value);
+  const compare = (value: unknown): number | undefined => {
+    if (isEmptyCell(value)) {
+      return undefined;
+    }
+    const comparable = toComparable(value);
+    if (comparable === undefined || target === undefined) {
+      return undefined;
+    }
+    return compareCells(comparable, target);
+  };
+
+  switch (rule.operator) {
+    case 'equals':
+      return (value) => (type === 'text' ? String(value ?? '') === text : compare(value) === 0);
+    case 'not_equals':
+      return (value) => (type === 'text' ? String(value ?? '') !== text : compare(value) !== 0);
+    case 'contains':
+      return (value) => String(value ?? '').includes(text);
+    case 'not_contains':
+      return (value) => !String(value ?? '').includes(text);
+    case 'starts_with':
+      return (value) => String(value ?? '').startsWith(text);
+    case 'ends_with':
+      return (value) => String(value ?? '').endsWith(text);
+    case 'greater_than':
+      return (value) => (compare(value) ?? 0) > 0;
+    case 'less_than':
+      return (value) => (compare(value) ?? 0) < 0;
+    case 'greater_equal':
+      return (value) => {
+        const result = compare(value);
+        return result !== undefined && result >= 0;
+      };
+    case 'less_equal':
+      return (value) => {
+        const result = compare(value);
+        return result !== undefined && result <= 0;
+      };
+    case 'is_null':
+      return isEmptyCell;
+    case 'is_not_null':
+      return (value) => !isEmptyCell(value);
+    case 'regex': {
+      const pattern = new RegExp(text);
+      return (value) => pattern.test(String(value ?? ''));
+    }
+    default:
+      throw new Error(`Unsupported filter operator: ${rule.operator}`);
+  }
+}
+
+function compareCells(a: unknown, b: unknown): number {
+  if (isEmptyCell(a) || isEmptyCell(b)) {
+    return isEmptyCell(a) === isEmptyCell(b) ? 0 : isEmptyCell(a) ? 1 : -1;
+  }
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x !== undefined && y !== undefined) {
+    return x - y;
+  }
+  return String(a).localeCompare(String(b));
+}
+
+function createAccumulator(aggregate: SpreadsheetAggregate): Accumulator {
+  return {
+    count: 0,
+    sum: 0,
+    ...(aggregate.fn === 'count_distinct' && { distinct: new Set() }),
+  };
+}
+
+function accumulate(
+  accumulator: Accumulator,
+  aggregate: SpreadsheetAggregate,
+  value: unknown,
+  type: 'number' | 'date' | 'text'
+): void {
+  if (isEmptyCell(value)) {
+    return;
+  }
+  accumulator.count++;
+  accumulator.distinct?.add(value);
+  if (aggregate.fn === 'sum' || aggregate.fn === 'avg') {
+    accumulator.sum += toNumber(value) ?? 0;
+  }
+  if (aggregate.fn === 'min' || aggregate.fn === 'max') {
+    // Numbers are returned as numbers; dates compare by time but are returned as written
+    const cell = type === 'number' ? toNumber(value) : value;
+    const key = (candidate: unknown) => (type === 'date' ? toDate(candidate) : candidate);
+    if (accumulator.min === undefined || compareCells(key(cell), key(accumulator.min)) < 0) {
+      accumulator.min = cell;
+    }
+    if (accumulator.max === undefined || compareCells(key(cell), key(accumulator.max)) > 0) {
+      accumulator.max = cell;
+    }
+  }
+}
+
+function finish(aggregate: SpreadsheetAggregate, accumulator: Accumulator): unknown {
+  switch (aggregate.fn) {
+    case 'count':
+      return accumulator.count;
+    case 'count_distinct':
+      return accumulator.distinct!.size;
+    case 'sum':
+      return accumulator.sum;
+    case 'avg':
+      return accumulator.count > 0 ? accumulator.sum / accumulator.count : null;
+    case 'min':
+      return accumulator.min ?? null;
+    case 'max':
+      return accumulator.max ?? null;
+  }
+}
@@ -306,7 +306,8 @@ describe('TreeMutationService', () => {
           coreDB,
           workingCopyId,
           false,
-          'auto-rename'
+          'auto-rename',
+          expectedUpdatedAt
         );
       });
 
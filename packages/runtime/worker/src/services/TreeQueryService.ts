@@ -3,18 +3,41 @@ import type {
   CommandResult,
   CopyNodesPayload,
   ExportNodesPayload,
+  FullTextSearchOptions,
   GetAncestorsPayload,
   GetChildrenPayload,
   GetDescendantsPayload,
+  NodeQueryOptions,
+  NodeQueryResult,
+  NodeRevision,
+  NodeRevisionDiff,
+  OperationRecord,
+  RevisionId,
+  SearchHit,
+  SmartFolderQuery,
   Tree,
   TreeNode,
   NodeId,
   TreeId,
 } from '@hierarchidb/common-core';
+import { SMART_FOLDER_NODE_TYPE } from '@hierarchidb/common-core';
 import type { CoreDB } from '../db/CoreDB';
+import { diffSnapshotFields } from '../command/NodeSnapshots';
+import type { JournalDB } from '../db/JournalDB';
+import type { RevisionDB } from '../db/RevisionDB';
+import { NodeRegistry } from '../registry/NodeRegistry';
+import type { SearchIndexService } from './SearchIndexService';
+import { collectNodeReferences, matchesNodeQuery, parseNodeQuery } from '../utils/nodeQuery';
+
+const DEFAULT_QUERY_LIMIT = 100;
 
 export class TreeQueryService implements TreeQueryAPI {
-  constructor(private coreDB: CoreDB) {}
+  constructor(
+    private coreDB: CoreDB,
+    private journalDB?: JournalDB,
+    private revisionDB?: RevisionDB,
+    private searchIndex?: SearchIndexService
+  ) {}
 
   // Basic Query Operations
 
@@ -26,8 +49,9 @@ export class TreeQueryService implements TreeQueryAPI {
     return await this.coreDB.getTree?.(treeId);
   }
 
-  async listTrees(): Promise<Tree[]> {
-    return (await this.coreDB.listTrees?.()) || [];
+  async listTrees(options: { includeArchived?: boolean } = {}): Promise<Tree[]> {
+    const trees = (await this.coreDB.listTrees?.()) || [];
+    return options.includeArchived ? trees : trees.filter((tree) => !tree.archivedAt);
   }
 
   async getNode(nodeId: NodeId): Promise<TreeNode | undefined> {
@@ -150,6 +174,163 @@ export class TreeQueryService implements TreeQueryAPI {
     return results;
   }
 
+  async searchFullText(options: FullTextSearchOptions): Promise<SearchHit[]> {
+    if (!this.searchIndex) {
+      return [];
+    }
+    return await this.searchIndex.search(options);
+  }
+
+  async queryNodes(options: NodeQueryOptions): Promise<NodeQueryResult> {
+    return await this.executeNodeQuery(options);
+  }
+
+  async listSmartFolderChildren(
+    nodeId: NodeId,
+    page: { offset?: number; limit?: number } = {}
+  ): Promise<NodeQueryResult> {
+    const node = await this.coreDB.getNode(nodeId);
+    if (!node || node.nodeType !== SMART_FOLDER_NODE_TYPE) {
+      return { success: false, error: `Not a smart folder: ${nodeId}` };
+    }
+    const entity = (await NodeRegistry.getInstance()
+      .getEntityHandler(SMART_FOLDER_NODE_TYPE)
+      ?.getEntity(nodeId)) as Partial<SmartFolderQuery> | undefined;
+    if (!entity) {
+      return { success: false, error: `Smart folder query not found: ${nodeId}` };
+    }
+
+    const { query, rootNodeId, treeId, sortBy, sortOrder, includeRemoved } = entity;
+    // 他のスマートフォルダは結果に含めない（仮想的な子の入れ子・循環を避ける）
+    return await this.executeNodeQuery(
+      { query: query ?? '', rootNodeId, treeId, sortBy, sortOrder, includeRemoved, ...page },
+      (candidate) => candidate.nodeType === SMART_FOLDER_NODE_TYPE
+    );
+  }
+
+  private async executeNodeQuery(
+    options: NodeQueryOptions,
+    exclude?: (node: TreeNode) => boolean
+  ): Promise<NodeQueryResult> {
+    const parsed = parseNodeQuery(options.query);
+    if ('error' in parsed) {
+      return { success: false, error: parsed.error, position: parsed.position };
+    }
+
+    const scope = await this.getQueryScope(options);
+    if ('error' in scope) {
+      return { success: false, error: scope.error };
+    }
+
+    // 範囲内のノードを祖先IDとともに幅優先で収集
+    const ancestorsById = new Map<NodeId, NodeId[]>();
+    const childCounts = new Map<NodeId, number>();
+    const candidates: TreeNode[] = [];
+    // 子孫をたどる起点と、その子にとっての祖先ID
+    const queue = scope.map((root) => ({ id: root.id, ancestors: [...root.ancestors, root.id] }));
+    const visit = (node: TreeNode, ancestors: NodeId[]) => {
+      ancestorsById.set(node.id, ancestors);
+      candidates.push(node);
+      queue.push({ id: node.id, ancestors: [...ancestors, node.id] });
+    };
+    const collectFrom = async (start: number) => {
+      for (let i = start; i < queue.length; i++) {
+        const { id, ancestors } = queue[i]!;
+        const children = await this.coreDB.nodes.where('parentId').equals(id).toArray();
+        for (const child of children) {
+          if (ancestorsById.has(child.id) || (child.removedAt && !options.includeRemoved)) {
+            continue;
+          }
+          childCounts.set(id, (childCounts.get(id) ?? 0) + 1);
+          visit(child, ancestors);
+        }
+      }
+    };
+
+    await collectFrom(0);
+    if (options.includeRemoved) {
+      // ゴミ箱へ移動したノードは元の親の位置で範囲判定する
+      const parents = new Map(queue.map((entry) => [entry.id, entry.ancestors]));
+      const removed = await this.coreDB.nodes.where('removedAt').above(0).toArray();
+      const start = queue.length;
+      for (const node of removed) {
+        const ancestors = node.originalParentId ? parents.get(node.originalParentId) : undefined;
+        if (ancestors && !ancestorsById.has(node.id)) {
+          visit(node, ancestors);
+        }
+      }
+      await collectFrom(start);
+    }
+
+    const references = collectNodeReferences(parsed.expression);
+    const resolvedNodeIds = new Map<string, NodeId | undefined>();
+    for (const reference of new Set(references)) {
+      resolvedNodeIds.set(reference, await this.resolveNodeReference(reference));
+    }
+
+    const matched = candidates.filter(
+      (node) =>
+        !exclude?.(node) &&
+        matchesNodeQuery(node, parsed.expression, {
+          resolvedNodeIds,
+          ancestorIds: (candidate) => ancestorsById.get(candidate.id) ?? [],
+          hasChildren: (candidate) => (childCounts.get(candidate.id) ?? 0) > 0,
+        })
+    );
+
+    const sortBy = options.sortBy ?? parsed.sort?.field ?? 'name';
+    const sortOrder = options.sortOrder ?? (options.sortBy ? 'asc' : parsed.sort?.order) ?? 'asc';
+    const direction = sortOrder === 'desc' ? -1 : 1;
+    matched.sort((a, b) => {
+      const valueA = a[sortBy];
+      const valueB = b[sortBy];
+      const compared =
+        typeof valueA === 'number' && typeof valueB === 'number'
+          ? valueA - valueB
+          : String(valueA).localeCompare(String(valueB));
+      return compared * direction || a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+    });
+
+    const offset = Math.max(0, options.offset ?? 0);
+    const limit = Math.max(0, options.limit ?? DEFAULT_QUERY_LIMIT);
+    return {
+      success: true,
+      nodes: matched.slice(offset, offset + limit),
+      total: matched.length,
+      offset,
+      limit,
+    };
+  }
+
+  async listRecentOperations(treeId: TreeId, limit: number = 50): Promise<OperationRecord[]> {
+    if (!this.journalDB) {
+      return [];
+    }
+    return await this.journalDB.listRecentOperations(treeId, limit);
+  }
+
+  async listNodeRevisions(nodeId: NodeId): Promise<NodeRevision[]> {
+    return (await this.revisionDB?.listRevisions(nodeId)) ?? [];
+  }
+
+  async diffNodeRevisions(
+    fromRevisionId: RevisionId,
+    toRevisionId: RevisionId
+  ): Promise<NodeRevisionDiff | undefined> {
+    const from = await this.revisionDB?.getRevision(fromRevisionId);
+    const to = await this.revisionDB?.getRevision(toRevisionId);
+    if (!from || !to || from.nodeId !== to.nodeId) {
+      return undefined;
+    }
+
+    return {
+      nodeId: from.nodeId,
+      fromRevisionId,
+      toRevisionId,
+      changes: diffSnapshotFields(from, to),
+    };
+  }
+
   // Legacy methods for backward compatibility
   async getChildren(payload: GetChildrenPayload): Promise<TreeNode[]> {
     const { parentId, sortBy = 'createdAt', sortOrder = 'asc', limit, offset } = payload;
@@ -401,6 +582,71 @@ export class TreeQueryService implements TreeQueryAPI {
 
   // Helper Methods
 
+  /**
+   * Root nodes a query searches under, with the IDs of their own ancestors
+   */
+  private async getQueryScope(
+    options: NodeQueryOptions
+  ): Promise<{ id: NodeId; ancestors: NodeId[] }[] | { error: string }> {
+    if (options.rootNodeId) {
+      const root = await this.getNode(options.rootNodeId);
+      if (!root) {
+        return { error: `Node not found: ${options.rootNodeId}` };
+      }
+      const ancestors: NodeId[] = [];
+      let current: TreeNode | undefined = root;
+      while (current?.parentId && !ancestors.includes(current.parentId)) {
+        ancestors.unshift(current.parentId);
+        current = await this.coreDB.getNode(current.parentId);
+      }
+      return [{ id: root.id, ancestors }];
+    }
+
+    if (options.treeId) {
+      const tree = await this.getTree(options.treeId);
+      if (!tree) {
+        return { error: `Tree not found: ${options.treeId}` };
+      }
+      return [{ id: tree.rootId, ancestors: [tree.superRootId] }];
+    }
+
+    const trees = await this.listTrees();
+    return trees.map((tree) => ({ id: tree.rootId, ancestors: [tree.superRootId] }));
+  }
+
+  /**
+   * Resolve a `parent:` / `ancestor:` value: a node ID, or a name path such as `/Projects/Tokyo`
+   * whose first segment is the tree name
+   */
+  private async resolveNodeReference(reference: string): Promise<NodeId | undefined> {
+    if (!reference.startsWith('/')) {
+      return (await this.getNode(reference as NodeId))?.id;
+    }
+
+    const [treeName, ...names] = reference.split('/').filter(Boolean);
+    if (!treeName) {
+      return undefined;
+    }
+    const trees = await this.listTrees({ includeArchived: true });
+    const tree = trees.find(
+      (candidate) =>
+        candidate.id === treeName || candidate.name.toLowerCase() === treeName.toLowerCase()
+    );
+
+    let currentId = tree?.rootId;
+    for (const name of names) {
+      if (!currentId) {
+        break;
+      }
+      const children = await this.coreDB.listChildren(currentId);
+      const child =
+        children.find((candidate) => candidate.name === name) ??
+        children.find((candidate) => candidate.name.toLowerCase() === name.toLowerCase());
+      currentId = child?.id;
+    }
+    return currentId;
+  }
+
   private async getAllDescendantsWithSelf(nodeId: NodeId): Promise<TreeNode[]> {
     const result: TreeNode[] = [];
     const visited = new Set<NodeId>();
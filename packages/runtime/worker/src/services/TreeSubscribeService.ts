@@ -5,20 +5,34 @@ import type {
   ObserveNodePayload,
   ObserveSubtreePayload,
   ObserveWorkingCopiesPayload,
+  ObserveSmartFolderPayload,
+  NodeQueryResult,
   SubscriptionFilter,
+  SubscriptionId,
   Timestamp,
   TreeChangeEvent,
   TreeNode,
   NodeId,
   TreeId,
 } from '@hierarchidb/common-core';
-import { map, type Observable, filter as rxFilter, Subject, share, startWith } from 'rxjs';
+import {
+  debounceTime,
+  from,
+  map,
+  type Observable,
+  filter as rxFilter,
+  Subject,
+  type Subscription,
+  share,
+  startWith,
+  switchMap,
+} from 'rxjs';
 import type { CoreDB } from '../db/CoreDB';
 import { TreeQueryService } from './TreeQueryService';
 
 interface SubscriptionInfo {
   id: string;
-  type: 'node' | 'childNodes' | 'subtree' | 'working-copies';
+  type: 'node' | 'childNodes' | 'subtree' | 'working-copies' | 'smart-folder';
   nodeId: NodeId;
   filter?: SubscriptionFilter;
   subject: Subject<TreeChangeEvent>;
@@ -26,14 +40,22 @@ interface SubscriptionInfo {
   lastActivity: number;
 }
 
+// 連続した変更（一括移動など）をまとめてからスマートフォルダのクエリを再実行する
+const SMART_FOLDER_REFRESH_DEBOUNCE_MS = 100;
+
 // TODO: Refactor to properly implement TreeSubscriptionAPI
 // Currently has different method names (subscribeNode consistency, etc.)
 export class TreeSubscribeService {
   private subscriptions = new Map<string, SubscriptionInfo>();
   private globalChangeSubject = new Subject<TreeChangeEvent>();
   private subscriptionCounter = 0;
+  // コールバック形式で購読中のスマートフォルダ
+  private smartFolderSubscriptions = new Map<string, Subscription>();
+  private queryService: TreeQueryService;
 
   constructor(private coreDB: CoreDB) {
+    this.queryService = new TreeQueryService(this.coreDB);
+
     // CoreDBのchangeSubjectを購読してグローバルな変更イベントを中継
     this.coreDB.changeSubject.subscribe({
       next: (event) => {
@@ -283,6 +305,87 @@ export class TreeSubscribeService {
     return resultObservable;
   }
 
+  /**
+   * Observe the live children of a smart folder
+   * Emits the current query result immediately and again after every batch of node changes
+   */
+  observeSmartFolder(
+    cmd: CommandEnvelope<'observeSmartFolder', ObserveSmartFolderPayload>
+  ): Observable<NodeQueryResult> {
+    const { nodeId, offset, limit } = cmd.payload;
+
+    const subscriptionId = this.generateSubscriptionId();
+    const subject = new Subject<TreeChangeEvent>();
+
+    this.subscriptions.set(subscriptionId, {
+      id: subscriptionId,
+      type: 'smart-folder',
+      nodeId,
+      subject,
+      isActive: true,
+      lastActivity: Date.now(),
+    });
+
+    // どのノードの変更でもクエリ結果は変わりうるため、すべての変更を対象にする
+    const subscription = this.globalChangeSubject.subscribe({
+      next: (event) => {
+        subject.next(event);
+        this.updateSubscriptionActivity(subscriptionId);
+      },
+    });
+
+    const resultObservable = subject.pipe(
+      debounceTime(SMART_FOLDER_REFRESH_DEBOUNCE_MS),
+      startWith(undefined),
+      switchMap(() => from(this.queryService.listSmartFolderChildren(nodeId, { offset, limit })))
+    );
+
+    // Set up unsubscribe handler
+    const originalSubscribe = resultObservable.subscribe.bind(resultObservable);
+    resultObservable.subscribe = (observer: any) => {
+      const sub = originalSubscribe(observer);
+      const originalUnsubscribe = sub.unsubscribe.bind(sub);
+      sub.unsubscribe = () => {
+        subscription.unsubscribe();
+        this.deactivateSubscription(subscriptionId);
+        originalUnsubscribe();
+      };
+      return sub;
+    };
+
+    return resultObservable;
+  }
+
+  /**
+   * Callback form of observeSmartFolder for the UI (TreeSubscriptionAPI)
+   */
+  subscribeSmartFolder(
+    nodeId: NodeId,
+    callback: (result: NodeQueryResult) => void,
+    page: { offset?: number; limit?: number } = {}
+  ): Promise<SubscriptionId> {
+    const subscriptionId = this.generateSubscriptionId() as SubscriptionId;
+    const cmd: CommandEnvelope<'observeSmartFolder', ObserveSmartFolderPayload> = {
+      commandId: subscriptionId,
+      groupId: subscriptionId,
+      kind: 'observeSmartFolder',
+      payload: { nodeId, ...page },
+      issuedAt: Date.now(),
+    };
+
+    this.smartFolderSubscriptions.set(
+      subscriptionId,
+      this.observeSmartFolder(cmd).subscribe({ next: callback })
+    );
+    return Promise.resolve(subscriptionId);
+  }
+
+  unsubscribe(subscriptionId: SubscriptionId): Promise<void> {
+    this.smartFolderSubscriptions.get(subscriptionId)?.unsubscribe();
+    this.smartFolderSubscriptions.delete(subscriptionId);
+    return Promise.resolve();
+  }
+
   getActiveSubscriptions(): Promise<number> {
     return Promise.resolve(
       Array.from(this.subscriptions.values()).filter((sub) => sub.isActive).length
@@ -296,7 +399,10 @@ export class TreeSubscribeService {
     const toDelete: string[] = [];
 
     for (const [id, subscription] of this.subscriptions.entries()) {
-      if (!subscription.isActive || now - subscription.lastActivity > maxInactiveTime) {
+      // スマートフォルダは変更がなくても表示中は維持し、unsubscribeで解除する
+      const isIdle =
+        subscription.type !== 'smart-folder' && now - subscription.lastActivity > maxInactiveTime;
+      if (!subscription.isActive || isIdle) {
         subscription.subject.complete();
         toDelete.push(id);
       }
@@ -759,6 +865,8 @@ export class TreeSubscribeService {
 
     // Clear all subscriptions
     this.subscriptions.clear();
+    this.smartFolderSubscriptions.forEach((subscription) => subscription.unsubscribe());
+    this.smartFolderSubscriptions.clear();
 
     return Promise.resolve(count);
   }
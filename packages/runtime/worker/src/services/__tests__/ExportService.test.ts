@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  NodeIdGenerator,
+  type ExportPackage,
+  type ExportProgress,
+  type NodeId,
+  type TreeId,
+  type TreeViewState,
+} from '@hierarchidb/common-core';
+import { CoreDB } from '../../db/CoreDB';
+import { EphemeralDB } from '../../db/EphemeralDB';
+import {
+  SpreadsheetDB,
+  type SpreadsheetChunk,
+  type SpreadsheetMetadata,
+  type SpreadsheetMetadataId,
+} from '../../db/SpreadsheetDB';
+import { SpreadsheetWorkerHandler } from '../../handlers/SpreadsheetWorkerHandler';
+import type { EntityHandler, PluginDefinition } from '../../registry/plugin';
+import { NodeRegistry } from '../../registry/NodeRegistry';
+import { parseArchiveJson } from '../../utils/archiveJson';
+import { readZipArchive } from '../../utils/zipArchive';
+import { ExportService } from '../ExportService';
+import { TreeQueryService } from '../TreeQueryService';
+import { createNode } from './testNodes';
+
+/**
+ * エクスポートのテスト
+ * プラグインのエンティティ・共有データ・UI状態がアーカイブに含まれることを確認します。
+ */
+
+const treeId = 'p' as TreeId;
+const projectsRoot = NodeIdGenerator.rootNode(treeId);
+const metadataId = 'population-table' as SpreadsheetMetadataId;
+
+describe('ExportService', () => {
+  let coreDB: CoreDB;
+  let ephemeralDB: EphemeralDB;
+  let spreadsheetDB: SpreadsheetDB;
+  let service: ExportService;
+
+  beforeEach(async () => {
+    const dbName = `export-test-${crypto.randomUUID()}`;
+    coreDB = new CoreDB(dbName);
+    await coreDB.createTree(treeId, 'Projects');
+    ephemeralDB = new EphemeralDB(dbName);
+    spreadsheetDB = new SpreadsheetDB(`${dbName}-spreadsheet`);
+    const handler = new SpreadsheetWorkerHandler(spreadsheetDB);
+    vi.spyOn(NodeRegistry.getInstance(), 'getEntityHandler').mockImplementation((nodeType) =>
+      nodeType === 'spreadsheet' ? (handler as unknown as EntityHandler) : undefined
+    );
+    vi.spyOn(NodeRegistry.getInstance(), 'getPluginDefinition').mockImplementation((nodeType) =>
+      nodeType === 'spreadsheet'
+        ? ({ database: { tableName: 'spreadsheetRefs' } } as PluginDefinition)
+        : undefined
+    );
+    service = new ExportService(coreDB, new TreeQueryService(coreDB), ephemeralDB);
+
+    await coreDB.bulkCreateNodes([
+      createNode('tables', projectsRoot, 'folder', 'Tables'),
+      createNode('population', 'tables' as NodeId, 'spreadsheet', 'Population'),
+      createNode('population-copy', 'tables' as NodeId, 'spreadsheet', 'Population (copy)'),
+    ]);
+    await spreadsheetDB.createMetadata({
+      id: metadataId,
+      name: 'population.csv',
+      rowCount: 2,
+    } as SpreadsheetMetadata);
+    await spreadsheetDB.createChunks([
+      {
+        id: 'chunk-0',
+        metadataId,
+        chunkIndex: 0,
+        compressedData: new Uint8Array([1, 2, 3]),
+      } as SpreadsheetChunk,
+    ]);
+    for (const nodeId of ['population', 'population-copy']) {
+      await spreadsheetDB.createRef({
+        nodeId: nodeId as NodeId,
+        metadataId,
+        createdAt: 1,
+        updatedAt: 1,
+        version: 1,
+      });
+    }
+    await ephemeralDB.views.bulkAdd([
+      { treeViewId: 'view-p', treeId, expanded: { tables: true } } as unknown as TreeViewState,
+      { treeViewId: 'view-other', treeId: 'other' } as unknown as TreeViewState,
+    ]);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    coreDB.close();
+    ephemeralDB.close();
+    spreadsheetDB.close();
+  });
+
+  it('ZIPにノード・ストアごとのエンティティ・UI状態を格納する', async () => {
+    const phases = new Set<ExportProgress['phase']>();
+
+    const result = await service.exportToZIP({
+      nodeIds: ['tables' as NodeId],
+      includeResources: true,
+      includeUIStates: true,
+      progressCallback: (progress) => phases.add(progress.phase),
+    });
+
+    expect(result).toMatchObject({ success: true, exportedNodeCount: 3, errors: [] });
+    const entries = await readZipArchive(result.blob!);
+    const read = <T>(path: string): T =>
+      parseArchiveJson<T>(new TextDecoder().decode(entries.get(path)));
+
+    expect([...entries.keys()]).toEqual([
+      'manifest.json',
+      'tree-nodes.json',
+      'entities/spreadsheet/spreadsheetRefs.json',
+      'entities/spreadsheet/spreadsheetMetadata.json',
+      'entities/spreadsheet/spreadsheetChunks.json',
+      'ui-states.json',
+    ]);
+    expect(read<ExportPackage['manifest']>('manifest.json')).toMatchObject({
+      format: 'zip',
+      nodeCount: 3,
+      contents: { resources: true, vectorTiles: false, uiStates: true },
+    });
+    expect(read<unknown[]>('entities/spreadsheet/spreadsheetRefs.json')).toHaveLength(2);
+    // 2つのノードが共有する表データは一度だけ格納される
+    expect(read<unknown[]>('entities/spreadsheet/spreadsheetMetadata.json')).toHaveLength(1);
+    expect(
+      read<SpreadsheetChunk[]>('entities/spreadsheet/spreadsheetChunks.json')[0]
+    ).toMatchObject({
+      compressedData: new Uint8Array([1, 2, 3]),
+    });
+    expect(read<TreeViewState[]>('ui-states.json').map((view) => view.treeViewId)).toEqual([
+      'view-p',
+    ]);
+    expect([...phases]).toEqual([
+      'collecting-nodes',
+      'collecting-resources',
+      'creating-archive',
+      'finalizing',
+    ]);
+  });
+
+  it('JSONエクスポートはフラグ未指定ならノードのみを含む', async () => {
+    const result = await service.exportToJSON({ nodeIds: ['tables' as NodeId] });
+
+    expect(result.success).toBe(true);
+    const exportPackage = parseArchiveJson<ExportPackage>(await result.blob!.text());
+    expect(exportPackage.nodeIds).toEqual(['tables', 'population', 'population-copy']);
+    expect(exportPackage.entities).toBeUndefined();
+    expect(exportPackage.uiStates).toBeUndefined();
+    expect(exportPackage.manifest.format).toBe('json');
+  });
+});
@@ -0,0 +1,280 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NodeIdGenerator, type NodeId, type TreeId } from '@hierarchidb/common-core';
+import { CommandProcessor } from '../../command/CommandProcessor';
+import { CoreDB } from '../../db/CoreDB';
+import { EphemeralDB } from '../../db/EphemeralDB';
+import {
+  SpreadsheetDB,
+  type SpreadsheetChunk,
+  type SpreadsheetMetadata,
+  type SpreadsheetMetadataId,
+} from '../../db/SpreadsheetDB';
+import { SpreadsheetWorkerHandler } from '../../handlers/SpreadsheetWorkerHandler';
+import type { EntityHandler, PluginDefinition } from '../../registry/plugin';
+import { NodeRegistry } from '../../registry/NodeRegistry';
+import { ExportService } from '../ExportService';
+import { ImportService } from '../ImportService';
+import { TreeMutationService } from '../TreeMutationService';
+import { TreeQueryService } from '../TreeQueryService';
+import { createNode } from './testNodes';
+
+/**
+ * インポートのテスト
+ * エクスポートしたバンドルを取り込み、エンティティのノードID・共有データの参照が
+ * 振り直されることを確認します。
+ */
+
+const treeId = 'p' as TreeId;
+const projectsRoot = NodeIdGenerator.rootNode(treeId);
+const metadataId = 'population-table' as SpreadsheetMetadataId;
+
+describe('ImportService', () => {
+  let coreDB: CoreDB;
+  let ephemeralDB: EphemeralDB;
+  let spreadsheetDB: SpreadsheetDB;
+  let importService: ImportService;
+  let bundle: File;
+  let schemaVersion: number;
+
+  beforeEach(async () => {
+    const dbName = `import-test-${crypto.randomUUID()}`;
+    coreDB = new CoreDB(dbName);
+    await coreDB.createTree(treeId, 'Projects');
+    ephemeralDB = new EphemeralDB(dbName);
+    spreadsheetDB = new SpreadsheetDB(`${dbName}-spreadsheet`);
+    const handler = new SpreadsheetWorkerHandler(spreadsheetDB);
+    schemaVersion = 1;
+    vi.spyOn(NodeRegistry.getInstance(), 'getEntityHandler').mockImplementation((nodeType) =>
+      nodeType === 'spreadsheet' ? (handler as unknown as EntityHandler) : undefined
+    );
+    vi.spyOn(NodeRegistry.getInstance(), 'getPluginDefinition').mockImplementation((nodeType) =>
+      nodeType === 'spreadsheet'
+        ? ({
+            database: { tableName: 'spreadsheetRefs', version: schemaVersion },
+            meta: { entityHints: { relRefField: 'metadataId' } },
+          } as PluginDefinition)
+        : undefined
+    );
+
+    const mutationService = new TreeMutationService(
+      coreDB,
+      ephemeralDB,
+      new CommandProcessor(),
+      {} as any
+    );
+    importService = new ImportService(coreDB, mutationService);
+
+    await coreDB.bulkCreateNodes([
+      createNode('tables', projectsRoot, 'folder', 'Tables'),
+      createNode('population', 'tables' as NodeId, 'spreadsheet', 'Population'),
+      createNode('population-copy', 'tables' as NodeId, 'spreadsheet', 'Population (copy)'),
+    ]);
+    await spreadsheetDB.createMetadata({
+      id: metadataId,
+      name: 'population.csv',
+      contentHash: 'hash-1',
+      referenceCount: 2,
+    } as SpreadsheetMetadata);
+    await spreadsheetDB.createChunks([
+      {
+        id: 'chunk-0',
+        metadataId,
+        chunkIndex: 0,
+        compressedData: new Uint8Array([1, 2, 3]),
+      } as SpreadsheetChunk,
+    ]);
+    for (const nodeId of ['population', 'population-copy']) {
+      await spreadsheetDB.createRef({
+        nodeId: nodeId as NodeId,
+        metadataId,
+        createdAt: 1,
+        updatedAt: 1,
+        version: 1,
+      });
+    }
+
+    const exported = await new ExportService(coreDB, new TreeQueryService(coreDB)).exportToZIP({
+      nodeIds: ['tables' as NodeId],
+      includeResources: true,
+    });
+    bundle = new File([exported.blob!], 'export.zip');
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    NodeRegistry.getInstance().unregister('spreadsheet');
+    coreDB.close();
+    ephemeralDB.close();
+    spreadsheetDB.close();
+  });
+
+  const importedRefs = async (importedNodeIds: NodeId[]) =>
+    Promise.all(importedNodeIds.slice(1).map((nodeId) => spreadsheetDB.getRef(nodeId)));
+
+  it('同じ内容の共有データは再利用し、参照数を増やす', async () => {
+    const result = await importService.importFromFile({
+      file: bundle,
+      targetParentId: projectsRoot,
+    });
+
+    expect(result).toMatchObject({ success: true, skippedNodes: 0, errors: [] });
+    expect(result.importedNodeIds).toHaveLength(3);
+    expect((await coreDB.getNode(result.importedNodeIds[0]!))?.name).toMatch(/^Tables \(\d+\)$/);
+
+    const refs = await importedRefs(result.importedNodeIds);
+    expect(refs.map((ref) => ref?.metadataId)).toEqual([metadataId, metadataId]);
+    expect(await spreadsheetDB.spreadsheetMetadata.count()).toBe(1);
+    expect((await spreadsheetDB.getMetadata(metadataId))?.referenceCount).toBe(4);
+    expect(await spreadsheetDB.spreadsheetChunks.count()).toBe(1);
+  });
+
+  it('IDだけが衝突する共有データはrenameで新しいIDとして取り込む', async () => {
+    await spreadsheetDB.spreadsheetMetadata.update(metadataId, { contentHash: 'changed' });
+
+    const result = await importService.importFromFile({
+      file: bundle,
+      targetParentId: projectsRoot,
+      mergeStrategy: 'rename',
+    });
+
+    expect(result.success).toBe(true);
+    const refs = await importedRefs(result.importedNodeIds);
+    const newMetadataId = refs[0]!.metadataId;
+    expect(newMetadataId).not.toBe(metadataId);
+    expect(refs[1]?.metadataId).toBe(newMetadataId);
+    expect(await spreadsheetDB.getMetadata(newMetadataId)).toMatchObject({
+      contentHash: 'hash-1',
+      referenceCount: 2,
+    });
+    const chunks = await spreadsheetDB.getChunks(newMetadataId);
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]!.id).not.toBe('chunk-0');
+    expect(chunks[0]!.compressedData).toEqual(new Uint8Array([1, 2, 3]));
+    // 既存のデータはそのまま
+    expect(await spreadsheetDB.getChunks(metadataId)).toHaveLength(1);
+  });
+
+  it('skipでは名前が衝突するノードとそのエンティティを取り込まない', async () => {
+    const result = await importService.importFromFile({
+      file: bundle,
+      targetParentId: projectsRoot,
+      mergeStrategy: 'skip',
+    });
+
+    expect(result).toMatchObject({ success: true, importedNodeIds: [], skippedNodes: 3 });
+    expect(await spreadsheetDB.spreadsheetRefs.count()).toBe(2);
+    expect(await coreDB.listChildren(projectsRoot)).toHaveLength(1);
+  });
+
+  it('replaceでは既存ノードを取り込みと同じグループでゴミ箱へ移動する', async () => {
+    const importNodes = vi.spyOn(TreeMutationService.prototype, 'importNodes');
+    const moveNodesToTrash = vi.spyOn(TreeMutationService.prototype, 'moveNodesToTrash');
+
+    const result = await importService.importFromFile({
+      file: bundle,
+      targetParentId: projectsRoot,
+      mergeStrategy: 'replace',
+    });
+
+    expect(result).toMatchObject({ success: true, skippedNodes: 0 });
+    expect((await coreDB.getNode(result.importedNodeIds[0]!))?.name).toBe('Tables');
+    expect(await coreDB.getNode('tables' as NodeId)).toMatchObject({ isRemoved: true });
+    expect(moveNodesToTrash).toHaveBeenCalledWith(['tables'], {
+      groupId: importNodes.mock.calls[0]![0].groupId,
+    });
+  });
+
+  it('replaceで取り込みに失敗した場合は既存ノードを元の場所へ戻す', async () => {
+    vi.spyOn(TreeMutationService.prototype, 'importNodes').mockResolvedValue({
+      success: false,
+      error: 'Disk full',
+      code: 'UNKNOWN_ERROR',
+    });
+
+    const result = await importService.importFromFile({
+      file: bundle,
+      targetParentId: projectsRoot,
+      mergeStrategy: 'replace',
+    });
+
+    expect(result).toMatchObject({ success: false, errors: ['Disk full'] });
+    expect(await coreDB.getNode('tables' as NodeId)).toMatchObject({
+      parentId: projectsRoot,
+      name: 'Tables',
+    });
+    expect((await coreDB.getNode('tables' as NodeId))?.isRemoved).toBeFalsy();
+  });
+
+  describe('スキーマのマイグレーション', () => {
+    beforeEach(() => {
+      schemaVersion = 2;
+      NodeRegistry.getInstance().registerMigration('spreadsheet', {
+        fromVersion: 1,
+        toVersion: 2,
+        description: 'Add source to spreadsheet refs',
+        migrate: (stores) => ({
+          ...stores,
+          spreadsheetRefs: (stores['spreadsheetRefs'] ?? []).map((ref) => ({
+            ...(ref as object),
+            source: 'import',
+          })),
+        }),
+      });
+    });
+
+    it('dryRunではマイグレーションの内容だけを返し、何も書き込まない', async () => {
+      const result = await importService.importFromFile({
+        file: bundle,
+        targetParentId: projectsRoot,
+        dryRun: true,
+      });
+
+      expect(result).toMatchObject({ success: true, importedNodeIds: [] });
+      expect(result.migrations).toEqual([
+        {
+          nodeType: 'spreadsheet',
+          fromVersion: 1,
+          toVersion: 2,
+          steps: [
+            {
+              fromVersion: 1,
+              toVersion: 2,
+              description: 'Add source to spreadsheet refs',
+              changes: [{ store: 'spreadsheetRefs', before: 2, after: 2, modified: 2 }],
+            },
+          ],
+        },
+      ]);
+      expect(await coreDB.listChildren(projectsRoot)).toHaveLength(1);
+      expect(await spreadsheetDB.spreadsheetRefs.count()).toBe(2);
+    });
+
+    it('古いスキーマのエンティティを変換してから取り込む', async () => {
+      const result = await importService.importFromFile({
+        file: bundle,
+        targetParentId: projectsRoot,
+      });
+
+      expect(result.success).toBe(true);
+      expect(result.migrations).toHaveLength(1);
+      const refs = await importedRefs(result.importedNodeIds);
+      expect(refs.map((ref) => (ref as unknown as { source?: string })?.source)).toEqual([
+        'import',
+        'import',
+      ]);
+    });
+
+    it('マイグレーションが足りない場合は取り込まない', async () => {
+      schemaVersion = 3;
+
+      const result = await importService.importFromFile({
+        file: bundle,
+        targetParentId: projectsRoot,
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors[0]).toContain('No migration for spreadsheet from schema version 2');
+      expect(await coreDB.listChildren(projectsRoot)).toHaveLength(1);
+    });
+  });
+});
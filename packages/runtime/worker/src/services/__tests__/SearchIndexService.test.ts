@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NodeId, Timestamp } from '@hierarchidb/common-core';
+import { CoreDB } from '../../db/CoreDB';
+import { SearchIndexDB } from '../../db/SearchIndexDB';
+import { NodeRegistry } from '../../registry/NodeRegistry';
+import type { PluginDefinition } from '../../registry/plugin';
+import { tokenize } from '../../utils/searchTokenizer';
+import { SearchIndexService } from '../SearchIndexService';
+import { createNode } from './testNodes';
+
+/**
+ * 全文検索インデックスのテスト
+ * CoreDBの変更イベントから索引が更新され、スコア順・ハイライト付きで検索できることを確認します。
+ */
+
+describe('searchTokenizer', () => {
+  it('英単語は小文字化し、日本語は bigram に分割する', () => {
+    expect(tokenize('Tokyo Population, 2020')).toEqual(['tokyo', 'population', '2020']);
+    expect(tokenize('東京都の人口')).toEqual(['東京', '京都', '都の', 'の人', '人口', '口']);
+    expect(tokenize('ＡＢＣ地図')).toEqual(['abc', '地図', '図']);
+  });
+});
+
+describe('SearchIndexService', () => {
+  let coreDB: CoreDB;
+  let searchDB: SearchIndexDB;
+  let service: SearchIndexService;
+
+  beforeEach(() => {
+    const dbName = `search-test-${crypto.randomUUID()}`;
+    coreDB = new CoreDB(dbName);
+    searchDB = new SearchIndexDB(dbName);
+    service = new SearchIndexService(coreDB, searchDB);
+    service.start();
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    service.close();
+    await service.whenIdle();
+    coreDB.close();
+    searchDB.close();
+  });
+
+  it('名前での一致を説明での一致より上位に返す', async () => {
+    await coreDB.createNode(
+      createNode('a', 'root', 'folder', 'Notes', { description: 'Population of Tokyo' })
+    );
+    await coreDB.createNode(createNode('b', 'root', 'folder', 'Tokyo population'));
+    await coreDB.createNode(createNode('c', 'root', 'folder', 'Osaka'));
+
+    const hits = await service.search({ query: 'tokyo popul' });
+
+    expect(hits.map((hit) => hit.node.id)).toEqual(['b', 'a']);
+    expect(hits[0]!.matches).toEqual([
+      {
+        field: 'name',
+        snippet: 'Tokyo population',
+        highlights: [
+          { start: 0, end: 5 },
+          { start: 6, end: 11 },
+        ],
+      },
+    ]);
+  });
+
+  it('日本語の部分文字列で検索できる', async () => {
+    await coreDB.createNode(createNode('a', 'root', 'folder', '東京都の人口統計'));
+    await coreDB.createNode(createNode('b', 'root', 'folder', '京都府の観光'));
+
+    const hits = await service.search({ query: '人口' });
+    const kyoto = await service.search({ query: '京都' });
+
+    expect(hits.map((hit) => hit.node.id)).toEqual(['a']);
+    expect(hits[0]!.matches[0]!.highlights).toEqual([{ start: 4, end: 6 }]);
+    expect(kyoto.map((hit) => hit.node.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('全角英字・半角カナの名前でも元の文字列上の位置をハイライトする', async () => {
+    await coreDB.createNode(createNode('a', 'root', 'folder', 'ＡＢＣ資料'));
+    await coreDB.createNode(createNode('b', 'root', 'folder', '売上ﾃﾞｰﾀ一覧'));
+
+    const [abc] = await service.search({ query: 'abc' });
+    const [data] = await service.search({ query: 'データ' });
+
+    expect(abc!.matches).toEqual([
+      { field: 'name', snippet: 'ＡＢＣ資料', highlights: [{ start: 0, end: 3 }] },
+    ]);
+    expect(data!.matches).toEqual([
+      { field: 'name', snippet: '売上ﾃﾞｰﾀ一覧', highlights: [{ start: 2, end: 6 }] },
+    ]);
+  });
+
+  it('長いフィールドは一致箇所の周辺をスニペットとして返す', async () => {
+    const description = `${'x'.repeat(100)} target ${'y'.repeat(100)}`;
+    await coreDB.createNode(createNode('a', 'root', 'folder', 'Doc', { description }));
+
+    const [hit] = await service.search({ query: 'target' });
+    const match = hit!.matches[0]!;
+
+    expect(match.field).toBe('description');
+    expect(match.snippet.startsWith('…')).toBe(true);
+    expect(match.snippet.endsWith('…')).toBe(true);
+    expect(match.snippet.slice(match.highlights[0]!.start, match.highlights[0]!.end)).toBe(
+      'target'
+    );
+  });
+
+  it('名前変更・削除が索引に反映される', async () => {
+    const node = createNode('a', 'root', 'folder', 'Draft');
+    await coreDB.createNode(node);
+    await coreDB.updateNode({ ...node, name: 'Final report' });
+
+    expect(await service.search({ query: 'draft' })).toEqual([]);
+    expect((await service.search({ query: 'report' })).map((hit) => hit.node.id)).toEqual(['a']);
+
+    await coreDB.deleteNode(node.id);
+    expect(await service.search({ query: 'report' })).toEqual([]);
+    expect(await searchDB.countDocuments()).toBe(0);
+  });
+
+  it('検索範囲のノード配下とゴミ箱内のノードを絞り込む', async () => {
+    await coreDB.createNode(createNode('folder', 'root', 'folder', 'Folder'));
+    await coreDB.createNode(createNode('inside', 'folder', 'folder', 'Report inside'));
+    await coreDB.createNode(createNode('outside', 'root', 'folder', 'Report outside'));
+    await coreDB.createNode({
+      ...createNode('removed', 'folder', 'folder', 'Report removed'),
+      removedAt: 1 as Timestamp,
+    });
+
+    const scoped = await service.search({ query: 'report', rootNodeId: 'folder' as NodeId });
+    const withRemoved = await service.search({
+      query: 'report',
+      rootNodeId: 'folder' as NodeId,
+      includeRemoved: true,
+    });
+
+    expect(scoped.map((hit) => hit.node.id)).toEqual(['inside']);
+    expect(withRemoved.map((hit) => hit.node.id).sort()).toEqual(['inside', 'removed']);
+  });
+
+  it('プラグインが宣言したエンティティフィールドも検索対象になる', async () => {
+    vi.spyOn(NodeRegistry.getInstance(), 'getPluginDefinition').mockReturnValue({
+      search: {
+        fields: ['columns'],
+        getSearchDocument: async () => ({ columns: ['都道府県', 'Area'] }),
+      },
+    } as unknown as PluginDefinition);
+
+    await coreDB.createNode(createNode('sheet', 'root', 'folder', 'Sheet 1'));
+    const [hit] = await service.search({ query: '都道府県' });
+
+    expect(hit?.node.id).toBe('sheet');
+    expect(hit?.matches).toEqual([
+      { field: 'entity.columns', snippet: '都道府県, Area', highlights: [{ start: 0, end: 4 }] },
+    ]);
+  });
+
+  it('既存ノードから索引を再構築できる', async () => {
+    service.close();
+    await coreDB.createNode(createNode('a', 'root', 'folder', 'Before index'));
+    expect(await searchDB.countDocuments()).toBe(0);
+
+    await service.rebuildIfEmpty();
+
+    expect((await service.search({ query: 'before' })).map((hit) => hit.node.id)).toEqual(['a']);
+  });
+});
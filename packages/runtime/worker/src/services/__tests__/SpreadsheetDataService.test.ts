@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NodeId } from '@hierarchidb/common-core';
+import { SpreadsheetDB } from '../../db/SpreadsheetDB';
+import { createZipArchive } from '../../utils/zipArchive';
+import { ROWS_PER_CHUNK, SpreadsheetDataService } from '../SpreadsheetDataService';
+
+/**
+ * スプレッドシートの取り込みと行範囲読み出しのテスト
+ * 同じ内容は共有データを再利用し、行はチャンク単位で必要な分だけ展開されることを確認します。
+ */
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+const CSV = ['city,population', 'Tokyo,13960000', '"Osaka, Japan",2750000', ''].join('\r\n');
+
+async function createWorkbook(): Promise<Uint8Array> {
+  const blob = await createZipArchive([
+    {
+      path: 'xl/workbook.xml',
+      data:
+        '<workbook xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+        '<sheets><sheet name="Cities" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      data: '<Relationships><Relationship Id="rId1" Target="worksheets/sheet1.xml"/></Relationships>',
+    },
+    {
+      path: 'xl/sharedStrings.xml',
+      data: '<sst><si><t>city</t></si><si><r><t>Kyo</t></r><r><t>to</t></r></si></sst>',
+    },
+    {
+      path: 'xl/worksheets/sheet1.xml',
+      data:
+        '<worksheet><sheetData>' +
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="inlineStr"><is><t>area &amp; size</t></is></c></row>' +
+        '<row r="2"><c r="A2" t="s"><v>1</v></c><c r="B2"><v>827.8</v></c></row>' +
+        '</sheetData></worksheet>',
+    },
+  ]);
+  return new Uint8Array(await blob.arrayBuffer());
+}
+
+describe('SpreadsheetDataService', () => {
+  let db: SpreadsheetDB;
+  let service: SpreadsheetDataService;
+
+  beforeEach(() => {
+    db = new SpreadsheetDB(`spreadsheet-test-${crypto.randomUUID()}`);
+    service = new SpreadsheetDataService(db);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    db.close();
+  });
+
+  it('CSVを列とチャンクに分けて保存する', async () => {
+    const metadata = await service.importTable('a' as NodeId, encode(CSV), {
+      sourceName: 'cities.csv',
+    });
+
+    expect(metadata).toMatchObject({
+      name: 'cities.csv',
+      originalFormat: 'csv',
+      delimiter: ',',
+      columns: ['city', 'population'],
+      rowCount: 2,
+      totalChunks: 1,
+      referenceCount: 1,
+      stats: { numericColumns: ['population'], textColumns: ['city'] },
+    });
+    expect((await service.getRows('a' as NodeId)).rows).toEqual([
+      ['Tokyo', '13960000'],
+      ['Osaka, Japan', '2750000'],
+    ]);
+  });
+
+  it('同じ内容は既存のメタデータを共有し、差し替えで参照がなくなれば削除する', async () => {
+    const first = await service.importTable('a' as NodeId, encode(CSV), { format: 'csv' });
+    const second = await service.importTable('b' as NodeId, encode(CSV), { format: 'csv' });
+
+    expect(second.id).toBe(first.id);
+    expect(second.referenceCount).toBe(2);
+    expect(await db.spreadsheetMetadata.count()).toBe(1);
+
+    await service.importTable('a' as NodeId, encode('x\ty\n1\t2'), { name: 'Clipboard' });
+    await service.importTable('b' as NodeId, encode('x\ty\n1\t2'), { name: 'Clipboard' });
+    expect(await db.getMetadata(first.id)).toBeUndefined();
+    expect(await db.getChunks(first.id)).toEqual([]);
+    expect((await service.getRows('b' as NodeId)).columns).toEqual(['x', 'y']);
+  });
+
+  it('範囲に重なるチャンクだけを展開して行を返す', async () => {
+    const lines = ['n,square'];
+    for (let n = 0; n < ROWS_PER_CHUNK * 2 + 500; n++) {
+      lines.push(`${n},${n * n}`);
+    }
+    const metadata = await service.importTable('a' as NodeId, encode(lines.join('\n')), {
+      format: 'csv',
+    });
+    expect(metadata.totalChunks).toBe(3);
+
+    const getChunks = vi.spyOn(db, 'getChunksForRows');
+    const result = await service.getRows('a' as NodeId, {
+      startRow: ROWS_PER_CHUNK - 2,
+      endRow: ROWS_PER_CHUNK + 2,
+      columns: ['square'],
+    });
+
+    const chunks = await getChunks.mock.results[0]!.value;
+    expect(chunks.map((chunk: { chunkIndex: number }) => chunk.chunkIndex)).toEqual([0, 1]);
+    expect(result.columns).toEqual(['square']);
+    expect(result.rows.map(([square]) => Number(square))).toEqual(
+      [998, 999, 1000, 1001].map((n) => n * n)
+    );
+    expect(result.totalRows).toBe(ROWS_PER_CHUNK * 2 + 500);
+    await expect(service.getRows('a' as NodeId, { columns: ['cube'] })).rejects.toThrow(
+      'Unknown column: cube'
+    );
+  });
+
+  it('Excelの共有文字列・インライン文字列・数値を読み込む', async () => {
+    const metadata = await service.importTable('a' as NodeId, await createWorkbook(), {
+      sourceName: 'cities.xlsx',
+    });
+
+    expect(metadata.originalFormat).toBe('excel');
+    expect(metadata.columns).toEqual(['city', 'area & size']);
+    expect((await service.getRows('a' as NodeId)).rows).toEqual([['Kyoto', 827.8]]);
+  });
+
+  it('JSONのオブジェクト配列はキーを列にする', async () => {
+    const json = JSON.stringify({
+      data: [
+        { id: 1, tags: ['a'] },
+        { id: 2, name: 'two' },
+      ],
+    });
+    await service.importTable('a' as NodeId, encode(json), { sourceName: 'rows.json' });
+
+    expect(await service.getRows('a' as NodeId)).toMatchObject({
+      columns: ['id', 'tags', 'name'],
+      rows: [
+        [1, '["a"]', ''],
+        [2, '', 'two'],
+      ],
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { NodeId } from '@hierarchidb/common-core';
+import { SpreadsheetDB } from '../../db/SpreadsheetDB';
+import { ROWS_PER_CHUNK, SpreadsheetDataService } from '../SpreadsheetDataService';
+import { SpreadsheetQueryService } from '../SpreadsheetQueryService';
+
+/**
+ * スプレッドシートのクエリのテスト
+ * チャンクをまたいだ絞り込み・集計・並べ替えと、列の型判定を確認します。
+ */
+
+const nodeId = 'cities' as NodeId;
+
+const CSV = [
+  'city,prefecture,population,founded',
+  'Yokohama,Kanagawa,3770000,1889-04-01',
+  'Kawasaki,Kanagawa,1540000,1924-07-01',
+  'Osaka,Osaka,2750000,1889-04-01',
+  'Sakai,Osaka,820000,1889-04-01',
+  'Sagamihara,Kanagawa,720000,1954-11-20',
+  'Tokyo,,13960000,',
+].join('\n');
+
+describe('SpreadsheetQueryService', () => {
+  let db: SpreadsheetDB;
+  let data: SpreadsheetDataService;
+  let service: SpreadsheetQueryService;
+
+  beforeEach(async () => {
+    db = new SpreadsheetDB(`spreadsheet-query-test-${crypto.randomUUID()}`);
+    data = new SpreadsheetDataService(db);
+    service = new SpreadsheetQueryService(db);
+    await data.importTable(nodeId, new TextEncoder().encode(CSV), { format: 'csv' });
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('数値列は数値として比較し、射影・並べ替え・件数制限を適用する', async () => {
+    const result = await service.query(nodeId, {
+      filters: [
+        { column: 'population', operator: 'greater_than', value: '1000000' },
+        { column: 'city', operator: 'contains', value: 'x', enabled: false },
+      ],
+      select: ['city', 'population'],
+      orderBy: [{ column: 'population', direction: 'desc' }],
+      offset: 1,
+      limit: 2,
+    });
+
+    expect(result.columns).toEqual(['city', 'population']);
+    expect(result.rows).toEqual([
+      ['Yokohama', '3770000'],
+      ['Osaka', '2750000'],
+    ]);
+    expect(result.totalRows).toBe(4);
+  });
+
+  it('グループごとに集計し、空のキーもグループにする', async () => {
+    const result = await service.query(nodeId, {
+      groupBy: ['prefecture'],
+      aggregates: [
+        { fn: 'count' },
+        { fn: 'sum', column: 'population', as: 'total' },
+        { fn: 'max', column: 'founded' },
+      ],
+      orderBy: [{ column: 'total' }],
+    });
+
+    expect(result.columns).toEqual(['prefecture', 'count', 'total', 'max(founded)']);
+    expect(result.rows).toEqual([
+      ['Osaka', 2, 3570000, '1889-04-01'],
+      ['Kanagawa', 3, 6030000, '1954-11-20'],
+      ['', 1, 13960000, null],
+    ]);
+  });
+
+  it('日付列は日付として比較する', async () => {
+    const result = await service.query(nodeId, {
+      filters: [
+        { column: 'founded', operator: 'less_than', value: '1900/01/01' },
+        { column: 'prefecture', operator: 'is_not_null' },
+      ],
+      select: ['city'],
+    });
+
+    expect(result.rows.flat()).toEqual(['Yokohama', 'Osaka', 'Sakai']);
+  });
+
+  it('型情報のない表は初回のクエリで全行を走査して判定する', async () => {
+    const ref = await db.getRef(nodeId);
+    await db.spreadsheetMetadata.update(ref!.metadataId, { stats: undefined });
+
+    const { stats } = await service.query(nodeId, { limit: 1 });
+
+    expect(stats).toEqual({
+      numericColumns: ['population'],
+      dateColumns: ['founded'],
+      textColumns: ['city', 'prefecture'],
+    });
+    expect((await db.getMetadata(ref!.metadataId))?.stats).toEqual(stats);
+  });
+
+  it('複数チャンクにまたがって集計し、件数制限だけなら途中で走査を打ち切る', async () => {
+    const lines = ['n,parity'];
+    for (let n = 1; n <= ROWS_PER_CHUNK * 2 + 500; n++) {
+      lines.push(`${n},${n % 2 === 0 ? 'even' : 'odd'}`);
+    }
+    await data.importTable('numbers' as NodeId, new TextEncoder().encode(lines.join('\n')), {
+      format: 'csv',
+    });
+
+    const totals = await service.query('numbers' as NodeId, {
+      filters: [{ column: 'parity', operator: 'equals', value: 'even' }],
+      aggregates: [{ fn: 'count' }, { fn: 'avg', column: 'n' }, { fn: 'min', column: 'n' }],
+    });
+    expect(totals.rows).toEqual([[1250, 1251, 2]]);
+    expect(totals.scannedRows).toBe(2500);
+
+    const page = await service.query('numbers' as NodeId, { select: ['n'], limit: 3 });
+    expect(page.rows).toEqual([['1'], ['2'], ['3']]);
+    expect(page.scannedRows).toBe(ROWS_PER_CHUNK);
+  });
+});
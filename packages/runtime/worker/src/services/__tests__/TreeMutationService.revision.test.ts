@@ -0,0 +1,178 @@
+import type { CommandEnvelope, NodeId, Timestamp, TreeNode } from '@hierarchidb/common-core';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CommandProcessor } from '../../command/CommandProcessor';
+import { CoreDB } from '../../db/CoreDB';
+import { EphemeralDB } from '../../db/EphemeralDB';
+import { RevisionDB } from '../../db/RevisionDB';
+import { TreeMutationService } from '../TreeMutationService';
+import { TreeQueryService } from '../TreeQueryService';
+
+/**
+ * TreeMutationService - リビジョン履歴のテスト
+ *
+ * Working Copyのコミットでリビジョンが保存され、
+ * 一覧・差分・復元（子孫を含む）ができることを確認します。
+ */
+
+const ROOT = 'revision-root' as NodeId;
+
+const createCommand = <K extends string, P>(kind: K, payload: P): CommandEnvelope<K, P> => ({
+  commandId: crypto.randomUUID(),
+  groupId: crypto.randomUUID(),
+  kind,
+  payload,
+  issuedAt: Date.now() as Timestamp,
+});
+
+describe('TreeMutationService - Revisions', () => {
+  let coreDB: CoreDB;
+  let ephemeralDB: EphemeralDB;
+  let revisionDB: RevisionDB;
+  let commandProcessor: CommandProcessor;
+  let service: TreeMutationService;
+  let queryService: TreeQueryService;
+
+  const commitNewNode = async (parentId: NodeId): Promise<NodeId> => {
+    const workingCopyId = crypto.randomUUID();
+    await service.createWorkingCopyForCreate(
+      createCommand('createWorkingCopyForCreate', { workingCopyId, parentId, name: 'Draft' })
+    );
+    const result = await service.commitWorkingCopyForCreate(
+      createCommand('commitWorkingCopyForCreate', { workingCopyId })
+    );
+    if (!result.success || !result.nodeId) throw new Error('commit failed');
+    return result.nodeId;
+  };
+
+  beforeEach(async () => {
+    const dbName = `revision-test-${crypto.randomUUID()}`;
+    coreDB = new CoreDB(dbName);
+    ephemeralDB = new EphemeralDB(dbName);
+    revisionDB = new RevisionDB(dbName);
+    commandProcessor = new CommandProcessor({
+      deleteNode: (nodeId) => coreDB.deleteNode(nodeId),
+      createNode: async (node) => {
+        await coreDB.createNode(node);
+      },
+      putNode: (node) => coreDB.updateNode(node),
+    });
+    service = new TreeMutationService(coreDB, ephemeralDB, commandProcessor, {} as any, revisionDB);
+    queryService = new TreeQueryService(coreDB, undefined, revisionDB);
+
+    await coreDB.createNode({
+      id: ROOT,
+      parentId: 'revision-super-root' as NodeId,
+      name: 'Root',
+      nodeType: 'folder',
+      createdAt: Date.now() as Timestamp,
+      updatedAt: Date.now() as Timestamp,
+      version: 1,
+    } satisfies TreeNode);
+  });
+
+  afterEach(() => {
+    coreDB.close();
+    ephemeralDB.close();
+    revisionDB.close();
+  });
+
+  it('should save a revision when a working copy is committed', async () => {
+    const nodeId = await commitNewNode(ROOT);
+
+    const revisions = await queryService.listNodeRevisions(nodeId);
+
+    expect(revisions).toHaveLength(1);
+    expect(revisions[0]).toMatchObject({ nodeId, version: 1, hasEntity: false });
+  });
+
+  it('should restore a node to a revision as an undoable command', async () => {
+    const nodeId = await commitNewNode(ROOT);
+    const [revision] = await queryService.listNodeRevisions(nodeId);
+    await service.updateNode({ nodeId, name: 'Renamed', description: 'later' });
+
+    const result = await service.restoreNodeRevision({ nodeId, revisionId: revision!.revisionId });
+
+    expect(result.success).toBe(true);
+    const restored = await coreDB.getNode(nodeId);
+    expect(restored?.name).toBe('New Folder');
+    expect(restored?.description).toBeUndefined();
+    expect(restored?.version).toBe(3);
+    expect(await queryService.listNodeRevisions(nodeId)).toHaveLength(2);
+
+    await commandProcessor.undo();
+    expect((await coreDB.getNode(nodeId))?.name).toBe('Renamed');
+  });
+
+  it('should restore descendants to their state at the revision time', async () => {
+    const parentId = await commitNewNode(ROOT);
+    const childId = await commitNewNode(parentId);
+    await service.updateNode({ nodeId: childId, name: 'Child renamed' });
+
+    // A restore saves a new parent revision taken after the child's revision
+    const [firstRevision] = await queryService.listNodeRevisions(parentId);
+    await service.restoreNodeRevision({ nodeId: parentId, revisionId: firstRevision!.revisionId });
+    const [parentRevision] = await queryService.listNodeRevisions(parentId);
+    await service.updateNode({ nodeId: parentId, name: 'Parent renamed' });
+
+    await service.restoreNodeRevision({
+      nodeId: parentId,
+      revisionId: parentRevision!.revisionId,
+      includeDescendants: true,
+    });
+
+    expect((await coreDB.getNode(parentId))?.name).toBe('New Folder');
+    expect((await coreDB.getNode(childId))?.name).toBe('New Folder');
+  });
+
+  it('should fail for a revision of another node', async () => {
+    const nodeId = await commitNewNode(ROOT);
+    const otherId = await commitNewNode(nodeId);
+    const [otherRevision] = await queryService.listNodeRevisions(otherId);
+
+    const result = await service.restoreNodeRevision({
+      nodeId,
+      revisionId: otherRevision!.revisionId,
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should diff node and entity fields between two revisions', async () => {
+    const node: TreeNode = {
+      id: 'diff-node' as NodeId,
+      parentId: ROOT,
+      name: 'Before',
+      nodeType: 'note',
+      createdAt: 1 as Timestamp,
+      updatedAt: 1 as Timestamp,
+      version: 1,
+    };
+    const entity = (title: string) => ({
+      entity: { nodeId: node.id, title, updatedAt: Date.now() },
+      metadata: { backupDate: Date.now(), version: '1.0.0', nodeType: 'note' },
+    });
+    await revisionDB.addRevision({
+      revisionId: 'rev-1',
+      nodeId: node.id,
+      createdAt: 1 as Timestamp,
+      commandId: 'cmd-1',
+      node,
+      entityBackup: entity('Old title') as any,
+    });
+    await revisionDB.addRevision({
+      revisionId: 'rev-2',
+      nodeId: node.id,
+      createdAt: 2 as Timestamp,
+      commandId: 'cmd-2',
+      node: { ...node, name: 'After', updatedAt: 2 as Timestamp, version: 2 },
+      entityBackup: entity('New title') as any,
+    });
+
+    const diff = await queryService.diffNodeRevisions('rev-1', 'rev-2');
+
+    expect(diff?.changes).toEqual([
+      { path: 'node.name', before: 'Before', after: 'After' },
+      { path: 'entity.title', before: 'Old title', after: 'New title' },
+    ]);
+  });
+});
@@ -0,0 +1,290 @@
+import type { NodeId, PeerEntity, Timestamp, TreeNode } from '@hierarchidb/common-core';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CommandProcessor, type DatabaseOperations } from '../../command/CommandProcessor';
+import { deleteEntity, restoreEntity } from '../../command/NodeSnapshots';
+import { CoreDB } from '../../db/CoreDB';
+import { EphemeralDB } from '../../db/EphemeralDB';
+import { NodeRegistry } from '../../registry/NodeRegistry';
+import { TreeMutationService } from '../TreeMutationService';
+
+/**
+ * TreeMutationService - Undo/Redo のテスト
+ *
+ * 各変更コマンドが逆操作データを記録し、Undo/Redoで
+ * TreeNodeとプラグインエンティティの状態が往復できることを確認します。
+ */
+
+const ROOT = 'undo-root' as NodeId;
+
+const createTestNode = (id: string, parentId: string, name: string): TreeNode => ({
+  id: id as NodeId,
+  parentId: parentId as NodeId,
+  name,
+  nodeType: 'folder',
+  createdAt: Date.now() as Timestamp,
+  updatedAt: Date.now() as Timestamp,
+  version: 1,
+});
+
+const createDatabaseOperations = (coreDB: CoreDB): DatabaseOperations => ({
+  deleteNode: (nodeId) => coreDB.deleteNode(nodeId),
+  createNode: async (node) => {
+    await coreDB.createNode(node);
+  },
+  getNode: (nodeId) => coreDB.getNode(nodeId),
+  putNode: async (node) => {
+    if (await coreDB.getNode(node.id)) {
+      await coreDB.updateNode(node);
+    } else {
+      await coreDB.createNode(node);
+    }
+  },
+  restoreEntity,
+  deleteEntity,
+});
+
+describe('TreeMutationService - Undo/Redo', () => {
+  let coreDB: CoreDB;
+  let ephemeralDB: EphemeralDB;
+  let commandProcessor: CommandProcessor;
+  let service: TreeMutationService;
+
+  beforeEach(async () => {
+    const dbName = `undo-test-${crypto.randomUUID()}`;
+    coreDB = new CoreDB(dbName);
+    ephemeralDB = new EphemeralDB(dbName);
+    commandProcessor = new CommandProcessor(createDatabaseOperations(coreDB));
+    service = new TreeMutationService(coreDB, ephemeralDB, commandProcessor, {} as any);
+
+    await coreDB.createNode(createTestNode(ROOT, 'undo-super-root', 'Root'));
+    await coreDB.createNode(createTestNode('folder-a', ROOT, 'A'));
+    await coreDB.createNode(createTestNode('folder-b', ROOT, 'B'));
+    await coreDB.createNode(createTestNode('child-1', 'folder-a', 'Child 1'));
+  });
+
+  afterEach(async () => {
+    NodeRegistry.resetInstance();
+    coreDB.close();
+    ephemeralDB.close();
+  });
+
+  it('should undo and redo createNode', async () => {
+    const result = await service.createNode({
+      nodeType: 'folder',
+      treeId: 'r' as any,
+      parentId: ROOT,
+      name: 'Created',
+    });
+    if (!result.success) throw new Error(result.error);
+
+    await commandProcessor.undo();
+    expect(await coreDB.getNode(result.nodeId)).toBeUndefined();
+
+    await commandProcessor.redo();
+    expect((await coreDB.getNode(result.nodeId))?.name).toBe('Created');
+  });
+
+  it('should undo and redo a rename', async () => {
+    await service.updateNode({ nodeId: 'folder-a' as NodeId, name: 'Renamed' });
+
+    await commandProcessor.undo();
+    expect((await coreDB.getNode('folder-a' as NodeId))?.name).toBe('A');
+
+    await commandProcessor.redo();
+    expect((await coreDB.getNode('folder-a' as NodeId))?.name).toBe('Renamed');
+  });
+
+  it('should undo a move back to the original parent', async () => {
+    await service.moveNodes({ nodeIds: ['child-1' as NodeId], toParentId: 'folder-b' as NodeId });
+    expect((await coreDB.getNode('child-1' as NodeId))?.parentId).toBe('folder-b');
+
+    const undoResult = await commandProcessor.undo();
+
+    expect(undoResult.success).toBe(true);
+    expect((await coreDB.getNode('child-1' as NodeId))?.parentId).toBe('folder-a');
+  });
+
+  it('should undo trash and recover', async () => {
+    await service.moveNodesToTrash(['folder-b' as NodeId]);
+    await service.recoverNodesFromTrash({ nodeIds: ['folder-b' as NodeId] });
+
+    await commandProcessor.undo();
+    expect((await coreDB.getNode('folder-b' as NodeId))?.isRemoved).toBe(true);
+
+    await commandProcessor.undo();
+    const restored = await coreDB.getNode('folder-b' as NodeId);
+    expect(restored?.isRemoved).toBeFalsy();
+    expect(restored?.parentId).toBe(ROOT);
+  });
+
+  it('should undo duplicate by deleting all duplicated nodes', async () => {
+    const result = await service.duplicateNodes({
+      nodeIds: ['folder-a' as NodeId],
+      toParentId: 'folder-b' as NodeId,
+    });
+    if (!result.success) throw new Error(result.error);
+    expect(result.nodeIds).toHaveLength(2);
+
+    await commandProcessor.undo();
+
+    for (const nodeId of result.nodeIds) {
+      expect(await coreDB.getNode(nodeId)).toBeUndefined();
+    }
+  });
+
+  it('should remove only the listed nodes with removeNodes and restore them on undo', async () => {
+    await service.removeNodes(['folder-a' as NodeId]);
+    expect(await coreDB.getNode('folder-a' as NodeId)).toBeUndefined();
+    expect((await coreDB.getNode('child-1' as NodeId))?.parentId).toBe('folder-a');
+
+    await commandProcessor.undo();
+
+    expect((await coreDB.getNode('folder-a' as NodeId))?.name).toBe('A');
+  });
+
+  it('should restore a subtree deleted by the remove command on undo', async () => {
+    await service.remove({
+      commandId: crypto.randomUUID(),
+      groupId: crypto.randomUUID(),
+      kind: 'remove',
+      payload: { nodeIds: ['folder-a' as NodeId] },
+      issuedAt: Date.now() as Timestamp,
+    });
+    expect(await coreDB.getNode('child-1' as NodeId)).toBeUndefined();
+
+    await commandProcessor.undo();
+
+    expect((await coreDB.getNode('folder-a' as NodeId))?.name).toBe('A');
+    expect((await coreDB.getNode('child-1' as NodeId))?.parentId).toBe('folder-a');
+  });
+
+  it('should restore parents before their children when undoing a subtree remove', async () => {
+    const operations = createDatabaseOperations(coreDB);
+    const restored: NodeId[] = [];
+    const processor = new CommandProcessor({
+      ...operations,
+      putNode: async (node) => {
+        restored.push(node.id);
+        await operations.putNode!(node);
+      },
+    });
+    const recordingService = new TreeMutationService(coreDB, ephemeralDB, processor, {} as any);
+    await recordingService.remove({
+      commandId: crypto.randomUUID(),
+      groupId: crypto.randomUUID(),
+      kind: 'remove',
+      payload: { nodeIds: ['folder-a' as NodeId] },
+      issuedAt: Date.now() as Timestamp,
+    });
+
+    await processor.undo();
+
+    expect(restored).toEqual(['folder-a', 'child-1']);
+  });
+
+  it('should restore peer entity state through the plugin EntityHandler', async () => {
+    const entities = new Map<NodeId, PeerEntity & { title: string }>();
+    NodeRegistry.getInstance().registerPlugin({
+      nodeType: 'note',
+      name: 'Note',
+      entityHandler: {
+        createEntity: async (nodeId: NodeId, data: any) => {
+          const entity = { ...data, nodeId };
+          entities.set(nodeId, entity);
+          return entity;
+        },
+        getEntity: async (nodeId: NodeId) => entities.get(nodeId),
+        updateEntity: async (nodeId: NodeId, data: any) => {
+          entities.set(nodeId, { ...entities.get(nodeId)!, ...data });
+        },
+        deleteEntity: async (nodeId: NodeId) => {
+          entities.delete(nodeId);
+        },
+      },
+      routing: { actions: {} },
+      meta: {},
+    } as any);
+
+    await coreDB.createNode({ ...createTestNode('note-1', ROOT, 'Note'), nodeType: 'note' });
+    entities.set(
+      'note-1' as NodeId,
+      {
+        id: 'entity-1',
+        nodeId: 'note-1' as NodeId,
+        title: 'Original',
+        createdAt: 0,
+        updatedAt: 0,
+        version: 1,
+      } as any
+    );
+
+    await service.removeNodes(['note-1' as NodeId]);
+    entities.delete('note-1' as NodeId);
+
+    await commandProcessor.undo();
+
+    expect(await coreDB.getNode('note-1' as NodeId)).toBeDefined();
+    expect(entities.get('note-1' as NodeId)?.title).toBe('Original');
+
+    await commandProcessor.redo();
+
+    expect(await coreDB.getNode('note-1' as NodeId)).toBeUndefined();
+    expect(entities.has('note-1' as NodeId)).toBe(false);
+  });
+
+  it('should clear the redo stack when a new command is recorded', async () => {
+    await service.updateNode({ nodeId: 'folder-a' as NodeId, name: 'First' });
+    await commandProcessor.undo();
+    expect(commandProcessor.canRedo()).toBe(true);
+
+    await service.updateNode({ nodeId: 'folder-a' as NodeId, name: 'Second' });
+
+    expect(commandProcessor.canRedo()).toBe(false);
+  });
+
+  it('should undo commands sharing a groupId as one unit', async () => {
+    const scope = { groupId: 'batch-rename' };
+    await service.updateNode({ nodeId: 'folder-a' as NodeId, name: 'A2' }, scope);
+    await service.updateNode({ nodeId: 'folder-b' as NodeId, name: 'B2' }, scope);
+    expect(commandProcessor.getUndoStackSize()).toBe(1);
+
+    await commandProcessor.undo();
+    expect((await coreDB.getNode('folder-a' as NodeId))?.name).toBe('A');
+    expect((await coreDB.getNode('folder-b' as NodeId))?.name).toBe('B');
+
+    await commandProcessor.redo();
+    expect((await coreDB.getNode('folder-a' as NodeId))?.name).toBe('A2');
+    expect((await coreDB.getNode('folder-b' as NodeId))?.name).toBe('B2');
+  });
+
+  it('should reject undo of a group that is not the latest in its history', async () => {
+    await service.updateNode({ nodeId: 'folder-a' as NodeId, name: 'A2' }, { groupId: 'g1' });
+    await service.updateNode({ nodeId: 'folder-b' as NodeId, name: 'B2' }, { groupId: 'g2' });
+
+    const result = await commandProcessor.undo('g1');
+
+    expect(result.success).toBe(false);
+    expect((await coreDB.getNode('folder-a' as NodeId))?.name).toBe('A2');
+  });
+
+  it('should keep separate histories per sourceViewId', async () => {
+    await service.updateNode(
+      { nodeId: 'folder-a' as NodeId, name: 'A-left' },
+      { sourceViewId: 'left' }
+    );
+    await service.updateNode(
+      { nodeId: 'folder-b' as NodeId, name: 'B-right' },
+      { sourceViewId: 'right' }
+    );
+
+    expect(commandProcessor.canUndo('left')).toBe(true);
+    expect(commandProcessor.canUndo()).toBe(false);
+
+    await commandProcessor.undo(undefined, 'left');
+
+    expect((await coreDB.getNode('folder-a' as NodeId))?.name).toBe('A');
+    expect((await coreDB.getNode('folder-b' as NodeId))?.name).toBe('B-right');
+    expect(commandProcessor.canRedo('left')).toBe(true);
+    expect(commandProcessor.canRedo('right')).toBe(false);
+  });
+});
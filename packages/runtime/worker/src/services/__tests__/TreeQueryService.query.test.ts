@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  NodeIdGenerator,
+  type NodeId,
+  type Timestamp,
+  type TreeId,
+  type TreeNode,
+} from '@hierarchidb/common-core';
+import { CoreDB } from '../../db/CoreDB';
+import { parseNodeQuery } from '../../utils/nodeQuery';
+import { TreeQueryService } from '../TreeQueryService';
+import { createNode } from './testNodes';
+
+/**
+ * 構造化クエリ（queryNodes）のテスト
+ * Projectsツリーに次の構成を作成して検索します:
+ *   /Projects/Tokyo/{Streets(basemap), Population(spreadsheet), Old map(basemap, 2025年)}
+ *   /Projects/Osaka/{Osaka map(basemap)}
+ */
+
+const projectsRoot = NodeIdGenerator.rootNode('p' as TreeId);
+const at = (date: string) => new Date(date).getTime() as Timestamp;
+
+// 並び替えを決定的にするため、既定の作成・更新日時を固定する
+const dated = (extra: Partial<TreeNode> = {}): Partial<TreeNode> => ({
+  createdAt: at('2026-02-01T00:00:00'),
+  updatedAt: at('2026-02-01T00:00:00'),
+  ...extra,
+});
+
+describe('parseNodeQuery', () => {
+  it('AND・OR・NOT・括弧を解釈する', () => {
+    expect(parseNodeQuery('type:basemap (name:tokyo OR -has:references)')).toEqual({
+      expression: {
+        kind: 'and',
+        operands: [
+          { kind: 'filter', field: 'type', operator: ':', value: 'basemap' },
+          {
+            kind: 'or',
+            operands: [
+              { kind: 'filter', field: 'name', operator: ':', value: 'tokyo' },
+              {
+                kind: 'not',
+                operand: { kind: 'filter', field: 'has', operator: ':', value: 'references' },
+              },
+            ],
+          },
+        ],
+      },
+      sort: undefined,
+    });
+  });
+
+  it('構文エラーは位置とともに返す', () => {
+    expect(parseNodeQuery('type:basemap colour:red')).toEqual({
+      error: 'Unknown field "colour"',
+      position: 13,
+    });
+    expect(parseNodeQuery('updated>yesterday')).toMatchObject({ position: 8 });
+    expect(parseNodeQuery('(type:basemap')).toMatchObject({ position: 0 });
+    expect(parseNodeQuery('name:"Tokyo')).toMatchObject({ error: 'Unterminated quoted value' });
+  });
+});
+
+describe('TreeQueryService.queryNodes', () => {
+  let coreDB: CoreDB;
+  let service: TreeQueryService;
+
+  beforeEach(async () => {
+    coreDB = new CoreDB(`query-test-${crypto.randomUUID()}`);
+    await coreDB.initialize();
+    service = new TreeQueryService(coreDB);
+
+    await coreDB.bulkCreateNodes([
+      createNode('tokyo', projectsRoot, 'folder', 'Tokyo', dated()),
+      createNode('osaka', projectsRoot, 'folder', 'Osaka', dated()),
+      createNode(
+        'streets',
+        'tokyo',
+        'basemap',
+        'Streets',
+        dated({ references: ['population' as NodeId], updatedAt: at('2026-03-01T00:00:00') })
+      ),
+      createNode(
+        'population',
+        'tokyo',
+        'spreadsheet',
+        'Population',
+        dated({ description: 'Census 2020' })
+      ),
+      createNode('old-map', 'tokyo', 'basemap', 'Old map', {
+        createdAt: at('2025-06-01T00:00:00'),
+        updatedAt: at('2025-06-01T00:00:00'),
+      }),
+      createNode('osaka-map', 'osaka', 'basemap', 'Osaka map', dated()),
+    ]);
+  });
+
+  afterEach(() => {
+    coreDB.close();
+  });
+
+  const ids = async (
+    query: string,
+    options: Partial<Parameters<TreeQueryService['queryNodes']>[0]> = {}
+  ) => {
+    const result = await service.queryNodes({ query, ...options });
+    if (!result.success) throw new Error(result.error);
+    return result.nodes.map((node) => node.id);
+  };
+
+  it('種類・更新日時・パス・参照の条件を組み合わせられる', async () => {
+    expect(
+      await ids('type:basemap updated>2026-01-01 parent:/Projects/Tokyo has:references')
+    ).toEqual(['streets']);
+    expect(await ids('type:basemap parent:/Projects/Tokyo')).toEqual(['old-map', 'streets']);
+    expect(await ids('type:basemap ancestor:/projects')).toEqual([
+      'old-map',
+      'osaka-map',
+      'streets',
+    ]);
+  });
+
+  it('OR・NOT・自由語で絞り込める', async () => {
+    expect(await ids('type:spreadsheet OR name:osaka')).toEqual([
+      'osaka',
+      'osaka-map',
+      'population',
+    ]);
+    expect(await ids('type:basemap -name:osaka created<2026-01-01')).toEqual(['old-map']);
+    expect(await ids('census')).toEqual(['population']);
+    expect(await ids('has:children')).toEqual(['osaka', 'tokyo']);
+  });
+
+  it('並び替えとページングができる', async () => {
+    const page = await service.queryNodes({
+      query: 'type:basemap sort:updated-desc',
+      offset: 1,
+      limit: 1,
+    });
+
+    expect(page).toMatchObject({ success: true, total: 3, offset: 1, limit: 1 });
+    expect(page.success && page.nodes.map((node) => node.id)).toEqual(['osaka-map']);
+    expect(await ids('type:basemap', { sortBy: 'createdAt', sortOrder: 'asc' })).toEqual([
+      'old-map',
+      'osaka-map',
+      'streets',
+    ]);
+  });
+
+  it('範囲指定と構文エラー・存在しないパスを扱う', async () => {
+    expect(await ids('type:basemap', { rootNodeId: 'osaka' as NodeId })).toEqual(['osaka-map']);
+    expect(await ids('type:basemap', { treeId: 'r' as TreeId })).toEqual([]);
+    expect(await ids('parent:/Projects/Nagoya')).toEqual([]);
+    expect(await service.queryNodes({ query: 'type:' })).toMatchObject({
+      success: false,
+      position: 5,
+    });
+  });
+
+  it('ゴミ箱内のノードは元の親の位置で範囲判定する', async () => {
+    await coreDB.createNode(
+      createNode(
+        'trashed',
+        'trash',
+        'basemap',
+        'Trashed map',
+        dated({ originalParentId: 'tokyo' as NodeId, removedAt: at('2026-04-01T00:00:00') })
+      )
+    );
+
+    expect(await ids('is:removed')).toEqual([]);
+    expect(await ids('is:removed ancestor:/Projects/Tokyo', { includeRemoved: true })).toEqual([
+      'trashed',
+    ]);
+    expect(
+      await ids('is:removed', { rootNodeId: 'osaka' as NodeId, includeRemoved: true })
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  NodeIdGenerator,
+  SMART_FOLDER_NODE_TYPE,
+  type NodeId,
+  type NodeQueryResult,
+  type TreeId,
+} from '@hierarchidb/common-core';
+import { CoreDB } from '../../db/CoreDB';
+import { SmartFolderDB } from '../../db/SmartFolderDB';
+import { SmartFolderWorkerHandler } from '../../handlers/SmartFolderWorkerHandler';
+import type { EntityHandler } from '../../handlers/types';
+import { NodeRegistry } from '../../registry/NodeRegistry';
+import { TreeQueryService } from '../TreeQueryService';
+import { TreeSubscribeService } from '../TreeSubscribeService';
+import { createNode } from './testNodes';
+
+/**
+ * スマートフォルダのテスト
+ * 保存したクエリの結果が子として返り、ノードの変更に追従して更新されることを確認します。
+ */
+
+const projectsRoot = NodeIdGenerator.rootNode('p' as TreeId);
+
+describe('Smart folders', () => {
+  let coreDB: CoreDB;
+  let smartFolderDB: SmartFolderDB;
+  let handler: SmartFolderWorkerHandler;
+
+  beforeEach(async () => {
+    const dbName = `smart-folder-test-${crypto.randomUUID()}`;
+    coreDB = new CoreDB(dbName);
+    await coreDB.initialize();
+    smartFolderDB = new SmartFolderDB(`${dbName}-smartfolder`);
+    handler = new SmartFolderWorkerHandler(smartFolderDB);
+    vi.spyOn(NodeRegistry.getInstance(), 'getEntityHandler').mockImplementation((nodeType) =>
+      nodeType === SMART_FOLDER_NODE_TYPE ? (handler as unknown as EntityHandler) : undefined
+    );
+
+    await coreDB.bulkCreateNodes([
+      createNode('maps', projectsRoot, 'folder', 'Maps'),
+      createNode('streets', 'maps' as NodeId, 'basemap', 'Streets'),
+      createNode('population', 'maps' as NodeId, 'spreadsheet', 'Population'),
+      createNode('smart', projectsRoot, SMART_FOLDER_NODE_TYPE, 'All base maps'),
+      createNode('other-smart', projectsRoot, SMART_FOLDER_NODE_TYPE, 'Everything'),
+    ]);
+    await handler.createEntity('smart' as NodeId, { query: 'type:basemap OR type:smartfolder' });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    coreDB.close();
+    smartFolderDB.close();
+  });
+
+  it('保存したクエリの結果を子として返し、他のスマートフォルダは含めない', async () => {
+    const service = new TreeQueryService(coreDB);
+
+    const result = await service.listSmartFolderChildren('smart' as NodeId);
+
+    expect(result).toMatchObject({ success: true, total: 1 });
+    expect(result.success && result.nodes.map((node) => node.id)).toEqual(['streets']);
+    expect(await service.listSmartFolderChildren('maps' as NodeId)).toMatchObject({
+      success: false,
+    });
+  });
+
+  it('ノードの変更とクエリの更新に追従して結果を通知する', async () => {
+    const service = new TreeSubscribeService(coreDB);
+    const results: NodeQueryResult[] = [];
+    const latestIds = () => {
+      const latest = results[results.length - 1];
+      return latest?.success ? latest.nodes.map((node) => node.id) : undefined;
+    };
+
+    const subscriptionId = await service.subscribeSmartFolder('smart' as NodeId, (result) =>
+      results.push(result)
+    );
+    await vi.waitFor(() => expect(latestIds()).toEqual(['streets']));
+
+    await coreDB.createNode(createNode('old-map', 'maps' as NodeId, 'basemap', 'Old map'));
+    await vi.waitFor(() => expect(latestIds()).toEqual(['old-map', 'streets']));
+
+    await handler.updateEntity('smart' as NodeId, { query: 'type:spreadsheet' });
+    await coreDB.updateNode({ ...(await coreDB.getNode('smart' as NodeId))!, version: 2 });
+    await vi.waitFor(() => expect(latestIds()).toEqual(['population']));
+
+    await service.unsubscribe(subscriptionId);
+    const count = results.length;
+    await coreDB.createNode(createNode('census', 'maps' as NodeId, 'spreadsheet', 'Census'));
+    await new Promise((resolve) => setTimeout(resolve, 200));
+    expect(results).toHaveLength(count);
+  });
+});
@@ -0,0 +1,30 @@
+import type { NodeId, NodeType, Timestamp, TreeNode } from '@hierarchidb/common-core';
+
+/**
+ * テスト用ノード作成ヘルパー関数
+ *
+ * CoreDBへ直接投入するTreeNodeを作成します。
+ *
+ * @param id ノードID
+ * @param parentId 親ノードID
+ * @param nodeType ノード種別
+ * @param name ノード名
+ * @param extra 上書きするフィールド（説明・参照・日時など）
+ * @returns テスト用TreeNodeオブジェクト
+ */
+export const createNode = (
+  id: string,
+  parentId: string,
+  nodeType: string,
+  name: string,
+  extra: Partial<TreeNode> = {}
+): TreeNode => ({
+  id: id as NodeId,
+  parentId: parentId as NodeId,
+  nodeType: nodeType as NodeType,
+  name,
+  createdAt: Date.now() as Timestamp,
+  updatedAt: Date.now() as Timestamp,
+  version: 1,
+  ...extra,
+});
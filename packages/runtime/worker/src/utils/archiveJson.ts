@@ -0,0 +1,66 @@
+/**
+ * JSON encoding for export archives
+ * Binary columns (Uint8Array), Sets and bigints do not survive JSON.stringify, so they are
+ * written as tagged objects and restored by parseArchiveJson.
+ */
+
+type TaggedValue =
+  | { $type: 'Uint8Array'; base64: string }
+  | { $type: 'Set'; values: unknown[] }
+  | { $type: 'BigInt'; value: string };
+
+const BASE64_CHUNK_SIZE = 0x8000;
+
+export function encodeBase64(data: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < data.length; i += BASE64_CHUNK_SIZE) {
+    binary += String.fromCharCode(...data.subarray(i, i + BASE64_CHUNK_SIZE));
+  }
+  return btoa(binary);
+}
+
+export function decodeBase64(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    data[i] = binary.charCodeAt(i);
+  }
+  return data;
+}
+
+function replacer(_key: string, value: unknown): unknown {
+  if (value instanceof Uint8Array) {
+    return { $type: 'Uint8Array', base64: encodeBase64(value) } satisfies TaggedValue;
+  }
+  if (value instanceof Set) {
+    return { $type: 'Set', values: [...value] } satisfies TaggedValue;
+  }
+  if (typeof value === 'bigint') {
+    return { $type: 'BigInt', value: value.toString() } satisfies TaggedValue;
+  }
+  return value;
+}
+
+function reviver(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && '$type' in value) {
+    const tagged = value as TaggedValue;
+    if (tagged.$type === 'Uint8Array') {
+      return decodeBase64(tagged.base64);
+    }
+    if (tagged.$type === 'Set') {
+      return new Set(tagged.values);
+    }
+    if (tagged.$type === 'BigInt') {
+      return BigInt(tagged.value);
+    }
+  }
+  return value;
+}
+
+export function stringifyArchiveJson(value: unknown, space?: number): string {
+  return JSON.stringify(value, replacer, space);
+}
+
+export function parseArchiveJson<T = unknown>(text: string): T {
+  return JSON.parse(text, reviver) as T;
+}
@@ -0,0 +1,77 @@
+/**
+ * Cell value helpers shared by spreadsheet import and queries
+ * CSV cells arrive as strings, so numbers and dates are recognised from their text as well.
+ */
+
+import type { SpreadsheetMetadata } from '../db/SpreadsheetDB';
+
+export type ColumnStats = NonNullable<SpreadsheetMetadata['stats']>;
+
+export function isEmptyCell(value: unknown): boolean {
+  return value === null || value === undefined || value === '';
+}
+
+export function toNumber(value: unknown): number | undefined {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (typeof value === 'string' && /^\s*-?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?\s*$/i.test(value)) {
+    return Number(value);
+  }
+  return undefined;
+}
+
+/**
+ * Epoch milliseconds of a date written as YYYY-MM-DD or YYYY/MM/DD, optionally with a time
+ */
+export function toDate(value: unknown): number | undefined {
+  if (typeof value !== 'string' || !/^\d{4}[-/]\d{1,2}[-/]\d{1,2}/.test(value)) {
+    return undefined;
+  }
+  const time = Date.parse(value.replace(/\//g, '-'));
+  return Number.isNaN(time) ? undefined : time;
+}
+
+/**
+ * Classifies columns from every row it is given: a column is numeric (or a date) only when all
+ * its non-empty cells are, and text otherwise
+ */
+export class ColumnTypeTracker {
+  private numeric: boolean[];
+  private date: boolean[];
+  private seen: boolean[];
+
+  constructor(private columns: string[]) {
+    this.numeric = columns.map(() => true);
+    this.date = columns.map(() => true);
+    this.seen = columns.map(() => false);
+  }
+
+  add(rows: unknown[][]): void {
+    for (const row of rows) {
+      for (let index = 0; index < this.columns.length; index++) {
+        const value = row[index];
+        if (isEmptyCell(value)) {
+          continue;
+        }
+        this.seen[index] = true;
+        this.numeric[index] &&= toNumber(value) !== undefined;
+        this.date[index] &&= toDate(value) !== undefined;
+      }
+    }
+  }
+
+  stats(): ColumnStats {
+    const stats: ColumnStats = { numericColumns: [], dateColumns: [], textColumns: [] };
+    this.columns.forEach((column, index) => {
+      if (this.seen[index] && this.numeric[index]) {
+        stats.numericColumns.push(column);
+      } else if (this.seen[index] && this.date[index]) {
+        stats.dateColumns.push(column);
+      } else {
+        stats.textColumns.push(column);
+      }
+    });
+    return stats;
+  }
+}
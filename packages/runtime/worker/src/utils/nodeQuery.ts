@@ -0,0 +1,426 @@
+/**
+ * @file nodeQuery.ts
+ * @description Parser and matcher for structured node queries
+ *
+ * Grammar (AND binds tighter than OR; adjacent terms are ANDed):
+ *   query   := or
+ *   or      := and ('OR' and)*
+ *   and     := unary ('AND'? unary)*
+ *   unary   := ('NOT' | '-') unary | '(' or ')' | term
+ *   term    := field op value | value
+ *   op      := ':' | '=' | '>' | '>=' | '<' | '<='
+ *
+ * Values may be quoted ("Tokyo Bay"). `sort:<field>[-asc|-desc]` is a directive, not a filter.
+ */
+
+import type { NodeId, NodeQuerySortField, TreeNode } from '@hierarchidb/common-core';
+
+export type NodeQueryOperator = ':' | '=' | '>' | '>=' | '<' | '<=';
+
+export type NodeQueryField =
+  | 'type'
+  | 'name'
+  | 'description'
+  | 'parent'
+  | 'ancestor'
+  | 'created'
+  | 'updated'
+  | 'has'
+  | 'is';
+
+export type NodeQueryExpression =
+  | { kind: 'and'; operands: NodeQueryExpression[] }
+  | { kind: 'or'; operands: NodeQueryExpression[] }
+  | { kind: 'not'; operand: NodeQueryExpression }
+  | { kind: 'filter'; field: NodeQueryField; operator: NodeQueryOperator; value: string }
+  | { kind: 'text'; value: string };
+
+export interface ParsedNodeQuery {
+  // 条件なし（空のクエリ・sort指定のみ）の場合はundefined
+  expression?: NodeQueryExpression;
+  sort?: { field: NodeQuerySortField; order: 'asc' | 'desc' };
+}
+
+const FIELD_ALIASES: Record<string, NodeQueryField> = {
+  type: 'type',
+  name: 'name',
+  description: 'description',
+  desc: 'description',
+  parent: 'parent',
+  ancestor: 'ancestor',
+  under: 'ancestor',
+  created: 'created',
+  updated: 'updated',
+  has: 'has',
+  is: 'is',
+};
+
+const SORT_FIELDS: Record<string, NodeQuerySortField> = {
+  name: 'name',
+  type: 'nodeType',
+  created: 'createdAt',
+  updated: 'updatedAt',
+};
+
+const HAS_VALUES = ['references', 'description', 'children'];
+const IS_VALUES = ['removed', 'draft'];
+const DATE_FIELDS: NodeQueryField[] = ['created', 'updated'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TERM_PATTERN = /^([a-zA-Z]+)(>=|<=|:|=|>|<)([\s\S]*)$/;
+
+type Token =
+  | { type: 'lparen' | 'rparen' | 'and' | 'or' | 'not'; position: number }
+  | { type: 'word'; raw: string; value: string; quoted: boolean; position: number };
+
+class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    readonly position: number
+  ) {
+    super(message);
+  }
+}
+
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i]!;
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', position: i });
+      i++;
+    } else if (char === '-' && i + 1 < query.length && !/[\s()]/.test(query[i + 1]!)) {
+      tokens.push({ type: 'not', position: i });
+      i++;
+    } else {
+      // 引用符の中は空白・括弧も値の一部として読む
+      const start = i;
+      let raw = '';
+      let value = '';
+      let quoted = false;
+      while (i < query.length && !/[\s()]/.test(query[i]!)) {
+        if (query[i] === '"') {
+          const end = query.indexOf('"', i + 1);
+          if (end === -1) {
+            throw new QuerySyntaxError('Unterminated quoted value', i);
+          }
+          raw += query.slice(i, end + 1);
+          value += query.slice(i + 1, end);
+          quoted = true;
+          i = end + 1;
+        } else {
+          raw += query[i];
+          value += query[i];
+          i++;
+        }
+      }
+
+      if (!quoted && (value === 'AND' || value === 'OR' || value === 'NOT')) {
+        tokens.push({ type: value.toLowerCase() as 'and' | 'or' | 'not', position: start });
+      } else {
+        tokens.push({ type: 'word', raw, value, quoted, position: start });
+      }
+    }
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+  sort?: ParsedNodeQuery['sort'];
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): NodeQueryExpression | undefined {
+    const expression = this.parseOr();
+    const token = this.peek();
+    if (token) {
+      throw new QuerySyntaxError(
+        token.type === 'rparen' ? 'Unmatched closing parenthesis' : 'Unexpected token',
+        token.position
+      );
+    }
+    return expression;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): NodeQueryExpression | undefined {
+    const operands: NodeQueryExpression[] = [];
+    let operand = this.parseAnd();
+    if (operand) operands.push(operand);
+
+    while (this.peek()?.type === 'or') {
+      const orToken = this.tokens[this.index++]!;
+      operand = this.parseAnd();
+      if (!operand || operands.length === 0) {
+        throw new QuerySyntaxError('OR needs a condition on both sides', orToken.position);
+      }
+      operands.push(operand);
+    }
+
+    return operands.length > 1 ? { kind: 'or', operands } : operands[0];
+  }
+
+  private parseAnd(): NodeQueryExpression | undefined {
+    const operands: NodeQueryExpression[] = [];
+
+    for (;;) {
+      const token = this.peek();
+      if (!token || token.type === 'or' || token.type === 'rparen') {
+        break;
+      }
+      if (token.type === 'and') {
+        this.index++;
+        if (operands.length === 0 || this.isAtOperandEnd()) {
+          throw new QuerySyntaxError('AND needs a condition on both sides', token.position);
+        }
+        continue;
+      }
+      const operand = this.parseUnary();
+      if (operand) operands.push(operand);
+    }
+
+    return operands.length > 1 ? { kind: 'and', operands } : operands[0];
+  }
+
+  private isAtOperandEnd(): boolean {
+    const next = this.peek();
+    return !next || next.type === 'or' || next.type === 'and' || next.type === 'rparen';
+  }
+
+  private parseUnary(): NodeQueryExpression | undefined {
+    const token = this.tokens[this.index++]!;
+
+    if (token.type === 'not') {
+      if (this.isAtOperandEnd()) {
+        throw new QuerySyntaxError('NOT needs a condition', token.position);
+      }
+      const operand = this.parseUnary();
+      return operand ? { kind: 'not', operand } : undefined;
+    }
+
+    if (token.type === 'lparen') {
+      const expression = this.parseOr();
+      if (this.peek()?.type !== 'rparen') {
+        throw new QuerySyntaxError('Missing closing parenthesis', token.position);
+      }
+      this.index++;
+      if (!expression) {
+        throw new QuerySyntaxError('Empty parentheses', token.position);
+      }
+      return expression;
+    }
+
+    if (token.type !== 'word') {
+      throw new QuerySyntaxError('Unexpected token', token.position);
+    }
+    return this.parseTerm(token);
+  }
+
+  private parseTerm(token: Extract<Token, { type: 'word' }>): NodeQueryExpression | undefined {
+    const match = token.raw.startsWith('"') ? null : TERM_PATTERN.exec(token.raw);
+    if (!match) {
+      return { kind: 'text', value: token.value };
+    }
+
+    const [, fieldName, operator, rawValue] = match as unknown as [
+      string,
+      string,
+      NodeQueryOperator,
+      string,
+    ];
+    const value = rawValue.replace(/"/g, '');
+    const valuePosition = token.position + fieldName.length + operator.length;
+    if (!value) {
+      throw new QuerySyntaxError(`Missing value for "${fieldName}"`, valuePosition);
+    }
+
+    if (fieldName.toLowerCase() === 'sort') {
+      this.sort = parseSortDirective(value, valuePosition);
+      return undefined;
+    }
+
+    const field = FIELD_ALIASES[fieldName.toLowerCase()];
+    if (!field) {
+      throw new QuerySyntaxError(`Unknown field "${fieldName}"`, token.position);
+    }
+    if (operator !== ':' && operator !== '=' && !DATE_FIELDS.includes(field)) {
+      throw new QuerySyntaxError(`"${fieldName}" does not support "${operator}"`, token.position);
+    }
+    if (DATE_FIELDS.includes(field) && parseDateRange(value) === undefined) {
+      throw new QuerySyntaxError(`Invalid date "${value}"`, valuePosition);
+    }
+    if (field === 'has' && !HAS_VALUES.includes(value.toLowerCase())) {
+      throw new QuerySyntaxError(`Expected one of has:${HAS_VALUES.join('|')}`, valuePosition);
+    }
+    if (field === 'is' && !IS_VALUES.includes(value.toLowerCase())) {
+      throw new QuerySyntaxError(`Expected one of is:${IS_VALUES.join('|')}`, valuePosition);
+    }
+
+    return { kind: 'filter', field, operator, value };
+  }
+}
+
+function parseSortDirective(value: string, position: number): ParsedNodeQuery['sort'] {
+  const [fieldName = '', order = 'asc'] = value.toLowerCase().split('-');
+  const field = SORT_FIELDS[fieldName];
+  if (!field || (order !== 'asc' && order !== 'desc')) {
+    throw new QuerySyntaxError(`Invalid sort "${value}"`, position);
+  }
+  return { field, order };
+}
+
+/**
+ * Parse a date value into a [start, end) range in local time.
+ * A date without a time covers the whole day.
+ */
+function parseDateRange(value: string): { start: number; end: number } | undefined {
+  const dateOnly = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value);
+  if (dateOnly) {
+    const start = new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3]));
+    return { start: start.getTime(), end: start.getTime() + DAY_MS };
+  }
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? undefined : { start: time, end: time + 1 };
+}
+
+/**
+ * Parse a query string. Syntax errors are returned with the character position they occur at.
+ */
+export function parseNodeQuery(
+  query: string
+): ParsedNodeQuery | { error: string; position: number } {
+  try {
+    const parser = new Parser(lex(query));
+    const expression = parser.parse();
+    return { expression, sort: parser.sort };
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { error: error.message, position: error.position };
+    }
+    throw error;
+  }
+}
+
+/**
+ * Values of `parent:` / `ancestor:` filters, which must be resolved to node IDs before matching
+ */
+export function collectNodeReferences(expression: NodeQueryExpression | undefined): string[] {
+  if (!expression) {
+    return [];
+  }
+  switch (expression.kind) {
+    case 'and':
+    case 'or':
+      return expression.operands.flatMap(collectNodeReferences);
+    case 'not':
+      return collectNodeReferences(expression.operand);
+    case 'filter':
+      return expression.field === 'parent' || expression.field === 'ancestor'
+        ? [expression.value]
+        : [];
+    default:
+      return [];
+  }
+}
+
+export interface NodeQueryContext {
+  // `parent:` / `ancestor:` の値から解決したノードID（解決できなければundefined）
+  resolvedNodeIds: Map<string, NodeId | undefined>;
+  ancestorIds(node: TreeNode): NodeId[];
+  hasChildren(node: TreeNode): boolean;
+}
+
+const includesText = (text: string | undefined, value: string): boolean =>
+  !!text && text.toLowerCase().includes(value.toLowerCase());
+
+function matchesDate(time: number, operator: NodeQueryOperator, value: string): boolean {
+  const range = parseDateRange(value);
+  if (!range) {
+    return false;
+  }
+  switch (operator) {
+    case '>':
+      return time >= range.end;
+    case '>=':
+      return time >= range.start;
+    case '<':
+      return time < range.start;
+    case '<=':
+      return time < range.end;
+    default:
+      return time >= range.start && time < range.end;
+  }
+}
+
+function matchesFilter(
+  node: TreeNode,
+  filter: Extract<NodeQueryExpression, { kind: 'filter' }>,
+  context: NodeQueryContext
+): boolean {
+  const { value } = filter;
+  switch (filter.field) {
+    case 'type':
+      return node.nodeType.toLowerCase() === value.toLowerCase();
+    case 'name':
+      return includesText(node.name, value);
+    case 'description':
+      return includesText(node.description, value);
+    case 'parent': {
+      const parentId = context.resolvedNodeIds.get(value);
+      return parentId !== undefined && node.parentId === parentId;
+    }
+    case 'ancestor': {
+      const ancestorId = context.resolvedNodeIds.get(value);
+      return ancestorId !== undefined && context.ancestorIds(node).includes(ancestorId);
+    }
+    case 'created':
+      return matchesDate(node.createdAt, filter.operator, value);
+    case 'updated':
+      return matchesDate(node.updatedAt, filter.operator, value);
+    case 'has':
+      switch (value.toLowerCase()) {
+        case 'references':
+          return (node.references?.length ?? 0) > 0;
+        case 'description':
+          return !!node.description?.trim();
+        default:
+          return context.hasChildren(node);
+      }
+    case 'is':
+      return value.toLowerCase() === 'removed' ? !!node.removedAt : !!node.isDraft;
+  }
+}
+
+export function matchesNodeQuery(
+  node: TreeNode,
+  expression: NodeQueryExpression | undefined,
+  context: NodeQueryContext
+): boolean {
+  if (!expression) {
+    return true;
+  }
+  switch (expression.kind) {
+    case 'and':
+      return expression.operands.every((operand) => matchesNodeQuery(node, operand, context));
+    case 'or':
+      return expression.operands.some((operand) => matchesNodeQuery(node, operand, context));
+    case 'not':
+      return !matchesNodeQuery(node, expression.operand, context);
+    case 'filter':
+      return matchesFilter(node, expression, context);
+    case 'text':
+      return (
+        includesText(node.name, expression.value) ||
+        includesText(node.description, expression.value)
+      );
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * @file searchTokenizer.ts
+ * @description Tokenizer for the full-text search index (English and Japanese)
+ */
+
+// 日本語（ひらがな・カタカナ・漢字）は空白で区切られないため、文字bigramで索引する
+const CJK_CHAR = /[\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Han}ー々]/u;
+const WORD_CHAR = /[\p{L}\p{N}]/u;
+
+/**
+ * Split text into normalized index tokens.
+ * Latin words and numbers become lowercase words; runs of Japanese characters
+ * become overlapping bigrams plus the trailing character, so that a single
+ * character query can still match by prefix.
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  let word = '';
+  let cjkRun = '';
+
+  const flushWord = () => {
+    if (word) tokens.push(word);
+    word = '';
+  };
+  const flushCjk = () => {
+    const chars = [...cjkRun];
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i]! + chars[i + 1]!);
+    }
+    if (chars.length > 0) tokens.push(chars[chars.length - 1]!);
+    cjkRun = '';
+  };
+
+  for (const char of text.normalize('NFKC').toLowerCase()) {
+    if (CJK_CHAR.test(char)) {
+      flushWord();
+      cjkRun += char;
+    } else if (WORD_CHAR.test(char)) {
+      flushCjk();
+      word += char;
+    } else {
+      flushWord();
+      flushCjk();
+    }
+  }
+  flushWord();
+  flushCjk();
+
+  return tokens;
+}
+
+/**
+ * Split a query into its whitespace-separated terms, normalized like the index.
+ * Each term is matched by its own tokens; the terms are also used for highlighting.
+ */
+export function splitQueryTerms(query: string): string[] {
+  return query
+    .normalize('NFKC')
+    .toLowerCase()
+    .split(/\s+/)
+    .filter((term) => tokenize(term).length > 0);
+}
@@ -0,0 +1,144 @@
+/**
+ * Table parsing for spreadsheet imports
+ * Reads CSV/TSV, JSON and Excel (.xlsx) into a header row and cell rows. Delimited text
+ * and workbooks go through the shared common-data codecs.
+ */
+
+import { parseCsvRows, readSheetRows } from '@hierarchidb/common-data';
+
+export type TableFormat = 'csv' | 'tsv' | 'excel' | 'json';
+
+export interface TableParseOptions {
+  format: TableFormat;
+  hasHeader?: boolean;
+  delimiter?: string;
+  encoding?: string;
+  sheetName?: string;
+}
+
+export interface ParsedTable {
+  columns: string[];
+  rows: unknown[][];
+  delimiter: string;
+}
+
+const EXTENSION_FORMATS: Record<string, TableFormat> = {
+  csv: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+  xlsx: 'excel',
+  json: 'json',
+};
+
+/**
+ * Guess the format from a file name or URL, then from the content
+ */
+export function detectTableFormat(
+  bytes: Uint8Array,
+  name?: string,
+  mimeType?: string
+): TableFormat {
+  const extension = name?.split(/[?#]/)[0]?.split('.').pop()?.toLowerCase();
+  const byExtension = extension ? EXTENSION_FORMATS[extension] : undefined;
+  if (byExtension) {
+    return byExtension;
+  }
+  if (mimeType?.includes('spreadsheetml') || (bytes[0] === 0x50 && bytes[1] === 0x4b)) {
+    return 'excel';
+  }
+  if (mimeType?.includes('json')) {
+    return 'json';
+  }
+  if (mimeType?.includes('tab-separated')) {
+    return 'tsv';
+  }
+  const head = new TextDecoder().decode(bytes.subarray(0, 4096)).trimStart();
+  if (head.startsWith('[') || head.startsWith('{')) {
+    return 'json';
+  }
+  return parseCsvRows(head).delimiter === '\t' ? 'tsv' : 'csv';
+}
+
+export async function parseTable(
+  bytes: Uint8Array,
+  options: TableParseOptions
+): Promise<ParsedTable> {
+  const hasHeader = options.hasHeader !== false;
+  switch (options.format) {
+    case 'excel': {
+      const rows = (await readSheetRows(bytes, options.sheetName)).filter((row) =>
+        row.some((cell) => cell !== '')
+      );
+      return { ...toTable(rows, hasHeader), delimiter: '' };
+    }
+    case 'json':
+      return { ...parseJsonTable(decode(bytes, options.encoding), hasHeader), delimiter: '' };
+    case 'csv':
+    case 'tsv': {
+      const { rows, delimiter } = parseCsvRows(
+        decode(bytes, options.encoding),
+        options.delimiter ?? (options.format === 'tsv' ? '\t' : '')
+      );
+      return { ...toTable(rows, hasHeader), delimiter };
+    }
+    default:
+      throw new Error(`Unsupported table format: ${options.format}`);
+  }
+}
+
+function decode(bytes: Uint8Array, encoding = 'utf-8'): string {
+  return new TextDecoder(encoding).decode(bytes);
+}
+
+/**
+ * Split off the header row; unnamed and repeated headers get unique names
+ */
+function toTable(cells: unknown[][], hasHeader: boolean): Omit<ParsedTable, 'delimiter'> {
+  const width = Math.max(0, ...cells.map((row) => row.length));
+  const header = hasHeader ? (cells[0] ?? []) : [];
+  const rows = (hasHeader ? cells.slice(1) : cells).map((row) =>
+    row.length < width ? [...row, ...Array<unknown>(width - row.length).fill('')] : row
+  );
+
+  const seen = new Set<string>();
+  const columns = Array.from({ length: width }, (_, index) => {
+    const base = String(header[index] ?? '').trim() || `Column ${index + 1}`;
+    let name = base;
+    for (let n = 2; seen.has(name); n++) {
+      name = `${base} (${n})`;
+    }
+    seen.add(name);
+    return name;
+  });
+  return { columns, rows };
+}
+
+/**
+ * An array of objects (keys become columns) or of arrays, optionally wrapped in an object
+ * such as { "data": [...] }
+ */
+function parseJsonTable(text: string, hasHeader: boolean): Omit<ParsedTable, 'delimiter'> {
+  let value: unknown = JSON.parse(text);
+  if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    value = Object.values(value).find(Array.isArray);
+  }
+  if (!Array.isArray(value)) {
+    throw new Error('JSON table must be an array of rows');
+  }
+  if (value.every(Array.isArray)) {
+    return toTable(value as unknown[][], hasHeader);
+  }
+
+  const columns = [
+    ...new Set(
+      value.flatMap((item) => (item !== null && typeof item === 'object' ? Object.keys(item) : []))
+    ),
+  ];
+  const rows = value.map((item) =>
+    columns.map((column) => {
+      const cell = (item as Record<string, unknown> | null)?.[column];
+      return cell !== null && typeof cell === 'object' ? JSON.stringify(cell) : (cell ?? '');
+    })
+  );
+  return { columns, rows };
+}
@@ -0,0 +1,218 @@
+/**
+ * Minimal ZIP archive writer and reader for export bundles
+ * Entries are deflated with CompressionStream('deflate-raw') when available, stored otherwise.
+ * ZIP64 is not supported, so each entry and the whole archive must stay below 4 GiB.
+ */
+
+export interface ZipEntry {
+  path: string;
+  data: string | Uint8Array;
+}
+
+export interface ZipWriteOptions {
+  compress?: boolean;
+  onEntry?: (index: number, total: number, path: string) => void;
+}
+
+const METHOD_STORE = 0;
+const METHOD_DEFLATE = 8;
+const FLAG_UTF8 = 0x0800;
+const ZIP_VERSION = 20;
+const MAX_UINT32 = 0xffffffff;
+
+let crcTable: Uint32Array | undefined;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]!) & 0xff]! ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+async function deflateRaw(data: Uint8Array): Promise<Uint8Array | undefined> {
+  if (typeof CompressionStream === 'undefined') {
+    return undefined;
+  }
+  try {
+    const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+  } catch {
+    return undefined;
+  }
+}
+
+async function inflateRaw(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function toDosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+/**
+ * Build a ZIP archive from the given entries, in order
+ */
+export async function createZipArchive(
+  entries: ZipEntry[],
+  options: ZipWriteOptions = {}
+): Promise<Blob> {
+  const { compress = true, onEntry } = options;
+  const encoder = new TextEncoder();
+  const { time, date } = toDosDateTime(new Date());
+
+  const parts: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [index, entry] of entries.entries()) {
+    onEntry?.(index + 1, entries.length, entry.path);
+
+    const name = encoder.encode(entry.path);
+    const raw = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const deflated = compress ? await deflateRaw(raw) : undefined;
+    const useDeflate = deflated !== undefined && deflated.length < raw.length;
+    const body = useDeflate ? deflated : raw;
+    const method = useDeflate ? METHOD_DEFLATE : METHOD_STORE;
+    const checksum = crc32(raw);
+
+    if (raw.length > MAX_UINT32 || offset > MAX_UINT32) {
+      throw new Error(`ZIP entry too large: ${entry.path}`);
+    }
+
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, ZIP_VERSION, true);
+    localView.setUint16(6, FLAG_UTF8, true);
+    localView.setUint16(8, method, true);
+    localView.setUint16(10, time, true);
+    localView.setUint16(12, date, true);
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, body.length, true);
+    localView.setUint32(22, raw.length, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, ZIP_VERSION, true);
+    centralView.setUint16(6, ZIP_VERSION, true);
+    centralView.setUint16(8, FLAG_UTF8, true);
+    centralView.setUint16(10, method, true);
+    centralView.setUint16(12, time, true);
+    centralView.setUint16(14, date, true);
+    centralView.setUint32(16, checksum, true);
+    centralView.setUint32(20, body.length, true);
+    centralView.setUint32(24, raw.length, true);
+    centralView.setUint16(28, name.length, true);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    parts.push(local, body);
+    centralDirectory.push(central);
+    offset += local.length + body.length;
+  }
+
+  const centralSize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end] as BlobPart[], { type: 'application/zip' });
+}
+
+/**
+ * Read all entries of a ZIP archive written by createZipArchive (or any non-ZIP64 archive
+ * using the store/deflate methods), keyed by path
+ */
+export async function readZipArchive(blob: Blob): Promise<Map<string, Uint8Array>> {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record sits at the end, before an optional comment
+  let endOffset = bytes.length - 22;
+  while (endOffset >= 0 && view.getUint32(endOffset, true) !== 0x06054b50) {
+    endOffset--;
+  }
+  if (endOffset < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const count = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const entries = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const method = view.getUint16(offset + 10, true);
+    const checksum = view.getUint32(offset + 16, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+    const dataStart =
+      localOffset +
+      30 +
+      view.getUint16(localOffset + 26, true) +
+      view.getUint16(localOffset + 28, true);
+    const body = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    let data: Uint8Array;
+    if (method === METHOD_STORE) {
+      data = body;
+    } else if (method === METHOD_DEFLATE) {
+      data = await inflateRaw(body);
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method}: ${path}`);
+    }
+    if (crc32(data) !== checksum) {
+      throw new Error(`ZIP entry checksum mismatch: ${path}`);
+    }
+
+    if (!path.endsWith('/')) {
+      entries.set(path, data);
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Whether the bytes start with a ZIP local file header
+ */
+export function isZipArchive(bytes: Uint8Array): boolean {
+  return bytes[0] === 0x50 && bytes[1] === 0x4b && bytes[2] === 0x03 && bytes[3] === 0x04;
+}
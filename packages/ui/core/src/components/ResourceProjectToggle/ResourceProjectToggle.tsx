@@ -1,16 +1,17 @@
 /**
  * @file ResourceProjectToggle.tsx
- * @description Toggle button group for switching between Resources and Projects pages
+ * @description Toggle button group for switching between Resources, Projects and user-defined trees
  */
 
 import { Button, ButtonGroup, ButtonProps } from '@mui/material';
-import { NodeId } from '@hierarchidb/common-core';
+import { NodeId, Tree } from '@hierarchidb/common-core';
+import { useNavigate } from 'react-router-dom';
 // @ts-ignore - react-router not available in ui-core
 const useLoaderData = () => ({}); // Placeholder until moved to proper package
-const useNavigate = () => (_path: string, _options?: any) => {}; // Placeholder until moved to proper package
 // import { AttachmentIcon, MapIcon } from '~/icons';
 import AttachmentIcon from '@mui/icons-material/Attachment';
 import MapIcon from '@mui/icons-material/Map';
+import AccountTreeIcon from '@mui/icons-material/AccountTree';
 
 export type ResourceProjectType = 'resources' | 'projects' | 'none';
 export type ResourceProjectToggleOrientation = 'horizontal' | 'vertical';
@@ -33,6 +34,10 @@ interface ResourceProjectToggleProps {
   orientation?: ResourceProjectToggleOrientation;
   /** Button size - small, medium (default), or large */
   size?: ResourceProjectToggleSize;
+  /** User-defined trees shown after Resources and Projects (built-in 'r'/'p' are ignored) */
+  trees?: Pick<Tree, 'id' | 'name'>[];
+  /** Currently selected user-defined tree */
+  selectedTreeId?: string;
 }
 
 export function ResourceProjectToggle({
@@ -44,6 +49,8 @@ export function ResourceProjectToggle({
   getNodeContext,
   orientation = 'horizontal',
   size = 'medium',
+  trees = [],
+  selectedTreeId,
 }: ResourceProjectToggleProps) {
   const navigate = useNavigate();
 
@@ -89,7 +96,7 @@ export function ResourceProjectToggle({
       variant="outlined"
       size={size as ButtonProps['size']}
       orientation={orientation}
-      aria-label="Switch between Resources and Projects"
+      aria-label="Switch between trees"
       sx={{
         ...(orientation === 'vertical'
           ? {
@@ -136,6 +143,22 @@ export function ResourceProjectToggle({
       >
         Projects
       </Button>
+      {trees
+        .filter((tree) => tree.id !== 'r' && tree.id !== 'p')
+        .map((tree) => (
+          <Button
+            key={tree.id}
+            variant={selectedTreeId === tree.id ? 'contained' : 'outlined'}
+            color="inherit"
+            size={'large'}
+            onClick={() => navigate(`/t/${tree.id}`, { replace: true })}
+            aria-pressed={selectedTreeId === tree.id}
+            startIcon={<AccountTreeIcon />}
+            fullWidth={orientation === 'vertical'}
+          >
+            {tree.name}
+          </Button>
+        ))}
     </ButtonGroup>
   );
 }
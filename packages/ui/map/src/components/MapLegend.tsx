@@ -0,0 +1,75 @@
+/**
+ * @file MapLegend.tsx
+ * @description Legend overlay listing the colors of a data-driven map layer
+ */
+
+import React from 'react';
+
+export interface MapLegendItem {
+  label: string;
+  color: string;
+  borderColor?: string;
+  opacity?: number;
+  count?: number;
+}
+
+export interface MapLegendProps {
+  items: MapLegendItem[];
+  title?: string;
+  position?: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  /** Show the feature count next to each label */
+  showCounts?: boolean;
+}
+
+export const MapLegend: React.FC<MapLegendProps> = ({
+  items,
+  title,
+  position = 'bottom-left',
+  showCounts = false,
+}) => {
+  if (items.length === 0) {
+    return null;
+  }
+
+  const [vertical, horizontal] = position.split('-') as ['top' | 'bottom', 'left' | 'right'];
+  const containerStyle: React.CSSProperties = {
+    position: 'absolute',
+    [vertical]: 24,
+    [horizontal]: 8,
+    zIndex: 1,
+    maxHeight: '50%',
+    overflowY: 'auto',
+    padding: '6px 8px',
+    background: 'rgba(255, 255, 255, 0.9)',
+    borderRadius: 4,
+    boxShadow: '0 1px 4px rgba(0, 0, 0, 0.3)',
+    font: '12px/1.5 sans-serif',
+  };
+
+  return (
+    <div style={containerStyle} role="list" aria-label={title ?? 'Legend'}>
+      {title && <div style={{ fontWeight: 600, marginBottom: 4 }}>{title}</div>}
+      {items.map((item, index) => (
+        <div key={index} role="listitem" style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+          <span
+            style={{
+              display: 'inline-block',
+              width: 14,
+              height: 14,
+              flexShrink: 0,
+              background: item.color,
+              opacity: item.opacity,
+              border: `1px solid ${item.borderColor ?? 'rgba(0, 0, 0, 0.2)'}`,
+            }}
+          />
+          <span>
+            {item.label}
+            {showCounts && item.count !== undefined && ` (${item.count})`}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default MapLegend;
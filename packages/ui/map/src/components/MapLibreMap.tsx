@@ -5,7 +5,7 @@
 
 import React, { useRef, useState, useCallback } from 'react';
 import { Map as ReactMapLibreMap, MapProvider } from '@vis.gl/react-maplibre';
-import type { Map as MapLibreMapInstance } from 'maplibre-gl';
+import type { Map as MapLibreMapInstance, StyleSpecification } from 'maplibre-gl';
 import 'maplibre-gl/dist/maplibre-gl.css';
 
 export interface MapViewState {
@@ -21,7 +21,7 @@ export interface MapLibreMapProps {
   initialViewState: MapViewState;
   
   /** Map style URL or style object */
-  mapStyle?: string;
+  mapStyle?: string | StyleSpecification;
   
   /** Map container width */
   width?: string | number;
@@ -7,6 +7,7 @@ import React, { useCallback, useState } from 'react';
 import type { Map as MapLibreMapInstance, FilterSpecification } from 'maplibre-gl';
 import MapLibreMap, { type MapViewState } from './MapLibreMap';
 import VectorTileLayer from './VectorTileLayer';
+import MapLegend, { type MapLegendProps } from './MapLegend';
 
 export interface LayerOptions {
   layerId?: string;
@@ -43,6 +44,9 @@ export interface MapWithVectorTilesProps {
   /** Vector tile layer options */
   layerOptions?: LayerOptions;
   
+  /** Legend for the vector tile layer, e.g. the entries of a choropleth paint */
+  legend?: MapLegendProps;
+  
   /** Custom vector tile URLs */
   tiles?: string[];
   
@@ -96,6 +100,7 @@ export const MapWithVectorTiles: React.FC<MapWithVectorTilesProps> = ({
   height = '500px',
   style,
   layerOptions = {},
+  legend,
   tiles,
   tileDataProvider,
   onMapLoad,
@@ -142,6 +147,7 @@ export const MapWithVectorTiles: React.FC<MapWithVectorTilesProps> = ({
           tileDataProvider={tileDataProvider}
         />
       )}
+      {legend && <MapLegend {...legend} />}
     </MapLibreMap>
   );
 };
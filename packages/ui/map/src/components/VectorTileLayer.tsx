@@ -64,6 +64,68 @@ export interface VectorTileLayerProps {
   tileDataProvider?: (z: number, x: number, y: number, nodeId?: string) => Promise<ArrayBuffer | null>;
 }
 
+/**
+ * Serve dexie://<dbName>/<nodeId>/{z}/{x}/{y} tile URLs from a tile provider
+ * The protocol is global to MapLibre, so only the first provider is registered.
+ */
+export function registerDexieTileProtocol(
+  tileDataProvider: NonNullable<VectorTileLayerProps['tileDataProvider']>
+): void {
+  if (!protocolRegistered) {
+    try {
+      addProtocol(
+        'dexie',
+        async (
+          params: RequestParameters,
+          _abortController: AbortController,
+        ): Promise<GetResourceResponse<ArrayBuffer>> => {
+          const urlParts = params.url.replace('dexie://', '').split('/').filter(Boolean);
+          const [dbName, nodeId, z, x, y] = urlParts;
+
+          if (!dbName || !nodeId || !z || !x || !y) {
+            throw new Error(`Invalid dexie URL format: ${params.url}`);
+          }
+
+          const zInt = parseInt(z, 10);
+          const xInt = parseInt(x, 10);
+          const yInt = parseInt(y, 10);
+
+          try {
+            const tileData = await tileDataProvider(zInt, xInt, yInt, nodeId);
+            
+            if (tileData) {
+              return {
+                data: tileData,
+                cacheControl: null,
+                expires: null,
+              };
+            } else {
+              return {
+                data: new ArrayBuffer(0),
+                cacheControl: null,
+                expires: null,
+              };
+            }
+          } catch (error) {
+            console.warn(
+              `[VectorTileLayer] Tile not found: z=${zInt}, x=${xInt}, y=${yInt}, nodeId=${nodeId}`,
+              error,
+            );
+            return {
+              data: new ArrayBuffer(0),
+              cacheControl: null,
+              expires: null,
+            };
+          }
+        },
+      );
+      protocolRegistered = true;
+    } catch (error) {
+      protocolRegistered = true; // Assume it was already registered
+    }
+  }
+}
+
 const defaultPaint = {
   'fill-color': 'rgba(0, 136, 136, 0.7)',
   'fill-outline-color': '#004444',
@@ -94,59 +156,7 @@ export const VectorTileLayer: React.FC<VectorTileLayerProps> = ({
   useEffect(() => {
     if (!dbName || !nodeId || !tileDataProvider) return;
 
-    if (!protocolRegistered) {
-      try {
-        addProtocol(
-          'dexie',
-          async (
-            params: RequestParameters,
-            _abortController: AbortController,
-          ): Promise<GetResourceResponse<ArrayBuffer>> => {
-            const urlParts = params.url.replace('dexie://', '').split('/').filter(Boolean);
-            const [dbName, nodeId, z, x, y] = urlParts;
-
-            if (!dbName || !nodeId || !z || !x || !y) {
-              throw new Error(`Invalid dexie URL format: ${params.url}`);
-            }
-
-            const zInt = parseInt(z, 10);
-            const xInt = parseInt(x, 10);
-            const yInt = parseInt(y, 10);
-
-            try {
-              const tileData = await tileDataProvider(zInt, xInt, yInt, nodeId);
-              
-              if (tileData) {
-                return {
-                  data: tileData,
-                  cacheControl: null,
-                  expires: null,
-                };
-              } else {
-                return {
-                  data: new ArrayBuffer(0),
-                  cacheControl: null,
-                  expires: null,
-                };
-              }
-            } catch (error) {
-              console.warn(
-                `[VectorTileLayer] Tile not found: z=${zInt}, x=${xInt}, y=${yInt}, nodeId=${nodeId}`,
-                error,
-              );
-              return {
-                data: new ArrayBuffer(0),
-                cacheControl: null,
-                expires: null,
-              };
-            }
-          },
-        );
-        protocolRegistered = true;
-      } catch (error) {
-        protocolRegistered = true; // Assume it was already registered
-      }
-    }
+    registerDexieTileProtocol(tileDataProvider);
 
     // Set up computed tiles
     if (!tilesLoadedRef.current) {
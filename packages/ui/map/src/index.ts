@@ -5,18 +5,21 @@
 
 // Core map components
 export { MapLibreMap } from './components/MapLibreMap';
-export { VectorTileLayer } from './components/VectorTileLayer';
+export { VectorTileLayer, registerDexieTileProtocol } from './components/VectorTileLayer';
 export { MapWithVectorTiles } from './components/MapWithVectorTiles';
+export { MapLegend } from './components/MapLegend';
 
 // Type exports
 export type { MapViewState, MapLibreMapProps } from './components/MapLibreMap';
 export type { VectorTileLayerProps } from './components/VectorTileLayer';
 export type { LayerOptions, MapWithVectorTilesProps } from './components/MapWithVectorTiles';
+export type { MapLegendItem, MapLegendProps } from './components/MapLegend';
 
 // Re-export important MapLibre types for convenience
 export type {
   Map as MapLibreMapInstance,
   FilterSpecification,
   SourceSpecification,
+  StyleSpecification,
   VectorSourceSpecification,
 } from 'maplibre-gl';
\ No newline at end of file
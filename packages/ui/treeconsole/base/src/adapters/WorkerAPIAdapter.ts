@@ -7,7 +7,15 @@
  */
 
 import type { WorkerAPI } from '@hierarchidb/common-api';
-import type { NodeId } from '@hierarchidb/common-core';
+import type {
+  CommitConflict,
+  FullTextSearchOptions,
+  NodeId,
+  NodeQueryOptions,
+  NodeQueryResult,
+  SearchHit,
+  TreeNode,
+} from '@hierarchidb/common-core';
 // import { TreeObservableAdapter } from './subscriptions/TreeObservableAdapter'; // Currently unused
 import { TreeMutationCommandsAdapter } from './commands/TreeMutationCommands';
 import { WorkingCopyCommandsAdapter, WorkingCopyEditSession } from './commands/WorkingCopyCommands';
@@ -119,6 +127,40 @@ export class WorkerAPIAdapter {
       .then((subscriptionId) => () => this.subscriptionManager.unsubscribe(subscriptionId));
   }
 
+  /**
+   * スマートフォルダの子（保存されたクエリの結果）を監視
+   */
+  async subscribeToSmartFolder(
+    nodeId: NodeId,
+    callback: (result: NodeQueryResult) => void,
+    contextOverrides?: Partial<AdapterContext>
+  ): Promise<UnsubscribeFunction> {
+    const context = this.createDefaultContext(contextOverrides);
+    return this.subscriptionManager
+      .subscribeToSmartFolder(nodeId, callback, context)
+      .then((subscriptionId) => () => this.subscriptionManager.unsubscribe(subscriptionId));
+  }
+
+  // =====================
+  // Query Operations
+  // =====================
+
+  /**
+   * 全文検索（ノード名・説明・プラグインの検索対象フィールド）
+   */
+  async searchFullText(options: FullTextSearchOptions): Promise<SearchHit[]> {
+    const queryAPI = await this.workerAPI.getQueryAPI();
+    return queryAPI.searchFullText(options);
+  }
+
+  /**
+   * 構造化クエリでノードを絞り込み（`type:basemap updated>2026-01-01` など）
+   */
+  async queryNodes(options: NodeQueryOptions): Promise<NodeQueryResult> {
+    const queryAPI = await this.workerAPI.getQueryAPI();
+    return queryAPI.queryNodes(options);
+  }
+
   // =====================
   // Mutation Operations (CRUD)
   // =====================
@@ -226,6 +268,19 @@ export class WorkerAPIAdapter {
     return this.workingCopyAdapter.commitNodeEdit(editSession, options);
   }
 
+  /**
+   * 競合をマージした内容で再保存（既存ノード編集）
+   */
+  async resolveCommitConflict(
+    editSession: WorkingCopyEditSession,
+    merged: Partial<TreeNode>,
+    conflict: CommitConflict,
+    contextOverrides?: Partial<AdapterContext>
+  ): Promise<void> {
+    const options = this.createDefaultOptions(contextOverrides);
+    return this.workingCopyAdapter.resolveCommitConflict(editSession, merged, conflict, options);
+  }
+
   /**
    * Working Copyの変更を保存（新規ノード作成）
    */
@@ -50,11 +50,14 @@ export class TreeMutationCommandsAdapter {
       );
 
       const mutationAPI = await this.workerAPI.getMutationAPI();
-      const result = await mutationAPI.moveNodes({
-        nodeIds: command.payload.nodeIds,
-        toParentId: command.payload.toParentId,
-        onNameConflict: command.payload.onNameConflict
-      });
+      const result = await mutationAPI.moveNodes(
+        {
+          nodeIds: command.payload.nodeIds,
+          toParentId: command.payload.toParentId,
+          onNameConflict: command.payload.onNameConflict,
+        },
+        { groupId: command.groupId, sourceViewId: command.sourceViewId }
+      );
 
       if (!result.success) {
         throw new TreeConsoleAdapterError(
@@ -95,7 +98,10 @@ export class TreeMutationCommandsAdapter {
       );
 
       const mutationAPI = await this.workerAPI.getMutationAPI();
-      const result = await mutationAPI.moveNodesToTrash(command.payload.nodeIds);
+      const result = await mutationAPI.moveNodesToTrash(command.payload.nodeIds, {
+        groupId: command.groupId,
+        sourceViewId: command.sourceViewId,
+      });
 
       if (!result.success) {
         throw new TreeConsoleAdapterError(
@@ -143,10 +149,13 @@ export class TreeMutationCommandsAdapter {
       );
 
       const mutationAPI = await this.workerAPI.getMutationAPI();
-      const result = await mutationAPI.duplicateNodes({
-        nodeIds: command.payload.nodeIds,
-        toParentId: command.payload.toParentId
-      });
+      const result = await mutationAPI.duplicateNodes(
+        {
+          nodeIds: command.payload.nodeIds,
+          toParentId: command.payload.toParentId,
+        },
+        { groupId: command.groupId, sourceViewId: command.sourceViewId }
+      );
 
       if (!result.success) {
         throw new TreeConsoleAdapterError(
@@ -220,7 +229,10 @@ export class TreeMutationCommandsAdapter {
       );
 
       const mutationAPI = await this.workerAPI.getMutationAPI();
-      const result = await mutationAPI.removeNodes(command.payload.nodeIds);
+      const result = await mutationAPI.removeNodes(command.payload.nodeIds, {
+        groupId: command.groupId,
+        sourceViewId: command.sourceViewId,
+      });
 
       if (!result.success) {
         throw new TreeConsoleAdapterError(
@@ -268,10 +280,13 @@ export class TreeMutationCommandsAdapter {
       );
 
       const mutationAPI = await this.workerAPI.getMutationAPI();
-      const result = await mutationAPI.recoverNodesFromTrash({
-        nodeIds: command.payload.nodeIds,
-        toParentId: command.payload.toParentId
-      });
+      const result = await mutationAPI.recoverNodesFromTrash(
+        {
+          nodeIds: command.payload.nodeIds,
+          toParentId: command.payload.toParentId,
+        },
+        { groupId: command.groupId, sourceViewId: command.sourceViewId }
+      );
 
       if (!result.success) {
         throw new TreeConsoleAdapterError(
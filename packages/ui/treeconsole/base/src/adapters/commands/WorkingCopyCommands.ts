@@ -10,11 +10,13 @@ import type {
   NodeId,
   TreeNode,
   Timestamp,
+  WorkingCopy,
+  CommitConflict,
   CommitWorkingCopyPayload,
   CommitWorkingCopyForCreatePayload,
   DiscardWorkingCopyPayload,
 } from '@hierarchidb/common-core';
-import { createCommand, createAdapterCommandId } from '../utils';
+import { createCommand } from '../utils';
 import type { CommandAdapterOptions } from '../../types/index';
 import { TreeConsoleAdapterError } from '../../types/index';
 
@@ -41,17 +43,15 @@ export class WorkingCopyCommandsAdapter {
     _options: CommandAdapterOptions
   ): Promise<WorkingCopyEditSession> {
     try {
-      // Command creation is no longer needed with the new API
-      const workingCopyId = createAdapterCommandId();
-
       const workingCopyAPI = await this.workerAPI.getWorkingCopyAPI();
       await workingCopyAPI.createWorkingCopyFromNode(sourceNodeId);
 
       // 現在のノードデータを取得（expectedUpdatedAtの設定用）
       const currentNodeData = await this.getCurrentNodeData(sourceNodeId);
 
+      // 既存ノードのWorking CopyはノードIDをキーに作られる
       return {
-        workingCopyId,
+        workingCopyId: sourceNodeId,
         sourceId: sourceNodeId,
         isCreate: false,
         expectedUpdatedAt: currentNodeData?.updatedAt,
@@ -137,10 +137,20 @@ export class WorkingCopyCommandsAdapter {
 
       const workingCopyAPI = await this.workerAPI.getWorkingCopyAPI();
       const result = await workingCopyAPI.commitWorkingCopy(
-        command.payload.workingCopyId as NodeId
+        command.payload.workingCopyId as NodeId,
+        command.payload.expectedUpdatedAt,
+        { groupId: command.groupId, sourceViewId: command.sourceViewId }
       );
 
       if (!result.success) {
+        // 競合時はマージダイアログ用に双方の状態をcontextに載せる
+        if (result.conflict) {
+          throw new TreeConsoleAdapterError(
+            `Node was modified by another user: ${result.conflict.fields.join(', ')}`,
+            'COMMIT_NODE_EDIT_CONFLICT',
+            result.conflict
+          );
+        }
         throw new TreeConsoleAdapterError(
           `Failed to commit node edit: ${result.error || 'Unknown error'}`,
           'COMMIT_NODE_EDIT_FAILED'
@@ -158,6 +168,44 @@ export class WorkingCopyCommandsAdapter {
     }
   }
 
+  /**
+   * 競合を解決して再保存（既存ノード編集）
+   *
+   * マージ結果をWorking Copyに反映し、相手側の版を基準として再度コミットします。
+   * その間にさらに更新されていれば、再び COMMIT_NODE_EDIT_CONFLICT になります。
+   *
+   * @param editSession 編集セッション情報
+   * @param merged マージダイアログで選択されたフィールド値
+   * @param conflict 直前のコミットで返された競合情報
+   * @param options アダプター実行オプション
+   * @returns Promise<void>
+   */
+  async resolveCommitConflict(
+    editSession: WorkingCopyEditSession,
+    merged: Partial<TreeNode>,
+    conflict: CommitConflict,
+    options: CommandAdapterOptions
+  ): Promise<void> {
+    const rebased: Partial<WorkingCopy> = {
+      ...merged,
+      originalVersion: conflict.theirs.version,
+    };
+
+    try {
+      const workingCopyAPI = await this.workerAPI.getWorkingCopyAPI();
+      await workingCopyAPI.updateWorkingCopy(editSession.workingCopyId as NodeId, rebased);
+    } catch (error) {
+      throw new TreeConsoleAdapterError(
+        `Failed to apply merged changes to working copy ${editSession.workingCopyId}`,
+        'RESOLVE_CONFLICT_ERROR',
+        error as Error
+      );
+    }
+
+    editSession.expectedUpdatedAt = conflict.theirs.updatedAt;
+    await this.commitNodeEdit(editSession, options);
+  }
+
   /**
    * Working Copyの変更を保存（新規ノード作成）
    *
@@ -191,7 +239,9 @@ export class WorkingCopyCommandsAdapter {
 
       const workingCopyAPI = await this.workerAPI.getWorkingCopyAPI();
       const result = await workingCopyAPI.commitWorkingCopy(
-        command.payload.workingCopyId as NodeId
+        command.payload.workingCopyId as NodeId,
+        undefined,
+        { groupId: command.groupId, sourceViewId: command.sourceViewId }
       );
 
       if (!result.success) {
@@ -6,7 +6,7 @@
  */
 
 import type { WorkerAPI } from '@hierarchidb/common-api';
-import type { NodeId } from '@hierarchidb/common-core';
+import type { NodeId, NodeQueryResult } from '@hierarchidb/common-core';
 import { TreeObservableAdapter } from './TreeObservableAdapter';
 import type { AdapterContext, UnsubscribeFunction } from '../../types/index';
 import type { TreeNodeEvent } from '@hierarchidb/common-core';
@@ -16,7 +16,7 @@ import { TreeConsoleAdapterError } from '../../types/index';
 
 interface SubscriptionEntry {
   id: string;
-  type: 'subtree' | 'node' | 'children';
+  type: 'subtree' | 'node' | 'children' | 'smartFolder';
   nodeId: NodeId;
   unsubscribe: UnsubscribeFunction;
   createdAt: number;
@@ -144,6 +144,43 @@ export class SubscriptionManager {
     }
   }
 
+  /**
+   * スマートフォルダの子（クエリ結果）のサブスクリプションを作成
+   *
+   * @param nodeId スマートフォルダのノードID
+   * @param callback クエリ結果の更新コールバック
+   * @param context アダプター実行コンテキスト
+   * @returns サブスクリプションID
+   */
+  async subscribeToSmartFolder(
+    nodeId: NodeId,
+    callback: (result: NodeQueryResult) => void,
+    context: AdapterContext
+  ): Promise<string> {
+    try {
+      const subscriptionId = `smartfolder_${nodeId}_${Date.now()}`;
+
+      const unsubscribe = await this.adapter.subscribeToSmartFolder(nodeId, callback, context);
+
+      const entry: SubscriptionEntry = {
+        id: subscriptionId,
+        type: 'smartFolder',
+        nodeId,
+        unsubscribe,
+        createdAt: Date.now(),
+      };
+
+      this.subscriptions.set(subscriptionId, entry);
+      return subscriptionId;
+    } catch (error) {
+      throw new TreeConsoleAdapterError(
+        `Failed to create smart folder subscription for node ${nodeId}`,
+        'SMART_FOLDER_SUBSCRIPTION_MANAGER_ERROR',
+        error as Error
+      );
+    }
+  }
+
   /**
    * 特定のサブスクリプションを解除
    *
@@ -183,7 +220,7 @@ export class SubscriptionManager {
    *
    * @param type サブスクリプション種別
    */
-  unsubscribeByType(type: 'subtree' | 'node' | 'children'): void {
+  unsubscribeByType(type: SubscriptionEntry['type']): void {
     const toRemove: string[] = [];
 
     this.subscriptions.forEach((entry, subscriptionId) => {
@@ -240,7 +277,7 @@ export class SubscriptionManager {
   } {
     const stats = {
       total: this.subscriptions.size,
-      byType: { subtree: 0, node: 0, children: 0 },
+      byType: { subtree: 0, node: 0, children: 0, smartFolder: 0 },
       byNodeId: {} as Record<string, number>,
       oldestSubscription: undefined as { id: string; ageMs: number } | undefined,
     };
@@ -7,7 +7,7 @@
 
 // import { Observable } from 'rxjs'; // TODO: will be used when implementing actual Observable subscriptions
 import type { WorkerAPI } from '@hierarchidb/common-api';
-import type { NodeId, TreeNodeEvent } from '@hierarchidb/common-core';
+import type { NodeId, NodeQueryResult, TreeNodeEvent } from '@hierarchidb/common-core';
 import type { UnsubscribeFunction, AdapterContext } from '../../types/index';
 
 type TreeNodeEventCallback = (event: TreeNodeEvent) => void;
@@ -128,6 +128,42 @@ export class TreeObservableAdapter {
     }
   }
 
+  /**
+   * スマートフォルダの子（保存されたクエリの結果）の監視
+   *
+   * @param nodeId スマートフォルダのノードID
+   * @param callback クエリ結果が更新されたときのコールバック（購読開始時にも呼ばれる）
+   * @param context アダプター実行コンテキスト
+   * @returns サブスクリプション解除関数
+   */
+  async subscribeToSmartFolder(
+    nodeId: NodeId,
+    callback: (result: NodeQueryResult) => void,
+    context: AdapterContext
+  ): Promise<UnsubscribeFunction> {
+    try {
+      const subscriptionAPI = await this.workerAPI.getSubscriptionAPI();
+
+      const subscriptionId = await subscriptionAPI.subscribeSmartFolder(nodeId, callback);
+
+      const internalSubscriptionId = `smartfolder_${nodeId}_${context.viewId}`;
+      const wrappedUnsubscribe = async () => {
+        await subscriptionAPI.unsubscribe(subscriptionId);
+        this.subscriptions.delete(internalSubscriptionId);
+      };
+
+      this.subscriptions.set(internalSubscriptionId, wrappedUnsubscribe);
+
+      return wrappedUnsubscribe;
+    } catch (error) {
+      throw new TreeConsoleAdapterError(
+        `Failed to subscribe to smart folder ${nodeId}`,
+        'SMART_FOLDER_SUBSCRIPTION_INIT_ERROR',
+        error as Error
+      );
+    }
+  }
+
   /**
    * すべてのサブスクリプションを解除
    */
@@ -9,7 +9,7 @@
  * Phase 5: 仮想スクロール
  */
 
-import { useMemo, useState, MouseEvent } from 'react';
+import { useMemo, useState, DragEvent, MouseEvent } from 'react';
 import {
   useReactTable,
   getCoreRowModel,
@@ -35,9 +35,13 @@ import {
   ChevronRight as ChevronRightIcon,
   DragIndicator as DragIndicatorIcon,
 } from '@mui/icons-material';
+import { SMART_FOLDER_NODE_TYPE } from '@hierarchidb/common-core';
 import type {TreeConsoleContentProps, TreeNode, TreeNodeData, NodeId } from '../../types';
 import { NodeContextMenu, NodeTypeIcon } from '@hierarchidb/ui-treeconsole-breadcrumb';
 
+// ドラッグ中のノードIDを受け渡すデータ形式
+const NODE_DRAG_MIME_TYPE = 'application/x-hierarchidb-node-ids';
+
 // スタイル定義（元のTreeTable.cssを再現）
 const StyledTableContainer = styled(Box)`
   width: 100%;
@@ -165,11 +169,30 @@ export function TreeTableCore({
     node: TreeNode | null;
   }>({ anchorEl: null, node: null });
 
-  // Get data from controller
-  const data = (controller?.data || []) as TreeNodeData[];
   const rowSelection = controller?.rowSelection || {};
   const expandedRowIds = controller?.expandedRowIds || new Set();
 
+  // Get data from controller (structured query results are shown flat, as a smart folder)
+  // Expanded smart folders show their live query results as read-only reference rows
+  const smartFolderChildren = controller?.smartFolderChildren ?? {};
+  const data = ((controller?.queryResultNodes ?? controller?.data ?? []) as TreeNodeData[]).flatMap(
+    (node) => {
+      const children = expandedRowIds.has(node.id) ? smartFolderChildren[node.id] : undefined;
+      if (!children) {
+        return [node];
+      }
+      return [
+        node,
+        ...children.map((child) => ({
+          ...(child as TreeNodeData),
+          depth: (node.depth || 0) + 1,
+          hasChildren: false,
+          smartFolderId: node.id,
+        })),
+      ];
+    }
+  );
+
   // Column definitions
   const columns = useMemo<ColumnDef<TreeNodeData>[]>(() => {
     const baseColumns: ColumnDef<TreeNodeData>[] = [
@@ -181,7 +204,7 @@ export function TreeTableCore({
         cell: ({ row }) => {
           const node = row.original;
           const depth = (node.depth || 0) + depthOffset;
-          const hasChildren = node.hasChildren || false;
+          const hasChildren = node.hasChildren || node.nodeType === SMART_FOLDER_NODE_TYPE;
           const isExpanded = expandedRowIds.has(node.id);
           const isEditing = editingNodeId === node.id;
 
@@ -346,6 +369,10 @@ export function TreeTableCore({
 
   // Event handlers
   const handleStartEdit = (node: TreeNode) => {
+    // Reference rows under a smart folder are read-only
+    if ((node as TreeNodeData).smartFolderId) {
+      return;
+    }
     setEditingNodeId(node.id);
     setEditingValue(node.name);
     controller?.startEdit?.(node.id);
@@ -396,6 +423,43 @@ export function TreeTableCore({
     setContextMenuState({ anchorEl: null, node: null });
   };
 
+  // Drag & drop: dropping onto a row moves the dragged nodes into it, Ctrl/Alt+drop copies them.
+  // Reference rows carry the real node IDs, so dragging them out of a smart folder moves/copies the real nodes.
+  const canDropInto = (node: TreeNodeData) =>
+    !node.smartFolderId && node.nodeType !== SMART_FOLDER_NODE_TYPE;
+
+  const handleDragStart = (node: TreeNode, event: DragEvent) => {
+    const selectedIds = Object.keys(rowSelection).filter((id) => rowSelection[id]) as NodeId[];
+    const nodeIds = selectedIds.includes(node.id) ? selectedIds : [node.id];
+    event.dataTransfer.setData(NODE_DRAG_MIME_TYPE, JSON.stringify(nodeIds));
+    event.dataTransfer.effectAllowed = 'copyMove';
+  };
+
+  const handleDragOver = (node: TreeNodeData, event: DragEvent) => {
+    if (canDropInto(node) && event.dataTransfer.types.includes(NODE_DRAG_MIME_TYPE)) {
+      event.preventDefault();
+      event.dataTransfer.dropEffect = event.ctrlKey || event.altKey ? 'copy' : 'move';
+    }
+  };
+
+  const handleDrop = (node: TreeNodeData, event: DragEvent) => {
+    const payload = event.dataTransfer.getData(NODE_DRAG_MIME_TYPE);
+    if (!payload || !canDropInto(node)) {
+      return;
+    }
+    event.preventDefault();
+
+    const nodeIds = (JSON.parse(payload) as NodeId[]).filter((id) => id !== node.id);
+    if (nodeIds.length === 0) {
+      return;
+    }
+    if (event.ctrlKey || event.altKey) {
+      void controller?.duplicateNodes(nodeIds, node.id);
+    } else {
+      void controller?.moveNodes(nodeIds, node.id);
+    }
+  };
+
   // Render
   return (
     <StyledTableContainer sx={{ height: viewHeight, width: viewWidth }}>
@@ -442,7 +506,11 @@ export function TreeTableCore({
                 onClick={(e) => handleRowClick(node, e)}
                 onDoubleClick={(e) => handleRowDoubleClick(node, e)}
                 onContextMenu={(e) => handleRowContextMenu(node, e)}
-                sx={{ cursor: 'pointer' }}
+                draggable={!disableDragAndDrop}
+                onDragStart={(e) => handleDragStart(node, e)}
+                onDragOver={(e) => handleDragOver(node, e)}
+                onDrop={(e) => handleDrop(node, e)}
+                sx={{ cursor: 'pointer', fontStyle: node.smartFolderId ? 'italic' : undefined }}
               >
                 {row.getVisibleCells().map((cell, index) => (
                   <TableCell 
@@ -473,8 +541,8 @@ export function TreeTableCore({
         nodeId={contextMenuState.node?.id || ''}
         nodeType={contextMenuState.node?.nodeType || 'folder'}
         nodeName={contextMenuState.node?.name}
-        canCreate={true}
-        canEdit={true}
+        canCreate={!!contextMenuState.node && canDropInto(contextMenuState.node as TreeNodeData)}
+        canEdit={!(contextMenuState.node as TreeNodeData | null)?.smartFolderId}
         canRemove={true}
         canDuplicate={true}
         onCreate={(type: string) => {
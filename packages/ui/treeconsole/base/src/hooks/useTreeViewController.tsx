@@ -18,8 +18,10 @@ import type {
   SelectionMode,
   UndoRedoResult,
   UndoRedoCommand,
+  UnsubscribeFunction,
 } from '../types/index';
-import type { NodeId, TreeNode } from '@hierarchidb/common-core';
+import { SMART_FOLDER_NODE_TYPE } from '@hierarchidb/common-core';
+import type { NodeId, SearchHit, TreeId, TreeNode } from '@hierarchidb/common-core';
 import type { RowSelectionState } from '@tanstack/react-table';
 import {
   useCopyPasteOperations,
@@ -31,6 +33,9 @@ import {
 import { useUndoRedoOperations } from './useUndoRedoOperations';
 import { useCRUDOperations } from './useCRUDOperations';
 
+// フィールド指定（type:, updated> など）を含む検索入力
+const STRUCTURED_QUERY_PATTERN = /(^|[\s(-])[a-zA-Z]+(:|>=?|<=?|=)\S/;
+
 export interface TreeViewControllerProps {
   /** Tree ID */
   treeId: string;
@@ -65,6 +70,9 @@ export interface UseTreeViewControllerReturn extends TreeViewController {
   // 検索関連
   searchText?: string;
   handleSearchTextChange?: (searchText: string) => void;
+  searchHits?: SearchHit[];
+  queryResultNodes?: TreeNode[] | null;
+  queryError?: string;
   filteredItemCount?: number;
   totalItemCount?: number;
 
@@ -76,12 +84,14 @@ export interface UseTreeViewControllerReturn extends TreeViewController {
   // テーブル状態
   data?: TreeNode[];
   expandedRowIds?: Set<NodeId>; // 展開状態
+  smartFolderChildren?: Record<NodeId, TreeNode[]>;
 
   // 基本操作
   selectNode: (nodeId: NodeId) => void;
   selectMultipleNodes: (nodeIds: NodeId[]) => void;
   expandNode: (nodeId: NodeId) => void;
   collapseNode: (nodeId: NodeId) => void;
+  onNodeExpand: (nodeId: NodeId, expanded: boolean) => void;
 
   // CRUD操作
   moveNode: (nodeId: NodeId, targetParentId: NodeId, index?: number) => Promise<void>;
@@ -127,9 +137,9 @@ export function useTreeViewController(
   props: TreeViewControllerProps & UseTreeViewControllerOptions = { treeId: '' }
 ): UseTreeViewControllerReturn {
   const {
-    rootNodeId: _rootNodeId,
+    rootNodeId,
     initialExpandedNodeIds = [],
-    treeId: _treeId = '',
+    treeId = '',
     stateManager,
     onStateChange,
     workerService,
@@ -167,7 +177,10 @@ export function useTreeViewController(
 
   // 検索関連の状態
   const [searchText, setSearchText] = useState<string>('');
-  const [filteredItemCount, _setFilteredItemCount] = useState<number>(0);
+  const [searchHits, setSearchHits] = useState<SearchHit[]>([]);
+  const [queryResultNodes, setQueryResultNodes] = useState<TreeNode[] | null>(null);
+  const [queryError, setQueryError] = useState<string | undefined>(undefined);
+  const [filteredItemCount, setFilteredItemCount] = useState<number>(0);
   const [totalItemCount, _setTotalItemCount] = useState<number>(0);
 
   // 選択関連の状態
@@ -313,15 +326,107 @@ export function useTreeViewController(
     setExpandedNodes((prev) => prev.filter((id) => id !== nodeId));
   }, []);
 
-  // 検索関連の操作（IndexedDBの制約により未実装）
-  const handleSearchTextChange = useCallback((newSearchText: string) => {
-    setSearchText(newSearchText);
-    // IndexedDBでは部分一致検索が困難（Nグラム化などの工数の多い対応が必要）
-    // 現段階では完全一致・前方一致・後方一致のみ対応可能だが、要件に合わない
-    throw new Error(
-      'Text search not implemented yet - IndexedDB limitations require N-gram indexing'
+  const onNodeExpand = useCallback(
+    (nodeId: NodeId, expanded: boolean) => {
+      if (expanded) {
+        expandNode(nodeId);
+      } else {
+        collapseNode(nodeId);
+      }
+    },
+    [expandNode, collapseNode]
+  );
+
+  // スマートフォルダの子（保存されたクエリの結果）
+  // 展開中のスマートフォルダのみ購読し、ノードの変更に追従して更新する
+  const [smartFolderChildren, setSmartFolderChildren] = useState<Record<NodeId, TreeNode[]>>({});
+  const smartFolderSubscriptionsRef = useRef(new Map<NodeId, Promise<UnsubscribeFunction>>());
+  useEffect(() => {
+    if (!workerAdapter) {
+      return;
+    }
+    const subscriptions = smartFolderSubscriptionsRef.current;
+    const expandedSmartFolderIds = new Set(
+      data
+        .filter((node) => node.nodeType === SMART_FOLDER_NODE_TYPE)
+        .map((node) => node.id)
+        .filter((nodeId) => expandedNodes.includes(nodeId))
     );
-  }, []);
+
+    for (const nodeId of expandedSmartFolderIds) {
+      if (!subscriptions.has(nodeId)) {
+        const unsubscribe = workerAdapter.subscribeToSmartFolder(nodeId, (result) => {
+          if (result.success) {
+            setSmartFolderChildren((prev) => ({ ...prev, [nodeId]: result.nodes }));
+          }
+        });
+        unsubscribe.catch((error) => console.error('Failed to subscribe to smart folder:', error));
+        subscriptions.set(nodeId, unsubscribe);
+      }
+    }
+    for (const [nodeId, unsubscribe] of subscriptions) {
+      if (!expandedSmartFolderIds.has(nodeId)) {
+        subscriptions.delete(nodeId);
+        void unsubscribe.then((fn) => fn()).catch(() => undefined);
+        setSmartFolderChildren(({ [nodeId]: _removed, ...rest }) => rest);
+      }
+    }
+  }, [workerAdapter, data, expandedNodes]);
+
+  const expandedRowIds = useMemo(() => new Set(expandedNodes), [expandedNodes]);
+
+  // 検索関連の操作
+  // `type:basemap` のようなフィールド指定を含む入力は構造化クエリ、それ以外は全文検索として扱う
+  // 入力中に古い検索結果で上書きしないよう、最新の検索のみ反映する
+  const latestSearchRef = useRef(0);
+  const handleSearchTextChange = useCallback(
+    async (newSearchText: string) => {
+      setSearchText(newSearchText);
+      const searchId = ++latestSearchRef.current;
+      const scope = {
+        rootNodeId,
+        treeId: rootNodeId ? undefined : (treeId as TreeId) || undefined,
+      };
+
+      if (!newSearchText.trim() || !workerAdapter) {
+        setSearchHits([]);
+        setQueryResultNodes(null);
+        setQueryError(undefined);
+        setFilteredItemCount(0);
+        return;
+      }
+
+      try {
+        if (STRUCTURED_QUERY_PATTERN.test(newSearchText)) {
+          const result = await workerAdapter.queryNodes({ query: newSearchText, ...scope });
+          if (searchId !== latestSearchRef.current) {
+            return;
+          }
+          // 入力途中の構文エラーでは直前の結果を残す
+          if (!result.success) {
+            setQueryError(result.error);
+            return;
+          }
+          setSearchHits([]);
+          setQueryResultNodes(result.nodes);
+          setQueryError(undefined);
+          setFilteredItemCount(result.total);
+          return;
+        }
+
+        const hits = await workerAdapter.searchFullText({ query: newSearchText, ...scope });
+        if (searchId === latestSearchRef.current) {
+          setSearchHits(hits);
+          setQueryResultNodes(null);
+          setQueryError(undefined);
+          setFilteredItemCount(hits.length);
+        }
+      } catch (error) {
+        console.error('Failed to search nodes:', error);
+      }
+    },
+    [workerAdapter, rootNodeId, treeId]
+  );
 
   // 選択モード変更
   const handleSetSelectionMode = useCallback((mode: SelectionMode) => {
@@ -336,12 +441,12 @@ export function useTreeViewController(
   useEffect(() => {
     return () => {
       workerAdapter?.cleanup();
+      smartFolderSubscriptionsRef.current.clear();
     };
   }, [workerAdapter]);
 
   // TODO: 実装時に以下を段階的に追加
   // - サブスクリプション管理（部分木監視等）
-  // - 検索機能
   // - Import/Export
   // - ショートカットキー処理
   // - エラーハンドリング
@@ -359,6 +464,9 @@ export function useTreeViewController(
     // 検索関連
     searchText,
     handleSearchTextChange,
+    searchHits,
+    queryResultNodes,
+    queryError,
     filteredItemCount,
     totalItemCount,
 
@@ -369,12 +477,15 @@ export function useTreeViewController(
 
     // テーブル状態
     data,
+    expandedRowIds,
+    smartFolderChildren,
 
     // 基本操作
     selectNode,
     selectMultipleNodes,
     expandNode,
     collapseNode,
+    onNodeExpand,
 
     // 【抽出されたhooks展開】: CRUD操作 🟢
     ...crudOps,
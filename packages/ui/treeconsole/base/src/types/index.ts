@@ -4,7 +4,7 @@
  * 既存コードから抽出した型定義を新しいAPIに適応させたもの。
  */
 
-import type { NodeId, TreeNode, NodeType } from '@hierarchidb/common-core';
+import type { NodeId, TreeNode, NodeType, SearchHit } from '@hierarchidb/common-core';
 import type { WorkerAPI } from '@hierarchidb/common-api';
 import type { ReactNode } from 'react';
 import type { RowSelectionState } from '@tanstack/react-table';
@@ -219,6 +219,11 @@ export interface TreeViewController {
   // 検索関連
   searchText?: string;
   handleSearchTextChange?: (searchText: string) => void;
+  // 全文検索のヒット（スコア順、スニペット・ハイライト付き）
+  searchHits?: SearchHit[];
+  // 構造化クエリの結果（スマートフォルダとしてフラットに表示）。クエリ以外の検索ではnull
+  queryResultNodes?: TreeNode[] | null;
+  queryError?: string;
   filteredItemCount?: number;
   totalItemCount?: number;
 
@@ -230,6 +235,8 @@ export interface TreeViewController {
   // テーブル状態（TanStack Table関連）
   data?: TreeNode[]; // テーブルデータ
   expandedRowIds?: Set<NodeId>; // 展開状態
+  // 展開中のスマートフォルダの子（保存されたクエリの結果、変更に追従して更新）
+  smartFolderChildren?: Record<NodeId, TreeNode[]>;
 
   // 基本操作
   selectNode: (nodeId: NodeId) => void;
@@ -283,6 +290,8 @@ export interface TreeNodeData extends TreeNode {
   hasChildren?: boolean;
   deletedAt?: string | number;
   type?: NodeType; // backward compatibility
+  // スマートフォルダの仮想的な子の場合、そのスマートフォルダのID（実ノードへの読み取り専用の参照）
+  smartFolderId?: NodeId;
 }
 
 // 追加のUI状態型